@@ -5,11 +5,18 @@
  * Runs independently from scheduler worker - communicates via database.
  */
 
+import type { Logger } from "@cronicorn/domain";
+
 import { openai } from "@ai-sdk/openai";
 import { createVercelAiClient } from "@cronicorn/adapter-ai";
-import { DrizzleJobsRepo, DrizzleQuotaGuard, DrizzleRunsRepo, DrizzleSessionsRepo, schema } from "@cronicorn/adapter-drizzle";
+import { DrizzleAuditRepo, DrizzleJobsRepo, DrizzleNotificationsRepo, DrizzleQuotaGuard, DrizzleRunsRepo, DrizzleSessionsRepo, DrizzleSigningKeyProvider, schema } from "@cronicorn/adapter-drizzle";
+import { createNotificationSender } from "@cronicorn/adapter-notifications";
+import { OtelTracer, traceMethods } from "@cronicorn/adapter-otel";
+import { PrometheusMetrics, startMetricsServer } from "@cronicorn/adapter-prometheus";
 import { SystemClock } from "@cronicorn/adapter-system-clock";
-import { DEV_DATABASE } from "@cronicorn/config-defaults";
+import { DEV_DATABASE, DEV_URLS } from "@cronicorn/config-defaults";
+import { noopTracer } from "@cronicorn/domain";
+import { AlertsService } from "@cronicorn/services/notifications";
 import { AIPlanner } from "@cronicorn/worker-ai-planner";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
@@ -18,7 +25,7 @@ import { z } from "zod";
 /**
  * Structured JSON logger
  */
-function logger(level: "info" | "warn" | "error" | "fatal", message: string, meta?: Record<string, unknown>) {
+function logger(level: "debug" | "info" | "warn" | "error" | "fatal", message: string, meta?: Record<string, unknown>) {
   // eslint-disable-next-line no-console
   console.log(JSON.stringify({
     timestamp: new Date().toISOString(),
@@ -28,6 +35,29 @@ function logger(level: "info" | "warn" | "error" | "fatal", message: string, met
   }));
 }
 
+/**
+ * Domain Logger port over the JSON logger, for services that expect one (alerting)
+ */
+function createDomainLogger(bindings: Record<string, unknown> = {}): Logger {
+  const log = (level: "debug" | "info" | "warn" | "error") =>
+    (objOrMsg: string | Record<string, unknown>, msg?: string) => {
+      if (typeof objOrMsg === "string") {
+        logger(level, objOrMsg, bindings);
+      }
+      else {
+        logger(level, msg ?? "", { ...bindings, ...objOrMsg });
+      }
+    };
+
+  return {
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    debug: log("debug"),
+    child: childBindings => createDomainLogger({ ...bindings, ...childBindings }),
+  };
+}
+
 /**
  * Configuration schema with sensible defaults
  */
@@ -42,6 +72,21 @@ const configSchema = z.object({
   AI_MAX_TOKENS: z.coerce.number().int().positive().default(8192), // Per-step output limit; must exceed longest tool call JSON. Model max is 16384.
   AI_TEMPERATURE: z.coerce.number().min(0).max(2).default(0.7),
   SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(30000), // 30 seconds
+  // Prometheus scrape endpoint (GET /metrics); 0 disables it
+  METRICS_PORT: z.coerce.number().int().nonnegative().default(9465),
+  METRICS_HOST: z.string().min(1).optional(),
+  // OpenTelemetry tracing is enabled when a collector is configured; the exporter also
+  // honors the other standard OTEL_EXPORTER_OTLP_* variables (headers, protocol paths)
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_SERVICE_NAME: z.string().min(1).default("cronicorn-ai-planner"),
+  // SMTP for email notification channels (email delivery is disabled without SMTP_HOST)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false"), // true for implicit TLS (port 465)
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().min(1).default("Cronicorn <alerts@localhost>"),
+  WEB_URL: z.string().url().default(DEV_URLS.WEB), // Linked from notifications
 });
 
 type Config = z.infer<typeof configSchema>;
@@ -68,13 +113,40 @@ async function main() {
   });
   const db = drizzle(pool, { schema });
 
+  const otelTracer = config.OTEL_EXPORTER_OTLP_ENDPOINT ? new OtelTracer({ serviceName: config.OTEL_SERVICE_NAME }) : null;
+  const tracer = otelTracer ?? noopTracer;
+
   // Instantiate adapters
   const clock = new SystemClock();
-  const jobsRepo = new DrizzleJobsRepo(db);
-  const runsRepo = new DrizzleRunsRepo(db);
-  const sessionsRepo = new DrizzleSessionsRepo(db);
+  const jobsRepo = traceMethods(new DrizzleJobsRepo(db), tracer, "JobsRepo");
+  const runsRepo = traceMethods(new DrizzleRunsRepo(db), tracer, "RunsRepo");
+  const sessionsRepo = traceMethods(new DrizzleSessionsRepo(db), tracer, "SessionsRepo");
   const quotaGuard = new DrizzleQuotaGuard(db);
 
+  // Alerting: notifies subscribed channels when the planner pauses an endpoint
+  const alertsLogger = createDomainLogger({ component: "alerts" });
+  const alerts = new AlertsService({
+    notifications: new DrizzleNotificationsRepo(db),
+    runs: runsRepo,
+    sender: createNotificationSender({
+      smtp: config.SMTP_HOST
+        ? {
+            host: config.SMTP_HOST,
+            port: config.SMTP_PORT,
+            secure: config.SMTP_SECURE === "true",
+            user: config.SMTP_USER,
+            password: config.SMTP_PASSWORD,
+            from: config.SMTP_FROM,
+          }
+        : undefined,
+      appUrl: config.WEB_URL,
+      keyProvider: new DrizzleSigningKeyProvider(db),
+      logger: alertsLogger,
+      clock,
+    }),
+    logger: alertsLogger,
+  });
+
   // Create AI client
   const aiClient = createVercelAiClient({
     model: openai(config.AI_MODEL),
@@ -91,6 +163,11 @@ async function main() {
     },
   });
 
+  const metrics = new PrometheusMetrics({ defaultLabels: { service: "ai-planner" } });
+  const metricsServer = config.METRICS_PORT > 0
+    ? await startMetricsServer(metrics, { port: config.METRICS_PORT, host: config.METRICS_HOST }, createDomainLogger({ component: "metrics" }))
+    : null;
+
   // Create AI Planner
   const planner = new AIPlanner({
     aiClient,
@@ -105,6 +182,10 @@ async function main() {
       error: (msg: string, meta?: Record<string, unknown>) => logger("error", msg, meta),
     },
     maxTokens: config.AI_MAX_TOKENS,
+    events: alerts,
+    audit: new DrizzleAuditRepo(db),
+    metrics,
+    tracer,
   });
 
   // State for tick loop and shutdown
@@ -116,6 +197,8 @@ async function main() {
     analysisIntervalMs: config.AI_ANALYSIS_INTERVAL_MS,
     lookbackMinutes: config.AI_LOOKBACK_MINUTES,
     maxTokens: config.AI_MAX_TOKENS,
+    metricsPort: metricsServer ? config.METRICS_PORT : undefined,
+    tracing: Boolean(otelTracer),
   });
 
   /**
@@ -255,6 +338,8 @@ async function main() {
       }
     }
 
+    metricsServer?.close();
+    await otelTracer?.shutdown();
     await pool.end();
     logger("info", "AI Planner shutdown complete");
     process.exit(0);
@@ -1,12 +1,15 @@
-import type { Dispatcher, PaymentProvider } from "@cronicorn/domain";
+import type { Dispatcher, PaymentProvider, Tracer } from "@cronicorn/domain";
 
 import { CronParserAdapter } from "@cronicorn/adapter-cron";
-import { DrizzleSigningKeyProvider } from "@cronicorn/adapter-drizzle";
-import { HttpDispatcher, SigningDispatcher } from "@cronicorn/adapter-http";
+import { DrizzleAuthProfileProvider, DrizzleSecretsProvider, DrizzleSigningKeyProvider, DrizzleTlsCredentialProvider, SecretCipher } from "@cronicorn/adapter-drizzle";
+import { HttpDispatcher, OAuth2Dispatcher, SecretsDispatcher, SigningDispatcher, TracingDispatcher } from "@cronicorn/adapter-http";
+import { createNotificationSender, EmailInvitationSender } from "@cronicorn/adapter-notifications";
 import { PinoLoggerAdapter } from "@cronicorn/adapter-pino";
 import { StripePaymentProvider } from "@cronicorn/adapter-stripe";
 import { SystemClock } from "@cronicorn/adapter-system-clock";
+import { MAX_CHECK_IN_BODY_KB, noopTracer } from "@cronicorn/domain";
 import { sql } from "drizzle-orm";
+import { bodyLimit } from "hono/body-limit";
 import { cors } from "hono/cors";
 import { csrf } from "hono/csrf";
 
@@ -16,23 +19,38 @@ import type { Database } from "./lib/db.js";
 
 import { createAuth } from "./auth/config.js";
 import { requireAuth } from "./auth/middleware.js";
+import { createAuditLog, createAuditManager } from "./lib/create-audit-manager.js";
+import { createAuthProfilesRepo } from "./lib/create-auth-profiles-repo.js";
 import { createDashboardManager } from "./lib/create-dashboard-manager.js";
 import { createJobsManager } from "./lib/create-jobs-manager.js";
+import { createAlertsService, createNotificationsManager, smtpConfigFromEnv } from "./lib/create-notifications-manager.js";
+import { createOrgAccess, createOrganizationsManager } from "./lib/create-organizations-manager.js";
+import { createSecretsRepo } from "./lib/create-secrets-repo.js";
 import { createSigningKeysRepo } from "./lib/create-signing-keys-repo.js";
 import { createSubscriptionsManager } from "./lib/create-subscriptions-manager.js";
+import { createTlsCredentialsRepo } from "./lib/create-tls-credentials-repo.js";
 import { errorHandler } from "./lib/error-handler.js";
 import { logger } from "./lib/logger.js";
 import configureOpenAPI from "./lib/openapi.js";
-import { createRateLimitMiddleware, startRateLimitCleanup } from "./lib/rate-limiter.js";
+import { createKeyedRateLimitMiddleware, createRateLimiter, createRateLimitMiddleware, startRateLimitCleanup } from "./lib/rate-limiter.js";
 import { requestIdMiddleware } from "./lib/request-id.js";
 import { requestLoggerMiddleware } from "./lib/request-logger.js";
 import { securityHeadersMiddleware } from "./lib/security-headers.js";
+import { tracingMiddleware } from "./lib/tracing.js";
+import audit from "./routes/audit/audit.index.js";
+import authProfiles from "./routes/auth-profiles/auth-profiles.index.js";
 import authConfig from "./routes/auth/auth-config.index.js";
 import dashboard from "./routes/dashboard/dashboard.index.js";
 import devices from "./routes/devices/devices.index.js";
 import jobs from "./routes/jobs/jobs.index.js";
+import notifications from "./routes/notifications/notifications.index.js";
+import orgs from "./routes/orgs/orgs.index.js";
+import ping from "./routes/ping/ping.index.js";
+import secrets from "./routes/secrets/secrets.index.js";
 import signingKeys from "./routes/signing-keys/signing-keys.index.js";
 import subscriptions from "./routes/subscriptions/subscriptions.index.js";
+import tlsCredentials from "./routes/tls-credentials/tls-credentials.index.js";
+import triggers from "./routes/triggers/triggers.index.js";
 import webhooks from "./routes/webhooks.js";
 import { type AppOpenAPI, createRouter } from "./types.js";
 
@@ -44,6 +62,7 @@ export async function createApp(
     useTransactions?: boolean; // Explicit control for tests
     paymentProvider?: PaymentProvider; // Optional payment provider for DI testing
     dispatcher?: Dispatcher; // Optional dispatcher for DI testing
+    tracer?: Tracer; // Request and dispatch spans (default: tracing off)
   },
 ) {
   // Initialize Better Auth (pass Drizzle instance, not raw pool)
@@ -53,17 +72,47 @@ export async function createApp(
   // Create stateless singletons (safe to reuse across requests)
   const clock = new SystemClock();
   const cron = new CronParserAdapter();
-  const httpDispatcher = new HttpDispatcher();
+  const tracer = options?.tracer ?? noopTracer;
   // @ts-expect-error - Drizzle type mismatch between pnpm versions
   const signingKeyProvider = new DrizzleSigningKeyProvider(db);
   const signingLogger = new PinoLoggerAdapter(logger);
-  const dispatcher: Dispatcher = options?.dispatcher
-    ?? new SigningDispatcher(httpDispatcher, signingKeyProvider, signingLogger, clock);
+  const secretCipher = new SecretCipher(config.SECRETS_ENCRYPTION_KEY);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const tlsCredentialProvider = new DrizzleTlsCredentialProvider(db, secretCipher);
+  const httpDispatcher = new TracingDispatcher(new HttpDispatcher({ tlsCredentials: tlsCredentialProvider }), tracer);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const secretsProvider = new DrizzleSecretsProvider(db, secretCipher);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const authProfileProvider = new DrizzleAuthProfileProvider(db, secretCipher);
+  // Secrets are resolved and bearer tokens added outside signing so signatures cover both
+  const dispatcher: Dispatcher = new SecretsDispatcher(
+    new OAuth2Dispatcher(
+      options?.dispatcher ?? new SigningDispatcher(httpDispatcher, signingKeyProvider, signingLogger, clock),
+      authProfileProvider,
+      signingLogger,
+      clock,
+    ),
+    secretsProvider,
+    signingLogger,
+  );
+  // Used for test sends from the settings page and heartbeat check-in alerts;
+  // alerts for scheduled runs are sent by the workers
+  const notificationSender = createNotificationSender({
+    smtp: smtpConfigFromEnv(config),
+    appUrl: config.WEB_URL,
+    keyProvider: signingKeyProvider,
+    logger: signingLogger,
+    clock,
+  });
+  // Without SMTP, invitation links are returned to the inviter to share directly
+  const smtpConfig = smtpConfigFromEnv(config);
+  const invitationSender = smtpConfig ? new EmailInvitationSender(smtpConfig) : undefined;
 
   // Determine if we should create new transactions or use the passed db directly
   // In tests, db is already a transaction, so we pass useTransactions: false
   // In production, db is a pool, so we default to creating transactions per request
   const shouldCreateTransactions = options?.useTransactions ?? true;
+  const alertsLogger = signingLogger.child({ component: "alerts" });
 
   // Initialize payment provider - use injected provider for testing or create Stripe provider
   const paymentProvider: PaymentProvider = options?.paymentProvider ?? new StripePaymentProvider({
@@ -77,6 +126,10 @@ export async function createApp(
   // eslint-disable-next-line ts/consistent-type-assertions
   const app = createRouter().basePath("/api") as AppOpenAPI;
 
+  // Tracing middleware - runs each request in a span, continuing an incoming traceparent
+  // Registered first so the span covers all other middleware
+  app.use("*", tracingMiddleware(tracer));
+
   // Request ID middleware - generates UUID for each request and adds X-Request-Id header
   // Must run before request-logger so requestId is available for logging
   app.use("*", requestIdMiddleware);
@@ -104,20 +157,19 @@ export async function createApp(
 
   // CSRF protection middleware - validates Origin header on state-changing requests
   // Allows requests from WEB_URL origin and same-origin requests
-  // Excludes webhook routes from validation (they receive cross-site POST from Stripe)
-  app.use(
-    "*",
-    csrf({
-      origin: (origin, c) => {
-        // Skip CSRF validation for webhook routes (external services like Stripe)
-        if (c.req.path.startsWith("/api/webhooks/")) {
-          return true;
-        }
-        // Validate origin for all other routes
-        return origin === config.WEB_URL;
-      },
-    }),
-  );
+  const csrfProtection = csrf({ origin: config.WEB_URL });
+  // Routes called by external systems skip it entirely: csrf rejects a request without an
+  // Origin header before any origin check runs, and curl or cron scripts don't send one.
+  // - Webhook routes: cross-site POST from Stripe
+  // - Heartbeat check-ins: cron jobs, scripts and CI, authenticated by the ping token
+  // - Trigger URLs: deploy pipelines and scripts, authenticated by the trigger token
+  const csrfExemptPrefixes = ["/api/webhooks/", "/api/ping/", "/api/triggers/"];
+  app.use("*", async (c, next) => {
+    if (csrfExemptPrefixes.some(prefix => c.req.path.startsWith(prefix))) {
+      return next();
+    }
+    return csrfProtection(c, next);
+  });
 
   // Global error handler
   app.onError(errorHandler);
@@ -138,13 +190,13 @@ export async function createApp(
       if (shouldCreateTransactions) {
         // Production: create a new transaction per request
         return db.transaction(async (tx) => {
-          const manager = createJobsManager(tx, clock, cron);
+          const manager = createJobsManager(tx, clock, cron, createAlertsService(tx, notificationSender, alertsLogger), c.get("orgId"), c.get("actor"), secretCipher, alertsLogger);
           return fn(manager);
         });
       }
       else {
         // Tests: use the existing transaction passed as db
-        const manager = createJobsManager(db, clock, cron);
+        const manager = createJobsManager(db, clock, cron, createAlertsService(db, notificationSender, alertsLogger), c.get("orgId"), c.get("actor"), secretCipher, alertsLogger);
         return fn(manager);
       }
     });
@@ -153,27 +205,112 @@ export async function createApp(
     c.set("withDashboardManager", (fn) => {
       if (shouldCreateTransactions) {
         return db.transaction(async (tx) => {
-          const manager = createDashboardManager(tx, clock);
+          const manager = createDashboardManager(tx, clock, c.get("orgId"));
+          return fn(manager);
+        });
+      }
+      else {
+        const manager = createDashboardManager(db, clock, c.get("orgId"));
+        return fn(manager);
+      }
+    });
+
+    // Provide transaction wrapper that auto-creates AuditManager
+    c.set("withAuditManager", (fn) => {
+      if (shouldCreateTransactions) {
+        return db.transaction(async (tx) => {
+          const manager = createAuditManager(tx, c.get("orgId"));
           return fn(manager);
         });
       }
       else {
-        const manager = createDashboardManager(db, clock);
+        const manager = createAuditManager(db, c.get("orgId"));
         return fn(manager);
       }
     });
 
-    // Provide transaction wrapper for SigningKeysRepo
+    // Provide transaction wrapper for SigningKeysRepo (with org access checks and the audit log for key changes)
     c.set("withSigningKeysRepo", (fn) => {
+      const actor = c.get("actor");
       if (shouldCreateTransactions) {
         return db.transaction(async (tx) => {
           const repo = createSigningKeysRepo(tx);
-          return fn(repo);
+          return fn(repo, createOrgAccess(tx, c.get("orgId")), actor && createAuditLog(tx, actor, clock));
         });
       }
       else {
         const repo = createSigningKeysRepo(db);
-        return fn(repo);
+        return fn(repo, createOrgAccess(db, c.get("orgId")), actor && createAuditLog(db, actor, clock));
+      }
+    });
+
+    // Provide transaction wrapper for SecretsRepo (with org access checks)
+    c.set("withSecretsRepo", (fn) => {
+      if (shouldCreateTransactions) {
+        return db.transaction(async (tx) => {
+          const repo = createSecretsRepo(tx, secretCipher);
+          return fn(repo, createOrgAccess(tx, c.get("orgId")));
+        });
+      }
+      else {
+        const repo = createSecretsRepo(db, secretCipher);
+        return fn(repo, createOrgAccess(db, c.get("orgId")));
+      }
+    });
+
+    // Provide transaction wrapper for TlsCredentialsRepo
+    c.set("withTlsCredentialsRepo", (fn) => {
+      if (shouldCreateTransactions) {
+        return db.transaction(async (tx) => {
+          const repo = createTlsCredentialsRepo(tx, secretCipher);
+          return fn(repo, createOrgAccess(tx, c.get("orgId")));
+        });
+      }
+      else {
+        const repo = createTlsCredentialsRepo(db, secretCipher);
+        return fn(repo, createOrgAccess(db, c.get("orgId")));
+      }
+    });
+
+    // Provide transaction wrapper for AuthProfilesRepo
+    c.set("withAuthProfilesRepo", (fn) => {
+      if (shouldCreateTransactions) {
+        return db.transaction(async (tx) => {
+          const repo = createAuthProfilesRepo(tx, secretCipher);
+          return fn(repo, createOrgAccess(tx, c.get("orgId")));
+        });
+      }
+      else {
+        const repo = createAuthProfilesRepo(db, secretCipher);
+        return fn(repo, createOrgAccess(db, c.get("orgId")));
+      }
+    });
+
+    // Provide transaction wrapper that auto-creates NotificationsManager
+    c.set("withNotificationsManager", (fn) => {
+      if (shouldCreateTransactions) {
+        return db.transaction(async (tx) => {
+          const manager = createNotificationsManager(tx, notificationSender, clock);
+          return fn(manager);
+        });
+      }
+      else {
+        const manager = createNotificationsManager(db, notificationSender, clock);
+        return fn(manager);
+      }
+    });
+
+    // Provide transaction wrapper that auto-creates OrganizationsManager
+    c.set("withOrganizationsManager", (fn) => {
+      if (shouldCreateTransactions) {
+        return db.transaction(async (tx) => {
+          const manager = createOrganizationsManager(tx, clock, config.WEB_URL, invitationSender);
+          return fn(manager);
+        });
+      }
+      else {
+        const manager = createOrganizationsManager(db, clock, config.WEB_URL, invitationSender);
+        return fn(manager);
       }
     });
 
@@ -196,16 +333,35 @@ export async function createApp(
     readLimit: config.RATE_LIMIT_READ_RPM,
   });
 
+  // Trigger URLs are public: limit each URL (the path carries the token) instead of each user
+  const triggerLimiter = createRateLimiter(config.RATE_LIMIT_TRIGGER_RPM);
+  // Heartbeat check-ins likewise: limit each ping token, shared by its signal paths
+  const pingLimiter = createRateLimiter(config.RATE_LIMIT_PING_RPM);
+  // JWKS are public too, and fetched by receivers: limit each tenant's JWKS at the read limit
+  const jwksLimiter = createRateLimiter(config.RATE_LIMIT_READ_RPM);
+
   // Start periodic cleanup of stale rate limit entries to prevent memory leaks
-  startRateLimitCleanup([mutationLimiter, readLimiter]);
+  startRateLimitCleanup([mutationLimiter, readLimiter, triggerLimiter, pingLimiter, jwksLimiter]);
 
   // Protected routes that require auth AND rate limiting:
-  // /jobs/*, /endpoints/*, /runs/*, /sessions/*, /subscriptions/*, /dashboard/*, /devices/*
+  // /jobs/*, /endpoints/*, /runs/*, /sessions/*, /subscriptions/*, /dashboard/*, /devices/*, /notifications/*, /secrets/*, /tls-credentials/*, /auth-profiles/*, /orgs/*, /audit-events
   //
   // Routes excluded from rate limiting:
   // /health - public health check
   // /auth/* - handled by Better Auth (has its own rate limiting)
   // /webhooks/* - external service callbacks (e.g., Stripe)
+  //
+  // Public routes rate limited per URL:
+  // /triggers/* - run requests (authenticated by the trigger token in the URL)
+  // /ping/* - heartbeat check-ins (authenticated by the ping token in the URL), keyed by token
+  // /tenants/:tenantId/.well-known/jwks.json - public signing keys
+  app.use("/triggers/*", createKeyedRateLimitMiddleware(triggerLimiter, c => c.req.path));
+  app.use("/ping/*", createKeyedRateLimitMiddleware(pingLimiter, c => c.req.path.split("/").slice(0, 4).join("/")));
+  app.use("/ping/*", bodyLimit({
+    maxSize: MAX_CHECK_IN_BODY_KB * 1024,
+    onError: c => c.json({ message: `Check-in body exceeds ${MAX_CHECK_IN_BODY_KB} KB` }, 413),
+  }));
+  app.use("/tenants/*", createKeyedRateLimitMiddleware(jwksLimiter, c => c.req.path));
 
   // Protect all /jobs and /endpoints routes with auth + rate limiting
   app.use("/jobs/*", async (c, next) => {
@@ -263,6 +419,70 @@ export async function createApp(
   });
   app.use("/signing-keys", rateLimitMiddleware);
 
+  app.use("/secrets/*", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/secrets/*", rateLimitMiddleware);
+
+  // Exact path for GET /secrets (no trailing wildcard)
+  app.use("/secrets", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/secrets", rateLimitMiddleware);
+
+  app.use("/tls-credentials/*", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/tls-credentials/*", rateLimitMiddleware);
+
+  // Exact path for GET /tls-credentials (no trailing wildcard)
+  app.use("/tls-credentials", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/tls-credentials", rateLimitMiddleware);
+
+  app.use("/auth-profiles/*", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/auth-profiles/*", rateLimitMiddleware);
+
+  // Exact path for GET /auth-profiles (no trailing wildcard)
+  app.use("/auth-profiles", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/auth-profiles", rateLimitMiddleware);
+
+  app.use("/notifications/*", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/notifications/*", rateLimitMiddleware);
+
+  app.use("/orgs/*", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/orgs/*", rateLimitMiddleware);
+
+  // Exact path for GET/POST /orgs (no trailing wildcard)
+  app.use("/orgs", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/orgs", rateLimitMiddleware);
+
+  app.use("/audit-events", async (c, next) => {
+    const auth = c.get("auth");
+    return requireAuth(auth, config)(c, next);
+  });
+  app.use("/audit-events", rateLimitMiddleware);
+
   // Health check endpoint (no auth required)
   // Pings database with 2s timeout to verify connectivity
   app.get("/health", async (c) => {
@@ -298,11 +518,19 @@ export async function createApp(
 
   // Mount job routes (protected by auth middleware)
   const routes = [
+    audit,
+    authProfiles,
     dashboard,
     devices,
     jobs,
+    notifications,
+    orgs,
+    ping,
+    secrets,
     signingKeys,
     subscriptions,
+    tlsCredentials,
+    triggers,
     webhooks,
   ] as const;
 
@@ -36,8 +36,11 @@ const testConfig: Env = {
   STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
   STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
   BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
   RATE_LIMIT_MUTATION_RPM: 60,
   RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
   SHUTDOWN_TIMEOUT_MS: 30000,
 };
 
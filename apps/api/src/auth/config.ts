@@ -130,6 +130,8 @@ export function createAuth(config: Env, db: Database) {
       apiKey({
         // API key configuration
         apiKeyHeaders: "x-api-key",
+        // Org-scoped keys carry { orgId } (see POST /orgs/:orgId/api-keys)
+        enableMetadata: true,
         rateLimit: {
           enabled: true,
           timeWindow: 60 * 1000, // 1 minute
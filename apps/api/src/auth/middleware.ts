@@ -45,9 +45,16 @@ export function requireAuth(auth: Auth, config: Env) {
       }, "Auth debug: Session check result");
     }
 
+    // Better Auth also resolves Bearer tokens here; those are device sessions (MCP/CLI)
+    const authHeader = c.req.header("authorization");
+    const isBearer = authHeader?.startsWith("Bearer ") ?? false;
+
     if (sessionResult?.user) {
       c.set("session", sessionResult);
       c.set("userId", sessionResult.user.id);
+      c.set("actor", isBearer
+        ? { type: "device", id: sessionResult.session.id, userId: sessionResult.user.id }
+        : { type: "user", id: sessionResult.user.id, userId: sessionResult.user.id });
 
       if (debugAuth) {
         logger.debug({ userId: sessionResult.user.id }, "Auth debug: Authenticated via session cookie");
@@ -59,8 +66,7 @@ export function requireAuth(auth: Auth, config: Env) {
     // Try Bearer token (for OAuth device flow)
     // Better Auth handles Bearer token validation internally
     // We just need to pass the Authorization header
-    const authHeader = c.req.header("authorization");
-    if (authHeader?.startsWith("Bearer ")) {
+    if (isBearer) {
       try {
         // Pass the entire request headers to Better Auth
         // It will validate the Bearer token and return the session if valid
@@ -71,6 +77,7 @@ export function requireAuth(auth: Auth, config: Env) {
         if (bearerSessionResult?.user) {
           c.set("session", bearerSessionResult);
           c.set("userId", bearerSessionResult.user.id);
+          c.set("actor", { type: "device", id: bearerSessionResult.session.id, userId: bearerSessionResult.user.id });
           return next();
         }
       }
@@ -102,6 +109,14 @@ export function requireAuth(auth: Auth, config: Env) {
         // The key has already been validated by Better Auth
         c.set("userId", userId);
         c.set("session", null); // API key auth doesn't have a traditional session
+        c.set("actor", { type: "api_key", id: apiKeyResult.key.id, userId });
+
+        // Org-scoped keys act for their creator, limited to that organization
+        // (membership and role are still checked on every request)
+        const orgId = apiKeyResult.key.metadata?.orgId;
+        if (typeof orgId === "string") {
+          c.set("orgId", orgId);
+        }
 
         if (debugAuth) {
           logger.debug({ userId }, "Auth debug: Authenticated via API key");
@@ -128,12 +143,14 @@ export function requireAuth(auth: Auth, config: Env) {
 export function getAuthContext(c: Context): AuthContext {
   const session = c.get("session");
   const userId = c.get("userId");
+  const orgId = c.get("orgId");
+  const actor = c.get("actor");
 
-  if (!userId) {
+  if (!userId || !actor) {
     throw new HTTPException(500, {
       message: "Auth context not found - middleware may not have run",
     });
   }
 
-  return { session, userId };
+  return { session, userId, orgId, actor };
 }
@@ -1,3 +1,5 @@
+import type { AuditActor } from "@cronicorn/domain";
+
 /**
  * Auth session type - unified for both OAuth and API key sessions
  */
@@ -21,4 +23,6 @@ export type AuthSession = {
 export type AuthContext = {
   session: AuthSession;
   userId: string; // Convenience accessor
+  orgId?: string; // Set for org-scoped API keys; requests default to that organization
+  actor: AuditActor; // Who the audit log attributes changes to
 };
@@ -9,12 +9,18 @@
 
 import { hc } from "hono/client";
 
+import audit from "./routes/audit/audit.index.js";
+import authProfiles from "./routes/auth-profiles/auth-profiles.index.js";
 import authConfig from "./routes/auth/auth-config.index.js";
 import dashboard from "./routes/dashboard/dashboard.index.js";
 import devices from "./routes/devices/devices.index.js";
 import jobs from "./routes/jobs/jobs.index.js";
+import notifications from "./routes/notifications/notifications.index.js";
+import orgs from "./routes/orgs/orgs.index.js";
+import secrets from "./routes/secrets/secrets.index.js";
 import signingKeys from "./routes/signing-keys/signing-keys.index.js";
 import subscriptions from "./routes/subscriptions/subscriptions.index.js";
+import tlsCredentials from "./routes/tls-credentials/tls-credentials.index.js";
 import { type AppOpenAPI, createRouter } from "./types.js";
 
 function registerClientRoutes(app: AppOpenAPI) {
@@ -24,7 +30,7 @@ function registerClientRoutes(app: AppOpenAPI) {
     .route("/", subscriptions)
     .route("/", dashboard)
     .route("/", devices)
-    .route("/", signingKeys);
+    .route("/", notifications);
 }
 
 // stand alone router type used for api client
@@ -34,6 +40,35 @@ const router = registerClientRoutes(
 // eslint-disable-next-line ts/no-redeclare
 type router = typeof router;
 
+// Organizations and the audit log, typed separately for the same reason as credentials below
+function registerOrganizationRoutes(app: AppOpenAPI) {
+  return app
+    .route("/", orgs)
+    .route("/", audit);
+}
+
+const organizationsRouter = registerOrganizationRoutes(
+  createRouter().basePath("/api"),
+);
+// eslint-disable-next-line ts/no-redeclare
+type organizationsRouter = typeof organizationsRouter;
+
+// Credential vaults get a client of their own: adding more route groups to the
+// router above exceeds TypeScript's instantiation depth when typing the client
+function registerCredentialRoutes(app: AppOpenAPI) {
+  return app
+    .route("/", signingKeys)
+    .route("/", secrets)
+    .route("/", tlsCredentials)
+    .route("/", authProfiles);
+}
+
+const credentialsRouter = registerCredentialRoutes(
+  createRouter().basePath("/api"),
+);
+// eslint-disable-next-line ts/no-redeclare
+type credentialsRouter = typeof credentialsRouter;
+
 // create instance to inline type in build
 // https://hono.dev/docs/guides/rpc#compile-your-code-before-using-it-recommended
 
@@ -41,9 +76,25 @@ type router = typeof router;
 const client = hc<router>("");
 type Client = typeof client;
 
+// eslint-disable-next-line unused-imports/no-unused-vars
+const organizationsClient = hc<organizationsRouter>("");
+type OrganizationsClient = typeof organizationsClient;
+
+// eslint-disable-next-line unused-imports/no-unused-vars
+const credentialsClient = hc<credentialsRouter>("");
+type CredentialsClient = typeof credentialsClient;
+
 export default (...args: Parameters<typeof hc>): Client =>
   hc<router>(...args);
 
+export function createOrganizationsClient(...args: Parameters<typeof hc>): OrganizationsClient {
+  return hc<organizationsRouter>(...args);
+}
+
+export function createCredentialsClient(...args: Parameters<typeof hc>): CredentialsClient {
+  return hc<credentialsRouter>(...args);
+}
+
 export type ErrorSchema = {
   error: {
     issues: {
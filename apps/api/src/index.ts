@@ -1,3 +1,4 @@
+import { OtelTracer } from "@cronicorn/adapter-otel";
 import { serve } from "@hono/node-server";
 import { serveStatic } from "@hono/node-server/serve-static";
 import { Hono } from "hono";
@@ -21,7 +22,11 @@ async function main() {
   // Setup database connection
   const db = createDatabase(config);
 
-  const { app: apiApp, auth } = await createApp(db, config);
+  const tracer = config.OTEL_EXPORTER_OTLP_ENDPOINT
+    ? new OtelTracer({ serviceName: config.OTEL_SERVICE_NAME ?? "cronicorn-api" })
+    : undefined;
+
+  const { app: apiApp, auth } = await createApp(db, config, undefined, { tracer });
 
   // Seed admin user if configured (for CI/testing environments)
   await seedAdminUser(config, db, auth);
@@ -63,7 +68,7 @@ async function main() {
     });
 
     const result = await Promise.race([
-      db.$client.end().then(() => "completed" as const),
+      Promise.all([db.$client.end(), tracer?.shutdown()]).then(() => "completed" as const),
       timeoutPromise,
     ]);
 
@@ -1,7 +1,7 @@
 import { Hono } from "hono";
 import { describe } from "vitest";
 
-import { createRateLimiter, createRateLimitMiddleware, RateLimiter } from "../rate-limiter.js";
+import { createKeyedRateLimitMiddleware, createRateLimiter, createRateLimitMiddleware, RateLimiter } from "../rate-limiter.js";
 import { expect, test } from "./fixtures.js";
 
 /**
@@ -592,3 +592,40 @@ describe("createRateLimitMiddleware", () => {
     });
   });
 });
+
+describe("createKeyedRateLimitMiddleware", () => {
+  test("limits each key separately without a userId", async () => {
+    const limiter = createRateLimiter(2, { now: () => 0 });
+    const app = new Hono();
+    app.use("/triggers/*", createKeyedRateLimitMiddleware(limiter, c => c.req.path));
+    app.post("/triggers/:token", c => c.json({ ok: true }));
+
+    for (let i = 0; i < 2; i++) {
+      const res = await app.request("/triggers/token-a", { method: "POST" });
+      expect(res.status).toBe(200);
+      expect(res.headers.get("X-RateLimit-Remaining")).toBe(String(1 - i));
+    }
+
+    const limited = await app.request("/triggers/token-a", { method: "POST" });
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("Retry-After")).toBeTruthy();
+    expect((await getJson(limited)).error).toBe("Too many requests");
+
+    // Another key has its own budget
+    const other = await app.request("/triggers/token-b", { method: "POST" });
+    expect(other.status).toBe(200);
+  });
+
+  test("passes requests without a key through", async () => {
+    const limiter = createRateLimiter(1, { now: () => 0 });
+    const app = new Hono();
+    app.use("/*", createKeyedRateLimitMiddleware(limiter, () => null));
+    app.post("/anything", c => c.json({ ok: true }));
+
+    for (let i = 0; i < 3; i++) {
+      const res = await app.request("/anything", { method: "POST" });
+      expect(res.status).toBe(200);
+    }
+    expect(limiter.size).toBe(0);
+  });
+});
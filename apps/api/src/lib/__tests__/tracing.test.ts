@@ -0,0 +1,35 @@
+import { FakeTracer } from "@cronicorn/domain";
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+
+import { tracingMiddleware } from "../tracing.js";
+
+describe("tracingMiddleware", () => {
+  it("runs the request in a server span", async () => {
+    const tracer = new FakeTracer();
+    const app = new Hono<{ Variables: { traceId?: string } }>();
+    app.use("*", tracingMiddleware(tracer));
+    app.get("/runs/:id", c => c.json({ traceId: c.get("traceId") }));
+
+    const res = await app.request("/runs/run_1");
+
+    expect(await res.json()).toEqual({ traceId: tracer.traceId });
+    expect(tracer.spans).toEqual([expect.objectContaining({
+      name: "GET",
+      kind: "server",
+      attributes: expect.objectContaining({ "http.request.method": "GET", "url.path": "/runs/run_1", "http.response.status_code": 200 }),
+    })]);
+  });
+
+  it("continues the trace of an incoming traceparent", async () => {
+    const tracer = new FakeTracer();
+    const app = new Hono();
+    app.use("*", tracingMiddleware(tracer));
+    app.post("/triggers/:token", c => c.body(null, 202));
+
+    const traceparent = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+    await app.request("/triggers/tok", { method: "POST", headers: { traceparent } });
+
+    expect(tracer.spans[0]).toMatchObject({ parent: traceparent, attributes: { "http.response.status_code": 202 } });
+  });
+});
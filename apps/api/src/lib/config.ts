@@ -1,4 +1,4 @@
-import { DEV_AUTH, DEV_DATABASE, DEV_ENV, DEV_PORTS, DEV_STRIPE, DEV_URLS, validateNotDevDefaultInProduction } from "@cronicorn/config-defaults";
+import { DEV_AUTH, DEV_DATABASE, DEV_ENV, DEV_PORTS, DEV_SECRETS, DEV_STRIPE, DEV_URLS, validateNotDevDefaultInProduction } from "@cronicorn/config-defaults";
 import { z } from "zod";
 
 const envSchema = z.object({
@@ -31,11 +31,28 @@ const envSchema = z.object({
   STRIPE_PRICE_PRO_ANNUAL: z.string().min(1).default(DEV_STRIPE.PRICE_PRO_ANNUAL),
   STRIPE_PRICE_ENTERPRISE: z.string().min(1).default(DEV_STRIPE.PRICE_ENTERPRISE),
   BASE_URL: z.string().url("BASE_URL must be a valid URL").default(DEV_URLS.WEB),
+  // Encrypts user secrets at rest; must match the scheduler's key
+  SECRETS_ENCRYPTION_KEY: z.string().min(1).default(DEV_SECRETS.ENCRYPTION_KEY),
   // Rate limiting configuration (requests per minute)
   RATE_LIMIT_MUTATION_RPM: z.coerce.number().int().positive().default(60),
   RATE_LIMIT_READ_RPM: z.coerce.number().int().positive().default(120),
+  // Requests per minute per trigger URL (public, keyed by token)
+  RATE_LIMIT_TRIGGER_RPM: z.coerce.number().int().positive().default(30),
+  // Requests per minute per heartbeat ping token (public, keyed by token)
+  RATE_LIMIT_PING_RPM: z.coerce.number().int().positive().default(60),
   // Graceful shutdown timeout in milliseconds
   SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(30000),
+  // SMTP for test sends to email notification channels (same settings as the scheduler worker)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().optional(), // Default: 587
+  SMTP_SECURE: z.enum(["true", "false"]).optional(), // true for implicit TLS (port 465)
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().min(1).optional(), // Default: Cronicorn <alerts@localhost>
+  // OpenTelemetry tracing is enabled when a collector is configured; the exporter also
+  // honors the other standard OTEL_EXPORTER_OTLP_* variables (headers, protocol paths)
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_SERVICE_NAME: z.string().min(1).optional(), // Default: cronicorn-api
 }).refine(
   (data) => {
     // At least one auth method must be configured
@@ -88,6 +105,7 @@ export function loadConfig(): Env {
       ? validateNotDevDefaultInProduction(config.NODE_ENV, config.ADMIN_USER_PASSWORD, "ADMIN_USER_PASSWORD")
       : null,
     validateNotDevDefaultInProduction(config.NODE_ENV, config.STRIPE_SECRET_KEY, "STRIPE_SECRET_KEY"),
+    validateNotDevDefaultInProduction(config.NODE_ENV, config.SECRETS_ENCRYPTION_KEY, "SECRETS_ENCRYPTION_KEY"),
   ].filter(Boolean);
 
   if (warnings.length > 0) {
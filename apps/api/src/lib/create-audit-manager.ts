@@ -0,0 +1,46 @@
+import type { AuditActor, Clock } from "@cronicorn/domain";
+import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
+
+import { DrizzleAuditRepo, DrizzleOrganizationsRepo } from "@cronicorn/adapter-drizzle";
+import { AuditLog, AuditManager } from "@cronicorn/services/audit";
+import { OrgAccess } from "@cronicorn/services/organizations";
+
+/**
+ * Composition root: Wires DrizzleAuditRepo into AuditManager (reading the audit log).
+ *
+ * @param tx - Drizzle transaction context
+ * @param scopeOrgId - Organization an org-scoped API key is limited to
+ * @returns Fully-wired AuditManager instance
+ */
+export function createAuditManager(
+  // eslint-disable-next-line ts/no-explicit-any
+  tx: NodePgDatabase<any> | NodePgTransaction<any, any>,
+  scopeOrgId?: string,
+): AuditManager {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const auditRepo = new DrizzleAuditRepo(tx);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const access = new OrgAccess(new DrizzleOrganizationsRepo(tx), scopeOrgId);
+
+  return new AuditManager(auditRepo, access);
+}
+
+/**
+ * Composition root: Wires DrizzleAuditRepo into an AuditLog (writing the audit log).
+ *
+ * Events are written in the caller's transaction, so a rolled-back change leaves no entry.
+ *
+ * @param tx - Drizzle transaction context
+ * @param actor - Who the request is authenticated as
+ * @param clock - Clock implementation (singleton, stateless)
+ * @returns AuditLog attributing events to the actor
+ */
+export function createAuditLog(
+  // eslint-disable-next-line ts/no-explicit-any
+  tx: NodePgDatabase<any> | NodePgTransaction<any, any>,
+  actor: AuditActor,
+  clock: Clock,
+): AuditLog {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  return new AuditLog(new DrizzleAuditRepo(tx), actor, clock);
+}
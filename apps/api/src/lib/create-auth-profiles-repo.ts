@@ -0,0 +1,18 @@
+import type { SecretCipher } from "@cronicorn/adapter-drizzle";
+import type { AuthProfilesRepo } from "@cronicorn/domain";
+
+import { DrizzleAuthProfilesRepo } from "@cronicorn/adapter-drizzle";
+
+import type { Database } from "./db.js";
+
+/**
+ * Composition root: Wires DrizzleAuthProfilesRepo into the AuthProfilesRepo port.
+ *
+ * @param db - Drizzle database or transaction context
+ * @param cipher - Encrypts client secrets with the server's SECRETS_ENCRYPTION_KEY
+ * @returns AuthProfilesRepo port implementation
+ */
+export function createAuthProfilesRepo(db: Database, cipher: SecretCipher): AuthProfilesRepo {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  return new DrizzleAuthProfilesRepo(db, cipher);
+}
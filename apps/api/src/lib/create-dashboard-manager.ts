@@ -1,8 +1,8 @@
 import type { Clock } from "@cronicorn/domain";
 import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
 
-import { DrizzleJobsRepo, DrizzleRunsRepo, DrizzleSessionsRepo } from "@cronicorn/adapter-drizzle";
-import { DashboardManager } from "@cronicorn/services";
+import { DrizzleJobsRepo, DrizzleOrganizationsRepo, DrizzleRunsRepo, DrizzleSessionsRepo } from "@cronicorn/adapter-drizzle";
+import { DashboardManager, OrgAccess } from "@cronicorn/services";
 
 /**
  * Composition root: Wires concrete adapters into DashboardManager.
@@ -26,12 +26,14 @@ import { DashboardManager } from "@cronicorn/services";
  *
  * @param tx - Drizzle transaction context
  * @param clock - Clock implementation (singleton, stateless)
+ * @param scopeOrgId - Organization an org-scoped API key is limited to
  * @returns Fully-wired DashboardManager instance
  */
 export function createDashboardManager(
   // eslint-disable-next-line ts/no-explicit-any
   tx: NodePgDatabase<any> | NodePgTransaction<any, any>,
   clock: Clock,
+  scopeOrgId?: string,
 ): DashboardManager {
   // Instantiate transaction-bound repositories
   // @ts-expect-error - Drizzle type mismatch between pnpm versions
@@ -40,7 +42,9 @@ export function createDashboardManager(
   const runsRepo = new DrizzleRunsRepo(tx);
   // @ts-expect-error - Drizzle type mismatch between pnpm versions
   const sessionsRepo = new DrizzleSessionsRepo(tx);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const access = new OrgAccess(new DrizzleOrganizationsRepo(tx), scopeOrgId);
 
   // Wire everything into the manager (pure DI)
-  return new DashboardManager(jobsRepo, runsRepo, sessionsRepo, clock);
+  return new DashboardManager(jobsRepo, runsRepo, sessionsRepo, clock, access);
 }
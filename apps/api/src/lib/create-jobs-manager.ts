@@ -1,8 +1,12 @@
-import type { Clock, Cron } from "@cronicorn/domain";
+import type { SecretCipher } from "@cronicorn/adapter-drizzle";
+import type { AuditActor, Clock, Cron, EndpointEvents, Logger } from "@cronicorn/domain";
 import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
 
-import { DrizzleJobsRepo, DrizzleRunsRepo, DrizzleSessionsRepo } from "@cronicorn/adapter-drizzle";
+import { DrizzleAuthProfilesRepo, DrizzleJobsRepo, DrizzleOrganizationsRepo, DrizzleRunsRepo, DrizzleSessionsRepo, DrizzleTlsCredentialsRepo } from "@cronicorn/adapter-drizzle";
 import { JobsManager } from "@cronicorn/services/jobs";
+import { OrgAccess } from "@cronicorn/services/organizations";
+
+import { createAuditLog } from "./create-audit-manager.js";
 
 /**
  * Composition root: Wires concrete adapters into JobsManager.
@@ -27,6 +31,11 @@ import { JobsManager } from "@cronicorn/services/jobs";
  * @param tx - Drizzle transaction context
  * @param clock - Clock implementation (singleton, stateless)
  * @param cron - Cron parser implementation (singleton, stateless)
+ * @param events - Optional subscriber notified of heartbeat check-ins (alerting)
+ * @param scopeOrgId - Organization an org-scoped API key is limited to
+ * @param actor - Who the audit log attributes changes to (no audit events without one)
+ * @param cipher - Secrets cipher; lets the manager check TLS credential and auth profile names against the job owner
+ * @param logger - Reports endpoint event subscriber failures
  * @returns Fully-wired JobsManager instance
  */
 export function createJobsManager(
@@ -34,6 +43,11 @@ export function createJobsManager(
   tx: NodePgDatabase<any> | NodePgTransaction<any, any>,
   clock: Clock,
   cron: Cron,
+  events?: EndpointEvents,
+  scopeOrgId?: string,
+  actor?: AuditActor,
+  cipher?: SecretCipher,
+  logger?: Logger,
 ): JobsManager {
   // Instantiate transaction-bound repositories
   // @ts-expect-error - Drizzle type mismatch between pnpm versions
@@ -42,7 +56,15 @@ export function createJobsManager(
   const runsRepo = new DrizzleRunsRepo(tx);
   // @ts-expect-error - Drizzle type mismatch between pnpm versions
   const sessionsRepo = new DrizzleSessionsRepo(tx);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const access = new OrgAccess(new DrizzleOrganizationsRepo(tx), scopeOrgId);
+
+  const auditLog = actor ? createAuditLog(tx, actor, clock) : undefined;
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const tlsCredentialsRepo = cipher ? new DrizzleTlsCredentialsRepo(tx, cipher) : undefined;
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const authProfilesRepo = cipher ? new DrizzleAuthProfilesRepo(tx, cipher) : undefined;
 
   // Wire everything into the manager (pure DI)
-  return new JobsManager(jobsRepo, runsRepo, sessionsRepo, clock, cron);
+  return new JobsManager(jobsRepo, runsRepo, sessionsRepo, clock, cron, events, access, auditLog, tlsCredentialsRepo, authProfilesRepo, logger);
 }
@@ -0,0 +1,72 @@
+import type { Clock, Logger, NotificationSender } from "@cronicorn/domain";
+
+import { DrizzleJobsRepo, DrizzleNotificationsRepo, DrizzleRunsRepo } from "@cronicorn/adapter-drizzle";
+import { AlertsService, NotificationsManager } from "@cronicorn/services/notifications";
+
+import type { Env } from "./config.js";
+import type { Database } from "./db.js";
+
+/**
+ * SMTP settings for email channels, or undefined when SMTP_HOST isn't set.
+ *
+ * @param config - API environment config
+ * @returns SMTP config for the notification sender
+ */
+export function smtpConfigFromEnv(config: Env) {
+  if (!config.SMTP_HOST)
+    return undefined;
+
+  return {
+    host: config.SMTP_HOST,
+    port: config.SMTP_PORT ?? 587,
+    secure: config.SMTP_SECURE === "true",
+    user: config.SMTP_USER,
+    password: config.SMTP_PASSWORD,
+    from: config.SMTP_FROM ?? "Cronicorn <alerts@localhost>",
+  };
+}
+
+/**
+ * Composition root: Wires concrete adapters into NotificationsManager.
+ *
+ * @param db - Drizzle database or transaction context
+ * @param sender - Notification sender (singleton, used for test sends)
+ * @param clock - Clock implementation (singleton, stateless)
+ * @returns Fully-wired NotificationsManager instance
+ */
+export function createNotificationsManager(
+  db: Database,
+  sender: NotificationSender,
+  clock: Clock,
+): NotificationsManager {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const notificationsRepo = new DrizzleNotificationsRepo(db);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const jobsRepo = new DrizzleJobsRepo(db);
+
+  return new NotificationsManager(notificationsRepo, jobsRepo, sender, clock);
+}
+
+/**
+ * Composition root: Wires concrete adapters into AlertsService.
+ *
+ * The workers evaluate alert rules for scheduled runs; the API only needs this for
+ * runs recorded from heartbeat check-ins.
+ *
+ * @param db - Drizzle database or transaction context
+ * @param sender - Notification sender (singleton)
+ * @param logger - Logger for evaluation and delivery errors
+ * @returns Fully-wired AlertsService instance
+ */
+export function createAlertsService(
+  db: Database,
+  sender: NotificationSender,
+  logger: Logger,
+): AlertsService {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const notificationsRepo = new DrizzleNotificationsRepo(db);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const runsRepo = new DrizzleRunsRepo(db);
+
+  return new AlertsService({ notifications: notificationsRepo, runs: runsRepo, sender, logger });
+}
@@ -0,0 +1,44 @@
+import type { Clock, InvitationSender } from "@cronicorn/domain";
+
+import { DrizzleJobsRepo, DrizzleOrganizationsRepo } from "@cronicorn/adapter-drizzle";
+import { OrgAccess, OrganizationsManager } from "@cronicorn/services/organizations";
+
+import type { Database } from "./db.js";
+
+import { logger } from "./logger.js";
+
+/**
+ * Composition root: Wires concrete adapters into OrganizationsManager.
+ *
+ * @param db - Drizzle database or transaction context
+ * @param clock - Clock implementation (singleton, stateless)
+ * @param appUrl - Web app URL that invitation links point to
+ * @param invitationSender - Invitation email sender, undefined when SMTP isn't configured
+ * @returns Fully-wired OrganizationsManager instance
+ */
+export function createOrganizationsManager(
+  db: Database,
+  clock: Clock,
+  appUrl: string,
+  invitationSender?: InvitationSender,
+): OrganizationsManager {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const orgsRepo = new DrizzleOrganizationsRepo(db);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const jobsRepo = new DrizzleJobsRepo(db);
+
+  return new OrganizationsManager(orgsRepo, jobsRepo, clock, { appUrl, invitationSender, logger });
+}
+
+/**
+ * Composition root: Wires DrizzleOrganizationsRepo into OrgAccess for handlers that
+ * work with repos directly (secrets and other credentials).
+ *
+ * @param db - Drizzle database or transaction context
+ * @param scopeOrgId - Organization an org-scoped API key is limited to
+ * @returns OrgAccess for the request
+ */
+export function createOrgAccess(db: Database, scopeOrgId?: string): OrgAccess {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  return new OrgAccess(new DrizzleOrganizationsRepo(db), scopeOrgId);
+}
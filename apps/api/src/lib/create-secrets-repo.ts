@@ -0,0 +1,18 @@
+import type { SecretCipher } from "@cronicorn/adapter-drizzle";
+import type { SecretsRepo } from "@cronicorn/domain";
+
+import { DrizzleSecretsRepo } from "@cronicorn/adapter-drizzle";
+
+import type { Database } from "./db.js";
+
+/**
+ * Composition root: Wires DrizzleSecretsRepo into the SecretsRepo port.
+ *
+ * @param db - Drizzle database or transaction context
+ * @param cipher - Encrypts values with the server's SECRETS_ENCRYPTION_KEY
+ * @returns SecretsRepo port implementation
+ */
+export function createSecretsRepo(db: Database, cipher: SecretCipher): SecretsRepo {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  return new DrizzleSecretsRepo(db, cipher);
+}
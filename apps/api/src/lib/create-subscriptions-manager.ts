@@ -1,7 +1,7 @@
 import type { PaymentProvider } from "@cronicorn/domain";
 import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
 
-import { DrizzleJobsRepo } from "@cronicorn/adapter-drizzle";
+import { DrizzleJobsRepo, DrizzleOrganizationsRepo } from "@cronicorn/adapter-drizzle";
 import { SubscriptionsManager } from "@cronicorn/services";
 
 import { logger } from "./logger.js";
@@ -20,13 +20,16 @@ export function createSubscriptionsManager(
   paymentProvider: PaymentProvider,
   baseUrl: string,
 ): SubscriptionsManager {
-  // Instantiate transaction-bound repository
+  // Instantiate transaction-bound repositories
   // @ts-expect-error - Drizzle type mismatch between pnpm versions
   const jobsRepo = new DrizzleJobsRepo(tx);
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  const orgsRepo = new DrizzleOrganizationsRepo(tx);
 
   // Wire everything into the manager (pure DI - no adapter-specific dependencies)
   return new SubscriptionsManager({
     jobsRepo,
+    orgsRepo,
     paymentProvider,
     baseUrl,
     logger,
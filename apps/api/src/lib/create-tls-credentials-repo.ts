@@ -0,0 +1,18 @@
+import type { SecretCipher } from "@cronicorn/adapter-drizzle";
+import type { TlsCredentialsRepo } from "@cronicorn/domain";
+
+import { DrizzleTlsCredentialsRepo } from "@cronicorn/adapter-drizzle";
+
+import type { Database } from "./db.js";
+
+/**
+ * Composition root: Wires DrizzleTlsCredentialsRepo into the TlsCredentialsRepo port.
+ *
+ * @param db - Drizzle database or transaction context
+ * @param cipher - Encrypts PEM material with the server's SECRETS_ENCRYPTION_KEY
+ * @returns TlsCredentialsRepo port implementation
+ */
+export function createTlsCredentialsRepo(db: Database, cipher: SecretCipher): TlsCredentialsRepo {
+  // @ts-expect-error - Drizzle type mismatch between pnpm versions
+  return new DrizzleTlsCredentialsRepo(db, cipher);
+}
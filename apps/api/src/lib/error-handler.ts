@@ -32,6 +32,18 @@ export function errorHandler(err: Error, c: Context) {
     );
   }
 
+  // Organization role checks (ForbiddenError from @cronicorn/domain) → 403
+  if (err.name === "ForbiddenError") {
+    logger.warn({ err, path: c.req.path, method: c.req.method }, "Forbidden error");
+    return c.json(
+      {
+        error: err.message,
+        status: 403,
+      },
+      403,
+    );
+  }
+
   // Domain-specific errors - detect common patterns from error messages
 
   // Conflict/already exists errors → 409
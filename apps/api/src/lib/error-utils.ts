@@ -123,6 +123,16 @@ export function handleErrorResponse(
   // Determine status code and safe message from error message patterns
   const defaultMessage = options?.defaultMessage ?? "Operation failed";
 
+  // Business-rule violations from the services layer are written for clients
+  if (error instanceof Error && error.name === "ValidationError") {
+    throw new HTTPException(HttpStatusCodes.BAD_REQUEST, { message: errorMessage });
+  }
+
+  // Organization role checks: the caller is a member but their role is too low
+  if (error instanceof Error && error.name === "ForbiddenError") {
+    throw new HTTPException(HttpStatusCodes.FORBIDDEN, { message: errorMessage });
+  }
+
   if (errorMessage.toLowerCase().includes("not found")) {
     throw new HTTPException(HttpStatusCodes.NOT_FOUND, { message: "Resource not found" });
   }
@@ -405,6 +405,68 @@ export function createRateLimitMiddleware(options: {
   };
 }
 
+/**
+ * Creates a Hono middleware that rate limits by a key taken from the request
+ *
+ * For public routes without a userId, such as trigger URLs, where the credential in the
+ * path identifies the caller. Every method counts against the same limiter. Requests
+ * without a key pass through. Responds like the authenticated middleware: 429 with
+ * Retry-After and X-RateLimit-* headers.
+ *
+ * @example
+ * ```ts
+ * const triggerLimiter = createRateLimiter(config.RATE_LIMIT_TRIGGER_RPM);
+ * app.use("/triggers/*", createKeyedRateLimitMiddleware(triggerLimiter, c => c.req.path));
+ * ```
+ *
+ * @param limiter - Rate limiter shared by all keys
+ * @param keyExtractor - Returns the key to count the request against
+ * @returns Rate limit middleware for Hono
+ */
+export function createKeyedRateLimitMiddleware(
+  limiter: RateLimiter,
+  keyExtractor: (c: Context) => string | null,
+) {
+  return async (c: Context, next: Next) => {
+    const key = keyExtractor(c);
+    if (!key) {
+      return next();
+    }
+
+    const result = limiter.check(key);
+
+    c.header("X-RateLimit-Limit", result.limit.toString());
+    c.header("X-RateLimit-Remaining", Math.max(0, result.limit - result.current).toString());
+    c.header("X-RateLimit-Reset", result.resetInSeconds.toString());
+
+    if (!result.allowed) {
+      // The path isn't logged: on keyed routes it usually carries the credential
+      logger.info(
+        {
+          method: c.req.method,
+          current: result.current,
+          limit: result.limit,
+          resetInSeconds: result.resetInSeconds,
+          limiterType: "keyed",
+        },
+        "Rate limit exceeded",
+      );
+
+      c.header("Retry-After", result.resetInSeconds.toString());
+
+      return c.json(
+        {
+          error: "Too many requests",
+          retryAfter: result.resetInSeconds,
+        },
+        429,
+      );
+    }
+
+    return next();
+  };
+}
+
 /**
  * Start periodic cleanup of stale rate limit entries
  *
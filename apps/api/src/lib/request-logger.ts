@@ -64,6 +64,12 @@ export async function requestLoggerMiddleware(c: Context, next: Next) {
     logData.requestId = requestId;
   }
 
+  // Add traceId if tracing is enabled (set by tracing middleware)
+  const traceId = c.get("traceId");
+  if (traceId) {
+    logData.traceId = traceId;
+  }
+
   // Add userId if authenticated (set by auth middleware)
   const userId = c.get("userId");
   if (userId) {
@@ -0,0 +1,46 @@
+/**
+ * Tracing middleware for OpenTelemetry request spans
+ *
+ * Runs each request in a server span. A W3C `traceparent` header on the request is
+ * continued, so requests made by our own scheduler (trigger URLs, heartbeat check-ins)
+ * join the trace of the run that sent them.
+ *
+ * The span is named after the HTTP method only: paths carry ids and tokens, so they are
+ * recorded as an attribute rather than in the low-cardinality span name.
+ */
+
+import type { Tracer } from "@cronicorn/domain";
+import type { Context, Next } from "hono";
+
+/**
+ * Tracing middleware factory
+ *
+ * Stores the trace id in context as `traceId` (undefined when tracing is off) so the
+ * request logger can correlate log lines with traces.
+ *
+ * @example
+ * ```ts
+ * // In app.ts - register first so the span covers every other middleware
+ * app.use("*", tracingMiddleware(tracer));
+ * ```
+ */
+export function tracingMiddleware(tracer: Tracer) {
+  return async (c: Context, next: Next) => {
+    await tracer.trace(c.req.method, async (span) => {
+      c.set("traceId", span.traceId);
+      await next();
+      span.setAttributes({
+        "http.response.status_code": c.res.status,
+        "cronicorn.request_id": c.get("requestId"),
+        "enduser.id": c.get("userId"),
+      });
+    }, {
+      kind: "server",
+      traceparent: c.req.header("traceparent"),
+      attributes: {
+        "http.request.method": c.req.method,
+        "url.path": c.req.path,
+      },
+    });
+  };
+}
@@ -0,0 +1,117 @@
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for the audit log.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - GET /api/audit-events (changes recorded by job and signing key routes)
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function send(method: string, path: string, body?: unknown) {
+  return [path, {
+    method,
+    // The web app sends its Origin (CSRF check)
+    headers: { "Content-Type": "application/json", "Origin": testConfig.WEB_URL },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }] as const;
+}
+
+describe("audit events API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("lists job and signing key changes with their diffs", async ({ tx }) => {
+    await createTestUser(tx, { id: "audit-user" });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession("audit-user")), { useTransactions: false });
+
+    const createRes = await app.request(...send("POST", "/api/jobs", { name: "Nightly sync" }));
+    expect(createRes.status).toBe(201);
+    const job = await getJson(createRes);
+    expect((await app.request(...send("PATCH", `/api/jobs/${job.id}`, { name: "Hourly sync" }))).status).toBe(200);
+    expect((await app.request(...send("POST", "/api/signing-keys", {}))).status).toBe(201);
+
+    const res = await app.request("/api/audit-events");
+    expect(res.status).toBe(200);
+    const data = await getJson(res);
+
+    expect(data.total).toBe(3);
+    expect(data.events.map((e: { action: string }) => e.action)).toEqual(["signing_key.created", "job.updated", "job.created"]);
+    expect(data.events[1]).toMatchObject({
+      actor: { type: "user", id: "audit-user", userId: "audit-user" },
+      jobId: job.id,
+      changes: [{ field: "name", before: "Nightly sync", after: "Hourly sync" }],
+    });
+  });
+
+  test("filters by action and job", async ({ tx }) => {
+    await createTestUser(tx, { id: "audit-user" });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession("audit-user")), { useTransactions: false });
+
+    const firstRes = await app.request(...send("POST", "/api/jobs", { name: "First" }));
+    expect(firstRes.status).toBe(201);
+    const first = await getJson(firstRes);
+    expect((await app.request(...send("POST", "/api/jobs", { name: "Second" }))).status).toBe(201);
+    expect((await app.request(...send("POST", `/api/jobs/${first.id}/pause`))).status).toBe(200);
+
+    const byAction = await getJson(await app.request("/api/audit-events?action=job.paused"));
+    expect(byAction.events).toHaveLength(1);
+    expect(byAction.events[0].changes).toContainEqual({ field: "status", before: "active", after: "paused" });
+
+    const byJob = await getJson(await app.request(`/api/audit-events?jobId=${first.id}&limit=1`));
+    expect(byJob.total).toBe(2);
+    expect(byJob.events).toHaveLength(1);
+  });
+
+  test("hides other users' and unknown organizations' events", async ({ tx }) => {
+    await createTestUser(tx, { id: "audit-owner", email: "owner@test.com" });
+    await createTestUser(tx, { id: "audit-other", email: "other@test.com" });
+    const { app: ownerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("audit-owner")), { useTransactions: false });
+    const { app: otherApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("audit-other")), { useTransactions: false });
+
+    expect((await ownerApp.request(...send("POST", "/api/jobs", { name: "Private" }))).status).toBe(201);
+
+    expect((await getJson(await otherApp.request("/api/audit-events"))).total).toBe(0);
+    expect((await otherApp.request("/api/audit-events?orgId=org-missing")).status).toBe(404);
+  });
+});
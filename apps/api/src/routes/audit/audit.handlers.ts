@@ -0,0 +1,41 @@
+import type { AuditEvent } from "@cronicorn/domain";
+
+import * as HttpStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./audit.routes.js";
+
+import { getAuthContext } from "../../auth/middleware.js";
+import { handleErrorResponse } from "../../lib/error-utils.js";
+
+function mapAuditEventToResponse(event: AuditEvent) {
+  return {
+    id: event.id,
+    actor: event.actor,
+    action: event.action,
+    jobId: event.jobId,
+    endpointId: event.endpointId,
+    changes: event.changes,
+    createdAt: event.createdAt.toISOString(),
+  };
+}
+
+export const listAuditEvents: AppRouteHandler<routes.ListAuditEventsRoute> = async (c) => {
+  const query = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withAuditManager")(async (manager) => {
+    try {
+      const { events, total } = await manager.listEvents(userId, query);
+      return c.json({ events: events.map(mapAuditEventToResponse), total }, HttpStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "listAuditEvents",
+        userId,
+      }, {
+        defaultMessage: "Failed to list audit events",
+      });
+    }
+  });
+};
@@ -0,0 +1,8 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./audit.handlers.js";
+import * as routes from "./audit.routes.js";
+
+const router = createRouter()
+  .openapi(routes.listAuditEvents, handlers.listAuditEvents);
+
+export default router;
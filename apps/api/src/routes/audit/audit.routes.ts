@@ -0,0 +1,42 @@
+import {
+  ListAuditEventsDescription,
+  ListAuditEventsQueryBaseSchema,
+  ListAuditEventsResponseBaseSchema,
+  ListAuditEventsSummary,
+} from "@cronicorn/api-contracts/audit";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent } from "stoker/openapi/helpers";
+
+const tags = ["Audit"];
+const errorResponses = {
+  [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+    z.object({ message: z.string() }),
+    "Authentication required",
+  ),
+  [HttpStatusCodes.NOT_FOUND]: jsonContent(
+    z.object({ message: z.string() }),
+    "Organization not found",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+export const listAuditEvents = createRoute({
+  path: "/audit-events",
+  method: "get",
+  tags,
+  summary: ListAuditEventsSummary,
+  description: ListAuditEventsDescription,
+  request: {
+    query: ListAuditEventsQueryBaseSchema,
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(ListAuditEventsResponseBaseSchema, "A page of audit events"),
+    ...errorResponses,
+  },
+});
+
+export type ListAuditEventsRoute = typeof listAuditEvents;
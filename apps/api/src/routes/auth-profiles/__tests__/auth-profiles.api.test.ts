@@ -0,0 +1,163 @@
+import { DrizzleAuthProfileProvider, DrizzleJobsRepo, SecretCipher } from "@cronicorn/adapter-drizzle";
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for auth profile routes.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - GET /api/auth-profiles
+ * - GET /api/auth-profiles/:name
+ * - PUT /api/auth-profiles/:name
+ * - DELETE /api/auth-profiles/:name
+ * including an organization's profiles (?orgId=)
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const mockUserId = "test-user-auth-profiles";
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function put(name: string, body: Record<string, unknown>, query = "") {
+  return [`/api/auth-profiles/${name}${query}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+function post(path: string, body: unknown) {
+  return [path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+const billing = {
+  tokenUrl: "https://auth.example.com/oauth/token",
+  clientId: "billing-client",
+  clientSecret: "s3cret-value",
+  scopes: ["invoices:read"],
+};
+
+describe("auth profiles API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates, replaces and lists profiles without returning the client secret", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    const created = await app.request(...put("billing", billing));
+    expect(created.status).toBe(201);
+    expect(await getJson(created)).toEqual({
+      name: "billing",
+      type: "oauth2-client-credentials",
+      tokenUrl: "https://auth.example.com/oauth/token",
+      clientId: "billing-client",
+      scopes: ["invoices:read"],
+      audience: null,
+      createdAt: expect.any(String),
+      updatedAt: expect.any(String),
+    });
+
+    const replaced = await app.request(...put("billing", { ...billing, audience: "https://billing.example.com" }));
+    expect(replaced.status).toBe(200);
+    expect((await getJson(replaced)).audience).toBe("https://billing.example.com");
+
+    const res = await app.request("/api/auth-profiles", { method: "GET" });
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).not.toContain("s3cret-value");
+    expect(JSON.parse(text).profiles.map((profile: { name: string }) => profile.name)).toEqual(["billing"]);
+
+    const one = await app.request("/api/auth-profiles/billing", { method: "GET" });
+    expect(one.status).toBe(200);
+    expect((await getJson(one)).clientId).toBe("billing-client");
+  });
+
+  test("rejects invalid names and token URLs", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    expect((await app.request(...put("Billing", billing))).status).toBe(422);
+    expect((await app.request(...put("billing", { ...billing, tokenUrl: "http://auth.example.com/token" }))).status).toBe(422);
+    expect((await app.request(...put("billing", { ...billing, scopes: ["a b"] }))).status).toBe(422);
+  });
+
+  test("deletes profiles and returns 404 for unknown names", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    await app.request(...put("billing", billing));
+
+    // Web app requests carry its Origin (CSRF check)
+    const remove = { method: "DELETE", headers: { Origin: testConfig.WEB_URL } };
+    expect((await app.request("/api/auth-profiles/billing", remove)).status).toBe(204);
+    expect((await app.request("/api/auth-profiles/billing", remove)).status).toBe(404);
+    expect((await app.request("/api/auth-profiles/billing", { method: "GET" })).status).toBe(404);
+  });
+
+  test("stores an organization's profiles under the org, where its endpoints resolve them", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    await createTestUser(tx, { id: "auth-profiles-stranger", email: "stranger@test.com" });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const { app: strangerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("auth-profiles-stranger")), { useTransactions: false });
+    const org = await getJson(await app.request(...post("/api/orgs", { name: "Acme" })));
+
+    expect((await app.request(...put("billing", billing, `?orgId=${org.id}`))).status).toBe(201);
+    expect((await app.request(...put("personal", billing))).status).toBe(201);
+    expect((await strangerApp.request(...put("billing", billing, `?orgId=${org.id}`))).status).toBe(404);
+    expect((await getJson(await app.request(`/api/auth-profiles?orgId=${org.id}`))).profiles.map((profile: { name: string }) => profile.name)).toEqual(["billing"]);
+
+    const job = await getJson(await app.request(...post("/api/jobs", { name: "Shared", orgId: org.id })));
+    const endpointInput = { name: "Invoices", url: "https://billing.example.com/invoices", baselineIntervalMs: 3_600_000 };
+    // A member's personal profile isn't visible to the organization's endpoints
+    expect((await app.request(...post(`/api/jobs/${job.id}/endpoints`, { ...endpointInput, authProfileName: "personal" }))).status).toBe(400);
+    const created = await getJson(await app.request(...post(`/api/jobs/${job.id}/endpoints`, { ...endpointInput, authProfileName: "billing" })));
+
+    // The dispatcher resolves profiles by the endpoint's tenant, which is the organization
+    // @ts-expect-error - Drizzle type mismatch between pnpm versions
+    const endpoint = await new DrizzleJobsRepo(tx).getEndpoint(created.id);
+    // @ts-expect-error - Drizzle type mismatch between pnpm versions
+    const provider = new DrizzleAuthProfileProvider(tx, new SecretCipher(testConfig.SECRETS_ENCRYPTION_KEY));
+    expect(endpoint.tenantId).toBe(org.id);
+    expect(await provider.getAuthProfile(endpoint.tenantId, "billing")).toMatchObject({ clientId: "billing-client", clientSecret: "s3cret-value" });
+  });
+});
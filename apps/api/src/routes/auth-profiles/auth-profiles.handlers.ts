@@ -0,0 +1,89 @@
+import type { AuthProfileInfo } from "@cronicorn/domain";
+
+import { MAX_AUTH_PROFILES_PER_USER } from "@cronicorn/domain";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./auth-profiles.routes.js";
+
+import { getAuthContext } from "../../auth/middleware.js";
+
+function mapAuthProfileToResponse(profile: AuthProfileInfo) {
+  return {
+    name: profile.name,
+    type: profile.type,
+    tokenUrl: profile.tokenUrl,
+    clientId: profile.clientId,
+    scopes: profile.scopes,
+    audience: profile.audience,
+    createdAt: profile.createdAt.toISOString(),
+    updatedAt: profile.updatedAt.toISOString(),
+  };
+}
+
+// Auth profiles belong to the job owner: the user, or an organization managed by its admins.
+// Dispatchers resolve them by the endpoint's tenant, which is that same owner.
+
+export const listAuthProfiles: AppRouteHandler<routes.ListAuthProfilesRoute> = async (c) => {
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withAuthProfilesRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const profiles = await repo.list(ownerId);
+    return c.json({ profiles: profiles.map(mapAuthProfileToResponse) }, HttpStatusCodes.OK);
+  });
+};
+
+export const getAuthProfile: AppRouteHandler<routes.GetAuthProfileRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withAuthProfilesRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const profile = await repo.get(ownerId, name);
+    if (!profile) {
+      return c.json({ message: `Auth profile "${name}" not found` }, HttpStatusCodes.NOT_FOUND);
+    }
+    return c.json(mapAuthProfileToResponse(profile), HttpStatusCodes.OK);
+  });
+};
+
+export const setAuthProfile: AppRouteHandler<routes.SetAuthProfileRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { clientSecret, audience, ...settings } = c.req.valid("json");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withAuthProfilesRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const existing = await repo.list(ownerId);
+    if (existing.length >= MAX_AUTH_PROFILES_PER_USER && !existing.some(profile => profile.name === name)) {
+      return c.json({ message: `Auth profile limit reached (${MAX_AUTH_PROFILES_PER_USER}). Delete unused profiles first.` }, HttpStatusCodes.BAD_REQUEST);
+    }
+
+    // The client secret is never echoed back
+    const { profile, created } = await repo.set(ownerId, name, { ...settings, audience: audience ?? null }, clientSecret);
+    const response = mapAuthProfileToResponse(profile);
+    if (created) {
+      return c.json(response, HttpStatusCodes.CREATED);
+    }
+    return c.json(response, HttpStatusCodes.OK);
+  });
+};
+
+export const deleteAuthProfile: AppRouteHandler<routes.DeleteAuthProfileRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withAuthProfilesRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const deleted = await repo.delete(ownerId, name);
+    if (!deleted) {
+      return c.json({ message: `Auth profile "${name}" not found` }, HttpStatusCodes.NOT_FOUND);
+    }
+    return c.body(null, HttpStatusCodes.NO_CONTENT);
+  });
+};
@@ -0,0 +1,11 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./auth-profiles.handlers.js";
+import * as routes from "./auth-profiles.routes.js";
+
+const router = createRouter()
+  .openapi(routes.listAuthProfiles, handlers.listAuthProfiles)
+  .openapi(routes.getAuthProfile, handlers.getAuthProfile)
+  .openapi(routes.setAuthProfile, handlers.setAuthProfile)
+  .openapi(routes.deleteAuthProfile, handlers.deleteAuthProfile);
+
+export default router;
@@ -0,0 +1,122 @@
+import {
+  AuthProfileNameBaseSchema,
+  AuthProfileResponseBaseSchema,
+  DeleteAuthProfileDescription,
+  DeleteAuthProfileSummary,
+  GetAuthProfileDescription,
+  GetAuthProfileSummary,
+  ListAuthProfilesDescription,
+  ListAuthProfilesResponseBaseSchema,
+  ListAuthProfilesSummary,
+  SetAuthProfileDescription,
+  SetAuthProfileRequestBaseSchema,
+  SetAuthProfileSummary,
+} from "@cronicorn/api-contracts/auth-profiles";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+
+const tags = ["Auth Profiles"];
+const errorResponses = {
+  [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+    z.object({ message: z.string() }),
+    "Authentication required",
+  ),
+  [HttpStatusCodes.FORBIDDEN]: jsonContent(
+    z.object({ message: z.string() }),
+    "Organization role below admin",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+const ownerQuery = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Manage the organization's auth profiles instead of personal ones (requires the admin role). Endpoints of the organization's jobs use these",
+  }),
+});
+
+export const listAuthProfiles = createRoute({
+  path: "/auth-profiles",
+  method: "get",
+  tags,
+  summary: ListAuthProfilesSummary,
+  description: ListAuthProfilesDescription,
+  request: {
+    query: ownerQuery,
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(ListAuthProfilesResponseBaseSchema, "Profiles without client secrets"),
+    ...errorResponses,
+  },
+});
+
+export const getAuthProfile = createRoute({
+  path: "/auth-profiles/:name",
+  method: "get",
+  tags,
+  summary: GetAuthProfileSummary,
+  description: GetAuthProfileDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: AuthProfileNameBaseSchema }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(AuthProfileResponseBaseSchema, "Profile without its client secret"),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      z.object({ message: z.string() }),
+      "Auth profile not found",
+    ),
+    ...errorResponses,
+  },
+});
+
+export const setAuthProfile = createRoute({
+  path: "/auth-profiles/:name",
+  method: "put",
+  tags,
+  summary: SetAuthProfileSummary,
+  description: SetAuthProfileDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: AuthProfileNameBaseSchema }),
+    body: jsonContentRequired(SetAuthProfileRequestBaseSchema, "OAuth2 client credentials"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(AuthProfileResponseBaseSchema, "Auth profile replaced"),
+    [HttpStatusCodes.CREATED]: jsonContent(AuthProfileResponseBaseSchema, "Auth profile created"),
+    [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+      z.object({ message: z.string() }),
+      "Profile limit reached",
+    ),
+    ...errorResponses,
+  },
+});
+
+export const deleteAuthProfile = createRoute({
+  path: "/auth-profiles/:name",
+  method: "delete",
+  tags,
+  summary: DeleteAuthProfileSummary,
+  description: DeleteAuthProfileDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: AuthProfileNameBaseSchema }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Auth profile deleted" },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      z.object({ message: z.string() }),
+      "Auth profile not found",
+    ),
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type ListAuthProfilesRoute = typeof listAuthProfiles;
+export type GetAuthProfileRoute = typeof getAuthProfile;
+export type SetAuthProfileRoute = typeof setAuthProfile;
+export type DeleteAuthProfileRoute = typeof deleteAuthProfile;
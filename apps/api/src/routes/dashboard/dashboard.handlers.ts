@@ -16,6 +16,7 @@ export const getDashboardStats: AppRouteHandler<routes.GetDashboardStatsRoute> =
   return c.get("withDashboardManager")(async (manager) => {
     try {
       const stats = await manager.getDashboardStats(userId, {
+        orgId: query.orgId,
         jobId: query.jobId,
         source: query.source,
         startDate: query.startDate,
@@ -49,6 +50,7 @@ export const getDashboardActivity: AppRouteHandler<routes.GetDashboardActivityRo
         eventType: query.eventType,
         limit: query.limit,
         offset: query.offset,
+        orgId: query.orgId,
       });
       return c.json(mappers.mapJobActivityTimelineToResponse(timeline), HTTPStatusCodes.OK);
     }
@@ -15,6 +15,7 @@ export function mapDashboardStatsToResponse(stats: DashboardStats): DashboardSta
     endpointTimeSeriesMaxStacked: stats.endpointTimeSeriesMaxStacked,
     jobHealth: stats.jobHealth,
     filteredMetrics: stats.filteredMetrics,
+    schedulingLag: stats.schedulingLag,
     sourceDistribution: stats.sourceDistribution,
     aiSessionTimeSeries: stats.aiSessionTimeSeries,
     aiSessionTimeSeriesMaxStacked: stats.aiSessionTimeSeriesMaxStacked,
@@ -42,6 +43,14 @@ export function mapJobActivityTimelineToResponse(timeline: JobActivityTimeline):
       tokenUsage: event.tokenUsage,
       warnings: event.warnings,
     })),
+    blackouts: timeline.blackouts.map(period => ({
+      start: period.start.toISOString(),
+      end: period.end.toISOString(),
+      name: period.name,
+      description: period.description,
+      endpointId: period.endpointId,
+      endpointName: period.endpointName,
+    })),
     total: timeline.total,
     summary: timeline.summary,
   };
@@ -51,6 +51,10 @@ const DashboardActivityQuerySchema = JobActivityTimelineQuerySchema.extend({
     description: "Optional job ID to filter by (omit for all jobs)",
     example: "job_123abc",
   }),
+  orgId: z.string().optional().openapi({
+    description: "Show the organization's activity instead of personal activity when jobId is omitted",
+    example: "org_4f9c2a1e-8b7d-4c3a-9e1f-2d6b5a8c7e90",
+  }),
 });
 
 export const getDashboardActivity = createRoute({
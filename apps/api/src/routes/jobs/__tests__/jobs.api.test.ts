@@ -47,8 +47,11 @@ const testConfig: Env = {
   STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
   STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
   BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
   RATE_LIMIT_MUTATION_RPM: 60,
   RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
   SHUTDOWN_TIMEOUT_MS: 30000,
 };
 
@@ -843,6 +846,88 @@ describe("jobs API", () => {
     });
   });
 
+  describe("post /api/endpoints/:id/run", () => {
+    test("queues a manual run with overrides", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockSession = createMockSession(mockUserId);
+      const mockAuth = createMockAuth(mockSession);
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      const jobRes = await app.request("/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ name: "Run Now Job" }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const job = await getJson(jobRes);
+
+      const epRes = await app.request(`/api/jobs/${job.id}/endpoints`, {
+        method: "POST",
+        body: JSON.stringify({
+          name: "Run Now Endpoint",
+          url: "https://example.com/run-now",
+          method: "POST",
+          baselineCron: "0 * * * *",
+        }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const endpoint = await getJson(epRes);
+
+      const res = await app.request(`/api/endpoints/${endpoint.id}/run`, {
+        method: "POST",
+        body: JSON.stringify({ bodyJson: { dryRun: true } }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(202);
+      const data = await getJson(res);
+      expect(data.requestId).toBeDefined();
+
+      const after = await getJson(await app.request(`/api/jobs/${job.id}/endpoints/${endpoint.id}`));
+      expect(new Date(after.nextRunAt).getTime()).toBeLessThanOrEqual(new Date(data.requestedAt).getTime());
+    });
+
+    test("rejects paused endpoints", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockSession = createMockSession(mockUserId);
+      const mockAuth = createMockAuth(mockSession);
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      const jobRes = await app.request("/api/jobs", {
+        method: "POST",
+        body: JSON.stringify({ name: "Run Now Paused Job" }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const job = await getJson(jobRes);
+
+      const epRes = await app.request(`/api/jobs/${job.id}/endpoints`, {
+        method: "POST",
+        body: JSON.stringify({
+          name: "Paused Endpoint",
+          url: "https://example.com/paused",
+          baselineCron: "0 * * * *",
+        }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const endpoint = await getJson(epRes);
+
+      await app.request(`/api/endpoints/${endpoint.id}/pause`, {
+        method: "POST",
+        body: JSON.stringify({ pausedUntil: new Date(Date.now() + 3600_000).toISOString() }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      const res = await app.request(`/api/endpoints/${endpoint.id}/run`, {
+        method: "POST",
+        body: JSON.stringify({}),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(400);
+    });
+  });
+
   // ==================== Tier Limit Enforcement ====================
 
   describe("endpoint tier limits", () => {
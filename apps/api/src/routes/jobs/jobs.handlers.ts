@@ -1,5 +1,7 @@
-import type { JobEndpoint } from "@cronicorn/domain";
+import type { ExecutionResult, JobEndpoint } from "@cronicorn/domain";
+import type { RenderedTestRequest, TestRunResult } from "@cronicorn/services/jobs";
 
+import { evaluateSuccessCriteria, hasRequestTemplates } from "@cronicorn/domain";
 import * as HTTPStatusCodes from "stoker/http-status-codes";
 
 import type { AppRouteHandler } from "../../types.js";
@@ -411,10 +413,11 @@ export const getHealthSummary: AppRouteHandler<routes.GetHealthSummaryRoute> = a
 };
 
 /**
- * Test endpoint handler — three-phase pattern:
+ * Test endpoint handler — multi-phase pattern:
  * 1. Auth check in transaction (fetch endpoint, verify ownership)
- * 2. Dispatch HTTP request outside transaction (may be long-running)
- * 3. Record test run in new transaction
+ * 2. Concurrency policy and template rendering in transactions (forbid may end the test here)
+ * 3. Dispatch HTTP request outside transaction (may be long-running)
+ * 4. Record test run in new transaction
  *
  * Uses closure capture because withJobsManager requires Response return type.
  */
@@ -443,14 +446,150 @@ export const testEndpoint: AppRouteHandler<routes.TestEndpointRoute> = async (c)
     return c.json({ message: "Cannot test an archived endpoint" }, HTTPStatusCodes.BAD_REQUEST);
   }
 
-  // Phase 2: Execute the HTTP request (outside transaction — may be long-running)
-  const dispatcher = c.get("dispatcher");
-  const result = await dispatcher.execute(ep);
+  // Heartbeats have nothing to call: they're exercised by checking in on the ping URL
+  if (ep.kind === "heartbeat") {
+    return c.json({ message: "Heartbeat endpoints can't be tested; check in on the ping URL instead" }, HTTPStatusCodes.BAD_REQUEST);
+  }
 
-  // Phase 3: Record the test run (new transaction)
+  // Phase 2: Apply the concurrency policy, then resolve request templates against
+  // sibling responses (new transaction). Under forbid, a run in progress ends the test
+  // here as a canceled run.
+  const preview: { skipped?: TestRunResult | null; request?: RenderedTestRequest } = {};
+  await c.get("withJobsManager")(async (manager) => {
+    preview.skipped = await manager.applyTestRunConcurrency(ep);
+    if (!preview.skipped) {
+      preview.request = await manager.renderTestRequest(ep);
+    }
+    return c.body(null, HTTPStatusCodes.NO_CONTENT);
+  });
+  if (preview.skipped) {
+    return c.json(preview.skipped, HTTPStatusCodes.OK);
+  }
+  const request = preview.request ?? { endpoint: ep };
+
+  // Phase 3: Execute the HTTP request (outside transaction — may be long-running),
+  // judged by the same success criteria as scheduled runs. Unresolvable templates
+  // fail the test run without sending anything.
+  const dispatcher = c.get("dispatcher");
+  const result: ExecutionResult = "error" in request
+    ? { status: "failed", durationMs: 0, errorMessage: request.error }
+    : evaluateSuccessCriteria(ep.successCriteria, await dispatcher.execute(request.endpoint));
+  const renderedRequest = "endpoint" in request && hasRequestTemplates(ep)
+    ? { url: request.endpoint.url, headersJson: request.endpoint.headersJson, bodyJson: request.endpoint.bodyJson }
+    : undefined;
+
+  // Phase 4: Record the test run (new transaction)
   return c.get("withJobsManager")(async (manager) => {
     const testResult = await manager.recordTestRun(id, result);
-    return c.json(testResult, HTTPStatusCodes.OK);
+    return c.json({ ...testResult, renderedRequest }, HTTPStatusCodes.OK);
+  });
+};
+
+export const runNow: AppRouteHandler<routes.RunNowRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const input = c.req.valid("json");
+  const { userId, actor } = getAuthContext(c);
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const result = await manager.runNow(userId, actor, id, input);
+      return c.json({ requestId: result.requestId, requestedAt: result.requestedAt.toISOString() }, HTTPStatusCodes.ACCEPTED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "runNow",
+        userId,
+      }, {
+        defaultMessage: "Failed to queue run",
+      });
+    }
+  });
+};
+
+// ==================== Trigger URL Handlers ====================
+
+export const getTriggerToken: AppRouteHandler<routes.GetTriggerTokenRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const info = await manager.getTriggerToken(userId, id);
+      return c.json({
+        hasToken: info.hasToken,
+        tokenPrefix: info.tokenPrefix,
+        createdAt: info.createdAt?.toISOString() ?? null,
+        rotatedAt: info.rotatedAt?.toISOString() ?? null,
+      }, HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "getTriggerToken",
+        userId,
+      }, {
+        defaultMessage: "Failed to get trigger URL",
+      });
+    }
+  });
+};
+
+export const createTriggerToken: AppRouteHandler<routes.CreateTriggerTokenRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const result = await manager.createTriggerToken(userId, id);
+      return c.json(result, HTTPStatusCodes.CREATED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "createTriggerToken",
+        userId,
+      }, {
+        defaultMessage: "Failed to create trigger URL",
+      });
+    }
+  });
+};
+
+export const rotateTriggerToken: AppRouteHandler<routes.RotateTriggerTokenRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const result = await manager.rotateTriggerToken(userId, id);
+      return c.json(result, HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "rotateTriggerToken",
+        userId,
+      }, {
+        defaultMessage: "Failed to rotate trigger URL",
+      });
+    }
+  });
+};
+
+export const revokeTriggerToken: AppRouteHandler<routes.RevokeTriggerTokenRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      await manager.revokeTriggerToken(userId, id);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "revokeTriggerToken",
+        userId,
+      }, {
+        defaultMessage: "Failed to revoke trigger URL",
+      });
+    }
   });
 };
 
@@ -496,6 +635,7 @@ export const getSession: AppRouteHandler<routes.GetSessionRoute> = async (c) =>
       tokenUsage: session.tokenUsage,
       durationMs: session.durationMs,
       warnings: session.warnings,
+      traceId: session.traceId,
     }, HTTPStatusCodes.OK);
   });
 };
@@ -32,6 +32,13 @@ const router = createRouter()
   .openapi(routes.getRunDetails, handlers.getRunDetails)
   .openapi(routes.getHealthSummary, handlers.getHealthSummary)
   .openapi(routes.testEndpoint, handlers.testEndpoint)
+  .openapi(routes.runNow, handlers.runNow)
+
+  // ==================== Trigger URL Routes ====================
+  .openapi(routes.getTriggerToken, handlers.getTriggerToken)
+  .openapi(routes.createTriggerToken, handlers.createTriggerToken)
+  .openapi(routes.rotateTriggerToken, handlers.rotateTriggerToken)
+  .openapi(routes.revokeTriggerToken, handlers.revokeTriggerToken)
 
   // ==================== AI Analysis Sessions Routes ====================
   .openapi(routes.listSessions, handlers.listSessions)
@@ -17,9 +17,11 @@ export function mapJobToResponse(job: Job): JobResponse {
   return {
     id: job.id,
     userId: job.userId,
+    orgId: job.orgId ?? undefined,
     name: job.name,
     description: job.description,
     status: job.status,
+    blackoutWindows: job.blackoutWindows,
     createdAt: job.createdAt.toISOString(),
     updatedAt: job.updatedAt.toISOString(),
     archivedAt: job.archivedAt?.toISOString(),
@@ -47,6 +49,7 @@ export function mapEndpointToResponse(endpoint: JobEndpoint): EndpointResponse {
     description: endpoint.description,
     baselineCron: endpoint.baselineCron,
     baselineIntervalMs: endpoint.baselineIntervalMs,
+    timezone: endpoint.timezone,
     minIntervalMs: endpoint.minIntervalMs,
     maxIntervalMs: endpoint.maxIntervalMs,
     nextRunAt: endpoint.nextRunAt.toISOString(),
@@ -54,6 +57,9 @@ export function mapEndpointToResponse(endpoint: JobEndpoint): EndpointResponse {
     failureCount: endpoint.failureCount,
     pausedUntil: endpoint.pausedUntil?.toISOString(),
     archivedAt: endpoint.archivedAt?.toISOString(),
+    kind: endpoint.kind ?? "http",
+    pingToken: endpoint.pingToken,
+    graceMs: endpoint.graceMs,
     url: endpoint.url,
     method: endpoint.method,
     headersJson: endpoint.headersJson,
@@ -61,6 +67,14 @@ export function mapEndpointToResponse(endpoint: JobEndpoint): EndpointResponse {
     timeoutMs: endpoint.timeoutMs,
     maxExecutionTimeMs: endpoint.maxExecutionTimeMs,
     maxResponseSizeKb: endpoint.maxResponseSizeKb,
+    retryPolicy: endpoint.retryPolicy,
+    successCriteria: endpoint.successCriteria,
+    runAfter: endpoint.runAfter,
+    blackoutWindows: endpoint.blackoutWindows,
+    misfirePolicy: endpoint.misfirePolicy,
+    concurrencyPolicy: endpoint.concurrencyPolicy,
+    tlsCredentialName: endpoint.tlsCredentialName || undefined,
+    authProfileName: endpoint.authProfileName || undefined,
     aiHintIntervalMs: endpoint.aiHintIntervalMs,
     aiHintNextRunAt: endpoint.aiHintNextRunAt?.toISOString(),
     aiHintExpiresAt: endpoint.aiHintExpiresAt?.toISOString(),
@@ -78,6 +92,8 @@ export function mapRunSummaryToResponse(run: {
   status: string;
   durationMs?: number;
   source?: string;
+  scheduledFor?: Date;
+  lagMs?: number;
 }): RunSummaryResponse {
   return {
     runId: run.runId,
@@ -86,6 +102,8 @@ export function mapRunSummaryToResponse(run: {
     status: run.status,
     durationMs: run.durationMs,
     source: run.source,
+    scheduledFor: run.scheduledFor?.toISOString(),
+    lagMs: run.lagMs,
   };
 }
 
@@ -100,6 +118,8 @@ export function mapListRunsToResponse(result: {
     status: string;
     durationMs?: number;
     source?: string;
+    scheduledFor?: Date;
+    lagMs?: number;
   }>;
   total: number;
 }): ListRunsResponse {
@@ -120,8 +140,15 @@ export function mapRunDetailsToResponse(run: {
   finishedAt?: Date;
   durationMs?: number;
   errorMessage?: string;
+  errorDetails?: Record<string, unknown>;
   source?: string;
   attempt: number;
+  attempts?: import("@cronicorn/domain").RunAttempt[];
+  queueWaitMs?: number;
+  scheduledFor?: Date;
+  lagMs?: number;
+  triggeredBy?: import("@cronicorn/domain").AuditActor;
+  traceId?: string;
   responseBody?: import("@cronicorn/domain").JsonValue | null;
   statusCode?: number;
   endpoint?: {
@@ -139,8 +166,15 @@ export function mapRunDetailsToResponse(run: {
     finishedAt: run.finishedAt?.toISOString(),
     durationMs: run.durationMs,
     errorMessage: run.errorMessage,
+    errorDetails: run.errorDetails,
     source: run.source,
     attempt: run.attempt,
+    attempts: run.attempts?.map(a => ({ ...a, startedAt: a.startedAt.toISOString() })),
+    queueWaitMs: run.queueWaitMs,
+    scheduledFor: run.scheduledFor?.toISOString(),
+    lagMs: run.lagMs,
+    triggeredBy: run.triggeredBy,
+    traceId: run.traceId,
     responseBody: run.responseBody ?? null,
     statusCode: run.statusCode,
     endpoint: run.endpoint,
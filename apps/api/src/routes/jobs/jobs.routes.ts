@@ -66,6 +66,9 @@ export const listJobs = createRoute({
   request: {
     query: z.object({
       status: z.enum(["active", "paused", "archived"]).optional(),
+      orgId: z.string().optional().openapi({
+        description: "List the organization's jobs instead of personal ones (requires membership)",
+      }),
     }),
   },
   responses: {
@@ -379,6 +382,88 @@ export const testEndpoint = createRoute({
   },
 });
 
+export const runNow = createRoute({
+  path: "/endpoints/:id/run",
+  method: "post",
+  tags: ["Execution"],
+  summary: schemas.RunNowSummary,
+  description: schemas.RunNowDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+    body: jsonContent(schemas.RunNowRequestSchema, "One-off request overrides"),
+  },
+  responses: {
+    [HttpStatusCodes.ACCEPTED]: jsonContent(schemas.RunNowResponseSchema, "Run queued"),
+    ...errorResponses,
+  },
+});
+
+// ==================== Trigger URL Routes ====================
+
+export const getTriggerToken = createRoute({
+  path: "/endpoints/:id/trigger-token",
+  method: "get",
+  tags: ["Triggers"],
+  summary: schemas.GetTriggerTokenSummary,
+  description: schemas.GetTriggerTokenDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.TriggerTokenInfoResponseSchema, "Trigger token info"),
+    ...errorResponses,
+  },
+});
+
+export const createTriggerToken = createRoute({
+  path: "/endpoints/:id/trigger-token",
+  method: "post",
+  tags: ["Triggers"],
+  summary: schemas.CreateTriggerTokenSummary,
+  description: schemas.CreateTriggerTokenDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(schemas.TriggerTokenCreatedResponseSchema, "Trigger token created"),
+    [HttpStatusCodes.CONFLICT]: jsonContent(
+      z.object({ message: z.string() }),
+      "Trigger token already exists",
+    ),
+    ...errorResponses,
+  },
+});
+
+export const rotateTriggerToken = createRoute({
+  path: "/endpoints/:id/trigger-token/rotate",
+  method: "post",
+  tags: ["Triggers"],
+  summary: schemas.RotateTriggerTokenSummary,
+  description: schemas.RotateTriggerTokenDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.TriggerTokenCreatedResponseSchema, "New trigger token"),
+    ...errorResponses,
+  },
+});
+
+export const revokeTriggerToken = createRoute({
+  path: "/endpoints/:id/trigger-token",
+  method: "delete",
+  tags: ["Triggers"],
+  summary: schemas.RevokeTriggerTokenSummary,
+  description: schemas.RevokeTriggerTokenDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Trigger token revoked" },
+    ...errorResponses,
+  },
+});
+
 // ==================== AI Analysis Sessions Routes ====================
 
 export const listSessions = createRoute({
@@ -438,6 +523,12 @@ export type ListRunsRoute = typeof listRuns;
 export type GetRunDetailsRoute = typeof getRunDetails;
 export type GetHealthSummaryRoute = typeof getHealthSummary;
 export type TestEndpointRoute = typeof testEndpoint;
+export type RunNowRoute = typeof runNow;
+
+export type GetTriggerTokenRoute = typeof getTriggerToken;
+export type CreateTriggerTokenRoute = typeof createTriggerToken;
+export type RotateTriggerTokenRoute = typeof rotateTriggerToken;
+export type RevokeTriggerTokenRoute = typeof revokeTriggerToken;
 
 export type ListSessionsRoute = typeof listSessions;
 export type GetSessionRoute = typeof getSession;
@@ -0,0 +1,151 @@
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for notification routes.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - /api/notifications/channels
+ * - /api/notifications/rules
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const mockUserId = "test-user-notifications";
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+const slackConfig = { type: "slack", webhookUrl: "https://hooks.slack.com/services/T000/B000/secretsecretsecret" };
+// The web app sends its Origin with bodyless requests (CSRF check)
+const webOrigin = { Origin: testConfig.WEB_URL };
+
+function post(path: string, body: unknown) {
+  return [path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+describe("notifications API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  describe("channels", () => {
+    test("creates a channel and masks the Slack webhook URL", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+      const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+      const res = await app.request(...post("/api/notifications/channels", { name: "ops", config: slackConfig }));
+
+      expect(res.status).toBe(201);
+      const data = await getJson(res);
+      expect(data.enabled).toBe(true);
+      expect(data.config.webhookUrl).toBe("https://hooks.slack.com/services/T000/B000/********");
+
+      const list = await getJson(await app.request("/api/notifications/channels"));
+      expect(list.channels).toHaveLength(1);
+    });
+
+    test("rejects a non-Slack webhook URL for Slack channels", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+      const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+      const res = await app.request(...post("/api/notifications/channels", {
+        name: "ops",
+        config: { type: "slack", webhookUrl: "https://example.com/hook" },
+      }));
+
+      expect(res.status).toBe(400);
+    });
+
+    test("returns 404 for another user's channel", async ({ tx }) => {
+      await createTestUser(tx, { id: "notifications-user-1", email: "user1@test.com" });
+      await createTestUser(tx, { id: "notifications-user-2", email: "user2@test.com" });
+      const { app: app1 } = await createApp(tx, testConfig, createMockAuth(createMockSession("notifications-user-1")), { useTransactions: false });
+      const { app: app2 } = await createApp(tx, testConfig, createMockAuth(createMockSession("notifications-user-2")), { useTransactions: false });
+
+      const channel = await getJson(await app1.request(...post("/api/notifications/channels", { name: "ops", config: slackConfig })));
+      const res = await app2.request(`/api/notifications/channels/${channel.id}`, { method: "DELETE", headers: webOrigin });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("rules", () => {
+    test("creates, updates and deletes an alert rule", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+      const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+      const channel = await getJson(await app.request(...post("/api/notifications/channels", { name: "ops", config: slackConfig })));
+
+      const createRes = await app.request(...post("/api/notifications/rules", {
+        name: "Three strikes",
+        condition: { type: "failureStreak", threshold: 3 },
+        channelIds: [channel.id],
+      }));
+      expect(createRes.status).toBe(201);
+      const rule = await getJson(createRes);
+      expect(rule).toMatchObject({ cooldownMinutes: 60, notifyOnResolve: true, enabled: true });
+
+      const updateRes = await app.request(`/api/notifications/rules/${rule.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ cooldownMinutes: 0 }),
+      });
+      expect(updateRes.status).toBe(200);
+      expect((await getJson(updateRes)).cooldownMinutes).toBe(0);
+
+      const deleteRes = await app.request(`/api/notifications/rules/${rule.id}`, { method: "DELETE", headers: webOrigin });
+      expect(deleteRes.status).toBe(204);
+      expect((await getJson(await app.request("/api/notifications/rules"))).rules).toHaveLength(0);
+    });
+
+    test("rejects channels the user doesn't own", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+      const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+      const res = await app.request(...post("/api/notifications/rules", {
+        name: "Three strikes",
+        condition: { type: "failureStreak", threshold: 3 },
+        channelIds: ["missing-channel"],
+      }));
+
+      expect(res.status).toBe(404);
+    });
+  });
+});
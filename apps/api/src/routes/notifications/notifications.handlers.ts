@@ -0,0 +1,172 @@
+import * as HTTPStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./notifications.routes.js";
+
+import { getAuthContext } from "../../auth/middleware.js";
+import { handleErrorResponse } from "../../lib/error-utils.js";
+import * as mappers from "./notifications.mappers.js";
+
+// ==================== Channel Handlers ====================
+
+export const listChannels: AppRouteHandler<routes.ListChannelsRoute> = async (c) => {
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    const channels = await manager.listChannels(userId);
+    return c.json({ channels: channels.map(mappers.mapChannelToResponse) }, HTTPStatusCodes.OK);
+  });
+};
+
+export const createChannel: AppRouteHandler<routes.CreateChannelRoute> = async (c) => {
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      const channel = await manager.createChannel(userId, input);
+      return c.json(mappers.mapChannelToResponse(channel), HTTPStatusCodes.CREATED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "createChannel",
+        userId,
+      }, {
+        defaultMessage: "Create failed",
+      });
+    }
+  });
+};
+
+export const updateChannel: AppRouteHandler<routes.UpdateChannelRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      const channel = await manager.updateChannel(userId, id, input);
+      return c.json(mappers.mapChannelToResponse(channel), HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "updateChannel",
+        userId,
+      }, {
+        defaultMessage: "Update failed",
+      });
+    }
+  });
+};
+
+export const deleteChannel: AppRouteHandler<routes.DeleteChannelRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      await manager.deleteChannel(userId, id);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "deleteChannel",
+        userId,
+      }, {
+        defaultMessage: "Delete failed",
+      });
+    }
+  });
+};
+
+export const testChannel: AppRouteHandler<routes.TestChannelRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      const result = await manager.sendTestNotification(userId, id);
+      return c.json(result, HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "testChannel",
+        userId,
+      }, {
+        defaultMessage: "Test notification failed",
+      });
+    }
+  });
+};
+
+// ==================== Alert Rule Handlers ====================
+
+export const listRules: AppRouteHandler<routes.ListRulesRoute> = async (c) => {
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    const rules = await manager.listRules(userId);
+    return c.json({ rules: rules.map(mappers.mapRuleToResponse) }, HTTPStatusCodes.OK);
+  });
+};
+
+export const createRule: AppRouteHandler<routes.CreateRuleRoute> = async (c) => {
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      const rule = await manager.createRule(userId, input);
+      return c.json(mappers.mapRuleToResponse(rule), HTTPStatusCodes.CREATED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "createRule",
+        userId,
+      }, {
+        defaultMessage: "Create failed",
+      });
+    }
+  });
+};
+
+export const updateRule: AppRouteHandler<routes.UpdateRuleRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      const rule = await manager.updateRule(userId, id, input);
+      return c.json(mappers.mapRuleToResponse(rule), HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "updateRule",
+        userId,
+      }, {
+        defaultMessage: "Update failed",
+      });
+    }
+  });
+};
+
+export const deleteRule: AppRouteHandler<routes.DeleteRuleRoute> = async (c) => {
+  const { id } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withNotificationsManager")(async (manager) => {
+    try {
+      await manager.deleteRule(userId, id);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "deleteRule",
+        userId,
+      }, {
+        defaultMessage: "Delete failed",
+      });
+    }
+  });
+};
@@ -0,0 +1,19 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./notifications.handlers.js";
+import * as routes from "./notifications.routes.js";
+
+const router = createRouter()
+  // ==================== Channel Routes ====================
+  .openapi(routes.listChannels, handlers.listChannels)
+  .openapi(routes.createChannel, handlers.createChannel)
+  .openapi(routes.updateChannel, handlers.updateChannel)
+  .openapi(routes.deleteChannel, handlers.deleteChannel)
+  .openapi(routes.testChannel, handlers.testChannel)
+
+  // ==================== Alert Rule Routes ====================
+  .openapi(routes.listRules, handlers.listRules)
+  .openapi(routes.createRule, handlers.createRule)
+  .openapi(routes.updateRule, handlers.updateRule)
+  .openapi(routes.deleteRule, handlers.deleteRule);
+
+export default router;
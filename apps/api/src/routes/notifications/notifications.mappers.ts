@@ -0,0 +1,49 @@
+import type { AlertRuleResponse, NotificationChannelResponse } from "@cronicorn/api-contracts/notifications";
+import type { AlertRule, NotificationChannel, NotificationChannelConfig } from "@cronicorn/domain";
+
+/**
+ * Masks the secret path of a Slack incoming webhook URL.
+ * The URL itself is the credential, so it is only ever shown in full when entered.
+ */
+function maskConfig(config: NotificationChannelConfig): NotificationChannelConfig {
+  if (config.type !== "slack")
+    return config;
+
+  const url = new URL(config.webhookUrl);
+  const segments = url.pathname.split("/");
+  const secret = segments.pop() ?? "";
+  return { type: "slack", webhookUrl: `${url.origin}${segments.join("/")}/${"*".repeat(Math.min(secret.length, 8))}` };
+}
+
+/**
+ * Maps a domain NotificationChannel entity to an API response DTO.
+ */
+export function mapChannelToResponse(channel: NotificationChannel): NotificationChannelResponse {
+  return {
+    id: channel.id,
+    name: channel.name,
+    config: maskConfig(channel.config),
+    enabled: channel.enabled,
+    createdAt: channel.createdAt.toISOString(),
+    updatedAt: channel.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Maps a domain AlertRule entity to an API response DTO.
+ */
+export function mapRuleToResponse(rule: AlertRule): AlertRuleResponse {
+  return {
+    id: rule.id,
+    name: rule.name,
+    jobId: rule.jobId,
+    endpointId: rule.endpointId,
+    condition: rule.condition,
+    channelIds: rule.channelIds,
+    cooldownMinutes: rule.cooldownMinutes,
+    notifyOnResolve: rule.notifyOnResolve,
+    enabled: rule.enabled,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
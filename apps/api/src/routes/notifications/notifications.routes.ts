@@ -0,0 +1,170 @@
+import * as schemas from "@cronicorn/api-contracts/notifications";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+
+const tags = ["Notifications"];
+const errorResponses = {
+  [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+    z.object({ message: z.string() }),
+    "Authentication required",
+  ),
+  [HttpStatusCodes.NOT_FOUND]: jsonContent(
+    z.object({ message: z.string() }),
+    "Resource not found",
+  ),
+  [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+    z.object({ message: z.string() }),
+    "Invalid request",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+// ==================== Channel Routes ====================
+
+export const listChannels = createRoute({
+  path: "/notifications/channels",
+  method: "get",
+  tags,
+  summary: schemas.ListNotificationChannelsSummary,
+  description: schemas.ListNotificationChannelsDescription,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.ListNotificationChannelsResponseBaseSchema, "Notification channels"),
+    ...errorResponses,
+  },
+});
+
+export const createChannel = createRoute({
+  path: "/notifications/channels",
+  method: "post",
+  tags,
+  summary: schemas.CreateNotificationChannelSummary,
+  description: schemas.CreateNotificationChannelDescription,
+  request: {
+    body: jsonContentRequired(schemas.CreateNotificationChannelRequestBaseSchema, "Channel data"),
+  },
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(schemas.NotificationChannelResponseBaseSchema, "Channel created"),
+    ...errorResponses,
+  },
+});
+
+export const updateChannel = createRoute({
+  path: "/notifications/channels/:id",
+  method: "patch",
+  tags,
+  summary: schemas.UpdateNotificationChannelSummary,
+  description: schemas.UpdateNotificationChannelDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+    body: jsonContentRequired(schemas.UpdateNotificationChannelRequestBaseSchema, "Channel updates"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.NotificationChannelResponseBaseSchema, "Updated channel"),
+    ...errorResponses,
+  },
+});
+
+export const deleteChannel = createRoute({
+  path: "/notifications/channels/:id",
+  method: "delete",
+  tags,
+  summary: schemas.DeleteNotificationChannelSummary,
+  description: schemas.DeleteNotificationChannelDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Channel deleted" },
+    ...errorResponses,
+  },
+});
+
+export const testChannel = createRoute({
+  path: "/notifications/channels/:id/test",
+  method: "post",
+  tags,
+  summary: schemas.TestNotificationChannelSummary,
+  description: schemas.TestNotificationChannelDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.TestNotificationResponseBaseSchema, "Delivery result"),
+    ...errorResponses,
+  },
+});
+
+// ==================== Alert Rule Routes ====================
+
+export const listRules = createRoute({
+  path: "/notifications/rules",
+  method: "get",
+  tags,
+  summary: schemas.ListAlertRulesSummary,
+  description: schemas.ListAlertRulesDescription,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.ListAlertRulesResponseBaseSchema, "Alert rules"),
+    ...errorResponses,
+  },
+});
+
+export const createRule = createRoute({
+  path: "/notifications/rules",
+  method: "post",
+  tags,
+  summary: schemas.CreateAlertRuleSummary,
+  description: schemas.CreateAlertRuleDescription,
+  request: {
+    body: jsonContentRequired(schemas.CreateAlertRuleRequestBaseSchema, "Rule data"),
+  },
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(schemas.AlertRuleResponseBaseSchema, "Rule created"),
+    ...errorResponses,
+  },
+});
+
+export const updateRule = createRoute({
+  path: "/notifications/rules/:id",
+  method: "patch",
+  tags,
+  summary: schemas.UpdateAlertRuleSummary,
+  description: schemas.UpdateAlertRuleDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+    body: jsonContentRequired(schemas.UpdateAlertRuleRequestBaseSchema, "Rule updates"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.AlertRuleResponseBaseSchema, "Updated rule"),
+    ...errorResponses,
+  },
+});
+
+export const deleteRule = createRoute({
+  path: "/notifications/rules/:id",
+  method: "delete",
+  tags,
+  summary: schemas.DeleteAlertRuleSummary,
+  description: schemas.DeleteAlertRuleDescription,
+  request: {
+    params: z.object({ id: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Rule deleted" },
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type ListChannelsRoute = typeof listChannels;
+export type CreateChannelRoute = typeof createChannel;
+export type UpdateChannelRoute = typeof updateChannel;
+export type DeleteChannelRoute = typeof deleteChannel;
+export type TestChannelRoute = typeof testChannel;
+export type ListRulesRoute = typeof listRules;
+export type CreateRuleRoute = typeof createRule;
+export type UpdateRuleRoute = typeof updateRule;
+export type DeleteRuleRoute = typeof deleteRule;
@@ -0,0 +1,116 @@
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for organization routes.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - /api/orgs (organizations, members, invitations)
+ * - org-owned jobs shared between members with role checks
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function send(method: string, path: string, body?: unknown) {
+  return [path, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  }] as const;
+}
+
+describe("organizations API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("invites a member who then sees the organization's jobs", async ({ tx }) => {
+    await createTestUser(tx, { id: "org-owner", email: "owner@test.com" });
+    await createTestUser(tx, { id: "org-member", email: "member@test.com" });
+    const { app: ownerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("org-owner")), { useTransactions: false });
+    const { app: memberApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("org-member")), { useTransactions: false });
+
+    const org = await getJson(await ownerApp.request(...send("POST", "/api/orgs", { name: "Acme" })));
+    expect(org).toMatchObject({ name: "Acme", role: "owner", tier: "free" });
+
+    const inviteRes = await ownerApp.request(...send("POST", `/api/orgs/${org.id}/invitations`, { email: "member@test.com", role: "viewer" }));
+    expect(inviteRes.status).toBe(201);
+    const invitation = await getJson(inviteRes);
+    expect(invitation.emailSent).toBe(false);
+    const token = new URL(invitation.acceptUrl).searchParams.get("token");
+
+    const acceptRes = await memberApp.request(...send("POST", "/api/orgs/invitations/accept", { token }));
+    expect(acceptRes.status).toBe(200);
+    expect(await getJson(acceptRes)).toMatchObject({ id: org.id, role: "viewer" });
+
+    const job = await getJson(await ownerApp.request(...send("POST", "/api/jobs", { name: "Shared", orgId: org.id })));
+    expect(job.orgId).toBe(org.id);
+
+    const list = await getJson(await memberApp.request(`/api/jobs?orgId=${org.id}`));
+    expect(list.jobs.map((j: { id: string }) => j.id)).toEqual([job.id]);
+    expect((await getJson(await memberApp.request("/api/jobs"))).jobs).toEqual([]);
+
+    const renameRes = await memberApp.request(...send("PATCH", `/api/jobs/${job.id}`, { name: "Renamed" }));
+    expect(renameRes.status).toBe(403);
+  });
+
+  test("hides organizations from non-members", async ({ tx }) => {
+    await createTestUser(tx, { id: "org-owner", email: "owner@test.com" });
+    await createTestUser(tx, { id: "org-stranger", email: "stranger@test.com" });
+    const { app: ownerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("org-owner")), { useTransactions: false });
+    const { app: strangerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("org-stranger")), { useTransactions: false });
+
+    const org = await getJson(await ownerApp.request(...send("POST", "/api/orgs", { name: "Acme" })));
+
+    expect((await strangerApp.request(`/api/orgs/${org.id}`)).status).toBe(404);
+    expect((await strangerApp.request(...send("POST", "/api/jobs", { name: "Sneaky", orgId: org.id }))).status).toBe(404);
+  });
+
+  test("keeps the last owner", async ({ tx }) => {
+    await createTestUser(tx, { id: "org-owner", email: "owner@test.com" });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession("org-owner")), { useTransactions: false });
+
+    const org = await getJson(await app.request(...send("POST", "/api/orgs", { name: "Acme" })));
+    const res = await app.request(...send("DELETE", `/api/orgs/${org.id}/members/org-owner`));
+
+    expect(res.status).toBe(400);
+    expect((await getJson(res)).error).toContain("at least one owner");
+  });
+});
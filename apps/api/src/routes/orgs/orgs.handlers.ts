@@ -0,0 +1,290 @@
+import type { Context } from "hono";
+
+import { HTTPException } from "hono/http-exception";
+import * as HTTPStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./orgs.routes.js";
+
+import { getAuthContext } from "../../auth/middleware.js";
+import { handleErrorResponse } from "../../lib/error-utils.js";
+import * as mappers from "./orgs.mappers.js";
+
+/**
+ * Org-scoped API keys only reach their own organization: other org IDs look
+ * nonexistent, and account-level actions (creating or joining orgs) are refused.
+ */
+function assertInKeyScope(c: Context, orgId?: string): void {
+  const { orgId: scopeOrgId } = getAuthContext(c);
+  if (scopeOrgId === undefined) {
+    return;
+  }
+  if (orgId === undefined) {
+    throw new HTTPException(HTTPStatusCodes.FORBIDDEN, { message: "Forbidden: not available to org-scoped API keys" });
+  }
+  if (orgId !== scopeOrgId) {
+    throw new HTTPException(HTTPStatusCodes.NOT_FOUND, { message: "Resource not found" });
+  }
+}
+
+// ==================== Organization Handlers ====================
+
+export const listOrganizations: AppRouteHandler<routes.ListOrganizationsRoute> = async (c) => {
+  const { userId, orgId: scopeOrgId } = getAuthContext(c);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    const organizations = await manager.listOrganizations(userId);
+    return c.json({
+      organizations: organizations
+        .filter(org => scopeOrgId === undefined || org.id === scopeOrgId)
+        .map(org => mappers.mapOrganizationToResponse(org, org.role)),
+    }, HTTPStatusCodes.OK);
+  });
+};
+
+export const createOrganization: AppRouteHandler<routes.CreateOrganizationRoute> = async (c) => {
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      const organization = await manager.createOrganization(userId, input);
+      return c.json(mappers.mapOrganizationToResponse(organization, "owner"), HTTPStatusCodes.CREATED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "createOrganization",
+        userId,
+      }, {
+        defaultMessage: "Create failed",
+      });
+    }
+  });
+};
+
+export const acceptInvitation: AppRouteHandler<routes.AcceptInvitationRoute> = async (c) => {
+  const { token } = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      const { organization, role } = await manager.acceptInvitation(userId, token);
+      return c.json(mappers.mapOrganizationToResponse(organization, role), HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "acceptInvitation",
+        userId,
+      }, {
+        defaultMessage: "Accept failed",
+      });
+    }
+  });
+};
+
+export const getOrganization: AppRouteHandler<routes.GetOrganizationRoute> = async (c) => {
+  const { orgId } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      const detail = await manager.getOrganization(userId, orgId);
+      return c.json(mappers.mapOrganizationDetailToResponse(detail), HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "getOrganization",
+        userId,
+      }, {
+        defaultMessage: "Failed to fetch organization",
+      });
+    }
+  });
+};
+
+export const updateOrganization: AppRouteHandler<routes.UpdateOrganizationRoute> = async (c) => {
+  const { orgId } = c.req.valid("param");
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      const organization = await manager.updateOrganization(userId, orgId, input);
+      const { role } = await manager.getOrganization(userId, orgId);
+      return c.json(mappers.mapOrganizationToResponse(organization, role), HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "updateOrganization",
+        userId,
+      }, {
+        defaultMessage: "Update failed",
+      });
+    }
+  });
+};
+
+export const deleteOrganization: AppRouteHandler<routes.DeleteOrganizationRoute> = async (c) => {
+  const { orgId } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      await manager.deleteOrganization(userId, orgId);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "deleteOrganization",
+        userId,
+      }, {
+        defaultMessage: "Delete failed",
+      });
+    }
+  });
+};
+
+// ==================== Member Handlers ====================
+
+export const updateMember: AppRouteHandler<routes.UpdateMemberRoute> = async (c) => {
+  const { orgId, userId: memberUserId } = c.req.valid("param");
+  const { role } = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      await manager.updateMemberRole(userId, orgId, memberUserId, role);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "updateMember",
+        userId,
+      }, {
+        defaultMessage: "Update failed",
+      });
+    }
+  });
+};
+
+export const removeMember: AppRouteHandler<routes.RemoveMemberRoute> = async (c) => {
+  const { orgId, userId: memberUserId } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      await manager.removeMember(userId, orgId, memberUserId);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "removeMember",
+        userId,
+      }, {
+        defaultMessage: "Remove failed",
+      });
+    }
+  });
+};
+
+// ==================== Invitation Handlers ====================
+
+export const listInvitations: AppRouteHandler<routes.ListInvitationsRoute> = async (c) => {
+  const { orgId } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      const invitations = await manager.listInvitations(userId, orgId);
+      return c.json({ invitations: invitations.map(mappers.mapInvitationToResponse) }, HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "listInvitations",
+        userId,
+      }, {
+        defaultMessage: "Failed to fetch invitations",
+      });
+    }
+  });
+};
+
+export const createInvitation: AppRouteHandler<routes.CreateInvitationRoute> = async (c) => {
+  const { orgId } = c.req.valid("param");
+  const input = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      const created = await manager.createInvitation(userId, orgId, input);
+      return c.json(mappers.mapCreatedInvitationToResponse(created), HTTPStatusCodes.CREATED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "createInvitation",
+        userId,
+      }, {
+        defaultMessage: "Invite failed",
+      });
+    }
+  });
+};
+
+export const revokeInvitation: AppRouteHandler<routes.RevokeInvitationRoute> = async (c) => {
+  const { orgId, invitationId } = c.req.valid("param");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      await manager.revokeInvitation(userId, orgId, invitationId);
+      return c.body(null, HTTPStatusCodes.NO_CONTENT);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "revokeInvitation",
+        userId,
+      }, {
+        defaultMessage: "Revoke failed",
+      });
+    }
+  });
+};
+
+// ==================== API Key Handlers ====================
+
+export const createApiKey: AppRouteHandler<routes.CreateApiKeyRoute> = async (c) => {
+  const { orgId } = c.req.valid("param");
+  const { name } = c.req.valid("json");
+  const { userId } = getAuthContext(c);
+  assertInKeyScope(c, orgId);
+
+  return c.get("withOrganizationsManager")(async (manager) => {
+    try {
+      // Any member may create one: the key acts with its creator's role, checked per request
+      await manager.getOrganization(userId, orgId);
+
+      const key = await c.get("auth").api.createApiKey({
+        body: { name, userId, metadata: { orgId } },
+      });
+      return c.json({ id: key.id, name: key.name ?? name, key: key.key }, HTTPStatusCodes.CREATED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "createOrgApiKey",
+        userId,
+      }, {
+        defaultMessage: "Create failed",
+      });
+    }
+  });
+};
@@ -0,0 +1,27 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./orgs.handlers.js";
+import * as routes from "./orgs.routes.js";
+
+const router = createRouter()
+  // ==================== Organization Routes ====================
+  .openapi(routes.listOrganizations, handlers.listOrganizations)
+  .openapi(routes.createOrganization, handlers.createOrganization)
+  // Registered before /orgs/:orgId routes so "invitations" isn't read as an org ID
+  .openapi(routes.acceptInvitation, handlers.acceptInvitation)
+  .openapi(routes.getOrganization, handlers.getOrganization)
+  .openapi(routes.updateOrganization, handlers.updateOrganization)
+  .openapi(routes.deleteOrganization, handlers.deleteOrganization)
+
+  // ==================== Member Routes ====================
+  .openapi(routes.updateMember, handlers.updateMember)
+  .openapi(routes.removeMember, handlers.removeMember)
+
+  // ==================== Invitation Routes ====================
+  .openapi(routes.listInvitations, handlers.listInvitations)
+  .openapi(routes.createInvitation, handlers.createInvitation)
+  .openapi(routes.revokeInvitation, handlers.revokeInvitation)
+
+  // ==================== API Key Routes ====================
+  .openapi(routes.createApiKey, handlers.createApiKey);
+
+export default router;
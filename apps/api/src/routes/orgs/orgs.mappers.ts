@@ -0,0 +1,69 @@
+import type {
+  CreateInvitationResponse,
+  InvitationResponse,
+  OrganizationDetailResponse,
+  OrganizationResponse,
+} from "@cronicorn/api-contracts/orgs";
+import type { Organization, OrganizationInvitation, OrganizationMember, OrgRole } from "@cronicorn/domain";
+import type { CreatedInvitation } from "@cronicorn/services/organizations";
+
+/**
+ * Maps a domain Organization with the caller's role to an API response DTO.
+ * Stripe IDs stay server-side.
+ */
+export function mapOrganizationToResponse(org: Organization, role: OrgRole): OrganizationResponse {
+  return {
+    id: org.id,
+    name: org.name,
+    tier: org.tier,
+    subscriptionStatus: org.subscriptionStatus ?? undefined,
+    role,
+    createdAt: org.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Maps an organization with its members to the detail response DTO.
+ */
+export function mapOrganizationDetailToResponse(detail: {
+  organization: Organization;
+  role: OrgRole;
+  members: OrganizationMember[];
+}): OrganizationDetailResponse {
+  return {
+    ...mapOrganizationToResponse(detail.organization, detail.role),
+    members: detail.members.map(member => ({
+      userId: member.userId,
+      email: member.email,
+      name: member.name,
+      role: member.role,
+      joinedAt: member.joinedAt.toISOString(),
+    })),
+  };
+}
+
+/**
+ * Maps a domain OrganizationInvitation to an API response DTO.
+ * The token is never listed; it only travels in the accept link.
+ */
+export function mapInvitationToResponse(invitation: OrganizationInvitation): InvitationResponse {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    invitedBy: invitation.invitedBy,
+    expiresAt: invitation.expiresAt.toISOString(),
+    createdAt: invitation.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Maps a created invitation with its accept link to an API response DTO.
+ */
+export function mapCreatedInvitationToResponse(created: CreatedInvitation): CreateInvitationResponse {
+  return {
+    ...mapInvitationToResponse(created.invitation),
+    acceptUrl: created.acceptUrl,
+    emailSent: created.emailSent,
+  };
+}
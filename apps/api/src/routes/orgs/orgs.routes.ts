@@ -0,0 +1,231 @@
+import * as schemas from "@cronicorn/api-contracts/orgs";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+
+const tags = ["Organizations"];
+const errorResponses = {
+  [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+    z.object({ message: z.string() }),
+    "Authentication required",
+  ),
+  [HttpStatusCodes.FORBIDDEN]: jsonContent(
+    z.object({ message: z.string() }),
+    "Role too low for this action",
+  ),
+  [HttpStatusCodes.NOT_FOUND]: jsonContent(
+    z.object({ message: z.string() }),
+    "Resource not found",
+  ),
+  [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+    z.object({ message: z.string() }),
+    "Invalid request",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+// ==================== Organization Routes ====================
+
+export const listOrganizations = createRoute({
+  path: "/orgs",
+  method: "get",
+  tags,
+  summary: schemas.ListOrganizationsSummary,
+  description: schemas.ListOrganizationsDescription,
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.ListOrganizationsResponseBaseSchema, "Organizations"),
+    ...errorResponses,
+  },
+});
+
+export const createOrganization = createRoute({
+  path: "/orgs",
+  method: "post",
+  tags,
+  summary: schemas.CreateOrganizationSummary,
+  description: schemas.CreateOrganizationDescription,
+  request: {
+    body: jsonContentRequired(schemas.CreateOrganizationRequestBaseSchema, "Organization data"),
+  },
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(schemas.OrganizationResponseBaseSchema, "Organization created"),
+    ...errorResponses,
+  },
+});
+
+export const acceptInvitation = createRoute({
+  path: "/orgs/invitations/accept",
+  method: "post",
+  tags,
+  summary: schemas.AcceptInvitationSummary,
+  description: schemas.AcceptInvitationDescription,
+  request: {
+    body: jsonContentRequired(schemas.AcceptInvitationRequestBaseSchema, "Invitation token"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.OrganizationResponseBaseSchema, "Joined organization"),
+    ...errorResponses,
+  },
+});
+
+export const getOrganization = createRoute({
+  path: "/orgs/:orgId",
+  method: "get",
+  tags,
+  summary: schemas.GetOrganizationSummary,
+  description: schemas.GetOrganizationDescription,
+  request: {
+    params: z.object({ orgId: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.OrganizationDetailResponseBaseSchema, "Organization with members"),
+    ...errorResponses,
+  },
+});
+
+export const updateOrganization = createRoute({
+  path: "/orgs/:orgId",
+  method: "patch",
+  tags,
+  summary: schemas.UpdateOrganizationSummary,
+  description: schemas.UpdateOrganizationDescription,
+  request: {
+    params: z.object({ orgId: z.string() }),
+    body: jsonContentRequired(schemas.UpdateOrganizationRequestBaseSchema, "Organization updates"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.OrganizationResponseBaseSchema, "Updated organization"),
+    ...errorResponses,
+  },
+});
+
+export const deleteOrganization = createRoute({
+  path: "/orgs/:orgId",
+  method: "delete",
+  tags,
+  summary: schemas.DeleteOrganizationSummary,
+  description: schemas.DeleteOrganizationDescription,
+  request: {
+    params: z.object({ orgId: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Organization deleted" },
+    ...errorResponses,
+  },
+});
+
+// ==================== Member Routes ====================
+
+export const updateMember = createRoute({
+  path: "/orgs/:orgId/members/:userId",
+  method: "patch",
+  tags,
+  summary: schemas.UpdateMemberSummary,
+  description: schemas.UpdateMemberDescription,
+  request: {
+    params: z.object({ orgId: z.string(), userId: z.string() }),
+    body: jsonContentRequired(schemas.UpdateMemberRequestBaseSchema, "New role"),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Role changed" },
+    ...errorResponses,
+  },
+});
+
+export const removeMember = createRoute({
+  path: "/orgs/:orgId/members/:userId",
+  method: "delete",
+  tags,
+  summary: schemas.RemoveMemberSummary,
+  description: schemas.RemoveMemberDescription,
+  request: {
+    params: z.object({ orgId: z.string(), userId: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Member removed" },
+    ...errorResponses,
+  },
+});
+
+// ==================== Invitation Routes ====================
+
+export const listInvitations = createRoute({
+  path: "/orgs/:orgId/invitations",
+  method: "get",
+  tags,
+  summary: schemas.ListInvitationsSummary,
+  description: schemas.ListInvitationsDescription,
+  request: {
+    params: z.object({ orgId: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.ListInvitationsResponseBaseSchema, "Pending invitations"),
+    ...errorResponses,
+  },
+});
+
+export const createInvitation = createRoute({
+  path: "/orgs/:orgId/invitations",
+  method: "post",
+  tags,
+  summary: schemas.CreateInvitationSummary,
+  description: schemas.CreateInvitationDescription,
+  request: {
+    params: z.object({ orgId: z.string() }),
+    body: jsonContentRequired(schemas.CreateInvitationRequestBaseSchema, "Invitation data"),
+  },
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(schemas.CreateInvitationResponseBaseSchema, "Invitation created"),
+    ...errorResponses,
+  },
+});
+
+export const revokeInvitation = createRoute({
+  path: "/orgs/:orgId/invitations/:invitationId",
+  method: "delete",
+  tags,
+  summary: schemas.RevokeInvitationSummary,
+  description: schemas.RevokeInvitationDescription,
+  request: {
+    params: z.object({ orgId: z.string(), invitationId: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Invitation revoked" },
+    ...errorResponses,
+  },
+});
+
+// ==================== API Key Routes ====================
+
+export const createApiKey = createRoute({
+  path: "/orgs/:orgId/api-keys",
+  method: "post",
+  tags,
+  summary: schemas.CreateOrgApiKeySummary,
+  description: schemas.CreateOrgApiKeyDescription,
+  request: {
+    params: z.object({ orgId: z.string() }),
+    body: jsonContentRequired(schemas.CreateOrgApiKeyRequestBaseSchema, "Key data"),
+  },
+  responses: {
+    [HttpStatusCodes.CREATED]: jsonContent(schemas.CreateOrgApiKeyResponseBaseSchema, "API key created"),
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type ListOrganizationsRoute = typeof listOrganizations;
+export type CreateOrganizationRoute = typeof createOrganization;
+export type AcceptInvitationRoute = typeof acceptInvitation;
+export type GetOrganizationRoute = typeof getOrganization;
+export type UpdateOrganizationRoute = typeof updateOrganization;
+export type DeleteOrganizationRoute = typeof deleteOrganization;
+export type UpdateMemberRoute = typeof updateMember;
+export type RemoveMemberRoute = typeof removeMember;
+export type ListInvitationsRoute = typeof listInvitations;
+export type CreateInvitationRoute = typeof createInvitation;
+export type RevokeInvitationRoute = typeof revokeInvitation;
+export type CreateApiKeyRoute = typeof createApiKey;
@@ -0,0 +1,182 @@
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for heartbeat check-in routes.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - /api/ping/:token
+ * - /api/ping/:token/:signal
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const mockUserId = "test-user-ping";
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function post(path: string, body: unknown) {
+  return [path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+type TestApp = Awaited<ReturnType<typeof createApp>>["app"];
+
+async function createHeartbeat(app: TestApp) {
+  const job = await getJson(await app.request(...post("/api/jobs", { name: "Ops" })));
+  return getJson(await app.request(...post(`/api/jobs/${job.id}/endpoints`, {
+    name: "Nightly backup",
+    kind: "heartbeat",
+    baselineIntervalMs: 3_600_000,
+    graceMs: 600_000,
+  })));
+}
+
+describe("ping API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates a heartbeat endpoint with a ping token", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    const endpoint = await createHeartbeat(app);
+
+    expect(endpoint.kind).toBe("heartbeat");
+    expect(endpoint.pingToken).toHaveLength(32);
+    expect(endpoint.graceMs).toBe(600_000);
+    expect(endpoint.url).toBeUndefined();
+  });
+
+  test("records start and success check-ins on one run", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+
+    const start = await app.request(`/api/ping/${endpoint.pingToken}/start`, { method: "POST" });
+    expect(start.status).toBe(200);
+    const started = await getJson(start);
+    expect(started.status).toBe("running");
+
+    const finish = await app.request(`/api/ping/${endpoint.pingToken}`, {
+      method: "POST",
+      body: JSON.stringify({ rows: 42 }),
+    });
+    expect(finish.status).toBe(200);
+    expect(await getJson(finish)).toEqual({ runId: started.runId, status: "success" });
+
+    const run = await getJson(await app.request(`/api/runs/${started.runId}`));
+    expect(run.status).toBe("success");
+    expect(run.responseBody).toEqual({ rows: 42 });
+  });
+
+  test("accepts cross-site check-ins without a session", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+    // eslint-disable-next-line ts/consistent-type-assertions -- passing null to simulate an unauthenticated caller
+    const anonymousAuth = createMockAuth(null as unknown as ReturnType<typeof createMockSession>);
+    const { app: anonymousApp } = await createApp(tx, testConfig, anonymousAuth, { useTransactions: false });
+
+    const res = await anonymousApp.request(`/api/ping/${endpoint.pingToken}/fail`, {
+      method: "POST",
+      headers: { "Origin": "https://ci.example.com", "Content-Type": "application/x-www-form-urlencoded" },
+    });
+
+    expect(res.status).toBe(200);
+    expect((await getJson(res)).status).toBe("failed");
+  });
+
+  test("accepts check-ins from scripts that send no Origin or Content-Type", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+
+    // What `curl -X POST https://…/api/ping/<token>` sends
+    const res = await app.request(`/api/ping/${endpoint.pingToken}`, { method: "POST" });
+
+    expect(res.status).toBe(200);
+    expect((await getJson(res)).status).toBe("success");
+  });
+
+  test("returns 404 for unknown tokens and rejects unknown signals", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+
+    expect((await app.request("/api/ping/not-a-token", { method: "POST" })).status).toBe(404);
+    expect((await app.request(`/api/ping/${endpoint.pingToken}/done`, { method: "POST" })).status).toBe(422);
+  });
+
+  test("refuses to test a heartbeat endpoint", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+
+    const res = await app.request(`/api/endpoints/${endpoint.id}/test`, { method: "POST", headers: { Origin: testConfig.WEB_URL } });
+
+    expect(res.status).toBe(400);
+  });
+
+  test("fails a run left open by an earlier start", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+
+    const first = await getJson(await app.request(`/api/ping/${endpoint.pingToken}/start`, { method: "POST" }));
+    const second = await getJson(await app.request(`/api/ping/${endpoint.pingToken}/start`, { method: "POST" }));
+
+    expect(second.runId).not.toBe(first.runId);
+    const stale = await getJson(await app.request(`/api/runs/${first.runId}`));
+    expect(stale.status).toBe("failed");
+    expect(stale.errorMessage).toContain("a new start check-in arrived");
+  });
+
+  test("rejects oversized bodies and rate limits each ping token across signals", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, { ...testConfig, RATE_LIMIT_PING_RPM: 2 }, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createHeartbeat(app);
+
+    expect((await app.request(`/api/ping/${endpoint.pingToken}`, { method: "POST", body: "x".repeat(1024 * 1024 + 1) })).status).toBe(413);
+    expect((await app.request(`/api/ping/${endpoint.pingToken}/success`, { method: "POST" })).status).toBe(200);
+    expect((await app.request(`/api/ping/${endpoint.pingToken}/start`, { method: "POST" })).status).toBe(429);
+  });
+});
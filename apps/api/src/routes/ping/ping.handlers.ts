@@ -0,0 +1,47 @@
+import * as HTTPStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./ping.routes.js";
+
+import { handleErrorResponse } from "../../lib/error-utils.js";
+
+// ==================== Heartbeat Check-in Handlers ====================
+// No auth: the ping token in the URL is the credential
+
+export const ping: AppRouteHandler<routes.PingRoute> = async (c) => {
+  const { token } = c.req.valid("param");
+  const body = await c.req.text();
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const result = await manager.recordCheckIn(token, "success", body);
+      return c.json(result, HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "ping",
+      }, {
+        defaultMessage: "Check-in failed",
+      });
+    }
+  });
+};
+
+export const signalPing: AppRouteHandler<routes.SignalPingRoute> = async (c) => {
+  const { token, signal } = c.req.valid("param");
+  const body = await c.req.text();
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const result = await manager.recordCheckIn(token, signal, body);
+      return c.json(result, HTTPStatusCodes.OK);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "signalPing",
+      }, {
+        defaultMessage: "Check-in failed",
+      });
+    }
+  });
+};
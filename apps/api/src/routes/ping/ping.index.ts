@@ -0,0 +1,10 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./ping.handlers.js";
+import * as routes from "./ping.routes.js";
+
+const router = createRouter()
+  // ==================== Heartbeat Check-in Routes ====================
+  .openapi(routes.ping, handlers.ping)
+  .openapi(routes.signalPing, handlers.signalPing);
+
+export default router;
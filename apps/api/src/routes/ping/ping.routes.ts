@@ -0,0 +1,60 @@
+import * as schemas from "@cronicorn/api-contracts/jobs";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent } from "stoker/openapi/helpers";
+
+const tags = ["Heartbeats"];
+const errorResponses = {
+  [HttpStatusCodes.NOT_FOUND]: jsonContent(
+    z.object({ message: z.string() }),
+    "Heartbeat endpoint not found",
+  ),
+  [HttpStatusCodes.REQUEST_TOO_LONG]: jsonContent(
+    z.object({ message: z.string() }),
+    "Check-in body over 1 MB",
+  ),
+  [HttpStatusCodes.TOO_MANY_REQUESTS]: jsonContent(
+    z.object({ error: z.string(), retryAfter: z.number() }),
+    "Too many check-ins for this ping token",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+// ==================== Heartbeat Check-in Routes ====================
+
+export const ping = createRoute({
+  path: "/ping/:token",
+  method: "post",
+  tags,
+  summary: schemas.HeartbeatPingSummary,
+  description: schemas.HeartbeatPingDescription,
+  request: {
+    params: z.object({ token: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.HeartbeatPingResponseSchema, "Check-in recorded"),
+    ...errorResponses,
+  },
+});
+
+export const signalPing = createRoute({
+  path: "/ping/:token/:signal",
+  method: "post",
+  tags,
+  summary: schemas.HeartbeatSignalPingSummary,
+  description: schemas.HeartbeatSignalPingDescription,
+  request: {
+    params: z.object({ token: z.string(), signal: z.enum(["start", "success", "fail"]) }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(schemas.HeartbeatPingResponseSchema, "Check-in recorded"),
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type PingRoute = typeof ping;
+export type SignalPingRoute = typeof signalPing;
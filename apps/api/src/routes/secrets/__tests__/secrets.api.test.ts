@@ -0,0 +1,143 @@
+import { DrizzleJobsRepo, DrizzleSecretsProvider, SecretCipher } from "@cronicorn/adapter-drizzle";
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for secrets routes.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - GET /api/secrets
+ * - PUT /api/secrets/:name
+ * - DELETE /api/secrets/:name
+ * including an organization's secrets (?orgId=)
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const mockUserId = "test-user-secrets";
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function put(name: string, value: unknown, query = "") {
+  return [`/api/secrets/${name}${query}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ value }),
+  }] as const;
+}
+
+function post(path: string, body: unknown) {
+  return [path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+describe("secrets API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates, replaces and lists secrets without returning values", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    const created = await app.request(...put("STRIPE_KEY", "sk_live_1"));
+    expect(created.status).toBe(201);
+    expect(await getJson(created)).toEqual({ name: "STRIPE_KEY", createdAt: expect.any(String), updatedAt: expect.any(String) });
+
+    const replaced = await app.request(...put("STRIPE_KEY", "sk_live_2"));
+    expect(replaced.status).toBe(200);
+
+    const res = await app.request("/api/secrets", { method: "GET" });
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).not.toContain("sk_live");
+    expect(JSON.parse(text).secrets.map((secret: { name: string }) => secret.name)).toEqual(["STRIPE_KEY"]);
+  });
+
+  test("rejects invalid names and empty values", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    expect((await app.request(...put("stripe-key", "x"))).status).toBe(422);
+    expect((await app.request(...put("STRIPE_KEY", ""))).status).toBe(422);
+  });
+
+  test("deletes secrets and returns 404 for unknown names", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    await app.request(...put("STRIPE_KEY", "sk_live_1"));
+
+    // Web app requests carry its Origin (CSRF check)
+    const remove = { method: "DELETE", headers: { Origin: testConfig.WEB_URL } };
+    expect((await app.request("/api/secrets/STRIPE_KEY", remove)).status).toBe(204);
+    expect((await app.request("/api/secrets/STRIPE_KEY", remove)).status).toBe(404);
+  });
+
+  test("stores an organization's secrets under the org, where its endpoints resolve them", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    await createTestUser(tx, { id: "secrets-stranger", email: "stranger@test.com" });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const { app: strangerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("secrets-stranger")), { useTransactions: false });
+    const org = await getJson(await app.request(...post("/api/orgs", { name: "Acme" })));
+
+    expect((await app.request(...put("API_KEY", "org-value", `?orgId=${org.id}`))).status).toBe(201);
+    expect((await app.request(...put("API_KEY", "personal-value"))).status).toBe(201);
+    expect((await strangerApp.request(...put("API_KEY", "x", `?orgId=${org.id}`))).status).toBe(404);
+    expect((await getJson(await app.request(`/api/secrets?orgId=${org.id}`))).secrets.map((secret: { name: string }) => secret.name)).toEqual(["API_KEY"]);
+
+    const job = await getJson(await app.request(...post("/api/jobs", { name: "Shared", orgId: org.id })));
+    const createRes = await app.request(...post(`/api/jobs/${job.id}/endpoints`, {
+      name: "Charge",
+      url: "https://example.com/charge",
+      headersJson: { Authorization: "Bearer {{ secret.API_KEY }}" },
+      baselineIntervalMs: 3_600_000,
+    }));
+    expect(createRes.status).toBe(201);
+    const created = await getJson(createRes);
+
+    // The dispatcher resolves secrets by the endpoint's tenant, which is the organization
+    // @ts-expect-error - Drizzle type mismatch between pnpm versions
+    const endpoint = await new DrizzleJobsRepo(tx).getEndpoint(created.id);
+    // @ts-expect-error - Drizzle type mismatch between pnpm versions
+    const provider = new DrizzleSecretsProvider(tx, new SecretCipher(testConfig.SECRETS_ENCRYPTION_KEY));
+    expect(endpoint.tenantId).toBe(org.id);
+    expect(await provider.getSecrets(endpoint.tenantId, ["API_KEY"])).toEqual({ API_KEY: "org-value" });
+  });
+});
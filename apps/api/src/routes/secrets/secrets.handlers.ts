@@ -0,0 +1,68 @@
+import type { SecretInfo } from "@cronicorn/domain";
+
+import { MAX_SECRETS_PER_USER } from "@cronicorn/domain";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./secrets.routes.js";
+
+import { getAuthContext } from "../../auth/middleware.js";
+
+function mapSecretToResponse(secret: SecretInfo) {
+  return {
+    name: secret.name,
+    createdAt: secret.createdAt.toISOString(),
+    updatedAt: secret.updatedAt.toISOString(),
+  };
+}
+
+// Secrets belong to the job owner: the user, or an organization managed by its admins.
+// Dispatchers resolve them by the endpoint's tenant, which is that same owner.
+
+export const listSecrets: AppRouteHandler<routes.ListSecretsRoute> = async (c) => {
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withSecretsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const secrets = await repo.list(ownerId);
+    return c.json({ secrets: secrets.map(mapSecretToResponse) }, HttpStatusCodes.OK);
+  });
+};
+
+export const setSecret: AppRouteHandler<routes.SetSecretRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { value } = c.req.valid("json");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withSecretsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const existing = await repo.list(ownerId);
+    if (existing.length >= MAX_SECRETS_PER_USER && !existing.some(secret => secret.name === name)) {
+      return c.json({ message: `Secret limit reached (${MAX_SECRETS_PER_USER}). Delete unused secrets first.` }, HttpStatusCodes.BAD_REQUEST);
+    }
+
+    // The value is never echoed back
+    const { secret, created } = await repo.set(ownerId, name, value);
+    if (created) {
+      return c.json(mapSecretToResponse(secret), HttpStatusCodes.CREATED);
+    }
+    return c.json(mapSecretToResponse(secret), HttpStatusCodes.OK);
+  });
+};
+
+export const deleteSecret: AppRouteHandler<routes.DeleteSecretRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withSecretsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const deleted = await repo.delete(ownerId, name);
+    if (!deleted) {
+      return c.json({ message: `Secret "${name}" not found` }, HttpStatusCodes.NOT_FOUND);
+    }
+    return c.body(null, HttpStatusCodes.NO_CONTENT);
+  });
+};
@@ -0,0 +1,10 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./secrets.handlers.js";
+import * as routes from "./secrets.routes.js";
+
+const router = createRouter()
+  .openapi(routes.listSecrets, handlers.listSecrets)
+  .openapi(routes.setSecret, handlers.setSecret)
+  .openapi(routes.deleteSecret, handlers.deleteSecret);
+
+export default router;
@@ -0,0 +1,99 @@
+import {
+  DeleteSecretDescription,
+  DeleteSecretSummary,
+  ListSecretsDescription,
+  ListSecretsResponseBaseSchema,
+  ListSecretsSummary,
+  SecretNameBaseSchema,
+  SecretResponseBaseSchema,
+  SetSecretDescription,
+  SetSecretRequestBaseSchema,
+  SetSecretSummary,
+} from "@cronicorn/api-contracts/secrets";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+
+const tags = ["Secrets"];
+const errorResponses = {
+  [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+    z.object({ message: z.string() }),
+    "Authentication required",
+  ),
+  [HttpStatusCodes.FORBIDDEN]: jsonContent(
+    z.object({ message: z.string() }),
+    "Organization role below admin",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+const ownerQuery = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Manage the organization's secrets instead of personal ones (requires the admin role). Endpoints of the organization's jobs use these",
+  }),
+});
+
+export const listSecrets = createRoute({
+  path: "/secrets",
+  method: "get",
+  tags,
+  summary: ListSecretsSummary,
+  description: ListSecretsDescription,
+  request: {
+    query: ownerQuery,
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(ListSecretsResponseBaseSchema, "Secret names and dates"),
+    ...errorResponses,
+  },
+});
+
+export const setSecret = createRoute({
+  path: "/secrets/:name",
+  method: "put",
+  tags,
+  summary: SetSecretSummary,
+  description: SetSecretDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: SecretNameBaseSchema }),
+    body: jsonContentRequired(SetSecretRequestBaseSchema, "Secret value"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(SecretResponseBaseSchema, "Secret value replaced"),
+    [HttpStatusCodes.CREATED]: jsonContent(SecretResponseBaseSchema, "Secret created"),
+    [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+      z.object({ message: z.string() }),
+      "Secret limit reached",
+    ),
+    ...errorResponses,
+  },
+});
+
+export const deleteSecret = createRoute({
+  path: "/secrets/:name",
+  method: "delete",
+  tags,
+  summary: DeleteSecretSummary,
+  description: DeleteSecretDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: SecretNameBaseSchema }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "Secret deleted" },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      z.object({ message: z.string() }),
+      "Secret not found",
+    ),
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type ListSecretsRoute = typeof listSecrets;
+export type SetSecretRoute = typeof setSecret;
+export type DeleteSecretRoute = typeof deleteSecret;
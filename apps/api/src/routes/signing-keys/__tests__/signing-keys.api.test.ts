@@ -13,6 +13,8 @@ import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-h
  * - GET /api/signing-keys
  * - POST /api/signing-keys
  * - POST /api/signing-keys/rotate
+ * - PATCH /api/signing-keys
+ * - GET /api/tenants/:tenantId/.well-known/jwks.json
  */
 
 // eslint-disable-next-line ts/no-explicit-any
@@ -42,8 +44,11 @@ const testConfig: Env = {
   STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
   STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
   BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
   RATE_LIMIT_MUTATION_RPM: 60,
   RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
   SHUTDOWN_TIMEOUT_MS: 30000,
 };
 
@@ -68,6 +73,7 @@ describe("signing-keys API", () => {
       expect(data.keyPrefix).toBeNull();
       expect(data.createdAt).toBeNull();
       expect(data.rotatedAt).toBeNull();
+      expect(data.keys).toEqual([]);
     });
 
     test("returns key info after creation", async ({ tx }) => {
@@ -80,6 +86,7 @@ describe("signing-keys API", () => {
       // Create a key first
       await app.request("/api/signing-keys", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
@@ -103,6 +110,7 @@ describe("signing-keys API", () => {
 
       const res = await app.request("/api/signing-keys", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
@@ -121,12 +129,14 @@ describe("signing-keys API", () => {
       // Create key first
       await app.request("/api/signing-keys", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
       // Try to create again
       const res = await app.request("/api/signing-keys", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
@@ -147,6 +157,7 @@ describe("signing-keys API", () => {
       // Create key first
       const createRes = await app.request("/api/signing-keys", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
       const createData = await getJson(createRes);
@@ -154,6 +165,7 @@ describe("signing-keys API", () => {
       // Rotate
       const res = await app.request("/api/signing-keys/rotate", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
@@ -162,6 +174,55 @@ describe("signing-keys API", () => {
       expect(data.rawKey).toEqual(expect.any(String));
       // New key should be different from original
       expect(data.rawKey).not.toBe(createData.rawKey);
+      expect(data.previousKeyExpiresAt).toEqual(expect.any(String));
+    });
+
+    test("keeps the old key as expiring for the overlap period", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockSession = createMockSession(mockUserId);
+      const mockAuth = createMockAuth(mockSession);
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      const createRes = await app.request("/api/signing-keys", {
+        method: "POST",
+        body: JSON.stringify({}),
+        headers: { "Content-Type": "application/json" },
+      });
+      const createData = await getJson(createRes);
+
+      const rotateRes = await app.request("/api/signing-keys/rotate", {
+        method: "POST",
+        body: JSON.stringify({ overlapMs: 60 * 60 * 1000 }),
+        headers: { "Content-Type": "application/json" },
+      });
+      const rotateData = await getJson(rotateRes);
+
+      const res = await app.request("/api/signing-keys", { method: "GET" });
+
+      expect(res.status).toBe(200);
+      const data = await getJson(res);
+      expect(data.keyPrefix).toBe(rotateData.keyPrefix);
+      expect(data.keys).toEqual([
+        expect.objectContaining({ id: rotateData.id, status: "active", expiresAt: null }),
+        expect.objectContaining({ id: createData.id, status: "expiring", expiresAt: rotateData.previousKeyExpiresAt }),
+      ]);
+    });
+
+    test("rejects an overlap longer than 30 days", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockSession = createMockSession(mockUserId);
+      const mockAuth = createMockAuth(mockSession);
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      const res = await app.request("/api/signing-keys/rotate", {
+        method: "POST",
+        body: JSON.stringify({ overlapMs: 31 * 24 * 60 * 60 * 1000 }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(422);
     });
 
     test("returns 404 when no key exists", async ({ tx }) => {
@@ -173,6 +234,7 @@ describe("signing-keys API", () => {
 
       const res = await app.request("/api/signing-keys/rotate", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
@@ -182,6 +244,134 @@ describe("signing-keys API", () => {
     });
   });
 
+  describe("patch /api/signing-keys", () => {
+    test("switches the signature version", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockSession = createMockSession(mockUserId);
+      const mockAuth = createMockAuth(mockSession);
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      await app.request("/api/signing-keys", {
+        method: "POST",
+        body: JSON.stringify({}),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      const res = await app.request("/api/signing-keys", {
+        method: "PATCH",
+        body: JSON.stringify({ signatureVersion: "v2" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(200);
+      const data = await getJson(res);
+      expect(data.signatureVersion).toBe("v2");
+    });
+
+    test("returns 404 when no key exists", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockSession = createMockSession(mockUserId);
+      const mockAuth = createMockAuth(mockSession);
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      const res = await app.request("/api/signing-keys", {
+        method: "PATCH",
+        body: JSON.stringify({ signatureVersion: "v2" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(404);
+    });
+  });
+
+  describe("ed25519 keys", () => {
+    test("creates an Ed25519 key without returning a raw key", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockAuth = createMockAuth(createMockSession(mockUserId));
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+
+      const res = await app.request("/api/signing-keys", {
+        method: "POST",
+        body: JSON.stringify({ algorithm: "ed25519" }),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      expect(res.status).toBe(201);
+      const data = await getJson(res);
+      expect(data.rawKey).toBeNull();
+      expect(data.algorithm).toBe("ed25519");
+      expect(data.keyPrefix).toMatch(/^pk_/);
+
+      const info = await getJson(await app.request("/api/signing-keys", { method: "GET" }));
+      expect(info.algorithm).toBe("ed25519");
+      expect(info.jwksUrl).toBe(`http://localhost:3000/api/tenants/${mockUserId}/.well-known/jwks.json`);
+    });
+
+    test("publishes the public keys in the tenant's JWKS, without auth", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockAuth = createMockAuth(createMockSession(mockUserId));
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+      const created = await getJson(await app.request("/api/signing-keys", {
+        method: "POST",
+        body: JSON.stringify({ algorithm: "ed25519" }),
+        headers: { "Content-Type": "application/json" },
+      }));
+
+      // eslint-disable-next-line ts/consistent-type-assertions -- passing null to simulate an unauthenticated caller
+      const anonymousAuth = createMockAuth(null as unknown as ReturnType<typeof createMockSession>);
+      const { app: publicApp } = await createApp(tx, testConfig, anonymousAuth, { useTransactions: false });
+      const res = await publicApp.request(`/api/tenants/${mockUserId}/.well-known/jwks.json`, { method: "GET" });
+
+      expect(res.status).toBe(200);
+      expect(res.headers.get("Cache-Control")).toBe("public, max-age=300");
+      const data = await getJson(res);
+      expect(data.keys).toEqual([
+        { kty: "OKP", crv: "Ed25519", x: expect.any(String), kid: created.id, alg: "EdDSA", use: "sig" },
+      ]);
+    });
+
+    test("keeps the old key in the JWKS while a rotation overlaps, and can switch algorithm", async ({ tx }) => {
+      await createTestUser(tx, { id: mockUserId });
+
+      const mockAuth = createMockAuth(createMockSession(mockUserId));
+      const { app } = await createApp(tx, testConfig, mockAuth, { useTransactions: false });
+      await app.request("/api/signing-keys", {
+        method: "POST",
+        body: JSON.stringify({}),
+        headers: { "Content-Type": "application/json" },
+      });
+
+      const switched = await getJson(await app.request("/api/signing-keys/rotate", {
+        method: "POST",
+        body: JSON.stringify({ algorithm: "ed25519" }),
+        headers: { "Content-Type": "application/json" },
+      }));
+      const rotated = await getJson(await app.request("/api/signing-keys/rotate", {
+        method: "POST",
+        body: JSON.stringify({}),
+        headers: { "Content-Type": "application/json" },
+      }));
+
+      expect(switched.rawKey).toBeNull();
+      expect(rotated.algorithm).toBe("ed25519");
+      const jwks = await getJson(await app.request(`/api/tenants/${mockUserId}/.well-known/jwks.json`, { method: "GET" }));
+      expect(jwks.keys.map((k: { kid: string }) => k.kid)).toEqual([rotated.id, switched.id]);
+    });
+
+    test("returns an empty set for a tenant without Ed25519 keys", async ({ tx }) => {
+      const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+      const res = await app.request("/api/tenants/unknown-tenant/.well-known/jwks.json", { method: "GET" });
+
+      expect(res.status).toBe(200);
+      expect(await getJson(res)).toEqual({ keys: [] });
+    });
+  });
+
   describe("cross-user isolation", () => {
     test("user cannot see another user's key", async ({ tx }) => {
       const user1Id = "signing-key-user-1";
@@ -194,6 +384,7 @@ describe("signing-keys API", () => {
       const { app: app1 } = await createApp(tx, testConfig, mockAuth1, { useTransactions: false });
       await app1.request("/api/signing-keys", {
         method: "POST",
+        body: JSON.stringify({}),
         headers: { "Content-Type": "application/json" },
       });
 
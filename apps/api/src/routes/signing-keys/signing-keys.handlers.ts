@@ -1,3 +1,6 @@
+import type { SigningKeysRepo } from "@cronicorn/domain";
+
+import { buildJwks, DEFAULT_ROTATION_OVERLAP_MS } from "@cronicorn/domain/signing";
 import * as HttpStatusCodes from "stoker/http-status-codes";
 
 import type { AppRouteHandler } from "../../types.js";
@@ -5,47 +8,135 @@ import type * as routes from "./signing-keys.routes.js";
 
 import { getAuthContext } from "../../auth/middleware.js";
 
+function toInfoResponse(info: Awaited<ReturnType<SigningKeysRepo["getInfo"]>>, jwksUrl: string) {
+  return {
+    hasKey: info.hasKey,
+    keyPrefix: info.keyPrefix,
+    createdAt: info.createdAt?.toISOString() ?? null,
+    rotatedAt: info.rotatedAt?.toISOString() ?? null,
+    algorithm: info.algorithm,
+    signatureVersion: info.signatureVersion,
+    jwksUrl,
+    keys: info.keys.map(key => ({
+      id: key.id,
+      keyPrefix: key.keyPrefix,
+      algorithm: key.algorithm,
+      status: key.status,
+      createdAt: key.createdAt.toISOString(),
+      expiresAt: key.expiresAt?.toISOString() ?? null,
+    })),
+  };
+}
+
+function jwksUrl(apiUrl: string, tenantId: string): string {
+  return `${apiUrl}/api/tenants/${encodeURIComponent(tenantId)}/.well-known/jwks.json`;
+}
+
+// Keys belong to the job owner: the user, or an organization managed by its admins.
+// The signing dispatcher looks them up by the endpoint's tenant, which is that same owner.
+
 export const getSigningKey: AppRouteHandler<routes.GetSigningKeyRoute> = async (c) => {
+  const { orgId } = c.req.valid("query");
   const { userId } = getAuthContext(c);
 
-  return c.get("withSigningKeysRepo")(async (repo) => {
-    const info = await repo.getInfo(userId);
+  return c.get("withSigningKeysRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const info = await repo.getInfo(ownerId);
+    return c.json(toInfoResponse(info, jwksUrl(c.get("config").API_URL, ownerId)), HttpStatusCodes.OK);
+  });
+};
 
-    return c.json({
-      hasKey: info.hasKey,
-      keyPrefix: info.keyPrefix,
-      createdAt: info.createdAt?.toISOString() ?? null,
-      rotatedAt: info.rotatedAt?.toISOString() ?? null,
-    }, HttpStatusCodes.OK);
+export const updateSigningKeySettings: AppRouteHandler<routes.UpdateSigningKeySettingsRoute> = async (c) => {
+  const { signatureVersion } = c.req.valid("json");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withSigningKeysRepo")(async (repo, access, audit) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const existing = await repo.getInfo(ownerId);
+    if (!existing.hasKey) {
+      return c.json({ message: "No signing key exists. Use POST /signing-keys to create one." }, HttpStatusCodes.NOT_FOUND);
+    }
+
+    if (existing.signatureVersion !== signatureVersion) {
+      await repo.setSignatureVersion(ownerId, signatureVersion);
+      await audit?.record({
+        tenantId: ownerId,
+        action: "signing_key.updated",
+        before: { signatureVersion: existing.signatureVersion },
+        after: { signatureVersion },
+      });
+    }
+
+    const info = await repo.getInfo(ownerId);
+    return c.json(toInfoResponse(info, jwksUrl(c.get("config").API_URL, ownerId)), HttpStatusCodes.OK);
   });
 };
 
 export const createSigningKey: AppRouteHandler<routes.CreateSigningKeyRoute> = async (c) => {
+  const { algorithm } = c.req.valid("json");
+  const { orgId } = c.req.valid("query");
   const { userId } = getAuthContext(c);
 
-  return c.get("withSigningKeysRepo")(async (repo) => {
+  return c.get("withSigningKeysRepo")(async (repo, access, audit) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+
     // Check if key already exists
-    const existing = await repo.getInfo(userId);
+    const existing = await repo.getInfo(ownerId);
     if (existing.hasKey) {
       return c.json({ message: "Signing key already exists. Use POST /signing-keys/rotate to replace it." }, HttpStatusCodes.CONFLICT);
     }
 
-    const result = await repo.create(userId);
+    const result = await repo.create(ownerId, algorithm);
+    await audit?.record({
+      tenantId: ownerId,
+      action: "signing_key.created",
+      after: { keyPrefix: result.keyPrefix, algorithm: result.algorithm },
+    });
     return c.json(result, HttpStatusCodes.CREATED);
   });
 };
 
 export const rotateSigningKey: AppRouteHandler<routes.RotateSigningKeyRoute> = async (c) => {
+  const { overlapMs = DEFAULT_ROTATION_OVERLAP_MS, algorithm } = c.req.valid("json");
+  const { orgId } = c.req.valid("query");
   const { userId } = getAuthContext(c);
 
-  return c.get("withSigningKeysRepo")(async (repo) => {
+  return c.get("withSigningKeysRepo")(async (repo, access, audit) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+
     // Check if key exists
-    const existing = await repo.getInfo(userId);
+    const existing = await repo.getInfo(ownerId);
     if (!existing.hasKey) {
       return c.json({ message: "No signing key exists. Use POST /signing-keys to create one." }, HttpStatusCodes.NOT_FOUND);
     }
 
-    const result = await repo.rotate(userId);
-    return c.json(result, HttpStatusCodes.OK);
+    const result = await repo.rotate(ownerId, overlapMs, algorithm);
+    const previousKeyExpiresAt = result.previousKeyExpiresAt.toISOString();
+    await audit?.record({
+      tenantId: ownerId,
+      action: "signing_key.rotated",
+      before: { keyPrefix: existing.keyPrefix, algorithm: existing.algorithm, expiresAt: previousKeyExpiresAt },
+      after: { keyPrefix: result.keyPrefix, algorithm: result.algorithm },
+    });
+    return c.json({
+      id: result.id,
+      rawKey: result.rawKey,
+      keyPrefix: result.keyPrefix,
+      algorithm: result.algorithm,
+      previousKeyExpiresAt,
+    }, HttpStatusCodes.OK);
+  });
+};
+
+// No auth: the JWKS only holds public keys
+export const getJwks: AppRouteHandler<routes.GetJwksRoute> = async (c) => {
+  const { tenantId } = c.req.valid("param");
+
+  return c.get("withSigningKeysRepo")(async (repo) => {
+    const publicKeys = await repo.getPublicKeys(tenantId);
+    // Short cache: a rotation's new key must reach receivers well within its overlap
+    c.header("Cache-Control", "public, max-age=300");
+    return c.json(buildJwks(publicKeys), HttpStatusCodes.OK);
   });
 };
@@ -4,7 +4,9 @@ import * as routes from "./signing-keys.routes.js";
 
 const router = createRouter()
   .openapi(routes.getSigningKey, handlers.getSigningKey)
+  .openapi(routes.updateSigningKeySettings, handlers.updateSigningKeySettings)
   .openapi(routes.createSigningKey, handlers.createSigningKey)
-  .openapi(routes.rotateSigningKey, handlers.rotateSigningKey);
+  .openapi(routes.rotateSigningKey, handlers.rotateSigningKey)
+  .openapi(routes.getJwks, handlers.getJwks);
 
 export default router;
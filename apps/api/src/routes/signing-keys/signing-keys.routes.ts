@@ -1,16 +1,25 @@
 import {
   CreateSigningKeyDescription,
+  CreateSigningKeyRequestBaseSchema,
   CreateSigningKeySummary,
+  GetJwksDescription,
+  GetJwksSummary,
   GetSigningKeyDescription,
   GetSigningKeySummary,
+  JwksResponseBaseSchema,
   RotateSigningKeyDescription,
+  RotateSigningKeyRequestBaseSchema,
   RotateSigningKeySummary,
   SigningKeyCreatedResponseBaseSchema,
   SigningKeyInfoResponseBaseSchema,
+  SigningKeyRotatedResponseBaseSchema,
+  UpdateSigningKeySettingsDescription,
+  UpdateSigningKeySettingsRequestBaseSchema,
+  UpdateSigningKeySettingsSummary,
 } from "@cronicorn/api-contracts/signing-keys";
 import { createRoute, z } from "@hono/zod-openapi";
 import * as HttpStatusCodes from "stoker/http-status-codes";
-import { jsonContent } from "stoker/openapi/helpers";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
 
 const tags = ["Signing Keys"];
 const errorResponses = {
@@ -18,30 +27,67 @@ const errorResponses = {
     z.object({ message: z.string() }),
     "Authentication required",
   ),
+  [HttpStatusCodes.FORBIDDEN]: jsonContent(
+    z.object({ message: z.string() }),
+    "Organization role below admin",
+  ),
   [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
     z.object({ message: z.string() }),
     "Internal server error",
   ),
 };
 
+const ownerQuery = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Manage the organization's signing keys instead of personal ones (requires the admin role). Endpoints of the organization's jobs use these",
+  }),
+});
+
 export const getSigningKey = createRoute({
   path: "/signing-keys",
   method: "get",
   tags,
   summary: GetSigningKeySummary,
   description: GetSigningKeyDescription,
+  request: {
+    query: ownerQuery,
+  },
   responses: {
     [HttpStatusCodes.OK]: jsonContent(SigningKeyInfoResponseBaseSchema, "Signing key info"),
     ...errorResponses,
   },
 });
 
+export const updateSigningKeySettings = createRoute({
+  path: "/signing-keys",
+  method: "patch",
+  tags,
+  summary: UpdateSigningKeySettingsSummary,
+  description: UpdateSigningKeySettingsDescription,
+  request: {
+    query: ownerQuery,
+    body: jsonContentRequired(UpdateSigningKeySettingsRequestBaseSchema, "Signing settings"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(SigningKeyInfoResponseBaseSchema, "Signing key info"),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      z.object({ message: z.string() }),
+      "No signing key exists",
+    ),
+    ...errorResponses,
+  },
+});
+
 export const createSigningKey = createRoute({
   path: "/signing-keys",
   method: "post",
   tags,
   summary: CreateSigningKeySummary,
   description: CreateSigningKeyDescription,
+  request: {
+    query: ownerQuery,
+    body: jsonContent(CreateSigningKeyRequestBaseSchema, "Key options"),
+  },
   responses: {
     [HttpStatusCodes.CREATED]: jsonContent(SigningKeyCreatedResponseBaseSchema, "Signing key created"),
     [HttpStatusCodes.CONFLICT]: jsonContent(
@@ -58,8 +104,12 @@ export const rotateSigningKey = createRoute({
   tags,
   summary: RotateSigningKeySummary,
   description: RotateSigningKeyDescription,
+  request: {
+    query: ownerQuery,
+    body: jsonContent(RotateSigningKeyRequestBaseSchema, "Rotation options"),
+  },
   responses: {
-    [HttpStatusCodes.OK]: jsonContent(SigningKeyCreatedResponseBaseSchema, "New signing key"),
+    [HttpStatusCodes.OK]: jsonContent(SigningKeyRotatedResponseBaseSchema, "New signing key"),
     [HttpStatusCodes.NOT_FOUND]: jsonContent(
       z.object({ message: z.string() }),
       "No signing key exists",
@@ -68,7 +118,25 @@ export const rotateSigningKey = createRoute({
   },
 });
 
+// No auth: public keys, fetched by the user's receivers
+export const getJwks = createRoute({
+  path: "/tenants/:tenantId/.well-known/jwks.json",
+  method: "get",
+  tags,
+  summary: GetJwksSummary,
+  description: GetJwksDescription,
+  request: {
+    params: z.object({ tenantId: z.string() }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(JwksResponseBaseSchema, "JSON Web Key Set"),
+    [HttpStatusCodes.INTERNAL_SERVER_ERROR]: errorResponses[HttpStatusCodes.INTERNAL_SERVER_ERROR],
+  },
+});
+
 // Type exports for handlers
 export type GetSigningKeyRoute = typeof getSigningKey;
+export type UpdateSigningKeySettingsRoute = typeof updateSigningKeySettings;
 export type CreateSigningKeyRoute = typeof createSigningKey;
 export type RotateSigningKeyRoute = typeof rotateSigningKey;
+export type GetJwksRoute = typeof getJwks;
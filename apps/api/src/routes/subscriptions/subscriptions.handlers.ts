@@ -29,6 +29,7 @@ export const handleCreateCheckout: AppRouteHandler<typeof routes.createCheckout>
       userId,
       tier: body.tier,
       billingPeriod: body.billingPeriod,
+      orgId: body.orgId,
     });
     return c.json(result, 200);
   }
@@ -46,11 +47,12 @@ export const handleCreateCheckout: AppRouteHandler<typeof routes.createCheckout>
 
 export const handleCreatePortal: AppRouteHandler<typeof routes.createPortal> = async (c) => {
   const { userId } = getAuthContext(c);
+  const body = c.req.valid("json");
 
   const subscriptionsManager = c.get("subscriptionsManager");
 
   try {
-    const result = await subscriptionsManager.createPortal({ userId });
+    const result = await subscriptionsManager.createPortal({ userId, orgId: body.orgId });
     return c.json(result, 200);
   }
   catch (error) {
@@ -67,11 +69,12 @@ export const handleCreatePortal: AppRouteHandler<typeof routes.createPortal> = a
 
 export const handleGetStatus: AppRouteHandler<typeof routes.getStatus> = async (c) => {
   const { userId } = getAuthContext(c);
+  const { orgId } = c.req.valid("query");
 
   const subscriptionsManager = c.get("subscriptionsManager");
 
   try {
-    const result = await subscriptionsManager.getSubscriptionStatus(userId);
+    const result = await subscriptionsManager.getSubscriptionStatus(userId, orgId);
     return c.json(result, 200);
   }
   catch (error) {
@@ -88,6 +91,7 @@ export const handleGetStatus: AppRouteHandler<typeof routes.getStatus> = async (
 
 export const handleGetUsage: AppRouteHandler<typeof routes.getUsage> = async (c) => {
   const { userId } = getAuthContext(c);
+  const { orgId } = c.req.valid("query");
 
   return c.get("withJobsManager")(async (manager) => {
     try {
@@ -96,7 +100,7 @@ export const handleGetUsage: AppRouteHandler<typeof routes.getUsage> = async (c)
       const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
 
       // Get usage data via JobsRepo
-      const usage = await manager.getUsage(userId, startOfMonth);
+      const usage = await manager.getUsage(userId, startOfMonth, orgId);
 
       return c.json(usage, 200);
     }
@@ -6,6 +6,7 @@ import {
   ErrorSchema,
   RequestRefundRequestSchema,
   RequestRefundResponseSchema,
+  SubscriptionOrgQuerySchema,
   SubscriptionStatusResponseSchema,
   UsageResponseSchema,
 } from "@cronicorn/api-contracts/subscriptions";
@@ -126,6 +127,9 @@ export const getStatus = createRoute({
   hide: true,
   summary: "Get Subscription Status",
   description: "Get current subscription status for authenticated user",
+  request: {
+    query: SubscriptionOrgQuerySchema,
+  },
   responses: {
     200: {
       description: "Subscription status retrieved successfully",
@@ -164,6 +168,9 @@ export const getUsage = createRoute({
   hide: true,
   summary: "Get Usage and Quota",
   description: "Get current usage vs quota limits for AI calls and endpoints",
+  request: {
+    query: SubscriptionOrgQuerySchema,
+  },
   responses: {
     200: {
       description: "Usage data retrieved successfully",
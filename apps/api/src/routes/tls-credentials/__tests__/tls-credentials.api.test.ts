@@ -0,0 +1,167 @@
+import { DrizzleJobsRepo, DrizzleTlsCredentialProvider, SecretCipher } from "@cronicorn/adapter-drizzle";
+import { TEST_CA_CERTIFICATE, TEST_CLIENT_CERTIFICATE, TEST_CLIENT_PRIVATE_KEY, TEST_OTHER_PRIVATE_KEY } from "@cronicorn/domain";
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for TLS credential routes.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - GET /api/tls-credentials
+ * - GET /api/tls-credentials/:name
+ * - PUT /api/tls-credentials/:name
+ * - DELETE /api/tls-credentials/:name
+ * including an organization's credentials (?orgId=)
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const mockUserId = "test-user-tls-credentials";
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function put(name: string, material: Record<string, string>, query = "") {
+  return [`/api/tls-credentials/${name}${query}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(material),
+  }] as const;
+}
+
+function post(path: string, body: unknown) {
+  return [path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+const clientCertificate = { certificate: TEST_CLIENT_CERTIFICATE, privateKey: TEST_CLIENT_PRIVATE_KEY };
+
+describe("tls credentials API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("uploads, replaces and lists credentials without returning material", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    const created = await app.request(...put("billing", clientCertificate));
+    expect(created.status).toBe(201);
+    expect(await getJson(created)).toEqual({
+      name: "billing",
+      hasClientCertificate: true,
+      subject: "CN=billing-client",
+      certificateExpiresAt: "2126-09-25T14:24:42.000Z",
+      caCertificates: 0,
+      caExpiresAt: null,
+      expiresAt: "2126-09-25T14:24:42.000Z",
+      expiryStatus: "valid",
+      createdAt: expect.any(String),
+      updatedAt: expect.any(String),
+    });
+
+    const replaced = await app.request(...put("billing", { ...clientCertificate, caBundle: TEST_CA_CERTIFICATE }));
+    expect(replaced.status).toBe(200);
+    expect((await getJson(replaced)).caCertificates).toBe(1);
+
+    const res = await app.request("/api/tls-credentials", { method: "GET" });
+    expect(res.status).toBe(200);
+    const text = await res.text();
+    expect(text).not.toContain("PRIVATE KEY");
+    expect(text).not.toContain("BEGIN CERTIFICATE");
+    expect(JSON.parse(text).credentials.map((credential: { name: string }) => credential.name)).toEqual(["billing"]);
+
+    const one = await app.request("/api/tls-credentials/billing", { method: "GET" });
+    expect(one.status).toBe(200);
+    expect((await getJson(one)).subject).toBe("CN=billing-client");
+  });
+
+  test("rejects invalid names and unusable material", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+
+    expect((await app.request(...put("Billing", clientCertificate))).status).toBe(422);
+
+    const mismatched = await app.request(...put("billing", { certificate: TEST_CLIENT_CERTIFICATE, privateKey: TEST_OTHER_PRIVATE_KEY }));
+    expect(mismatched.status).toBe(400);
+    expect((await getJson(mismatched)).message).toBe("privateKey doesn't match the client certificate");
+
+    const empty = await app.request(...put("billing", {}));
+    expect(empty.status).toBe(400);
+  });
+
+  test("deletes credentials and returns 404 for unknown names", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    await app.request(...put("internal-ca", { caBundle: TEST_CA_CERTIFICATE }));
+
+    // Web app requests carry its Origin (CSRF check)
+    const remove = { method: "DELETE", headers: { Origin: testConfig.WEB_URL } };
+    expect((await app.request("/api/tls-credentials/internal-ca", remove)).status).toBe(204);
+    expect((await app.request("/api/tls-credentials/internal-ca", remove)).status).toBe(404);
+    expect((await app.request("/api/tls-credentials/internal-ca", { method: "GET" })).status).toBe(404);
+  });
+
+  test("stores an organization's credentials under the org, where its endpoints resolve them", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    await createTestUser(tx, { id: "tls-stranger", email: "stranger@test.com" });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const { app: strangerApp } = await createApp(tx, testConfig, createMockAuth(createMockSession("tls-stranger")), { useTransactions: false });
+    const org = await getJson(await app.request(...post("/api/orgs", { name: "Acme" })));
+
+    expect((await app.request(...put("internal-ca", { caBundle: TEST_CA_CERTIFICATE }, `?orgId=${org.id}`))).status).toBe(201);
+    expect((await app.request(...put("personal-ca", { caBundle: TEST_CA_CERTIFICATE }))).status).toBe(201);
+    expect((await strangerApp.request(...put("internal-ca", { caBundle: TEST_CA_CERTIFICATE }, `?orgId=${org.id}`))).status).toBe(404);
+    expect((await getJson(await app.request(`/api/tls-credentials?orgId=${org.id}`))).credentials.map((credential: { name: string }) => credential.name)).toEqual(["internal-ca"]);
+
+    const job = await getJson(await app.request(...post("/api/jobs", { name: "Shared", orgId: org.id })));
+    const endpointInput = { name: "Charge", url: "https://example.com/charge", baselineIntervalMs: 3_600_000 };
+    // A member's personal credential isn't visible to the organization's endpoints
+    expect((await app.request(...post(`/api/jobs/${job.id}/endpoints`, { ...endpointInput, tlsCredentialName: "personal-ca" }))).status).toBe(400);
+    const created = await getJson(await app.request(...post(`/api/jobs/${job.id}/endpoints`, { ...endpointInput, tlsCredentialName: "internal-ca" })));
+
+    // The dispatcher resolves credentials by the endpoint's tenant, which is the organization
+    // @ts-expect-error - Drizzle type mismatch between pnpm versions
+    const endpoint = await new DrizzleJobsRepo(tx).getEndpoint(created.id);
+    // @ts-expect-error - Drizzle type mismatch between pnpm versions
+    const provider = new DrizzleTlsCredentialProvider(tx, new SecretCipher(testConfig.SECRETS_ENCRYPTION_KEY));
+    expect(endpoint.tenantId).toBe(org.id);
+    expect(await provider.getTlsCredential(endpoint.tenantId, "internal-ca")).toMatchObject({ caBundle: TEST_CA_CERTIFICATE });
+  });
+});
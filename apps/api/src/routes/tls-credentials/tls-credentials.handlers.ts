@@ -0,0 +1,104 @@
+import type { TlsCredentialInfo } from "@cronicorn/domain";
+
+import { inspectTlsCredential, MAX_TLS_CREDENTIALS_PER_USER, TlsCredentialError, tlsCredentialExpiresAt, tlsExpiryStatus } from "@cronicorn/domain/tls";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./tls-credentials.routes.js";
+
+import { getAuthContext } from "../../auth/middleware.js";
+
+function mapTlsCredentialToResponse(credential: TlsCredentialInfo, now: Date) {
+  const expiresAt = tlsCredentialExpiresAt(credential);
+  return {
+    name: credential.name,
+    hasClientCertificate: credential.hasClientCertificate,
+    subject: credential.subject,
+    certificateExpiresAt: credential.certificateExpiresAt?.toISOString() ?? null,
+    caCertificates: credential.caCertificates,
+    caExpiresAt: credential.caExpiresAt?.toISOString() ?? null,
+    expiresAt: expiresAt?.toISOString() ?? null,
+    expiryStatus: tlsExpiryStatus(expiresAt, now),
+    createdAt: credential.createdAt.toISOString(),
+    updatedAt: credential.updatedAt.toISOString(),
+  };
+}
+
+// TLS credentials belong to the job owner: the user, or an organization managed by its admins.
+// Dispatchers resolve them by the endpoint's tenant, which is that same owner.
+
+export const listTlsCredentials: AppRouteHandler<routes.ListTlsCredentialsRoute> = async (c) => {
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+  const now = c.get("clock").now();
+
+  return c.get("withTlsCredentialsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const credentials = await repo.list(ownerId);
+    return c.json({ credentials: credentials.map(credential => mapTlsCredentialToResponse(credential, now)) }, HttpStatusCodes.OK);
+  });
+};
+
+export const getTlsCredential: AppRouteHandler<routes.GetTlsCredentialRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withTlsCredentialsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const credential = await repo.get(ownerId, name);
+    if (!credential) {
+      return c.json({ message: `TLS credential "${name}" not found` }, HttpStatusCodes.NOT_FOUND);
+    }
+    return c.json(mapTlsCredentialToResponse(credential, c.get("clock").now()), HttpStatusCodes.OK);
+  });
+};
+
+export const setTlsCredential: AppRouteHandler<routes.SetTlsCredentialRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const material = c.req.valid("json");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  let summary;
+  try {
+    summary = inspectTlsCredential(material);
+  }
+  catch (error) {
+    if (error instanceof TlsCredentialError) {
+      return c.json({ message: error.message }, HttpStatusCodes.BAD_REQUEST);
+    }
+    throw error;
+  }
+
+  return c.get("withTlsCredentialsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const existing = await repo.list(ownerId);
+    if (existing.length >= MAX_TLS_CREDENTIALS_PER_USER && !existing.some(credential => credential.name === name)) {
+      return c.json({ message: `TLS credential limit reached (${MAX_TLS_CREDENTIALS_PER_USER}). Delete unused credentials first.` }, HttpStatusCodes.BAD_REQUEST);
+    }
+
+    // The material is never echoed back
+    const { credential, created } = await repo.set(ownerId, name, material, summary);
+    const response = mapTlsCredentialToResponse(credential, c.get("clock").now());
+    if (created) {
+      return c.json(response, HttpStatusCodes.CREATED);
+    }
+    return c.json(response, HttpStatusCodes.OK);
+  });
+};
+
+export const deleteTlsCredential: AppRouteHandler<routes.DeleteTlsCredentialRoute> = async (c) => {
+  const { name } = c.req.valid("param");
+  const { orgId } = c.req.valid("query");
+  const { userId } = getAuthContext(c);
+
+  return c.get("withTlsCredentialsRepo")(async (repo, access) => {
+    const ownerId = await access.resolveOwner(userId, orgId, "admin");
+    const deleted = await repo.delete(ownerId, name);
+    if (!deleted) {
+      return c.json({ message: `TLS credential "${name}" not found` }, HttpStatusCodes.NOT_FOUND);
+    }
+    return c.body(null, HttpStatusCodes.NO_CONTENT);
+  });
+};
@@ -0,0 +1,11 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./tls-credentials.handlers.js";
+import * as routes from "./tls-credentials.routes.js";
+
+const router = createRouter()
+  .openapi(routes.listTlsCredentials, handlers.listTlsCredentials)
+  .openapi(routes.getTlsCredential, handlers.getTlsCredential)
+  .openapi(routes.setTlsCredential, handlers.setTlsCredential)
+  .openapi(routes.deleteTlsCredential, handlers.deleteTlsCredential);
+
+export default router;
@@ -0,0 +1,122 @@
+import {
+  DeleteTlsCredentialDescription,
+  DeleteTlsCredentialSummary,
+  GetTlsCredentialDescription,
+  GetTlsCredentialSummary,
+  ListTlsCredentialsDescription,
+  ListTlsCredentialsResponseBaseSchema,
+  ListTlsCredentialsSummary,
+  SetTlsCredentialDescription,
+  SetTlsCredentialRequestBaseSchema,
+  SetTlsCredentialSummary,
+  TlsCredentialNameBaseSchema,
+  TlsCredentialResponseBaseSchema,
+} from "@cronicorn/api-contracts/tls-credentials";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent, jsonContentRequired } from "stoker/openapi/helpers";
+
+const tags = ["TLS Credentials"];
+const errorResponses = {
+  [HttpStatusCodes.UNAUTHORIZED]: jsonContent(
+    z.object({ message: z.string() }),
+    "Authentication required",
+  ),
+  [HttpStatusCodes.FORBIDDEN]: jsonContent(
+    z.object({ message: z.string() }),
+    "Organization role below admin",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+const ownerQuery = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Manage the organization's TLS credentials instead of personal ones (requires the admin role). Endpoints of the organization's jobs use these",
+  }),
+});
+
+export const listTlsCredentials = createRoute({
+  path: "/tls-credentials",
+  method: "get",
+  tags,
+  summary: ListTlsCredentialsSummary,
+  description: ListTlsCredentialsDescription,
+  request: {
+    query: ownerQuery,
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(ListTlsCredentialsResponseBaseSchema, "Credential names and certificate metadata"),
+    ...errorResponses,
+  },
+});
+
+export const getTlsCredential = createRoute({
+  path: "/tls-credentials/:name",
+  method: "get",
+  tags,
+  summary: GetTlsCredentialSummary,
+  description: GetTlsCredentialDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: TlsCredentialNameBaseSchema }),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(TlsCredentialResponseBaseSchema, "Credential certificate metadata"),
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      z.object({ message: z.string() }),
+      "TLS credential not found",
+    ),
+    ...errorResponses,
+  },
+});
+
+export const setTlsCredential = createRoute({
+  path: "/tls-credentials/:name",
+  method: "put",
+  tags,
+  summary: SetTlsCredentialSummary,
+  description: SetTlsCredentialDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: TlsCredentialNameBaseSchema }),
+    body: jsonContentRequired(SetTlsCredentialRequestBaseSchema, "PEM certificates and key"),
+  },
+  responses: {
+    [HttpStatusCodes.OK]: jsonContent(TlsCredentialResponseBaseSchema, "TLS credential replaced"),
+    [HttpStatusCodes.CREATED]: jsonContent(TlsCredentialResponseBaseSchema, "TLS credential created"),
+    [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+      z.object({ message: z.string() }),
+      "Invalid certificate material or credential limit reached",
+    ),
+    ...errorResponses,
+  },
+});
+
+export const deleteTlsCredential = createRoute({
+  path: "/tls-credentials/:name",
+  method: "delete",
+  tags,
+  summary: DeleteTlsCredentialSummary,
+  description: DeleteTlsCredentialDescription,
+  request: {
+    query: ownerQuery,
+    params: z.object({ name: TlsCredentialNameBaseSchema }),
+  },
+  responses: {
+    [HttpStatusCodes.NO_CONTENT]: { description: "TLS credential deleted" },
+    [HttpStatusCodes.NOT_FOUND]: jsonContent(
+      z.object({ message: z.string() }),
+      "TLS credential not found",
+    ),
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type ListTlsCredentialsRoute = typeof listTlsCredentials;
+export type GetTlsCredentialRoute = typeof getTlsCredential;
+export type SetTlsCredentialRoute = typeof setTlsCredential;
+export type DeleteTlsCredentialRoute = typeof deleteTlsCredential;
@@ -0,0 +1,135 @@
+import { afterAll, describe } from "vitest";
+
+import type { Env } from "../../../lib/config.js";
+
+import { createApp } from "../../../app.js";
+import { closeTestPool, createTestUser, expect, test } from "../../../lib/__tests__/fixtures.js";
+import { createMockAuth, createMockSession } from "../../../lib/__tests__/test-helpers.js";
+
+/**
+ * API integration tests for trigger URLs.
+ *
+ * Tests the full HTTP request/response cycle for:
+ * - /api/endpoints/:id/trigger-token (create, rotate, revoke)
+ * - /api/triggers/:token
+ */
+
+// eslint-disable-next-line ts/no-explicit-any
+const getJson = async (res: Response): Promise<any> => await res.json();
+
+const mockUserId = "test-user-triggers";
+const testConfig: Env = {
+  NODE_ENV: "test",
+  LOG_LEVEL: "debug",
+  PORT: 3000,
+  DATABASE_URL: "postgres://test",
+  DB_POOL_MAX: 5,
+  DB_POOL_IDLE_TIMEOUT_MS: 20000,
+  DB_POOL_CONNECTION_TIMEOUT_MS: 10000,
+  API_URL: "http://localhost:3000",
+  WEB_URL: "http://localhost:5173",
+  BETTER_AUTH_SECRET: "test-secret-must-be-at-least-32-characters-long",
+  BETTER_AUTH_URL: "http://localhost:3000/api/auth",
+  GITHUB_CLIENT_ID: "test_client_id",
+  GITHUB_CLIENT_SECRET: "test_client_secret",
+  STRIPE_SECRET_KEY: "sk_test_fake_key_for_testing",
+  ADMIN_USER_EMAIL: "admin@example.com",
+  ADMIN_USER_PASSWORD: "test-password-123",
+  ADMIN_USER_NAME: "Admin User",
+  STRIPE_WEBHOOK_SECRET: "whsec_test_fake_secret",
+  STRIPE_PRICE_PRO: "price_test_pro",
+  STRIPE_PRICE_PRO_ANNUAL: "price_test_pro_annual",
+  STRIPE_PRICE_ENTERPRISE: "price_test_enterprise",
+  BASE_URL: "http://localhost:5173",
+  SECRETS_ENCRYPTION_KEY: "test-secrets-key",
+  RATE_LIMIT_MUTATION_RPM: 60,
+  RATE_LIMIT_READ_RPM: 120,
+  RATE_LIMIT_TRIGGER_RPM: 30,
+  RATE_LIMIT_PING_RPM: 60,
+  SHUTDOWN_TIMEOUT_MS: 30000,
+};
+
+function post(path: string, body: unknown) {
+  return [path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  }] as const;
+}
+
+// Session routes are called by the web app, which sends its Origin (CSRF check)
+const webOrigin = { Origin: testConfig.WEB_URL };
+
+type TestApp = Awaited<ReturnType<typeof createApp>>["app"];
+
+async function createEndpoint(app: TestApp) {
+  const job = await getJson(await app.request(...post("/api/jobs", { name: "Deploys" })));
+  return getJson(await app.request(...post(`/api/jobs/${job.id}/endpoints`, {
+    name: "Cache warm",
+    url: "https://example.com/warm",
+    method: "POST",
+    bodyJson: { region: "eu" },
+    baselineIntervalMs: 3_600_000,
+  })));
+}
+
+describe("triggers API", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates, rotates and revokes a trigger token", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createEndpoint(app);
+
+    const created = await app.request(`/api/endpoints/${endpoint.id}/trigger-token`, { method: "POST", headers: webOrigin });
+    expect(created.status).toBe(201);
+    const { token, tokenPrefix } = await getJson(created);
+    expect(token).toMatch(/^trg_/);
+    expect(token.startsWith(tokenPrefix)).toBe(true);
+
+    expect((await app.request(`/api/endpoints/${endpoint.id}/trigger-token`, { method: "POST", headers: webOrigin })).status).toBe(409);
+
+    const info = await getJson(await app.request(`/api/endpoints/${endpoint.id}/trigger-token`));
+    expect(info).toMatchObject({ hasToken: true, tokenPrefix, rotatedAt: null });
+
+    const rotated = await getJson(await app.request(`/api/endpoints/${endpoint.id}/trigger-token/rotate`, { method: "POST", headers: webOrigin }));
+    expect(rotated.token).not.toBe(token);
+    expect((await app.request(`/api/triggers/${token}`, { method: "POST" })).status).toBe(404);
+
+    expect((await app.request(`/api/endpoints/${endpoint.id}/trigger-token`, { method: "DELETE", headers: webOrigin })).status).toBe(204);
+    expect((await app.request(`/api/triggers/${rotated.token}`, { method: "POST" })).status).toBe(404);
+    expect((await app.request(`/api/endpoints/${endpoint.id}/trigger-token`, { method: "DELETE", headers: webOrigin })).status).toBe(404);
+  });
+
+  test("queues a trigger run from another origin without a session", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, testConfig, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createEndpoint(app);
+    const { token } = await getJson(await app.request(`/api/endpoints/${endpoint.id}/trigger-token`, { method: "POST", headers: webOrigin }));
+    // eslint-disable-next-line ts/consistent-type-assertions -- passing null to simulate an unauthenticated caller
+    const anonymousAuth = createMockAuth(null as unknown as ReturnType<typeof createMockSession>);
+    const { app: anonymousApp } = await createApp(tx, testConfig, anonymousAuth, { useTransactions: false });
+
+    const res = await anonymousApp.request(`/api/triggers/${token}`, {
+      method: "POST",
+      headers: { "Origin": "https://ci.example.com", "Content-Type": "application/json" },
+      body: JSON.stringify({ sha: "abc123" }),
+    });
+
+    expect(res.status).toBe(202);
+    expect((await getJson(res)).requestId).toBeTruthy();
+  });
+
+  test("rejects templated payloads and rate limits each trigger URL", async ({ tx }) => {
+    await createTestUser(tx, { id: mockUserId });
+    const { app } = await createApp(tx, { ...testConfig, RATE_LIMIT_TRIGGER_RPM: 2 }, createMockAuth(createMockSession(mockUserId)), { useTransactions: false });
+    const endpoint = await createEndpoint(app);
+    const { token } = await getJson(await app.request(`/api/endpoints/${endpoint.id}/trigger-token`, { method: "POST", headers: webOrigin }));
+
+    expect((await app.request(...post(`/api/triggers/${token}`, { key: "{{ secrets.API_KEY }}" }))).status).toBe(400);
+    expect((await app.request(`/api/triggers/${token}`, { method: "POST" })).status).toBe(202);
+    expect((await app.request(`/api/triggers/${token}`, { method: "POST" })).status).toBe(429);
+  });
+});
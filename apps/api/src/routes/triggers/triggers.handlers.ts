@@ -0,0 +1,28 @@
+import * as HTTPStatusCodes from "stoker/http-status-codes";
+
+import type { AppRouteHandler } from "../../types.js";
+import type * as routes from "./triggers.routes.js";
+
+import { handleErrorResponse } from "../../lib/error-utils.js";
+
+// ==================== Trigger URL Handlers ====================
+// No auth: the trigger token in the URL is the credential
+
+export const triggerRun: AppRouteHandler<routes.TriggerRunRoute> = async (c) => {
+  const { token } = c.req.valid("param");
+  const payload = c.req.valid("json");
+
+  return c.get("withJobsManager")(async (manager) => {
+    try {
+      const result = await manager.requestTriggeredRun(token, payload);
+      return c.json({ requestId: result.requestId, requestedAt: result.requestedAt.toISOString() }, HTTPStatusCodes.ACCEPTED);
+    }
+    catch (error) {
+      return handleErrorResponse(c, error, {
+        operation: "triggerRun",
+      }, {
+        defaultMessage: "Failed to queue run",
+      });
+    }
+  });
+};
@@ -0,0 +1,9 @@
+import { createRouter } from "../../types.js";
+import * as handlers from "./triggers.handlers.js";
+import * as routes from "./triggers.routes.js";
+
+const router = createRouter()
+  // ==================== Trigger URL Routes ====================
+  .openapi(routes.triggerRun, handlers.triggerRun);
+
+export default router;
@@ -0,0 +1,45 @@
+import * as schemas from "@cronicorn/api-contracts/jobs";
+import { createRoute, z } from "@hono/zod-openapi";
+import * as HttpStatusCodes from "stoker/http-status-codes";
+import { jsonContent } from "stoker/openapi/helpers";
+
+const tags = ["Triggers"];
+const errorResponses = {
+  [HttpStatusCodes.BAD_REQUEST]: jsonContent(
+    z.object({ message: z.string() }),
+    "Endpoint can't run, invalid payload, or monthly run limit reached",
+  ),
+  [HttpStatusCodes.NOT_FOUND]: jsonContent(
+    z.object({ message: z.string() }),
+    "Trigger not found",
+  ),
+  [HttpStatusCodes.TOO_MANY_REQUESTS]: jsonContent(
+    z.object({ error: z.string(), retryAfter: z.number() }),
+    "Too many requests for this trigger URL",
+  ),
+  [HttpStatusCodes.INTERNAL_SERVER_ERROR]: jsonContent(
+    z.object({ message: z.string() }),
+    "Internal server error",
+  ),
+};
+
+// ==================== Trigger URL Routes ====================
+
+export const triggerRun = createRoute({
+  path: "/triggers/:token",
+  method: "post",
+  tags,
+  summary: schemas.TriggerRunSummary,
+  description: schemas.TriggerRunDescription,
+  request: {
+    params: z.object({ token: z.string() }),
+    body: jsonContent(schemas.TriggerRunRequestSchema, "Payload merged into the request body"),
+  },
+  responses: {
+    [HttpStatusCodes.ACCEPTED]: jsonContent(schemas.TriggerRunResponseSchema, "Run queued"),
+    ...errorResponses,
+  },
+});
+
+// Type exports for handlers
+export type TriggerRunRoute = typeof triggerRun;
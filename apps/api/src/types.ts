@@ -1,6 +1,9 @@
-import type { Clock, Cron, Dispatcher, PaymentProvider, SigningKeysRepo } from "@cronicorn/domain";
+import type { AuditActor, AuthProfilesRepo, Clock, Cron, Dispatcher, PaymentProvider, SecretsRepo, SigningKeysRepo, TlsCredentialsRepo } from "@cronicorn/domain";
 import type { DashboardManager, SubscriptionsManager } from "@cronicorn/services";
+import type { AuditLog, AuditManager } from "@cronicorn/services/audit";
 import type { JobsManager } from "@cronicorn/services/jobs";
+import type { NotificationsManager } from "@cronicorn/services/notifications";
+import type { OrgAccess, OrganizationsManager } from "@cronicorn/services/organizations";
 import type { RouteConfig, RouteHandler } from "@hono/zod-openapi";
 
 import { OpenAPIHono } from "@hono/zod-openapi";
@@ -21,7 +24,13 @@ export type AppBindings = {
     config: Env;
     withJobsManager: <T extends Response>(fn: (manager: JobsManager) => Promise<T>) => Promise<T>;
     withDashboardManager: <T extends Response>(fn: (manager: DashboardManager) => Promise<T>) => Promise<T>;
-    withSigningKeysRepo: <T extends Response>(fn: (repo: SigningKeysRepo) => Promise<T>) => Promise<T>;
+    withSigningKeysRepo: <T extends Response>(fn: (repo: SigningKeysRepo, access: OrgAccess, audit?: AuditLog) => Promise<T>) => Promise<T>;
+    withSecretsRepo: <T extends Response>(fn: (repo: SecretsRepo, access: OrgAccess) => Promise<T>) => Promise<T>;
+    withTlsCredentialsRepo: <T extends Response>(fn: (repo: TlsCredentialsRepo, access: OrgAccess) => Promise<T>) => Promise<T>;
+    withAuthProfilesRepo: <T extends Response>(fn: (repo: AuthProfilesRepo, access: OrgAccess) => Promise<T>) => Promise<T>;
+    withNotificationsManager: <T extends Response>(fn: (manager: NotificationsManager) => Promise<T>) => Promise<T>;
+    withOrganizationsManager: <T extends Response>(fn: (manager: OrganizationsManager) => Promise<T>) => Promise<T>;
+    withAuditManager: <T extends Response>(fn: (manager: AuditManager) => Promise<T>) => Promise<T>;
     // Stripe services
     subscriptionsManager: SubscriptionsManager;
     paymentProvider: PaymentProvider;
@@ -29,8 +38,12 @@ export type AppBindings = {
     // Set by requireAuth middleware
     session?: AuthContext["session"];
     userId?: string;
+    orgId?: string; // Org-scoped API keys only
+    actor?: AuditActor; // Who changes are attributed to in the audit log
     // Set by request-id middleware
     requestId: string;
+    // Set by tracing middleware (undefined when tracing is off)
+    traceId?: string;
   };
   Bindings: {
     AUTH_SECRET: string;
@@ -0,0 +1,36 @@
+/**
+ * DELETE /notifications/rules/:id - Delete an alert rule
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { DeleteAlertRuleDescription, DeleteAlertRuleSummary } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const DeleteAlertRuleRequestSchema = z.object({
+  id: z.string().describe("Rule ID to delete"),
+});
+
+// Empty response for 204 No Content
+const EmptyResponseSchema = z.object({});
+
+export function registerDeleteAlertRule(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "deleteAlertRule",
+    title: DeleteAlertRuleSummary,
+    description: DeleteAlertRuleDescription,
+    inputSchema: toShape(DeleteAlertRuleRequestSchema),
+    outputSchema: toShape(EmptyResponseSchema),
+    inputValidator: DeleteAlertRuleRequestSchema,
+    outputValidator: EmptyResponseSchema,
+    method: "DELETE",
+    path: input => `/notifications/rules/${input.id}`,
+    successMessage: () => `✅ Alert rule deleted`,
+  });
+}
@@ -0,0 +1,36 @@
+/**
+ * DELETE /auth-profiles/:name - Delete an auth profile
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as authProfilesBase, DeleteAuthProfileDescription, DeleteAuthProfileSummary } from "@cronicorn/api-contracts/auth-profiles";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const DeleteAuthProfileRequestSchema = z.object({
+  name: authProfilesBase.AuthProfileNameBaseSchema,
+});
+
+// Empty response for 204 No Content
+const EmptyResponseSchema = z.object({});
+
+export function registerDeleteAuthProfile(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "deleteAuthProfile",
+    title: DeleteAuthProfileSummary,
+    description: DeleteAuthProfileDescription,
+    inputSchema: toShape(DeleteAuthProfileRequestSchema),
+    outputSchema: toShape(EmptyResponseSchema),
+    inputValidator: DeleteAuthProfileRequestSchema,
+    outputValidator: EmptyResponseSchema,
+    method: "DELETE",
+    path: input => `/auth-profiles/${input.name}`,
+    successMessage: () => `✅ Auth profile deleted`,
+  });
+}
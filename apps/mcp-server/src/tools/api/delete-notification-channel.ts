@@ -0,0 +1,36 @@
+/**
+ * DELETE /notifications/channels/:id - Delete a notification channel
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { DeleteNotificationChannelDescription, DeleteNotificationChannelSummary } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const DeleteNotificationChannelRequestSchema = z.object({
+  id: z.string().describe("Channel ID to delete"),
+});
+
+// Empty response for 204 No Content
+const EmptyResponseSchema = z.object({});
+
+export function registerDeleteNotificationChannel(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "deleteNotificationChannel",
+    title: DeleteNotificationChannelSummary,
+    description: DeleteNotificationChannelDescription,
+    inputSchema: toShape(DeleteNotificationChannelRequestSchema),
+    outputSchema: toShape(EmptyResponseSchema),
+    inputValidator: DeleteNotificationChannelRequestSchema,
+    outputValidator: EmptyResponseSchema,
+    method: "DELETE",
+    path: input => `/notifications/channels/${input.id}`,
+    successMessage: () => `✅ Notification channel deleted`,
+  });
+}
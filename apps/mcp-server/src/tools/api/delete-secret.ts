@@ -0,0 +1,36 @@
+/**
+ * DELETE /secrets/:name - Delete a secret
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { DeleteSecretDescription, DeleteSecretSummary, base as secretsBase } from "@cronicorn/api-contracts/secrets";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const DeleteSecretRequestSchema = z.object({
+  name: secretsBase.SecretNameBaseSchema,
+});
+
+// Empty response for 204 No Content
+const EmptyResponseSchema = z.object({});
+
+export function registerDeleteSecret(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "deleteSecret",
+    title: DeleteSecretSummary,
+    description: DeleteSecretDescription,
+    inputSchema: toShape(DeleteSecretRequestSchema),
+    outputSchema: toShape(EmptyResponseSchema),
+    inputValidator: DeleteSecretRequestSchema,
+    outputValidator: EmptyResponseSchema,
+    method: "DELETE",
+    path: input => `/secrets/${input.name}`,
+    successMessage: () => `✅ Secret deleted`,
+  });
+}
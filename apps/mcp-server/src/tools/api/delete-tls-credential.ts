@@ -0,0 +1,36 @@
+/**
+ * DELETE /tls-credentials/:name - Delete a TLS credential
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { DeleteTlsCredentialDescription, DeleteTlsCredentialSummary, base as tlsCredentialsBase } from "@cronicorn/api-contracts/tls-credentials";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const DeleteTlsCredentialRequestSchema = z.object({
+  name: tlsCredentialsBase.TlsCredentialNameBaseSchema,
+});
+
+// Empty response for 204 No Content
+const EmptyResponseSchema = z.object({});
+
+export function registerDeleteTlsCredential(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "deleteTlsCredential",
+    title: DeleteTlsCredentialSummary,
+    description: DeleteTlsCredentialDescription,
+    inputSchema: toShape(DeleteTlsCredentialRequestSchema),
+    outputSchema: toShape(EmptyResponseSchema),
+    inputValidator: DeleteTlsCredentialRequestSchema,
+    outputValidator: EmptyResponseSchema,
+    method: "DELETE",
+    path: input => `/tls-credentials/${input.name}`,
+    successMessage: () => `✅ TLS credential deleted`,
+  });
+}
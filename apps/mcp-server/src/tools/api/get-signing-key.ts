@@ -33,9 +33,17 @@ export function registerGetSigningKey(server: McpServer, apiClient: ApiClient) {
     outputValidator: SigningKeyInfoResponseSchema,
     method: "GET",
     path: "/signing-keys",
-    successMessage: output =>
-      output.hasKey
-        ? `Signing key exists (prefix: ${output.keyPrefix}, created: ${output.createdAt})`
-        : "No signing key configured. Use createSigningKey to generate one.",
+    successMessage: (output) => {
+      if (!output.hasKey) {
+        return "No signing key configured. Use createSigningKey to generate one.";
+      }
+      const keys = output.keys.map(key =>
+        key.status === "active"
+          ? `- ${key.id} (prefix: ${key.keyPrefix}, ${key.algorithm}, active, created: ${key.createdAt})`
+          : `- ${key.id} (prefix: ${key.keyPrefix}, ${key.algorithm}, expiring at ${key.expiresAt})`,
+      );
+      const scheme = output.algorithm === "ed25519" ? "Ed25519" : `${output.signatureVersion} HMAC`;
+      return `Signing keys (${output.keys.length}, ${scheme} signatures):\n${keys.join("\n")}\nPublic keys (Ed25519): ${output.jwksUrl}`;
+    },
   });
 }
@@ -0,0 +1,37 @@
+/**
+ * GET /notifications/rules - List alert rules
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { ListAlertRulesDescription, ListAlertRulesSummary, base as notificationsBase } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// No input params needed
+const EmptyInputSchema = z.object({});
+
+const ListAlertRulesResponseSchema = notificationsBase.ListAlertRulesResponseBaseSchema;
+
+export function registerListAlertRules(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "listAlertRules",
+    title: ListAlertRulesSummary,
+    description: ListAlertRulesDescription,
+    inputSchema: toShape(EmptyInputSchema),
+    outputSchema: toShape(ListAlertRulesResponseSchema),
+    inputValidator: EmptyInputSchema,
+    outputValidator: ListAlertRulesResponseSchema,
+    method: "GET",
+    path: "/notifications/rules",
+    successMessage: output =>
+      output.rules.length === 0
+        ? "No alert rules configured. Use createAlertRule to add one."
+        : `Found ${output.rules.length} alert rule(s):\n${output.rules.map(rule => `- ${rule.name} (${rule.condition.type}, ID: ${rule.id})${rule.enabled ? "" : " [disabled]"}`).join("\n")}`,
+  });
+}
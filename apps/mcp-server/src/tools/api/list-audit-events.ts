@@ -0,0 +1,48 @@
+/**
+ * GET /audit-events - List configuration and scheduling changes
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * Filters are sent as query parameters.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as auditBase, ListAuditEventsDescription, ListAuditEventsSummary } from "@cronicorn/api-contracts/audit";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Times stay ISO strings here; the API parses them
+const ListAuditEventsRequestSchema = auditBase.ListAuditEventsQueryBaseSchema.extend({
+  since: z.string().datetime().optional().describe("Only events at or after this time (ISO 8601)"),
+  until: z.string().datetime().optional().describe("Only events before this time (ISO 8601)"),
+});
+
+const ListAuditEventsResponseSchema = auditBase.ListAuditEventsResponseBaseSchema;
+
+export function registerListAuditEvents(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "listAuditEvents",
+    title: ListAuditEventsSummary,
+    description: ListAuditEventsDescription,
+    inputSchema: toShape(ListAuditEventsRequestSchema),
+    outputSchema: toShape(ListAuditEventsResponseSchema),
+    inputValidator: ListAuditEventsRequestSchema,
+    outputValidator: ListAuditEventsResponseSchema,
+    method: "GET",
+    path: (input) => {
+      const query = new URLSearchParams(
+        Object.entries(input)
+          .filter(([, value]) => value !== undefined)
+          .map(([key, value]) => [key, String(value)]),
+      ).toString();
+      return query ? `/audit-events?${query}` : "/audit-events";
+    },
+    successMessage: output =>
+      output.events.length === 0
+        ? "No audit events match."
+        : `Found ${output.events.length} of ${output.total} audit event(s):\n${output.events.map(event => `- ${event.createdAt} ${event.action} by ${event.actor.type} ${event.actor.id}${event.changes.length > 0 ? ` (${event.changes.map(change => change.field).join(", ")})` : ""}`).join("\n")}`,
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /auth-profiles - List auth profiles
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * Client secrets are never returned.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as authProfilesBase, ListAuthProfilesDescription, ListAuthProfilesSummary } from "@cronicorn/api-contracts/auth-profiles";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// No input params needed
+const EmptyInputSchema = z.object({});
+
+const ListAuthProfilesResponseSchema = authProfilesBase.ListAuthProfilesResponseBaseSchema;
+
+export function registerListAuthProfiles(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "listAuthProfiles",
+    title: ListAuthProfilesSummary,
+    description: ListAuthProfilesDescription,
+    inputSchema: toShape(EmptyInputSchema),
+    outputSchema: toShape(ListAuthProfilesResponseSchema),
+    inputValidator: EmptyInputSchema,
+    outputValidator: ListAuthProfilesResponseSchema,
+    method: "GET",
+    path: "/auth-profiles",
+    successMessage: output =>
+      output.profiles.length === 0
+        ? "No auth profiles stored. Use setAuthProfile to add OAuth2 client credentials."
+        : `Found ${output.profiles.length} auth profile(s):\n${output.profiles.map(profile =>
+          `- ${profile.name}: client ${profile.clientId} at ${profile.tokenUrl}${profile.scopes.length > 0 ? ` (scopes: ${profile.scopes.join(" ")})` : ""}`,
+        ).join("\n")}`,
+  });
+}
@@ -13,9 +13,10 @@ import type { ApiClient } from "../../ports/api-client.js";
 
 import { registerApiTool, toShape } from "../helpers/index.js";
 
-// Simple list request with optional status filter
+// Simple list request with optional status and organization filters
 const ListJobsRequestSchema = z.object({
   status: z.enum(["active", "paused", "archived"]).optional().describe("Filter by job status"),
+  orgId: z.string().optional().describe("List an organization's jobs instead of personal ones"),
 });
 
 const JobWithCountResponseSchema = jobsBase.JobWithCountResponseBaseSchema;
@@ -0,0 +1,37 @@
+/**
+ * GET /notifications/channels - List notification channels
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { ListNotificationChannelsDescription, ListNotificationChannelsSummary, base as notificationsBase } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// No input params needed
+const EmptyInputSchema = z.object({});
+
+const ListNotificationChannelsResponseSchema = notificationsBase.ListNotificationChannelsResponseBaseSchema;
+
+export function registerListNotificationChannels(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "listNotificationChannels",
+    title: ListNotificationChannelsSummary,
+    description: ListNotificationChannelsDescription,
+    inputSchema: toShape(EmptyInputSchema),
+    outputSchema: toShape(ListNotificationChannelsResponseSchema),
+    inputValidator: EmptyInputSchema,
+    outputValidator: ListNotificationChannelsResponseSchema,
+    method: "GET",
+    path: "/notifications/channels",
+    successMessage: output =>
+      output.channels.length === 0
+        ? "No notification channels configured. Use createNotificationChannel to add one."
+        : `Found ${output.channels.length} notification channel(s):\n${output.channels.map(ch => `- ${ch.name} (${ch.config.type}, ID: ${ch.id})${ch.enabled ? "" : " [disabled]"}`).join("\n")}`,
+  });
+}
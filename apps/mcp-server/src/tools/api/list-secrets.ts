@@ -0,0 +1,38 @@
+/**
+ * GET /secrets - List secret names
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * Only names and dates are returned; values never leave the server.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { ListSecretsDescription, ListSecretsSummary, base as secretsBase } from "@cronicorn/api-contracts/secrets";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// No input params needed
+const EmptyInputSchema = z.object({});
+
+const ListSecretsResponseSchema = secretsBase.ListSecretsResponseBaseSchema;
+
+export function registerListSecrets(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "listSecrets",
+    title: ListSecretsSummary,
+    description: ListSecretsDescription,
+    inputSchema: toShape(EmptyInputSchema),
+    outputSchema: toShape(ListSecretsResponseSchema),
+    inputValidator: EmptyInputSchema,
+    outputValidator: ListSecretsResponseSchema,
+    method: "GET",
+    path: "/secrets",
+    successMessage: output =>
+      output.secrets.length === 0
+        ? "No secrets stored. Use setSecret to add one, then reference it as {{ secret.NAME }}."
+        : `Found ${output.secrets.length} secret(s):\n${output.secrets.map(secret => `- ${secret.name} (updated ${secret.updatedAt})`).join("\n")}`,
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * GET /tls-credentials - List TLS credentials
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * Only certificate metadata is returned; certificates and keys never leave the server.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { ListTlsCredentialsDescription, ListTlsCredentialsSummary, base as tlsCredentialsBase } from "@cronicorn/api-contracts/tls-credentials";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// No input params needed
+const EmptyInputSchema = z.object({});
+
+const ListTlsCredentialsResponseSchema = tlsCredentialsBase.ListTlsCredentialsResponseBaseSchema;
+
+export function registerListTlsCredentials(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "listTlsCredentials",
+    title: ListTlsCredentialsSummary,
+    description: ListTlsCredentialsDescription,
+    inputSchema: toShape(EmptyInputSchema),
+    outputSchema: toShape(ListTlsCredentialsResponseSchema),
+    inputValidator: EmptyInputSchema,
+    outputValidator: ListTlsCredentialsResponseSchema,
+    method: "GET",
+    path: "/tls-credentials",
+    successMessage: output =>
+      output.credentials.length === 0
+        ? "No TLS credentials stored. Use setTlsCredential to upload a client certificate or CA bundle."
+        : `Found ${output.credentials.length} TLS credential(s):\n${output.credentials.map(credential =>
+          `- ${credential.name}${credential.subject ? ` (${credential.subject})` : ""}: ${credential.expiryStatus}${credential.expiresAt ? `, expires ${credential.expiresAt}` : ""}`,
+        ).join("\n")}`,
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * PATCH /notifications/rules/:id - Update an alert rule
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as notificationsBase, UpdateAlertRuleDescription, UpdateAlertRuleSummary } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Extend base schema to include id for MCP tool input
+const PatchAlertRuleRequestSchema = notificationsBase.UpdateAlertRuleRequestBaseSchema.and(z.object({
+  id: z.string().describe("Rule ID to update"),
+}));
+
+const AlertRuleResponseSchema = notificationsBase.AlertRuleResponseBaseSchema;
+
+export function registerPatchAlertRule(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "updateAlertRule",
+    title: UpdateAlertRuleSummary,
+    description: UpdateAlertRuleDescription,
+    inputSchema: toShape(PatchAlertRuleRequestSchema),
+    outputSchema: toShape(AlertRuleResponseSchema),
+    inputValidator: PatchAlertRuleRequestSchema,
+    outputValidator: AlertRuleResponseSchema,
+    method: "PATCH",
+    path: input => `/notifications/rules/${input.id}`,
+    transformInput: (input) => {
+      const { id, ...body } = input;
+      return body;
+    },
+    successMessage: rule => `✅ Updated alert rule "${rule.name}" (ID: ${rule.id})`,
+  });
+}
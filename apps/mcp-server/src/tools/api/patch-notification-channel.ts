@@ -0,0 +1,40 @@
+/**
+ * PATCH /notifications/channels/:id - Update a notification channel
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as notificationsBase, UpdateNotificationChannelDescription, UpdateNotificationChannelSummary } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Extend base schema to include id for MCP tool input
+const PatchNotificationChannelRequestSchema = notificationsBase.UpdateNotificationChannelRequestBaseSchema.and(z.object({
+  id: z.string().describe("Channel ID to update"),
+}));
+
+const NotificationChannelResponseSchema = notificationsBase.NotificationChannelResponseBaseSchema;
+
+export function registerPatchNotificationChannel(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "updateNotificationChannel",
+    title: UpdateNotificationChannelSummary,
+    description: UpdateNotificationChannelDescription,
+    inputSchema: toShape(PatchNotificationChannelRequestSchema),
+    outputSchema: toShape(NotificationChannelResponseSchema),
+    inputValidator: PatchNotificationChannelRequestSchema,
+    outputValidator: NotificationChannelResponseSchema,
+    method: "PATCH",
+    path: input => `/notifications/channels/${input.id}`,
+    transformInput: (input) => {
+      const { id, ...body } = input;
+      return body;
+    },
+    successMessage: channel => `✅ Updated channel "${channel.name}" (ID: ${channel.id})`,
+  });
+}
@@ -0,0 +1,37 @@
+/**
+ * PATCH /signing-keys - Update signing settings
+ *
+ * 1:1 mapping to API endpoint
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import {
+  base as signingKeysBase,
+  UpdateSigningKeySettingsDescription,
+  UpdateSigningKeySettingsSummary,
+} from "@cronicorn/api-contracts/signing-keys";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const UpdateSigningKeySettingsInputSchema = signingKeysBase.UpdateSigningKeySettingsRequestBaseSchema;
+
+const SigningKeyInfoResponseSchema = signingKeysBase.SigningKeyInfoResponseBaseSchema;
+
+export function registerPatchSigningKey(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "updateSigningKeySettings",
+    title: UpdateSigningKeySettingsSummary,
+    description: UpdateSigningKeySettingsDescription,
+    inputSchema: toShape(UpdateSigningKeySettingsInputSchema),
+    outputSchema: toShape(SigningKeyInfoResponseSchema),
+    inputValidator: UpdateSigningKeySettingsInputSchema,
+    outputValidator: SigningKeyInfoResponseSchema,
+    method: "PATCH",
+    path: "/signing-keys",
+    successMessage: output =>
+      `✅ Requests are now signed with the ${output.signatureVersion} signature scheme. Make sure receivers verify ${output.signatureVersion} signatures (the @cronicorn/verify package handles both v1 and v2).`,
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * POST /notifications/rules - Create an alert rule
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { CreateAlertRuleDescription, CreateAlertRuleSummary, base as notificationsBase } from "@cronicorn/api-contracts/notifications";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const CreateAlertRuleRequestSchema = notificationsBase.CreateAlertRuleRequestBaseSchema;
+const AlertRuleResponseSchema = notificationsBase.AlertRuleResponseBaseSchema;
+
+export function registerPostAlertRule(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "createAlertRule",
+    title: CreateAlertRuleSummary,
+    description: CreateAlertRuleDescription,
+    inputSchema: toShape(CreateAlertRuleRequestSchema),
+    outputSchema: toShape(AlertRuleResponseSchema),
+    inputValidator: CreateAlertRuleRequestSchema,
+    outputValidator: AlertRuleResponseSchema,
+    method: "POST",
+    path: "/notifications/rules",
+    successMessage: rule => `✅ Created alert rule "${rule.name}" (ID: ${rule.id})`,
+  });
+}
@@ -0,0 +1,31 @@
+/**
+ * POST /notifications/channels - Create a notification channel
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { CreateNotificationChannelDescription, CreateNotificationChannelSummary, base as notificationsBase } from "@cronicorn/api-contracts/notifications";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const CreateNotificationChannelRequestSchema = notificationsBase.CreateNotificationChannelRequestBaseSchema;
+const NotificationChannelResponseSchema = notificationsBase.NotificationChannelResponseBaseSchema;
+
+export function registerPostNotificationChannel(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "createNotificationChannel",
+    title: CreateNotificationChannelSummary,
+    description: CreateNotificationChannelDescription,
+    inputSchema: toShape(CreateNotificationChannelRequestSchema),
+    outputSchema: toShape(NotificationChannelResponseSchema),
+    inputValidator: CreateNotificationChannelRequestSchema,
+    outputValidator: NotificationChannelResponseSchema,
+    method: "POST",
+    path: "/notifications/channels",
+    successMessage: channel => `✅ Created ${channel.config.type} channel "${channel.name}" (ID: ${channel.id}). Use testNotificationChannel to check delivery.`,
+  });
+}
@@ -11,29 +11,31 @@ import {
   RotateSigningKeySummary,
   base as signingKeysBase,
 } from "@cronicorn/api-contracts/signing-keys";
-import { z } from "zod";
 
 import type { ApiClient } from "../../ports/api-client.js";
 
 import { registerApiTool, toShape } from "../helpers/index.js";
 
-const EmptyInputSchema = z.object({});
+const RotateSigningKeyInputSchema = signingKeysBase.RotateSigningKeyRequestBaseSchema;
 
-const SigningKeyCreatedResponseSchema = signingKeysBase.SigningKeyCreatedResponseBaseSchema;
+const SigningKeyRotatedResponseSchema = signingKeysBase.SigningKeyRotatedResponseBaseSchema;
 
 export function registerRotateSigningKey(server: McpServer, apiClient: ApiClient) {
   registerApiTool(server, apiClient, {
     name: "rotateSigningKey",
     title: RotateSigningKeySummary,
     description: RotateSigningKeyDescription,
-    inputSchema: toShape(EmptyInputSchema),
-    outputSchema: toShape(SigningKeyCreatedResponseSchema),
-    inputValidator: EmptyInputSchema,
-    outputValidator: SigningKeyCreatedResponseSchema,
+    inputSchema: toShape(RotateSigningKeyInputSchema),
+    outputSchema: toShape(SigningKeyRotatedResponseSchema),
+    inputValidator: RotateSigningKeyInputSchema,
+    outputValidator: SigningKeyRotatedResponseSchema,
     method: "POST",
     path: "/signing-keys/rotate",
-    transformInput: () => ({}),
-    successMessage: output =>
-      `Signing key rotated (new prefix: ${output.keyPrefix}). Old key is immediately invalid. Save the new raw key securely — it will not be shown again: ${output.rawKey}`,
+    successMessage: (output) => {
+      const rotated = `Signing key rotated (new key id: ${output.id}, prefix: ${output.keyPrefix}, ${output.algorithm}). Requests are signed with both keys until the old key expires at ${output.previousKeyExpiresAt}.`;
+      return output.rawKey === null
+        ? `${rotated} The new public key is in the JWKS; receivers that refetch it on an unknown kid pick it up.`
+        : `${rotated} Save the new raw key securely — it will not be shown again: ${output.rawKey}`;
+    },
   });
 }
@@ -0,0 +1,40 @@
+/**
+ * POST /endpoints/:id/run - Run endpoint now
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as jobsBase, RunNowDescription, RunNowSummary } from "@cronicorn/api-contracts/jobs";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Extend base schema to include id for MCP tool input
+const RunNowInputSchema = jobsBase.RunNowRequestBaseSchema.and(z.object({
+  id: z.string().describe("Endpoint ID to run"),
+}));
+
+const RunNowResponseSchema = jobsBase.RunNowResponseBaseSchema;
+
+export function registerPostRunEndpoint(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "runEndpointNow",
+    title: RunNowSummary,
+    description: RunNowDescription,
+    inputSchema: toShape(RunNowInputSchema),
+    outputSchema: toShape(RunNowResponseSchema),
+    inputValidator: RunNowInputSchema,
+    outputValidator: RunNowResponseSchema,
+    method: "POST",
+    path: input => `/endpoints/${input.id}/run`,
+    transformInput: (input) => {
+      const { id, ...body } = input;
+      return body;
+    },
+    successMessage: output => `✅ Run queued (request ${output.requestId}); the scheduler will run it on its next tick`,
+  });
+}
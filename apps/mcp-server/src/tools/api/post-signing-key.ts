@@ -11,13 +11,12 @@ import {
   CreateSigningKeySummary,
   base as signingKeysBase,
 } from "@cronicorn/api-contracts/signing-keys";
-import { z } from "zod";
 
 import type { ApiClient } from "../../ports/api-client.js";
 
 import { registerApiTool, toShape } from "../helpers/index.js";
 
-const EmptyInputSchema = z.object({});
+const CreateSigningKeyInputSchema = signingKeysBase.CreateSigningKeyRequestBaseSchema;
 
 const SigningKeyCreatedResponseSchema = signingKeysBase.SigningKeyCreatedResponseBaseSchema;
 
@@ -26,14 +25,15 @@ export function registerCreateSigningKey(server: McpServer, apiClient: ApiClient
     name: "createSigningKey",
     title: CreateSigningKeySummary,
     description: CreateSigningKeyDescription,
-    inputSchema: toShape(EmptyInputSchema),
+    inputSchema: toShape(CreateSigningKeyInputSchema),
     outputSchema: toShape(SigningKeyCreatedResponseSchema),
-    inputValidator: EmptyInputSchema,
+    inputValidator: CreateSigningKeyInputSchema,
     outputValidator: SigningKeyCreatedResponseSchema,
     method: "POST",
     path: "/signing-keys",
-    transformInput: () => ({}),
     successMessage: output =>
-      `Signing key created (prefix: ${output.keyPrefix}). IMPORTANT: Save this raw key securely — it will not be shown again: ${output.rawKey}`,
+      output.rawKey === null
+        ? `Ed25519 signing key created (id: ${output.id}, prefix: ${output.keyPrefix}). The private key stays in Cronicorn; receivers verify with the public key from the JWKS URL shown by getSigningKey.`
+        : `Signing key created (id: ${output.id}, prefix: ${output.keyPrefix}). IMPORTANT: Save this raw key securely — it will not be shown again: ${output.rawKey}`,
   });
 }
@@ -35,6 +35,8 @@ export function registerPostTestEndpoint(server: McpServer, apiClient: ApiClient
     successMessage: output =>
       output.status === "success"
         ? `✅ Endpoint test passed (${output.durationMs}ms, HTTP ${output.statusCode ?? "?"})`
-        : `❌ Endpoint test failed: ${output.errorMessage ?? "unknown error"} (${output.durationMs}ms)`,
+        : output.status === "canceled"
+          ? `⏭️ Endpoint test skipped: ${output.errorMessage ?? "a run is in progress"}`
+          : `❌ Endpoint test failed: ${output.errorMessage ?? "unknown error"} (${output.durationMs}ms)`,
   });
 }
@@ -0,0 +1,39 @@
+/**
+ * POST /notifications/channels/:id/test - Send a test notification
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as notificationsBase, TestNotificationChannelDescription, TestNotificationChannelSummary } from "@cronicorn/api-contracts/notifications";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+const TestNotificationChannelRequestSchema = z.object({
+  id: z.string().describe("Channel ID to test"),
+});
+
+const TestNotificationResponseSchema = notificationsBase.TestNotificationResponseBaseSchema;
+
+export function registerPostTestNotificationChannel(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "testNotificationChannel",
+    title: TestNotificationChannelSummary,
+    description: TestNotificationChannelDescription,
+    inputSchema: toShape(TestNotificationChannelRequestSchema),
+    outputSchema: toShape(TestNotificationResponseSchema),
+    inputValidator: TestNotificationChannelRequestSchema,
+    outputValidator: TestNotificationResponseSchema,
+    method: "POST",
+    path: input => `/notifications/channels/${input.id}/test`,
+    transformInput: () => ({}),
+    successMessage: output =>
+      output.delivered
+        ? "✅ Test notification delivered"
+        : `❌ Test notification failed: ${output.error ?? "unknown error"}`,
+  });
+}
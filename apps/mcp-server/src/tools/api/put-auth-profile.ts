@@ -0,0 +1,41 @@
+/**
+ * PUT /auth-profiles/:name - Create or replace an auth profile
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * The response and success message never include the client secret.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as authProfilesBase, SetAuthProfileDescription, SetAuthProfileSummary } from "@cronicorn/api-contracts/auth-profiles";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Extend base schema to include the name for MCP tool input
+const SetAuthProfileRequestSchema = authProfilesBase.SetAuthProfileRequestBaseSchema.extend({
+  name: authProfilesBase.AuthProfileNameBaseSchema,
+});
+
+const AuthProfileResponseSchema = authProfilesBase.AuthProfileResponseBaseSchema;
+
+export function registerPutAuthProfile(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "setAuthProfile",
+    title: SetAuthProfileSummary,
+    description: SetAuthProfileDescription,
+    inputSchema: toShape(SetAuthProfileRequestSchema),
+    outputSchema: toShape(AuthProfileResponseSchema),
+    inputValidator: SetAuthProfileRequestSchema,
+    outputValidator: AuthProfileResponseSchema,
+    method: "PUT",
+    path: input => `/auth-profiles/${input.name}`,
+    transformInput: (input) => {
+      const { name, ...body } = input;
+      return body;
+    },
+    successMessage: profile =>
+      `✅ Auth profile "${profile.name}" saved. Set authProfileName: "${profile.name}" on an endpoint to send its requests with an OAuth2 access token.`,
+  });
+}
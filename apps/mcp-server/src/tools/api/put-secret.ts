@@ -0,0 +1,41 @@
+/**
+ * PUT /secrets/:name - Create or replace a secret
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * The response and success message never include the value.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { base as secretsBase, SetSecretDescription, SetSecretSummary } from "@cronicorn/api-contracts/secrets";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Extend base schema to include the name for MCP tool input
+const SetSecretRequestSchema = secretsBase.SetSecretRequestBaseSchema.and(z.object({
+  name: secretsBase.SecretNameBaseSchema,
+}));
+
+const SecretResponseSchema = secretsBase.SecretResponseBaseSchema;
+
+export function registerPutSecret(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "setSecret",
+    title: SetSecretSummary,
+    description: SetSecretDescription,
+    inputSchema: toShape(SetSecretRequestSchema),
+    outputSchema: toShape(SecretResponseSchema),
+    inputValidator: SetSecretRequestSchema,
+    outputValidator: SecretResponseSchema,
+    method: "PUT",
+    path: input => `/secrets/${input.name}`,
+    transformInput: (input) => {
+      const { name, ...body } = input;
+      return body;
+    },
+    successMessage: secret => `✅ Secret "${secret.name}" saved. Reference it as {{ secret.${secret.name} }}`,
+  });
+}
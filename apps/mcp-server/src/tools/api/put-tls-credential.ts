@@ -0,0 +1,42 @@
+/**
+ * PUT /tls-credentials/:name - Upload or replace a TLS credential
+ *
+ * 1:1 mapping to API endpoint - uses helper utilities for concise implementation
+ * The response and success message never include certificates or keys.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+import { SetTlsCredentialDescription, SetTlsCredentialSummary, base as tlsCredentialsBase } from "@cronicorn/api-contracts/tls-credentials";
+import { z } from "zod";
+
+import type { ApiClient } from "../../ports/api-client.js";
+
+import { registerApiTool, toShape } from "../helpers/index.js";
+
+// Extend base schema to include the name for MCP tool input
+const SetTlsCredentialRequestSchema = tlsCredentialsBase.SetTlsCredentialRequestBaseSchema.and(z.object({
+  name: tlsCredentialsBase.TlsCredentialNameBaseSchema,
+}));
+
+const TlsCredentialResponseSchema = tlsCredentialsBase.TlsCredentialResponseBaseSchema;
+
+export function registerPutTlsCredential(server: McpServer, apiClient: ApiClient) {
+  registerApiTool(server, apiClient, {
+    name: "setTlsCredential",
+    title: SetTlsCredentialSummary,
+    description: SetTlsCredentialDescription,
+    inputSchema: toShape(SetTlsCredentialRequestSchema),
+    outputSchema: toShape(TlsCredentialResponseSchema),
+    inputValidator: SetTlsCredentialRequestSchema,
+    outputValidator: TlsCredentialResponseSchema,
+    method: "PUT",
+    path: input => `/tls-credentials/${input.name}`,
+    transformInput: (input) => {
+      const { name, ...body } = input;
+      return body;
+    },
+    successMessage: credential =>
+      `✅ TLS credential "${credential.name}" saved${credential.expiresAt ? ` (expires ${credential.expiresAt})` : ""}. Set tlsCredentialName: "${credential.name}" on an endpoint to use it.`,
+  });
+}
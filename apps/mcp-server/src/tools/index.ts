@@ -9,8 +9,13 @@ import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { Credentials } from "../auth/token-store.js";
 
 import { createHttpApiClient } from "../adapters/http-api-client.js";
+import { registerDeleteAlertRule } from "./api/delete-alert-rule.js";
+import { registerDeleteAuthProfile } from "./api/delete-auth-profile.js";
 import { registerDeleteHints } from "./api/delete-hints.js";
 import { registerDeleteJob } from "./api/delete-job.js";
+import { registerDeleteNotificationChannel } from "./api/delete-notification-channel.js";
+import { registerDeleteSecret } from "./api/delete-secret.js";
+import { registerDeleteTlsCredential } from "./api/delete-tls-credential.js";
 import { registerGetDashboardStats } from "./api/get-dashboard-stats.js";
 import { registerGetEndpointHealth } from "./api/get-endpoint-health.js";
 import { registerGetEndpointRuns } from "./api/get-endpoint-runs.js";
@@ -18,10 +23,20 @@ import { registerGetEndpoint } from "./api/get-endpoint.js";
 import { registerGetJob } from "./api/get-job.js";
 import { registerGetRunDetails } from "./api/get-run-details.js";
 import { registerGetSigningKey } from "./api/get-signing-key.js";
+import { registerListAlertRules } from "./api/list-alert-rules.js";
+import { registerListAuditEvents } from "./api/list-audit-events.js";
+import { registerListAuthProfiles } from "./api/list-auth-profiles.js";
 import { registerListEndpoints } from "./api/list-endpoints.js";
 import { registerListJobs } from "./api/list-jobs.js";
+import { registerListNotificationChannels } from "./api/list-notification-channels.js";
+import { registerListSecrets } from "./api/list-secrets.js";
+import { registerListTlsCredentials } from "./api/list-tls-credentials.js";
+import { registerPatchAlertRule } from "./api/patch-alert-rule.js";
 import { registerPatchEndpoint } from "./api/patch-endpoint.js";
 import { registerPatchJob } from "./api/patch-job.js";
+import { registerPatchNotificationChannel } from "./api/patch-notification-channel.js";
+import { registerPatchSigningKey } from "./api/patch-signing-key.js";
+import { registerPostAlertRule } from "./api/post-alert-rule.js";
 import { registerArchiveEndpoint } from "./api/post-archive-endpoint.js";
 import { registerPostEndpointPause } from "./api/post-endpoint-pause.js";
 import { registerPostEndpoint } from "./api/post-endpoint.js";
@@ -29,11 +44,17 @@ import { registerPostIntervalHint } from "./api/post-interval-hint.js";
 import { registerPauseJob } from "./api/post-job-pause.js";
 import { registerResumeJob } from "./api/post-job-resume.js";
 import { registerPostJobs } from "./api/post-jobs.js";
+import { registerPostNotificationChannel } from "./api/post-notification-channel.js";
 import { registerPostOneShotHint } from "./api/post-oneshot-hint.js";
 import { registerPostResetFailures } from "./api/post-reset-failures.js";
 import { registerRotateSigningKey } from "./api/post-rotate-signing-key.js";
+import { registerPostRunEndpoint } from "./api/post-run-endpoint.js";
 import { registerCreateSigningKey } from "./api/post-signing-key.js";
 import { registerPostTestEndpoint } from "./api/post-test-endpoint.js";
+import { registerPostTestNotificationChannel } from "./api/post-test-notification-channel.js";
+import { registerPutAuthProfile } from "./api/put-auth-profile.js";
+import { registerPutSecret } from "./api/put-secret.js";
+import { registerPutTlsCredential } from "./api/put-tls-credential.js";
 
 export function registerTools(
   server: McpServer,
@@ -75,6 +96,7 @@ export function registerTools(
   registerGetRunDetails(server, apiClient);
   registerGetEndpointHealth(server, apiClient);
   registerPostTestEndpoint(server, apiClient);
+  registerPostRunEndpoint(server, apiClient);
 
   // Dashboard
   registerGetDashboardStats(server, apiClient);
@@ -83,4 +105,34 @@ export function registerTools(
   registerGetSigningKey(server, apiClient);
   registerCreateSigningKey(server, apiClient);
   registerRotateSigningKey(server, apiClient);
+  registerPatchSigningKey(server, apiClient);
+
+  // Secrets
+  registerListSecrets(server, apiClient);
+  registerPutSecret(server, apiClient);
+  registerDeleteSecret(server, apiClient);
+
+  // TLS credentials (mTLS client certificates, private CA bundles)
+  registerListTlsCredentials(server, apiClient);
+  registerPutTlsCredential(server, apiClient);
+  registerDeleteTlsCredential(server, apiClient);
+
+  // Auth profiles (OAuth2 client credentials for outbound requests)
+  registerListAuthProfiles(server, apiClient);
+  registerPutAuthProfile(server, apiClient);
+  registerDeleteAuthProfile(server, apiClient);
+
+  // Notifications
+  registerListNotificationChannels(server, apiClient);
+  registerPostNotificationChannel(server, apiClient);
+  registerPatchNotificationChannel(server, apiClient);
+  registerDeleteNotificationChannel(server, apiClient);
+  registerPostTestNotificationChannel(server, apiClient);
+  registerListAlertRules(server, apiClient);
+  registerPostAlertRule(server, apiClient);
+  registerPatchAlertRule(server, apiClient);
+  registerDeleteAlertRule(server, apiClient);
+
+  // Audit Log
+  registerListAuditEvents(server, apiClient);
 }
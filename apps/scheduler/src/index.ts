@@ -6,11 +6,16 @@
  */
 
 import { CronParserAdapter } from "@cronicorn/adapter-cron";
-import { DrizzleJobsRepo, DrizzleRunsRepo, DrizzleSigningKeyProvider, schema } from "@cronicorn/adapter-drizzle";
-import { HttpDispatcher, SigningDispatcher } from "@cronicorn/adapter-http";
+import { DrizzleAuthProfileProvider, DrizzleJobsRepo, DrizzleNotificationsRepo, DrizzleRunsRepo, DrizzleSecretsProvider, DrizzleSigningKeyProvider, DrizzleTlsCredentialProvider, schema, SecretCipher } from "@cronicorn/adapter-drizzle";
+import { HttpDispatcher, OAuth2Dispatcher, SecretsDispatcher, SigningDispatcher, TracingDispatcher } from "@cronicorn/adapter-http";
+import { createNotificationSender } from "@cronicorn/adapter-notifications";
+import { OtelTracer, traceMethods } from "@cronicorn/adapter-otel";
 import { PinoLoggerAdapter } from "@cronicorn/adapter-pino";
+import { PrometheusMetrics, startMetricsServer } from "@cronicorn/adapter-prometheus";
 import { SystemClock } from "@cronicorn/adapter-system-clock";
-import { DEV_DATABASE, DEV_ENV } from "@cronicorn/config-defaults";
+import { DEV_DATABASE, DEV_ENV, DEV_SECRETS, DEV_URLS } from "@cronicorn/config-defaults";
+import { noopTracer } from "@cronicorn/domain";
+import { AlertsService } from "@cronicorn/services/notifications";
 import { Scheduler } from "@cronicorn/worker-scheduler";
 import { drizzle } from "drizzle-orm/node-postgres";
 import { Pool } from "pg";
@@ -27,10 +32,31 @@ const configSchema = z.object({
   BATCH_SIZE: z.coerce.number().int().positive().default(10),
   POLL_INTERVAL_MS: z.coerce.number().int().positive().default(5000),
   CLAIM_HORIZON_MS: z.coerce.number().int().positive().default(10000),
+  // Lease owner id for this worker (defaults to a random id per process)
+  WORKER_ID: z.string().min(1).optional(),
+  LEASE_TTL_MS: z.coerce.number().int().positive().default(60000), // 1 minute, renewed every TTL/3 during dispatch
+  DISPATCH_CONCURRENCY: z.coerce.number().int().positive().default(10),
+  DISPATCH_CONCURRENCY_PER_TENANT: z.coerce.number().int().positive().default(3),
   CLEANUP_INTERVAL_MS: z.coerce.number().int().positive().default(300000), // 5 minutes
   ZOMBIE_RUN_THRESHOLD_MS: z.coerce.number().int().positive().default(3600000), // 1 hour
   SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(30000), // 30 seconds
   LOG_LEVEL: z.enum(["debug", "info", "warn", "error"]).default(DEV_ENV.LOG_LEVEL),
+  // Prometheus scrape endpoint (GET /metrics); 0 disables it
+  METRICS_PORT: z.coerce.number().int().nonnegative().default(9464),
+  METRICS_HOST: z.string().min(1).optional(),
+  // OpenTelemetry tracing is enabled when a collector is configured; the exporter also
+  // honors the other standard OTEL_EXPORTER_OTLP_* variables (headers, protocol paths)
+  OTEL_EXPORTER_OTLP_ENDPOINT: z.string().url().optional(),
+  OTEL_SERVICE_NAME: z.string().min(1).default("cronicorn-scheduler"),
+  // SMTP for email notification channels (email delivery is disabled without SMTP_HOST)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.coerce.number().int().positive().default(587),
+  SMTP_SECURE: z.enum(["true", "false"]).default("false"), // true for implicit TLS (port 465)
+  SMTP_USER: z.string().optional(),
+  SMTP_PASSWORD: z.string().optional(),
+  SMTP_FROM: z.string().min(1).default("Cronicorn <alerts@localhost>"),
+  WEB_URL: z.string().url().default(DEV_URLS.WEB), // Linked from notifications
+  SECRETS_ENCRYPTION_KEY: z.string().min(1).default(DEV_SECRETS.ENCRYPTION_KEY), // Must match the API's key
   // eslint-disable-next-line node/no-process-env
   NODE_ENV: z.enum(["development", "production", "test"]).default(process.env.NODE_ENV === "production" ? "production" : DEV_ENV.NODE_ENV),
 });
@@ -52,12 +78,20 @@ async function main() {
   });
   const db = drizzle(pool, { schema });
 
+  const otelTracer = config.OTEL_EXPORTER_OTLP_ENDPOINT ? new OtelTracer({ serviceName: config.OTEL_SERVICE_NAME }) : null;
+  const tracer = otelTracer ?? noopTracer;
+
   // Instantiate all adapters
   const clock = new SystemClock();
   const cron = new CronParserAdapter();
-  const httpDispatcher = new HttpDispatcher();
-  const jobsRepo = new DrizzleJobsRepo(db);
-  const runsRepo = new DrizzleRunsRepo(db);
+  const secretCipher = new SecretCipher(config.SECRETS_ENCRYPTION_KEY);
+  // Endpoints with a TLS credential connect with its client certificate / CA bundle
+  const httpDispatcher = new TracingDispatcher(
+    new HttpDispatcher({ tlsCredentials: new DrizzleTlsCredentialProvider(db, secretCipher) }),
+    tracer,
+  );
+  const jobsRepo = traceMethods(new DrizzleJobsRepo(db), tracer, "JobsRepo");
+  const runsRepo = traceMethods(new DrizzleRunsRepo(db), tracer, "RunsRepo");
 
   // Configure pino logger
   const pinoLogger = pino({
@@ -77,18 +111,66 @@ async function main() {
   });
   const logger = new PinoLoggerAdapter(pinoLogger);
 
-  // Wrap dispatcher with HMAC signing
+  // Wrap dispatcher with HMAC signing, then OAuth2 bearer tokens and secret resolution
+  // (so signatures cover the Authorization header and resolved bodies)
   const signingKeyProvider = new DrizzleSigningKeyProvider(db);
-  const dispatcher = new SigningDispatcher(httpDispatcher, signingKeyProvider, logger, clock);
+  const secretsProvider = new DrizzleSecretsProvider(db, secretCipher);
+  const authProfileProvider = new DrizzleAuthProfileProvider(db, secretCipher);
+  const dispatcher = new SecretsDispatcher(
+    new OAuth2Dispatcher(
+      new SigningDispatcher(httpDispatcher, signingKeyProvider, logger, clock),
+      authProfileProvider,
+      logger,
+      clock,
+    ),
+    secretsProvider,
+    logger,
+  );
+
+  // Alert rules are evaluated after each run and delivered to notification channels
+  const alerts = new AlertsService({
+    notifications: new DrizzleNotificationsRepo(db),
+    runs: runsRepo,
+    sender: createNotificationSender({
+      smtp: config.SMTP_HOST
+        ? {
+            host: config.SMTP_HOST,
+            port: config.SMTP_PORT,
+            secure: config.SMTP_SECURE === "true",
+            user: config.SMTP_USER,
+            password: config.SMTP_PASSWORD,
+            from: config.SMTP_FROM,
+          }
+        : undefined,
+      appUrl: config.WEB_URL,
+      keyProvider: signingKeyProvider,
+      logger,
+      clock,
+    }),
+    logger: logger.child({ component: "alerts" }),
+  });
+
+  const metrics = new PrometheusMetrics({ defaultLabels: { service: "scheduler" } });
+  const metricsServer = config.METRICS_PORT > 0
+    ? await startMetricsServer(metrics, { port: config.METRICS_PORT, host: config.METRICS_HOST }, logger)
+    : null;
 
   // Wire up scheduler with dependencies
   const scheduler = new Scheduler({
     clock,
     cron,
     dispatcher,
+    events: alerts,
     jobs: jobsRepo,
     runs: runsRepo,
     logger,
+    metrics,
+    tracer,
+  }, {
+    workerId: config.WORKER_ID,
+    leaseTtlMs: config.LEASE_TTL_MS,
+    maxConcurrency: config.DISPATCH_CONCURRENCY,
+    maxConcurrencyPerTenant: config.DISPATCH_CONCURRENCY_PER_TENANT,
   });
 
   // State for tick loop and shutdown
@@ -100,8 +182,14 @@ async function main() {
       batchSize: config.BATCH_SIZE,
       pollIntervalMs: config.POLL_INTERVAL_MS,
       claimHorizonMs: config.CLAIM_HORIZON_MS,
+      workerId: scheduler.workerId,
+      leaseTtlMs: config.LEASE_TTL_MS,
+      dispatchConcurrency: config.DISPATCH_CONCURRENCY,
+      dispatchConcurrencyPerTenant: config.DISPATCH_CONCURRENCY_PER_TENANT,
       cleanupIntervalMs: config.CLEANUP_INTERVAL_MS,
       zombieRunThresholdMs: config.ZOMBIE_RUN_THRESHOLD_MS,
+      metricsPort: metricsServer ? config.METRICS_PORT : undefined,
+      tracing: Boolean(otelTracer),
     },
     "Worker started",
   );
@@ -184,6 +272,8 @@ async function main() {
       }
     }
 
+    metricsServer?.close();
+    await otelTracer?.shutdown();
     await pool.end();
     logger.info("Worker shutdown complete");
     process.exit(0);
@@ -0,0 +1,109 @@
+import { useNavigate } from "@tanstack/react-router";
+
+import { GRAPH_NODE_HEIGHT, GRAPH_NODE_WIDTH, layoutDependencyGraph } from "@/lib/dependency-graph";
+import type { DependencyGraphEndpoint } from "@/lib/dependency-graph";
+
+interface DependencyGraphProps {
+  endpoints: Array<DependencyGraphEndpoint>;
+}
+
+const PADDING = 8;
+const MAX_NAME_LENGTH = 22;
+
+/**
+ * Renders a job's endpoint dependencies as a left-to-right DAG.
+ * Solid edges wait for all upstreams, dashed edges for any; nodes link to the endpoint.
+ */
+export function DependencyGraph({ endpoints }: DependencyGraphProps) {
+  const navigate = useNavigate();
+  const layout = layoutDependencyGraph(endpoints);
+
+  if (layout.nodes.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No dependencies yet. Set "Run after" on an endpoint to trigger it when other endpoints of this job succeed.
+      </p>
+    );
+  }
+
+  const nodesById = new Map(layout.nodes.map(node => [node.id, node]));
+  const width = layout.width + PADDING * 2;
+  const height = layout.height + PADDING * 2;
+
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto">
+        <svg
+          width={width}
+          height={height}
+          viewBox={`${-PADDING} ${-PADDING} ${width} ${height}`}
+          role="img"
+          aria-label="Endpoint dependency graph"
+        >
+          <defs>
+            <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+            </marker>
+          </defs>
+
+          {layout.edges.map((edge) => {
+            const from = nodesById.get(edge.fromId)!;
+            const to = nodesById.get(edge.toId)!;
+            const x1 = from.x + GRAPH_NODE_WIDTH;
+            const y1 = from.y + GRAPH_NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + GRAPH_NODE_HEIGHT / 2;
+            const midX = (x1 + x2) / 2;
+            return (
+              <g key={`${edge.fromId}-${edge.toId}`}>
+                <path
+                  d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  className="stroke-muted-foreground"
+                  strokeWidth={1.5}
+                  strokeDasharray={edge.mode === "any" ? "4 3" : undefined}
+                  markerEnd="url(#dependency-arrow)"
+                />
+                {edge.delayMs ? (
+                  <text x={midX} y={(y1 + y2) / 2 - 4} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+                    +{Math.round(edge.delayMs / 1000)}s
+                  </text>
+                ) : null}
+              </g>
+            );
+          })}
+
+          {layout.nodes.map(node => (
+            <g
+              key={node.id}
+              className="cursor-pointer"
+              onClick={() => navigate({ to: "/endpoints/$id", params: { id: node.id } })}
+            >
+              <title>{node.name}</title>
+              <rect
+                x={node.x}
+                y={node.y}
+                width={GRAPH_NODE_WIDTH}
+                height={GRAPH_NODE_HEIGHT}
+                rx={6}
+                className="fill-card stroke-border hover:stroke-primary"
+              />
+              <text
+                x={node.x + GRAPH_NODE_WIDTH / 2}
+                y={node.y + GRAPH_NODE_HEIGHT / 2}
+                textAnchor="middle"
+                dominantBaseline="central"
+                className="fill-foreground text-xs"
+              >
+                {node.name.length > MAX_NAME_LENGTH ? `${node.name.slice(0, MAX_NAME_LENGTH - 1)}…` : node.name}
+              </text>
+            </g>
+          ))}
+        </svg>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Arrows point downstream. Solid: runs after all upstreams succeed. Dashed: runs after any upstream succeeds.
+      </p>
+    </div>
+  );
+}
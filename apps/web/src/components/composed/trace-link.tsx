@@ -0,0 +1,35 @@
+import { ExternalLink } from "lucide-react";
+
+import { TRACE_URL_TEMPLATE } from "@/config";
+
+/**
+ * Props for the TraceLink component
+ */
+export interface TraceLinkProps {
+    /**
+     * OpenTelemetry trace id (32 hex chars)
+     */
+    traceId: string;
+}
+
+/**
+ * Trace id linked to the configured trace viewer (VITE_TRACE_URL_TEMPLATE),
+ * or shown as plain text when no viewer is configured
+ */
+export function TraceLink({ traceId }: TraceLinkProps) {
+    if (!TRACE_URL_TEMPLATE) {
+        return <code className="text-sm">{traceId}</code>;
+    }
+
+    return (
+        <a
+            href={TRACE_URL_TEMPLATE.replace("{traceId}", traceId)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-primary hover:underline"
+        >
+            <code className="text-sm">{traceId}</code>
+            <ExternalLink className="size-3" />
+        </a>
+    );
+}
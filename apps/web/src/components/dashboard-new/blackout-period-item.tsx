@@ -0,0 +1,49 @@
+import { Ban } from "lucide-react";
+
+import { Badge } from "@cronicorn/ui-library/components/badge";
+
+export type BlackoutPeriod = {
+    start: string;
+    end: string;
+    name?: string;
+    description: string;
+    endpointId?: string;
+    endpointName?: string;
+};
+
+function formatTime(iso: string): string {
+    return new Date(iso).toLocaleTimeString("en-US", {
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+    });
+}
+
+/** A blackout window occurrence on the activity timeline: no runs start between start and end */
+export function BlackoutPeriodItem({ period }: { period: BlackoutPeriod }) {
+    const sameDay = new Date(period.start).toDateString() === new Date(period.end).toDateString();
+    const end = sameDay
+        ? formatTime(period.end)
+        : `${new Date(period.end).toLocaleDateString("en-US", { month: "short", day: "numeric" })} ${formatTime(period.end)}`;
+
+    return (
+        <div className="flex items-center gap-2 px-3 py-1.5 rounded-md" title={period.description}>
+            <div className="shrink-0 size-5 rounded-full flex items-center justify-center bg-muted text-muted-foreground">
+                <Ban className="size-3" />
+            </div>
+
+            <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-1.5">
+                    <span className="text-sm font-medium truncate">{period.name ?? "Blackout window"}</span>
+                    <Badge variant="outline" className="text-[10px] px-1 py-0">
+                        {period.endpointName ?? "All endpoints"}
+                    </Badge>
+                </div>
+            </div>
+
+            <div className="text-xs text-muted-foreground shrink-0">
+                {formatTime(period.start)} – {end}
+            </div>
+        </div>
+    );
+}
@@ -5,3 +5,4 @@ export { FilterBar } from "./filter-bar";
 export { JobActivityTimeline } from "./job-activity-timeline";
 export { JobHealthChart } from "./job-health-chart";
 export { SchedulingIntelligenceChart } from "./scheduling-intelligence-chart";
+export { SchedulingLagChart } from "./scheduling-lag-chart";
@@ -8,6 +8,7 @@ import { ToggleGroup, ToggleGroupItem } from "@cronicorn/ui-library/components/t
 
 import { DashboardCard } from "./dashboard-card";
 import { ActivityEventItem } from "./activity-event-item";
+import { BlackoutPeriodItem } from "./blackout-period-item";
 import { dashboardActivityInfiniteQueryOptions } from "@/lib/api-client/queries/dashboard.queries";
 
 type FilterType = "all" | "runs" | "sessions";
@@ -51,17 +52,33 @@ export function JobActivityTimeline({ jobId, jobName, startDate, endDate }: JobA
 
   const total = data?.pages[0]?.total ?? 0;
 
-  const eventsByDate = useMemo(() => {
-    return allEvents.reduce<Record<string, typeof allEvents>>((acc, event) => {
-      const date = formatDate(new Date(event.timestamp));
-      acc[date] = [...(acc[date] ?? []), event];
+  // Blackout periods come with the first page; AI sessions aren't affected by them
+  const blackouts = useMemo(() => {
+    if (!data || filter === "sessions") return [];
+    return data.pages[0]?.blackouts ?? [];
+  }, [data, filter]);
+
+  const itemsByDate = useMemo(() => {
+    const items = [
+      ...allEvents.map((event) => ({ kind: "event" as const, key: event.id, timestamp: event.timestamp, event })),
+      ...blackouts.map((period) => ({
+        kind: "blackout" as const,
+        key: `blackout-${period.endpointId ?? "job"}-${period.start}`,
+        timestamp: period.start,
+        period,
+      })),
+    ].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    return items.reduce<Record<string, typeof items>>((acc, item) => {
+      const date = formatDate(new Date(item.timestamp));
+      acc[date] = [...(acc[date] ?? []), item];
       return acc;
     }, {});
-  }, [allEvents]);
+  }, [allEvents, blackouts]);
 
   const title = jobName ? `Activity: ${jobName}` : "Recent Activity";
 
-  const description = allEvents.length === 0 ? (
+  const description = allEvents.length === 0 && blackouts.length === 0 ? (
     <p>No data to display</p>
   ) : filter == 'runs' ? (<p>Showing Runs Only</p>) : filter == 'sessions' ? <p>Showing AI Sessions Only</p> : (
     <p>Runs and AI Sessions</p>
@@ -95,19 +112,23 @@ export function JobActivityTimeline({ jobId, jobName, startDate, endDate }: JobA
       headerSlot={filterToggle}
     >
       <ScrollArea className="h-full w-full">
-        {allEvents.length === 0 ? (
+        {allEvents.length === 0 && blackouts.length === 0 ? (
           null
         ) : (
           <div className="p-2 space-y-2">
-            {Object.entries(eventsByDate).map(([date, events]) => (
+            {Object.entries(itemsByDate).map(([date, items]) => (
               <div key={date}>
                 <div className="px-3 py-0.5">
                   <span className="text-xs font-medium text-muted-foreground">{date}</span>
                 </div>
                 <div>
-                  {events.map((event) => (
-                    <ActivityEventItem key={event.id} event={event} />
-                  ))}
+                  {items.map((item) =>
+                    item.kind === "event" ? (
+                      <ActivityEventItem key={item.key} event={item.event} />
+                    ) : (
+                      <BlackoutPeriodItem key={item.key} period={item.period} />
+                    )
+                  )}
                 </div>
               </div>
             ))}
@@ -0,0 +1,164 @@
+"use client";
+
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+    ChartContainer,
+    ChartLegend,
+    ChartLegendContent,
+    ChartTooltip,
+} from "@cronicorn/ui-library/components/chart";
+import { DashboardCard } from "./dashboard-card";
+import type { ChartConfig } from "@cronicorn/ui-library/components/chart";
+import type { JobLagItem } from "@cronicorn/api-contracts/dashboard";
+
+const chartConfig = {
+    p50LagMs: {
+        label: "p50",
+        color: "var(--chart-2)",
+    },
+    p95LagMs: {
+        label: "p95",
+        color: "var(--chart-4)",
+    },
+    p99LagMs: {
+        label: "p99",
+        color: "var(--chart-1)",
+    },
+} satisfies ChartConfig;
+
+/** Jobs shown at once; the API returns the slowest (highest p95) first */
+const MAX_JOBS = 5;
+
+interface SchedulingLagChartProps {
+    data: Array<JobLagItem>;
+}
+
+/**
+ * Format a lag in milliseconds. Runs claimed ahead of time have a negative lag.
+ * - < 1 second: show ms (e.g., "234ms")
+ * - < 1 minute: show seconds with 1 decimal (e.g., "45.2s")
+ * - >= 1 minute: show minutes and seconds (e.g., "2m 30s")
+ */
+function formatLag(ms: number): string {
+    if (ms < 0) {
+        return `-${formatLag(-ms)}`;
+    }
+    if (ms < 1000) {
+        return `${Math.round(ms)}ms`;
+    }
+    if (ms < 60000) {
+        return `${(ms / 1000).toFixed(1)}s`;
+    }
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.round((ms % 60000) / 1000);
+    return `${minutes}m ${seconds}s`;
+}
+
+export function SchedulingLagChart({ data }: SchedulingLagChartProps) {
+    const jobs = useMemo(() => data.slice(0, MAX_JOBS), [data]);
+
+    const hasData = data.length > 0;
+
+    // Average of the job medians, weighted by how often each job ran
+    const overallP50 = useMemo(() => {
+        const runs = data.reduce((sum, item) => sum + item.runCount, 0);
+        if (runs === 0) return 0;
+        return data.reduce((sum, item) => sum + item.p50LagMs * item.runCount, 0) / runs;
+    }, [data]);
+
+    const description = hasData ? (
+        <>
+            <p>
+                Typical delay: <span className="text-foreground font-medium">{formatLag(overallP50)}</span>
+                {data.length > jobs.length && (
+                    <span className="text-muted-foreground text-xs ml-2">
+                        (Showing slowest {jobs.length} of {data.length})
+                    </span>
+                )}
+            </p>
+        </>
+    ) : (
+        "No data to display"
+    );
+
+    return (
+        <DashboardCard
+            title="Scheduling Lag"
+            description={description}
+            contentClassName="p-3"
+        >
+            {hasData ? (
+                <ChartContainer config={chartConfig} className="aspect-auto h-full w-full">
+                    <BarChart
+                        accessibilityLayer
+                        data={jobs}
+                        layout="vertical"
+                        margin={{ left: 0, right: 16 }}
+                        barCategoryGap="20%"
+                    >
+                        <CartesianGrid horizontal={false} vertical={true} strokeDasharray="3 3" />
+                        <XAxis
+                            type="number"
+                            tickLine={false}
+                            axisLine={false}
+                            tickMargin={8}
+                            tickFormatter={(value) => formatLag(value)}
+                        />
+                        <YAxis
+                            dataKey="jobName"
+                            type="category"
+                            tickLine={false}
+                            tickMargin={4}
+                            axisLine={false}
+                            width={80}
+                            tickFormatter={(value: string) =>
+                                value.length > 10 ? `${value.slice(0, 9)}…` : value
+                            }
+                            tick={{ fontSize: 11 }}
+                        />
+                        <ChartTooltip
+                            cursor={false}
+                            content={({ active, payload }) => {
+                                if (!active || !payload || payload.length === 0) return null;
+
+                                const item = payload[0]?.payload as JobLagItem | undefined;
+                                if (!item) return null;
+
+                                // Custom tooltip that shows each percentile as a formatted lag
+                                return (
+                                    <div className="rounded-lg border bg-background p-2 shadow-sm min-w-[8rem]">
+                                        <div className="font-medium text-xs mb-1.5">{item.jobName}</div>
+                                        <div className="grid gap-1">
+                                            {payload.map((entry, index) => {
+                                                const key = String(entry.dataKey) as keyof typeof chartConfig;
+                                                const value = typeof entry.value === 'number' ? entry.value : 0;
+                                                return (
+                                                    <div key={index} className="flex items-center gap-2 text-xs">
+                                                        <div
+                                                            className="h-2.5 w-2.5 shrink-0 rounded-[2px]"
+                                                            style={{ backgroundColor: `var(--color-${key})` }}
+                                                        />
+                                                        <span className="text-muted-foreground flex-1">{chartConfig[key].label}</span>
+                                                        <span className="text-foreground font-mono font-medium tabular-nums">
+                                                            {formatLag(value)}
+                                                        </span>
+                                                    </div>
+                                                );
+                                            })}
+                                        </div>
+                                        <div className="text-muted-foreground mt-1.5 text-xs">{item.runCount} runs</div>
+                                    </div>
+                                );
+                            }}
+                        />
+                        <ChartLegend content={<ChartLegendContent className="pb-2" />} />
+                        <Bar dataKey="p50LagMs" fill="var(--color-p50LagMs)" radius={[0, 4, 4, 0]} isAnimationActive={false} />
+                        <Bar dataKey="p95LagMs" fill="var(--color-p95LagMs)" radius={[0, 4, 4, 0]} isAnimationActive={false} />
+                        <Bar dataKey="p99LagMs" fill="var(--color-p99LagMs)" radius={[0, 4, 4, 0]} isAnimationActive={false} />
+                    </BarChart>
+                </ChartContainer>
+            ) : null}
+        </DashboardCard>
+    );
+}
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+
+import { DetailSection } from "../cards/detail-section";
+import { InfoField, InfoGrid } from "../cards/info-grid";
+import { InlineBadge } from "@/components/primitives/inline-badge";
+import { authProfilesQueryOptions } from "@/lib/api-client/queries/auth-profiles.queries";
+
+interface AuthProfileSectionProps {
+  name: string;
+}
+
+/**
+ * The auth profile an endpoint's requests get their OAuth2 access token from.
+ */
+export function AuthProfileSection({ name }: AuthProfileSectionProps) {
+  const { data, isPending } = useQuery(authProfilesQueryOptions());
+  const profile = data?.profiles.find(p => p.name === name);
+
+  return (
+    <DetailSection
+      title="Authentication"
+      description="Requests are sent with an OAuth2 access token from this auth profile"
+    >
+      {profile ? (
+        <InfoGrid columns={1}>
+          <InfoField
+            label="Auth Profile"
+            value={
+              <Link to="/auth-profiles">
+                <InlineBadge variant="code">{profile.name}</InlineBadge>
+              </Link>
+            }
+          />
+          <InfoField label="Token URL" value={<code className="text-xs break-all">{profile.tokenUrl}</code>} />
+          <InfoField label="Client ID" value={<code className="text-xs">{profile.clientId}</code>} />
+          {profile.scopes.length > 0 && (
+            <InfoField label="Scopes" value={<code className="text-xs">{profile.scopes.join(" ")}</code>} />
+          )}
+          {profile.audience && (
+            <InfoField label="Audience" value={<code className="text-xs break-all">{profile.audience}</code>} />
+          )}
+        </InfoGrid>
+      ) : !isPending && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            Auth profile <InlineBadge variant="code">{name}</InlineBadge> doesn&apos;t exist. Runs fail without sending a request
+            until it&apos;s <Link to="/auth-profiles" className="underline">created</Link>.
+          </AlertDescription>
+        </Alert>
+      )}
+    </DetailSection>
+  );
+}
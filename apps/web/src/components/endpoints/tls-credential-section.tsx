@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "@tanstack/react-router";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+
+import { DetailSection } from "../cards/detail-section";
+import { InfoField, InfoGrid } from "../cards/info-grid";
+import type { TlsCredential } from "@/lib/api-client/queries/tls-credentials.queries";
+import { InlineBadge } from "@/components/primitives/inline-badge";
+import { tlsCredentialsQueryOptions } from "@/lib/api-client/queries/tls-credentials.queries";
+
+const EXPIRY_BADGES = {
+  valid: { variant: "success", label: "Valid" },
+  expiring: { variant: "warning", label: "Expires soon" },
+  expired: { variant: "error", label: "Expired" },
+} as const;
+
+/**
+ * Expiry state of a TLS credential's certificates.
+ */
+export function TlsExpiryBadge({ credential }: { credential: TlsCredential }) {
+  const badge = EXPIRY_BADGES[credential.expiryStatus];
+  return <InlineBadge variant={badge.variant}>{badge.label}</InlineBadge>;
+}
+
+interface TlsCredentialSectionProps {
+  name: string;
+}
+
+/**
+ * The TLS credential an endpoint connects with, and when its certificates expire.
+ */
+export function TlsCredentialSection({ name }: TlsCredentialSectionProps) {
+  const { data, isPending } = useQuery(tlsCredentialsQueryOptions());
+  const credential = data?.credentials.find(c => c.name === name);
+
+  return (
+    <DetailSection
+      title="TLS Credential"
+      description="Client certificate and CA bundle used to connect to this endpoint"
+    >
+      {credential ? (
+        <InfoGrid columns={1}>
+          <InfoField
+            label="Credential"
+            value={
+              <Link to="/tls-credentials">
+                <InlineBadge variant="code">{credential.name}</InlineBadge>
+              </Link>
+            }
+          />
+          {credential.subject && (
+            <InfoField label="Client Certificate" value={<code className="text-xs">{credential.subject}</code>} />
+          )}
+          {credential.certificateExpiresAt && (
+            <InfoField label="Certificate Expires" value={new Date(credential.certificateExpiresAt).toLocaleString()} />
+          )}
+          {credential.caExpiresAt && (
+            <InfoField
+              label="CA Bundle Expires"
+              value={`${new Date(credential.caExpiresAt).toLocaleString()} (${credential.caCertificates} certificate${credential.caCertificates === 1 ? "" : "s"})`}
+            />
+          )}
+          <InfoField label="Status" value={<TlsExpiryBadge credential={credential} />} />
+        </InfoGrid>
+      ) : !isPending && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            TLS credential <InlineBadge variant="code">{name}</InlineBadge> doesn&apos;t exist. Runs fail without sending a request
+            until it&apos;s <Link to="/tls-credentials" className="underline">uploaded</Link>.
+          </AlertDescription>
+        </Alert>
+      )}
+    </DetailSection>
+  );
+}
@@ -0,0 +1,179 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, Link2, RefreshCw, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { toast } from "sonner";
+
+import { DetailSection } from "../cards/detail-section";
+import { InfoField, InfoGrid } from "../cards/info-grid";
+import { CodeDisplay } from "@/components/composed/code-display";
+import { InlineBadge } from "@/components/primitives/inline-badge";
+import { getBaseURL } from "@/lib/api-client/api-client";
+import {
+  createTriggerToken,
+  revokeTriggerToken,
+  rotateTriggerToken,
+  triggerTokenQueryOptions,
+} from "@/lib/api-client/queries/endpoints.queries";
+
+interface TriggerUrlSectionProps {
+  endpointId: string;
+  disabled?: boolean;
+}
+
+/**
+ * Trigger URL management for an endpoint: external systems POST to the URL to
+ * request a run. The token is only shown right after it's created or rotated.
+ */
+export function TriggerUrlSection({ endpointId, disabled }: TriggerUrlSectionProps) {
+  const queryClient = useQueryClient();
+  const { data: info } = useQuery(triggerTokenQueryOptions(endpointId));
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  const onTokenChange = async () => {
+    await queryClient.invalidateQueries({ queryKey: triggerTokenQueryOptions(endpointId).queryKey });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createTriggerToken(endpointId),
+    onSuccess: async (data) => {
+      await onTokenChange();
+      setNewToken(data.token);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: () => rotateTriggerToken(endpointId),
+    onSuccess: async (data) => {
+      await onTokenChange();
+      setNewToken(data.token);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: () => revokeTriggerToken(endpointId),
+    onSuccess: async () => {
+      await onTokenChange();
+      toast.success("Trigger URL revoked");
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const pending = createMutation.isPending || rotateMutation.isPending || revokeMutation.isPending;
+
+  return (
+    <>
+      <DetailSection
+        title="Trigger URL"
+        description="Let deploy pipelines and scripts run this endpoint without an API key"
+        headerActions={info?.hasToken ? (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (confirm("Rotate the trigger URL? The current URL stops working immediately.")) {
+                  rotateMutation.mutate();
+                }
+              }}
+              disabled={pending}
+            >
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Rotate
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (confirm("Revoke the trigger URL? Requests to it will be rejected.")) {
+                  revokeMutation.mutate();
+                }
+              }}
+              disabled={pending}
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Revoke
+            </Button>
+          </>
+        ) : undefined}
+      >
+        {info?.hasToken ? (
+          <InfoGrid columns={1}>
+            <InfoField
+              label="URL"
+              value={
+                <code className="text-xs break-all">
+                  POST {getBaseURL()}/api/triggers/<InlineBadge variant="code">{info.tokenPrefix}...</InlineBadge>
+                </code>
+              }
+            />
+            {info.createdAt && (
+              <InfoField label="Created" value={new Date(info.createdAt).toLocaleString()} />
+            )}
+            {info.rotatedAt && (
+              <InfoField label="Last Rotated" value={new Date(info.rotatedAt).toLocaleString()} />
+            )}
+          </InfoGrid>
+        ) : (
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              Runs requested through the URL are recorded with source &quot;trigger&quot; and count toward your monthly runs.
+            </p>
+            <Button
+              variant="outline"
+              onClick={() => createMutation.mutate()}
+              disabled={pending || disabled || !info}
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              {createMutation.isPending ? "Creating..." : "Create Trigger URL"}
+            </Button>
+          </div>
+        )}
+      </DetailSection>
+
+      <Dialog open={!!newToken} onOpenChange={(open) => !open && setNewToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="size-6 text-primary" />
+              <DialogTitle>Trigger URL Created</DialogTitle>
+            </div>
+            <DialogDescription>
+              Copy the URL now. You won&apos;t be able to see the token again.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <CodeDisplay
+              code={`curl -X POST ${getBaseURL()}/api/triggers/${newToken ?? ""} \\\n  -H "Content-Type: application/json" \\\n  -d '{"sha": "abc123"}'`}
+              maxHeight="160px"
+              enableCopy={true}
+            />
+            <Alert>
+              <AlertDescription>
+                Anyone with this URL can run the endpoint. The optional JSON body is merged into
+                the endpoint&apos;s request body for that run.
+              </AlertDescription>
+            </Alert>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={() => setNewToken(null)}>I&apos;ve Saved the URL</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
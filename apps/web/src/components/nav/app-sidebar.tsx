@@ -2,12 +2,17 @@
 
 import {
   IconBriefcase,
+  IconCertificate,
   IconDashboard,
   IconHelp,
+  IconHistory,
   IconHome,
   IconKey,
+  IconLock,
+  IconPlugConnected,
   IconSettings,
-  IconShieldCheck
+  IconShieldCheck,
+  IconUsers
 } from "@tabler/icons-react";
 import * as React from "react";
 import { Link } from "@tanstack/react-router";
@@ -41,6 +46,11 @@ const data = {
       url: "/jobs",
       icon: IconBriefcase,
     },
+    {
+      title: "Organizations",
+      url: "/organizations",
+      icon: IconUsers,
+    },
     {
       title: "API Keys",
       url: "/api-keys",
@@ -51,6 +61,26 @@ const data = {
       url: "/signing-keys",
       icon: IconShieldCheck,
     },
+    {
+      title: "Secrets",
+      url: "/secrets",
+      icon: IconLock,
+    },
+    {
+      title: "TLS Credentials",
+      url: "/tls-credentials",
+      icon: IconCertificate,
+    },
+    {
+      title: "Auth Profiles",
+      url: "/auth-profiles",
+      icon: IconPlugConnected,
+    },
+    {
+      title: "Audit Log",
+      url: "/audit-log",
+      icon: IconHistory,
+    },
   ],
   navSecondary: [
     {
@@ -15,3 +15,9 @@ export const APP_URL = import.meta.env.VITE_SITE_URL || "http://localhost:5173";
  * Application version (injected at build time from root package.json)
  */
 export const APP_VERSION = __APP_VERSION__;
+
+/**
+ * Trace viewer URL with a `{traceId}` placeholder (e.g. https://jaeger.example.com/trace/{traceId})
+ * When unset, trace ids on runs and AI sessions are shown without a link
+ */
+export const TRACE_URL_TEMPLATE = import.meta.env.VITE_TRACE_URL_TEMPLATE || "";
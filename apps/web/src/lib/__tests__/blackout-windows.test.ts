@@ -0,0 +1,11 @@
+import { describe, expect, it } from "vitest";
+import { describeBlackoutWindow } from "../blackout-windows";
+
+describe("describeBlackoutWindow", () => {
+  it("summarizes days, times and timezone", () => {
+    expect(describeBlackoutWindow({ name: "Sunday maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" }))
+      .toBe("Sunday maintenance: Sun 02:00-04:00 (Europe/Berlin)");
+    expect(describeBlackoutWindow({ daysOfWeek: [6, 0], calendar: "us-federal-holidays" })).toBe("Sun, Sat, US federal holidays all day (UTC)");
+    expect(describeBlackoutWindow({ startTime: "22:00", endTime: "06:00" })).toBe("Every day 22:00-06:00 (UTC)");
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { layoutDependencyGraph } from "../dependency-graph";
+
+describe("layoutDependencyGraph", () => {
+  it("places endpoints in columns by dependency depth", () => {
+    const layout = layoutDependencyGraph([
+      { id: "load", name: "Load", runAfter: { upstreamIds: ["extract", "transform"], mode: "all" } },
+      { id: "extract", name: "Extract" },
+      { id: "transform", name: "Transform", runAfter: { upstreamIds: ["extract"], mode: "any", delayMs: 30000 } },
+    ]);
+
+    expect(Object.fromEntries(layout.nodes.map(node => [node.id, node.layer]))).toEqual({
+      extract: 0,
+      transform: 1,
+      load: 2,
+    });
+    expect(layout.edges).toEqual([
+      { fromId: "extract", toId: "load", mode: "all", delayMs: undefined },
+      { fromId: "transform", toId: "load", mode: "all", delayMs: undefined },
+      { fromId: "extract", toId: "transform", mode: "any", delayMs: 30000 },
+    ]);
+    expect(layout.width).toBe(3 * 180 + 2 * 72);
+    expect(layout.height).toBe(40);
+  });
+
+  it("stacks endpoints of the same depth", () => {
+    const layout = layoutDependencyGraph([
+      { id: "fetch", name: "Fetch" },
+      { id: "a", name: "A", runAfter: { upstreamIds: ["fetch"], mode: "all" } },
+      { id: "b", name: "B", runAfter: { upstreamIds: ["fetch"], mode: "all" } },
+    ]);
+
+    expect(layout.nodes.filter(node => node.layer === 1).map(node => node.y)).toEqual([0, 56]);
+    expect(layout.height).toBe(2 * 40 + 16);
+  });
+
+  it("leaves out unlinked and archived endpoints and dangling upstreams", () => {
+    const layout = layoutDependencyGraph([
+      { id: "solo", name: "Solo" },
+      { id: "old", name: "Old", archivedAt: "2025-01-01T00:00:00Z" },
+      { id: "dep", name: "Dep", runAfter: { upstreamIds: ["old", "gone"], mode: "all" } },
+    ]);
+
+    expect(layout).toEqual({ nodes: [], edges: [], width: 0, height: 0 });
+  });
+});
@@ -1,14 +1,22 @@
-import apiClient from "@cronicorn/api/client";
+import apiClient, { createCredentialsClient, createOrganizationsClient } from "@cronicorn/api/client";
 import type { ErrorSchema } from "@cronicorn/api/client";
 
-const getBaseURL = () => {
+export const getBaseURL = () => {
     const apiUrl = typeof process !== 'undefined' ? process.env.API_URL : undefined;
     return apiUrl || import.meta.env.VITE_API_URL || "http://localhost:3333";
 };
 
-export type { ErrorSchema };
-export default apiClient(getBaseURL(), {
+const clientOptions = {
     init: {
         credentials: "include",
     },
-});
+} as const;
+
+export type { ErrorSchema };
+export default apiClient(getBaseURL(), clientOptions);
+
+// Organizations and the audit log, typed separately from the main client
+export const organizationsClient = createOrganizationsClient(getBaseURL(), clientOptions);
+
+// Signing keys, secrets, TLS credentials and auth profiles, typed separately from the main client
+export const credentialsClient = createCredentialsClient(getBaseURL(), clientOptions);
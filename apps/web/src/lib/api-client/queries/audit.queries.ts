@@ -0,0 +1,46 @@
+import { queryOptions } from "@tanstack/react-query";
+import { organizationsClient } from "../api-client";
+import type { InferRequestType, InferResponseType } from "hono/client";
+
+
+// Type helper to extract success response (excludes error responses)
+type SuccessResponse<T> = Exclude<T, { message: string }>;
+
+/**
+ * Audit Log API Query Helpers
+ *
+ * Read-only access to the history of configuration and scheduling changes.
+ */
+
+// ==================== Query Functions ====================
+
+const $listAuditEvents = organizationsClient.api["audit-events"].$get;
+export type ListAuditEventsQuery = InferRequestType<typeof $listAuditEvents>["query"];
+export type ListAuditEventsResponse = SuccessResponse<InferResponseType<typeof $listAuditEvents>>;
+export type AuditEvent = ListAuditEventsResponse["events"][number];
+
+export async function listAuditEvents(filters?: ListAuditEventsQuery): Promise<ListAuditEventsResponse> {
+  const resp = await organizationsClient.api["audit-events"].$get({ param: {}, query: filters || {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Query Options Factories ====================
+
+export const AUDIT_EVENTS_QUERY_KEY = ["audit-events"] as const;
+
+/**
+ * Query options for listing audit events
+ * Usage: useSuspenseQuery(auditEventsQueryOptions(filters))
+ */
+export function auditEventsQueryOptions(filters?: ListAuditEventsQuery) {
+  return queryOptions({
+    queryKey: [...AUDIT_EVENTS_QUERY_KEY, filters] as const,
+    queryFn: () => listAuditEvents(filters),
+    staleTime: 30000, // 30 seconds
+  });
+}
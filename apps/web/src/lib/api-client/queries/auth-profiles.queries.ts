@@ -0,0 +1,79 @@
+import { queryOptions } from "@tanstack/react-query";
+import { credentialsClient } from "../api-client";
+import type { InferRequestType, InferResponseType } from "hono/client";
+
+
+// Type helper to extract success response (excludes error responses)
+type SuccessResponse<T> = Exclude<T, { message: string } | { success: boolean; error: unknown }>;
+
+/**
+ * Auth Profiles API Query Helpers
+ *
+ * Provides type-safe access to OAuth2 client credentials used to authenticate endpoint requests.
+ * Client secrets are write-only: responses never include them.
+ */
+
+// ==================== Query Functions ====================
+
+const $listAuthProfiles = credentialsClient.api["auth-profiles"].$get;
+const $setAuthProfile = credentialsClient.api["auth-profiles"][":name"].$put;
+export type ListAuthProfilesResponse = SuccessResponse<InferResponseType<typeof $listAuthProfiles>>;
+export type AuthProfile = ListAuthProfilesResponse["profiles"][number];
+export type SetAuthProfileRequest = InferRequestType<typeof $setAuthProfile>["json"];
+
+export async function listAuthProfiles(): Promise<ListAuthProfilesResponse> {
+  const resp = await credentialsClient.api["auth-profiles"].$get({ param: {}, query: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Mutation Functions ====================
+
+export async function setAuthProfile({ name, profile }: { name: string; profile: SetAuthProfileRequest }): Promise<AuthProfile> {
+  const resp = await credentialsClient.api["auth-profiles"][":name"].$put({
+    param: { name },
+    query: {},
+    json: profile,
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function deleteAuthProfile(name: string): Promise<void> {
+  const resp = await credentialsClient.api["auth-profiles"][":name"].$delete({
+    param: { name },
+    query: {},
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to delete auth profile");
+  }
+}
+
+// ==================== Query Options Factories ====================
+
+export const AUTH_PROFILES_QUERY_KEY = ["auth-profiles"] as const;
+
+/**
+ * Query options for listing auth profiles
+ * Usage: useSuspenseQuery(authProfilesQueryOptions())
+ */
+export function authProfilesQueryOptions() {
+  return queryOptions({
+    queryKey: AUTH_PROFILES_QUERY_KEY,
+    queryFn: () => listAuthProfiles(),
+    staleTime: 30000, // 30 seconds
+  });
+}
@@ -135,6 +135,73 @@ export async function resetFailures(id: string): Promise<void> {
   }
 }
 
+const $runEndpointNow = apiClient.api.endpoints[":id"].run.$post;
+type RunNowRequest = InferRequestType<typeof $runEndpointNow>["json"];
+type RunNowResponse = SuccessResponse<InferResponseType<typeof $runEndpointNow>>;
+
+export async function runEndpointNow(id: string, data: RunNowRequest = {}): Promise<RunNowResponse> {
+  const resp = await apiClient.api.endpoints[":id"].run.$post({
+    param: { id },
+    json: data,
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Trigger URLs ====================
+
+const $getTriggerToken = apiClient.api.endpoints[":id"]["trigger-token"].$get;
+export type TriggerTokenInfoResponse = SuccessResponse<InferResponseType<typeof $getTriggerToken>>;
+
+export async function getTriggerToken(id: string): Promise<TriggerTokenInfoResponse> {
+  const resp = await apiClient.api.endpoints[":id"]["trigger-token"].$get({ param: { id } });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $createTriggerToken = apiClient.api.endpoints[":id"]["trigger-token"].$post;
+export type TriggerTokenCreatedResponse = SuccessResponse<InferResponseType<typeof $createTriggerToken>>;
+
+export async function createTriggerToken(id: string): Promise<TriggerTokenCreatedResponse> {
+  const resp = await apiClient.api.endpoints[":id"]["trigger-token"].$post({ param: { id } });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function rotateTriggerToken(id: string): Promise<TriggerTokenCreatedResponse> {
+  const resp = await apiClient.api.endpoints[":id"]["trigger-token"].rotate.$post({ param: { id } });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function revokeTriggerToken(id: string): Promise<void> {
+  const resp = await apiClient.api.endpoints[":id"]["trigger-token"].$delete({ param: { id } });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to revoke trigger URL");
+  }
+}
+
 export async function clearHints(id: string): Promise<void> {
   const resp = await apiClient.api.endpoints[":id"].hints.$delete({
     param: { id },
@@ -223,3 +290,15 @@ export function endpointByIdQueryOptions(id: string) {
     staleTime: 30000, // 30 seconds
   });
 }
+
+/**
+ * Query options for an endpoint's trigger URL info
+ * Usage: useQuery(triggerTokenQueryOptions(endpointId))
+ */
+export function triggerTokenQueryOptions(id: string) {
+  return queryOptions({
+    queryKey: ["endpoints", id, "trigger-token"] as const,
+    queryFn: () => getTriggerToken(id),
+    staleTime: 30000, // 30 seconds
+  });
+}
@@ -0,0 +1,176 @@
+import { queryOptions } from "@tanstack/react-query";
+import apiClient from "../api-client";
+import type { InferRequestType, InferResponseType } from "hono/client";
+
+
+// Type helper to extract success response (excludes error responses)
+type SuccessResponse<T> = Exclude<T, { message: string } | { success: boolean; error: unknown }>;
+
+/**
+ * Notifications API Query Helpers
+ *
+ * Provides type-safe access to notification channel and alert rule endpoints.
+ * Uses Hono RPC client for end-to-end type safety.
+ */
+
+// ==================== Channel Functions ====================
+
+const $listChannels = apiClient.api.notifications.channels.$get;
+export type ListNotificationChannelsResponse = SuccessResponse<InferResponseType<typeof $listChannels>>;
+export type NotificationChannel = ListNotificationChannelsResponse["channels"][number];
+
+export async function listNotificationChannels(): Promise<ListNotificationChannelsResponse> {
+  const resp = await apiClient.api.notifications.channels.$get({ param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $createChannel = apiClient.api.notifications.channels.$post;
+export type CreateNotificationChannelRequest = InferRequestType<typeof $createChannel>["json"];
+
+export async function createNotificationChannel(data: CreateNotificationChannelRequest): Promise<NotificationChannel> {
+  const resp = await apiClient.api.notifications.channels.$post({ json: data, param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $updateChannel = apiClient.api.notifications.channels[":id"].$patch;
+export type UpdateNotificationChannelRequest = InferRequestType<typeof $updateChannel>["json"];
+
+export async function updateNotificationChannel(id: string, data: UpdateNotificationChannelRequest): Promise<NotificationChannel> {
+  const resp = await apiClient.api.notifications.channels[":id"].$patch({
+    param: { id },
+    json: data,
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function deleteNotificationChannel(id: string): Promise<void> {
+  const resp = await apiClient.api.notifications.channels[":id"].$delete({
+    param: { id },
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to delete channel");
+  }
+}
+
+const $testChannel = apiClient.api.notifications.channels[":id"].test.$post;
+export type TestNotificationResponse = SuccessResponse<InferResponseType<typeof $testChannel>>;
+
+export async function testNotificationChannel(id: string): Promise<TestNotificationResponse> {
+  const resp = await apiClient.api.notifications.channels[":id"].test.$post({
+    param: { id },
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Alert Rule Functions ====================
+
+const $listRules = apiClient.api.notifications.rules.$get;
+export type ListAlertRulesResponse = SuccessResponse<InferResponseType<typeof $listRules>>;
+export type AlertRule = ListAlertRulesResponse["rules"][number];
+
+export async function listAlertRules(): Promise<ListAlertRulesResponse> {
+  const resp = await apiClient.api.notifications.rules.$get({ param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $createRule = apiClient.api.notifications.rules.$post;
+export type CreateAlertRuleRequest = InferRequestType<typeof $createRule>["json"];
+
+export async function createAlertRule(data: CreateAlertRuleRequest): Promise<AlertRule> {
+  const resp = await apiClient.api.notifications.rules.$post({ json: data, param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $updateRule = apiClient.api.notifications.rules[":id"].$patch;
+export type UpdateAlertRuleRequest = InferRequestType<typeof $updateRule>["json"];
+
+export async function updateAlertRule(id: string, data: UpdateAlertRuleRequest): Promise<AlertRule> {
+  const resp = await apiClient.api.notifications.rules[":id"].$patch({
+    param: { id },
+    json: data,
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function deleteAlertRule(id: string): Promise<void> {
+  const resp = await apiClient.api.notifications.rules[":id"].$delete({
+    param: { id },
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to delete alert rule");
+  }
+}
+
+// ==================== Query Options Factories ====================
+
+export const NOTIFICATION_CHANNELS_QUERY_KEY = ["notification-channels"] as const;
+export const ALERT_RULES_QUERY_KEY = ["alert-rules"] as const;
+
+/**
+ * Query options for listing notification channels
+ * Usage: useSuspenseQuery(notificationChannelsQueryOptions())
+ */
+export function notificationChannelsQueryOptions() {
+  return queryOptions({
+    queryKey: NOTIFICATION_CHANNELS_QUERY_KEY,
+    queryFn: () => listNotificationChannels(),
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+/**
+ * Query options for listing alert rules
+ * Usage: useSuspenseQuery(alertRulesQueryOptions())
+ */
+export function alertRulesQueryOptions() {
+  return queryOptions({
+    queryKey: ALERT_RULES_QUERY_KEY,
+    queryFn: () => listAlertRules(),
+    staleTime: 30000, // 30 seconds
+  });
+}
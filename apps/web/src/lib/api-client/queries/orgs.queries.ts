@@ -0,0 +1,213 @@
+import { queryOptions } from "@tanstack/react-query";
+import { organizationsClient } from "../api-client";
+import type { InferRequestType, InferResponseType } from "hono/client";
+
+
+// Type helper to extract success response (excludes error responses)
+type SuccessResponse<T> = Exclude<T, { message: string } | { success: boolean; error: unknown }>;
+
+/**
+ * Organizations API Query Helpers
+ *
+ * Provides type-safe access to organization, member and invitation endpoints.
+ * Uses Hono RPC client for end-to-end type safety.
+ */
+
+// ==================== Organization Functions ====================
+
+const $listOrganizations = organizationsClient.api.orgs.$get;
+export type ListOrganizationsResponse = SuccessResponse<InferResponseType<typeof $listOrganizations>>;
+export type Organization = ListOrganizationsResponse["organizations"][number];
+export type OrgRole = Organization["role"];
+
+export async function listOrganizations(): Promise<ListOrganizationsResponse> {
+  const resp = await organizationsClient.api.orgs.$get({ param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function createOrganization(name: string): Promise<Organization> {
+  const resp = await organizationsClient.api.orgs.$post({ json: { name }, param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $getOrganization = organizationsClient.api.orgs[":orgId"].$get;
+export type OrganizationDetail = SuccessResponse<InferResponseType<typeof $getOrganization>>;
+export type OrganizationMember = OrganizationDetail["members"][number];
+
+export async function getOrganization(orgId: string): Promise<OrganizationDetail> {
+  const resp = await organizationsClient.api.orgs[":orgId"].$get({ param: { orgId } });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function deleteOrganization(orgId: string): Promise<void> {
+  const resp = await organizationsClient.api.orgs[":orgId"].$delete({ param: { orgId } });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to delete organization");
+  }
+}
+
+// ==================== Member Functions ====================
+
+export async function updateMemberRole({ orgId, userId, role }: { orgId: string; userId: string; role: OrgRole }): Promise<void> {
+  const resp = await organizationsClient.api.orgs[":orgId"].members[":userId"].$patch({
+    param: { orgId, userId },
+    json: { role },
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to change role");
+  }
+}
+
+export async function removeMember({ orgId, userId }: { orgId: string; userId: string }): Promise<void> {
+  const resp = await organizationsClient.api.orgs[":orgId"].members[":userId"].$delete({
+    param: { orgId, userId },
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to remove member");
+  }
+}
+
+// ==================== Invitation Functions ====================
+
+const $listInvitations = organizationsClient.api.orgs[":orgId"].invitations.$get;
+export type ListInvitationsResponse = SuccessResponse<InferResponseType<typeof $listInvitations>>;
+export type Invitation = ListInvitationsResponse["invitations"][number];
+
+export async function listInvitations(orgId: string): Promise<ListInvitationsResponse> {
+  const resp = await organizationsClient.api.orgs[":orgId"].invitations.$get({ param: { orgId } });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $createInvitation = organizationsClient.api.orgs[":orgId"].invitations.$post;
+export type CreateInvitationRequest = InferRequestType<typeof $createInvitation>["json"];
+export type CreatedInvitation = SuccessResponse<InferResponseType<typeof $createInvitation>>;
+
+export async function createInvitation(orgId: string, data: CreateInvitationRequest): Promise<CreatedInvitation> {
+  const resp = await organizationsClient.api.orgs[":orgId"].invitations.$post({
+    param: { orgId },
+    json: data,
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function revokeInvitation({ orgId, invitationId }: { orgId: string; invitationId: string }): Promise<void> {
+  const resp = await organizationsClient.api.orgs[":orgId"].invitations[":invitationId"].$delete({
+    param: { orgId, invitationId },
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to revoke invitation");
+  }
+}
+
+export async function acceptInvitation(token: string): Promise<Organization> {
+  const resp = await organizationsClient.api.orgs.invitations.accept.$post({ json: { token }, param: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== API Key Functions ====================
+
+const $createOrgApiKey = organizationsClient.api.orgs[":orgId"]["api-keys"].$post;
+export type CreatedOrgApiKey = SuccessResponse<InferResponseType<typeof $createOrgApiKey>>;
+
+export async function createOrgApiKey({ orgId, name }: { orgId: string; name: string }): Promise<CreatedOrgApiKey> {
+  const resp = await organizationsClient.api.orgs[":orgId"]["api-keys"].$post({
+    param: { orgId },
+    json: { name },
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Query Options Factories ====================
+
+export const ORGS_QUERY_KEY = ["orgs"] as const;
+
+/**
+ * Query options for the user's organizations
+ * Usage: useSuspenseQuery(organizationsQueryOptions())
+ */
+export function organizationsQueryOptions() {
+  return queryOptions({
+    queryKey: ORGS_QUERY_KEY,
+    queryFn: () => listOrganizations(),
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+/**
+ * Query options for an organization with its members
+ * Usage: useSuspenseQuery(organizationQueryOptions(orgId))
+ */
+export function organizationQueryOptions(orgId: string) {
+  return queryOptions({
+    queryKey: [...ORGS_QUERY_KEY, orgId] as const,
+    queryFn: () => getOrganization(orgId),
+    staleTime: 30000, // 30 seconds
+  });
+}
+
+/**
+ * Query options for an organization's pending invitations (admins only)
+ * Usage: useQuery(invitationsQueryOptions(orgId))
+ */
+export function invitationsQueryOptions(orgId: string) {
+  return queryOptions({
+    queryKey: [...ORGS_QUERY_KEY, orgId, "invitations"] as const,
+    queryFn: () => listInvitations(orgId),
+    staleTime: 30000, // 30 seconds
+  });
+}
@@ -0,0 +1,77 @@
+import { queryOptions } from "@tanstack/react-query";
+import { credentialsClient } from "../api-client";
+import type { InferResponseType } from "hono/client";
+
+
+// Type helper to extract success response (excludes error responses)
+type SuccessResponse<T> = Exclude<T, { message: string } | { success: boolean; error: unknown }>;
+
+/**
+ * Secrets API Query Helpers
+ *
+ * Provides type-safe access to the secrets vault endpoints.
+ * Values are write-only: responses only ever carry names and dates.
+ */
+
+// ==================== Query Functions ====================
+
+const $listSecrets = credentialsClient.api.secrets.$get;
+export type ListSecretsResponse = SuccessResponse<InferResponseType<typeof $listSecrets>>;
+export type Secret = ListSecretsResponse["secrets"][number];
+
+export async function listSecrets(): Promise<ListSecretsResponse> {
+  const resp = await credentialsClient.api.secrets.$get({ param: {}, query: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Mutation Functions ====================
+
+export async function setSecret({ name, value }: { name: string; value: string }): Promise<Secret> {
+  const resp = await credentialsClient.api.secrets[":name"].$put({
+    param: { name },
+    query: {},
+    json: { value },
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function deleteSecret(name: string): Promise<void> {
+  const resp = await credentialsClient.api.secrets[":name"].$delete({
+    param: { name },
+    query: {},
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to delete secret");
+  }
+}
+
+// ==================== Query Options Factories ====================
+
+export const SECRETS_QUERY_KEY = ["secrets"] as const;
+
+/**
+ * Query options for listing secrets
+ * Usage: useSuspenseQuery(secretsQueryOptions())
+ */
+export function secretsQueryOptions() {
+  return queryOptions({
+    queryKey: SECRETS_QUERY_KEY,
+    queryFn: () => listSecrets(),
+    staleTime: 30000, // 30 seconds
+  });
+}
@@ -1,6 +1,6 @@
 import { queryOptions } from "@tanstack/react-query";
-import apiClient from "../api-client";
-import type { InferResponseType } from "hono/client";
+import { credentialsClient } from "../api-client";
+import type { InferRequestType, InferResponseType } from "hono/client";
 
 
 // Type helper to extract success response (excludes error responses)
@@ -15,11 +15,11 @@ type SuccessResponse<T> = Exclude<T, { message: string } | { success: boolean; e
 
 // ==================== Query Functions ====================
 
-const $getSigningKeyInfo = apiClient.api["signing-keys"].$get;
+const $getSigningKeyInfo = credentialsClient.api["signing-keys"].$get;
 export type SigningKeyInfoResponse = SuccessResponse<InferResponseType<typeof $getSigningKeyInfo>>;
 
 export async function getSigningKeyInfo(): Promise<SigningKeyInfoResponse> {
-  const resp = await apiClient.api["signing-keys"].$get({ param: {} });
+  const resp = await credentialsClient.api["signing-keys"].$get({ param: {}, query: {} });
   const json = await resp.json();
 
   if ("message" in json) {
@@ -30,11 +30,12 @@ export async function getSigningKeyInfo(): Promise<SigningKeyInfoResponse> {
 
 // ==================== Mutation Functions ====================
 
-const $createSigningKey = apiClient.api["signing-keys"].$post;
+const $createSigningKey = credentialsClient.api["signing-keys"].$post;
+export type CreateSigningKeyRequest = InferRequestType<typeof $createSigningKey>["json"];
 export type CreateSigningKeyResponse = SuccessResponse<InferResponseType<typeof $createSigningKey>>;
 
-export async function createSigningKey(): Promise<CreateSigningKeyResponse> {
-  const resp = await apiClient.api["signing-keys"].$post({ param: {} });
+export async function createSigningKey(options: CreateSigningKeyRequest = {}): Promise<CreateSigningKeyResponse> {
+  const resp = await credentialsClient.api["signing-keys"].$post({ param: {}, query: {}, json: options });
   const json = await resp.json();
 
   if ("message" in json) {
@@ -43,11 +44,29 @@ export async function createSigningKey(): Promise<CreateSigningKeyResponse> {
   return json;
 }
 
-const $rotateSigningKey = apiClient.api["signing-keys"].rotate.$post;
+const $rotateSigningKey = credentialsClient.api["signing-keys"].rotate.$post;
+export type RotateSigningKeyRequest = InferRequestType<typeof $rotateSigningKey>["json"];
 export type RotateSigningKeyResponse = SuccessResponse<InferResponseType<typeof $rotateSigningKey>>;
 
-export async function rotateSigningKey(): Promise<RotateSigningKeyResponse> {
-  const resp = await apiClient.api["signing-keys"].rotate.$post({ param: {} });
+/**
+ * Rotate the signing key. The old key keeps signing requests for `overlapMs`
+ * (server default: 24 hours); `algorithm` defaults to the current key's.
+ */
+export async function rotateSigningKey(options: RotateSigningKeyRequest = {}): Promise<RotateSigningKeyResponse> {
+  const resp = await credentialsClient.api["signing-keys"].rotate.$post({ param: {}, query: {}, json: options });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+const $updateSigningKeySettings = credentialsClient.api["signing-keys"].$patch;
+export type UpdateSigningKeySettingsRequest = InferRequestType<typeof $updateSigningKeySettings>["json"];
+
+export async function updateSigningKeySettings(settings: UpdateSigningKeySettingsRequest): Promise<SigningKeyInfoResponse> {
+  const resp = await credentialsClient.api["signing-keys"].$patch({ param: {}, query: {}, json: settings });
   const json = await resp.json();
 
   if ("message" in json) {
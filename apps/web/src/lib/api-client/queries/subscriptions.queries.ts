@@ -12,8 +12,8 @@ type SuccessResponse<T> = Exclude<T, { message: string } | { error: string }>;
 const $getStatus = apiClient.api.subscriptions.status.$get;
 export type GetSubscriptionStatusResponse = SuccessResponse<InferResponseType<typeof $getStatus>>;
 
-export async function getSubscriptionStatus(): Promise<GetSubscriptionStatusResponse> {
-  const resp = await apiClient.api.subscriptions.status.$get({ param: {} });
+export async function getSubscriptionStatus(orgId?: string): Promise<GetSubscriptionStatusResponse> {
+  const resp = await apiClient.api.subscriptions.status.$get({ param: {}, query: { orgId } });
   const json = await resp.json();
 
   if ("error" in json) {
@@ -25,8 +25,8 @@ export async function getSubscriptionStatus(): Promise<GetSubscriptionStatusResp
 const $getUsage = apiClient.api.subscriptions.usage.$get;
 type GetUsageResponse = SuccessResponse<InferResponseType<typeof $getUsage>>;
 
-export async function getUsage(): Promise<GetUsageResponse> {
-  const resp = await apiClient.api.subscriptions.usage.$get({ param: {} });
+export async function getUsage(orgId?: string): Promise<GetUsageResponse> {
+  const resp = await apiClient.api.subscriptions.usage.$get({ param: {}, query: { orgId } });
   const json = await resp.json();
 
   if ("error" in json) {
@@ -57,10 +57,10 @@ export async function createCheckoutSession(data: CreateCheckoutRequest): Promis
 const $createPortal = apiClient.api.subscriptions.portal.$post;
 type CreatePortalResponse = SuccessResponse<InferResponseType<typeof $createPortal>>;
 
-export async function createPortalSession(): Promise<CreatePortalResponse> {
+export async function createPortalSession(orgId?: string): Promise<CreatePortalResponse> {
   const resp = await apiClient.api.subscriptions.portal.$post({
     param: {},
-    json: {},
+    json: { orgId },
   });
   const json = await resp.json();
 
@@ -96,7 +96,7 @@ export async function requestRefund(data?: RequestRefundRequest): Promise<Reques
 export function subscriptionStatusQueryOptions() {
   return queryOptions({
     queryKey: ["subscriptions", "status"] as const,
-    queryFn: getSubscriptionStatus,
+    queryFn: () => getSubscriptionStatus(),
     staleTime: 60000, // 60 seconds - subscription status doesn't change frequently
   });
 }
@@ -108,7 +108,7 @@ export function subscriptionStatusQueryOptions() {
 export function usageQueryOptions() {
   return queryOptions({
     queryKey: ["subscriptions", "usage"] as const,
-    queryFn: getUsage,
+    queryFn: () => getUsage(),
     staleTime: 30000, // 30 seconds - usage data can be slightly stale
   });
 }
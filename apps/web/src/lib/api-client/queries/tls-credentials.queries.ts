@@ -0,0 +1,79 @@
+import { queryOptions } from "@tanstack/react-query";
+import { credentialsClient } from "../api-client";
+import type { InferRequestType, InferResponseType } from "hono/client";
+
+
+// Type helper to extract success response (excludes error responses)
+type SuccessResponse<T> = Exclude<T, { message: string } | { success: boolean; error: unknown }>;
+
+/**
+ * TLS Credentials API Query Helpers
+ *
+ * Provides type-safe access to client certificates and CA bundles for outbound mTLS.
+ * Material is write-only: responses only ever carry certificate metadata.
+ */
+
+// ==================== Query Functions ====================
+
+const $listTlsCredentials = credentialsClient.api["tls-credentials"].$get;
+const $setTlsCredential = credentialsClient.api["tls-credentials"][":name"].$put;
+export type ListTlsCredentialsResponse = SuccessResponse<InferResponseType<typeof $listTlsCredentials>>;
+export type TlsCredential = ListTlsCredentialsResponse["credentials"][number];
+export type SetTlsCredentialRequest = InferRequestType<typeof $setTlsCredential>["json"];
+
+export async function listTlsCredentials(): Promise<ListTlsCredentialsResponse> {
+  const resp = await credentialsClient.api["tls-credentials"].$get({ param: {}, query: {} });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+// ==================== Mutation Functions ====================
+
+export async function setTlsCredential({ name, material }: { name: string; material: SetTlsCredentialRequest }): Promise<TlsCredential> {
+  const resp = await credentialsClient.api["tls-credentials"][":name"].$put({
+    param: { name },
+    query: {},
+    json: material,
+  });
+  const json = await resp.json();
+
+  if ("message" in json) {
+    throw new Error(json.message);
+  }
+  return json;
+}
+
+export async function deleteTlsCredential(name: string): Promise<void> {
+  const resp = await credentialsClient.api["tls-credentials"][":name"].$delete({
+    param: { name },
+    query: {},
+  });
+
+  if (!resp.ok) {
+    const json = await resp.json();
+    if ("message" in json) {
+      throw new Error(json.message);
+    }
+    throw new Error("Failed to delete TLS credential");
+  }
+}
+
+// ==================== Query Options Factories ====================
+
+export const TLS_CREDENTIALS_QUERY_KEY = ["tls-credentials"] as const;
+
+/**
+ * Query options for listing TLS credentials
+ * Usage: useSuspenseQuery(tlsCredentialsQueryOptions())
+ */
+export function tlsCredentialsQueryOptions() {
+  return queryOptions({
+    queryKey: TLS_CREDENTIALS_QUERY_KEY,
+    queryFn: () => listTlsCredentials(),
+    staleTime: 30000, // 30 seconds
+  });
+}
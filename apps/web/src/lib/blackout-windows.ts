@@ -0,0 +1,37 @@
+/**
+ * Blackout window summaries
+ * Formats job and endpoint blackout windows for display, e.g. "Sunday maintenance: Sun 02:00-04:00 (Europe/Berlin)"
+ */
+
+export type BlackoutWindow = {
+  name?: string;
+  timezone?: string;
+  daysOfWeek?: Array<number>;
+  dates?: Array<string>;
+  calendar?: "us-federal-holidays";
+  startTime?: string;
+  endTime?: string;
+};
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const CALENDAR_LABELS: Record<NonNullable<BlackoutWindow["calendar"]>, string> = {
+  "us-federal-holidays": "US federal holidays",
+};
+
+export function describeBlackoutWindow(window: BlackoutWindow): string {
+  const days: Array<string> = [];
+  if (window.daysOfWeek?.length) {
+    days.push([...window.daysOfWeek].sort((a, b) => a - b).map(day => DAY_NAMES[day] ?? String(day)).join(", "));
+  }
+  if (window.dates?.length) {
+    days.push(window.dates.join(", "));
+  }
+  if (window.calendar) {
+    days.push(CALENDAR_LABELS[window.calendar]);
+  }
+
+  const time = window.startTime && window.endTime ? `${window.startTime}-${window.endTime}` : "all day";
+  const summary = `${days.length > 0 ? days.join(", ") : "Every day"} ${time} (${window.timezone ?? "UTC"})`;
+  return window.name ? `${window.name}: ${summary}` : summary;
+}
@@ -0,0 +1,110 @@
+/**
+ * Dependency graph layout
+ * Positions a job's endpoints in columns by dependency depth for rendering the DAG
+ */
+
+export type DependencyGraphEndpoint = {
+  id: string;
+  name: string;
+  archivedAt?: string;
+  runAfter?: {
+    upstreamIds: Array<string>;
+    mode: "all" | "any";
+    delayMs?: number;
+  };
+};
+
+export type DependencyGraphNode = {
+  id: string;
+  name: string;
+  layer: number;
+  x: number;
+  y: number;
+};
+
+export type DependencyGraphEdge = {
+  fromId: string;
+  toId: string;
+  mode: "all" | "any";
+  delayMs?: number;
+};
+
+export type DependencyGraphLayout = {
+  nodes: Array<DependencyGraphNode>;
+  edges: Array<DependencyGraphEdge>;
+  width: number;
+  height: number;
+};
+
+export const GRAPH_NODE_WIDTH = 180;
+export const GRAPH_NODE_HEIGHT = 40;
+const COLUMN_GAP = 72;
+const ROW_GAP = 16;
+
+/**
+ * Lays out the endpoints that take part in a dependency, left to right in run order
+ *
+ * Each endpoint sits one column right of its deepest upstream. Endpoints without
+ * dependencies in either direction are left out; an empty layout means no DAG to show.
+ *
+ * @param endpoints - The job's endpoints (archived ones are ignored)
+ * @returns Node positions, edges and the overall size
+ */
+export function layoutDependencyGraph(endpoints: Array<DependencyGraphEndpoint>): DependencyGraphLayout {
+  const active = endpoints.filter(ep => !ep.archivedAt);
+  const byId = new Map(active.map(ep => [ep.id, ep]));
+
+  const edges: Array<DependencyGraphEdge> = active.flatMap(ep =>
+    (ep.runAfter?.upstreamIds ?? [])
+      .filter(upstreamId => byId.has(upstreamId))
+      .map(upstreamId => ({
+        fromId: upstreamId,
+        toId: ep.id,
+        mode: ep.runAfter!.mode,
+        delayMs: ep.runAfter!.delayMs,
+      })),
+  );
+
+  const linked = new Set(edges.flatMap(edge => [edge.fromId, edge.toId]));
+  const members = active.filter(ep => linked.has(ep.id));
+
+  // Longest path from a root; the visiting guard keeps a (rejected server-side) cycle from looping
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const layerOf = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) return known;
+    if (visiting.has(id)) return 0;
+
+    visiting.add(id);
+    const upstreams = edges.filter(edge => edge.toId === id).map(edge => edge.fromId);
+    const layer = upstreams.length === 0 ? 0 : Math.max(...upstreams.map(layerOf)) + 1;
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  const rowsPerLayer = new Map<number, number>();
+  const nodes = members.map((ep) => {
+    const layer = layerOf(ep.id);
+    const row = rowsPerLayer.get(layer) ?? 0;
+    rowsPerLayer.set(layer, row + 1);
+    return {
+      id: ep.id,
+      name: ep.name,
+      layer,
+      x: layer * (GRAPH_NODE_WIDTH + COLUMN_GAP),
+      y: row * (GRAPH_NODE_HEIGHT + ROW_GAP),
+    };
+  });
+
+  const columns = nodes.length > 0 ? Math.max(...nodes.map(node => node.layer)) + 1 : 0;
+  const rows = rowsPerLayer.size > 0 ? Math.max(...rowsPerLayer.values()) : 0;
+
+  return {
+    nodes,
+    edges,
+    width: columns > 0 ? columns * GRAPH_NODE_WIDTH + (columns - 1) * COLUMN_GAP : 0,
+    height: rows > 0 ? rows * GRAPH_NODE_HEIGHT + (rows - 1) * ROW_GAP : 0,
+  };
+}
@@ -11,7 +11,10 @@ export const headerSchema = z.object({
 const baseEndpointFields = {
     name: z.string().min(1, "Name is required"),
     description: z.string().optional(),
-    url: z.string().min(1, "URL is required"),
+    // "heartbeat" endpoints receive check-ins instead of making requests: the request fields are ignored
+    kind: z.enum(["http", "heartbeat"]),
+    graceMinutes: z.number().nonnegative().optional(),
+    url: z.string(),
     method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]),
     headers: z.array(headerSchema).optional(),
     bodyJson: z.string().optional(), // JSON string, validated on transform
@@ -21,6 +24,29 @@ const baseEndpointFields = {
     timeoutMs: z.number().int().positive().optional(),
     maxExecutionTimeMs: z.number().int().positive().max(1800000).optional(),
     maxResponseSizeKb: z.number().int().positive().optional(),
+    // In-run retries; fields not shown in the form (status codes, error classes, ...) pass through untouched
+    retryPolicy: z.object({
+        maxAttempts: z.number().int().min(1).max(10).optional(),
+        backoff: z.enum(["fixed", "exponential", "jittered"]).optional(),
+        initialDelayMs: z.number().int().nonnegative().optional(),
+    }).passthrough().optional(),
+    // Catch-up for missed runs; fields not shown in the form (thresholdMs) pass through untouched
+    misfirePolicy: z.object({
+        mode: z.enum(["skip", "run-once", "run-all"]).optional(),
+        maxBacklog: z.number().int().min(1).max(100).optional(),
+    }).passthrough().optional(),
+    concurrencyPolicy: z.enum(["allow", "forbid", "replace"]).optional(),
+    tlsCredentialName: z.string().optional(), // Name of a TLS credential; empty for none
+    authProfileName: z.string().optional(), // Name of an auth profile; empty for none
+    // Success criteria, edited as flat fields and assembled in the transform functions
+    successStatusCodes: z.string().optional(), // Comma-separated, e.g. "2xx, 304"
+    successMaxLatencyMs: z.number().int().positive().optional(),
+    successAssertions: z.string().optional(), // JSON array string, validated on transform
+    // Dependencies on other endpoints of the job, assembled into runAfter in the transform functions
+    upstreamIds: z.array(z.string()).optional(),
+    dependencyMode: z.enum(["all", "any"]).optional(),
+    dependencyDelaySeconds: z.number().int().nonnegative().optional(),
+    blackoutWindows: z.string().optional(), // JSON array string, validated on transform
 };
 
 // Minimal UI-only form schemas for presentation layer
@@ -35,6 +61,7 @@ const cronEndpointSchema = z.object({
     scheduleType: z.literal("cron"),
     ...baseEndpointFields,
     baselineCron: z.string().min(1, "Cron expression is required"),
+    timezone: z.string().optional(), // IANA zone; cron is evaluated in UTC when unset
 });
 
 export const createEndpointSchema = z.discriminatedUnion("scheduleType", [
@@ -46,6 +73,12 @@ export const createEndpointSchema = z.discriminatedUnion("scheduleType", [
         message: "Min interval must be less than or equal to max interval",
         path: ["minIntervalMinutes"],
     },
+).refine(
+    data => data.kind === "heartbeat" || data.url.length > 0,
+    {
+        message: "URL is required",
+        path: ["url"],
+    },
 );
 
 export const updateEndpointSchema = z.discriminatedUnion("scheduleType", [
@@ -57,6 +90,12 @@ export const updateEndpointSchema = z.discriminatedUnion("scheduleType", [
         message: "Min interval must be less than or equal to max interval",
         path: ["minIntervalMinutes"],
     },
+).refine(
+    data => data.kind === "heartbeat" || data.url.length > 0,
+    {
+        message: "URL is required",
+        path: ["url"],
+    },
 );
 
 export type CreateEndpointForm = z.infer<typeof createEndpointSchema>;
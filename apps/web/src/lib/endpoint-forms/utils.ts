@@ -6,6 +6,88 @@ import type { z } from "zod";
 type AddEndpointRequest = z.infer<typeof AddEndpointRequestSchema>;
 type UpdateEndpointRequest = z.infer<typeof UpdateEndpointRequestSchema>;
 
+/**
+ * Builds the API retry policy from the form's retry fields (defaults: exponential, 1s)
+ */
+function toRetryPolicy(retryPolicy: NonNullable<CreateEndpointForm["retryPolicy"]>): AddEndpointRequest["retryPolicy"] {
+    return {
+        ...retryPolicy,
+        maxAttempts: retryPolicy.maxAttempts ?? 1,
+        backoff: retryPolicy.backoff ?? "exponential",
+        initialDelayMs: retryPolicy.initialDelayMs ?? 1000,
+    };
+}
+
+/**
+ * Builds the API misfire policy from the form's fields (default: run-once).
+ * The backlog only applies to run-all and is dropped otherwise.
+ */
+function toMisfirePolicy(misfirePolicy: NonNullable<CreateEndpointForm["misfirePolicy"]>): AddEndpointRequest["misfirePolicy"] {
+    const mode = misfirePolicy.mode ?? "run-once";
+    return {
+        ...misfirePolicy,
+        mode,
+        maxBacklog: mode === "run-all" ? misfirePolicy.maxBacklog : undefined,
+    };
+}
+
+/**
+ * Builds the API success criteria from the form's flat success fields.
+ * Returns an empty object when nothing is set (the 2xx default).
+ */
+function toSuccessCriteria(data: CreateEndpointForm | UpdateEndpointForm): NonNullable<AddEndpointRequest["successCriteria"]> {
+    const criteria: NonNullable<AddEndpointRequest["successCriteria"]> = {};
+
+    const statusCodes = (data.successStatusCodes ?? "")
+        .split(",")
+        .map(code => code.trim())
+        .filter(Boolean);
+    if (statusCodes.length > 0) {
+        criteria.statusCodes = statusCodes;
+    }
+    if (data.successMaxLatencyMs) {
+        criteria.maxLatencyMs = data.successMaxLatencyMs;
+    }
+    if (data.successAssertions && data.successAssertions.trim()) {
+        try {
+            criteria.assertions = JSON.parse(data.successAssertions);
+        } catch (error) {
+            throw new Error(`Invalid JSON in response assertions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    return criteria;
+}
+
+/**
+ * Builds the API dependencies from the form's dependency fields (default mode: all).
+ * An empty upstream list removes the dependencies.
+ */
+function toRunAfter(data: CreateEndpointForm | UpdateEndpointForm): NonNullable<AddEndpointRequest["runAfter"]> {
+    const runAfter: NonNullable<AddEndpointRequest["runAfter"]> = {
+        upstreamIds: data.upstreamIds ?? [],
+        mode: data.dependencyMode ?? "all",
+    };
+    if (data.dependencyDelaySeconds) {
+        runAfter.delayMs = data.dependencyDelaySeconds * 1000;
+    }
+    return runAfter;
+}
+
+/**
+ * Parses the form's blackout windows JSON. Blank text means no windows.
+ */
+function toBlackoutWindows(text: string | undefined): NonNullable<AddEndpointRequest["blackoutWindows"]> {
+    if (!text || !text.trim()) {
+        return [];
+    }
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new Error(`Invalid JSON in blackout windows: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
 /**
  * Transforms and validates form data using API contract schemas
  * This ensures API contracts are the single source of truth for validation
@@ -14,16 +96,29 @@ export function transformCreatePayload(data: CreateEndpointForm): AddEndpointReq
     const payload: Partial<AddEndpointRequest> = {
         name: data.name,
         description: data.description,
-        url: data.url,
-        method: data.method,
+        kind: data.kind,
     };
 
     if (data.scheduleType === "interval") {
         payload.baselineIntervalMs = data.baselineIntervalMinutes * 60 * 1000;
     } else {
         payload.baselineCron = data.baselineCron;
+        if (data.timezone) {
+            payload.timezone = data.timezone;
+        }
+    }
+
+    // Heartbeats only need the expected cadence and a grace period
+    if (data.kind === "heartbeat") {
+        if (data.graceMinutes !== undefined) {
+            payload.graceMs = data.graceMinutes * 60 * 1000;
+        }
+        return AddEndpointRequestSchema.parse(payload);
     }
 
+    payload.url = data.url;
+    payload.method = data.method;
+
     // Transform headers array to headersJson object
     if (data.headers && data.headers.length > 0) {
         payload.headersJson = data.headers.reduce((acc, header) => {
@@ -59,6 +154,32 @@ export function transformCreatePayload(data: CreateEndpointForm): AddEndpointReq
     if (data.maxResponseSizeKb) {
         payload.maxResponseSizeKb = data.maxResponseSizeKb;
     }
+    if (data.retryPolicy?.maxAttempts && data.retryPolicy.maxAttempts > 1) {
+        payload.retryPolicy = toRetryPolicy(data.retryPolicy);
+    }
+    if (data.misfirePolicy?.mode) {
+        payload.misfirePolicy = toMisfirePolicy(data.misfirePolicy);
+    }
+    if (data.concurrencyPolicy && data.concurrencyPolicy !== "allow") {
+        payload.concurrencyPolicy = data.concurrencyPolicy;
+    }
+    if (data.tlsCredentialName) {
+        payload.tlsCredentialName = data.tlsCredentialName;
+    }
+    if (data.authProfileName) {
+        payload.authProfileName = data.authProfileName;
+    }
+    const successCriteria = toSuccessCriteria(data);
+    if (Object.keys(successCriteria).length > 0) {
+        payload.successCriteria = successCriteria;
+    }
+    if (data.upstreamIds && data.upstreamIds.length > 0) {
+        payload.runAfter = toRunAfter(data);
+    }
+    const blackoutWindows = toBlackoutWindows(data.blackoutWindows);
+    if (blackoutWindows.length > 0) {
+        payload.blackoutWindows = blackoutWindows;
+    }
 
     // Use API contract schema for validation - this is the single source of truth
     return AddEndpointRequestSchema.parse(payload);
@@ -72,8 +193,6 @@ export function transformUpdatePayload(data: UpdateEndpointForm): UpdateEndpoint
     const payload: Partial<UpdateEndpointRequest> = {
         name: data.name,
         description: data.description,
-        url: data.url,
-        method: data.method,
     };
 
     if (data.scheduleType === "interval") {
@@ -82,8 +201,20 @@ export function transformUpdatePayload(data: UpdateEndpointForm): UpdateEndpoint
     } else {
         payload.baselineCron = data.baselineCron;
         payload.baselineIntervalMs = undefined; // Clear interval when switching to cron
+        payload.timezone = data.timezone || "UTC";
+    }
+
+    // Heartbeats don't accept request fields; the kind itself can't change
+    if (data.kind === "heartbeat") {
+        if (data.graceMinutes !== undefined) {
+            payload.graceMs = data.graceMinutes * 60 * 1000;
+        }
+        return UpdateEndpointRequestSchema.parse(payload);
     }
 
+    payload.url = data.url;
+    payload.method = data.method;
+
     // Transform headers array to headersJson object
     if (data.headers && data.headers.length > 0) {
         payload.headersJson = data.headers.reduce((acc, header) => {
@@ -125,11 +256,33 @@ export function transformUpdatePayload(data: UpdateEndpointForm): UpdateEndpoint
     if (data.maxResponseSizeKb !== undefined) {
         payload.maxResponseSizeKb = data.maxResponseSizeKb;
     }
+    if (data.retryPolicy?.maxAttempts !== undefined) {
+        payload.retryPolicy = toRetryPolicy(data.retryPolicy); // maxAttempts 1 turns retries off
+    }
+    if (data.misfirePolicy?.mode !== undefined) {
+        payload.misfirePolicy = toMisfirePolicy(data.misfirePolicy);
+    }
+    if (data.concurrencyPolicy !== undefined) {
+        payload.concurrencyPolicy = data.concurrencyPolicy;
+    }
+    payload.tlsCredentialName = data.tlsCredentialName ?? ""; // Empty detaches the credential
+    payload.authProfileName = data.authProfileName ?? ""; // Empty detaches the profile
+    payload.successCriteria = toSuccessCriteria(data); // Empty criteria restore the 2xx default
+    payload.runAfter = toRunAfter(data); // No upstreams removes the dependencies
+    payload.blackoutWindows = toBlackoutWindows(data.blackoutWindows); // Blank clears the windows
 
     // Use API contract schema for validation - this is the single source of truth
     return UpdateEndpointRequestSchema.parse(payload);
 }
 
+/**
+ * IANA timezone names offered for cron schedules, with UTC first
+ */
+export function getTimezoneOptions(): Array<string> {
+    const zones = Intl.supportedValuesOf("timeZone").filter(zone => zone !== "UTC");
+    return ["UTC", ...zones];
+}
+
 /**
  * Converts API endpoint data to form format for editing
  */
@@ -149,12 +302,17 @@ export function endpointToFormData(endpoint: any) {
         scheduleType,
         name: endpoint.name,
         description: endpoint.description,
+        kind: endpoint.kind ?? "http",
+        graceMinutes: endpoint.graceMs !== undefined
+            ? endpoint.graceMs / 60000
+            : undefined,
         url: endpoint.url || "",
         method: endpoint.method || "GET",
         baselineIntervalMinutes: endpoint.baselineIntervalMs
             ? Math.round(endpoint.baselineIntervalMs / 60000)
             : undefined,
         baselineCron: endpoint.baselineCron || "",
+        timezone: endpoint.timezone || "UTC",
         headers: headersArray,
         bodyJson,
         // Advanced configuration (convert milliseconds to minutes)
@@ -167,5 +325,23 @@ export function endpointToFormData(endpoint: any) {
         timeoutMs: endpoint.timeoutMs,
         maxExecutionTimeMs: endpoint.maxExecutionTimeMs,
         maxResponseSizeKb: endpoint.maxResponseSizeKb,
+        retryPolicy: endpoint.retryPolicy,
+        misfirePolicy: endpoint.misfirePolicy,
+        concurrencyPolicy: endpoint.concurrencyPolicy,
+        tlsCredentialName: endpoint.tlsCredentialName ?? "",
+        authProfileName: endpoint.authProfileName ?? "",
+        successStatusCodes: endpoint.successCriteria?.statusCodes?.join(", ") ?? "",
+        successMaxLatencyMs: endpoint.successCriteria?.maxLatencyMs,
+        successAssertions: endpoint.successCriteria?.assertions?.length
+            ? JSON.stringify(endpoint.successCriteria.assertions, null, 2)
+            : "",
+        upstreamIds: endpoint.runAfter?.upstreamIds ?? [],
+        dependencyMode: endpoint.runAfter?.mode ?? "all",
+        dependencyDelaySeconds: endpoint.runAfter?.delayMs !== undefined
+            ? Math.round(endpoint.runAfter.delayMs / 1000)
+            : undefined,
+        blackoutWindows: endpoint.blackoutWindows?.length
+            ? JSON.stringify(endpoint.blackoutWindows, null, 2)
+            : "",
     };
 }
\ No newline at end of file
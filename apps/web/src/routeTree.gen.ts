@@ -18,17 +18,25 @@ import { Route as PublicPricingRouteImport } from './routes/_public/pricing'
 import { Route as PublicLoginRouteImport } from './routes/_public/login'
 import { Route as PublicFaqRouteImport } from './routes/_public/faq'
 import { Route as AuthedUsageRouteImport } from './routes/_authed/usage'
+import { Route as AuthedTlsCredentialsRouteImport } from './routes/_authed/tls-credentials'
 import { Route as AuthedSigningKeysRouteImport } from './routes/_authed/signing-keys'
 import { Route as AuthedSettingsRouteImport } from './routes/_authed/settings'
+import { Route as AuthedSecretsRouteImport } from './routes/_authed/secrets'
 import { Route as AuthedPlanRouteImport } from './routes/_authed/plan'
 import { Route as AuthedDashboardRouteImport } from './routes/_authed/dashboard'
+import { Route as AuthedAuthProfilesRouteImport } from './routes/_authed/auth-profiles'
+import { Route as AuthedAuditLogRouteImport } from './routes/_authed/audit-log'
 import { Route as AuthedApiKeysRouteImport } from './routes/_authed/api-keys'
 import { Route as AuthedSettingsIndexRouteImport } from './routes/_authed/settings.index'
+import { Route as AuthedOrganizationsIndexRouteImport } from './routes/_authed/organizations.index'
 import { Route as AuthedJobsIndexRouteImport } from './routes/_authed/jobs.index'
+import { Route as AuthedSettingsNotificationsRouteImport } from './routes/_authed/settings.notifications'
 import { Route as AuthedSettingsConnectedDevicesRouteImport } from './routes/_authed/settings.connected-devices'
 import { Route as AuthedRunsIdRouteImport } from './routes/_authed/runs.$id'
+import { Route as AuthedOrganizationsIdRouteImport } from './routes/_authed/organizations.$id'
 import { Route as AuthedJobsNewRouteImport } from './routes/_authed/jobs.new'
 import { Route as AuthedJobsIdRouteImport } from './routes/_authed/jobs.$id'
+import { Route as AuthedInvitationsAcceptRouteImport } from './routes/_authed/invitations.accept'
 import { Route as AuthedEndpointsIdRouteImport } from './routes/_authed/endpoints.$id'
 import { Route as AuthedDeviceApproveRouteImport } from './routes/_authed/device.approve'
 import { Route as AuthedAiSessionsIdRouteImport } from './routes/_authed/ai-sessions.$id'
@@ -84,6 +92,11 @@ const AuthedUsageRoute = AuthedUsageRouteImport.update({
   path: '/usage',
   getParentRoute: () => AuthedRoute,
 } as any)
+const AuthedTlsCredentialsRoute = AuthedTlsCredentialsRouteImport.update({
+  id: '/tls-credentials',
+  path: '/tls-credentials',
+  getParentRoute: () => AuthedRoute,
+} as any)
 const AuthedSigningKeysRoute = AuthedSigningKeysRouteImport.update({
   id: '/signing-keys',
   path: '/signing-keys',
@@ -94,6 +107,11 @@ const AuthedSettingsRoute = AuthedSettingsRouteImport.update({
   path: '/settings',
   getParentRoute: () => AuthedRoute,
 } as any)
+const AuthedSecretsRoute = AuthedSecretsRouteImport.update({
+  id: '/secrets',
+  path: '/secrets',
+  getParentRoute: () => AuthedRoute,
+} as any)
 const AuthedPlanRoute = AuthedPlanRouteImport.update({
   id: '/plan',
   path: '/plan',
@@ -104,6 +122,16 @@ const AuthedDashboardRoute = AuthedDashboardRouteImport.update({
   path: '/dashboard',
   getParentRoute: () => AuthedRoute,
 } as any)
+const AuthedAuthProfilesRoute = AuthedAuthProfilesRouteImport.update({
+  id: '/auth-profiles',
+  path: '/auth-profiles',
+  getParentRoute: () => AuthedRoute,
+} as any)
+const AuthedAuditLogRoute = AuthedAuditLogRouteImport.update({
+  id: '/audit-log',
+  path: '/audit-log',
+  getParentRoute: () => AuthedRoute,
+} as any)
 const AuthedApiKeysRoute = AuthedApiKeysRouteImport.update({
   id: '/api-keys',
   path: '/api-keys',
@@ -114,11 +142,23 @@ const AuthedSettingsIndexRoute = AuthedSettingsIndexRouteImport.update({
   path: '/',
   getParentRoute: () => AuthedSettingsRoute,
 } as any)
+const AuthedOrganizationsIndexRoute =
+  AuthedOrganizationsIndexRouteImport.update({
+    id: '/organizations/',
+    path: '/organizations/',
+    getParentRoute: () => AuthedRoute,
+  } as any)
 const AuthedJobsIndexRoute = AuthedJobsIndexRouteImport.update({
   id: '/jobs/',
   path: '/jobs/',
   getParentRoute: () => AuthedRoute,
 } as any)
+const AuthedSettingsNotificationsRoute =
+  AuthedSettingsNotificationsRouteImport.update({
+    id: '/notifications',
+    path: '/notifications',
+    getParentRoute: () => AuthedSettingsRoute,
+  } as any)
 const AuthedSettingsConnectedDevicesRoute =
   AuthedSettingsConnectedDevicesRouteImport.update({
     id: '/connected-devices',
@@ -130,6 +170,11 @@ const AuthedRunsIdRoute = AuthedRunsIdRouteImport.update({
   path: '/runs/$id',
   getParentRoute: () => AuthedRoute,
 } as any)
+const AuthedOrganizationsIdRoute = AuthedOrganizationsIdRouteImport.update({
+  id: '/organizations/$id',
+  path: '/organizations/$id',
+  getParentRoute: () => AuthedRoute,
+} as any)
 const AuthedJobsNewRoute = AuthedJobsNewRouteImport.update({
   id: '/jobs/new',
   path: '/jobs/new',
@@ -140,6 +185,11 @@ const AuthedJobsIdRoute = AuthedJobsIdRouteImport.update({
   path: '/jobs/$id',
   getParentRoute: () => AuthedRoute,
 } as any)
+const AuthedInvitationsAcceptRoute = AuthedInvitationsAcceptRouteImport.update({
+  id: '/invitations/accept',
+  path: '/invitations/accept',
+  getParentRoute: () => AuthedRoute,
+} as any)
 const AuthedEndpointsIdRoute = AuthedEndpointsIdRouteImport.update({
   id: '/endpoints/$id',
   path: '/endpoints/$id',
@@ -200,10 +250,14 @@ const AuthedJobsJobIdEndpointsNewRoute =
 
 export interface FileRoutesByFullPath {
   '/api-keys': typeof AuthedApiKeysRoute
+  '/audit-log': typeof AuthedAuditLogRoute
+  '/auth-profiles': typeof AuthedAuthProfilesRoute
   '/dashboard': typeof AuthedDashboardRoute
   '/plan': typeof AuthedPlanRoute
+  '/secrets': typeof AuthedSecretsRoute
   '/settings': typeof AuthedSettingsRouteWithChildren
   '/signing-keys': typeof AuthedSigningKeysRoute
+  '/tls-credentials': typeof AuthedTlsCredentialsRoute
   '/usage': typeof AuthedUsageRoute
   '/faq': typeof PublicFaqRoute
   '/login': typeof PublicLoginRoute
@@ -214,11 +268,15 @@ export interface FileRoutesByFullPath {
   '/ai-sessions/$id': typeof AuthedAiSessionsIdRoute
   '/device/approve': typeof AuthedDeviceApproveRoute
   '/endpoints/$id': typeof AuthedEndpointsIdRouteWithChildren
+  '/invitations/accept': typeof AuthedInvitationsAcceptRoute
   '/jobs/$id': typeof AuthedJobsIdRouteWithChildren
   '/jobs/new': typeof AuthedJobsNewRoute
+  '/organizations/$id': typeof AuthedOrganizationsIdRoute
   '/runs/$id': typeof AuthedRunsIdRoute
   '/settings/connected-devices': typeof AuthedSettingsConnectedDevicesRoute
+  '/settings/notifications': typeof AuthedSettingsNotificationsRoute
   '/jobs': typeof AuthedJobsIndexRoute
+  '/organizations': typeof AuthedOrganizationsIndexRoute
   '/settings/': typeof AuthedSettingsIndexRoute
   '/endpoints/$id/ai-sessions': typeof AuthedEndpointsIdAiSessionsRoute
   '/endpoints/$id/edit': typeof AuthedEndpointsIdEditRoute
@@ -231,9 +289,13 @@ export interface FileRoutesByFullPath {
 }
 export interface FileRoutesByTo {
   '/api-keys': typeof AuthedApiKeysRoute
+  '/audit-log': typeof AuthedAuditLogRoute
+  '/auth-profiles': typeof AuthedAuthProfilesRoute
   '/dashboard': typeof AuthedDashboardRoute
   '/plan': typeof AuthedPlanRoute
+  '/secrets': typeof AuthedSecretsRoute
   '/signing-keys': typeof AuthedSigningKeysRoute
+  '/tls-credentials': typeof AuthedTlsCredentialsRoute
   '/usage': typeof AuthedUsageRoute
   '/faq': typeof PublicFaqRoute
   '/login': typeof PublicLoginRoute
@@ -243,10 +305,14 @@ export interface FileRoutesByTo {
   '/': typeof PublicIndexRoute
   '/ai-sessions/$id': typeof AuthedAiSessionsIdRoute
   '/device/approve': typeof AuthedDeviceApproveRoute
+  '/invitations/accept': typeof AuthedInvitationsAcceptRoute
   '/jobs/new': typeof AuthedJobsNewRoute
+  '/organizations/$id': typeof AuthedOrganizationsIdRoute
   '/runs/$id': typeof AuthedRunsIdRoute
   '/settings/connected-devices': typeof AuthedSettingsConnectedDevicesRoute
+  '/settings/notifications': typeof AuthedSettingsNotificationsRoute
   '/jobs': typeof AuthedJobsIndexRoute
+  '/organizations': typeof AuthedOrganizationsIndexRoute
   '/settings': typeof AuthedSettingsIndexRoute
   '/endpoints/$id/ai-sessions': typeof AuthedEndpointsIdAiSessionsRoute
   '/endpoints/$id/edit': typeof AuthedEndpointsIdEditRoute
@@ -262,10 +328,14 @@ export interface FileRoutesById {
   '/_authed': typeof AuthedRouteWithChildren
   '/_public': typeof PublicRouteWithChildren
   '/_authed/api-keys': typeof AuthedApiKeysRoute
+  '/_authed/audit-log': typeof AuthedAuditLogRoute
+  '/_authed/auth-profiles': typeof AuthedAuthProfilesRoute
   '/_authed/dashboard': typeof AuthedDashboardRoute
   '/_authed/plan': typeof AuthedPlanRoute
+  '/_authed/secrets': typeof AuthedSecretsRoute
   '/_authed/settings': typeof AuthedSettingsRouteWithChildren
   '/_authed/signing-keys': typeof AuthedSigningKeysRoute
+  '/_authed/tls-credentials': typeof AuthedTlsCredentialsRoute
   '/_authed/usage': typeof AuthedUsageRoute
   '/_public/faq': typeof PublicFaqRoute
   '/_public/login': typeof PublicLoginRoute
@@ -276,11 +346,15 @@ export interface FileRoutesById {
   '/_authed/ai-sessions/$id': typeof AuthedAiSessionsIdRoute
   '/_authed/device/approve': typeof AuthedDeviceApproveRoute
   '/_authed/endpoints/$id': typeof AuthedEndpointsIdRouteWithChildren
+  '/_authed/invitations/accept': typeof AuthedInvitationsAcceptRoute
   '/_authed/jobs/$id': typeof AuthedJobsIdRouteWithChildren
   '/_authed/jobs/new': typeof AuthedJobsNewRoute
+  '/_authed/organizations/$id': typeof AuthedOrganizationsIdRoute
   '/_authed/runs/$id': typeof AuthedRunsIdRoute
   '/_authed/settings/connected-devices': typeof AuthedSettingsConnectedDevicesRoute
+  '/_authed/settings/notifications': typeof AuthedSettingsNotificationsRoute
   '/_authed/jobs/': typeof AuthedJobsIndexRoute
+  '/_authed/organizations/': typeof AuthedOrganizationsIndexRoute
   '/_authed/settings/': typeof AuthedSettingsIndexRoute
   '/_authed/endpoints/$id/ai-sessions': typeof AuthedEndpointsIdAiSessionsRoute
   '/_authed/endpoints/$id/edit': typeof AuthedEndpointsIdEditRoute
@@ -295,10 +369,14 @@ export interface FileRouteTypes {
   fileRoutesByFullPath: FileRoutesByFullPath
   fullPaths:
     | '/api-keys'
+    | '/audit-log'
+    | '/auth-profiles'
     | '/dashboard'
     | '/plan'
+    | '/secrets'
     | '/settings'
     | '/signing-keys'
+    | '/tls-credentials'
     | '/usage'
     | '/faq'
     | '/login'
@@ -309,11 +387,15 @@ export interface FileRouteTypes {
     | '/ai-sessions/$id'
     | '/device/approve'
     | '/endpoints/$id'
+    | '/invitations/accept'
     | '/jobs/$id'
     | '/jobs/new'
+    | '/organizations/$id'
     | '/runs/$id'
     | '/settings/connected-devices'
+    | '/settings/notifications'
     | '/jobs'
+    | '/organizations'
     | '/settings/'
     | '/endpoints/$id/ai-sessions'
     | '/endpoints/$id/edit'
@@ -326,9 +408,13 @@ export interface FileRouteTypes {
   fileRoutesByTo: FileRoutesByTo
   to:
     | '/api-keys'
+    | '/audit-log'
+    | '/auth-profiles'
     | '/dashboard'
     | '/plan'
+    | '/secrets'
     | '/signing-keys'
+    | '/tls-credentials'
     | '/usage'
     | '/faq'
     | '/login'
@@ -338,10 +424,14 @@ export interface FileRouteTypes {
     | '/'
     | '/ai-sessions/$id'
     | '/device/approve'
+    | '/invitations/accept'
     | '/jobs/new'
+    | '/organizations/$id'
     | '/runs/$id'
     | '/settings/connected-devices'
+    | '/settings/notifications'
     | '/jobs'
+    | '/organizations'
     | '/settings'
     | '/endpoints/$id/ai-sessions'
     | '/endpoints/$id/edit'
@@ -356,10 +446,14 @@ export interface FileRouteTypes {
     | '/_authed'
     | '/_public'
     | '/_authed/api-keys'
+    | '/_authed/audit-log'
+    | '/_authed/auth-profiles'
     | '/_authed/dashboard'
     | '/_authed/plan'
+    | '/_authed/secrets'
     | '/_authed/settings'
     | '/_authed/signing-keys'
+    | '/_authed/tls-credentials'
     | '/_authed/usage'
     | '/_public/faq'
     | '/_public/login'
@@ -370,11 +464,15 @@ export interface FileRouteTypes {
     | '/_authed/ai-sessions/$id'
     | '/_authed/device/approve'
     | '/_authed/endpoints/$id'
+    | '/_authed/invitations/accept'
     | '/_authed/jobs/$id'
     | '/_authed/jobs/new'
+    | '/_authed/organizations/$id'
     | '/_authed/runs/$id'
     | '/_authed/settings/connected-devices'
+    | '/_authed/settings/notifications'
     | '/_authed/jobs/'
+    | '/_authed/organizations/'
     | '/_authed/settings/'
     | '/_authed/endpoints/$id/ai-sessions'
     | '/_authed/endpoints/$id/edit'
@@ -456,6 +554,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedUsageRouteImport
       parentRoute: typeof AuthedRoute
     }
+    '/_authed/tls-credentials': {
+      id: '/_authed/tls-credentials'
+      path: '/tls-credentials'
+      fullPath: '/tls-credentials'
+      preLoaderRoute: typeof AuthedTlsCredentialsRouteImport
+      parentRoute: typeof AuthedRoute
+    }
     '/_authed/signing-keys': {
       id: '/_authed/signing-keys'
       path: '/signing-keys'
@@ -470,6 +575,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedSettingsRouteImport
       parentRoute: typeof AuthedRoute
     }
+    '/_authed/secrets': {
+      id: '/_authed/secrets'
+      path: '/secrets'
+      fullPath: '/secrets'
+      preLoaderRoute: typeof AuthedSecretsRouteImport
+      parentRoute: typeof AuthedRoute
+    }
     '/_authed/plan': {
       id: '/_authed/plan'
       path: '/plan'
@@ -484,6 +596,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedDashboardRouteImport
       parentRoute: typeof AuthedRoute
     }
+    '/_authed/auth-profiles': {
+      id: '/_authed/auth-profiles'
+      path: '/auth-profiles'
+      fullPath: '/auth-profiles'
+      preLoaderRoute: typeof AuthedAuthProfilesRouteImport
+      parentRoute: typeof AuthedRoute
+    }
+    '/_authed/audit-log': {
+      id: '/_authed/audit-log'
+      path: '/audit-log'
+      fullPath: '/audit-log'
+      preLoaderRoute: typeof AuthedAuditLogRouteImport
+      parentRoute: typeof AuthedRoute
+    }
     '/_authed/api-keys': {
       id: '/_authed/api-keys'
       path: '/api-keys'
@@ -498,6 +624,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedSettingsIndexRouteImport
       parentRoute: typeof AuthedSettingsRoute
     }
+    '/_authed/organizations/': {
+      id: '/_authed/organizations/'
+      path: '/organizations'
+      fullPath: '/organizations'
+      preLoaderRoute: typeof AuthedOrganizationsIndexRouteImport
+      parentRoute: typeof AuthedRoute
+    }
     '/_authed/jobs/': {
       id: '/_authed/jobs/'
       path: '/jobs'
@@ -505,6 +638,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedJobsIndexRouteImport
       parentRoute: typeof AuthedRoute
     }
+    '/_authed/settings/notifications': {
+      id: '/_authed/settings/notifications'
+      path: '/notifications'
+      fullPath: '/settings/notifications'
+      preLoaderRoute: typeof AuthedSettingsNotificationsRouteImport
+      parentRoute: typeof AuthedSettingsRoute
+    }
     '/_authed/settings/connected-devices': {
       id: '/_authed/settings/connected-devices'
       path: '/connected-devices'
@@ -519,6 +659,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedRunsIdRouteImport
       parentRoute: typeof AuthedRoute
     }
+    '/_authed/organizations/$id': {
+      id: '/_authed/organizations/$id'
+      path: '/organizations/$id'
+      fullPath: '/organizations/$id'
+      preLoaderRoute: typeof AuthedOrganizationsIdRouteImport
+      parentRoute: typeof AuthedRoute
+    }
     '/_authed/jobs/new': {
       id: '/_authed/jobs/new'
       path: '/jobs/new'
@@ -533,6 +680,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof AuthedJobsIdRouteImport
       parentRoute: typeof AuthedRoute
     }
+    '/_authed/invitations/accept': {
+      id: '/_authed/invitations/accept'
+      path: '/invitations/accept'
+      fullPath: '/invitations/accept'
+      preLoaderRoute: typeof AuthedInvitationsAcceptRouteImport
+      parentRoute: typeof AuthedRoute
+    }
     '/_authed/endpoints/$id': {
       id: '/_authed/endpoints/$id'
       path: '/endpoints/$id'
@@ -615,11 +769,13 @@ declare module '@tanstack/react-router' {
 
 interface AuthedSettingsRouteChildren {
   AuthedSettingsConnectedDevicesRoute: typeof AuthedSettingsConnectedDevicesRoute
+  AuthedSettingsNotificationsRoute: typeof AuthedSettingsNotificationsRoute
   AuthedSettingsIndexRoute: typeof AuthedSettingsIndexRoute
 }
 
 const AuthedSettingsRouteChildren: AuthedSettingsRouteChildren = {
   AuthedSettingsConnectedDevicesRoute: AuthedSettingsConnectedDevicesRoute,
+  AuthedSettingsNotificationsRoute: AuthedSettingsNotificationsRoute,
   AuthedSettingsIndexRoute: AuthedSettingsIndexRoute,
 }
 
@@ -662,35 +818,49 @@ const AuthedJobsIdRouteWithChildren = AuthedJobsIdRoute._addFileChildren(
 
 interface AuthedRouteChildren {
   AuthedApiKeysRoute: typeof AuthedApiKeysRoute
+  AuthedAuditLogRoute: typeof AuthedAuditLogRoute
+  AuthedAuthProfilesRoute: typeof AuthedAuthProfilesRoute
   AuthedDashboardRoute: typeof AuthedDashboardRoute
   AuthedPlanRoute: typeof AuthedPlanRoute
+  AuthedSecretsRoute: typeof AuthedSecretsRoute
   AuthedSettingsRoute: typeof AuthedSettingsRouteWithChildren
   AuthedSigningKeysRoute: typeof AuthedSigningKeysRoute
+  AuthedTlsCredentialsRoute: typeof AuthedTlsCredentialsRoute
   AuthedUsageRoute: typeof AuthedUsageRoute
   AuthedAiSessionsIdRoute: typeof AuthedAiSessionsIdRoute
   AuthedDeviceApproveRoute: typeof AuthedDeviceApproveRoute
   AuthedEndpointsIdRoute: typeof AuthedEndpointsIdRouteWithChildren
+  AuthedInvitationsAcceptRoute: typeof AuthedInvitationsAcceptRoute
   AuthedJobsIdRoute: typeof AuthedJobsIdRouteWithChildren
   AuthedJobsNewRoute: typeof AuthedJobsNewRoute
+  AuthedOrganizationsIdRoute: typeof AuthedOrganizationsIdRoute
   AuthedRunsIdRoute: typeof AuthedRunsIdRoute
   AuthedJobsIndexRoute: typeof AuthedJobsIndexRoute
+  AuthedOrganizationsIndexRoute: typeof AuthedOrganizationsIndexRoute
   AuthedJobsJobIdEndpointsNewRoute: typeof AuthedJobsJobIdEndpointsNewRoute
 }
 
 const AuthedRouteChildren: AuthedRouteChildren = {
   AuthedApiKeysRoute: AuthedApiKeysRoute,
+  AuthedAuditLogRoute: AuthedAuditLogRoute,
+  AuthedAuthProfilesRoute: AuthedAuthProfilesRoute,
   AuthedDashboardRoute: AuthedDashboardRoute,
   AuthedPlanRoute: AuthedPlanRoute,
+  AuthedSecretsRoute: AuthedSecretsRoute,
   AuthedSettingsRoute: AuthedSettingsRouteWithChildren,
   AuthedSigningKeysRoute: AuthedSigningKeysRoute,
+  AuthedTlsCredentialsRoute: AuthedTlsCredentialsRoute,
   AuthedUsageRoute: AuthedUsageRoute,
   AuthedAiSessionsIdRoute: AuthedAiSessionsIdRoute,
   AuthedDeviceApproveRoute: AuthedDeviceApproveRoute,
   AuthedEndpointsIdRoute: AuthedEndpointsIdRouteWithChildren,
+  AuthedInvitationsAcceptRoute: AuthedInvitationsAcceptRoute,
   AuthedJobsIdRoute: AuthedJobsIdRouteWithChildren,
   AuthedJobsNewRoute: AuthedJobsNewRoute,
+  AuthedOrganizationsIdRoute: AuthedOrganizationsIdRoute,
   AuthedRunsIdRoute: AuthedRunsIdRoute,
   AuthedJobsIndexRoute: AuthedJobsIndexRoute,
+  AuthedOrganizationsIndexRoute: AuthedOrganizationsIndexRoute,
   AuthedJobsJobIdEndpointsNewRoute: AuthedJobsJobIdEndpointsNewRoute,
 }
 
@@ -726,6 +896,7 @@ export const routeTree = rootRouteImport
   ._addFileChildren(rootRouteChildren)
   ._addFileTypes<FileRouteTypes>()
 
+
 import type { getRouter } from './router.tsx'
 import type { createStart } from '@tanstack/react-start'
 declare module '@tanstack/react-start' {
@@ -31,7 +31,8 @@ export const Route = createFileRoute("/_authed")({
         throw redirect({
           to: '/login',
           search: {
-            redirect: window.location.pathname,
+            // Keep the query string (e.g. invitation tokens) through the login round trip
+            redirect: window.location.pathname + window.location.search,
           },
         });
       }
@@ -48,7 +49,7 @@ export const Route = createFileRoute("/_authed")({
       throw redirect({
         to: '/login',
         search: {
-          redirect: window.location.pathname,
+          redirect: window.location.pathname + window.location.search,
         },
       });
     }
@@ -4,6 +4,7 @@ import { AlertTriangle, Brain, Clock, ExternalLink, Zap } from "lucide-react";
 
 import { Badge } from "@cronicorn/ui-library/components/badge";
 import { CodeDisplay } from "../../components/composed/code-display";
+import { TraceLink } from "../../components/composed/trace-link";
 import { PageSection } from "../../components/primitives/page-section";
 import { DetailSection } from "../../components/cards/detail-section";
 import { InfoField, InfoGrid } from "../../components/cards/info-grid";
@@ -66,6 +67,9 @@ function AISessionDetailsPage() {
                 }
               />
             )}
+            {session.traceId && (
+              <InfoField label="Trace" value={<TraceLink traceId={session.traceId} />} />
+            )}
           </InfoGrid>
         </DetailSection>
 
@@ -0,0 +1,234 @@
+import { useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { History } from "lucide-react";
+import { z } from "zod";
+
+import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@cronicorn/ui-library/components/select";
+
+import type { AuditEvent, ListAuditEventsQuery } from "@/lib/api-client/queries/audit.queries";
+import { EmptyCTA } from "@/components/cards/empty-cta";
+import { ListCard } from "@/components/cards/list-card";
+import { PageHeader } from "@/components/composed/page-header";
+import { FilterGroup } from "@/components/primitives/filter-group";
+import { InlineBadge } from "@/components/primitives/inline-badge";
+import { PageSection } from "@/components/primitives/page-section";
+import { auditEventsQueryOptions } from "@/lib/api-client/queries/audit.queries";
+import { organizationsQueryOptions } from "@/lib/api-client/queries/orgs.queries";
+
+const PAGE_SIZE = 25;
+
+const ACTOR_LABELS = {
+  user: "User",
+  api_key: "API key",
+  device: "Device",
+  ai_session: "AI session",
+} as const;
+
+const ACTIONS = [
+  "job.created",
+  "job.updated",
+  "job.archived",
+  "job.paused",
+  "job.resumed",
+  "endpoint.created",
+  "endpoint.updated",
+  "endpoint.archived",
+  "endpoint.deleted",
+  "endpoint.paused",
+  "endpoint.resumed",
+  "endpoint.interval_hint",
+  "endpoint.one_shot_hint",
+  "endpoint.hints_cleared",
+  "endpoint.failures_reset",
+  "endpoint.run_requested",
+  "endpoint.trigger_token_created",
+  "endpoint.trigger_token_rotated",
+  "endpoint.trigger_token_revoked",
+  "signing_key.created",
+  "signing_key.rotated",
+  "signing_key.updated",
+] as const;
+
+// "all" and "personal" are UI-only; they map to omitted query params
+const auditSearchSchema = z.object({
+  owner: z.string().optional().default("personal"),
+  actorType: z.enum(["all", "user", "api_key", "device", "ai_session"]).optional().default("all"),
+  action: z.enum(["all", ...ACTIONS]).optional().default("all"),
+  page: z.coerce.number().int().positive().optional().default(1),
+});
+
+type AuditSearch = z.infer<typeof auditSearchSchema>;
+
+function toQuery(search: AuditSearch): ListAuditEventsQuery {
+  return {
+    orgId: search.owner === "personal" ? undefined : search.owner,
+    actorType: search.actorType === "all" ? undefined : search.actorType,
+    action: search.action === "all" ? undefined : search.action,
+    limit: PAGE_SIZE,
+    offset: (search.page - 1) * PAGE_SIZE,
+  };
+}
+
+export const Route = createFileRoute("/_authed/audit-log")({
+  validateSearch: auditSearchSchema,
+  loaderDeps: ({ search }) => ({ search }),
+  loader: async ({ context: { queryClient }, deps }) => {
+    await Promise.all([
+      queryClient.ensureQueryData(auditEventsQueryOptions(toQuery(deps.search))),
+      queryClient.ensureQueryData(organizationsQueryOptions()),
+    ]);
+  },
+  component: AuditLogPage,
+});
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "—";
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function AuditEventCard({ event }: { event: AuditEvent }) {
+  const target = event.endpointId
+    ? `endpoint ${event.endpointId.substring(0, 8)}`
+    : event.jobId
+      ? `job ${event.jobId.substring(0, 8)}`
+      : null;
+
+  return (
+    <ListCard
+      icon={History}
+      hover={false}
+      title={<InlineBadge variant="code">{event.action}</InlineBadge>}
+      subtitle={target}
+      metadata={[
+        new Date(event.createdAt).toLocaleString(),
+        `${ACTOR_LABELS[event.actor.type]} ${event.actor.id.substring(0, 12)}`,
+      ]}
+      actions={event.changes.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {event.changes.map(change => (
+            <li key={change.field} className="break-all">
+              <span className="font-medium">{change.field}</span>
+              {": "}
+              <span className="text-muted-foreground line-through">{formatValue(change.before)}</span>
+              {" → "}
+              <span>{formatValue(change.after)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    />
+  );
+}
+
+function AuditLogPage() {
+  const search = Route.useSearch();
+  const navigate = Route.useNavigate();
+  const { data } = useSuspenseQuery(auditEventsQueryOptions(toQuery(search)));
+  const { data: orgs } = useSuspenseQuery(organizationsQueryOptions());
+
+  const pageCount = Math.max(1, Math.ceil(data.total / PAGE_SIZE));
+  const setFilter = (changes: Partial<AuditSearch>) => {
+    navigate({ search: (prev: AuditSearch) => ({ ...prev, ...changes, page: 1 }) });
+  };
+
+  return (
+    <>
+      <PageHeader
+        text="Audit Log"
+        description="Who changed jobs, endpoints and signing keys, and what changed"
+      />
+
+      <PageSection>
+        <FilterGroup>
+          <FilterGroup.Field label="Owner">
+            <Select value={search.owner} onValueChange={value => setFilter({ owner: value })}>
+              <SelectTrigger id="owner" className="w-[200px]">
+                <SelectValue placeholder="Personal" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="personal">Personal</SelectItem>
+                {orgs.organizations.map(org => (
+                  <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FilterGroup.Field>
+
+          <FilterGroup.Field label="Actor">
+            <Select value={search.actorType} onValueChange={value => setFilter({ actorType: value as AuditSearch["actorType"] })}>
+              <SelectTrigger id="actorType" className="w-[180px]">
+                <SelectValue placeholder="All actors" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actors</SelectItem>
+                {Object.entries(ACTOR_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FilterGroup.Field>
+
+          <FilterGroup.Field label="Action">
+            <Select value={search.action} onValueChange={value => setFilter({ action: value as AuditSearch["action"] })}>
+              <SelectTrigger id="action" className="w-[220px]">
+                <SelectValue placeholder="All actions" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {ACTIONS.map(action => (
+                  <SelectItem key={action} value={action}>{action}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </FilterGroup.Field>
+        </FilterGroup>
+
+        <div className="space-y-4">
+          {data.events.length ? (
+            data.events.map(event => <AuditEventCard key={event.id} event={event} />)
+          ) : (
+            <EmptyCTA
+              icon={History}
+              variant="centered"
+              title="No audit events"
+              description="Changes to jobs, endpoints and signing keys show up here."
+            />
+          )}
+        </div>
+
+        {data.total > PAGE_SIZE && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>Page {search.page} of {pageCount} ({data.total} events)</span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={search.page <= 1}
+                onClick={() => navigate({ search: (prev: AuditSearch) => ({ ...prev, page: search.page - 1 }) })}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={search.page >= pageCount}
+                onClick={() => navigate({ search: (prev: AuditSearch) => ({ ...prev, page: search.page + 1 }) })}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </PageSection>
+    </>
+  );
+}
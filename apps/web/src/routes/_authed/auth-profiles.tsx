@@ -0,0 +1,303 @@
+import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { KeySquare, Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@cronicorn/ui-library/components/alert-dialog";
+import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { Input } from "@cronicorn/ui-library/components/input";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { toast } from "@cronicorn/ui-library/lib/utils";
+
+import type { AuthProfile } from "@/lib/api-client/queries/auth-profiles.queries";
+import { EmptyCTA } from "@/components/cards/empty-cta";
+import { ListCard } from "@/components/cards/list-card";
+import { PageHeader } from "@/components/composed/page-header";
+import { InlineBadge } from "@/components/primitives/inline-badge";
+import { PageSection } from "@/components/primitives/page-section";
+import {
+  AUTH_PROFILES_QUERY_KEY,
+  authProfilesQueryOptions,
+  deleteAuthProfile,
+  setAuthProfile,
+} from "@/lib/api-client/queries/auth-profiles.queries";
+
+export const Route = createFileRoute("/_authed/auth-profiles")({
+  loader: ({ context: { queryClient } }) => {
+    return queryClient.ensureQueryData(authProfilesQueryOptions());
+  },
+  component: AuthProfilesPage,
+});
+
+const AUTH_PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+function describeProfile(profile: AuthProfile): Array<string> {
+  return [
+    `Client ${profile.clientId}`,
+    profile.tokenUrl,
+    profile.scopes.length > 0 ? `Scopes: ${profile.scopes.join(" ")}` : "",
+    profile.audience ? `Audience: ${profile.audience}` : "",
+  ].filter(Boolean);
+}
+
+function AuthProfilesPage() {
+  const queryClient = useQueryClient();
+  const { data } = useSuspenseQuery(authProfilesQueryOptions());
+
+  // null: closed, undefined: new profile, otherwise the profile being replaced
+  const [editing, setEditing] = useState<AuthProfile | undefined | null>(null);
+  const [profileToDelete, setProfileToDelete] = useState<AuthProfile | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAuthProfile,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...AUTH_PROFILES_QUERY_KEY] });
+      setProfileToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <>
+      <PageHeader
+        text="Auth Profiles"
+        description="OAuth2 client credentials for endpoints that require an access token"
+      />
+
+      <PageSection>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Alert className="flex-1">
+              <AlertDescription>
+                Select a profile under Authentication in an endpoint&apos;s settings. Requests are sent with
+                {" "}<code>Authorization: Bearer</code> and a token that&apos;s refreshed before it expires.
+                Client secrets are encrypted and can&apos;t be viewed after saving.
+              </AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={() => setEditing(undefined)}>
+              <Plus className="size-4" />
+              Add Profile
+            </Button>
+          </div>
+
+          {data.profiles.length ? (
+            data.profiles.map((profile) => (
+              <ListCard
+                key={profile.name}
+                icon={KeySquare}
+                hover={false}
+                title={<InlineBadge variant="code">{profile.name}</InlineBadge>}
+                metadata={describeProfile(profile)}
+                actions={
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(profile)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Replace
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setProfileToDelete(profile)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </div>
+                }
+              />
+            ))
+          ) : (
+            <EmptyCTA
+              icon={KeySquare}
+              variant="centered"
+              title="No auth profiles yet"
+              description="Add OAuth2 client credentials to call APIs that require an access token."
+            />
+          )}
+        </div>
+      </PageSection>
+
+      {editing !== null && (
+        <SetAuthProfileDialog
+          profile={editing}
+          onClose={() => setEditing(null)}
+          onSaved={() => queryClient.invalidateQueries({ queryKey: [...AUTH_PROFILES_QUERY_KEY] })}
+        />
+      )}
+
+      <AlertDialog open={!!profileToDelete} onOpenChange={(open) => !open && setProfileToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Auth Profile</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <span className="font-semibold">{profileToDelete?.name}</span>? Endpoints that use it
+              will fail until it&apos;s created again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => profileToDelete && deleteMutation.mutate(profileToDelete.name)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Profile"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+/**
+ * Creates a profile, or replaces one (prefilled, except for the client secret).
+ * Mounted only while open so the fields start from the profile being edited.
+ */
+function SetAuthProfileDialog({ profile, onClose, onSaved }: {
+  profile: AuthProfile | undefined;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const isReplacing = !!profile;
+  const [name, setName] = useState(profile?.name ?? "");
+  const [tokenUrl, setTokenUrl] = useState(profile?.tokenUrl ?? "");
+  const [clientId, setClientId] = useState(profile?.clientId ?? "");
+  const [clientSecret, setClientSecret] = useState("");
+  const [scopes, setScopes] = useState(profile?.scopes.join(" ") ?? "");
+  const [audience, setAudience] = useState(profile?.audience ?? "");
+
+  const saveMutation = useMutation({
+    mutationFn: setAuthProfile,
+    onSuccess: (saved) => {
+      toast.success(`Auth profile ${saved.name} saved`);
+      onSaved();
+      onClose();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const nameValid = AUTH_PROFILE_NAME_PATTERN.test(name);
+  const tokenUrlValid = tokenUrl.startsWith("https://");
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{isReplacing ? `Replace ${profile.name}` : "Add Auth Profile"}</DialogTitle>
+          <DialogDescription>
+            Tokens are requested from the token URL with the OAuth2 client credentials grant.
+            {isReplacing && " Enter the client secret again to replace the profile."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!isReplacing && (
+            <div className="space-y-2">
+              <Label htmlFor="auth-profile-name">Name</Label>
+              <Input
+                id="auth-profile-name"
+                value={name}
+                onChange={(e) => setName(e.target.value.toLowerCase())}
+                placeholder="billing-api"
+              />
+              {name && !nameValid && (
+                <p className="text-sm text-destructive">
+                  Use lower-case letters, digits, dashes and underscores, starting with a letter or digit.
+                </p>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="auth-profile-token-url">Token URL</Label>
+            <Input
+              id="auth-profile-token-url"
+              value={tokenUrl}
+              onChange={(e) => setTokenUrl(e.target.value.trim())}
+              placeholder="https://auth.example.com/oauth/token"
+            />
+            {tokenUrl && !tokenUrlValid && (
+              <p className="text-sm text-destructive">The token URL must use https.</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-profile-client-id">Client ID</Label>
+            <Input
+              id="auth-profile-client-id"
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+              autoComplete="off"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-profile-client-secret">Client Secret</Label>
+            <Input
+              id="auth-profile-client-secret"
+              type="password"
+              value={clientSecret}
+              onChange={(e) => setClientSecret(e.target.value)}
+              autoComplete="new-password"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-profile-scopes">Scopes (optional)</Label>
+            <Input
+              id="auth-profile-scopes"
+              value={scopes}
+              onChange={(e) => setScopes(e.target.value)}
+              placeholder="invoices:read invoices:write"
+            />
+            <p className="text-xs text-muted-foreground">Separate scopes with spaces.</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-profile-audience">Audience (optional)</Label>
+            <Input
+              id="auth-profile-audience"
+              value={audience}
+              onChange={(e) => setAudience(e.target.value.trim())}
+              placeholder="https://api.example.com"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate({
+              name,
+              profile: {
+                type: "oauth2-client-credentials",
+                tokenUrl,
+                clientId,
+                clientSecret,
+                scopes: scopes.split(/\s+/).filter(Boolean),
+                audience: audience || null,
+              },
+            })}
+            disabled={saveMutation.isPending || !nameValid || !tokenUrlValid || !clientId || !clientSecret}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Profile"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,7 @@ import { FilterBar } from "../../components/dashboard-new/filter-bar";
 import { JobActivityTimeline } from "../../components/dashboard-new/job-activity-timeline";
 import { JobHealthChart } from "../../components/dashboard-new/job-health-chart";
 import { SchedulingIntelligenceChart } from "../../components/dashboard-new/scheduling-intelligence-chart";
+import { SchedulingLagChart } from "../../components/dashboard-new/scheduling-lag-chart";
 import { PageHeader } from "../../components/composed/page-header";
 import { AISessionsChart } from "../../components/dashboard-new/ai-sessions-chart";
 import { AITokensChart } from "../../components/dashboard-new/ai-tokens-chart";
@@ -227,6 +228,9 @@ function DashboardPage() {
           endDate={endDate}
           onDateRangeChange={handleDateRangeChange}
         />
+        <SchedulingLagChart
+          data={dashboardData?.schedulingLag || []}
+        />
 
       </GridLayout>
       {/* Job Activity Timeline - Shows combined runs + AI sessions when a job is selected */}
@@ -1,5 +1,5 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { createFileRoute, getRouteApi, useRouter } from "@tanstack/react-router";
 import { AlertCircle, ChevronDown, ChevronUp, Plus, Save, X, Zap } from "lucide-react";
 import { useState } from "react";
@@ -9,6 +9,7 @@ import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert"
 import { Badge } from "@cronicorn/ui-library/components/badge";
 import { Button } from "@cronicorn/ui-library/components/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@cronicorn/ui-library/components/card";
+import { Checkbox } from "@cronicorn/ui-library/components/checkbox";
 import {
     Form,
     FormControl,
@@ -32,8 +33,12 @@ import { GridLayout } from "../../components/primitives/grid-layout";
 import type { UpdateEndpointForm } from "@/lib/endpoint-forms";
 import { AlertCard } from "@/components/cards/alert-card";
 import { updateEndpoint } from "@/lib/api-client/queries/endpoints.queries";
+import { authProfilesQueryOptions } from "@/lib/api-client/queries/auth-profiles.queries";
+import { tlsCredentialsQueryOptions } from "@/lib/api-client/queries/tls-credentials.queries";
+import { endpointsQueryOptions } from "@/lib/api-client/queries/jobs.queries";
 import {
     endpointToFormData,
+    getTimezoneOptions,
     transformUpdatePayload,
     updateEndpointSchema
 } from "@/lib/endpoint-forms";
@@ -42,6 +47,11 @@ export const Route = createFileRoute("/_authed/endpoints/$id/edit")({
     component: EditEndpointPage,
 });
 
+// Select items can't have an empty value; stands for "no TLS credential"
+const NO_TLS_CREDENTIAL = "none";
+// Likewise for "no auth profile"
+const NO_AUTH_PROFILE = "none";
+
 function EditEndpointPage() {
     const { id } = Route.useParams();
     const router = useRouter();
@@ -61,6 +71,13 @@ function EditEndpointPage() {
     });
 
     const watchedScheduleType = form.watch("scheduleType");
+    const isHeartbeat = endpoint.kind === "heartbeat";
+    const { data: endpointsData } = useQuery({ ...endpointsQueryOptions(endpoint.jobId ?? ""), enabled: !!endpoint.jobId });
+    const siblingEndpoints = endpointsData?.endpoints.filter(ep => ep.id !== id && !ep.archivedAt) ?? [];
+    const { data: tlsCredentialsData } = useQuery(tlsCredentialsQueryOptions());
+    const tlsCredentials = tlsCredentialsData?.credentials ?? [];
+    const { data: authProfilesData } = useQuery(authProfilesQueryOptions());
+    const authProfiles = authProfilesData?.profiles ?? [];
 
     const { mutateAsync: updateMutate, isPending: updatePending, error: updateError } = useMutation({
         mutationFn: async (data: UpdateEndpointForm) => {
@@ -192,54 +209,60 @@ function EditEndpointPage() {
                         )}
                     />
 
-                    <FormField
-                        control={form.control}
-                        name="url"
-                        render={({ field }) => (
-                            <FormItem>
-                                <FormLabel>URL</FormLabel>
-                                <FormControl>
-                                    <Input
-                                        type="url"
-                                        placeholder="https://api.example.com/users"
-                                        {...field}
-                                        disabled={updatePending}
-                                    />
-                                </FormControl>
-                                <FormDescription>The full URL to call for this endpoint</FormDescription>
-                                <FormMessage />
-                            </FormItem>
-                        )}
-                    />
+                    {!isHeartbeat && (
+                        <>
+                            <FormField
+                                control={form.control}
+                                name="url"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>URL</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="url"
+                                                placeholder="https://api.example.com/users"
+                                                {...field}
+                                                disabled={updatePending}
+                                            />
+                                        </FormControl>
+                                        <FormDescription>
+                                            The full URL to call for this endpoint. Use templates like {"{{ endpoints.extract.lastResponse.batch_id }}"} to pass values from other endpoints in this job
+                                        </FormDescription>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
 
-                    <FormField
-                        control={form.control}
-                        name="method"
-                        render={({ field }) => (
-                            <FormItem>
-                                <FormLabel>HTTP Method</FormLabel>
-                                <Select
-                                    onValueChange={field.onChange}
-                                    defaultValue={field.value}
-                                    disabled={updatePending}
-                                >
-                                    <FormControl>
-                                        <SelectTrigger>
-                                            <SelectValue placeholder="Select HTTP method" />
-                                        </SelectTrigger>
-                                    </FormControl>
-                                    <SelectContent>
-                                        <SelectItem value="GET">GET</SelectItem>
-                                        <SelectItem value="POST">POST</SelectItem>
-                                        <SelectItem value="PUT">PUT</SelectItem>
-                                        <SelectItem value="PATCH">PATCH</SelectItem>
-                                        <SelectItem value="DELETE">DELETE</SelectItem>
-                                    </SelectContent>
-                                </Select>
-                                <FormMessage />
-                            </FormItem>
-                        )}
-                    />
+                            <FormField
+                                control={form.control}
+                                name="method"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>HTTP Method</FormLabel>
+                                        <Select
+                                            onValueChange={field.onChange}
+                                            defaultValue={field.value}
+                                            disabled={updatePending}
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Select HTTP method" />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="GET">GET</SelectItem>
+                                                <SelectItem value="POST">POST</SelectItem>
+                                                <SelectItem value="PUT">PUT</SelectItem>
+                                                <SelectItem value="PATCH">PATCH</SelectItem>
+                                                <SelectItem value="DELETE">DELETE</SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </>
+                    )}
 
                     <FormField
                         control={form.control}
@@ -296,7 +319,9 @@ function EditEndpointPage() {
                                             }
                                         />
                                     </FormControl>
-                                    <FormDescription>How often should this endpoint run?</FormDescription>
+                                    <FormDescription>
+                                        {isHeartbeat ? "How often does your job check in?" : "How often should this endpoint run?"}
+                                    </FormDescription>
                                     <FormMessage />
                                 </FormItem>
                             )}
@@ -304,6 +329,7 @@ function EditEndpointPage() {
                     )}
 
                     {watchedScheduleType === "cron" && (
+                        <>
                         <FormField
                             control={form.control}
                             name="baselineCron"
@@ -325,248 +351,147 @@ function EditEndpointPage() {
                                 </FormItem>
                             )}
                         />
-                    )}
-
-                    <Card>
-                        <CardHeader>
-                            <CardTitle>Request Headers</CardTitle>
-                            <CardDescription>
-                                Add custom headers to be sent with each request
-                            </CardDescription>
-                        </CardHeader>
-                        <CardContent className="space-y-4">
-                            {headerFields.map((headerField, index) => (
-                                <FormFieldRow key={headerField.id}>
-                                    <FormField
-                                        control={form.control}
-                                        name={`headers.${index}.key`}
-                                        render={({ field }) => (
-                                            <FormItem className="flex-1">
-                                                {index === 0 && <FormLabel>Header Name</FormLabel>}
-                                                <FormControl>
-                                                    <Input
-                                                        placeholder="e.g., Authorization"
-                                                        {...field}
-                                                        disabled={updatePending}
-                                                    />
-                                                </FormControl>
-                                                <FormMessage />
-                                            </FormItem>
-                                        )}
-                                    />
-                                    <FormField
-                                        control={form.control}
-                                        name={`headers.${index}.value`}
-                                        render={({ field }) => (
-                                            <FormItem className="flex-1">
-                                                {index === 0 && <FormLabel>Header Value</FormLabel>}
-                                                <FormControl>
-                                                    <Input
-                                                        placeholder="e.g., Bearer your-token"
-                                                        {...field}
-                                                        disabled={updatePending}
-                                                    />
-                                                </FormControl>
-                                                <FormMessage />
-                                            </FormItem>
-                                        )}
-                                    />
-                                    <Button
-                                        type="button"
-                                        variant="outline"
-                                        size="icon"
-                                        onClick={() => removeHeader(index)}
+                        <FormField
+                            control={form.control}
+                            name="timezone"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Timezone</FormLabel>
+                                    <Select
+                                        onValueChange={field.onChange}
+                                        value={field.value || "UTC"}
                                         disabled={updatePending}
                                     >
-                                        <X className="size-4" />
-                                    </Button>
-                                </FormFieldRow>
-                            ))}
-
-                            <Button
-                                type="button"
-                                variant="outline"
-                                onClick={() => appendHeader({ key: "", value: "" })}
-                                disabled={updatePending}
-                            >
-                                <Plus className="size-4 mr-2" />
-                                Add Header
-                            </Button>
-
-                            {headerFields.length === 0 && (
-                                <p className="text-sm text-muted-foreground">
-                                    No custom headers configured. Click "Add Header" to add one.
-                                </p>
+                                        <FormControl>
+                                            <SelectTrigger>
+                                                <SelectValue placeholder="Select timezone" />
+                                            </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                            {getTimezoneOptions().map(zone => (
+                                                <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <FormDescription>
+                                        The cron expression runs on this timezone's local time, including daylight saving changes
+                                    </FormDescription>
+                                    <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        </>
+                    )}
+
+                    {isHeartbeat && (
+                        <FormField
+                            control={form.control}
+                            name="graceMinutes"
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>Grace Period (minutes)</FormLabel>
+                                    <FormControl>
+                                        <Input
+                                            type="number"
+                                            min="0"
+                                            placeholder="5"
+                                            {...field}
+                                            disabled={updatePending}
+                                            value={field.value ?? ""}
+                                            onChange={(e) =>
+                                                field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                            }
+                                        />
+                                    </FormControl>
+                                    <FormDescription>
+                                        How late a check-in may arrive before it counts as missed (default: 5 minutes)
+                                    </FormDescription>
+                                    <FormMessage />
+                                </FormItem>
                             )}
-                        </CardContent>
-                    </Card>
+                        />
+                    )}
 
-                    {/* Request Body (for POST/PUT/PATCH/DELETE) */}
-                    {form.watch("method") !== "GET" && (
+                    {/* Dependencies (HTTP endpoints only) */}
+                    {!isHeartbeat && siblingEndpoints.length > 0 && (
                         <Card className="mb-6">
                             <CardHeader>
-                                <CardTitle>Request Body</CardTitle>
+                                <CardTitle>Dependencies</CardTitle>
                                 <CardDescription>
-                                    JSON payload to send with {form.watch("method")} requests
+                                    Also run this endpoint when other endpoints of this job succeed. The schedule above keeps running as a fallback.
                                 </CardDescription>
                             </CardHeader>
-                            <CardContent>
+                            <CardContent className="space-y-4">
                                 <FormField
                                     control={form.control}
-                                    name="bodyJson"
+                                    name="upstreamIds"
                                     render={({ field }) => (
                                         <FormItem>
-                                            <FormLabel>JSON Body (Optional)</FormLabel>
-                                            <FormControl>
-                                                <Textarea
-                                                    placeholder={'{\n  "key": "value"\n}'}
-                                                    rows={8}
-                                                    className="font-mono text-sm"
-                                                    {...field}
-                                                    disabled={updatePending}
-                                                />
-                                            </FormControl>
-                                            <FormDescription>
-                                                Enter valid JSON. Will be parsed and validated before submission.
-                                            </FormDescription>
+                                            <FormLabel>Run after</FormLabel>
+                                            <div className="space-y-2">
+                                                {siblingEndpoints.map(sibling => (
+                                                    <div key={sibling.id} className="flex items-center gap-2">
+                                                        <Checkbox
+                                                            id={`upstream-${sibling.id}`}
+                                                            checked={(field.value ?? []).includes(sibling.id)}
+                                                            onCheckedChange={(checked) => {
+                                                                const current = field.value ?? [];
+                                                                field.onChange(checked === true
+                                                                    ? [...current, sibling.id]
+                                                                    : current.filter(upstreamId => upstreamId !== sibling.id));
+                                                            }}
+                                                            disabled={updatePending}
+                                                        />
+                                                        <Label htmlFor={`upstream-${sibling.id}`} className="font-normal">
+                                                            {sibling.name}
+                                                        </Label>
+                                                    </div>
+                                                ))}
+                                            </div>
                                             <FormMessage />
                                         </FormItem>
                                     )}
                                 />
-                            </CardContent>
-                        </Card>
-                    )}
 
-                    {/* Advanced Configuration */}
-                    <Card className="mb-6">
-                        <CardHeader>
-                            <div className="flex items-center justify-between">
-                                <div>
-                                    <CardTitle>Advanced Configuration</CardTitle>
-                                    <CardDescription>
-                                        Optional timeout, execution limits, and AI scheduling constraints
-                                    </CardDescription>
-                                </div>
-                                <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="sm"
-                                    onClick={() => setShowAdvanced(!showAdvanced)}
-                                >
-                                    {showAdvanced ? (
-                                        <>
-                                            <ChevronUp className="size-4 mr-1" />
-                                            Hide
-                                        </>
-                                    ) : (
-                                        <>
-                                            <ChevronDown className="size-4 mr-1" />
-                                            Show
-                                        </>
-                                    )}
-                                </Button>
-                            </div>
-                        </CardHeader>
-                        {showAdvanced && (
-                            <CardContent className="space-y-4">
-                                <GridLayout cols={1} md={2}>
-                                    <FormField
-                                        control={form.control}
-                                        name="timeoutMs"
-                                        render={({ field }) => (
-                                            <FormItem>
-                                                <FormLabel>Request Timeout (ms)</FormLabel>
-                                                <FormControl>
-                                                    <Input
-                                                        type="number"
-                                                        min="1"
-                                                        placeholder="e.g., 30000"
-                                                        {...field}
-                                                        disabled={updatePending}
-                                                        value={field.value ?? ""}
-                                                        onChange={(e) =>
-                                                            field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                                                        }
-                                                    />
-                                                </FormControl>
-                                                <FormDescription>
-                                                    HTTP request timeout in milliseconds
-                                                </FormDescription>
-                                                <FormMessage />
-                                            </FormItem>
-                                        )}
-                                    />
-
-                                    <FormField
-                                        control={form.control}
-                                        name="maxExecutionTimeMs"
-                                        render={({ field }) => (
-                                            <FormItem>
-                                                <FormLabel>Max Execution Time (ms)</FormLabel>
-                                                <FormControl>
-                                                    <Input
-                                                        type="number"
-                                                        min="1"
-                                                        max="1800000"
-                                                        placeholder="e.g., 60000 (1 min)"
-                                                        {...field}
-                                                        disabled={updatePending}
-                                                        value={field.value ?? ""}
-                                                        onChange={(e) =>
-                                                            field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                                                        }
-                                                    />
-                                                </FormControl>
-                                                <FormDescription>
-                                                    Lock duration for distributed execution (max: 30 min)
-                                                </FormDescription>
-                                                <FormMessage />
-                                            </FormItem>
-                                        )}
-                                    />
-
-                                    <FormField
-                                        control={form.control}
-                                        name="maxResponseSizeKb"
-                                        render={({ field }) => (
-                                            <FormItem>
-                                                <FormLabel>Max Response Size (KB)</FormLabel>
-                                                <FormControl>
-                                                    <Input
-                                                        type="number"
-                                                        min="1"
-                                                        placeholder="e.g., 1024"
-                                                        {...field}
-                                                        disabled={updatePending}
-                                                        value={field.value ?? ""}
-                                                        onChange={(e) =>
-                                                            field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                                                        }
-                                                    />
-                                                </FormControl>
-                                                <FormDescription>
-                                                    Maximum response body size to capture
-                                                </FormDescription>
-                                                <FormMessage />
-                                            </FormItem>
-                                        )}
-                                    />
-                                </GridLayout>
-
-                                <div className="pt-4 border-t">
-                                    <h4 className="text-sm font-medium mb-3">AI Scheduling Constraints</h4>
+                                {(form.watch("upstreamIds") ?? []).length > 0 && (
                                     <GridLayout cols={1} md={2}>
                                         <FormField
                                             control={form.control}
-                                            name="minIntervalMinutes"
+                                            name="dependencyMode"
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>Trigger when</FormLabel>
+                                                    <Select
+                                                        onValueChange={field.onChange}
+                                                        defaultValue={field.value ?? "all"}
+                                                        disabled={updatePending}
+                                                    >
+                                                        <FormControl>
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value="all">All upstreams succeed</SelectItem>
+                                                            <SelectItem value="any">Any upstream succeeds</SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                        <FormField
+                                            control={form.control}
+                                            name="dependencyDelaySeconds"
                                             render={({ field }) => (
                                                 <FormItem>
-                                                    <FormLabel>Min Interval (minutes)</FormLabel>
+                                                    <FormLabel>Delay (seconds)</FormLabel>
                                                     <FormControl>
                                                         <Input
                                                             type="number"
-                                                            min="1"
-                                                            placeholder="e.g., 5"
+                                                            min="0"
+                                                            max="86400"
+                                                            placeholder="0"
                                                             {...field}
                                                             disabled={updatePending}
                                                             value={field.value ?? ""}
@@ -575,45 +500,683 @@ function EditEndpointPage() {
                                                             }
                                                         />
                                                     </FormControl>
-                                                    <FormDescription>
-                                                        Minimum time between AI-adjusted runs
-                                                    </FormDescription>
+                                                    <FormDescription>Wait after the upstream finishes (max 24 hours)</FormDescription>
                                                     <FormMessage />
                                                 </FormItem>
                                             )}
                                         />
+                                    </GridLayout>
+                                )}
+                            </CardContent>
+                        </Card>
+                    )}
+
+                    {/* Request configuration (HTTP endpoints only) */}
+                    {!isHeartbeat && (
+                        <>
+                            <Card>
+                                <CardHeader>
+                                    <CardTitle>Request Headers</CardTitle>
+                                    <CardDescription>
+                                        Add custom headers to be sent with each request. Reference stored secrets as {"{{ secret.NAME }}"}, e.g. Bearer {"{{ secret.STRIPE_KEY }}"}
+                                    </CardDescription>
+                                </CardHeader>
+                                <CardContent className="space-y-4">
+                                    {headerFields.map((headerField, index) => (
+                                        <FormFieldRow key={headerField.id}>
+                                            <FormField
+                                                control={form.control}
+                                                name={`headers.${index}.key`}
+                                                render={({ field }) => (
+                                                    <FormItem className="flex-1">
+                                                        {index === 0 && <FormLabel>Header Name</FormLabel>}
+                                                        <FormControl>
+                                                            <Input
+                                                                placeholder="e.g., Authorization"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                            />
+                                                        </FormControl>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+                                            <FormField
+                                                control={form.control}
+                                                name={`headers.${index}.value`}
+                                                render={({ field }) => (
+                                                    <FormItem className="flex-1">
+                                                        {index === 0 && <FormLabel>Header Value</FormLabel>}
+                                                        <FormControl>
+                                                            <Input
+                                                                placeholder="e.g., Bearer your-token"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                            />
+                                                        </FormControl>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="icon"
+                                                onClick={() => removeHeader(index)}
+                                                disabled={updatePending}
+                                            >
+                                                <X className="size-4" />
+                                            </Button>
+                                        </FormFieldRow>
+                                    ))}
 
+                                    <Button
+                                        type="button"
+                                        variant="outline"
+                                        onClick={() => appendHeader({ key: "", value: "" })}
+                                        disabled={updatePending}
+                                    >
+                                        <Plus className="size-4 mr-2" />
+                                        Add Header
+                                    </Button>
+
+                                    {headerFields.length === 0 && (
+                                        <p className="text-sm text-muted-foreground">
+                                            No custom headers configured. Click "Add Header" to add one.
+                                        </p>
+                                    )}
+                                </CardContent>
+                            </Card>
+
+                            {/* Request Body (for POST/PUT/PATCH/DELETE) */}
+                            {form.watch("method") !== "GET" && (
+                                <Card className="mb-6">
+                                    <CardHeader>
+                                        <CardTitle>Request Body</CardTitle>
+                                        <CardDescription>
+                                            JSON payload to send with {form.watch("method")} requests
+                                        </CardDescription>
+                                    </CardHeader>
+                                    <CardContent>
                                         <FormField
                                             control={form.control}
-                                            name="maxIntervalMinutes"
+                                            name="bodyJson"
                                             render={({ field }) => (
                                                 <FormItem>
-                                                    <FormLabel>Max Interval (minutes)</FormLabel>
+                                                    <FormLabel>JSON Body (Optional)</FormLabel>
                                                     <FormControl>
-                                                        <Input
-                                                            type="number"
-                                                            min="1"
-                                                            placeholder="e.g., 60"
+                                                        <Textarea
+                                                            placeholder={'{\n  "key": "value"\n}'}
+                                                            rows={8}
+                                                            className="font-mono text-sm"
                                                             {...field}
                                                             disabled={updatePending}
-                                                            value={field.value ?? ""}
-                                                            onChange={(e) =>
-                                                                field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                                                            }
                                                         />
                                                     </FormControl>
                                                     <FormDescription>
-                                                        Maximum time between AI-adjusted runs
+                                                        Enter valid JSON. Will be parsed and validated before submission. String values may use templates such as {"{{ run.id }}"} or {"{{ now | iso }}"}, and secrets as {"{{ secret.NAME }}"}.
                                                     </FormDescription>
                                                     <FormMessage />
                                                 </FormItem>
                                             )}
                                         />
-                                    </GridLayout>
-                                </div>
-                            </CardContent>
-                        )}
-                    </Card>
+                                    </CardContent>
+                                </Card>
+                            )}
+
+                            {/* Advanced Configuration */}
+                            <Card className="mb-6">
+                                <CardHeader>
+                                    <div className="flex items-center justify-between">
+                                        <div>
+                                            <CardTitle>Advanced Configuration</CardTitle>
+                                            <CardDescription>
+                                                Optional timeout, execution limits, and AI scheduling constraints
+                                            </CardDescription>
+                                        </div>
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => setShowAdvanced(!showAdvanced)}
+                                        >
+                                            {showAdvanced ? (
+                                                <>
+                                                    <ChevronUp className="size-4 mr-1" />
+                                                    Hide
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <ChevronDown className="size-4 mr-1" />
+                                                    Show
+                                                </>
+                                            )}
+                                        </Button>
+                                    </div>
+                                </CardHeader>
+                                {showAdvanced && (
+                                    <CardContent className="space-y-4">
+                                        <GridLayout cols={1} md={2}>
+                                            <FormField
+                                                control={form.control}
+                                                name="timeoutMs"
+                                                render={({ field }) => (
+                                                    <FormItem>
+                                                        <FormLabel>Request Timeout (ms)</FormLabel>
+                                                        <FormControl>
+                                                            <Input
+                                                                type="number"
+                                                                min="1"
+                                                                placeholder="e.g., 30000"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                                value={field.value ?? ""}
+                                                                onChange={(e) =>
+                                                                    field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                }
+                                                            />
+                                                        </FormControl>
+                                                        <FormDescription>
+                                                            HTTP request timeout in milliseconds
+                                                        </FormDescription>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+
+                                            <FormField
+                                                control={form.control}
+                                                name="maxExecutionTimeMs"
+                                                render={({ field }) => (
+                                                    <FormItem>
+                                                        <FormLabel>Max Execution Time (ms)</FormLabel>
+                                                        <FormControl>
+                                                            <Input
+                                                                type="number"
+                                                                min="1"
+                                                                max="1800000"
+                                                                placeholder="e.g., 60000 (1 min)"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                                value={field.value ?? ""}
+                                                                onChange={(e) =>
+                                                                    field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                }
+                                                            />
+                                                        </FormControl>
+                                                        <FormDescription>
+                                                            Lock duration for distributed execution (max: 30 min)
+                                                        </FormDescription>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+
+                                            <FormField
+                                                control={form.control}
+                                                name="maxResponseSizeKb"
+                                                render={({ field }) => (
+                                                    <FormItem>
+                                                        <FormLabel>Max Response Size (KB)</FormLabel>
+                                                        <FormControl>
+                                                            <Input
+                                                                type="number"
+                                                                min="1"
+                                                                placeholder="e.g., 1024"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                                value={field.value ?? ""}
+                                                                onChange={(e) =>
+                                                                    field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                }
+                                                            />
+                                                        </FormControl>
+                                                        <FormDescription>
+                                                            Maximum response body size to capture
+                                                        </FormDescription>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+                                        </GridLayout>
+
+                                        <div className="pt-4 border-t">
+                                            <h4 className="text-sm font-medium mb-3">AI Scheduling Constraints</h4>
+                                            <GridLayout cols={1} md={2}>
+                                                <FormField
+                                                    control={form.control}
+                                                    name="minIntervalMinutes"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Min Interval (minutes)</FormLabel>
+                                                            <FormControl>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="1"
+                                                                    placeholder="e.g., 5"
+                                                                    {...field}
+                                                                    disabled={updatePending}
+                                                                    value={field.value ?? ""}
+                                                                    onChange={(e) =>
+                                                                        field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                    }
+                                                                />
+                                                            </FormControl>
+                                                            <FormDescription>
+                                                                Minimum time between AI-adjusted runs
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+
+                                                <FormField
+                                                    control={form.control}
+                                                    name="maxIntervalMinutes"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Max Interval (minutes)</FormLabel>
+                                                            <FormControl>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="1"
+                                                                    placeholder="e.g., 60"
+                                                                    {...field}
+                                                                    disabled={updatePending}
+                                                                    value={field.value ?? ""}
+                                                                    onChange={(e) =>
+                                                                        field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                    }
+                                                                />
+                                                            </FormControl>
+                                                            <FormDescription>
+                                                                Maximum time between AI-adjusted runs
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+                                            </GridLayout>
+                                        </div>
+
+                                        <div className="pt-4 border-t">
+                                            <h4 className="text-sm font-medium mb-3">Retries</h4>
+                                            <GridLayout cols={1} md={3}>
+                                                <FormField
+                                                    control={form.control}
+                                                    name="retryPolicy.maxAttempts"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Max Attempts</FormLabel>
+                                                            <FormControl>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="1"
+                                                                    max="10"
+                                                                    placeholder="1 (no retries)"
+                                                                    {...field}
+                                                                    disabled={updatePending}
+                                                                    value={field.value ?? ""}
+                                                                    onChange={(e) =>
+                                                                        field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                    }
+                                                                />
+                                                            </FormControl>
+                                                            <FormDescription>
+                                                                Attempts per run, including the first
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+
+                                                <FormField
+                                                    control={form.control}
+                                                    name="retryPolicy.backoff"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Backoff</FormLabel>
+                                                            <Select
+                                                                onValueChange={field.onChange}
+                                                                value={field.value || "exponential"}
+                                                                disabled={updatePending}
+                                                            >
+                                                                <FormControl>
+                                                                    <SelectTrigger>
+                                                                        <SelectValue placeholder="Select backoff" />
+                                                                    </SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    <SelectItem value="fixed">Fixed</SelectItem>
+                                                                    <SelectItem value="exponential">Exponential</SelectItem>
+                                                                    <SelectItem value="jittered">Exponential with jitter</SelectItem>
+                                                                </SelectContent>
+                                                            </Select>
+                                                            <FormDescription>
+                                                                How the delay grows between attempts
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+
+                                                <FormField
+                                                    control={form.control}
+                                                    name="retryPolicy.initialDelayMs"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Initial Delay (ms)</FormLabel>
+                                                            <FormControl>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="0"
+                                                                    placeholder="e.g., 1000"
+                                                                    {...field}
+                                                                    disabled={updatePending}
+                                                                    value={field.value ?? ""}
+                                                                    onChange={(e) =>
+                                                                        field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                    }
+                                                                />
+                                                            </FormControl>
+                                                            <FormDescription>
+                                                                Wait before the first retry (Retry-After is honored)
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+                                            </GridLayout>
+                                        </div>
+
+                                        <div className="pt-4 border-t">
+                                            <h4 className="text-sm font-medium mb-3">Missed Runs</h4>
+                                            <GridLayout cols={1} md={2}>
+                                                <FormField
+                                                    control={form.control}
+                                                    name="misfirePolicy.mode"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>After Downtime</FormLabel>
+                                                            <Select
+                                                                onValueChange={field.onChange}
+                                                                value={field.value || "run-once"}
+                                                                disabled={updatePending}
+                                                            >
+                                                                <FormControl>
+                                                                    <SelectTrigger>
+                                                                        <SelectValue placeholder="Select policy" />
+                                                                    </SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    <SelectItem value="run-once">Run once</SelectItem>
+                                                                    <SelectItem value="run-all">Run every missed run</SelectItem>
+                                                                    <SelectItem value="skip">Skip missed runs</SelectItem>
+                                                                </SelectContent>
+                                                            </Select>
+                                                            <FormDescription>
+                                                                What happens to scheduled runs missed while the scheduler was down
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+
+                                                {form.watch("misfirePolicy.mode") === "run-all" && (
+                                                    <FormField
+                                                        control={form.control}
+                                                        name="misfirePolicy.maxBacklog"
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormLabel>Max Backlog</FormLabel>
+                                                                <FormControl>
+                                                                    <Input
+                                                                        type="number"
+                                                                        min="1"
+                                                                        max="100"
+                                                                        placeholder="10 (default)"
+                                                                        {...field}
+                                                                        disabled={updatePending}
+                                                                        value={field.value ?? ""}
+                                                                        onChange={(e) =>
+                                                                            field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                        }
+                                                                    />
+                                                                </FormControl>
+                                                                <FormDescription>
+                                                                    Most missed runs replayed; older ones are skipped
+                                                                </FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                )}
+                                            </GridLayout>
+                                        </div>
+
+                                        <div className="pt-4 border-t">
+                                            <h4 className="text-sm font-medium mb-3">Overlapping Runs</h4>
+                                            <GridLayout cols={1} md={2}>
+                                                <FormField
+                                                    control={form.control}
+                                                    name="concurrencyPolicy"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>While a Run Is in Progress</FormLabel>
+                                                            <Select
+                                                                onValueChange={field.onChange}
+                                                                value={field.value || "allow"}
+                                                                disabled={updatePending}
+                                                            >
+                                                                <FormControl>
+                                                                    <SelectTrigger>
+                                                                        <SelectValue placeholder="Select policy" />
+                                                                    </SelectTrigger>
+                                                                </FormControl>
+                                                                <SelectContent>
+                                                                    <SelectItem value="allow">Start the new run too</SelectItem>
+                                                                    <SelectItem value="forbid">Skip the new run</SelectItem>
+                                                                    <SelectItem value="replace">Cancel the earlier run</SelectItem>
+                                                                </SelectContent>
+                                                            </Select>
+                                                            <FormDescription>
+                                                                When a run is due before the previous one finished. Skipped runs show as canceled in history
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+                                            </GridLayout>
+                                        </div>
+
+                                        {!isHeartbeat && (
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-medium mb-3">Authentication</h4>
+                                                <GridLayout cols={1} md={2}>
+                                                    <FormField
+                                                        control={form.control}
+                                                        name="authProfileName"
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormLabel>Auth Profile</FormLabel>
+                                                                <Select
+                                                                    onValueChange={value => field.onChange(value === NO_AUTH_PROFILE ? "" : value)}
+                                                                    value={field.value || NO_AUTH_PROFILE}
+                                                                    disabled={updatePending}
+                                                                >
+                                                                    <FormControl>
+                                                                        <SelectTrigger>
+                                                                            <SelectValue placeholder="Select profile" />
+                                                                        </SelectTrigger>
+                                                                    </FormControl>
+                                                                    <SelectContent>
+                                                                        <SelectItem value={NO_AUTH_PROFILE}>None</SelectItem>
+                                                                        {/* Keep a deleted profile selectable so the form shows what the endpoint references */}
+                                                                        {field.value && !authProfiles.some(profile => profile.name === field.value) && (
+                                                                            <SelectItem value={field.value}>{field.value} (missing)</SelectItem>
+                                                                        )}
+                                                                        {authProfiles.map(profile => (
+                                                                            <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                                                                        ))}
+                                                                    </SelectContent>
+                                                                </Select>
+                                                                <FormDescription>
+                                                                    Sends an OAuth2 access token as Authorization: Bearer, replacing any Authorization header. Add profiles under Auth Profiles
+                                                                </FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                </GridLayout>
+                                            </div>
+                                        )}
+
+                                        {!isHeartbeat && (
+                                            <div className="pt-4 border-t">
+                                                <h4 className="text-sm font-medium mb-3">TLS</h4>
+                                                <GridLayout cols={1} md={2}>
+                                                    <FormField
+                                                        control={form.control}
+                                                        name="tlsCredentialName"
+                                                        render={({ field }) => (
+                                                            <FormItem>
+                                                                <FormLabel>TLS Credential</FormLabel>
+                                                                <Select
+                                                                    onValueChange={value => field.onChange(value === NO_TLS_CREDENTIAL ? "" : value)}
+                                                                    value={field.value || NO_TLS_CREDENTIAL}
+                                                                    disabled={updatePending}
+                                                                >
+                                                                    <FormControl>
+                                                                        <SelectTrigger>
+                                                                            <SelectValue placeholder="Select credential" />
+                                                                        </SelectTrigger>
+                                                                    </FormControl>
+                                                                    <SelectContent>
+                                                                        <SelectItem value={NO_TLS_CREDENTIAL}>None (default trust store)</SelectItem>
+                                                                        {/* Keep a deleted credential selectable so the form shows what the endpoint references */}
+                                                                        {field.value && !tlsCredentials.some(credential => credential.name === field.value) && (
+                                                                            <SelectItem value={field.value}>{field.value} (missing)</SelectItem>
+                                                                        )}
+                                                                        {tlsCredentials.map(credential => (
+                                                                            <SelectItem key={credential.name} value={credential.name}>{credential.name}</SelectItem>
+                                                                        ))}
+                                                                    </SelectContent>
+                                                                </Select>
+                                                                <FormDescription>
+                                                                    Client certificate and CA bundle for mutual TLS or a private CA. Upload them under TLS Credentials
+                                                                </FormDescription>
+                                                                <FormMessage />
+                                                            </FormItem>
+                                                        )}
+                                                    />
+                                                </GridLayout>
+                                            </div>
+                                        )}
+
+                                        <div className="pt-4 border-t">
+                                            <h4 className="text-sm font-medium mb-3">Success Criteria</h4>
+                                            <GridLayout cols={1} md={2}>
+                                                <FormField
+                                                    control={form.control}
+                                                    name="successStatusCodes"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Accepted Status Codes</FormLabel>
+                                                            <FormControl>
+                                                                <Input
+                                                                    placeholder="2xx (default)"
+                                                                    {...field}
+                                                                    disabled={updatePending}
+                                                                    value={field.value ?? ""}
+                                                                />
+                                                            </FormControl>
+                                                            <FormDescription>
+                                                                Comma-separated codes, classes or ranges, e.g. 2xx, 304
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+
+                                                <FormField
+                                                    control={form.control}
+                                                    name="successMaxLatencyMs"
+                                                    render={({ field }) => (
+                                                        <FormItem>
+                                                            <FormLabel>Max Latency (ms)</FormLabel>
+                                                            <FormControl>
+                                                                <Input
+                                                                    type="number"
+                                                                    min="1"
+                                                                    placeholder="No limit"
+                                                                    {...field}
+                                                                    disabled={updatePending}
+                                                                    value={field.value ?? ""}
+                                                                    onChange={(e) =>
+                                                                        field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                                                    }
+                                                                />
+                                                            </FormControl>
+                                                            <FormDescription>
+                                                                Slower responses fail the run
+                                                            </FormDescription>
+                                                            <FormMessage />
+                                                        </FormItem>
+                                                    )}
+                                                />
+                                            </GridLayout>
+
+                                            <FormField
+                                                control={form.control}
+                                                name="successAssertions"
+                                                render={({ field }) => (
+                                                    <FormItem className="mt-4">
+                                                        <FormLabel>Response Assertions (Optional)</FormLabel>
+                                                        <FormControl>
+                                                            <Textarea
+                                                                placeholder={'[\n  { "path": "$.status", "operator": "equals", "value": "ok" }\n]'}
+                                                                rows={5}
+                                                                className="font-mono text-sm"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                            />
+                                                        </FormControl>
+                                                        <FormDescription>
+                                                            JSON array of assertions on the response body. Paths are JSONPath ($.a.b) or JSON pointer (/a/b); operators: exists, notExists, equals, notEquals, contains, matches, gt, gte, lt, lte.
+                                                        </FormDescription>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+
+                                            <FormField
+                                                control={form.control}
+                                                name="blackoutWindows"
+                                                render={({ field }) => (
+                                                    <FormItem className="mt-4">
+                                                        <FormLabel>Blackout Windows (Optional)</FormLabel>
+                                                        <FormControl>
+                                                            <Textarea
+                                                                placeholder={'[\n  { "name": "Sunday maintenance", "daysOfWeek": [0], "startTime": "02:00", "endTime": "04:00", "timezone": "Europe/Berlin" }\n]'}
+                                                                rows={5}
+                                                                className="font-mono text-sm"
+                                                                {...field}
+                                                                disabled={updatePending}
+                                                            />
+                                                        </FormControl>
+                                                        <FormDescription>
+                                                            JSON array of recurring periods in which no run starts, on top of the job's windows. Each window may select daysOfWeek (0 = Sunday), dates ("YYYY-MM-DD") or a calendar ("us-federal-holidays"), with startTime/endTime ("HH:MM") or whole days. Runs due inside a window, including AI hints and manual runs, move to its end.
+                                                        </FormDescription>
+                                                        <FormMessage />
+                                                    </FormItem>
+                                                )}
+                                            />
+                                        </div>
+                                    </CardContent>
+                                )}
+                            </Card>
+                        </>
+                    )}
 
                     <Separator />
 
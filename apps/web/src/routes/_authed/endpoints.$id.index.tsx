@@ -9,12 +9,24 @@ import {
   ExternalLink,
   Pause,
   Play,
+  SlidersHorizontal,
   TrendingUp,
   Zap
 } from "lucide-react";
+import { useState } from "react";
 
 import { Badge } from "@cronicorn/ui-library/components/badge";
 import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { Textarea } from "@cronicorn/ui-library/components/textarea";
 import { toast } from "sonner";
 import { ActionsGroup } from "../../components/primitives/actions-group";
 import { GridLayout } from "../../components/primitives/grid-layout";
@@ -23,14 +35,19 @@ import { StatCard } from "../../components/cards/stat-card";
 import { PageSection } from "../../components/primitives/page-section";
 import { DetailSection } from "../../components/cards/detail-section";
 import { InfoField, InfoGrid } from "../../components/cards/info-grid";
+import { AuthProfileSection } from "../../components/endpoints/auth-profile-section";
+import { TlsCredentialSection } from "../../components/endpoints/tls-credential-section";
+import { TriggerUrlSection } from "../../components/endpoints/trigger-url-section";
+import { describeBlackoutWindow } from "@/lib/blackout-windows";
 import { isEndpointPaused } from "@/lib/endpoint-utils";
 import {
   archiveEndpoint,
   pauseEndpoint,
   resetFailures,
-  scheduleOneShot
+  runEndpointNow
 } from "@/lib/api-client/queries/endpoints.queries";
 import { healthQueryOptions } from "@/lib/api-client/queries/runs.queries";
+import { getBaseURL } from "@/lib/api-client/api-client";
 
 export const Route = createFileRoute("/_authed/endpoints/$id/")({
   component: ViewEndpointPage,
@@ -43,6 +60,7 @@ function ViewEndpointPage() {
   const parentRouteApi = getRouteApi("/_authed/endpoints/$id");
   const { endpoint } = parentRouteApi.useLoaderData();
   const { data: health } = useSuspenseQuery(healthQueryOptions(id));
+  const [overridesOpen, setOverridesOpen] = useState(false);
 
   const { mutateAsync: pauseMutate, isPending: pausePending } = useMutation({
     mutationFn: async (pausedUntil: string | null) => pauseEndpoint(id, { pausedUntil }),
@@ -73,16 +91,17 @@ function ViewEndpointPage() {
   });
 
   const { mutateAsync: runNowMutate, isPending: runNowPending } = useMutation({
-    mutationFn: async () => scheduleOneShot(id, { nextRunInMs: 1000, reason: "Manual trigger via UI" }),
+    mutationFn: async (overrides?: RunOverrides) => runEndpointNow(id, overrides),
     onSuccess: async () => {
       await queryClient.invalidateQueries({ queryKey: ["endpoints", id] });
       if (endpoint.jobId) {
         await queryClient.invalidateQueries({ queryKey: ["jobs", endpoint.jobId, "endpoints"] });
       }
-      toast.success("Endpoint scheduled to run immediately");
+      setOverridesOpen(false);
+      toast.success("Run queued — the scheduler will pick it up within seconds");
     },
     onError: (error) => {
-      toast.error(error instanceof Error ? error.message : "Failed to schedule run");
+      toast.error(error instanceof Error ? error.message : "Failed to queue run");
     },
   });
 
@@ -113,7 +132,7 @@ function ViewEndpointPage() {
   };
 
   const handleRunNow = async () => {
-    await runNowMutate();
+    await runNowMutate(undefined);
   };
 
   const handleArchive = async () => {
@@ -123,6 +142,7 @@ function ViewEndpointPage() {
   };
 
   const isPaused = isEndpointPaused(endpoint.pausedUntil);
+  const isHeartbeat = endpoint.kind === "heartbeat";
   const hasAIHints = !!(endpoint.aiHintIntervalMs || endpoint.aiHintNextRunAt || endpoint.aiHintReason);
   const isHintExpired = endpoint.aiHintExpiresAt && new Date(endpoint.aiHintExpiresAt) < new Date();
 
@@ -259,24 +279,43 @@ function ViewEndpointPage() {
             description="Endpoint settings and schedule"
           >
             <InfoGrid columns={1}>
-              <InfoField
-                label="URL"
-                value={
-                  <a
-                    href={endpoint.url}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="font-mono text-xs hover:underline flex items-center gap-1"
-                  >
-                    {endpoint.url}
-                    <ExternalLink className="h-3 w-3" />
-                  </a>
-                }
-              />
-              <InfoField
-                label="Method"
-                value={<Badge variant="outline">{endpoint.method}</Badge>}
-              />
+              {isHeartbeat ? (
+                <>
+                  <InfoField
+                    label="Ping URL"
+                    value={
+                      <code className="text-xs break-all">
+                        POST {getBaseURL()}/api/ping/{endpoint.pingToken}
+                      </code>
+                    }
+                  />
+                  <InfoField
+                    label="Grace Period"
+                    value={<code className="text-xs">{Math.round((endpoint.graceMs ?? 300000) / 60000)}min</code>}
+                  />
+                </>
+              ) : (
+                <>
+                  <InfoField
+                    label="URL"
+                    value={
+                      <a
+                        href={endpoint.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs hover:underline flex items-center gap-1"
+                      >
+                        {endpoint.url}
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    }
+                  />
+                  <InfoField
+                    label="Method"
+                    value={<Badge variant="outline">{endpoint.method}</Badge>}
+                  />
+                </>
+              )}
               <InfoField
                 label="Schedule Type"
                 value={endpoint.baselineCron ? "Cron" : "Interval"}
@@ -292,6 +331,12 @@ function ViewEndpointPage() {
                   </code>
                 }
               />
+              {endpoint.baselineCron && (
+                <InfoField
+                  label="Timezone"
+                  value={<code className="text-xs">{endpoint.timezone || "UTC"}</code>}
+                />
+              )}
               {endpoint.minIntervalMs && (
                 <InfoField
                   label="Min Interval"
@@ -304,6 +349,72 @@ function ViewEndpointPage() {
                   value={<code className="text-xs">{Math.round(endpoint.maxIntervalMs / 60000)}min</code>}
                 />
               )}
+              {!isHeartbeat && (
+                <>
+                  <InfoField
+                    label="Retries"
+                    value={
+                      <code className="text-xs">
+                        {endpoint.retryPolicy && endpoint.retryPolicy.maxAttempts > 1
+                          ? `Up to ${endpoint.retryPolicy.maxAttempts} attempts, ${endpoint.retryPolicy.backoff} from ${endpoint.retryPolicy.initialDelayMs}ms`
+                          : "None"}
+                      </code>
+                    }
+                  />
+                  <InfoField
+                    label="Missed Runs"
+                    value={
+                      <code className="text-xs">
+                        {endpoint.misfirePolicy?.mode === "skip"
+                          ? "Skipped"
+                          : endpoint.misfirePolicy?.mode === "run-all"
+                            ? `Each replayed (up to ${endpoint.misfirePolicy.maxBacklog ?? 10})`
+                            : "Run once"}
+                      </code>
+                    }
+                  />
+                  <InfoField
+                    label="Overlapping Runs"
+                    value={
+                      <code className="text-xs">
+                        {endpoint.concurrencyPolicy === "forbid"
+                          ? "Skipped while a run is in progress"
+                          : endpoint.concurrencyPolicy === "replace"
+                            ? "Replace the run in progress"
+                            : "Allowed"}
+                      </code>
+                    }
+                  />
+                  <InfoField
+                    label="Success Criteria"
+                    value={
+                      <code className="text-xs">
+                        {[
+                          `Status ${endpoint.successCriteria?.statusCodes?.join(", ") || "2xx"}`,
+                          endpoint.successCriteria?.maxLatencyMs && `under ${endpoint.successCriteria.maxLatencyMs}ms`,
+                          endpoint.successCriteria?.assertions?.length && `${endpoint.successCriteria.assertions.length} assertion(s)`,
+                        ].filter(Boolean).join(", ")}
+                      </code>
+                    }
+                  />
+                  <InfoField
+                    label="Blackout Windows"
+                    value={
+                      endpoint.blackoutWindows?.length ? (
+                        <ul className="space-y-0.5">
+                          {endpoint.blackoutWindows.map((window, index) => (
+                            <li key={index}>
+                              <code className="text-xs">{describeBlackoutWindow(window)}</code>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <code className="text-xs">None (job windows still apply)</code>
+                      )
+                    }
+                  />
+                </>
+              )}
             </InfoGrid>
           </DetailSection>
 
@@ -346,7 +457,7 @@ function ViewEndpointPage() {
                 }
               />
               <InfoField
-                label="Next Run"
+                label={isHeartbeat ? "Check-in Deadline" : "Next Run"}
                 value={<code className="text-xs">{new Date(endpoint.nextRunAt).toLocaleString()}</code>}
               />
               <InfoField
@@ -360,37 +471,63 @@ function ViewEndpointPage() {
             </InfoGrid>
           </DetailSection>
 
-          <DetailSection
-            title="Advanced Configuration"
-            description="Timeout and execution limits"
-          >
-            <InfoGrid columns={1}>
-              <InfoField
-                label="Request Timeout"
-                value={<code className="text-xs">{endpoint.timeoutMs ? `${endpoint.timeoutMs}ms` : "Default"}</code>}
-              />
-              <InfoField
-                label="Max Execution Time"
-                value={<code className="text-xs">{endpoint.maxExecutionTimeMs ? `${endpoint.maxExecutionTimeMs}ms` : "Default (60s)"}</code>}
-              />
-              <InfoField
-                label="Max Response Size"
-                value={<code className="text-xs">{endpoint.maxResponseSizeKb ? `${endpoint.maxResponseSizeKb}KB` : "Unlimited"}</code>}
-              />
-            </InfoGrid>
-          </DetailSection>
+          {!isHeartbeat && (
+            <DetailSection
+              title="Advanced Configuration"
+              description="Timeout and execution limits"
+            >
+              <InfoGrid columns={1}>
+                <InfoField
+                  label="Request Timeout"
+                  value={<code className="text-xs">{endpoint.timeoutMs ? `${endpoint.timeoutMs}ms` : "Default"}</code>}
+                />
+                <InfoField
+                  label="Max Execution Time"
+                  value={<code className="text-xs">{endpoint.maxExecutionTimeMs ? `${endpoint.maxExecutionTimeMs}ms` : "Default (60s)"}</code>}
+                />
+                <InfoField
+                  label="Max Response Size"
+                  value={<code className="text-xs">{endpoint.maxResponseSizeKb ? `${endpoint.maxResponseSizeKb}KB` : "Unlimited"}</code>}
+                />
+              </InfoGrid>
+            </DetailSection>
+          )}
+
+          {!isHeartbeat && endpoint.tlsCredentialName && (
+            <TlsCredentialSection name={endpoint.tlsCredentialName} />
+          )}
+
+          {!isHeartbeat && endpoint.authProfileName && (
+            <AuthProfileSection name={endpoint.authProfileName} />
+          )}
+
+          {!isHeartbeat && (
+            <TriggerUrlSection endpointId={endpoint.id} disabled={!!endpoint.archivedAt} />
+          )}
         </GridLayout>
 
         {/* Action Buttons */}
         <ActionsGroup wrap gap="2" className="mb-8">
-          <Button
-            variant="default"
-            onClick={handleRunNow}
-            disabled={runNowPending || isPaused || !!endpoint.archivedAt}
-          >
-            <Play className="h-4 w-4 mr-2" />
-            {runNowPending ? "Scheduling..." : "Run Now"}
-          </Button>
+          {!isHeartbeat && (
+            <Button
+              variant="default"
+              onClick={handleRunNow}
+              disabled={runNowPending || isPaused || !!endpoint.archivedAt}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              {runNowPending ? "Queuing..." : "Run Now"}
+            </Button>
+          )}
+          {!isHeartbeat && (
+            <Button
+              variant="outline"
+              onClick={() => setOverridesOpen(true)}
+              disabled={runNowPending || isPaused || !!endpoint.archivedAt}
+            >
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Run with Overrides
+            </Button>
+          )}
           <Button
             variant="secondary"
             onClick={handlePause}
@@ -418,6 +555,118 @@ function ViewEndpointPage() {
 
         </ActionsGroup>
       </PageSection>
+
+      <RunWithOverridesDialog
+        open={overridesOpen}
+        pending={runNowPending}
+        onClose={() => setOverridesOpen(false)}
+        onRun={runNowMutate}
+      />
     </>
   );
 }
+
+type RunOverrides = {
+  headersJson?: Record<string, string>;
+  bodyJson?: unknown;
+};
+
+/** Parses the dialog's JSON fields; empty fields leave the endpoint's own value */
+function parseOverrides(headers: string, body: string): RunOverrides | string {
+  const overrides: RunOverrides = {};
+  try {
+    if (headers.trim()) {
+      const parsed: unknown = JSON.parse(headers);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed) || Object.values(parsed).some(v => typeof v !== "string")) {
+        return "Headers must be a JSON object of string values";
+      }
+      overrides.headersJson = Object.fromEntries(Object.entries(parsed).map(([name, value]) => [name, String(value)]));
+    }
+  }
+  catch {
+    return "Headers must be valid JSON";
+  }
+  try {
+    if (body.trim()) {
+      overrides.bodyJson = JSON.parse(body);
+    }
+  }
+  catch {
+    return "Body must be valid JSON";
+  }
+  return overrides;
+}
+
+function RunWithOverridesDialog({ open, pending, onClose, onRun }: {
+  open: boolean;
+  pending: boolean;
+  onClose: () => void;
+  onRun: (overrides: RunOverrides) => Promise<unknown>;
+}) {
+  const [headers, setHeaders] = useState("");
+  const [body, setBody] = useState("");
+  const parsed = parseOverrides(headers, body);
+
+  const close = () => {
+    setHeaders("");
+    setBody("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Run with Overrides</DialogTitle>
+          <DialogDescription>
+            Queue a run that uses these values instead of the endpoint&apos;s own, for this run only.
+            Headers are merged over the endpoint&apos;s headers; a body replaces its body.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="run-headers">Headers (JSON)</Label>
+            <Textarea
+              id="run-headers"
+              className="font-mono text-xs"
+              value={headers}
+              onChange={(e) => setHeaders(e.target.value)}
+              placeholder={`{"X-Debug": "1"}`}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="run-body">Body (JSON)</Label>
+            <Textarea
+              id="run-body"
+              className="font-mono text-xs"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder={`{"dryRun": true}`}
+            />
+          </div>
+          {typeof parsed === "string" && (
+            <p className="text-sm text-destructive">{parsed}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={async () => {
+              if (typeof parsed !== "string") {
+                await onRun(parsed);
+                setHeaders("");
+                setBody("");
+              }
+            }}
+            disabled={pending || typeof parsed === "string"}
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {pending ? "Queuing..." : "Run Now"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -53,6 +53,7 @@ type RunRow = {
   runId: string;
   status: "success" | "failure" | "timeout" | "cancelled";
   durationMs?: number;
+  lagMs?: number;
   startedAt: Date;
 };
 
@@ -112,6 +113,15 @@ function RunsListPage() {
         </span>
       ),
     },
+    {
+      accessorKey: "lagMs",
+      header: "Lag",
+      cell: ({ row }) => (
+        <span className="text-sm text-muted-foreground">
+          {typeof row.original.lagMs === "number" ? `${row.original.lagMs}ms` : "—"}
+        </span>
+      ),
+    },
     {
       accessorKey: "startedAt",
       header: "Started At",
@@ -0,0 +1,74 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { IconAlertCircle, IconUsers } from "@tabler/icons-react";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+import { Button } from "@cronicorn/ui-library/components/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@cronicorn/ui-library/components/card";
+import { IconContainer } from "../../components/primitives/icon-container";
+
+import { ORGS_QUERY_KEY, acceptInvitation } from "@/lib/api-client/queries/orgs.queries";
+
+type AcceptInvitationSearch = {
+  token?: string;
+};
+
+export const Route = createFileRoute("/_authed/invitations/accept")({
+  component: AcceptInvitationPage,
+  validateSearch: (search: Record<string, unknown>): AcceptInvitationSearch => {
+    return {
+      token: (search.token as string) || undefined,
+    };
+  },
+});
+
+function AcceptInvitationPage() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { token } = Route.useSearch();
+  const { session } = Route.useRouteContext();
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      if (!token) throw new Error("No invitation token provided");
+      return acceptInvitation(token);
+    },
+    onSuccess: async (org) => {
+      await queryClient.invalidateQueries({ queryKey: [...ORGS_QUERY_KEY] });
+      await navigate({ to: "/organizations/$id", params: { id: org.id } });
+    },
+  });
+
+  return (
+    <div className="container max-w-md mx-auto py-16 px-4">
+      <Card>
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            <IconContainer icon={IconUsers} size="lg" />
+          </div>
+          <CardTitle>Join Organization</CardTitle>
+          <CardDescription>
+            Accept the invitation as {session.user.email}. It only works for the email address it was sent to.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {(!token || acceptMutation.error) && (
+            <Alert variant="destructive">
+              <IconAlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {acceptMutation.error?.message ?? "This invitation link is incomplete. Open the link from the email again."}
+              </AlertDescription>
+            </Alert>
+          )}
+          <Button
+            className="w-full"
+            onClick={() => acceptMutation.mutate()}
+            disabled={!token || acceptMutation.isPending}
+          >
+            {acceptMutation.isPending ? "Joining..." : "Accept Invitation"}
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
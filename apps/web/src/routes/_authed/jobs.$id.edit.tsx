@@ -3,6 +3,7 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { createFileRoute, getRouteApi, useNavigate, useRouter } from "@tanstack/react-router";
 import { Save, X } from "lucide-react";
 import { useForm } from "react-hook-form";
+import { z } from "zod";
 
 import { Button } from "@cronicorn/ui-library/components/button";
 import {
@@ -28,6 +29,26 @@ export const Route = createFileRoute("/_authed/jobs/$id/edit")({
   component: EditJobPage,
 });
 
+// Blackout windows are edited as JSON text and validated against the API contract on submit
+const editJobSchema = UpdateJobRequestSchema.omit({ blackoutWindows: true }).extend({
+  blackoutWindows: z.string().optional(),
+});
+type EditJobForm = z.infer<typeof editJobSchema>;
+
+/**
+ * Converts the form's blackout windows JSON into API windows. Blank text clears them.
+ */
+function parseBlackoutWindows(text: string | undefined): UpdateJobRequest["blackoutWindows"] {
+  if (!text || !text.trim()) {
+    return [];
+  }
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON in blackout windows: ${error instanceof Error ? error.message : "Unknown error"}`);
+  }
+}
+
 function EditJobPage() {
   const { id } = Route.useParams();
   const navigate = useNavigate();
@@ -36,11 +57,12 @@ function EditJobPage() {
   const parentRouteApi = getRouteApi("/_authed/jobs/$id");
   const { job } = parentRouteApi.useLoaderData();
 
-  const form = useForm<UpdateJobRequest>({
-    resolver: zodResolver(UpdateJobRequestSchema),
+  const form = useForm<EditJobForm>({
+    resolver: zodResolver(editJobSchema),
     defaultValues: {
       name: job.name,
       description: job.description || "",
+      blackoutWindows: job.blackoutWindows?.length ? JSON.stringify(job.blackoutWindows, null, 2) : "",
     },
   });
 
@@ -53,8 +75,23 @@ function EditJobPage() {
     },
   });
 
-  const handleFormSubmit = async (data: UpdateJobRequest) => {
-    await mutateAsync(data);
+  const handleFormSubmit = async (data: EditJobForm) => {
+    let blackoutWindows: UpdateJobRequest["blackoutWindows"];
+    try {
+      blackoutWindows = parseBlackoutWindows(data.blackoutWindows);
+    } catch (err) {
+      form.setError("blackoutWindows", { message: err instanceof Error ? err.message : "Invalid blackout windows" });
+      return;
+    }
+
+    const parsed = UpdateJobRequestSchema.safeParse({ ...data, blackoutWindows });
+    if (!parsed.success) {
+      form.setError("blackoutWindows", {
+        message: parsed.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; "),
+      });
+      return;
+    }
+    await mutateAsync(parsed.data);
   };
 
   const onCancel = () => {
@@ -108,6 +145,29 @@ function EditJobPage() {
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="blackoutWindows"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Blackout Windows</FormLabel>
+                <FormControl>
+                  <Textarea
+                    placeholder={'[\n  { "name": "US holidays", "calendar": "us-federal-holidays", "timezone": "America/New_York" }\n]'}
+                    rows={5}
+                    className="font-mono text-sm"
+                    {...field}
+                    disabled={isPending}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Optional JSON array of recurring periods in which none of this job's endpoints start a run. Each window may select daysOfWeek (0 = Sunday), dates ("YYYY-MM-DD") or a calendar ("us-federal-holidays"), with startTime/endTime ("HH:MM") or whole days, in an IANA timezone (default UTC).
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
           <Separator />
 
           <ActionsGroup className="justify-end" gap="2">
@@ -7,9 +7,11 @@ import { Badge } from "@cronicorn/ui-library/components/badge";
 import { Button } from "@cronicorn/ui-library/components/button";
 import { ActionsGroup } from "../../components/primitives/actions-group";
 
+import { DependencyGraph } from "../../components/cards/dependency-graph";
 import { DetailSection } from "../../components/cards/detail-section";
 import { InfoField, InfoGrid } from "../../components/cards/info-grid";
 import { PageSection } from "../../components/primitives/page-section";
+import { describeBlackoutWindow } from "@/lib/blackout-windows";
 import {
   JOBS_QUERY_KEY,
   archiveJob,
@@ -140,6 +142,20 @@ function JobDetailsPage() {
           <InfoField label="Description" value={job.description} fullWidth />
         )}
 
+        {job.blackoutWindows && job.blackoutWindows.length > 0 && (
+          <InfoField
+            label="Blackout Windows"
+            value={
+              <ul className="space-y-0.5">
+                {job.blackoutWindows.map((window, index) => (
+                  <li key={index}>{describeBlackoutWindow(window)}</li>
+                ))}
+              </ul>
+            }
+            fullWidth
+          />
+        )}
+
         <ActionsGroup gap="2" className="border-t pt-4">
           {job.status === "paused" ? (
             <Button
@@ -174,6 +190,15 @@ function JobDetailsPage() {
         </ActionsGroup>
       </DetailSection>
 
+      {endpointsData.endpoints.length > 1 && (
+        <DetailSection
+          title="Dependencies"
+          description="Endpoints that run when their upstream endpoints succeed"
+        >
+          <DependencyGraph endpoints={endpointsData.endpoints} />
+        </DetailSection>
+      )}
+
       {endpointsData.endpoints.length > 0 && (
         <div className="text-sm text-muted-foreground text-center py-4">
           View all endpoints in the{" "}
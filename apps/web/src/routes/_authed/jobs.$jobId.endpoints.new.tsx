@@ -1,5 +1,5 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
 import { Link, createFileRoute, useNavigate } from "@tanstack/react-router";
 import { ChevronDown, ChevronUp, Plus, Save, X } from "lucide-react";
 import { useState } from "react";
@@ -8,6 +8,7 @@ import { useFieldArray, useForm } from "react-hook-form";
 import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
 import { Button } from "@cronicorn/ui-library/components/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@cronicorn/ui-library/components/card";
+import { Checkbox } from "@cronicorn/ui-library/components/checkbox";
 import {
   Form,
   FormControl,
@@ -29,9 +30,12 @@ import { ActionsGroup } from "../../components/primitives/actions-group";
 import { PageHeader } from "../../components/composed/page-header";
 import type { CreateEndpointForm } from "@/lib/endpoint-forms";
 import { createEndpoint } from "@/lib/api-client/queries/endpoints.queries";
-import { jobQueryOptions } from "@/lib/api-client/queries/jobs.queries";
+import { authProfilesQueryOptions } from "@/lib/api-client/queries/auth-profiles.queries";
+import { tlsCredentialsQueryOptions } from "@/lib/api-client/queries/tls-credentials.queries";
+import { endpointsQueryOptions, jobQueryOptions } from "@/lib/api-client/queries/jobs.queries";
 import {
   createEndpointSchema,
+  getTimezoneOptions,
   transformCreatePayload,
 } from "@/lib/endpoint-forms";
 
@@ -42,6 +46,11 @@ export const Route = createFileRoute("/_authed/jobs/$jobId/endpoints/new")({
   component: CreateEndpointPage,
 });
 
+// Select items can't have an empty value; stands for "no TLS credential"
+const NO_TLS_CREDENTIAL = "none";
+// Likewise for "no auth profile"
+const NO_AUTH_PROFILE = "none";
+
 function CreateEndpointPage() {
   const { jobId } = Route.useParams();
   const { data: job } = useSuspenseQuery(jobQueryOptions(jobId));
@@ -53,11 +62,17 @@ function CreateEndpointPage() {
     resolver: zodResolver(createEndpointSchema),
     defaultValues: {
       scheduleType: "interval",
+      kind: "http",
       name: "",
       url: "",
       method: "GET",
       headers: [],
       bodyJson: "",
+      successStatusCodes: "",
+      successAssertions: "",
+      upstreamIds: [],
+      dependencyMode: "all",
+      blackoutWindows: "",
     },
   });
 
@@ -66,6 +81,14 @@ function CreateEndpointPage() {
     name: "headers",
   });
 
+  const isHeartbeat = form.watch("kind") === "heartbeat";
+  const { data: endpointsData } = useQuery(endpointsQueryOptions(jobId));
+  const siblingEndpoints = endpointsData?.endpoints.filter(ep => !ep.archivedAt) ?? [];
+  const { data: tlsCredentialsData } = useQuery(tlsCredentialsQueryOptions());
+  const tlsCredentials = tlsCredentialsData?.credentials ?? [];
+  const { data: authProfilesData } = useQuery(authProfilesQueryOptions());
+  const authProfiles = authProfilesData?.profiles ?? [];
+
   const { mutateAsync, isPending, error } = useMutation({
     mutationFn: async (data: CreateEndpointForm) => {
       const payload = transformCreatePayload(data);
@@ -155,30 +178,10 @@ function CreateEndpointPage() {
 
               <FormField
                 control={form.control}
-                name="url"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>URL</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="url"
-                        placeholder="https://api.example.com/users"
-                        {...field}
-                        disabled={isPending}
-                      />
-                    </FormControl>
-                    <FormDescription>The full URL to call for this endpoint</FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="method"
+                name="kind"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>HTTP Method</FormLabel>
+                    <FormLabel>Endpoint Type</FormLabel>
                     <Select
                       onValueChange={field.onChange}
                       defaultValue={field.value}
@@ -186,21 +189,78 @@ function CreateEndpointPage() {
                     >
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select HTTP method" />
+                          <SelectValue placeholder="Select endpoint type" />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="GET">GET</SelectItem>
-                        <SelectItem value="POST">POST</SelectItem>
-                        <SelectItem value="PUT">PUT</SelectItem>
-                        <SelectItem value="PATCH">PATCH</SelectItem>
-                        <SelectItem value="DELETE">DELETE</SelectItem>
+                        <SelectItem value="http">HTTP request</SelectItem>
+                        <SelectItem value="heartbeat">Heartbeat (inbound check-ins)</SelectItem>
                       </SelectContent>
                     </Select>
+                    <FormDescription>
+                      {isHeartbeat
+                        ? "Your job calls a ping URL when it runs; a missed check-in fails the endpoint. The type can't be changed later."
+                        : "Cronicorn calls your URL on schedule. The type can't be changed later."}
+                    </FormDescription>
                     <FormMessage />
                   </FormItem>
                 )}
               />
+
+              {!isHeartbeat && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>URL</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="url"
+                            placeholder="https://api.example.com/users"
+                            {...field}
+                            disabled={isPending}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          The full URL to call for this endpoint. Use templates like {"{{ endpoints.extract.lastResponse.batch_id }}"} to pass values from other endpoints in this job
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="method"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>HTTP Method</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                          disabled={isPending}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select HTTP method" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="GET">GET</SelectItem>
+                            <SelectItem value="POST">POST</SelectItem>
+                            <SelectItem value="PUT">PUT</SelectItem>
+                            <SelectItem value="PATCH">PATCH</SelectItem>
+                            <SelectItem value="DELETE">DELETE</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
             </CardContent>
           </Card>
 
@@ -208,7 +268,9 @@ function CreateEndpointPage() {
           <Card className="mb-6">
             <CardHeader>
               <CardTitle>Schedule</CardTitle>
-              <CardDescription>Configure when this endpoint should run</CardDescription>
+              <CardDescription>
+                {isHeartbeat ? "Configure how often your job is expected to check in" : "Configure when this endpoint should run"}
+              </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
               <FormField
@@ -265,7 +327,9 @@ function CreateEndpointPage() {
                           }
                         />
                       </FormControl>
-                      <FormDescription>How often should this endpoint run?</FormDescription>
+                      <FormDescription>
+                        {isHeartbeat ? "How often does your job check in?" : "How often should this endpoint run?"}
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -273,6 +337,7 @@ function CreateEndpointPage() {
               )}
 
               {form.watch("scheduleType") === "cron" && (
+                <>
                 <FormField
                   control={form.control}
                   name="baselineCron"
@@ -293,81 +358,142 @@ function CreateEndpointPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Timezone</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value || "UTC"}
+                        disabled={isPending}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select timezone" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {getTimezoneOptions().map(zone => (
+                            <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        The cron expression runs on this timezone's local time, including daylight saving changes
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                </>
+              )}
+
+              {isHeartbeat && (
+                <FormField
+                  control={form.control}
+                  name="graceMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Grace Period (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          placeholder="5"
+                          {...field}
+                          value={field.value ?? ""}
+                          disabled={isPending}
+                          onChange={(e) =>
+                            field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                          }
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        How late a check-in may arrive before it counts as missed (default: 5 minutes)
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
             </CardContent>
           </Card>
 
           {/* Headers Fields */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Request Headers</CardTitle>
-              <CardDescription>
-                Optional headers to include with each request
-              </CardDescription>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              {headerFields.map((headerField, index) => (
-                <FormFieldRow key={headerField.id}>
-                  <FormField
-                    control={form.control}
-                    name={`headers.${index}.key`}
-                    render={({ field }) => (
-                      <FormItem className="flex-1">
-                        {index === 0 && <FormLabel>Header Name</FormLabel>}
-                        <FormControl>
-                          <Input
-                            placeholder="e.g., Authorization"
-                            {...field}
-                            disabled={isPending}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <FormField
-                    control={form.control}
-                    name={`headers.${index}.value`}
-                    render={({ field }) => (
-                      <FormItem className="flex-1">
-                        {index === 0 && <FormLabel>Header Value</FormLabel>}
-                        <FormControl>
-                          <Input
-                            placeholder="e.g., Bearer your-token"
-                            {...field}
-                            disabled={isPending}
-                          />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                  <Button
-                    type="button"
-                    variant="outline"
-                    size="icon"
-                    onClick={() => removeHeader(index)}
-                    disabled={isPending}
-                    className="mb-2"
-                  >
-                    <X className="size-4" />
-                  </Button>
-                </FormFieldRow>
-              ))}
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => appendHeader({ key: "", value: "" })}
-                disabled={isPending}
-              >
-                <Plus className="size-4 mr-2" />
-                Add Header
-              </Button>
-            </CardContent>
-          </Card>
+          {!isHeartbeat && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Request Headers</CardTitle>
+                <CardDescription>
+                  Optional headers to include with each request. Reference stored secrets as {"{{ secret.NAME }}"}, e.g. Bearer {"{{ secret.STRIPE_KEY }}"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {headerFields.map((headerField, index) => (
+                  <FormFieldRow key={headerField.id}>
+                    <FormField
+                      control={form.control}
+                      name={`headers.${index}.key`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          {index === 0 && <FormLabel>Header Name</FormLabel>}
+                          <FormControl>
+                            <Input
+                              placeholder="e.g., Authorization"
+                              {...field}
+                              disabled={isPending}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name={`headers.${index}.value`}
+                      render={({ field }) => (
+                        <FormItem className="flex-1">
+                          {index === 0 && <FormLabel>Header Value</FormLabel>}
+                          <FormControl>
+                            <Input
+                              placeholder="e.g., Bearer your-token"
+                              {...field}
+                              disabled={isPending}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => removeHeader(index)}
+                      disabled={isPending}
+                      className="mb-2"
+                    >
+                      <X className="size-4" />
+                    </Button>
+                  </FormFieldRow>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => appendHeader({ key: "", value: "" })}
+                  disabled={isPending}
+                >
+                  <Plus className="size-4 mr-2" />
+                  Add Header
+                </Button>
+              </CardContent>
+            </Card>
+          )}
 
           {/* Request Body (for POST/PUT/PATCH/DELETE) */}
-          {form.watch("method") !== "GET" && (
+          {!isHeartbeat && form.watch("method") !== "GET" && (
             <Card className="mb-6">
               <CardHeader>
                 <CardTitle>Request Body</CardTitle>
@@ -392,7 +518,7 @@ function CreateEndpointPage() {
                         />
                       </FormControl>
                       <FormDescription>
-                        Enter valid JSON. Will be parsed and validated before submission.
+                        Enter valid JSON. Will be parsed and validated before submission. String values may use templates such as {"{{ run.id }}"} or {"{{ now | iso }}"}, and secrets as {"{{ secret.NAME }}"}.
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -402,136 +528,178 @@ function CreateEndpointPage() {
             </Card>
           )}
 
-          {/* Advanced Configuration */}
-          <Card className="mb-6">
-            <CardHeader>
-              <div className="flex items-center justify-between">
-                <div>
-                  <CardTitle>Advanced Configuration</CardTitle>
-                  <CardDescription>
-                    Optional timeout, execution limits, and AI scheduling constraints
-                  </CardDescription>
-                </div>
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setShowAdvanced(!showAdvanced)}
-                >
-                  {showAdvanced ? (
-                    <>
-                      <ChevronUp className="size-4 mr-1" />
-                      Hide
-                    </>
-                  ) : (
-                    <>
-                      <ChevronDown className="size-4 mr-1" />
-                      Show
-                    </>
-                  )}
-                </Button>
-              </div>
-            </CardHeader>
-            {showAdvanced && (
+          {/* Dependencies (HTTP endpoints only) */}
+          {!isHeartbeat && siblingEndpoints.length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Dependencies</CardTitle>
+                <CardDescription>
+                  Also run this endpoint when other endpoints of this job succeed. The schedule above keeps running as a fallback.
+                </CardDescription>
+              </CardHeader>
               <CardContent className="space-y-4">
-                <GridLayout cols={1} md={2}>
-                  <FormField
-                    control={form.control}
-                    name="timeoutMs"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Request Timeout (ms)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="1"
-                            placeholder="e.g., 30000"
-                            {...field}
-                            disabled={isPending}
-                            value={field.value ?? ""}
-                            onChange={(e) =>
-                              field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                            }
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          HTTP request timeout in milliseconds
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                <FormField
+                  control={form.control}
+                  name="upstreamIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Run after</FormLabel>
+                      <div className="space-y-2">
+                        {siblingEndpoints.map(sibling => (
+                          <div key={sibling.id} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`upstream-${sibling.id}`}
+                              checked={(field.value ?? []).includes(sibling.id)}
+                              onCheckedChange={(checked) => {
+                                const current = field.value ?? [];
+                                field.onChange(checked === true
+                                  ? [...current, sibling.id]
+                                  : current.filter(upstreamId => upstreamId !== sibling.id));
+                              }}
+                              disabled={isPending}
+                            />
+                            <Label htmlFor={`upstream-${sibling.id}`} className="font-normal">
+                              {sibling.name}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
-                  <FormField
-                    control={form.control}
-                    name="maxExecutionTimeMs"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Max Execution Time (ms)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="1"
-                            max="1800000"
-                            placeholder="e.g., 60000 (1 min)"
-                            {...field}
+                {(form.watch("upstreamIds") ?? []).length > 0 && (
+                  <GridLayout cols={1} md={2}>
+                    <FormField
+                      control={form.control}
+                      name="dependencyMode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Trigger when</FormLabel>
+                          <Select
+                            onValueChange={field.onChange}
+                            defaultValue={field.value ?? "all"}
                             disabled={isPending}
-                            value={field.value ?? ""}
-                            onChange={(e) =>
-                              field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                            }
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Lock duration for distributed execution (max: 30 min)
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="all">All upstreams succeed</SelectItem>
+                              <SelectItem value="any">Any upstream succeeds</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="dependencyDelaySeconds"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Delay (seconds)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="86400"
+                              placeholder="0"
+                              {...field}
+                              disabled={isPending}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                              }
+                            />
+                          </FormControl>
+                          <FormDescription>Wait after the upstream finishes (max 24 hours)</FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </GridLayout>
+                )}
+              </CardContent>
+            </Card>
+          )}
 
-                  <FormField
-                    control={form.control}
-                    name="maxResponseSizeKb"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Max Response Size (KB)</FormLabel>
-                        <FormControl>
-                          <Input
-                            type="number"
-                            min="1"
-                            placeholder="e.g., 1024"
-                            {...field}
-                            disabled={isPending}
-                            value={field.value ?? ""}
-                            onChange={(e) =>
-                              field.onChange(e.target.value ? Number(e.target.value) : undefined)
-                            }
-                          />
-                        </FormControl>
-                        <FormDescription>
-                          Maximum response body size to capture
-                        </FormDescription>
-                        <FormMessage />
-                      </FormItem>
+          {/* Advanced Configuration */}
+          {!isHeartbeat && (
+            <Card className="mb-6">
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Advanced Configuration</CardTitle>
+                    <CardDescription>
+                      Optional timeout, execution limits, and AI scheduling constraints
+                    </CardDescription>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setShowAdvanced(!showAdvanced)}
+                  >
+                    {showAdvanced ? (
+                      <>
+                        <ChevronUp className="size-4 mr-1" />
+                        Hide
+                      </>
+                    ) : (
+                      <>
+                        <ChevronDown className="size-4 mr-1" />
+                        Show
+                      </>
                     )}
-                  />
-                </GridLayout>
-
-                <div className="pt-4 border-t">
-                  <h4 className="text-sm font-medium mb-3">AI Scheduling Constraints</h4>
+                  </Button>
+                </div>
+              </CardHeader>
+              {showAdvanced && (
+                <CardContent className="space-y-4">
                   <GridLayout cols={1} md={2}>
                     <FormField
                       control={form.control}
-                      name="minIntervalMinutes"
+                      name="timeoutMs"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Request Timeout (ms)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              placeholder="e.g., 30000"
+                              {...field}
+                              disabled={isPending}
+                              value={field.value ?? ""}
+                              onChange={(e) =>
+                                field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                              }
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            HTTP request timeout in milliseconds
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="maxExecutionTimeMs"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Min Interval (minutes)</FormLabel>
+                          <FormLabel>Max Execution Time (ms)</FormLabel>
                           <FormControl>
                             <Input
                               type="number"
                               min="1"
-                              placeholder="e.g., 5"
+                              max="1800000"
+                              placeholder="e.g., 60000 (1 min)"
                               {...field}
                               disabled={isPending}
                               value={field.value ?? ""}
@@ -541,7 +709,7 @@ function CreateEndpointPage() {
                             />
                           </FormControl>
                           <FormDescription>
-                            Minimum time between AI-adjusted runs
+                            Lock duration for distributed execution (max: 30 min)
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -550,15 +718,15 @@ function CreateEndpointPage() {
 
                     <FormField
                       control={form.control}
-                      name="maxIntervalMinutes"
+                      name="maxResponseSizeKb"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Max Interval (minutes)</FormLabel>
+                          <FormLabel>Max Response Size (KB)</FormLabel>
                           <FormControl>
                             <Input
                               type="number"
                               min="1"
-                              placeholder="e.g., 60"
+                              placeholder="e.g., 1024"
                               {...field}
                               disabled={isPending}
                               value={field.value ?? ""}
@@ -568,17 +736,450 @@ function CreateEndpointPage() {
                             />
                           </FormControl>
                           <FormDescription>
-                            Maximum time between AI-adjusted runs
+                            Maximum response body size to capture
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
                       )}
                     />
                   </GridLayout>
-                </div>
-              </CardContent>
-            )}
-          </Card>
+
+                  <div className="pt-4 border-t">
+                    <h4 className="text-sm font-medium mb-3">AI Scheduling Constraints</h4>
+                    <GridLayout cols={1} md={2}>
+                      <FormField
+                        control={form.control}
+                        name="minIntervalMinutes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Min Interval (minutes)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                placeholder="e.g., 5"
+                                {...field}
+                                disabled={isPending}
+                                value={field.value ?? ""}
+                                onChange={(e) =>
+                                  field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                }
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Minimum time between AI-adjusted runs
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="maxIntervalMinutes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Max Interval (minutes)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                placeholder="e.g., 60"
+                                {...field}
+                                disabled={isPending}
+                                value={field.value ?? ""}
+                                onChange={(e) =>
+                                  field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                }
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Maximum time between AI-adjusted runs
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </GridLayout>
+                  </div>
+
+                  <div className="pt-4 border-t">
+                    <h4 className="text-sm font-medium mb-3">Retries</h4>
+                    <GridLayout cols={1} md={3}>
+                      <FormField
+                        control={form.control}
+                        name="retryPolicy.maxAttempts"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Max Attempts</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                max="10"
+                                placeholder="1 (no retries)"
+                                {...field}
+                                disabled={isPending}
+                                value={field.value ?? ""}
+                                onChange={(e) =>
+                                  field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                }
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Attempts per run, including the first
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="retryPolicy.backoff"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Backoff</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value || "exponential"}
+                              disabled={isPending}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select backoff" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="fixed">Fixed</SelectItem>
+                                <SelectItem value="exponential">Exponential</SelectItem>
+                                <SelectItem value="jittered">Exponential with jitter</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              How the delay grows between attempts
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="retryPolicy.initialDelayMs"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Initial Delay (ms)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="0"
+                                placeholder="e.g., 1000"
+                                {...field}
+                                disabled={isPending}
+                                value={field.value ?? ""}
+                                onChange={(e) =>
+                                  field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                }
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Wait before the first retry (Retry-After is honored)
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </GridLayout>
+                  </div>
+
+                  <div className="pt-4 border-t">
+                    <h4 className="text-sm font-medium mb-3">Missed Runs</h4>
+                    <GridLayout cols={1} md={2}>
+                      <FormField
+                        control={form.control}
+                        name="misfirePolicy.mode"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>After Downtime</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value || "run-once"}
+                              disabled={isPending}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select policy" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="run-once">Run once</SelectItem>
+                                <SelectItem value="run-all">Run every missed run</SelectItem>
+                                <SelectItem value="skip">Skip missed runs</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              What happens to scheduled runs missed while the scheduler was down
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      {form.watch("misfirePolicy.mode") === "run-all" && (
+                        <FormField
+                          control={form.control}
+                          name="misfirePolicy.maxBacklog"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Max Backlog</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  max="100"
+                                  placeholder="10 (default)"
+                                  {...field}
+                                  disabled={isPending}
+                                  value={field.value ?? ""}
+                                  onChange={(e) =>
+                                    field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                  }
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                Most missed runs replayed; older ones are skipped
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+                    </GridLayout>
+                  </div>
+
+                  <div className="pt-4 border-t">
+                    <h4 className="text-sm font-medium mb-3">Overlapping Runs</h4>
+                    <GridLayout cols={1} md={2}>
+                      <FormField
+                        control={form.control}
+                        name="concurrencyPolicy"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>While a Run Is in Progress</FormLabel>
+                            <Select
+                              onValueChange={field.onChange}
+                              value={field.value || "allow"}
+                              disabled={isPending}
+                            >
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder="Select policy" />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="allow">Start the new run too</SelectItem>
+                                <SelectItem value="forbid">Skip the new run</SelectItem>
+                                <SelectItem value="replace">Cancel the earlier run</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              When a run is due before the previous one finished. Skipped runs show as canceled in history
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </GridLayout>
+                  </div>
+
+                  {!isHeartbeat && (
+                    <div className="pt-4 border-t">
+                      <h4 className="text-sm font-medium mb-3">Authentication</h4>
+                      <GridLayout cols={1} md={2}>
+                        <FormField
+                          control={form.control}
+                          name="authProfileName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Auth Profile</FormLabel>
+                              <Select
+                                onValueChange={value => field.onChange(value === NO_AUTH_PROFILE ? "" : value)}
+                                value={field.value || NO_AUTH_PROFILE}
+                                disabled={isPending}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select profile" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value={NO_AUTH_PROFILE}>None</SelectItem>
+                                  {/* Keep a deleted profile selectable so the form shows what the endpoint references */}
+                                  {field.value && !authProfiles.some(profile => profile.name === field.value) && (
+                                    <SelectItem value={field.value}>{field.value} (missing)</SelectItem>
+                                  )}
+                                  {authProfiles.map(profile => (
+                                    <SelectItem key={profile.name} value={profile.name}>{profile.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormDescription>
+                                Sends an OAuth2 access token as Authorization: Bearer, replacing any Authorization header. Add profiles under Auth Profiles
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </GridLayout>
+                    </div>
+                  )}
+
+                  {!isHeartbeat && (
+                    <div className="pt-4 border-t">
+                      <h4 className="text-sm font-medium mb-3">TLS</h4>
+                      <GridLayout cols={1} md={2}>
+                        <FormField
+                          control={form.control}
+                          name="tlsCredentialName"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>TLS Credential</FormLabel>
+                              <Select
+                                onValueChange={value => field.onChange(value === NO_TLS_CREDENTIAL ? "" : value)}
+                                value={field.value || NO_TLS_CREDENTIAL}
+                                disabled={isPending}
+                              >
+                                <FormControl>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select credential" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  <SelectItem value={NO_TLS_CREDENTIAL}>None (default trust store)</SelectItem>
+                                  {/* Keep a deleted credential selectable so the form shows what the endpoint references */}
+                                  {field.value && !tlsCredentials.some(credential => credential.name === field.value) && (
+                                    <SelectItem value={field.value}>{field.value} (missing)</SelectItem>
+                                  )}
+                                  {tlsCredentials.map(credential => (
+                                    <SelectItem key={credential.name} value={credential.name}>{credential.name}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormDescription>
+                                Client certificate and CA bundle for mutual TLS or a private CA. Upload them under TLS Credentials
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </GridLayout>
+                    </div>
+                  )}
+
+                  <div className="pt-4 border-t">
+                    <h4 className="text-sm font-medium mb-3">Success Criteria</h4>
+                    <GridLayout cols={1} md={2}>
+                      <FormField
+                        control={form.control}
+                        name="successStatusCodes"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Accepted Status Codes</FormLabel>
+                            <FormControl>
+                              <Input
+                                placeholder="2xx (default)"
+                                {...field}
+                                disabled={isPending}
+                                value={field.value ?? ""}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Comma-separated codes, classes or ranges, e.g. 2xx, 304
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+
+                      <FormField
+                        control={form.control}
+                        name="successMaxLatencyMs"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Max Latency (ms)</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min="1"
+                                placeholder="No limit"
+                                {...field}
+                                disabled={isPending}
+                                value={field.value ?? ""}
+                                onChange={(e) =>
+                                  field.onChange(e.target.value ? Number(e.target.value) : undefined)
+                                }
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Slower responses fail the run
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </GridLayout>
+
+                    <FormField
+                      control={form.control}
+                      name="successAssertions"
+                      render={({ field }) => (
+                        <FormItem className="mt-4">
+                          <FormLabel>Response Assertions (Optional)</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder={'[\n  { "path": "$.status", "operator": "equals", "value": "ok" }\n]'}
+                              rows={5}
+                              className="font-mono text-sm"
+                              {...field}
+                              disabled={isPending}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            JSON array of assertions on the response body. Paths are JSONPath ($.a.b) or JSON pointer (/a/b); operators: exists, notExists, equals, notEquals, contains, matches, gt, gte, lt, lte.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="blackoutWindows"
+                      render={({ field }) => (
+                        <FormItem className="mt-4">
+                          <FormLabel>Blackout Windows (Optional)</FormLabel>
+                          <FormControl>
+                            <Textarea
+                              placeholder={'[\n  { "name": "Sunday maintenance", "daysOfWeek": [0], "startTime": "02:00", "endTime": "04:00", "timezone": "Europe/Berlin" }\n]'}
+                              rows={5}
+                              className="font-mono text-sm"
+                              {...field}
+                              disabled={isPending}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            JSON array of recurring periods in which no run starts, on top of the job's windows. Each window may select daysOfWeek (0 = Sunday), dates ("YYYY-MM-DD") or a calendar ("us-federal-holidays"), with startTime/endTime ("HH:MM") or whole days. Runs due inside a window, including AI hints and manual runs, move to its end.
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          )}
 
           <ActionsGroup className="justify-end" gap="2">
             <Button variant="outline" disabled={isPending} onClick={onCancel}>
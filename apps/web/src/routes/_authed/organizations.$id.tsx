@@ -0,0 +1,499 @@
+import { useMutation, useQuery, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { CreditCard, KeyRound, Mail, Trash2, UserMinus, UserPlus, Users } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@cronicorn/ui-library/components/alert-dialog";
+import { Badge } from "@cronicorn/ui-library/components/badge";
+import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { Input } from "@cronicorn/ui-library/components/input";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@cronicorn/ui-library/components/select";
+import { toast } from "@cronicorn/ui-library/lib/utils";
+
+import type { OrgRole, OrganizationMember } from "@/lib/api-client/queries/orgs.queries";
+import { EmptyCTA } from "@/components/cards/empty-cta";
+import { ListCard } from "@/components/cards/list-card";
+import { CodeDisplay } from "@/components/composed/code-display";
+import { PageHeader } from "@/components/composed/page-header";
+import { PageSection } from "@/components/primitives/page-section";
+import {
+  ORGS_QUERY_KEY,
+  createInvitation,
+  createOrgApiKey,
+  deleteOrganization,
+  invitationsQueryOptions,
+  organizationQueryOptions,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+} from "@/lib/api-client/queries/orgs.queries";
+import { createCheckoutSession, createPortalSession } from "@/lib/api-client/queries/subscriptions.queries";
+
+export const Route = createFileRoute("/_authed/organizations/$id")({
+  loader: ({ context: { queryClient }, params }) => {
+    return queryClient.ensureQueryData(organizationQueryOptions(params.id));
+  },
+  component: OrganizationPage,
+});
+
+const ROLES: Array<{ value: OrgRole; label: string; description: string }> = [
+  { value: "owner", label: "Owner", description: "Everything, including billing and deleting the organization" },
+  { value: "admin", label: "Admin", description: "Manage members, invitations and API keys" },
+  { value: "editor", label: "Editor", description: "Create and change jobs and endpoints" },
+  { value: "viewer", label: "Viewer", description: "Read-only access to jobs, runs and the dashboard" },
+];
+
+function isAtLeast(role: OrgRole, required: OrgRole) {
+  const rank = (r: OrgRole) => ROLES.findIndex((entry) => entry.value === r);
+  return rank(role) <= rank(required);
+}
+
+function OrganizationPage() {
+  const { id } = Route.useParams();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { session } = Route.useRouteContext();
+  const { data: org } = useSuspenseQuery(organizationQueryOptions(id));
+
+  const isAdmin = isAtLeast(org.role, "admin");
+  const isOwner = org.role === "owner";
+
+  const [inviting, setInviting] = useState(false);
+  const [creatingKey, setCreatingKey] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<OrganizationMember | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const { data: invitationsData } = useQuery({ ...invitationsQueryOptions(id), enabled: isAdmin });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: [...ORGS_QUERY_KEY] });
+
+  const roleMutation = useMutation({
+    mutationFn: updateMemberRole,
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: removeMember,
+    onSuccess: async (_, vars) => {
+      setMemberToRemove(null);
+      if (vars.userId === session.user.id) {
+        await invalidate();
+        await navigate({ to: "/organizations" });
+        return;
+      }
+      invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: revokeInvitation,
+    onSuccess: invalidate,
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => deleteOrganization(id),
+    onSuccess: async () => {
+      await invalidate();
+      await navigate({ to: "/organizations" });
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const billingMutation = useMutation({
+    mutationFn: async () => org.tier === "free"
+      ? (await createCheckoutSession({ tier: "pro", billingPeriod: "monthly", orgId: id })).checkoutUrl
+      : (await createPortalSession(id)).portalUrl,
+    onSuccess: (url) => {
+      window.location.href = url;
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <>
+      <PageHeader
+        text={org.name}
+        description={`You're ${org.role === "admin" || org.role === "owner" ? "an" : "a"} ${org.role} of this organization`}
+        slotRight={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setCreatingKey(true)}>
+              <KeyRound className="size-4" />
+              Org API Key
+            </Button>
+            {isAdmin && (
+              <Button onClick={() => setInviting(true)}>
+                <UserPlus className="size-4" />
+                Invite
+              </Button>
+            )}
+          </div>
+        }
+      />
+
+      <PageSection>
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">Members</h2>
+          {org.members.map((member) => {
+            const isSelf = member.userId === session.user.id;
+            const canManage = isSelf || (isAdmin && (isOwner || member.role !== "owner"));
+            return (
+              <ListCard
+                key={member.userId}
+                icon={Users}
+                hover={false}
+                title={`${member.name || member.email}${isSelf ? " (you)" : ""}`}
+                subtitle={member.email}
+                metadata={[`Joined ${new Date(member.joinedAt).toLocaleDateString()}`]}
+                actions={
+                  <div className="flex gap-2 items-center">
+                    {isAdmin && !isSelf && (isOwner || member.role !== "owner") ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => roleMutation.mutate({ orgId: id, userId: member.userId, role: role as OrgRole })}
+                      >
+                        <SelectTrigger className="w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.filter((r) => isOwner || r.value !== "owner").map((r) => (
+                            <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{member.role}</Badge>
+                    )}
+                    {canManage && (
+                      <Button variant="ghost" size="sm" onClick={() => setMemberToRemove(member)}>
+                        <UserMinus className="h-4 w-4 mr-2" />
+                        {isSelf ? "Leave" : "Remove"}
+                      </Button>
+                    )}
+                  </div>
+                }
+              />
+            );
+          })}
+        </div>
+      </PageSection>
+
+      {isAdmin && (
+        <PageSection>
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold">Pending Invitations</h2>
+            {invitationsData?.invitations.length ? (
+              invitationsData.invitations.map((invitation) => {
+                const expired = new Date(invitation.expiresAt) < new Date();
+                return (
+                  <ListCard
+                    key={invitation.id}
+                    icon={Mail}
+                    hover={false}
+                    title={invitation.email}
+                    metadata={[
+                      <Badge key="role" variant="outline">{invitation.role}</Badge>,
+                      expired ? "Expired" : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`,
+                    ]}
+                    actions={
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => revokeMutation.mutate({ orgId: id, invitationId: invitation.id })}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Revoke
+                      </Button>
+                    }
+                  />
+                );
+              })
+            ) : (
+              <EmptyCTA
+                icon={Mail}
+                variant="centered"
+                title="No pending invitations"
+                description="Invite teammates by email; they join with the role you choose."
+              />
+            )}
+          </div>
+        </PageSection>
+      )}
+
+      <PageSection>
+        <div className="space-y-4">
+          <h2 className="text-lg font-semibold">Billing</h2>
+          <Alert>
+            <CreditCard className="size-4" />
+            <AlertDescription>
+              <span>
+                This organization is on the <Badge variant="secondary">{org.tier}</Badge> plan.
+                Limits for its endpoints come from this plan, not from members&apos; personal plans.
+              </span>
+            </AlertDescription>
+          </Alert>
+          {isOwner && (
+            <Button variant="outline" onClick={() => billingMutation.mutate()} disabled={billingMutation.isPending}>
+              {org.tier === "free" ? "Upgrade to Pro" : "Manage Billing"}
+            </Button>
+          )}
+        </div>
+      </PageSection>
+
+      {isOwner && (
+        <PageSection>
+          <div className="space-y-4">
+            <h2 className="text-lg font-semibold text-destructive">Danger Zone</h2>
+            <Button variant="destructive" onClick={() => setConfirmDelete(true)}>
+              <Trash2 className="size-4" />
+              Delete Organization
+            </Button>
+          </div>
+        </PageSection>
+      )}
+
+      <InviteDialog orgId={id} isOwner={isOwner} open={inviting} onClose={() => setInviting(false)} onInvited={invalidate} />
+      <OrgApiKeyDialog orgId={id} orgName={org.name} open={creatingKey} onClose={() => setCreatingKey(false)} />
+
+      <AlertDialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {memberToRemove?.userId === session.user.id ? "Leave Organization" : "Remove Member"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {memberToRemove?.userId === session.user.id
+                ? `You'll lose access to ${org.name}'s jobs until someone invites you again.`
+                : `${memberToRemove?.name || memberToRemove?.email} will lose access to ${org.name}'s jobs.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => memberToRemove && removeMutation.mutate({ orgId: id, userId: memberToRemove.userId })}
+              disabled={removeMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {removeMutation.isPending ? "Removing..." : "Confirm"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Organization</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <span className="font-semibold">{org.name}</span> with all of its jobs, endpoints and run history?
+              This can&apos;t be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Organization"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function InviteDialog({ orgId, isOwner, open, onClose, onInvited }: {
+  orgId: string;
+  isOwner: boolean;
+  open: boolean;
+  onClose: () => void;
+  onInvited: () => void;
+}) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<OrgRole>("editor");
+  const [acceptUrl, setAcceptUrl] = useState<string | null>(null);
+
+  const close = () => {
+    setEmail("");
+    setRole("editor");
+    setAcceptUrl(null);
+    onClose();
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: () => createInvitation(orgId, { email: email.trim(), role }),
+    onSuccess: (created) => {
+      onInvited();
+      if (created.emailSent) {
+        toast.success(`Invitation sent to ${created.email}`);
+        close();
+        return;
+      }
+      // No email delivered: show the link so it can be shared directly
+      setAcceptUrl(created.acceptUrl);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Invite Member</DialogTitle>
+          <DialogDescription>
+            The invitation can only be accepted by an account with this email address and expires after 7 days.
+          </DialogDescription>
+        </DialogHeader>
+
+        {acceptUrl ? (
+          <div className="space-y-2 py-2">
+            <p className="text-sm text-muted-foreground">
+              The email couldn&apos;t be sent. Share this link with them instead:
+            </p>
+            <CodeDisplay code={acceptUrl} />
+          </div>
+        ) : (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="teammate@example.com"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as OrgRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ROLES.filter((r) => isOwner || r.value !== "owner").map((r) => (
+                    <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {ROLES.find((r) => r.value === role)?.description}
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>{acceptUrl ? "Done" : "Cancel"}</Button>
+          {!acceptUrl && (
+            <Button onClick={() => inviteMutation.mutate()} disabled={inviteMutation.isPending || !email.trim()}>
+              {inviteMutation.isPending ? "Inviting..." : "Send Invitation"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function OrgApiKeyDialog({ orgId, orgName, open, onClose }: {
+  orgId: string;
+  orgName: string;
+  open: boolean;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [key, setKey] = useState<string | null>(null);
+
+  const close = () => {
+    setName("");
+    setKey(null);
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => createOrgApiKey({ orgId, name: name.trim() }),
+    onSuccess: (created) => {
+      setKey(created.key);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Org API Key</DialogTitle>
+          <DialogDescription>
+            Requests with this key act as you, with your role in {orgName}, and can only reach this organization&apos;s jobs.
+            Manage or delete it on the API Keys page.
+          </DialogDescription>
+        </DialogHeader>
+
+        {key ? (
+          <div className="space-y-2 py-2">
+            <p className="text-sm text-muted-foreground">Copy the key now; it won&apos;t be shown again.</p>
+            <CodeDisplay code={key} />
+          </div>
+        ) : (
+          <div className="space-y-2 py-2">
+            <Label htmlFor="org-key-name">Name</Label>
+            <Input
+              id="org-key-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="CI deploys"
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>{key ? "Done" : "Cancel"}</Button>
+          {!key && (
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !name.trim()}>
+              {createMutation.isPending ? "Creating..." : "Create Key"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
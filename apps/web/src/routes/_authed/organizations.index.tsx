@@ -0,0 +1,148 @@
+import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute, useNavigate } from "@tanstack/react-router";
+import { Plus, Users } from "lucide-react";
+import { useState } from "react";
+
+import { Badge } from "@cronicorn/ui-library/components/badge";
+import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { Input } from "@cronicorn/ui-library/components/input";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { toast } from "@cronicorn/ui-library/lib/utils";
+
+import { EmptyCTA } from "@/components/cards/empty-cta";
+import { ListCard } from "@/components/cards/list-card";
+import { PageHeader } from "@/components/composed/page-header";
+import { PageSection } from "@/components/primitives/page-section";
+import {
+  ORGS_QUERY_KEY,
+  createOrganization,
+  organizationsQueryOptions,
+} from "@/lib/api-client/queries/orgs.queries";
+
+export const Route = createFileRoute("/_authed/organizations/")({
+  loader: ({ context: { queryClient } }) => {
+    return queryClient.ensureQueryData(organizationsQueryOptions());
+  },
+  component: OrganizationsPage,
+});
+
+function OrganizationsPage() {
+  const navigate = useNavigate();
+  const { data } = useSuspenseQuery(organizationsQueryOptions());
+  const [creating, setCreating] = useState(false);
+
+  return (
+    <>
+      <PageHeader
+        text="Organizations"
+        description="Share jobs with your team, with roles for who can view, edit and manage them"
+        slotRight={
+          <Button onClick={() => setCreating(true)}>
+            <Plus className="size-4" />
+            New Organization
+          </Button>
+        }
+      />
+
+      <PageSection>
+        <div className="space-y-4">
+          {data.organizations.length ? (
+            data.organizations.map((org) => (
+              <ListCard
+                key={org.id}
+                icon={Users}
+                title={org.name}
+                onClick={() => navigate({ to: "/organizations/$id", params: { id: org.id } })}
+                metadata={[
+                  <Badge key="role" variant="outline">{org.role}</Badge>,
+                  <Badge key="tier" variant="secondary">{org.tier}</Badge>,
+                ]}
+              />
+            ))
+          ) : (
+            <EmptyCTA
+              icon={Users}
+              variant="centered"
+              title="No organizations yet"
+              description="Create an organization and invite your teammates instead of sharing one login."
+            />
+          )}
+        </div>
+      </PageSection>
+
+      <CreateOrganizationDialog
+        open={creating}
+        onClose={() => setCreating(false)}
+        onCreated={(orgId) => navigate({ to: "/organizations/$id", params: { id: orgId } })}
+      />
+    </>
+  );
+}
+
+function CreateOrganizationDialog({ open, onClose, onCreated }: {
+  open: boolean;
+  onClose: () => void;
+  onCreated: (orgId: string) => void;
+}) {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState("");
+
+  const close = () => {
+    setName("");
+    onClose();
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createOrganization,
+    onSuccess: (org) => {
+      queryClient.invalidateQueries({ queryKey: [...ORGS_QUERY_KEY] });
+      close();
+      onCreated(org.id);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Organization</DialogTitle>
+          <DialogDescription>
+            You&apos;ll be its owner. Invite teammates once it&apos;s created.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 py-2">
+          <Label htmlFor="org-name">Name</Label>
+          <Input
+            id="org-name"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Acme Inc."
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={() => createMutation.mutate(name.trim())}
+            disabled={createMutation.isPending || !name.trim()}
+          >
+            {createMutation.isPending ? "Creating..." : "Create Organization"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
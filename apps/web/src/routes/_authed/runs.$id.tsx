@@ -4,13 +4,30 @@ import { AlertCircle } from "lucide-react";
 
 import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
 import { Badge } from "@cronicorn/ui-library/components/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@cronicorn/ui-library/components/table";
 import { CodeDisplay } from "../../components/composed/code-display";
+import { TraceLink } from "../../components/composed/trace-link";
 import { PageSection } from "../../components/primitives/page-section";
 import { DetailSection } from "../../components/cards/detail-section";
 import { InfoField, InfoGrid } from "../../components/cards/info-grid";
 import { runQueryOptions } from "@/lib/api-client/queries/runs.queries";
 import { PageHeader } from "@/components/composed/page-header";
 
+/** Who requested a manual run */
+const RUN_REQUESTER_LABELS = {
+  user: "User",
+  api_key: "API key",
+  device: "Device",
+  ai_session: "AI session",
+} as const;
+
 export const Route = createFileRoute("/_authed/runs/$id")({
   loader: async ({ params, context }) => {
     await context.queryClient.ensureQueryData(runQueryOptions(params.id));
@@ -51,6 +68,12 @@ function RunDetailsPage() {
               label="Finished At"
               value={run.finishedAt ? new Date(run.finishedAt).toLocaleString() : "N/A"}
             />
+            {run.scheduledFor && (
+              <InfoField
+                label="Scheduled For"
+                value={new Date(run.scheduledFor).toLocaleString()}
+              />
+            )}
             {run.source && (
               <InfoField
                 label="Triggered By"
@@ -61,15 +84,65 @@ function RunDetailsPage() {
                 }
               />
             )}
+            {run.triggeredBy && (
+              <InfoField
+                label="Requested By"
+                value={`${RUN_REQUESTER_LABELS[run.triggeredBy.type]} ${run.triggeredBy.id.substring(0, 12)}`}
+              />
+            )}
             {typeof run.attempt === "number" && (
               <InfoField
-                label="Attempt"
-                value={run.attempt === 0 ? "First run" : `Retry #${run.attempt}`}
+                label="Attempts"
+                value={run.attempt <= 1 ? "1 (no retries)" : `${run.attempt} (${run.attempt - 1} ${run.attempt === 2 ? "retry" : "retries"})`}
               />
             )}
+            {typeof run.lagMs === "number" && (
+              <InfoField label="Scheduling Lag" value={`${run.lagMs}ms`} />
+            )}
+            {typeof run.queueWaitMs === "number" && (
+              <InfoField label="Queue Wait" value={`${run.queueWaitMs}ms`} />
+            )}
+            {run.traceId && (
+              <InfoField label="Trace" value={<TraceLink traceId={run.traceId} />} />
+            )}
           </InfoGrid>
         </DetailSection>
 
+        {run.attempts && run.attempts.length > 1 && (
+          <DetailSection title="Attempts">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Started At</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Status Code</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead>Error</TableHead>
+                  <TableHead>Next Retry In</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {run.attempts.map(attempt => (
+                  <TableRow key={attempt.attempt}>
+                    <TableCell>{attempt.attempt}</TableCell>
+                    <TableCell>{new Date(attempt.startedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={getStatusVariant(attempt.status)}>{attempt.status}</Badge>
+                    </TableCell>
+                    <TableCell>{attempt.statusCode ?? "—"}</TableCell>
+                    <TableCell>{`${attempt.durationMs}ms`}</TableCell>
+                    <TableCell className="max-w-xs truncate" title={attempt.errorMessage}>
+                      {attempt.errorMessage ?? "—"}
+                    </TableCell>
+                    <TableCell>{typeof attempt.delayMs === "number" ? `${attempt.delayMs}ms` : "—"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </DetailSection>
+        )}
+
         {run.endpoint && (
           <DetailSection title="Endpoint Details">
             <InfoGrid columns={1}>
@@ -133,6 +206,15 @@ function RunDetailsPage() {
                     enableCopy={true}
                     className="mt-2 border-destructive/20"
                   />
+                  {(run.errorDetails?.criterion || run.errorDetails?.authProfile) && (
+                    <CodeDisplay
+                      code={JSON.stringify(run.errorDetails, null, 2)}
+                      language="json"
+                      maxHeight="200px"
+                      enableCopy={true}
+                      className="mt-2 border-destructive/20"
+                    />
+                  )}
                 </AlertDescription>
               </Alert>
             )
@@ -0,0 +1,238 @@
+import { useMutation, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { createFileRoute } from "@tanstack/react-router";
+import { LockKeyhole, Pencil, Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+import { Alert, AlertDescription } from "@cronicorn/ui-library/components/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@cronicorn/ui-library/components/alert-dialog";
+import { Button } from "@cronicorn/ui-library/components/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { Input } from "@cronicorn/ui-library/components/input";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { toast } from "@cronicorn/ui-library/lib/utils";
+
+import type { Secret } from "@/lib/api-client/queries/secrets.queries";
+import { EmptyCTA } from "@/components/cards/empty-cta";
+import { ListCard } from "@/components/cards/list-card";
+import { PageHeader } from "@/components/composed/page-header";
+import { InlineBadge } from "@/components/primitives/inline-badge";
+import { PageSection } from "@/components/primitives/page-section";
+import {
+  SECRETS_QUERY_KEY,
+  deleteSecret,
+  secretsQueryOptions,
+  setSecret,
+} from "@/lib/api-client/queries/secrets.queries";
+
+export const Route = createFileRoute("/_authed/secrets")({
+  loader: ({ context: { queryClient } }) => {
+    return queryClient.ensureQueryData(secretsQueryOptions());
+  },
+  component: SecretsPage,
+});
+
+const SECRET_NAME_PATTERN = /^[A-Z_][A-Z0-9_]{0,63}$/;
+
+function SecretsPage() {
+  const queryClient = useQueryClient();
+  const { data } = useSuspenseQuery(secretsQueryOptions());
+
+  // null: closed, "": new secret, otherwise the name being replaced
+  const [editing, setEditing] = useState<string | null>(null);
+  const [secretToDelete, setSecretToDelete] = useState<Secret | null>(null);
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteSecret,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...SECRETS_QUERY_KEY] });
+      setSecretToDelete(null);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  return (
+    <>
+      <PageHeader
+        text="Secrets"
+        description="Store API tokens once and reference them from endpoint URLs, headers and bodies"
+      />
+
+      <PageSection>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Alert className="flex-1">
+              <AlertDescription>
+                Reference a secret as <InlineBadge variant="code">{"{{ secret.NAME }}"}</InlineBadge>.
+                Values are encrypted, can&apos;t be viewed after saving, and are redacted from run results.
+              </AlertDescription>
+            </Alert>
+            <Button variant="outline" onClick={() => setEditing("")}>
+              <Plus className="size-4" />
+              Add Secret
+            </Button>
+          </div>
+
+          {data.secrets.length ? (
+            data.secrets.map((secret) => (
+              <ListCard
+                key={secret.name}
+                icon={LockKeyhole}
+                hover={false}
+                title={<InlineBadge variant="code">{secret.name}</InlineBadge>}
+                metadata={[`Updated ${new Date(secret.updatedAt).toLocaleString()}`]}
+                actions={
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(secret.name)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Replace
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setSecretToDelete(secret)}>
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </Button>
+                  </div>
+                }
+              />
+            ))
+          ) : (
+            <EmptyCTA
+              icon={LockKeyhole}
+              variant="centered"
+              title="No secrets yet"
+              description="Add a secret instead of pasting tokens into endpoint headers."
+            />
+          )}
+        </div>
+      </PageSection>
+
+      <SetSecretDialog
+        name={editing}
+        onClose={() => setEditing(null)}
+        onSaved={() => queryClient.invalidateQueries({ queryKey: [...SECRETS_QUERY_KEY] })}
+      />
+
+      <AlertDialog open={!!secretToDelete} onOpenChange={(open) => !open && setSecretToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Secret</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete <span className="font-semibold">{secretToDelete?.name}</span>? Endpoints that reference it
+              will fail until it&apos;s added again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => secretToDelete && deleteMutation.mutate(secretToDelete.name)}
+              disabled={deleteMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete Secret"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
+
+function SetSecretDialog({ name: initialName, onClose, onSaved }: {
+  name: string | null;
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const isReplacing = !!initialName;
+  const [name, setName] = useState("");
+  const [value, setValue] = useState("");
+
+  const close = () => {
+    setName("");
+    setValue("");
+    onClose();
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: setSecret,
+    onSuccess: (secret) => {
+      toast.success(`Secret ${secret.name} saved`);
+      onSaved();
+      close();
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
+  const secretName = isReplacing ? initialName : name;
+  const nameValid = SECRET_NAME_PATTERN.test(secretName);
+
+  return (
+    <Dialog open={initialName !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isReplacing ? `Replace ${initialName}` : "Add Secret"}</DialogTitle>
+          <DialogDescription>
+            The value is encrypted and can&apos;t be viewed again after saving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {!isReplacing && (
+            <div className="space-y-2">
+              <Label htmlFor="secret-name">Name</Label>
+              <Input
+                id="secret-name"
+                value={name}
+                onChange={(e) => setName(e.target.value.toUpperCase())}
+                placeholder="STRIPE_KEY"
+              />
+              {name && !nameValid && (
+                <p className="text-sm text-destructive">
+                  Use letters, digits and underscores, starting with a letter or underscore.
+                </p>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="secret-value">Value</Label>
+            <Input
+              id="secret-value"
+              type="password"
+              autoComplete="off"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={close}>Cancel</Button>
+          <Button
+            onClick={() => saveMutation.mutate({ name: secretName, value })}
+            disabled={saveMutation.isPending || !nameValid || !value}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save Secret"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
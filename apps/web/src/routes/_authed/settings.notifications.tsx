@@ -0,0 +1,561 @@
+import { createFileRoute } from "@tanstack/react-router";
+import { useMutation, useQuery, useQueryClient, useSuspenseQuery } from "@tanstack/react-query";
+import { BellRing, Mail, MessageSquare, Plus, Send, Trash2, Webhook } from "lucide-react";
+import { useState } from "react";
+
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from "@cronicorn/ui-library/components/alert-dialog";
+import { Button } from "@cronicorn/ui-library/components/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@cronicorn/ui-library/components/card";
+import { Checkbox } from "@cronicorn/ui-library/components/checkbox";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@cronicorn/ui-library/components/dialog";
+import { Input } from "@cronicorn/ui-library/components/input";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@cronicorn/ui-library/components/select";
+import { Switch } from "@cronicorn/ui-library/components/switch";
+import { toast } from "@cronicorn/ui-library/lib/utils";
+import { EmptyCTA } from "../../components/cards/empty-cta";
+import { ListCard } from "../../components/cards/list-card";
+import { InlineBadge } from "../../components/primitives/inline-badge";
+
+import type {
+    AlertRule,
+    CreateAlertRuleRequest,
+    CreateNotificationChannelRequest,
+    NotificationChannel,
+} from "@/lib/api-client/queries/notifications.queries";
+import { jobsQueryOptions } from "@/lib/api-client/queries/jobs.queries";
+import {
+    ALERT_RULES_QUERY_KEY,
+    NOTIFICATION_CHANNELS_QUERY_KEY,
+    alertRulesQueryOptions,
+    createAlertRule,
+    createNotificationChannel,
+    deleteAlertRule,
+    deleteNotificationChannel,
+    notificationChannelsQueryOptions,
+    testNotificationChannel,
+    updateAlertRule,
+} from "@/lib/api-client/queries/notifications.queries";
+
+export const Route = createFileRoute("/_authed/settings/notifications")({
+    loader: ({ context: { queryClient } }) => {
+        return Promise.all([
+            queryClient.ensureQueryData(notificationChannelsQueryOptions()),
+            queryClient.ensureQueryData(alertRulesQueryOptions()),
+        ]);
+    },
+    component: NotificationsSettings,
+});
+
+type ChannelType = NotificationChannel["config"]["type"];
+type ConditionType = AlertRule["condition"]["type"];
+
+const CHANNEL_ICONS = {
+    email: Mail,
+    slack: MessageSquare,
+    webhook: Webhook,
+} as const;
+
+const CHANNEL_TARGET_LABELS: Record<ChannelType, { label: string; placeholder: string }> = {
+    email: { label: "Recipients (comma-separated)", placeholder: "ops@example.com, oncall@example.com" },
+    slack: { label: "Slack incoming webhook URL", placeholder: "https://hooks.slack.com/services/..." },
+    webhook: { label: "Webhook URL", placeholder: "https://example.com/cronicorn-alerts" },
+};
+
+function describeChannelTarget(channel: NotificationChannel): string {
+    switch (channel.config.type) {
+        case "email":
+            return channel.config.to.join(", ");
+        case "slack":
+            return channel.config.webhookUrl;
+        case "webhook":
+            return channel.config.url;
+        default:
+            return "";
+    }
+}
+
+function describeCondition(condition: AlertRule["condition"]): string {
+    switch (condition.type) {
+        case "failureStreak":
+            return `${condition.threshold} consecutive failures`;
+        case "successRate":
+            return `Success rate below ${condition.belowPct}% over ${condition.windowMinutes} min`;
+        case "noSuccess":
+            return `No success for ${condition.withinMinutes} min`;
+        case "aiPaused":
+            return "Paused by the AI planner";
+        default:
+            return "";
+    }
+}
+
+function NotificationsSettings() {
+    const queryClient = useQueryClient();
+    const { data: channelsData } = useSuspenseQuery(notificationChannelsQueryOptions());
+    const { data: rulesData } = useSuspenseQuery(alertRulesQueryOptions());
+    const { data: jobsData } = useQuery(jobsQueryOptions());
+
+    const channels = channelsData.channels;
+    const rules = rulesData.rules;
+    const jobNames = new Map((jobsData?.jobs ?? []).map((job) => [job.id, job.name]));
+
+    const [showChannelDialog, setShowChannelDialog] = useState(false);
+    const [showRuleDialog, setShowRuleDialog] = useState(false);
+    const [channelToDelete, setChannelToDelete] = useState<NotificationChannel | null>(null);
+
+    const invalidate = () => {
+        queryClient.invalidateQueries({ queryKey: [...NOTIFICATION_CHANNELS_QUERY_KEY] });
+        queryClient.invalidateQueries({ queryKey: [...ALERT_RULES_QUERY_KEY] });
+    };
+
+    const testMutation = useMutation({
+        mutationFn: testNotificationChannel,
+        onSuccess: (result) => {
+            if (result.delivered) {
+                toast.success("Test notification sent");
+            }
+            else {
+                toast.error(`Test notification failed: ${result.error ?? "unknown error"}`);
+            }
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const deleteChannelMutation = useMutation({
+        mutationFn: deleteNotificationChannel,
+        onSuccess: () => {
+            invalidate();
+            setChannelToDelete(null);
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const toggleRuleMutation = useMutation({
+        mutationFn: ({ id, enabled }: { id: string; enabled: boolean }) => updateAlertRule(id, { enabled }),
+        onSuccess: invalidate,
+        onError: (error) => toast.error(error.message),
+    });
+
+    const deleteRuleMutation = useMutation({
+        mutationFn: deleteAlertRule,
+        onSuccess: invalidate,
+        onError: (error) => toast.error(error.message),
+    });
+
+    const channelNames = new Map(channels.map((channel) => [channel.id, channel.name]));
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between">
+                    <div className="space-y-1.5">
+                        <CardTitle>Channels</CardTitle>
+                        <CardDescription>
+                            Where alerts are delivered: email, a Slack incoming webhook, or a signed HTTP webhook
+                        </CardDescription>
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setShowChannelDialog(true)}>
+                        <Plus className="size-4" />
+                        Add Channel
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {channels.length ? (
+                        <div className="space-y-4">
+                            {channels.map((channel) => (
+                                <ListCard
+                                    key={channel.id}
+                                    icon={CHANNEL_ICONS[channel.config.type]}
+                                    title={
+                                        <div className="flex items-center gap-2">
+                                            <span>{channel.name}</span>
+                                            <InlineBadge size="sm">{channel.config.type}</InlineBadge>
+                                            {!channel.enabled && <InlineBadge size="sm">disabled</InlineBadge>}
+                                        </div>
+                                    }
+                                    metadata={[describeChannelTarget(channel)]}
+                                    actions={
+                                        <div className="flex gap-2">
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => testMutation.mutate(channel.id)}
+                                                disabled={testMutation.isPending}
+                                            >
+                                                <Send className="h-4 w-4 mr-2" />
+                                                Test
+                                            </Button>
+                                            <Button variant="ghost" size="sm" onClick={() => setChannelToDelete(channel)}>
+                                                <Trash2 className="h-4 w-4 mr-2" />
+                                                Delete
+                                            </Button>
+                                        </div>
+                                    }
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <EmptyCTA
+                            icon={BellRing}
+                            variant="centered"
+                            title="No channels yet"
+                            description="Add a channel to start receiving alerts when your endpoints fail."
+                        />
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader className="flex flex-row items-start justify-between">
+                    <div className="space-y-1.5">
+                        <CardTitle>Alert Rules</CardTitle>
+                        <CardDescription>
+                            When to notify. You get one message when a rule fires, reminders at most once per cooldown, and one when it resolves.
+                        </CardDescription>
+                    </div>
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowRuleDialog(true)}
+                        disabled={channels.length === 0}
+                    >
+                        <Plus className="size-4" />
+                        Add Rule
+                    </Button>
+                </CardHeader>
+                <CardContent>
+                    {rules.length ? (
+                        <div className="space-y-4">
+                            {rules.map((rule) => (
+                                <ListCard
+                                    key={rule.id}
+                                    icon={BellRing}
+                                    title={rule.name}
+                                    subtitle={describeCondition(rule.condition)}
+                                    metadata={[
+                                        rule.endpointId
+                                            ? "One endpoint"
+                                            : rule.jobId
+                                                ? `Job: ${jobNames.get(rule.jobId) ?? rule.jobId}`
+                                                : "All endpoints",
+                                        `Notifies: ${rule.channelIds.map((id) => channelNames.get(id) ?? id).join(", ") || "no channels"}`,
+                                        rule.cooldownMinutes > 0 ? `Reminders every ${rule.cooldownMinutes} min` : "No reminders",
+                                    ]}
+                                    actions={
+                                        <div className="flex items-center gap-2">
+                                            <Switch
+                                                checked={rule.enabled}
+                                                onCheckedChange={(enabled) => toggleRuleMutation.mutate({ id: rule.id, enabled })}
+                                                aria-label={rule.enabled ? "Disable rule" : "Enable rule"}
+                                            />
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() => deleteRuleMutation.mutate(rule.id)}
+                                                disabled={deleteRuleMutation.isPending}
+                                            >
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    }
+                                />
+                            ))}
+                        </div>
+                    ) : (
+                        <EmptyCTA
+                            icon={BellRing}
+                            variant="centered"
+                            title="No alert rules yet"
+                            description={channels.length
+                                ? "Add a rule to get notified about failure streaks, low success rates, missed successes or AI pauses."
+                                : "Add a channel first, then create rules that notify it."}
+                        />
+                    )}
+                </CardContent>
+            </Card>
+
+            <CreateChannelDialog
+                open={showChannelDialog}
+                onOpenChange={setShowChannelDialog}
+                onCreated={invalidate}
+            />
+
+            <CreateRuleDialog
+                open={showRuleDialog}
+                onOpenChange={setShowRuleDialog}
+                onCreated={invalidate}
+                channels={channels}
+                jobs={jobsData?.jobs ?? []}
+            />
+
+            <AlertDialog open={!!channelToDelete} onOpenChange={(open) => !open && setChannelToDelete(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Channel</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            Delete <span className="font-semibold">{channelToDelete?.name}</span>? It will be removed
+                            from any alert rules that use it.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={() => channelToDelete && deleteChannelMutation.mutate(channelToDelete.id)}
+                            disabled={deleteChannelMutation.isPending}
+                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                            {deleteChannelMutation.isPending ? "Deleting..." : "Delete Channel"}
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    );
+}
+
+function CreateChannelDialog({ open, onOpenChange, onCreated }: {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCreated: () => void;
+}) {
+    const [name, setName] = useState("");
+    const [type, setType] = useState<ChannelType>("email");
+    const [target, setTarget] = useState("");
+
+    const createMutation = useMutation({
+        mutationFn: (data: CreateNotificationChannelRequest) => createNotificationChannel(data),
+        onSuccess: () => {
+            onCreated();
+            onOpenChange(false);
+            setName("");
+            setTarget("");
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const handleSubmit = () => {
+        const config: CreateNotificationChannelRequest["config"] = type === "email"
+            ? { type, to: target.split(",").map((address) => address.trim()).filter(Boolean) }
+            : type === "slack"
+                ? { type, webhookUrl: target.trim() }
+                : { type, url: target.trim() };
+        createMutation.mutate({ name, config });
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Add Channel</DialogTitle>
+                    <DialogDescription>
+                        Webhook channels receive a JSON POST signed with your signing key.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="channel-name">Name</Label>
+                        <Input id="channel-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="On-call" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Type</Label>
+                        <Select value={type} onValueChange={(value) => setType(value as ChannelType)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="email">Email</SelectItem>
+                                <SelectItem value="slack">Slack</SelectItem>
+                                <SelectItem value="webhook">Webhook</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="channel-target">{CHANNEL_TARGET_LABELS[type].label}</Label>
+                        <Input
+                            id="channel-target"
+                            value={target}
+                            onChange={(e) => setTarget(e.target.value)}
+                            placeholder={CHANNEL_TARGET_LABELS[type].placeholder}
+                        />
+                    </div>
+                </div>
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleSubmit} disabled={createMutation.isPending || !name || !target}>
+                        {createMutation.isPending ? "Adding..." : "Add Channel"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function CreateRuleDialog({ open, onOpenChange, onCreated, channels, jobs }: {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onCreated: () => void;
+    channels: Array<NotificationChannel>;
+    jobs: Array<{ id: string; name: string }>;
+}) {
+    const [name, setName] = useState("");
+    const [conditionType, setConditionType] = useState<ConditionType>("failureStreak");
+    const [threshold, setThreshold] = useState(3);
+    const [belowPct, setBelowPct] = useState(90);
+    const [minutes, setMinutes] = useState(60);
+    const [jobId, setJobId] = useState("all");
+    const [channelIds, setChannelIds] = useState<Array<string>>([]);
+    const [cooldownMinutes, setCooldownMinutes] = useState(60);
+    const [notifyOnResolve, setNotifyOnResolve] = useState(true);
+
+    const createMutation = useMutation({
+        mutationFn: (data: CreateAlertRuleRequest) => createAlertRule(data),
+        onSuccess: () => {
+            onCreated();
+            onOpenChange(false);
+            setName("");
+            setChannelIds([]);
+        },
+        onError: (error) => toast.error(error.message),
+    });
+
+    const handleSubmit = () => {
+        const condition: CreateAlertRuleRequest["condition"] = conditionType === "failureStreak"
+            ? { type: conditionType, threshold }
+            : conditionType === "successRate"
+                ? { type: conditionType, belowPct, windowMinutes: minutes }
+                : conditionType === "noSuccess"
+                    ? { type: conditionType, withinMinutes: minutes }
+                    : { type: conditionType };
+        createMutation.mutate({
+            name,
+            jobId: jobId === "all" ? undefined : jobId,
+            condition,
+            channelIds,
+            cooldownMinutes,
+            notifyOnResolve,
+        });
+    };
+
+    const toggleChannel = (id: string, checked: boolean) => {
+        setChannelIds((current) => checked ? [...current, id] : current.filter((c) => c !== id));
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="flex flex-col max-h-[90vh]">
+                <DialogHeader className="flex-shrink-0">
+                    <DialogTitle>Add Alert Rule</DialogTitle>
+                    <DialogDescription>
+                        Rules are checked after every run, and when the AI planner pauses an endpoint.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex-1 min-h-0 overflow-y-auto space-y-4 py-2">
+                    <div className="space-y-2">
+                        <Label htmlFor="rule-name">Name</Label>
+                        <Input id="rule-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Checkout failing" />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Condition</Label>
+                        <Select value={conditionType} onValueChange={(value) => setConditionType(value as ConditionType)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="failureStreak">Consecutive failures</SelectItem>
+                                <SelectItem value="successRate">Success rate below threshold</SelectItem>
+                                <SelectItem value="noSuccess">No successful run</SelectItem>
+                                <SelectItem value="aiPaused">Paused by the AI planner</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {conditionType === "failureStreak" && (
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-threshold">Failures in a row</Label>
+                            <Input id="rule-threshold" type="number" min={1} max={100} value={threshold} onChange={(e) => setThreshold(Number(e.target.value))} />
+                        </div>
+                    )}
+                    {conditionType === "successRate" && (
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-pct">Alert below (%)</Label>
+                            <Input id="rule-pct" type="number" min={1} max={100} value={belowPct} onChange={(e) => setBelowPct(Number(e.target.value))} />
+                        </div>
+                    )}
+                    {(conditionType === "successRate" || conditionType === "noSuccess") && (
+                        <div className="space-y-2">
+                            <Label htmlFor="rule-window">Window (minutes)</Label>
+                            <Input id="rule-window" type="number" min={conditionType === "successRate" ? 5 : 1} max={10080} value={minutes} onChange={(e) => setMinutes(Number(e.target.value))} />
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label>Watch</Label>
+                        <Select value={jobId} onValueChange={setJobId}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="all">All endpoints</SelectItem>
+                                {jobs.map((job) => (
+                                    <SelectItem key={job.id} value={job.id}>Job: {job.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>Notify</Label>
+                        {channels.map((channel) => (
+                            <div key={channel.id} className="flex items-center gap-2">
+                                <Checkbox
+                                    id={`rule-channel-${channel.id}`}
+                                    checked={channelIds.includes(channel.id)}
+                                    onCheckedChange={(checked) => toggleChannel(channel.id, checked === true)}
+                                />
+                                <Label htmlFor={`rule-channel-${channel.id}`} className="font-normal">
+                                    {channel.name} ({channel.config.type})
+                                </Label>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="rule-cooldown">Reminder cooldown (minutes, 0 for none)</Label>
+                        <Input id="rule-cooldown" type="number" min={0} max={10080} value={cooldownMinutes} onChange={(e) => setCooldownMinutes(Number(e.target.value))} />
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Checkbox
+                            id="rule-resolve"
+                            checked={notifyOnResolve}
+                            onCheckedChange={(checked) => setNotifyOnResolve(checked === true)}
+                        />
+                        <Label htmlFor="rule-resolve" className="font-normal">Notify when resolved</Label>
+                    </div>
+                </div>
+
+                <DialogFooter className="flex-shrink-0">
+                    <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleSubmit} disabled={createMutation.isPending || !name || channelIds.length === 0}>
+                        {createMutation.isPending ? "Adding..." : "Add Rule"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
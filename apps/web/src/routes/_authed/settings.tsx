@@ -9,6 +9,7 @@ export const Route = createFileRoute("/_authed/settings")({
 function SettingsLayoutPage() {
     const tabs = [
         { to: "/settings", label: "Profile", exact: true },
+        { to: "/settings/notifications", label: "Notifications" },
         { to: "/settings/connected-devices", label: "Connected Devices" },
     ];
 
@@ -23,6 +23,8 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@cronicorn/ui-library/components/dialog";
+import { Label } from "@cronicorn/ui-library/components/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@cronicorn/ui-library/components/select";
 import { toast } from "@cronicorn/ui-library/lib/utils";
 
 import { EmptyCTA } from "@/components/cards/empty-cta";
@@ -35,8 +37,32 @@ import {
   createSigningKey,
   rotateSigningKey,
   signingKeyQueryOptions,
+  updateSigningKeySettings,
 } from "@/lib/api-client/queries/signing-keys.queries";
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long the old key keeps signing requests after a rotation
+const OVERLAP_OPTIONS = [
+  { value: String(HOUR_MS), label: "1 hour" },
+  { value: String(24 * HOUR_MS), label: "24 hours" },
+  { value: String(7 * 24 * HOUR_MS), label: "7 days" },
+  { value: String(30 * 24 * HOUR_MS), label: "30 days" },
+  { value: "0", label: "None (invalidate immediately)" },
+];
+
+const SIGNATURE_VERSIONS = [
+  { value: "v1", label: "v1 — timestamp and body", description: "Compatible with existing verifiers. Doesn't cover the URL, so a captured request can be replayed against another path." },
+  { value: "v2", label: "v2 — full request", description: "Also covers the method, path and query, and headers. Verify with @cronicorn/verify or the v2 recipe in the docs." },
+] as const;
+
+const ALGORITHMS = [
+  { value: "hmac-sha256", label: "HMAC-SHA256 — shared secret" },
+  { value: "ed25519", label: "Ed25519 — public key" },
+] as const;
+
+type SigningAlgorithm = (typeof ALGORITHMS)[number]["value"];
+
 export const Route = createFileRoute("/_authed/signing-keys")({
   loader: ({ context: { queryClient } }) => {
     return queryClient.ensureQueryData(signingKeyQueryOptions());
@@ -48,14 +74,16 @@ function SigningKeysPage() {
   const queryClient = useQueryClient();
   const { data: keyInfo } = useSuspenseQuery(signingKeyQueryOptions());
 
-  const [generatedKey, setGeneratedKey] = useState<string | null>(null);
+  const [generatedKey, setGeneratedKey] = useState<{ id: string; rawKey: string | null } | null>(null);
   const [showRotateConfirm, setShowRotateConfirm] = useState(false);
+  const [overlapMs, setOverlapMs] = useState(String(24 * HOUR_MS));
+  const [newAlgorithm, setNewAlgorithm] = useState<SigningAlgorithm>(keyInfo.algorithm ?? "hmac-sha256");
 
   const createMutation = useMutation({
-    mutationFn: createSigningKey,
+    mutationFn: () => createSigningKey({ algorithm: newAlgorithm }),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: [...SIGNING_KEY_QUERY_KEY] });
-      setGeneratedKey(data.rawKey);
+      setGeneratedKey({ id: data.id, rawKey: data.rawKey });
     },
     onError: (error) => {
       toast.error(error.message);
@@ -63,10 +91,10 @@ function SigningKeysPage() {
   });
 
   const rotateMutation = useMutation({
-    mutationFn: rotateSigningKey,
+    mutationFn: () => rotateSigningKey({ overlapMs: Number(overlapMs), algorithm: newAlgorithm }),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: [...SIGNING_KEY_QUERY_KEY] });
-      setGeneratedKey(data.rawKey);
+      setGeneratedKey({ id: data.id, rawKey: data.rawKey });
       setShowRotateConfirm(false);
     },
     onError: (error) => {
@@ -74,9 +102,20 @@ function SigningKeysPage() {
     },
   });
 
+  const settingsMutation = useMutation({
+    mutationFn: updateSigningKeySettings,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [...SIGNING_KEY_QUERY_KEY] });
+      toast.success(`Requests are now signed with ${data.signatureVersion} signatures`);
+    },
+    onError: (error) => {
+      toast.error(error.message);
+    },
+  });
+
   const handleCopyKey = async () => {
-    if (generatedKey) {
-      await navigator.clipboard.writeText(generatedKey);
+    if (generatedKey?.rawKey) {
+      await navigator.clipboard.writeText(generatedKey.rawKey);
       toast.success("Signing key copied to clipboard!");
     }
   };
@@ -100,7 +139,10 @@ function SigningKeysPage() {
               </div>
               <Button
                 variant="outline"
-                onClick={() => setShowRotateConfirm(true)}
+                onClick={() => {
+                  setNewAlgorithm(keyInfo.algorithm ?? "hmac-sha256");
+                  setShowRotateConfirm(true);
+                }}
                 disabled={rotateMutation.isPending}
               >
                 <RefreshCw className="size-4" />
@@ -117,10 +159,71 @@ function SigningKeysPage() {
               )}
             </div>
 
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Keys</p>
+              <div className="divide-y rounded-md border">
+                {keyInfo.keys.map((key) => (
+                  <div key={key.id} className="flex flex-wrap items-center gap-3 px-3 py-2 text-sm">
+                    <InlineBadge variant="code">{key.keyPrefix}...</InlineBadge>
+                    <InlineBadge variant="muted" size="sm">
+                      {key.algorithm === "ed25519" ? "Ed25519" : "HMAC"}
+                    </InlineBadge>
+                    <InlineBadge variant={key.status === "active" ? "success" : "warning"} size="sm">
+                      {key.status === "active" ? "Active" : "Expiring"}
+                    </InlineBadge>
+                    <span className="font-mono text-xs text-muted-foreground">ID: {key.id}</span>
+                    <span className="ml-auto text-muted-foreground">
+                      {key.expiresAt
+                        ? `Expires ${new Date(key.expiresAt).toLocaleString()}`
+                        : `Created ${new Date(key.createdAt).toLocaleDateString()}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {keyInfo.keys.some((key) => key.algorithm === "ed25519") && (
+              <div className="space-y-2">
+                <Label>Public keys (JWKS)</Label>
+                <CodeDisplay code={keyInfo.jwksUrl} maxHeight="60px" enableCopy={true} />
+                <p className="text-sm text-muted-foreground">
+                  Receivers verify Ed25519 signatures with the key from this URL whose kid matches
+                  X-Cronicorn-Key-Id. Refetch it when a request names an unknown kid.
+                </p>
+              </div>
+            )}
+
+            {keyInfo.algorithm !== "ed25519" && (
+              <div className="space-y-2">
+                <Label>Signature scheme</Label>
+                <Select
+                  value={keyInfo.signatureVersion ?? "v1"}
+                  onValueChange={(value) => settingsMutation.mutate({ signatureVersion: value as "v1" | "v2" })}
+                  disabled={settingsMutation.isPending}
+                >
+                  <SelectTrigger className="w-[260px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SIGNATURE_VERSIONS.map((version) => (
+                      <SelectItem key={version.value} value={version.value}>{version.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {SIGNATURE_VERSIONS.find((version) => version.value === (keyInfo.signatureVersion ?? "v1"))?.description}
+                </p>
+              </div>
+            )}
+
             <Alert>
               <AlertDescription>
-                Use this key to verify that incoming webhook requests originate from Cronicorn.
-                Include the key in your HMAC-SHA256 signature verification logic.
+                {keyInfo.algorithm === "ed25519"
+                  ? "Requests are signed with Ed25519 over the full request. The private key never leaves Cronicorn; your services only need the public keys above."
+                  : "Use this key to verify that incoming webhook requests originate from Cronicorn. Include the key in your HMAC-SHA256 signature verification logic."}
+                {" "}
+                While an old key is expiring, requests carry a signature for each key; the
+                X-Cronicorn-Key-Id header lists their IDs in the same order.
               </AlertDescription>
             </Alert>
           </div>
@@ -129,13 +232,16 @@ function SigningKeysPage() {
             title="No Signing Key"
             description="Generate a signing key to verify the authenticity of webhook requests sent to your endpoints."
             action={
-              <Button
-                onClick={() => createMutation.mutate()}
-                disabled={createMutation.isPending}
-              >
-                <KeyRound className="size-4" />
-                {createMutation.isPending ? "Generating..." : "Generate Key"}
-              </Button>
+              <div className="flex flex-wrap justify-center gap-2">
+                <AlgorithmSelect value={newAlgorithm} onChange={setNewAlgorithm} />
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={createMutation.isPending}
+                >
+                  <KeyRound className="size-4" />
+                  {createMutation.isPending ? "Generating..." : "Generate Key"}
+                </Button>
+              </div>
             }
           />
         )}
@@ -150,32 +256,43 @@ function SigningKeysPage() {
               <DialogTitle>Signing Key Generated</DialogTitle>
             </div>
             <DialogDescription>
-              Make sure to copy your signing key now. You won&apos;t be able to see it again!
+              {generatedKey?.rawKey
+                ? "Make sure to copy your signing key now. You won't be able to see it again!"
+                : "Your Ed25519 key is ready. The private key stays in Cronicorn; its public key is published in your JWKS."}
             </DialogDescription>
           </DialogHeader>
 
           <div className="flex-1 min-h-0 overflow-y-auto space-y-4 py-4">
             <CodeDisplay
-              code={generatedKey ?? ""}
+              code={generatedKey?.rawKey ?? keyInfo.jwksUrl}
               maxHeight="100px"
               enableCopy={true}
             />
+            <p className="text-sm text-muted-foreground">
+              Key ID: <span className="font-mono">{generatedKey?.id}</span>
+            </p>
 
-            <Button onClick={handleCopyKey} className="w-full">
-              <Copy className="size-4" />
-              Copy to Clipboard
-            </Button>
+            {generatedKey?.rawKey && (
+              <>
+                <Button onClick={handleCopyKey} className="w-full">
+                  <Copy className="size-4" />
+                  Copy to Clipboard
+                </Button>
 
-            <Alert>
-              <AlertDescription>
-                <strong>Security Warning:</strong> Store this key securely. You will need it to
-                verify webhook signatures on your server.
-              </AlertDescription>
-            </Alert>
+                <Alert>
+                  <AlertDescription>
+                    <strong>Security Warning:</strong> Store this key securely. You will need it to
+                    verify webhook signatures on your server.
+                  </AlertDescription>
+                </Alert>
+              </>
+            )}
           </div>
 
           <DialogFooter className="flex-shrink-0">
-            <Button onClick={() => setGeneratedKey(null)}>I&apos;ve Saved My Key</Button>
+            <Button onClick={() => setGeneratedKey(null)}>
+              {generatedKey?.rawKey ? "I've Saved My Key" : "Done"}
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -186,10 +303,27 @@ function SigningKeysPage() {
           <AlertDialogHeader>
             <AlertDialogTitle>Rotate Signing Key</AlertDialogTitle>
             <AlertDialogDescription>
-              This will immediately invalidate your current signing key and generate a new one.
-              Any services using the current key will need to be updated.
+              This generates a new signing key. Requests are signed with both keys until the
+              current key expires, so you can update your services without rejecting requests.
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label>Algorithm</Label>
+            <AlgorithmSelect value={newAlgorithm} onChange={setNewAlgorithm} />
+          </div>
+          <div className="space-y-2">
+            <Label>Keep the current key for</Label>
+            <Select value={overlapMs} onValueChange={setOverlapMs}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OVERLAP_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <AlertDialogFooter>
             <AlertDialogCancel>Cancel</AlertDialogCancel>
             <AlertDialogAction
@@ -205,3 +339,18 @@ function SigningKeysPage() {
     </>
   );
 }
+
+function AlgorithmSelect({ value, onChange }: { value: SigningAlgorithm; onChange: (value: SigningAlgorithm) => void }) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as SigningAlgorithm)}>
+      <SelectTrigger className="w-[260px]">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ALGORITHMS.map((algorithm) => (
+          <SelectItem key={algorithm.value} value={algorithm.value}>{algorithm.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -109,7 +109,10 @@ function RouteComponent() {
           return url.pathname + url.search;
         }
       } catch {
-        return redirectTo;
+        // Relative paths only; "//host" would leave the app
+        if (redirectTo.startsWith("/") && !redirectTo.startsWith("//")) {
+          return redirectTo;
+        }
       }
     }
     return "/dashboard";
@@ -131,7 +134,7 @@ function RouteComponent() {
         },
         {
           onSuccess: () => {
-            navigate({ to: redirectPath });
+            navigate({ href: redirectPath });
           },
           onError: (ctx) => {
             setError(ctx.error.message || "Failed to sign in. Please check your credentials.");
@@ -160,7 +163,7 @@ function RouteComponent() {
       },
       {
         onSuccess: () => {
-          navigate({ to: redirectPath });
+          navigate({ href: redirectPath });
         },
         onError: () => {
           setError("Failed to sign in with GitHub. Please try again.");
@@ -8,8 +8,12 @@ const { parseExpression } = cronParser;
 /**
  * Production Cron adapter using cron-parser library.
  *
- * Calculates the next run time for cron expressions in UTC timezone.
- * Throws CronError for invalid cron expressions.
+ * Calculates the next run time for cron expressions in UTC, or in an IANA
+ * timezone when one is supplied. Zoned evaluation follows local wall-clock
+ * time across DST transitions: times skipped by a spring-forward gap are
+ * moved to the next valid instant, and repeated times in a fall-back overlap
+ * fire once.
+ * Throws CronError for invalid cron expressions or unknown timezones.
  */
 export class CronParserAdapter implements Cron {
   /**
@@ -17,21 +21,21 @@ export class CronParserAdapter implements Cron {
    *
    * @param expr - Standard 5-field cron expression (minute hour day month weekday)
    * @param from - Date to calculate next occurrence from
+   * @param timezone - Optional IANA timezone (e.g. "America/New_York"); defaults to UTC
    * @returns Next scheduled date according to the cron expression
-   * @throws CronError if the cron expression is invalid
+   * @throws CronError if the cron expression or timezone is invalid
    *
    * @example
    * const cron = new CronParserAdapter();
    * const next = cron.next("0 * * * *", new Date("2025-01-01T00:00:00Z"));
    * // Returns: 2025-01-01T01:00:00.000Z
    */
-  next(expr: string, from: Date): Date {
+  next(expr: string, from: Date, timezone?: string): Date {
     try {
-      // Parse with UTC timezone and use 'from' as current date
-      const interval = parseExpression(expr, {
-        currentDate: from,
-        utc: true,
-      });
+      // Parse in the requested timezone (UTC by default) and use 'from' as current date
+      const interval = parseExpression(expr, timezone
+        ? { currentDate: from, tz: timezone }
+        : { currentDate: from, utc: true });
 
       // Get next occurrence
       const nextDate = interval.next().toDate();
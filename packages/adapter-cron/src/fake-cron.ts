@@ -17,13 +17,14 @@ export class FakeCron implements Cron {
 
   /**
    * Returns a date that is intervalMs milliseconds after 'from'.
-   * The expr parameter is ignored.
+   * The expr and timezone parameters are ignored.
    *
    * @param _expr - Ignored (accepts any string)
    * @param from - Base date to add interval to
+   * @param _timezone - Ignored
    * @returns Date that is intervalMs milliseconds after 'from'
    */
-  next(_expr: string, from: Date): Date {
+  next(_expr: string, from: Date, _timezone?: string): Date {
     return new Date(from.getTime() + this.intervalMs);
   }
 }
@@ -88,6 +88,50 @@ describe("cronParserAdapter", () => {
     });
   });
 
+  describe("timezones", () => {
+    it("evaluates the expression in the given IANA timezone", () => {
+      // 9 AM in New York during EST (UTC-5)
+      const from = new Date("2025-01-01T00:00:00Z");
+      const next = cron.next("0 9 * * *", from, "America/New_York");
+
+      expect(next.toISOString()).toBe("2025-01-01T14:00:00.000Z");
+    });
+
+    it("keeps local wall-clock time across the DST boundary", () => {
+      // 9 AM local is 14:00Z before spring-forward and 13:00Z after
+      const from = new Date("2025-03-08T15:00:00Z");
+      const next = cron.next("0 9 * * *", from, "America/New_York");
+
+      expect(next.toISOString()).toBe("2025-03-09T13:00:00.000Z");
+    });
+
+    it("moves times inside a spring-forward gap to the next valid instant", () => {
+      // 02:30 does not exist on 2025-03-09 in New York; fires at 03:30 EDT
+      const from = new Date("2025-03-08T12:00:00Z");
+      const next = cron.next("30 2 * * *", from, "America/New_York");
+
+      expect(next.toISOString()).toBe("2025-03-09T07:30:00.000Z");
+    });
+
+    it("fires once for times repeated by a fall-back overlap", () => {
+      // 01:30 happens twice on 2025-11-02 in New York
+      const from = new Date("2025-11-01T12:00:00Z");
+      const first = cron.next("30 1 * * *", from, "America/New_York");
+      const second = cron.next("30 1 * * *", first, "America/New_York");
+
+      expect(first.toISOString()).toBe("2025-11-02T05:30:00.000Z");
+      expect(second.toISOString()).toBe("2025-11-03T06:30:00.000Z");
+    });
+
+    it("throws CronError for an unknown timezone", () => {
+      const from = new Date("2025-01-01T00:00:00Z");
+
+      expect(() => {
+        cron.next("0 9 * * *", from, "Not/AZone");
+      }).toThrow(CronError);
+    });
+  });
+
   describe("error handling", () => {
     it("throws CronError for invalid expression", () => {
       const from = new Date("2025-01-01T00:00:00Z");
@@ -0,0 +1 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "timezone" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "_lease_owner" text;--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN "lease_owner" text;
\ No newline at end of file
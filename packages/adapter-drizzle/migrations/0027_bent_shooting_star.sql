@@ -0,0 +1 @@
+ALTER TABLE "runs" ADD COLUMN "queue_wait_ms" integer;
\ No newline at end of file
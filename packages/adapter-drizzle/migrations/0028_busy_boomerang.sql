@@ -0,0 +1,2 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "retry_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN "attempts" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "success_criteria" jsonb;
\ No newline at end of file
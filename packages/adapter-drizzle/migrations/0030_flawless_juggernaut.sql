@@ -0,0 +1,45 @@
+CREATE TABLE "alert_rules" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"job_id" text,
+	"endpoint_id" text,
+	"condition" jsonb NOT NULL,
+	"channel_ids" jsonb NOT NULL,
+	"cooldown_minutes" integer DEFAULT 60 NOT NULL,
+	"notify_on_resolve" boolean DEFAULT true NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "alert_states" (
+	"rule_id" text NOT NULL,
+	"endpoint_id" text NOT NULL,
+	"status" text NOT NULL,
+	"fired_at" timestamp with time zone,
+	"resolved_at" timestamp with time zone,
+	"last_notified_at" timestamp with time zone,
+	CONSTRAINT "alert_states_rule_id_endpoint_id_pk" PRIMARY KEY("rule_id","endpoint_id")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_channels" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"config" jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_job_id_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_rules" ADD CONSTRAINT "alert_rules_endpoint_id_job_endpoints_id_fk" FOREIGN KEY ("endpoint_id") REFERENCES "public"."job_endpoints"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_states" ADD CONSTRAINT "alert_states_rule_id_alert_rules_id_fk" FOREIGN KEY ("rule_id") REFERENCES "public"."alert_rules"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "alert_states" ADD CONSTRAINT "alert_states_endpoint_id_job_endpoints_id_fk" FOREIGN KEY ("endpoint_id") REFERENCES "public"."job_endpoints"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_channels" ADD CONSTRAINT "notification_channels_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "alert_rules_user_id_idx" ON "alert_rules" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX "alert_rules_job_id_idx" ON "alert_rules" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "alert_rules_endpoint_id_idx" ON "alert_rules" USING btree ("endpoint_id");--> statement-breakpoint
+CREATE INDEX "notification_channels_user_id_idx" ON "notification_channels" USING btree ("user_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "kind" text DEFAULT 'http' NOT NULL;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD COLUMN "ping_token" text;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD COLUMN "grace_ms" integer;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD CONSTRAINT "job_endpoints_ping_token_unique" UNIQUE("ping_token");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "run_after" jsonb;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "audit_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"tenant_id" text NOT NULL,
+	"actor_type" text NOT NULL,
+	"actor_id" text NOT NULL,
+	"actor_user_id" text,
+	"action" text NOT NULL,
+	"job_id" text,
+	"endpoint_id" text,
+	"changes" jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "audit_events_tenant_created_idx" ON "audit_events" USING btree ("tenant_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_job_id_idx" ON "audit_events" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "audit_events_endpoint_id_idx" ON "audit_events" USING btree ("endpoint_id");
\ No newline at end of file
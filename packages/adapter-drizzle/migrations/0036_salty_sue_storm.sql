@@ -0,0 +1,2 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "manual_run" jsonb;--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN "triggered_by" jsonb;
\ No newline at end of file
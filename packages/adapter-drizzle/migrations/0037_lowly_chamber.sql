@@ -0,0 +1,5 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "trigger_token_hash" text;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD COLUMN "trigger_token_prefix" text;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD COLUMN "trigger_token_created_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD COLUMN "trigger_token_rotated_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD CONSTRAINT "job_endpoints_trigger_token_hash_unique" UNIQUE("trigger_token_hash");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "blackout_windows" jsonb;--> statement-breakpoint
+ALTER TABLE "jobs" ADD COLUMN "blackout_windows" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "misfire_policy" jsonb;--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN "scheduled_for" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "runs" ADD COLUMN "lag_ms" integer;
\ No newline at end of file
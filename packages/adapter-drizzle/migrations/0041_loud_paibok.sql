@@ -0,0 +1,2 @@
+ALTER TABLE "ai_analysis_sessions" ADD COLUMN "trace_id" text;--> statement-breakpoint
+ALTER TABLE "runs" ADD COLUMN "trace_id" text;
\ No newline at end of file
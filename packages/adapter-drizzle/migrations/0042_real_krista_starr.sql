@@ -0,0 +1 @@
+ALTER TABLE "job_endpoints" ADD COLUMN "concurrency_policy" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "signing_keys" DROP CONSTRAINT "signing_keys_user_id_unique";--> statement-breakpoint
+ALTER TABLE "signing_keys" ADD COLUMN "expires_at" timestamp with time zone;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "signing_keys" ADD COLUMN "signature_version" text DEFAULT 'v1' NOT NULL;
\ No newline at end of file
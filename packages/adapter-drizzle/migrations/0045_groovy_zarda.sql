@@ -0,0 +1,2 @@
+ALTER TABLE "signing_keys" ADD COLUMN "algorithm" text DEFAULT 'hmac-sha256' NOT NULL;--> statement-breakpoint
+ALTER TABLE "signing_keys" ADD COLUMN "public_key" text;
\ No newline at end of file
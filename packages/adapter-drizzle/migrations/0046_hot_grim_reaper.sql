@@ -0,0 +1,17 @@
+CREATE TABLE "tls_credentials" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"material_encrypted" text NOT NULL,
+	"has_client_certificate" boolean NOT NULL,
+	"subject" text,
+	"certificate_expires_at" timestamp with time zone,
+	"ca_certificates" integer DEFAULT 0 NOT NULL,
+	"ca_expires_at" timestamp with time zone,
+	"created_at" timestamp with time zone NOT NULL,
+	"updated_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "job_endpoints" ADD COLUMN "tls_credential_name" text;--> statement-breakpoint
+ALTER TABLE "tls_credentials" ADD CONSTRAINT "tls_credentials_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tls_credentials_user_id_name_idx" ON "tls_credentials" USING btree ("user_id","name");
\ No newline at end of file
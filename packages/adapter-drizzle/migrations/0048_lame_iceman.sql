@@ -0,0 +1,3 @@
+ALTER TABLE "secrets" DROP CONSTRAINT "secrets_user_id_user_id_fk";
+--> statement-breakpoint
+ALTER TABLE "signing_keys" DROP CONSTRAINT "signing_keys_user_id_user_id_fk";
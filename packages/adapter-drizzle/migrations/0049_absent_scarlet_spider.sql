@@ -0,0 +1 @@
+ALTER TABLE "tls_credentials" DROP CONSTRAINT "tls_credentials_user_id_user_id_fk";
@@ -0,0 +1 @@
+ALTER TABLE "auth_profiles" DROP CONSTRAINT "auth_profiles_user_id_user_id_fk";
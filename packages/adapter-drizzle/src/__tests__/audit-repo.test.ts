@@ -0,0 +1,74 @@
+/**
+ * Integration tests for DrizzleAuditRepo.
+ * Uses transaction-per-test pattern for isolation.
+ */
+
+import { afterAll, describe } from "vitest";
+
+import { DrizzleAuditRepo } from "../audit-repo.js";
+import { closeTestPool, expect, test } from "../tests/fixtures.js";
+
+describe("drizzleAuditRepo", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("appends events and lists them newest first", async ({ tx }) => {
+    const repo = new DrizzleAuditRepo(tx);
+    await repo.append({
+      tenantId: "tenant-audit-1",
+      actor: { type: "user", id: "user-1", userId: "user-1" },
+      action: "endpoint.updated",
+      jobId: "job-1",
+      endpointId: "ep-1",
+      changes: [{ field: "baselineIntervalMs", before: 60000, after: 30000 }],
+      createdAt: new Date("2026-01-01T10:00:00Z"),
+    });
+    await repo.append({
+      tenantId: "tenant-audit-1",
+      actor: { type: "ai_session", id: "session-1" },
+      action: "endpoint.interval_hint",
+      jobId: "job-1",
+      endpointId: "ep-1",
+      changes: [],
+      createdAt: new Date("2026-01-01T11:00:00Z"),
+    });
+    await repo.append({
+      tenantId: "tenant-audit-2",
+      actor: { type: "user", id: "user-2", userId: "user-2" },
+      action: "job.created",
+      changes: [],
+      createdAt: new Date("2026-01-01T12:00:00Z"),
+    });
+
+    const { events, total } = await repo.list("tenant-audit-1");
+
+    expect(total).toBe(2);
+    expect(events.map(e => e.action)).toEqual(["endpoint.interval_hint", "endpoint.updated"]);
+    expect(events[0]!.actor).toEqual({ type: "ai_session", id: "session-1", userId: undefined });
+    expect(events[1]!.changes).toEqual([{ field: "baselineIntervalMs", before: 60000, after: 30000 }]);
+  });
+
+  test("filters by actor type, action and time", async ({ tx }) => {
+    const repo = new DrizzleAuditRepo(tx);
+    for (const [hour, type] of [["09", "user"], ["10", "api_key"], ["11", "api_key"]] as const) {
+      await repo.append({
+        tenantId: "tenant-audit-3",
+        actor: { type, id: `actor-${hour}` },
+        action: "job.updated",
+        jobId: "job-3",
+        changes: [],
+        createdAt: new Date(`2026-01-01T${hour}:00:00Z`),
+      });
+    }
+
+    const byActor = await repo.list("tenant-audit-3", { actorType: "api_key", limit: 1 });
+    expect(byActor.total).toBe(2);
+    expect(byActor.events.map(e => e.actor.id)).toEqual(["actor-11"]);
+
+    const byTime = await repo.list("tenant-audit-3", { since: new Date("2026-01-01T10:00:00Z"), until: new Date("2026-01-01T11:00:00Z") });
+    expect(byTime.events.map(e => e.actor.id)).toEqual(["actor-10"]);
+
+    expect((await repo.list("tenant-audit-3", { action: "job.created" })).total).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Integration tests for DrizzleAuthProfilesRepo and DrizzleAuthProfileProvider.
+ * Uses transaction-per-test pattern for isolation.
+ */
+
+import { eq } from "drizzle-orm";
+import { afterAll, describe } from "vitest";
+
+import { DrizzleAuthProfileProvider, DrizzleAuthProfilesRepo } from "../auth-profiles-repo.js";
+import { schema } from "../index.js";
+import { SecretCipher } from "../secret-cipher.js";
+import { closeTestPool, createTestUser, expect, test } from "../tests/fixtures.js";
+
+const cipher = new SecretCipher("test-secrets-key");
+
+const billing = {
+  tokenUrl: "https://auth.example.com/oauth/token",
+  clientId: "billing-client",
+  scopes: ["invoices:read"],
+  audience: "https://billing.example.com",
+};
+
+describe("drizzleAuthProfilesRepo", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates, replaces and lists profiles without the client secret", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleAuthProfilesRepo(tx, cipher);
+
+    expect((await repo.set(user.id, "billing", billing, "secret-1")).created).toBe(true);
+    expect((await repo.set(user.id, "crm", { ...billing, scopes: [], audience: null }, "secret-2")).created).toBe(true);
+    expect((await repo.set(user.id, "billing", { ...billing, scopes: ["invoices:read", "invoices:write"] }, "secret-3")).created).toBe(false);
+
+    const list = await repo.list(user.id);
+    expect(list.map(profile => profile.name)).toEqual(["billing", "crm"]);
+    expect(list[0]).toEqual({
+      name: "billing",
+      type: "oauth2-client-credentials",
+      ...billing,
+      scopes: ["invoices:read", "invoices:write"],
+      createdAt: expect.any(Date),
+      updatedAt: expect.any(Date),
+    });
+    expect(await repo.get(user.id, "crm")).toMatchObject({ scopes: [], audience: null });
+    expect(await repo.get(user.id, "missing")).toBeNull();
+  });
+
+  test("stores the client secret encrypted", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    await new DrizzleAuthProfilesRepo(tx, cipher).set(user.id, "billing", billing, "s3cret-value");
+
+    const [row] = await tx.select().from(schema.authProfiles).where(eq(schema.authProfiles.userId, user.id));
+    expect(row!.clientSecretEncrypted).not.toContain("s3cret-value");
+    expect(cipher.decrypt(row!.clientSecretEncrypted)).toBe("s3cret-value");
+  });
+
+  test("deletes by name", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleAuthProfilesRepo(tx, cipher);
+    await repo.set(user.id, "billing", billing, "secret");
+
+    expect(await repo.delete(user.id, "billing")).toBe(true);
+    expect(await repo.delete(user.id, "billing")).toBe(false);
+    expect(await repo.list(user.id)).toEqual([]);
+  });
+
+  test("provider returns the decrypted secret for the tenant only", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const other = await createTestUser(tx);
+    const repo = new DrizzleAuthProfilesRepo(tx, cipher);
+    await repo.set(user.id, "billing", billing, "secret");
+    await repo.set(other.id, "crm", billing, "other-secret");
+
+    const provider = new DrizzleAuthProfileProvider(tx, cipher);
+
+    expect(await provider.getAuthProfile(user.id, "billing")).toMatchObject({ ...billing, clientSecret: "secret" });
+    expect(await provider.getAuthProfile(user.id, "crm")).toBeNull();
+  });
+});
@@ -11,7 +11,7 @@ import { closeTestPool, createTestUser, expect, test as testWithTx } from "../te
  *
  * Coverage:
  * - Jobs: getJobHealthDistribution
- * - Runs: getFilteredMetrics, getSourceDistribution, getRunTimeSeries, getEndpointTimeSeries, listRuns
+ * - Runs: getFilteredMetrics, getJobLagPercentiles, getSourceDistribution, getRunTimeSeries, getEndpointTimeSeries, listRuns
  * - Sessions: getAISessionTimeSeries
  * - Endpoints: getEndpointCounts
  */
@@ -178,6 +178,52 @@ describe("dashboard Queries - Archived Filtering", () => {
     expect(metrics.totalRuns).toBe(0);
   });
 
+  testWithTx("getJobLagPercentiles should exclude archived endpoints and runs without a lag", async ({ tx }) => {
+    const clock = () => new Date("2025-01-01T00:00:00Z");
+    const jobsRepo = new DrizzleJobsRepo(tx, clock);
+    const runsRepo = new DrizzleRunsRepo(tx);
+
+    const user = await createTestUser(tx);
+    const userId = user.id;
+
+    const job = await jobsRepo.createJob({
+      userId,
+      name: "Test Job",
+      status: "active",
+    });
+
+    await jobsRepo.addEndpoint({
+      id: "ep-1",
+      jobId: job.id,
+      tenantId: userId,
+      name: "Endpoint 1",
+      nextRunAt: new Date("2025-01-01T01:00:00Z"),
+      failureCount: 0,
+      baselineIntervalMs: 60000,
+    });
+
+    for (const lagMs of [100, 200, 300, 400, 10_000]) {
+      const runId = await runsRepo.create({ endpointId: "ep-1", status: "running", attempt: 1, lagMs });
+      await runsRepo.finish(runId, { status: "success", durationMs: 100 });
+    }
+    // Check-ins and other runs recorded outside the scheduler have no lag
+    const checkIn = await runsRepo.create({ endpointId: "ep-1", status: "running", attempt: 1, source: "heartbeat" });
+    await runsRepo.finish(checkIn, { status: "success", durationMs: 0 });
+
+    // Before archiving
+    let lag = await runsRepo.getJobLagPercentiles({ userId });
+    expect(lag).toHaveLength(1);
+    expect(lag[0]).toMatchObject({ jobId: job.id, runCount: 5, p50LagMs: 300 });
+    expect(lag[0].p99LagMs).toBeGreaterThan(lag[0].p95LagMs);
+
+    // Archive endpoint
+    await jobsRepo.archiveEndpoint("ep-1");
+
+    // After archiving - no job has lagged runs
+    lag = await runsRepo.getJobLagPercentiles({ userId });
+    expect(lag).toHaveLength(0);
+  });
+
   testWithTx("getSourceDistribution should exclude archived jobs and endpoints", async ({ tx }) => {
     const clock = () => new Date("2025-01-01T00:00:00Z");
     const jobsRepo = new DrizzleJobsRepo(tx, clock);
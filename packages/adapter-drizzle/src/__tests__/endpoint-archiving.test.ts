@@ -240,20 +240,20 @@ describe("endpoint Archiving and Quota Filtering", () => {
     });
 
     // Should claim both
-    let claimed = await repo.claimDueEndpoints(10, 60000);
+    let claimed = await repo.claimDueEndpoints(10, 60000, "worker-a");
     expect(claimed).toContain("ep-1");
     expect(claimed).toContain("ep-2");
     expect(claimed.length).toBe(2);
 
-    // Clear locks
-    await repo.clearLock("ep-1");
-    await repo.clearLock("ep-2");
+    // Release leases
+    await repo.releaseLease("ep-1", "worker-a");
+    await repo.releaseLease("ep-2", "worker-a");
 
     // Archive ep-1
     await repo.archiveEndpoint("ep-1");
 
     // Should now claim only ep-2
-    claimed = await repo.claimDueEndpoints(10, 60000);
+    claimed = await repo.claimDueEndpoints(10, 60000, "worker-a");
     expect(claimed).toEqual(["ep-2"]);
   });
 
@@ -284,17 +284,17 @@ describe("endpoint Archiving and Quota Filtering", () => {
     });
 
     // Should claim it
-    let claimed = await repo.claimDueEndpoints(10, 60000);
+    let claimed = await repo.claimDueEndpoints(10, 60000, "worker-a");
     expect(claimed).toEqual(["ep-1"]);
 
-    // Clear lock
-    await repo.clearLock("ep-1");
+    // Release lease
+    await repo.releaseLease("ep-1", "worker-a");
 
     // Archive the job
     await repo.archiveJob(job.id);
 
     // Should now claim nothing
-    claimed = await repo.claimDueEndpoints(10, 60000);
+    claimed = await repo.claimDueEndpoints(10, 60000, "worker-a");
     expect(claimed).toEqual([]);
   });
 });
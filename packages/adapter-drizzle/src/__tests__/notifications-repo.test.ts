@@ -0,0 +1,119 @@
+/**
+ * Integration tests for DrizzleNotificationsRepo.
+ * Uses transaction-per-test pattern for isolation.
+ */
+
+import { afterAll, describe } from "vitest";
+
+import type { Tx } from "../tests/fixtures.js";
+
+import { DrizzleJobsRepo } from "../jobs-repo.js";
+import { DrizzleNotificationsRepo } from "../notifications-repo.js";
+import { closeTestPool, createTestUser, expect, test } from "../tests/fixtures.js";
+
+async function createEndpoint(tx: Tx, userId: string, id: string) {
+  const jobs = new DrizzleJobsRepo(tx, () => new Date("2026-01-01T00:00:00Z"));
+  const job = await jobs.createJob({ userId, name: "Job", status: "active" });
+  await jobs.addEndpoint({
+    id,
+    jobId: job.id,
+    tenantId: userId,
+    name: "Endpoint",
+    nextRunAt: new Date("2026-01-01T01:00:00Z"),
+    failureCount: 0,
+    baselineIntervalMs: 60_000,
+  });
+  return { id, jobId: job.id, tenantId: userId };
+}
+
+describe("drizzleNotificationsRepo", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  describe("channels", () => {
+    test("creates, updates and deletes a channel scoped to its owner", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const other = await createTestUser(tx);
+      const repo = new DrizzleNotificationsRepo(tx);
+
+      const channel = await repo.createChannel({
+        userId: user.id,
+        name: "On-call",
+        config: { type: "email", to: ["ops@example.com"] },
+        enabled: true,
+      });
+
+      expect(await repo.getChannel(other.id, channel.id)).toBeNull();
+      expect(await repo.listChannels(user.id)).toEqual([channel]);
+
+      const updated = await repo.updateChannel(user.id, channel.id, { enabled: false });
+      expect(updated?.enabled).toBe(false);
+      expect(updated?.config).toEqual({ type: "email", to: ["ops@example.com"] });
+
+      expect(await repo.deleteChannel(other.id, channel.id)).toBe(false);
+      expect(await repo.deleteChannel(user.id, channel.id)).toBe(true);
+      expect(await repo.listChannels(user.id)).toEqual([]);
+    });
+  });
+
+  describe("listRulesForEndpoint", () => {
+    test("returns enabled endpoint, job and owner-wide rules", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleNotificationsRepo(tx);
+      const endpoint = await createEndpoint(tx, user.id, `ep_${Date.now()}_a`);
+      const sibling = await createEndpoint(tx, user.id, `ep_${Date.now()}_b`);
+
+      const base = {
+        userId: user.id,
+        condition: { type: "failureStreak", threshold: 3 } as const,
+        channelIds: [],
+        cooldownMinutes: 60,
+        notifyOnResolve: true,
+        enabled: true,
+      };
+      const onEndpoint = await repo.createRule({ ...base, name: "endpoint", endpointId: endpoint.id });
+      const onJob = await repo.createRule({ ...base, name: "job", jobId: endpoint.jobId });
+      const ownerWide = await repo.createRule({ ...base, name: "all" });
+      await repo.createRule({ ...base, name: "disabled", enabled: false });
+      await repo.createRule({ ...base, name: "sibling", endpointId: sibling.id });
+
+      const rules = await repo.listRulesForEndpoint(endpoint);
+
+      expect(rules.map(r => r.id).sort()).toEqual([onEndpoint.id, onJob.id, ownerWide.id].sort());
+    });
+  });
+
+  describe("alert state", () => {
+    test("upserts state per rule and endpoint", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleNotificationsRepo(tx);
+      const endpoint = await createEndpoint(tx, user.id, `ep_${Date.now()}_s`);
+      const rule = await repo.createRule({
+        userId: user.id,
+        name: "streak",
+        condition: { type: "failureStreak", threshold: 1 },
+        channelIds: [],
+        cooldownMinutes: 0,
+        notifyOnResolve: true,
+        enabled: true,
+      });
+      const firedAt = new Date("2026-01-01T00:00:00Z");
+
+      expect(await repo.getAlertState(rule.id, endpoint.id)).toBeNull();
+
+      await repo.saveAlertState({ ruleId: rule.id, endpointId: endpoint.id, status: "firing", firedAt, lastNotifiedAt: firedAt });
+      const resolvedAt = new Date("2026-01-01T00:10:00Z");
+      await repo.saveAlertState({ ruleId: rule.id, endpointId: endpoint.id, status: "resolved", firedAt, resolvedAt, lastNotifiedAt: resolvedAt });
+
+      expect(await repo.getAlertState(rule.id, endpoint.id)).toEqual({
+        ruleId: rule.id,
+        endpointId: endpoint.id,
+        status: "resolved",
+        firedAt,
+        resolvedAt,
+        lastNotifiedAt: resolvedAt,
+      });
+    });
+  });
+});
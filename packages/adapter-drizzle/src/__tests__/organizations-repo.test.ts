@@ -0,0 +1,116 @@
+/**
+ * Integration tests for DrizzleOrganizationsRepo and org ownership in DrizzleJobsRepo.
+ * Uses transaction-per-test pattern for isolation.
+ */
+
+import { TEST_CA_CERTIFICATE } from "@cronicorn/domain";
+import { afterAll, describe } from "vitest";
+
+import { DrizzleAuthProfilesRepo } from "../auth-profiles-repo.js";
+import { DrizzleJobsRepo } from "../jobs-repo.js";
+import { DrizzleOrganizationsRepo } from "../organizations-repo.js";
+import { SecretCipher } from "../secret-cipher.js";
+import { DrizzleSecretsRepo } from "../secrets-repo.js";
+import { DrizzleSigningKeyRepo } from "../signing-key-repo.js";
+import { closeTestPool, createTestUser, expect, test } from "../tests/fixtures.js";
+import { DrizzleTlsCredentialsRepo } from "../tls-credentials-repo.js";
+
+describe("drizzleOrganizationsRepo", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates an organization with the creator as owner", async ({ tx }) => {
+    const user = await createTestUser(tx, { email: "owner@example.com" });
+    const repo = new DrizzleOrganizationsRepo(tx);
+
+    const org = await repo.createOrganization({ name: "Acme", ownerUserId: user.id });
+
+    expect(org).toMatchObject({ name: "Acme", tier: "free" });
+    expect(await repo.getMemberRole(org.id, user.id)).toBe("owner");
+    expect(await repo.countOwners(org.id)).toBe(1);
+    expect(await repo.listOrganizationsForUser(user.id)).toEqual([expect.objectContaining({ id: org.id, role: "owner" })]);
+  });
+
+  test("adds, updates and removes members", async ({ tx }) => {
+    const owner = await createTestUser(tx, { email: "owner@example.com" });
+    const member = await createTestUser(tx, { email: "member@example.com", name: "Member" });
+    const repo = new DrizzleOrganizationsRepo(tx);
+    const org = await repo.createOrganization({ name: "Acme", ownerUserId: owner.id });
+
+    await repo.upsertMember(org.id, member.id, "viewer");
+    await repo.upsertMember(org.id, member.id, "editor");
+
+    const members = await repo.listMembers(org.id);
+    expect(members).toHaveLength(2);
+    expect(members[1]).toMatchObject({ userId: member.id, email: "member@example.com", name: "Member", role: "editor" });
+
+    expect(await repo.removeMember(org.id, member.id)).toBe(true);
+    expect(await repo.removeMember(org.id, member.id)).toBe(false);
+    expect(await repo.getMemberRole(org.id, member.id)).toBeNull();
+  });
+
+  test("tracks invitations until accepted", async ({ tx }) => {
+    const owner = await createTestUser(tx, { email: "owner@example.com" });
+    const repo = new DrizzleOrganizationsRepo(tx);
+    const org = await repo.createOrganization({ name: "Acme", ownerUserId: owner.id });
+
+    const invitation = await repo.createInvitation({
+      orgId: org.id,
+      email: "new@example.com",
+      role: "editor",
+      token: "token-1",
+      invitedBy: owner.id,
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    expect(await repo.getInvitationByToken("token-1")).toMatchObject({ id: invitation.id, role: "editor" });
+    expect(await repo.listPendingInvitations(org.id)).toHaveLength(1);
+
+    await repo.markInvitationAccepted(invitation.id, new Date());
+
+    expect(await repo.listPendingInvitations(org.id)).toEqual([]);
+    expect(await repo.deleteInvitation(org.id, invitation.id)).toBe(false);
+  });
+
+  test("scopes jobs and tier to the organization", async ({ tx }) => {
+    const user = await createTestUser(tx, { email: "owner@example.com", tier: "free" });
+    const orgs = new DrizzleOrganizationsRepo(tx);
+    const jobs = new DrizzleJobsRepo(tx);
+    const org = await orgs.createOrganization({ name: "Acme", ownerUserId: user.id });
+    await orgs.updateOrganizationSubscription(org.id, { tier: "pro", stripeCustomerId: "cus_org" });
+
+    const personal = await jobs.createJob({ userId: user.id, name: "Personal", status: "active" });
+    const shared = await jobs.createJob({ userId: user.id, orgId: org.id, name: "Shared", status: "active" });
+
+    expect((await jobs.listJobs(user.id)).map(job => job.id)).toEqual([personal.id]);
+    expect((await jobs.listJobs(org.id)).map(job => job.id)).toEqual([shared.id]);
+    expect(await jobs.getUserTier(org.id)).toBe("pro");
+    expect(await jobs.getUserTier(user.id)).toBe("free");
+    expect((await orgs.getOrganizationByStripeCustomerId("cus_org"))?.id).toBe(org.id);
+  });
+
+  test("removes the organization's credentials with it", async ({ tx }) => {
+    const user = await createTestUser(tx, { email: "owner@example.com" });
+    const orgs = new DrizzleOrganizationsRepo(tx);
+    const cipher = new SecretCipher("test-secrets-key");
+    const secrets = new DrizzleSecretsRepo(tx, cipher);
+    const signingKeys = new DrizzleSigningKeyRepo(tx);
+    const tlsCredentials = new DrizzleTlsCredentialsRepo(tx, cipher);
+    const authProfiles = new DrizzleAuthProfilesRepo(tx, cipher);
+    const org = await orgs.createOrganization({ name: "Acme", ownerUserId: user.id });
+    await secrets.set(org.id, "API_KEY", "org-value");
+    await secrets.set(user.id, "API_KEY", "personal-value");
+    await signingKeys.create(org.id);
+    await tlsCredentials.set(org.id, "internal-ca", { caBundle: TEST_CA_CERTIFICATE }, { subject: null, certificateExpiresAt: null, caCertificates: 1, caExpiresAt: null });
+    await authProfiles.set(org.id, "billing", { tokenUrl: "https://auth.example.com/oauth/token", clientId: "acme", scopes: [], audience: null }, "client-secret");
+
+    await orgs.deleteOrganization(org.id);
+
+    expect(await secrets.list(org.id)).toEqual([]);
+    expect((await secrets.list(user.id)).map(secret => secret.name)).toEqual(["API_KEY"]);
+    expect((await signingKeys.getInfo(org.id)).hasKey).toBe(false);
+    expect(await tlsCredentials.list(org.id)).toEqual([]);
+    expect(await authProfiles.list(org.id)).toEqual([]);
+  });
+});
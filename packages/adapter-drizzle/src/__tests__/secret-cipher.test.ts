@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+
+import { SecretCipher } from "../secret-cipher.js";
+
+describe("secretCipher", () => {
+  it("round-trips values with a fresh IV each time", () => {
+    const cipher = new SecretCipher("server-key");
+
+    const first = cipher.encrypt("sk_live_1");
+    const second = cipher.encrypt("sk_live_1");
+
+    expect(first).toMatch(/^v1\.[\w-]+\.[\w-]+\.[\w-]+$/);
+    expect(first).not.toBe(second);
+    expect(cipher.decrypt(first)).toBe("sk_live_1");
+    expect(cipher.decrypt(cipher.encrypt(""))).toBe("");
+  });
+
+  it("rejects values encrypted with another key or tampered with", () => {
+    const encrypted = new SecretCipher("server-key").encrypt("sk_live_1");
+
+    expect(() => new SecretCipher("other-key").decrypt(encrypted)).toThrow();
+    expect(() => new SecretCipher("server-key").decrypt(`${encrypted.slice(0, -2)}AA`)).toThrow();
+    expect(() => new SecretCipher("server-key").decrypt("plaintext")).toThrow("Unsupported encrypted secret format");
+  });
+
+  it("requires a key", () => {
+    expect(() => new SecretCipher("")).toThrow();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Integration tests for DrizzleSecretsRepo and DrizzleSecretsProvider.
+ * Uses transaction-per-test pattern for isolation.
+ */
+
+import { eq } from "drizzle-orm";
+import { afterAll, describe } from "vitest";
+
+import { schema } from "../index.js";
+import { SecretCipher } from "../secret-cipher.js";
+import { DrizzleSecretsProvider, DrizzleSecretsRepo } from "../secrets-repo.js";
+import { closeTestPool, createTestUser, expect, test } from "../tests/fixtures.js";
+
+const cipher = new SecretCipher("test-secrets-key");
+
+describe("drizzleSecretsRepo", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates, replaces and lists secrets without values", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleSecretsRepo(tx, cipher);
+
+    expect((await repo.set(user.id, "STRIPE_KEY", "sk_live_1")).created).toBe(true);
+    expect((await repo.set(user.id, "API_TOKEN", "t-1")).created).toBe(true);
+    expect((await repo.set(user.id, "STRIPE_KEY", "sk_live_2")).created).toBe(false);
+
+    const list = await repo.list(user.id);
+    expect(list.map(secret => secret.name)).toEqual(["API_TOKEN", "STRIPE_KEY"]);
+    expect(list[0]).toEqual({ name: "API_TOKEN", createdAt: expect.any(Date), updatedAt: expect.any(Date) });
+  });
+
+  test("stores values encrypted", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    await new DrizzleSecretsRepo(tx, cipher).set(user.id, "STRIPE_KEY", "sk_live_1");
+
+    const [row] = await tx.select().from(schema.secrets).where(eq(schema.secrets.userId, user.id));
+    expect(row!.valueEncrypted).not.toContain("sk_live_1");
+    expect(cipher.decrypt(row!.valueEncrypted)).toBe("sk_live_1");
+  });
+
+  test("deletes by name", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleSecretsRepo(tx, cipher);
+    await repo.set(user.id, "STRIPE_KEY", "sk_live_1");
+
+    expect(await repo.delete(user.id, "STRIPE_KEY")).toBe(true);
+    expect(await repo.delete(user.id, "STRIPE_KEY")).toBe(false);
+    expect(await repo.list(user.id)).toEqual([]);
+  });
+
+  test("provider returns decrypted values for the tenant only", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const other = await createTestUser(tx);
+    const repo = new DrizzleSecretsRepo(tx, cipher);
+    await repo.set(user.id, "STRIPE_KEY", "sk_live_1");
+    await repo.set(other.id, "API_TOKEN", "t-other");
+
+    const provider = new DrizzleSecretsProvider(tx, cipher);
+
+    expect(await provider.getSecrets(user.id, ["STRIPE_KEY", "API_TOKEN"])).toEqual({ STRIPE_KEY: "sk_live_1" });
+    expect(await provider.getSecrets(user.id, [])).toEqual({});
+  });
+});
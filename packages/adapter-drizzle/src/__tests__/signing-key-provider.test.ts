@@ -14,13 +14,13 @@ describe("drizzleSigningKeyProvider", () => {
     await closeTestPool();
   });
 
-  test("returns null when no key exists for tenant", async ({ tx }) => {
+  test("returns no keys when no key exists for tenant", async ({ tx }) => {
     const user = await createTestUser(tx);
     const provider = new DrizzleSigningKeyProvider(tx);
 
-    const key = await provider.getKey(user.id);
+    const keys = await provider.getKeys(user.id);
 
-    expect(key).toBeNull();
+    expect(keys).toEqual([]);
   });
 
   test("returns raw key when key exists for tenant", async ({ tx }) => {
@@ -28,17 +28,67 @@ describe("drizzleSigningKeyProvider", () => {
     const repo = new DrizzleSigningKeyRepo(tx);
     const provider = new DrizzleSigningKeyProvider(tx);
 
-    const { rawKey } = await repo.create(user.id);
-    const key = await provider.getKey(user.id);
+    const { id, rawKey } = await repo.create(user.id);
+    const keys = await provider.getKeys(user.id);
 
-    expect(key).toBe(rawKey);
+    expect(keys).toEqual([{ id, key: rawKey, algorithm: "hmac-sha256", version: "v1" }]);
   });
 
-  test("returns null for unknown tenant", async ({ tx }) => {
+  test("returns both keys during a rotation overlap, newest first", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleSigningKeyRepo(tx);
+    const provider = new DrizzleSigningKeyProvider(tx);
+
+    const original = await repo.create(user.id);
+    const rotated = await repo.rotate(user.id, 60 * 60 * 1000);
+    const keys = await provider.getKeys(user.id);
+
+    expect(keys).toEqual([
+      { id: rotated.id, key: rotated.rawKey, algorithm: "hmac-sha256", version: "v1" },
+      { id: original.id, key: original.rawKey, algorithm: "hmac-sha256", version: "v1" },
+    ]);
+  });
+
+  test("drops the old key once its overlap has ended", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleSigningKeyRepo(tx);
+    const provider = new DrizzleSigningKeyProvider(tx);
+
+    await repo.create(user.id);
+    const rotated = await repo.rotate(user.id, 0);
+    const keys = await provider.getKeys(user.id);
+
+    expect(keys).toEqual([{ id: rotated.id, key: rotated.rawKey, algorithm: "hmac-sha256", version: "v1" }]);
+  });
+
+  test("returns the tenant's signature version with each key", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleSigningKeyRepo(tx);
+    const provider = new DrizzleSigningKeyProvider(tx);
+
+    await repo.create(user.id);
+    await repo.setSignatureVersion(user.id, "v2");
+    const keys = await provider.getKeys(user.id);
+
+    expect(keys.map(k => k.version)).toEqual(["v2"]);
+  });
+
+  test("returns the Ed25519 private key for Ed25519 keys", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleSigningKeyRepo(tx);
+    const provider = new DrizzleSigningKeyProvider(tx);
+
+    const { id } = await repo.create(user.id, "ed25519");
+    const keys = await provider.getKeys(user.id);
+
+    expect(keys).toEqual([{ id, key: expect.stringContaining("BEGIN PRIVATE KEY"), algorithm: "ed25519", version: "v1" }]);
+  });
+
+  test("returns no keys for unknown tenant", async ({ tx }) => {
     const provider = new DrizzleSigningKeyProvider(tx);
 
-    const key = await provider.getKey("nonexistent-user-id");
+    const keys = await provider.getKeys("nonexistent-user-id");
 
-    expect(key).toBeNull();
+    expect(keys).toEqual([]);
   });
 });
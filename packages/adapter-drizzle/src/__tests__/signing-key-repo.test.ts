@@ -22,10 +22,11 @@ describe("drizzleSigningKeyRepo", () => {
 
       expect(result.rawKey).toMatch(/^[0-9a-f]{64}$/); // 32 bytes hex
       expect(result.keyPrefix).toMatch(/^sk_[0-9a-f]{8}$/);
-      expect(result.keyPrefix).toBe(`sk_${result.rawKey.slice(0, 8)}`);
+      expect(result.keyPrefix).toBe(`sk_${result.rawKey!.slice(0, 8)}`);
+      expect(result.algorithm).toBe("hmac-sha256");
     });
 
-    test("throws on duplicate key for same user", async ({ tx }) => {
+    test("throws when the user already has a key", async ({ tx }) => {
       const user = await createTestUser(tx);
       const repo = new DrizzleSigningKeyRepo(tx);
 
@@ -45,19 +46,25 @@ describe("drizzleSigningKeyRepo", () => {
       expect(info.keyPrefix).toBeNull();
       expect(info.createdAt).toBeNull();
       expect(info.rotatedAt).toBeNull();
+      expect(info.algorithm).toBeNull();
+      expect(info.signatureVersion).toBeNull();
+      expect(info.keys).toEqual([]);
     });
 
     test("returns key metadata after creation", async ({ tx }) => {
       const user = await createTestUser(tx);
       const repo = new DrizzleSigningKeyRepo(tx);
 
-      const { keyPrefix } = await repo.create(user.id);
+      const { id, keyPrefix } = await repo.create(user.id);
       const info = await repo.getInfo(user.id);
 
       expect(info.hasKey).toBe(true);
       expect(info.keyPrefix).toBe(keyPrefix);
       expect(info.createdAt).toBeInstanceOf(Date);
       expect(info.rotatedAt).toBeNull();
+      expect(info.keys).toEqual([
+        { id, keyPrefix, algorithm: "hmac-sha256", status: "active", createdAt: expect.any(Date), expiresAt: null },
+      ]);
     });
   });
 
@@ -67,7 +74,7 @@ describe("drizzleSigningKeyRepo", () => {
       const repo = new DrizzleSigningKeyRepo(tx);
 
       const original = await repo.create(user.id);
-      const rotated = await repo.rotate(user.id);
+      const rotated = await repo.rotate(user.id, 60 * 60 * 1000);
 
       expect(rotated.rawKey).not.toBe(original.rawKey);
       expect(rotated.keyPrefix).not.toBe(original.keyPrefix);
@@ -79,17 +86,126 @@ describe("drizzleSigningKeyRepo", () => {
       const repo = new DrizzleSigningKeyRepo(tx);
 
       await repo.create(user.id);
-      await repo.rotate(user.id);
+      await repo.rotate(user.id, 60 * 60 * 1000);
 
       const info = await repo.getInfo(user.id);
       expect(info.rotatedAt).toBeInstanceOf(Date);
     });
 
+    test("keeps the old key as expiring until the overlap ends", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      const original = await repo.create(user.id);
+      const rotated = await repo.rotate(user.id, 60 * 60 * 1000);
+
+      const info = await repo.getInfo(user.id);
+      expect(info.keyPrefix).toBe(rotated.keyPrefix);
+      expect(info.keys).toEqual([
+        expect.objectContaining({ id: rotated.id, status: "active", expiresAt: null }),
+        expect.objectContaining({ id: original.id, status: "expiring", expiresAt: rotated.previousKeyExpiresAt }),
+      ]);
+    });
+
+    test("keeps an earlier expiring key's expiry on a second rotation", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      const original = await repo.create(user.id);
+      const first = await repo.rotate(user.id, 60 * 60 * 1000);
+      const second = await repo.rotate(user.id, 2 * 60 * 60 * 1000);
+
+      const info = await repo.getInfo(user.id);
+      expect(info.keys.map(k => [k.id, k.expiresAt])).toEqual([
+        [second.id, null],
+        [first.id, second.previousKeyExpiresAt],
+        [original.id, first.previousKeyExpiresAt],
+      ]);
+    });
+
+    test("hides the old key immediately with no overlap", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      await repo.create(user.id);
+      const rotated = await repo.rotate(user.id, 0);
+
+      const info = await repo.getInfo(user.id);
+      expect(info.keys.map(k => k.id)).toEqual([rotated.id]);
+    });
+
     test("throws when no key exists", async ({ tx }) => {
       const user = await createTestUser(tx);
       const repo = new DrizzleSigningKeyRepo(tx);
 
-      await expect(repo.rotate(user.id)).rejects.toThrow("No signing key exists");
+      await expect(repo.rotate(user.id, 60 * 60 * 1000)).rejects.toThrow("No signing key exists");
+    });
+  });
+
+  describe("setSignatureVersion", () => {
+    test("defaults to v1", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      await repo.create(user.id);
+
+      const info = await repo.getInfo(user.id);
+      expect(info.signatureVersion).toBe("v1");
+    });
+
+    test("switches the version, and rotation keeps it", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      await repo.create(user.id);
+      await repo.setSignatureVersion(user.id, "v2");
+      await repo.rotate(user.id, 60 * 60 * 1000);
+
+      const info = await repo.getInfo(user.id);
+      expect(info.signatureVersion).toBe("v2");
+    });
+  });
+
+  describe("ed25519", () => {
+    test("creates a key pair without returning the private key", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      const result = await repo.create(user.id, "ed25519");
+
+      expect(result.rawKey).toBeNull();
+      expect(result.algorithm).toBe("ed25519");
+      expect(result.keyPrefix).toMatch(/^pk_[\w-]{8}$/);
+
+      const info = await repo.getInfo(user.id);
+      expect(info.algorithm).toBe("ed25519");
+    });
+
+    test("publishes only live Ed25519 keys, newest first", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      await repo.create(user.id); // HMAC
+      const first = await repo.rotate(user.id, 60 * 60 * 1000, "ed25519");
+      const second = await repo.rotate(user.id, 60 * 60 * 1000);
+
+      const publicKeys = await repo.getPublicKeys(user.id);
+
+      expect(second.algorithm).toBe("ed25519"); // Rotation keeps the algorithm
+      expect(publicKeys.map(k => k.id)).toEqual([second.id, first.id]);
+      expect(publicKeys[0]).toEqual({ id: second.id, publicKey: expect.stringMatching(/^[\w-]{43}$/), expiresAt: null });
+      expect(publicKeys[1]!.expiresAt).toBeInstanceOf(Date);
+    });
+
+    test("rotating back to HMAC drops the public key once the overlap ends", async ({ tx }) => {
+      const user = await createTestUser(tx);
+      const repo = new DrizzleSigningKeyRepo(tx);
+
+      await repo.create(user.id, "ed25519");
+      const rotated = await repo.rotate(user.id, 0, "hmac-sha256");
+
+      expect(rotated.rawKey).toMatch(/^[0-9a-f]{64}$/);
+      expect(await repo.getPublicKeys(user.id)).toEqual([]);
     });
   });
 
@@ -99,10 +215,12 @@ describe("drizzleSigningKeyRepo", () => {
       const repo = new DrizzleSigningKeyRepo(tx);
 
       await repo.create(user.id);
+      await repo.rotate(user.id, 60 * 60 * 1000);
       await repo.delete(user.id);
 
       const info = await repo.getInfo(user.id);
       expect(info.hasKey).toBe(false);
+      expect(info.keys).toEqual([]);
     });
 
     test("is idempotent — no error when key does not exist", async ({ tx }) => {
@@ -0,0 +1,89 @@
+/**
+ * Integration tests for DrizzleTlsCredentialsRepo and DrizzleTlsCredentialProvider.
+ * Uses transaction-per-test pattern for isolation.
+ */
+
+import { TEST_CA_CERTIFICATE, TEST_CLIENT_CERTIFICATE, TEST_CLIENT_PRIVATE_KEY } from "@cronicorn/domain";
+import { eq } from "drizzle-orm";
+import { afterAll, describe } from "vitest";
+
+import { schema } from "../index.js";
+import { SecretCipher } from "../secret-cipher.js";
+import { closeTestPool, createTestUser, expect, test } from "../tests/fixtures.js";
+import { DrizzleTlsCredentialProvider, DrizzleTlsCredentialsRepo } from "../tls-credentials-repo.js";
+
+const cipher = new SecretCipher("test-secrets-key");
+
+const clientCertificate = { certificate: TEST_CLIENT_CERTIFICATE, privateKey: TEST_CLIENT_PRIVATE_KEY };
+const clientSummary = {
+  subject: "CN=billing-client",
+  certificateExpiresAt: new Date("2126-09-25T14:24:42.000Z"),
+  caCertificates: 0,
+  caExpiresAt: null,
+};
+const caSummary = {
+  subject: null,
+  certificateExpiresAt: null,
+  caCertificates: 1,
+  caExpiresAt: new Date("2126-09-25T14:24:42.000Z"),
+};
+
+describe("drizzleTlsCredentialsRepo", () => {
+  afterAll(async () => {
+    await closeTestPool();
+  });
+
+  test("creates, replaces and lists credentials without material", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleTlsCredentialsRepo(tx, cipher);
+
+    expect((await repo.set(user.id, "billing", clientCertificate, clientSummary)).created).toBe(true);
+    expect((await repo.set(user.id, "internal-ca", { caBundle: TEST_CA_CERTIFICATE }, caSummary)).created).toBe(true);
+    expect((await repo.set(user.id, "billing", { ...clientCertificate, caBundle: TEST_CA_CERTIFICATE }, { ...clientSummary, caCertificates: 1 })).created).toBe(false);
+
+    const list = await repo.list(user.id);
+    expect(list.map(credential => credential.name)).toEqual(["billing", "internal-ca"]);
+    expect(list[0]).toEqual({
+      name: "billing",
+      hasClientCertificate: true,
+      ...clientSummary,
+      caCertificates: 1,
+      createdAt: expect.any(Date),
+      updatedAt: expect.any(Date),
+    });
+    expect(await repo.get(user.id, "internal-ca")).toMatchObject({ hasClientCertificate: false, ...caSummary });
+    expect(await repo.get(user.id, "missing")).toBeNull();
+  });
+
+  test("stores material encrypted", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    await new DrizzleTlsCredentialsRepo(tx, cipher).set(user.id, "billing", clientCertificate, clientSummary);
+
+    const [row] = await tx.select().from(schema.tlsCredentials).where(eq(schema.tlsCredentials.userId, user.id));
+    expect(row!.materialEncrypted).not.toContain("PRIVATE KEY");
+    expect(JSON.parse(cipher.decrypt(row!.materialEncrypted))).toEqual(clientCertificate);
+  });
+
+  test("deletes by name", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const repo = new DrizzleTlsCredentialsRepo(tx, cipher);
+    await repo.set(user.id, "billing", clientCertificate, clientSummary);
+
+    expect(await repo.delete(user.id, "billing")).toBe(true);
+    expect(await repo.delete(user.id, "billing")).toBe(false);
+    expect(await repo.list(user.id)).toEqual([]);
+  });
+
+  test("provider returns decrypted material for the tenant only", async ({ tx }) => {
+    const user = await createTestUser(tx);
+    const other = await createTestUser(tx);
+    const repo = new DrizzleTlsCredentialsRepo(tx, cipher);
+    await repo.set(user.id, "billing", clientCertificate, clientSummary);
+    await repo.set(other.id, "internal-ca", { caBundle: TEST_CA_CERTIFICATE }, caSummary);
+
+    const provider = new DrizzleTlsCredentialProvider(tx, cipher);
+
+    expect(await provider.getTlsCredential(user.id, "billing")).toEqual({ ...clientCertificate, updatedAt: expect.any(Date) });
+    expect(await provider.getTlsCredential(user.id, "internal-ca")).toBeNull();
+  });
+});
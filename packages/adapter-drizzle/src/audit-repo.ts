@@ -0,0 +1,91 @@
+/**
+ * Drizzle adapter for the append-only audit log.
+ */
+
+import type { AuditEvent, AuditEventFilters, AuditRepo } from "@cronicorn/domain";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+import { and, count, desc, eq, gte, lt } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+
+import type { AuditEventRow } from "./schema.js";
+
+import { auditEvents } from "./schema.js";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+export class DrizzleAuditRepo implements AuditRepo {
+  // eslint-disable-next-line ts/no-explicit-any
+  constructor(private readonly db: NodePgDatabase<any>) {}
+
+  async append(event: Omit<AuditEvent, "id">): Promise<AuditEvent> {
+    const [row] = await this.db.insert(auditEvents).values({
+      id: randomUUID(),
+      tenantId: event.tenantId,
+      actorType: event.actor.type,
+      actorId: event.actor.id,
+      actorUserId: event.actor.userId ?? null,
+      action: event.action,
+      jobId: event.jobId ?? null,
+      endpointId: event.endpointId ?? null,
+      changes: event.changes,
+      createdAt: event.createdAt,
+    }).returning();
+    return rowToEvent(row!);
+  }
+
+  async list(tenantId: string, filters: AuditEventFilters = {}): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions = [eq(auditEvents.tenantId, tenantId)];
+    if (filters.jobId) {
+      conditions.push(eq(auditEvents.jobId, filters.jobId));
+    }
+    if (filters.endpointId) {
+      conditions.push(eq(auditEvents.endpointId, filters.endpointId));
+    }
+    if (filters.action) {
+      conditions.push(eq(auditEvents.action, filters.action));
+    }
+    if (filters.actorType) {
+      conditions.push(eq(auditEvents.actorType, filters.actorType));
+    }
+    if (filters.since) {
+      conditions.push(gte(auditEvents.createdAt, filters.since));
+    }
+    if (filters.until) {
+      conditions.push(lt(auditEvents.createdAt, filters.until));
+    }
+
+    const rows = await this.db
+      .select()
+      .from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.createdAt), desc(auditEvents.id))
+      .limit(Math.min(filters.limit ?? DEFAULT_LIMIT, MAX_LIMIT))
+      .offset(filters.offset ?? 0);
+
+    const [totalRow] = await this.db
+      .select({ count: count() })
+      .from(auditEvents)
+      .where(and(...conditions));
+
+    return { events: rows.map(rowToEvent), total: totalRow?.count ?? 0 };
+  }
+}
+
+function rowToEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    actor: {
+      type: row.actorType,
+      id: row.actorId,
+      userId: row.actorUserId ?? undefined,
+    },
+    action: row.action,
+    jobId: row.jobId ?? undefined,
+    endpointId: row.endpointId ?? undefined,
+    changes: row.changes,
+    createdAt: row.createdAt,
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Drizzle adapters for auth profiles (OAuth2 client credentials).
+ *
+ * DrizzleAuthProfilesRepo backs the management API and never returns the client secret.
+ * DrizzleAuthProfileProvider decrypts it for the dispatcher.
+ */
+
+import type { AuthProfile, AuthProfileInfo, AuthProfileProvider, AuthProfilesRepo, OAuth2ClientCredentialsSettings } from "@cronicorn/domain";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+import { and, asc, eq } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+
+import type { SecretCipher } from "./secret-cipher.js";
+
+import { authProfiles } from "./schema.js";
+
+const infoColumns = {
+  name: authProfiles.name,
+  type: authProfiles.type,
+  tokenUrl: authProfiles.tokenUrl,
+  clientId: authProfiles.clientId,
+  scopes: authProfiles.scopes,
+  audience: authProfiles.audience,
+  createdAt: authProfiles.createdAt,
+  updatedAt: authProfiles.updatedAt,
+};
+
+export class DrizzleAuthProfilesRepo implements AuthProfilesRepo {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly db: NodePgDatabase<any>,
+    private readonly cipher: SecretCipher,
+  ) {}
+
+  async list(userId: string): Promise<AuthProfileInfo[]> {
+    return this.db
+      .select(infoColumns)
+      .from(authProfiles)
+      .where(eq(authProfiles.userId, userId))
+      .orderBy(asc(authProfiles.name));
+  }
+
+  async get(userId: string, name: string): Promise<AuthProfileInfo | null> {
+    const [row] = await this.db
+      .select(infoColumns)
+      .from(authProfiles)
+      .where(and(eq(authProfiles.userId, userId), eq(authProfiles.name, name)))
+      .limit(1);
+    return row ?? null;
+  }
+
+  async set(
+    userId: string,
+    name: string,
+    settings: OAuth2ClientCredentialsSettings,
+    clientSecret: string,
+  ): Promise<{ profile: AuthProfileInfo; created: boolean }> {
+    const now = new Date();
+    const values = {
+      type: "oauth2-client-credentials" as const,
+      tokenUrl: settings.tokenUrl,
+      clientId: settings.clientId,
+      clientSecretEncrypted: this.cipher.encrypt(clientSecret),
+      scopes: settings.scopes,
+      audience: settings.audience,
+      updatedAt: now,
+    };
+
+    const existing = await this.db
+      .select({ id: authProfiles.id })
+      .from(authProfiles)
+      .where(and(eq(authProfiles.userId, userId), eq(authProfiles.name, name)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      const [row] = await this.db
+        .update(authProfiles)
+        .set(values)
+        .where(eq(authProfiles.id, existing[0]!.id))
+        .returning(infoColumns);
+      return { profile: row!, created: false };
+    }
+
+    const [row] = await this.db
+      .insert(authProfiles)
+      .values({ id: randomUUID(), userId, name, ...values, createdAt: now })
+      .returning(infoColumns);
+    return { profile: row!, created: true };
+  }
+
+  async delete(userId: string, name: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(authProfiles)
+      .where(and(eq(authProfiles.userId, userId), eq(authProfiles.name, name)))
+      .returning({ id: authProfiles.id });
+    return deleted.length > 0;
+  }
+}
+
+export class DrizzleAuthProfileProvider implements AuthProfileProvider {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly db: NodePgDatabase<any>,
+    private readonly cipher: SecretCipher,
+  ) {}
+
+  async getAuthProfile(tenantId: string, name: string): Promise<AuthProfile | null> {
+    const [row] = await this.db
+      .select({ ...infoColumns, clientSecretEncrypted: authProfiles.clientSecretEncrypted })
+      .from(authProfiles)
+      .where(and(eq(authProfiles.userId, tenantId), eq(authProfiles.name, name)))
+      .limit(1);
+    if (!row) {
+      return null;
+    }
+
+    const { clientSecretEncrypted, ...info } = row;
+    return { ...info, clientSecret: this.cipher.decrypt(clientSecretEncrypted) };
+  }
+}
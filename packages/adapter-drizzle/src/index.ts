@@ -4,12 +4,19 @@
  * PostgreSQL adapter for Cronicorn scheduler using Drizzle ORM.
  */
 
+export * from "./audit-repo.js";
+export * from "./auth-profiles-repo.js";
 export * from "./jobs-repo.js";
 export * from "./migrate.js";
+export * from "./notifications-repo.js";
+export * from "./organizations-repo.js";
 export * from "./quota-guard.js";
 export * from "./runs-repo.js";
 export * as schema from "./schema.js";
+export * from "./secret-cipher.js";
+export * from "./secrets-repo.js";
 export * from "./sessions-repo.js";
 export * from "./signing-key-provider.js";
 export * from "./signing-key-repo.js";
+export * from "./tls-credentials-repo.js";
 export * from "./webhook-events-repo.js";
@@ -0,0 +1,12 @@
+/**
+ * Owner of a job: the organization for org-owned jobs, the creating user otherwise.
+ *
+ * Repo methods that scope by "userId" compare against this expression, so one ID
+ * selects either a user's personal jobs or an organization's jobs (never both).
+ */
+
+import { sql } from "drizzle-orm";
+
+import { jobs } from "./schema.js";
+
+export const jobOwnerId = sql<string>`coalesce(${jobs.orgId}, ${jobs.userId})`;
@@ -1,9 +1,10 @@
 import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
 
-import { getExecutionLimits, getRunsLimit, getTierLimit, type Job, type JobEndpoint, type JobsRepo } from "@cronicorn/domain";
+import { type BlackoutWindow, getExecutionLimits, getRunsLimit, getTierLimit, type Job, type JobEndpoint, type JobsRepo, type ManualRunRequest, type TriggerToken } from "@cronicorn/domain";
 import { and, eq, inArray, isNull, lte, ne, or, sql } from "drizzle-orm";
 
-import { type JobEndpointRow, jobEndpoints, type JobRow, jobs, runs, user } from "./schema.js";
+import { jobOwnerId } from "./job-owner.js";
+import { type JobEndpointRow, jobEndpoints, type JobRow, jobs, organizations, runs, user } from "./schema.js";
 
 /**
  * PostgreSQL implementation of JobsRepo using Drizzle ORM.
@@ -26,6 +27,9 @@ export class DrizzleJobsRepo implements JobsRepo {
     const row: typeof jobEndpoints.$inferInsert = {
       ...ep,
       jobId: ep.jobId && ep.jobId !== "" ? ep.jobId : null,
+      manualRun: ep.manualRun && { ...ep.manualRun, requestedAt: ep.manualRun.requestedAt.toISOString() },
+      ...triggerTokenColumns(ep.triggerToken ?? null),
+      _leaseOwner: undefined,
       _lockedUntil: undefined,
     };
 
@@ -47,12 +51,18 @@ export class DrizzleJobsRepo implements JobsRepo {
       updates.baselineCron = patch.baselineCron;
     if (patch.baselineIntervalMs !== undefined)
       updates.baselineIntervalMs = patch.baselineIntervalMs;
+    if (patch.timezone !== undefined)
+      updates.timezone = patch.timezone || null; // Empty clears (UTC)
     if (patch.minIntervalMs !== undefined)
       updates.minIntervalMs = patch.minIntervalMs;
     if (patch.maxIntervalMs !== undefined)
       updates.maxIntervalMs = patch.maxIntervalMs;
     if (patch.pausedUntil !== undefined)
       updates.pausedUntil = patch.pausedUntil;
+    if (patch.blackoutWindows !== undefined)
+      updates.blackoutWindows = patch.blackoutWindows;
+    if (patch.misfirePolicy !== undefined)
+      updates.misfirePolicy = patch.misfirePolicy;
     if (patch.lastRunAt !== undefined)
       updates.lastRunAt = patch.lastRunAt;
     if (patch.nextRunAt !== undefined)
@@ -73,6 +83,20 @@ export class DrizzleJobsRepo implements JobsRepo {
       updates.maxExecutionTimeMs = patch.maxExecutionTimeMs;
     if (patch.maxResponseSizeKb !== undefined)
       updates.maxResponseSizeKb = patch.maxResponseSizeKb;
+    if (patch.retryPolicy !== undefined)
+      updates.retryPolicy = patch.retryPolicy;
+    if (patch.successCriteria !== undefined)
+      updates.successCriteria = patch.successCriteria;
+    if (patch.concurrencyPolicy !== undefined)
+      updates.concurrencyPolicy = patch.concurrencyPolicy;
+    if (patch.tlsCredentialName !== undefined)
+      updates.tlsCredentialName = patch.tlsCredentialName || null;
+    if (patch.authProfileName !== undefined)
+      updates.authProfileName = patch.authProfileName || null;
+    if (patch.graceMs !== undefined)
+      updates.graceMs = patch.graceMs;
+    if (patch.runAfter !== undefined)
+      updates.runAfter = patch.runAfter;
     if (patch.aiHintIntervalMs !== undefined)
       updates.aiHintIntervalMs = patch.aiHintIntervalMs;
     if (patch.aiHintNextRunAt !== undefined)
@@ -109,7 +133,37 @@ export class DrizzleJobsRepo implements JobsRepo {
       .where(eq(jobEndpoints.id, id));
   }
 
-  async claimDueEndpoints(limit: number, withinMs: number): Promise<string[]> {
+  async requestManualRun(id: string, request: ManualRunRequest): Promise<void> {
+    // Drop the post-run lock that keeps the endpoint unclaimable until its old nextRunAt,
+    // but not a lease held by a worker running it right now
+    await this.tx
+      .update(jobEndpoints)
+      .set({
+        manualRun: { ...request, requestedAt: request.requestedAt.toISOString() },
+        nextRunAt: sql`LEAST(${jobEndpoints.nextRunAt}, ${request.requestedAt})`,
+        _lockedUntil: sql`CASE WHEN ${jobEndpoints._leaseOwner} IS NULL THEN NULL ELSE ${jobEndpoints._lockedUntil} END`,
+      })
+      .where(eq(jobEndpoints.id, id));
+  }
+
+  async clearManualRun(id: string, requestId: string): Promise<void> {
+    await this.tx
+      .update(jobEndpoints)
+      .set({ manualRun: null })
+      .where(and(
+        eq(jobEndpoints.id, id),
+        sql`${jobEndpoints.manualRun}->>'id' = ${requestId}`,
+      ));
+  }
+
+  async setTriggerToken(id: string, token: TriggerToken | null): Promise<void> {
+    await this.tx
+      .update(jobEndpoints)
+      .set(triggerTokenColumns(token))
+      .where(eq(jobEndpoints.id, id));
+  }
+
+  async claimDueEndpoints(limit: number, withinMs: number, ownerId: string): Promise<string[]> {
     const now = this.now();
     const nowMs = now.getTime();
     const horizonMs = nowMs + withinMs;
@@ -118,7 +172,7 @@ export class DrizzleJobsRepo implements JobsRepo {
     // Claim endpoints that are:
     // 1. Due now or within horizon
     // 2. Not paused at endpoint level (pausedUntil is null or <= now)
-    // 3. Not locked (lockedUntil is null or <= now)
+    // 3. Not leased (lease expiry is null or <= now)
     // 4. Parent job is active (job.status NOT IN ('paused', 'archived'), or jobId is null for backward compat)
     //
     // Note: Cannot use LEFT JOIN with FOR UPDATE due to PostgreSQL limitation.
@@ -159,7 +213,7 @@ export class DrizzleJobsRepo implements JobsRepo {
 
     const ids = claimed.map((r: { id: string }) => r.id);
 
-    // Set lock duration per endpoint based on maxExecutionTimeMs
+    // Take the lease: record the owner and an initial expiry based on maxExecutionTimeMs
     // Use the maximum of: endpoint's maxExecutionTimeMs (default 60s), horizon, or minimum 60s
     if (ids.length > 0) {
       const maxLockDuration = claimed.reduce((max, ep) =>
@@ -168,7 +222,7 @@ export class DrizzleJobsRepo implements JobsRepo {
 
       await this.tx
         .update(jobEndpoints)
-        .set({ _lockedUntil: lockUntil })
+        .set({ _leaseOwner: ownerId, _lockedUntil: lockUntil })
         .where(inArray(jobEndpoints.id, ids));
     }
 
@@ -189,24 +243,60 @@ export class DrizzleJobsRepo implements JobsRepo {
     return this.rowToEntity(rows[0]);
   }
 
-  async setLock(id: string, until: Date): Promise<void> {
-    await this.tx
+  async getEndpointByPingToken(token: string): Promise<JobEndpoint | null> {
+    const rows = await this.tx
+      .select()
+      .from(jobEndpoints)
+      .where(and(
+        eq(jobEndpoints.pingToken, token),
+        isNull(jobEndpoints.archivedAt),
+      ))
+      .limit(1);
+
+    return rows.length > 0 ? this.rowToEntity(rows[0]) : null;
+  }
+
+  async getEndpointByTriggerTokenHash(hash: string): Promise<JobEndpoint | null> {
+    const rows = await this.tx
+      .select()
+      .from(jobEndpoints)
+      .where(and(
+        eq(jobEndpoints.triggerTokenHash, hash),
+        isNull(jobEndpoints.archivedAt),
+      ))
+      .limit(1);
+
+    return rows.length > 0 ? this.rowToEntity(rows[0]) : null;
+  }
+
+  async renewLease(id: string, ownerId: string, ttlMs: number): Promise<boolean> {
+    const renewed = await this.tx
       .update(jobEndpoints)
-      .set({ _lockedUntil: until })
-      .where(eq(jobEndpoints.id, id));
+      .set({ _lockedUntil: new Date(this.now().getTime() + ttlMs) })
+      .where(and(
+        eq(jobEndpoints.id, id),
+        eq(jobEndpoints._leaseOwner, ownerId),
+      ))
+      .returning({ id: jobEndpoints.id });
 
-    // Note: Drizzle doesn't return rowCount, optimistically assume success
-    // getEndpoint will throw if row doesn't exist
+    return renewed.length > 0;
   }
 
-  async clearLock(id: string): Promise<void> {
+  async releaseLease(id: string, ownerId: string): Promise<void> {
+    const now = this.now();
+
+    // Keep the endpoint unclaimable until its nextRunAt (same as updateAfterRun) so
+    // horizon-based claiming doesn't pick it up early once the owner lets go.
     await this.tx
       .update(jobEndpoints)
-      .set({ _lockedUntil: null })
-      .where(eq(jobEndpoints.id, id));
-
-    // Note: Drizzle doesn't return rowCount, optimistically assume success
-    // getEndpoint will throw if row doesn't exist
+      .set({
+        _leaseOwner: null,
+        _lockedUntil: sql`CASE WHEN ${jobEndpoints.nextRunAt} > ${now} THEN ${jobEndpoints.nextRunAt} ELSE NULL END`,
+      })
+      .where(and(
+        eq(jobEndpoints.id, id),
+        eq(jobEndpoints._leaseOwner, ownerId),
+      ));
   }
 
   async setNextRunAtIfEarlier(id: string, when: Date): Promise<void> {
@@ -228,11 +318,15 @@ export class DrizzleJobsRepo implements JobsRepo {
     if (maxAt && candidate > maxAt)
       candidate = maxAt;
 
-    // Only update if candidate is earlier
+    // Only update if candidate is earlier. The post-run lock would hold the endpoint
+    // until its old nextRunAt, so drop it too, unless a worker holds the lease right now
     if (candidate < ep.nextRunAt) {
       await this.tx
         .update(jobEndpoints)
-        .set({ nextRunAt: candidate })
+        .set({
+          nextRunAt: candidate,
+          _lockedUntil: sql`CASE WHEN ${jobEndpoints._leaseOwner} IS NULL THEN NULL ELSE ${jobEndpoints._lockedUntil} END`,
+        })
         .where(eq(jobEndpoints.id, id));
     }
   }
@@ -278,6 +372,7 @@ export class DrizzleJobsRepo implements JobsRepo {
       status: { status: "success" | "failed" | "canceled"; durationMs: number };
       failureCountPolicy: "increment" | "reset";
       clearExpiredHints: boolean;
+      consumedManualRunId?: string;
     },
   ): Promise<void> {
     const ep = await this.getEndpoint(id);
@@ -308,9 +403,7 @@ export class DrizzleJobsRepo implements JobsRepo {
 
     const updates: Partial<JobEndpointRow> = {
       lastRunAt: patch.lastRunAt,
-      nextRunAt: patch.nextRunAt,
       failureCount: newFailureCount,
-      _lockedUntil: lockUntil,
     };
 
     if (clearAllHints) {
@@ -324,9 +417,18 @@ export class DrizzleJobsRepo implements JobsRepo {
       updates.aiHintNextRunAt = null;
     }
 
+    // Evaluated in SQL so a run-now request made while the run was in flight is kept
+    // (and stays due) instead of being overwritten by the state read above
+    const pendingManualRun = sql`(${jobEndpoints.manualRun} IS NOT NULL AND ${jobEndpoints.manualRun}->>'id' IS DISTINCT FROM ${patch.consumedManualRunId ?? null})`;
+
     await this.tx
       .update(jobEndpoints)
-      .set(updates)
+      .set({
+        ...updates,
+        nextRunAt: sql`CASE WHEN ${pendingManualRun} THEN LEAST(${patch.nextRunAt}::timestamptz, (${jobEndpoints.manualRun}->>'requestedAt')::timestamptz) ELSE ${patch.nextRunAt}::timestamptz END`,
+        manualRun: sql`CASE WHEN ${pendingManualRun} THEN ${jobEndpoints.manualRun} ELSE NULL END`,
+        _lockedUntil: sql`CASE WHEN ${pendingManualRun} THEN NULL ELSE ${lockUntil}::timestamptz END`,
+      })
       .where(eq(jobEndpoints.id, id));
 
     // Note: Drizzle doesn't return rowCount, optimistically assume success
@@ -343,8 +445,10 @@ export class DrizzleJobsRepo implements JobsRepo {
       tenantId: row.tenantId,
       name: row.name,
       description: row.description ?? undefined,
+      kind: row.kind === "heartbeat" ? "heartbeat" : "http",
       baselineCron: row.baselineCron ?? undefined,
       baselineIntervalMs: row.baselineIntervalMs ?? undefined,
+      timezone: row.timezone ?? undefined,
       aiHintIntervalMs: row.aiHintIntervalMs ?? undefined,
       aiHintNextRunAt: row.aiHintNextRunAt ?? undefined,
       aiHintExpiresAt: row.aiHintExpiresAt ?? undefined,
@@ -352,6 +456,8 @@ export class DrizzleJobsRepo implements JobsRepo {
       minIntervalMs: row.minIntervalMs ?? undefined,
       maxIntervalMs: row.maxIntervalMs ?? undefined,
       pausedUntil: row.pausedUntil ?? undefined,
+      blackoutWindows: row.blackoutWindows ?? undefined,
+      misfirePolicy: row.misfirePolicy ?? undefined,
       archivedAt: row.archivedAt ?? undefined,
       lastRunAt: row.lastRunAt ?? undefined,
       nextRunAt: row.nextRunAt,
@@ -363,6 +469,23 @@ export class DrizzleJobsRepo implements JobsRepo {
       timeoutMs: row.timeoutMs ?? undefined,
       maxExecutionTimeMs: row.maxExecutionTimeMs ?? undefined,
       maxResponseSizeKb: row.maxResponseSizeKb ?? undefined,
+      retryPolicy: row.retryPolicy ?? undefined,
+      successCriteria: row.successCriteria ?? undefined,
+      concurrencyPolicy: row.concurrencyPolicy ?? undefined,
+      tlsCredentialName: row.tlsCredentialName ?? undefined,
+      authProfileName: row.authProfileName ?? undefined,
+      pingToken: row.pingToken ?? undefined,
+      graceMs: row.graceMs ?? undefined,
+      runAfter: row.runAfter ?? undefined,
+      manualRun: row.manualRun ? { ...row.manualRun, requestedAt: new Date(row.manualRun.requestedAt) } : undefined,
+      triggerToken: row.triggerTokenHash && row.triggerTokenPrefix && row.triggerTokenCreatedAt
+        ? {
+            hash: row.triggerTokenHash,
+            prefix: row.triggerTokenPrefix,
+            createdAt: row.triggerTokenCreatedAt,
+            rotatedAt: row.triggerTokenRotatedAt ?? undefined,
+          }
+        : undefined,
     };
   }
 
@@ -377,9 +500,11 @@ export class DrizzleJobsRepo implements JobsRepo {
     const row: typeof jobs.$inferInsert = {
       id,
       userId: job.userId,
+      orgId: job.orgId ?? null,
       name: job.name,
       description: job.description,
       status: job.status,
+      blackoutWindows: job.blackoutWindows,
       createdAt: now,
       updatedAt: now,
       archivedAt: job.archivedAt,
@@ -390,9 +515,11 @@ export class DrizzleJobsRepo implements JobsRepo {
     return {
       id,
       userId: job.userId,
+      orgId: job.orgId ?? null,
       name: job.name,
       description: job.description,
       status: job.status,
+      blackoutWindows: job.blackoutWindows,
       createdAt: now,
       updatedAt: now,
       archivedAt: job.archivedAt,
@@ -422,9 +549,11 @@ export class DrizzleJobsRepo implements JobsRepo {
       .select({
         id: jobs.id,
         userId: jobs.userId,
+        orgId: jobs.orgId,
         name: jobs.name,
         description: jobs.description,
         status: jobs.status,
+        blackoutWindows: jobs.blackoutWindows,
         createdAt: jobs.createdAt,
         updatedAt: jobs.updatedAt,
         archivedAt: jobs.archivedAt,
@@ -434,8 +563,8 @@ export class DrizzleJobsRepo implements JobsRepo {
       .leftJoin(jobEndpoints, eq(jobEndpoints.jobId, jobs.id))
       .where(
         filters?.status
-          ? and(eq(jobs.userId, userId), eq(jobs.status, filters.status))
-          : eq(jobs.userId, userId),
+          ? and(eq(jobOwnerId, userId), eq(jobs.status, filters.status))
+          : eq(jobOwnerId, userId),
       )
       .groupBy(jobs.id);
 
@@ -446,9 +575,11 @@ export class DrizzleJobsRepo implements JobsRepo {
       return {
         id: row.id,
         userId: row.userId,
+        orgId: row.orgId,
         name: row.name,
         description: row.description ?? undefined,
         status,
+        blackoutWindows: row.blackoutWindows ?? undefined,
         createdAt: row.createdAt,
         updatedAt: row.updatedAt,
         archivedAt: row.archivedAt ?? undefined,
@@ -457,7 +588,7 @@ export class DrizzleJobsRepo implements JobsRepo {
     });
   }
 
-  async updateJob(id: string, patch: { name?: string; description?: string }): Promise<Job> {
+  async updateJob(id: string, patch: { name?: string; description?: string; blackoutWindows?: BlackoutWindow[] }): Promise<Job> {
     const now = this.now();
 
     await this.tx
@@ -606,7 +737,7 @@ export class DrizzleJobsRepo implements JobsRepo {
       .from(jobEndpoints)
       .innerJoin(jobs, eq(jobEndpoints.jobId, jobs.id))
       .where(and(
-        eq(jobs.userId, userId),
+        eq(jobOwnerId, userId),
         eq(jobs.status, "active"),
         isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
       ));
@@ -623,12 +754,21 @@ export class DrizzleJobsRepo implements JobsRepo {
   }
 
   async getUserTier(userId: string): Promise<"free" | "pro" | "enterprise"> {
-    const result = await this.tx
-      .select({ tier: user.tier })
-      .from(user)
-      .where(eq(user.id, userId))
+    // Org-owned endpoints are billed to the organization
+    const orgResult = await this.tx
+      .select({ tier: organizations.tier })
+      .from(organizations)
+      .where(eq(organizations.id, userId))
       .limit(1);
 
+    const result = orgResult.length > 0
+      ? orgResult
+      : await this.tx
+        .select({ tier: user.tier })
+        .from(user)
+        .where(eq(user.id, userId))
+        .limit(1);
+
     // Default to "free" tier if user not found (safest/most restrictive default)
     // This gracefully handles edge cases like session-user mismatches in tests
     if (!result[0]) {
@@ -737,9 +877,11 @@ export class DrizzleJobsRepo implements JobsRepo {
     return {
       id: row.id,
       userId: row.userId,
+      orgId: row.orgId,
       name: row.name,
       description: row.description ?? undefined,
       status,
+      blackoutWindows: row.blackoutWindows ?? undefined,
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
       archivedAt: row.archivedAt ?? undefined,
@@ -898,3 +1040,13 @@ export class DrizzleJobsRepo implements JobsRepo {
     // Note: Idempotent - safe to call multiple times with same data
   }
 }
+
+/** The trigger token's columns (all null when the endpoint has no trigger URL) */
+function triggerTokenColumns(token: TriggerToken | null) {
+  return {
+    triggerTokenHash: token?.hash ?? null,
+    triggerTokenPrefix: token?.prefix ?? null,
+    triggerTokenCreatedAt: token?.createdAt ?? null,
+    triggerTokenRotatedAt: token?.rotatedAt ?? null,
+  };
+}
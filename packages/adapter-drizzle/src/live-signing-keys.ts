@@ -0,0 +1,30 @@
+/**
+ * A user's signing keys that still sign requests: the active key, plus rotated-out
+ * keys whose overlap period hasn't ended.
+ *
+ * Shared by the key provider (what to sign with) and the key repo (what to display),
+ * so an expired key disappears from both at the same moment.
+ */
+
+import { and, asc, desc, eq, gt, isNull, or, sql } from "drizzle-orm";
+
+import { signingKeys } from "./schema.js";
+
+export function liveSigningKeys(userId: string, now: Date) {
+  return and(
+    eq(signingKeys.userId, userId),
+    or(isNull(signingKeys.expiresAt), gt(signingKeys.expiresAt, now)),
+  );
+}
+
+/**
+ * Newest key first: the active key, then rotated-out keys by creation. `createdAt` defaults
+ * to the transaction's start time, so keys created and rotated in one transaction tie on it;
+ * `rotatedAt` (set from the clock on each rotation) and the id break the tie.
+ */
+export const newestSigningKeysFirst = [
+  desc(isNull(signingKeys.expiresAt)),
+  desc(signingKeys.createdAt),
+  sql`${signingKeys.rotatedAt} desc nulls last`,
+  asc(signingKeys.id),
+];
@@ -0,0 +1,208 @@
+/**
+ * Drizzle adapter for notification channels, alert rules and alert state.
+ */
+
+import type { AlertRule, AlertState, NotificationChannel, NotificationsRepo } from "@cronicorn/domain";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+import { and, eq, isNull, or } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+
+import type { AlertRuleRow, NotificationChannelRow } from "./schema.js";
+
+import { alertRules, alertStates, notificationChannels } from "./schema.js";
+
+export class DrizzleNotificationsRepo implements NotificationsRepo {
+  // eslint-disable-next-line ts/no-explicit-any
+  constructor(private readonly db: NodePgDatabase<any>) {}
+
+  // ==================== Channels ====================
+
+  async createChannel(channel: Parameters<NotificationsRepo["createChannel"]>[0]): Promise<NotificationChannel> {
+    const now = new Date();
+    const [row] = await this.db.insert(notificationChannels).values({
+      id: randomUUID(),
+      ...channel,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return rowToChannel(row!);
+  }
+
+  async getChannel(userId: string, id: string): Promise<NotificationChannel | null> {
+    const [row] = await this.db
+      .select()
+      .from(notificationChannels)
+      .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)))
+      .limit(1);
+    return row ? rowToChannel(row) : null;
+  }
+
+  async listChannels(userId: string): Promise<NotificationChannel[]> {
+    const rows = await this.db
+      .select()
+      .from(notificationChannels)
+      .where(eq(notificationChannels.userId, userId))
+      .orderBy(notificationChannels.createdAt);
+    return rows.map(rowToChannel);
+  }
+
+  async updateChannel(
+    userId: string,
+    id: string,
+    patch: Parameters<NotificationsRepo["updateChannel"]>[2],
+  ): Promise<NotificationChannel | null> {
+    const [row] = await this.db
+      .update(notificationChannels)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)))
+      .returning();
+    return row ? rowToChannel(row) : null;
+  }
+
+  async deleteChannel(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(notificationChannels)
+      .where(and(eq(notificationChannels.id, id), eq(notificationChannels.userId, userId)))
+      .returning({ id: notificationChannels.id });
+    return deleted.length > 0;
+  }
+
+  // ==================== Rules ====================
+
+  async createRule(rule: Parameters<NotificationsRepo["createRule"]>[0]): Promise<AlertRule> {
+    const now = new Date();
+    const [row] = await this.db.insert(alertRules).values({
+      id: randomUUID(),
+      ...rule,
+      jobId: rule.jobId ?? null,
+      endpointId: rule.endpointId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return rowToRule(row!);
+  }
+
+  async getRule(userId: string, id: string): Promise<AlertRule | null> {
+    const [row] = await this.db
+      .select()
+      .from(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .limit(1);
+    return row ? rowToRule(row) : null;
+  }
+
+  async listRules(userId: string): Promise<AlertRule[]> {
+    const rows = await this.db
+      .select()
+      .from(alertRules)
+      .where(eq(alertRules.userId, userId))
+      .orderBy(alertRules.createdAt);
+    return rows.map(rowToRule);
+  }
+
+  async updateRule(
+    userId: string,
+    id: string,
+    patch: Parameters<NotificationsRepo["updateRule"]>[2],
+  ): Promise<AlertRule | null> {
+    const [row] = await this.db
+      .update(alertRules)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning();
+    return row ? rowToRule(row) : null;
+  }
+
+  async deleteRule(userId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(alertRules)
+      .where(and(eq(alertRules.id, id), eq(alertRules.userId, userId)))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Enabled rules for an endpoint: endpoint-scoped, job-scoped for its job, and owner-wide
+   * (no job and no endpoint). Rules belong to users, so an organization's endpoints have none.
+   */
+  async listRulesForEndpoint(endpoint: { id: string; jobId?: string; tenantId: string }): Promise<AlertRule[]> {
+    const ownerWide = and(isNull(alertRules.jobId), isNull(alertRules.endpointId));
+    const rows = await this.db
+      .select()
+      .from(alertRules)
+      .where(and(
+        eq(alertRules.userId, endpoint.tenantId),
+        eq(alertRules.enabled, true),
+        or(
+          eq(alertRules.endpointId, endpoint.id),
+          endpoint.jobId ? and(eq(alertRules.jobId, endpoint.jobId), isNull(alertRules.endpointId)) : undefined,
+          ownerWide,
+        ),
+      ));
+    return rows.map(rowToRule);
+  }
+
+  // ==================== Alert state ====================
+
+  async getAlertState(ruleId: string, endpointId: string): Promise<AlertState | null> {
+    const [row] = await this.db
+      .select()
+      .from(alertStates)
+      .where(and(eq(alertStates.ruleId, ruleId), eq(alertStates.endpointId, endpointId)))
+      .limit(1);
+    if (!row) {
+      return null;
+    }
+    return {
+      ruleId: row.ruleId,
+      endpointId: row.endpointId,
+      status: row.status === "firing" ? "firing" : "resolved",
+      firedAt: row.firedAt ?? undefined,
+      resolvedAt: row.resolvedAt ?? undefined,
+      lastNotifiedAt: row.lastNotifiedAt ?? undefined,
+    };
+  }
+
+  async saveAlertState(state: AlertState): Promise<void> {
+    const values = {
+      status: state.status,
+      firedAt: state.firedAt ?? null,
+      resolvedAt: state.resolvedAt ?? null,
+      lastNotifiedAt: state.lastNotifiedAt ?? null,
+    };
+    await this.db
+      .insert(alertStates)
+      .values({ ruleId: state.ruleId, endpointId: state.endpointId, ...values })
+      .onConflictDoUpdate({ target: [alertStates.ruleId, alertStates.endpointId], set: values });
+  }
+}
+
+function rowToChannel(row: NotificationChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    config: row.config,
+    enabled: row.enabled,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function rowToRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.name,
+    jobId: row.jobId ?? undefined,
+    endpointId: row.endpointId ?? undefined,
+    condition: row.condition,
+    channelIds: row.channelIds,
+    cooldownMinutes: row.cooldownMinutes,
+    notifyOnResolve: row.notifyOnResolve,
+    enabled: row.enabled,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
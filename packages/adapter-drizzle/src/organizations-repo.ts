@@ -0,0 +1,242 @@
+/**
+ * Drizzle adapter for OrganizationsRepo port.
+ *
+ * Organizations, their members (one row per user with a role) and email invitations.
+ * Deleting an organization cascades to memberships, invitations and org-owned jobs, and
+ * removes the org's secrets, signing keys, TLS credentials and auth profiles (keyed by owner
+ * id, without a foreign key).
+ */
+
+import type { Organization, OrganizationInvitation, OrganizationMember, OrganizationsRepo, OrgRole } from "@cronicorn/domain";
+import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
+
+import { isOrgRole } from "@cronicorn/domain";
+import { and, asc, eq, isNull, sql } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+
+import { authProfiles, type OrganizationInvitationRow, organizationInvitations, organizationMembers, type OrganizationRow, organizations, secrets, signingKeys, tlsCredentials, user } from "./schema.js";
+
+export class DrizzleOrganizationsRepo implements OrganizationsRepo {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly tx: NodePgDatabase<any> | NodePgTransaction<any, any>,
+  ) {}
+
+  async createOrganization(org: { name: string; ownerUserId: string }): Promise<Organization> {
+    const now = new Date();
+    const [row] = await this.tx
+      .insert(organizations)
+      .values({ id: `org_${randomUUID()}`, name: org.name, createdAt: now, updatedAt: now })
+      .returning();
+
+    await this.tx.insert(organizationMembers).values({
+      orgId: row!.id,
+      userId: org.ownerUserId,
+      role: "owner",
+      createdAt: now,
+    });
+
+    return toOrganization(row!);
+  }
+
+  async getOrganization(orgId: string): Promise<Organization | null> {
+    const rows = await this.tx
+      .select()
+      .from(organizations)
+      .where(eq(organizations.id, orgId))
+      .limit(1);
+
+    return rows[0] ? toOrganization(rows[0]) : null;
+  }
+
+  async updateOrganization(orgId: string, patch: { name?: string }): Promise<Organization> {
+    const [row] = await this.tx
+      .update(organizations)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(organizations.id, orgId))
+      .returning();
+
+    if (!row) {
+      throw new Error(`Organization not found: ${orgId}`);
+    }
+    return toOrganization(row);
+  }
+
+  async deleteOrganization(orgId: string): Promise<void> {
+    await this.tx.delete(secrets).where(eq(secrets.userId, orgId));
+    await this.tx.delete(signingKeys).where(eq(signingKeys.userId, orgId));
+    await this.tx.delete(tlsCredentials).where(eq(tlsCredentials.userId, orgId));
+    await this.tx.delete(authProfiles).where(eq(authProfiles.userId, orgId));
+    await this.tx.delete(organizations).where(eq(organizations.id, orgId));
+  }
+
+  async listOrganizationsForUser(userId: string): Promise<Array<Organization & { role: OrgRole }>> {
+    const rows = await this.tx
+      .select({ org: organizations, role: organizationMembers.role })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizations.id, organizationMembers.orgId))
+      .where(eq(organizationMembers.userId, userId))
+      .orderBy(asc(organizations.name));
+
+    return rows.map(row => ({ ...toOrganization(row.org), role: toRole(row.role) }));
+  }
+
+  async getMemberRole(orgId: string, userId: string): Promise<OrgRole | null> {
+    const rows = await this.tx
+      .select({ role: organizationMembers.role })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)))
+      .limit(1);
+
+    return rows[0] ? toRole(rows[0].role) : null;
+  }
+
+  async listMembers(orgId: string): Promise<OrganizationMember[]> {
+    const rows = await this.tx
+      .select({
+        orgId: organizationMembers.orgId,
+        userId: organizationMembers.userId,
+        email: user.email,
+        name: user.name,
+        role: organizationMembers.role,
+        joinedAt: organizationMembers.createdAt,
+      })
+      .from(organizationMembers)
+      .innerJoin(user, eq(user.id, organizationMembers.userId))
+      .where(eq(organizationMembers.orgId, orgId))
+      .orderBy(asc(organizationMembers.createdAt));
+
+    return rows.map(row => ({ ...row, role: toRole(row.role) }));
+  }
+
+  async upsertMember(orgId: string, userId: string, role: OrgRole): Promise<void> {
+    await this.tx
+      .insert(organizationMembers)
+      .values({ orgId, userId, role, createdAt: new Date() })
+      .onConflictDoUpdate({
+        target: [organizationMembers.orgId, organizationMembers.userId],
+        set: { role },
+      });
+  }
+
+  async removeMember(orgId: string, userId: string): Promise<boolean> {
+    const deleted = await this.tx
+      .delete(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.userId, userId)))
+      .returning({ userId: organizationMembers.userId });
+
+    return deleted.length > 0;
+  }
+
+  async countOwners(orgId: string): Promise<number> {
+    const result = await this.tx
+      .select({ count: sql<number>`COUNT(*)::int` })
+      .from(organizationMembers)
+      .where(and(eq(organizationMembers.orgId, orgId), eq(organizationMembers.role, "owner")));
+
+    return result[0]?.count ?? 0;
+  }
+
+  async createInvitation(invitation: Omit<OrganizationInvitation, "id" | "createdAt" | "acceptedAt">): Promise<OrganizationInvitation> {
+    const [row] = await this.tx
+      .insert(organizationInvitations)
+      .values({ ...invitation, id: randomUUID(), createdAt: new Date() })
+      .returning();
+
+    return toInvitation(row!);
+  }
+
+  async listPendingInvitations(orgId: string): Promise<OrganizationInvitation[]> {
+    const rows = await this.tx
+      .select()
+      .from(organizationInvitations)
+      .where(and(eq(organizationInvitations.orgId, orgId), isNull(organizationInvitations.acceptedAt)))
+      .orderBy(asc(organizationInvitations.createdAt));
+
+    return rows.map(toInvitation);
+  }
+
+  async getInvitationByToken(token: string): Promise<OrganizationInvitation | null> {
+    const rows = await this.tx
+      .select()
+      .from(organizationInvitations)
+      .where(eq(organizationInvitations.token, token))
+      .limit(1);
+
+    return rows[0] ? toInvitation(rows[0]) : null;
+  }
+
+  async deleteInvitation(orgId: string, invitationId: string): Promise<boolean> {
+    const deleted = await this.tx
+      .delete(organizationInvitations)
+      .where(and(
+        eq(organizationInvitations.id, invitationId),
+        eq(organizationInvitations.orgId, orgId),
+        isNull(organizationInvitations.acceptedAt),
+      ))
+      .returning({ id: organizationInvitations.id });
+
+    return deleted.length > 0;
+  }
+
+  async markInvitationAccepted(invitationId: string, acceptedAt: Date): Promise<void> {
+    await this.tx
+      .update(organizationInvitations)
+      .set({ acceptedAt })
+      .where(eq(organizationInvitations.id, invitationId));
+  }
+
+  async getOrganizationByStripeCustomerId(customerId: string): Promise<Organization | null> {
+    const rows = await this.tx
+      .select()
+      .from(organizations)
+      .where(eq(organizations.stripeCustomerId, customerId))
+      .limit(1);
+
+    return rows[0] ? toOrganization(rows[0]) : null;
+  }
+
+  async updateOrganizationSubscription(orgId: string, patch: {
+    tier?: "free" | "pro" | "enterprise";
+    stripeCustomerId?: string;
+    stripeSubscriptionId?: string | null;
+    subscriptionStatus?: string;
+    subscriptionEndsAt?: Date | null;
+  }): Promise<void> {
+    await this.tx
+      .update(organizations)
+      .set({ ...patch, updatedAt: new Date() })
+      .where(eq(organizations.id, orgId));
+  }
+}
+
+function toOrganization(row: OrganizationRow): Organization {
+  return {
+    id: row.id,
+    name: row.name,
+    tier: row.tier === "pro" || row.tier === "enterprise" ? row.tier : "free",
+    stripeCustomerId: row.stripeCustomerId,
+    subscriptionStatus: row.subscriptionStatus,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toInvitation(row: OrganizationInvitationRow): OrganizationInvitation {
+  return {
+    id: row.id,
+    orgId: row.orgId,
+    email: row.email,
+    role: toRole(row.role),
+    token: row.token,
+    invitedBy: row.invitedBy,
+    expiresAt: row.expiresAt,
+    acceptedAt: row.acceptedAt,
+    createdAt: row.createdAt,
+  };
+}
+
+// Unknown values (manual edits) fall back to the least privileged role
+function toRole(value: string): OrgRole {
+  return isOrgRole(value) ? value : "viewer";
+}
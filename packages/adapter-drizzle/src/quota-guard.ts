@@ -3,13 +3,13 @@ import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgre
 import { getTierLimit, type QuotaGuard } from "@cronicorn/domain";
 import { and, eq, gte, inArray, sql } from "drizzle-orm";
 
-import { aiAnalysisSessions, jobEndpoints, user } from "./schema.js";
+import { aiAnalysisSessions, jobEndpoints, organizations, user } from "./schema.js";
 
 /**
  * DrizzleQuotaGuard - PostgreSQL-backed quota enforcement.
  *
  * Implements soft-limit token quota checking by:
- * 1. Querying user tier from database
+ * 1. Querying the tenant's tier (organization or user) from database
  * 2. Summing token usage from aiAnalysisSessions for current month (recorded per analysis session)
  * 3. Comparing usage against tier limit (100k free, 1M pro, enterprise by contract)
  *
@@ -30,19 +30,27 @@ export class DrizzleQuotaGuard implements QuotaGuard {
   /**
    * Check if tenant can proceed with AI operation.
    *
-   * @param tenantId - Unique tenant identifier (maps to userId in MVP)
+   * @param tenantId - Unique tenant identifier (user ID, or organization ID for org-owned endpoints)
    * @returns true if quota available, false if exceeded
    */
   async canProceed(tenantId: string): Promise<boolean> {
-    // Get user tier
-    const userRecord = await this.db
-      .select({ tier: user.tier })
-      .from(user)
-      .where(eq(user.id, tenantId))
+    // Get organization tier, falling back to user tier
+    const orgRecord = await this.db
+      .select({ tier: organizations.tier })
+      .from(organizations)
+      .where(eq(organizations.id, tenantId))
       .limit(1);
 
+    const userRecord = orgRecord.length > 0
+      ? orgRecord
+      : await this.db
+        .select({ tier: user.tier })
+        .from(user)
+        .where(eq(user.id, tenantId))
+        .limit(1);
+
     if (userRecord.length === 0) {
-      // User not found - deny by default
+      // Tenant not found - deny by default
       return false;
     }
 
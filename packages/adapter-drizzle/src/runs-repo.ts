@@ -1,8 +1,9 @@
-import type { HealthSummary, JsonValue, RunsRepo } from "@cronicorn/domain";
+import type { AuditActor, HealthSummary, JsonValue, RunAttempt, RunsRepo } from "@cronicorn/domain";
 import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgres";
 
-import { and, avg, count, desc, eq, gte, inArray, isNull, lte, ne, not, or, sql, sum } from "drizzle-orm";
+import { and, asc, avg, count, desc, eq, gte, inArray, isNull, lte, ne, not, or, sql, sum } from "drizzle-orm";
 
+import { jobOwnerId } from "./job-owner.js";
 import { jobEndpoints, jobs, runs } from "./schema.js";
 
 /** Default limit for listRuns queries when no limit is provided */
@@ -30,6 +31,12 @@ export class DrizzleRunsRepo implements RunsRepo {
     status: "running";
     attempt: number;
     source?: string; // Phase 3: Track what triggered this run
+    leaseOwner?: string;
+    queueWaitMs?: number;
+    scheduledFor?: Date; // When the run was due
+    lagMs?: number; // How late the run started relative to scheduledFor
+    triggeredBy?: AuditActor; // Who requested a manual run
+    traceId?: string; // Trace the run was executed in
   }): Promise<string> {
     const id = `run_${Date.now()}_${this.seq++}`;
 
@@ -39,6 +46,12 @@ export class DrizzleRunsRepo implements RunsRepo {
       status: run.status,
       attempt: run.attempt,
       source: run.source,
+      leaseOwner: run.leaseOwner,
+      queueWaitMs: run.queueWaitMs,
+      scheduledFor: run.scheduledFor,
+      lagMs: run.lagMs,
+      triggeredBy: run.triggeredBy,
+      traceId: run.traceId,
       startedAt: new Date(),
     });
 
@@ -51,8 +64,11 @@ export class DrizzleRunsRepo implements RunsRepo {
       status: "success" | "failed" | "canceled";
       durationMs: number;
       err?: unknown;
+      errorDetails?: Record<string, unknown>;
       responseBody?: JsonValue;
       statusCode?: number;
+      attempt?: number;
+      attempts?: RunAttempt[];
     },
   ): Promise<void> {
     const updates: Partial<typeof runs.$inferInsert> = {
@@ -60,9 +76,11 @@ export class DrizzleRunsRepo implements RunsRepo {
       finishedAt: new Date(),
       durationMs: patch.durationMs,
       errorMessage: patch.err ? String(patch.err) : undefined,
-      errorDetails: patch.err ? (typeof patch.err === "object" ? patch.err : { error: patch.err }) : undefined,
+      errorDetails: patch.errorDetails ?? (patch.err ? (typeof patch.err === "object" ? patch.err : { error: patch.err }) : undefined),
       responseBody: patch.responseBody,
       statusCode: patch.statusCode,
+      attempt: patch.attempt,
+      attempts: patch.attempts?.map(a => ({ ...a, startedAt: a.startedAt.toISOString() })),
     };
 
     await this.tx
@@ -73,6 +91,34 @@ export class DrizzleRunsRepo implements RunsRepo {
     // Note: Drizzle doesn't return rowCount, optimistically assume success
   }
 
+  async getOpenRun(endpointId: string, source: string): Promise<{ id: string; startedAt: Date } | null> {
+    const rows = await this.tx
+      .select({ id: runs.id, startedAt: runs.startedAt })
+      .from(runs)
+      .where(and(
+        eq(runs.endpointId, endpointId),
+        eq(runs.source, source),
+        eq(runs.status, "running"),
+      ))
+      .orderBy(desc(runs.startedAt))
+      .limit(1);
+
+    return rows[0] ?? null;
+  }
+
+  async listOpenRuns(endpointId: string): Promise<Array<{ id: string; startedAt: Date; source?: string }>> {
+    const rows = await this.tx
+      .select({ id: runs.id, startedAt: runs.startedAt, source: runs.source })
+      .from(runs)
+      .where(and(
+        eq(runs.endpointId, endpointId),
+        eq(runs.status, "running"),
+      ))
+      .orderBy(asc(runs.startedAt));
+
+    return rows.map(row => ({ id: row.id, startedAt: row.startedAt, source: row.source ?? undefined }));
+  }
+
   // ============================================================================
   // Phase 3: Execution Visibility Operations
   // ============================================================================
@@ -95,6 +141,8 @@ export class DrizzleRunsRepo implements RunsRepo {
         status: string;
         durationMs?: number;
         source?: string;
+        scheduledFor?: Date;
+        lagMs?: number;
       }>;
       total: number;
     }> {
@@ -103,7 +151,7 @@ export class DrizzleRunsRepo implements RunsRepo {
     const conditions = [];
 
     // CRITICAL: Always filter by userId to ensure data isolation
-    conditions.push(eq(jobs.userId, filters.userId));
+    conditions.push(eq(jobOwnerId, filters.userId));
 
     // CRITICAL: Exclude archived jobs and endpoints
     conditions.push(ne(jobs.status, "archived"));
@@ -138,6 +186,8 @@ export class DrizzleRunsRepo implements RunsRepo {
         status: runs.status,
         durationMs: runs.durationMs,
         source: runs.source,
+        scheduledFor: runs.scheduledFor,
+        lagMs: runs.lagMs,
       })
       .from(runs);
 
@@ -183,6 +233,8 @@ export class DrizzleRunsRepo implements RunsRepo {
         status: row.status,
         durationMs: row.durationMs ?? undefined,
         source: row.source ?? undefined,
+        scheduledFor: row.scheduledFor ?? undefined,
+        lagMs: row.lagMs ?? undefined,
       })),
       total,
     };
@@ -199,7 +251,7 @@ export class DrizzleRunsRepo implements RunsRepo {
     }>> {
     // Build WHERE conditions for jobs (not runs)
     const whereConditions = [
-      eq(jobs.userId, userId),
+      eq(jobOwnerId, userId),
       ne(jobs.status, "archived"), // Exclude archived jobs
       or(
         isNull(jobEndpoints.id), // No endpoints yet
@@ -254,7 +306,7 @@ export class DrizzleRunsRepo implements RunsRepo {
       avgDurationMs: number | null;
     }> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       ne(jobs.status, "archived"), // Exclude archived jobs
       isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
     ];
@@ -293,6 +345,67 @@ export class DrizzleRunsRepo implements RunsRepo {
     };
   }
 
+  async getJobLagPercentiles(filters: {
+    userId: string;
+    jobId?: string;
+    source?: string;
+    sinceDate?: Date;
+    untilDate?: Date;
+  }): Promise<Array<{
+      jobId: string;
+      jobName: string;
+      runCount: number;
+      p50LagMs: number;
+      p95LagMs: number;
+      p99LagMs: number;
+    }>> {
+    const conditions = [
+      eq(jobOwnerId, filters.userId),
+      ne(jobs.status, "archived"), // Exclude archived jobs
+      isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
+      not(isNull(runs.lagMs)), // Only runs the scheduler dispatched record a lag
+    ];
+
+    if (filters.jobId) {
+      conditions.push(eq(jobs.id, filters.jobId));
+    }
+    if (filters.source) {
+      conditions.push(eq(runs.source, filters.source));
+    }
+    if (filters.sinceDate) {
+      conditions.push(gte(runs.startedAt, filters.sinceDate));
+    }
+    if (filters.untilDate) {
+      conditions.push(lte(runs.startedAt, filters.untilDate));
+    }
+
+    const p95 = sql<number>`percentile_cont(0.95) WITHIN GROUP (ORDER BY ${runs.lagMs})`;
+    const results = await this.tx
+      .select({
+        jobId: jobs.id,
+        jobName: jobs.name,
+        runCount: count(),
+        p50LagMs: sql<number>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${runs.lagMs})`,
+        p95LagMs: p95,
+        p99LagMs: sql<number>`percentile_cont(0.99) WITHIN GROUP (ORDER BY ${runs.lagMs})`,
+      })
+      .from(runs)
+      .innerJoin(jobEndpoints, eq(runs.endpointId, jobEndpoints.id))
+      .innerJoin(jobs, eq(jobEndpoints.jobId, jobs.id))
+      .where(and(...conditions))
+      .groupBy(jobs.id, jobs.name)
+      .orderBy(desc(p95));
+
+    return results.map(row => ({
+      jobId: row.jobId,
+      jobName: row.jobName,
+      runCount: Number(row.runCount),
+      p50LagMs: Math.round(Number(row.p50LagMs)),
+      p95LagMs: Math.round(Number(row.p95LagMs)),
+      p99LagMs: Math.round(Number(row.p99LagMs)),
+    }));
+  }
+
   async getSourceDistribution(filters: {
     userId: string;
     jobId?: string;
@@ -304,7 +417,7 @@ export class DrizzleRunsRepo implements RunsRepo {
       count: number;
     }>> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       not(isNull(runs.source)), // Exclude null sources
       ne(jobs.status, "archived"), // Exclude archived jobs
       isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
@@ -353,7 +466,7 @@ export class DrizzleRunsRepo implements RunsRepo {
       failure: number;
     }>> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       ne(jobs.status, "archived"), // Exclude archived jobs
       isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
     ];
@@ -414,7 +527,7 @@ export class DrizzleRunsRepo implements RunsRepo {
       totalDurationMs: number;
     }>> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       ne(jobs.status, "archived"), // Exclude archived jobs
       isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
     ];
@@ -502,9 +615,16 @@ export class DrizzleRunsRepo implements RunsRepo {
     finishedAt?: Date;
     durationMs?: number;
     errorMessage?: string;
+    errorDetails?: Record<string, unknown>;
     responseBody?: JsonValue;
     source?: string;
     attempt: number;
+    attempts?: RunAttempt[];
+    queueWaitMs?: number;
+    scheduledFor?: Date;
+    lagMs?: number;
+    triggeredBy?: AuditActor;
+    traceId?: string;
   } | null> {
     const rows = await this.tx
       .select()
@@ -525,8 +645,15 @@ export class DrizzleRunsRepo implements RunsRepo {
       finishedAt: row.finishedAt ?? undefined,
       durationMs: row.durationMs ?? undefined,
       errorMessage: row.errorMessage ?? undefined,
+      errorDetails: isRecord(row.errorDetails) ? row.errorDetails : undefined,
       source: row.source ?? undefined,
       attempt: row.attempt,
+      attempts: row.attempts?.map(a => ({ ...a, startedAt: new Date(a.startedAt) })),
+      queueWaitMs: row.queueWaitMs ?? undefined,
+      scheduledFor: row.scheduledFor ?? undefined,
+      lagMs: row.lagMs ?? undefined,
+      triggeredBy: row.triggeredBy ?? undefined,
+      traceId: row.traceId ?? undefined,
       responseBody: row.responseBody ?? undefined,
     };
   }
@@ -810,7 +937,35 @@ export class DrizzleRunsRepo implements RunsRepo {
   // ============================================================================
 
   async cleanupZombieRuns(olderThanMs: number): Promise<number> {
-    const threshold = new Date(Date.now() - olderThanMs);
+    const now = new Date();
+    const threshold = new Date(now.getTime() - olderThanMs);
+
+    // Runs whose lease owner vanished: the endpoint lease expired, was released,
+    // or now belongs to another worker, so nobody will ever finish this run
+    const orphans = await this.tx
+      .select({ id: runs.id })
+      .from(runs)
+      .innerJoin(jobEndpoints, eq(runs.endpointId, jobEndpoints.id))
+      .where(and(
+        eq(runs.status, "running"),
+        sql`${runs.leaseOwner} IS NOT NULL`,
+        or(
+          sql`${jobEndpoints._leaseOwner} IS DISTINCT FROM ${runs.leaseOwner}`,
+          isNull(jobEndpoints._lockedUntil),
+          lte(jobEndpoints._lockedUntil, now),
+        ),
+      ));
+
+    if (orphans.length > 0) {
+      await this.tx
+        .update(runs)
+        .set({
+          status: "canceled",
+          finishedAt: now,
+          errorMessage: sql`'Lease owner ' || ${runs.leaseOwner} || ' vanished (lease expired or taken over)'`,
+        })
+        .where(inArray(runs.id, orphans.map(o => o.id)));
+    }
 
     // Find zombie runs (stuck in "running" state longer than threshold)
     const zombies = await this.tx
@@ -821,23 +976,19 @@ export class DrizzleRunsRepo implements RunsRepo {
         lte(runs.startedAt, threshold),
       ));
 
-    if (zombies.length === 0) {
-      return 0;
+    if (zombies.length > 0) {
+      // Mark them as failed with descriptive error message
+      await this.tx
+        .update(runs)
+        .set({
+          status: "failed",
+          finishedAt: now,
+          errorMessage: "Worker crashed or timed out (no response after threshold)",
+        })
+        .where(inArray(runs.id, zombies.map(z => z.id)));
     }
 
-    const zombieIds = zombies.map(z => z.id);
-
-    // Mark them as failed with descriptive error message
-    await this.tx
-      .update(runs)
-      .set({
-        status: "failed",
-        finishedAt: new Date(),
-        errorMessage: "Worker crashed or timed out (no response after threshold)",
-      })
-      .where(inArray(runs.id, zombieIds));
-
-    return zombies.length;
+    return orphans.length + zombies.length;
   }
 
   // ============================================================================
@@ -865,7 +1016,7 @@ export class DrizzleRunsRepo implements RunsRepo {
       total: number;
     }> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       ne(jobs.status, "archived"),
       isNull(jobEndpoints.archivedAt),
     ];
@@ -930,3 +1081,7 @@ export class DrizzleRunsRepo implements RunsRepo {
     };
   }
 }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
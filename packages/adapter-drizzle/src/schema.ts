@@ -1,4 +1,4 @@
-import { boolean, index, integer, jsonb, pgEnum, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { boolean, index, integer, jsonb, pgEnum, pgTable, primaryKey, text, timestamp, uniqueIndex } from "drizzle-orm/pg-core";
 
 /**
  * Job status enum - provides type safety at both compile-time and runtime.
@@ -38,21 +38,73 @@ export const user = pgTable("user", {
   stripeCustomerIdIdx: index("user_stripe_customer_id_idx").on(table.stripeCustomerId),
 }));
 
+/**
+ * Organizations table.
+ * Shared workspace owning jobs; billing for org-owned endpoints lives here.
+ */
+export const organizations = pgTable("organizations", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  tier: text("tier").notNull().default("free"), // "free" | "pro" | "enterprise"
+
+  // Stripe subscription fields (same meaning as on user)
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  subscriptionStatus: text("subscription_status"),
+  subscriptionEndsAt: timestamp("subscription_ends_at", { mode: "date", withTimezone: true }),
+
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  stripeCustomerIdIdx: index("organizations_stripe_customer_id_idx").on(table.stripeCustomerId),
+}));
+
+export const organizationMembers = pgTable("organization_members", {
+  orgId: text("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  role: text("role").notNull(), // "owner" | "admin" | "editor" | "viewer"
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  pk: primaryKey({ columns: [table.orgId, table.userId] }),
+  userIdIdx: index("organization_members_user_id_idx").on(table.userId),
+}));
+
+export const organizationInvitations = pgTable("organization_invitations", {
+  id: text("id").primaryKey(),
+  orgId: text("org_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  email: text("email").notNull(), // Normalized (lower-case)
+  role: text("role").notNull(),
+  token: text("token").notNull().unique(),
+  invitedBy: text("invited_by").notNull().references(() => user.id, { onDelete: "cascade" }),
+  expiresAt: timestamp("expires_at", { mode: "date", withTimezone: true }).notNull(),
+  acceptedAt: timestamp("accepted_at", { mode: "date", withTimezone: true }),
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  orgIdIdx: index("organization_invitations_org_id_idx").on(table.orgId),
+}));
+
+export type OrganizationRow = typeof organizations.$inferSelect;
+export type OrganizationInvitationRow = typeof organizationInvitations.$inferSelect;
+
 /**
  * Jobs table (Phase 3).
  * Organizational container for related endpoints.
+ * Owned by the organization when orgId is set, by the user otherwise.
  */
 export const jobs = pgTable("jobs", {
   id: text("id").primaryKey(),
-  userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }), // Single-user ownership (MVP simplification)
+  userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }), // Creator; owner of personal jobs
+  orgId: text("org_id").references(() => organizations.id, { onDelete: "cascade" }), // Owning organization (null: personal job)
   name: text("name").notNull(),
   description: text("description"),
   status: jobStatusEnum("status").notNull().default("active"),
+  blackoutWindows: jsonb("blackout_windows").$type<import("@cronicorn/domain").BlackoutWindow[]>(), // Apply to all of the job's endpoints (null = none)
   createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
   updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
   archivedAt: timestamp("archived_at", { mode: "date", withTimezone: true }),
 }, table => ({
   userIdIdx: index("jobs_user_id_idx").on(table.userId),
+  orgIdIdx: index("jobs_org_id_idx").on(table.orgId),
 }));
 
 /**
@@ -65,13 +117,15 @@ export const jobEndpoints = pgTable("job_endpoints", {
   // Identity
   id: text("id").primaryKey(),
   jobId: text("job_id").references(() => jobs.id, { onDelete: "cascade" }), // Phase 3: FK to jobs table (nullable for backward compat)
-  tenantId: text("tenant_id").notNull(),
+  tenantId: text("tenant_id").notNull(), // Owner of the job: org id for org-owned jobs, user id otherwise
   name: text("name").notNull(),
   description: text("description"), // Endpoint-specific context: behavior, thresholds, response schema, coordination logic
+  kind: text("kind").notNull().default("http"), // "http" | "heartbeat"
 
   // Baseline cadence (choose one)
   baselineCron: text("baseline_cron"),
   baselineIntervalMs: integer("baseline_interval_ms"),
+  timezone: text("timezone"), // IANA zone for evaluating baseline_cron (null = UTC)
 
   // AI hints (TTL-scoped)
   aiHintIntervalMs: integer("ai_hint_interval_ms"),
@@ -85,6 +139,8 @@ export const jobEndpoints = pgTable("job_endpoints", {
 
   // Pause control
   pausedUntil: timestamp("paused_until", { mode: "date", withTimezone: true }),
+  blackoutWindows: jsonb("blackout_windows").$type<import("@cronicorn/domain").BlackoutWindow[]>(), // Recurring periods without runs (null = none)
+  misfirePolicy: jsonb("misfire_policy").$type<import("@cronicorn/domain").MisfirePolicy>(), // Catch-up for missed occurrences (null = no catch-up)
 
   // Archive control (soft delete)
   archivedAt: timestamp("archived_at", { mode: "date", withTimezone: true }),
@@ -102,9 +158,29 @@ export const jobEndpoints = pgTable("job_endpoints", {
   timeoutMs: integer("timeout_ms"),
   maxExecutionTimeMs: integer("max_execution_time_ms"), // Expected max execution time for lock duration
   maxResponseSizeKb: integer("max_response_size_kb"), // Max response body size to store (default: 100 KB)
+  retryPolicy: jsonb("retry_policy").$type<import("@cronicorn/domain").RetryPolicy>(), // In-run retries (null = single attempt)
+  successCriteria: jsonb("success_criteria").$type<import("@cronicorn/domain").SuccessCriteria>(), // Success rules (null = any 2xx)
+  concurrencyPolicy: text("concurrency_policy").$type<import("@cronicorn/domain").ConcurrencyPolicy>(), // Overlapping runs (null = allow)
+  tlsCredentialName: text("tls_credential_name"), // Name of the tenant's TLS credential (null = default TLS)
+  authProfileName: text("auth_profile_name"), // Name of the tenant's auth profile (null = headers as configured)
+
+  // Heartbeat config (kind "heartbeat" only)
+  pingToken: text("ping_token").unique(), // Secret token in the ping URL
+  graceMs: integer("grace_ms"), // Allowed check-in lateness (null = 5 minutes)
+
+  // Dependencies (DAG within the job)
+  runAfter: jsonb("run_after").$type<import("@cronicorn/domain").EndpointDependencies>(), // Upstreams that trigger runs (null = none)
+
+  // Manual trigger
+  manualRun: jsonb("manual_run").$type<Omit<import("@cronicorn/domain").ManualRunRequest, "requestedAt"> & { requestedAt: string }>(), // Pending run-now request (null = none)
+  triggerTokenHash: text("trigger_token_hash").unique(), // SHA-256 of the trigger URL token (null = no trigger URL)
+  triggerTokenPrefix: text("trigger_token_prefix"), // Display prefix of the token
+  triggerTokenCreatedAt: timestamp("trigger_token_created_at", { mode: "date", withTimezone: true }),
+  triggerTokenRotatedAt: timestamp("trigger_token_rotated_at", { mode: "date", withTimezone: true }),
 
   // Adapter-specific (not in domain entity)
-  _lockedUntil: timestamp("_locked_until", { mode: "date", withTimezone: true }),
+  _leaseOwner: text("_lease_owner"), // Worker currently holding the claim lease
+  _lockedUntil: timestamp("_locked_until", { mode: "date", withTimezone: true }), // Lease expiry
 }, table => ({
   jobIdIdx: index("job_endpoints_job_id_idx").on(table.jobId),
   nextRunAtIdx: index("job_endpoints_next_run_at_idx").on(table.nextRunAt),
@@ -120,8 +196,15 @@ export const runs = pgTable("runs", {
   id: text("id").primaryKey(),
   endpointId: text("endpoint_id").notNull().references(() => jobEndpoints.id, { onDelete: "cascade" }),
   status: text("status").notNull(), // "running" | "success" | "failed" | "canceled"
-  attempt: integer("attempt").notNull(),
+  attempt: integer("attempt").notNull(), // Attempts made within this run (1 unless the endpoint's retry policy retried)
+  attempts: jsonb("attempts").$type<Array<Omit<import("@cronicorn/domain").RunAttempt, "startedAt"> & { startedAt: string }>>(), // Per-attempt detail, recorded when the run retried
   source: text("source"), // Phase 3: What triggered this run (baseline, AI hint, manual, etc.)
+  leaseOwner: text("lease_owner"), // Worker holding the endpoint lease while this run executes
+  queueWaitMs: integer("queue_wait_ms"), // Time spent waiting in the scheduler dispatch pool before executing
+  scheduledFor: timestamp("scheduled_for", { mode: "date", withTimezone: true }), // When the run was due (nextRunAt at claim, or the missed occurrence for catch-ups)
+  lagMs: integer("lag_ms"), // How late the run started relative to scheduledFor (negative when claimed early)
+  triggeredBy: jsonb("triggered_by").$type<import("@cronicorn/domain").AuditActor>(), // Who requested a manual run
+  traceId: text("trace_id"), // OpenTelemetry trace the run executed in (when tracing is enabled)
   startedAt: timestamp("started_at", { mode: "date", withTimezone: true }).notNull(),
   finishedAt: timestamp("finished_at", { mode: "date", withTimezone: true }),
   durationMs: integer("duration_ms"),
@@ -221,6 +304,7 @@ export const aiAnalysisSessions = pgTable("ai_analysis_sessions", {
   nextAnalysisAt: timestamp("next_analysis_at", { mode: "date", withTimezone: true }), // AI-scheduled next analysis time
   endpointFailureCount: integer("endpoint_failure_count"), // Snapshot of failure count at analysis time
   warnings: jsonb("warnings").$type<Array<{ code: string; message: string; meta?: Record<string, unknown> }>>(), // Session warnings (truncation, missing tools, etc.)
+  traceId: text("trace_id"), // OpenTelemetry trace the analysis ran in (when tracing is enabled)
 }, table => ({
   endpointIdIdx: index("ai_sessions_endpoint_id_idx").on(table.endpointId),
   analyzedAtIdx: index("ai_sessions_analyzed_at_idx").on(table.analyzedAt),
@@ -288,18 +372,178 @@ export type WebhookEventInsert = typeof webhookEvents.$inferInsert;
 /**
  * Signing Keys table.
  * Stores HMAC-SHA256 signing keys for outbound request verification.
- * One key per user account; raw key stored in plaintext (matching oauthTokens.accessToken pattern).
+ * One active key per owner (user or organization), plus rotated-out keys until they expire; raw key stored
+ * in plaintext (matching oauthTokens.accessToken pattern).
  */
 export const signingKeys = pgTable("signing_keys", {
-  id: text("id").primaryKey(),
-  userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }).unique(),
-  key: text("key").notNull(), // Raw signing key (hex, 64 chars)
-  keyPrefix: text("key_prefix").notNull(), // Display prefix: "sk_abc12345"
+  id: text("id").primaryKey(), // Also the key id sent in X-Cronicorn-Key-Id
+  userId: text("user_id").notNull(), // Owner: user id, or org id for organization keys (removed with the organization)
+  key: text("key").notNull(), // Raw HMAC key (hex, 64 chars) or Ed25519 private key (PKCS#8 PEM)
+  keyPrefix: text("key_prefix").notNull(), // Display prefix: "sk_abc12345" (HMAC) or "pk_abc12345" (Ed25519 public key)
+  algorithm: text("algorithm").$type<import("@cronicorn/domain").SigningAlgorithm>().notNull().default("hmac-sha256"),
+  publicKey: text("public_key"), // Ed25519 only: raw public key, base64url (JWK "x")
   createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull().defaultNow(),
   rotatedAt: timestamp("rotated_at", { mode: "date", withTimezone: true }),
+  expiresAt: timestamp("expires_at", { mode: "date", withTimezone: true }), // Set when rotated out; null = active
+  signatureVersion: text("signature_version").$type<import("@cronicorn/domain").SignatureVersion>().notNull().default("v1"), // Same for all of a user's keys
 }, table => ({
   userIdIdx: index("signing_keys_user_id_idx").on(table.userId),
 }));
 
 export type SigningKeyRow = typeof signingKeys.$inferSelect;
 export type SigningKeyInsert = typeof signingKeys.$inferInsert;
+
+/**
+ * Secrets table.
+ * Per-owner (user or organization) values referenced from endpoint requests as {{ secret.NAME }}.
+ * Values are encrypted with the server key (see SecretCipher) and never returned by the API.
+ */
+export const secrets = pgTable("secrets", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(), // Owner: user id, or org id for organization secrets (removed with the organization)
+  name: text("name").notNull(),
+  valueEncrypted: text("value_encrypted").notNull(), // "v1.<iv>.<tag>.<ciphertext>" (base64url)
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  userIdNameIdx: uniqueIndex("secrets_user_id_name_idx").on(table.userId, table.name),
+}));
+
+export type SecretRow = typeof secrets.$inferSelect;
+export type SecretInsert = typeof secrets.$inferInsert;
+
+/**
+ * TLS credentials table.
+ * Per-owner (user or organization) client certificates and CA bundles for outbound mTLS,
+ * referenced by name from endpoints. The PEM material is stored encrypted; the certificate metadata is read on
+ * upload so listing never decrypts.
+ */
+export const tlsCredentials = pgTable("tls_credentials", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(), // Owner: user id, or org id for organization credentials (removed with the organization)
+  name: text("name").notNull(),
+  materialEncrypted: text("material_encrypted").notNull(), // Encrypted JSON of the PEM fields (see SecretCipher)
+  hasClientCertificate: boolean("has_client_certificate").notNull(),
+  subject: text("subject"), // Client certificate subject
+  certificateExpiresAt: timestamp("certificate_expires_at", { mode: "date", withTimezone: true }),
+  caCertificates: integer("ca_certificates").notNull().default(0),
+  caExpiresAt: timestamp("ca_expires_at", { mode: "date", withTimezone: true }), // Earliest in the bundle
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  userIdNameIdx: uniqueIndex("tls_credentials_user_id_name_idx").on(table.userId, table.name),
+}));
+
+export type TlsCredentialRow = typeof tlsCredentials.$inferSelect;
+export type TlsCredentialInsert = typeof tlsCredentials.$inferInsert;
+
+/**
+ * Auth profiles table.
+ * Per-owner (user or organization) OAuth2 client credentials, referenced by name from endpoints. The dispatcher
+ * exchanges them for access tokens; the client secret is stored encrypted and never returned.
+ */
+export const authProfiles = pgTable("auth_profiles", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(), // Owner: user id, or org id for organization profiles (removed with the organization)
+  name: text("name").notNull(),
+  type: text("type").$type<import("@cronicorn/domain").AuthProfileType>().notNull(),
+  tokenUrl: text("token_url").notNull(),
+  clientId: text("client_id").notNull(),
+  clientSecretEncrypted: text("client_secret_encrypted").notNull(), // See SecretCipher
+  scopes: jsonb("scopes").$type<string[]>().notNull(),
+  audience: text("audience"),
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  userIdNameIdx: uniqueIndex("auth_profiles_user_id_name_idx").on(table.userId, table.name),
+}));
+
+export type AuthProfileRow = typeof authProfiles.$inferSelect;
+export type AuthProfileInsert = typeof authProfiles.$inferInsert;
+
+/**
+ * Notification channels table.
+ * Per-user delivery targets (email, Slack incoming webhook, signed webhook) for alert rules.
+ */
+export const notificationChannels = pgTable("notification_channels", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  config: jsonb("config").$type<import("@cronicorn/domain").NotificationChannelConfig>().notNull(),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  userIdIdx: index("notification_channels_user_id_idx").on(table.userId),
+}));
+
+export type NotificationChannelRow = typeof notificationChannels.$inferSelect;
+export type NotificationChannelInsert = typeof notificationChannels.$inferInsert;
+
+/**
+ * Alert rules table.
+ * Scoped to an endpoint, a job, or all of the user's endpoints (both null).
+ */
+export const alertRules = pgTable("alert_rules", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull().references(() => user.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  jobId: text("job_id").references(() => jobs.id, { onDelete: "cascade" }),
+  endpointId: text("endpoint_id").references(() => jobEndpoints.id, { onDelete: "cascade" }),
+  condition: jsonb("condition").$type<import("@cronicorn/domain").AlertCondition>().notNull(),
+  channelIds: jsonb("channel_ids").$type<string[]>().notNull(),
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60),
+  notifyOnResolve: boolean("notify_on_resolve").notNull().default(true),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+  updatedAt: timestamp("updated_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  userIdIdx: index("alert_rules_user_id_idx").on(table.userId),
+  jobIdIdx: index("alert_rules_job_id_idx").on(table.jobId),
+  endpointIdIdx: index("alert_rules_endpoint_id_idx").on(table.endpointId),
+}));
+
+export type AlertRuleRow = typeof alertRules.$inferSelect;
+export type AlertRuleInsert = typeof alertRules.$inferInsert;
+
+/**
+ * Alert states table.
+ * Firing/resolved state per rule and endpoint, used for dedup, cooldown and resolve messages.
+ */
+export const alertStates = pgTable("alert_states", {
+  ruleId: text("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  endpointId: text("endpoint_id").notNull().references(() => jobEndpoints.id, { onDelete: "cascade" }),
+  status: text("status").notNull(), // "firing" | "resolved"
+  firedAt: timestamp("fired_at", { mode: "date", withTimezone: true }),
+  resolvedAt: timestamp("resolved_at", { mode: "date", withTimezone: true }),
+  lastNotifiedAt: timestamp("last_notified_at", { mode: "date", withTimezone: true }),
+}, table => ({
+  pk: primaryKey({ columns: [table.ruleId, table.endpointId] }),
+}));
+
+export type AlertStateRow = typeof alertStates.$inferSelect;
+
+/**
+ * Audit events table.
+ * Append-only history of job, endpoint and signing key changes. No foreign keys on
+ * the tenant, job or endpoint: history outlives deleted resources.
+ */
+export const auditEvents = pgTable("audit_events", {
+  id: text("id").primaryKey(),
+  tenantId: text("tenant_id").notNull(), // Owner of the changed resource (user or organization)
+  actorType: text("actor_type").$type<import("@cronicorn/domain").AuditActorType>().notNull(),
+  actorId: text("actor_id").notNull(),
+  actorUserId: text("actor_user_id"),
+  action: text("action").$type<import("@cronicorn/domain").AuditAction>().notNull(),
+  jobId: text("job_id"),
+  endpointId: text("endpoint_id"),
+  changes: jsonb("changes").$type<import("@cronicorn/domain").AuditChange[]>().notNull(),
+  createdAt: timestamp("created_at", { mode: "date", withTimezone: true }).notNull(),
+}, table => ({
+  tenantCreatedIdx: index("audit_events_tenant_created_idx").on(table.tenantId, table.createdAt),
+  jobIdIdx: index("audit_events_job_id_idx").on(table.jobId),
+  endpointIdIdx: index("audit_events_endpoint_id_idx").on(table.endpointId),
+}));
+
+export type AuditEventRow = typeof auditEvents.$inferSelect;
+export type AuditEventInsert = typeof auditEvents.$inferInsert;
@@ -0,0 +1,48 @@
+/**
+ * Encryption at rest for user secrets.
+ *
+ * AES-256-GCM with a key derived (SHA-256) from the server's SECRETS_ENCRYPTION_KEY.
+ * Stored format: "v1.<iv>.<tag>.<ciphertext>", each part base64url encoded.
+ * The version prefix leaves room for key rotation later.
+ */
+
+import { Buffer } from "node:buffer";
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+
+const VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_BYTES = 12;
+
+export class SecretCipher {
+  private readonly key: Buffer;
+
+  constructor(serverKey: string) {
+    if (serverKey.length === 0) {
+      throw new Error("Secrets encryption key must not be empty");
+    }
+    this.key = createHash("sha256").update(serverKey).digest();
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, this.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [VERSION, iv, tag, ciphertext].map(part => typeof part === "string" ? part : part.toString("base64url")).join(".");
+  }
+
+  /**
+   * @throws if the value is malformed or was encrypted with a different key
+   */
+  decrypt(encrypted: string): string {
+    const [version, iv, tag, ciphertext] = encrypted.split(".");
+    if (version !== VERSION || iv === undefined || tag === undefined || ciphertext === undefined) {
+      throw new Error("Unsupported encrypted secret format");
+    }
+
+    const decipher = createDecipheriv(ALGORITHM, this.key, Buffer.from(iv, "base64url"));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]).toString("utf8");
+  }
+}
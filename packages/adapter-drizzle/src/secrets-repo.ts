@@ -0,0 +1,93 @@
+/**
+ * Drizzle adapters for user secrets.
+ *
+ * DrizzleSecretsRepo backs the management API and only ever returns metadata.
+ * DrizzleSecretsProvider decrypts values for the dispatcher.
+ */
+
+import type { SecretInfo, SecretsProvider, SecretsRepo } from "@cronicorn/domain";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+
+import type { SecretCipher } from "./secret-cipher.js";
+
+import { secrets } from "./schema.js";
+
+const infoColumns = {
+  name: secrets.name,
+  createdAt: secrets.createdAt,
+  updatedAt: secrets.updatedAt,
+};
+
+export class DrizzleSecretsRepo implements SecretsRepo {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly db: NodePgDatabase<any>,
+    private readonly cipher: SecretCipher,
+  ) {}
+
+  async list(userId: string): Promise<SecretInfo[]> {
+    return this.db
+      .select(infoColumns)
+      .from(secrets)
+      .where(eq(secrets.userId, userId))
+      .orderBy(asc(secrets.name));
+  }
+
+  async set(userId: string, name: string, value: string): Promise<{ secret: SecretInfo; created: boolean }> {
+    const now = new Date();
+    const valueEncrypted = this.cipher.encrypt(value);
+
+    const existing = await this.db
+      .select({ id: secrets.id })
+      .from(secrets)
+      .where(and(eq(secrets.userId, userId), eq(secrets.name, name)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      const [row] = await this.db
+        .update(secrets)
+        .set({ valueEncrypted, updatedAt: now })
+        .where(eq(secrets.id, existing[0]!.id))
+        .returning(infoColumns);
+      return { secret: row!, created: false };
+    }
+
+    const [row] = await this.db
+      .insert(secrets)
+      .values({ id: randomUUID(), userId, name, valueEncrypted, createdAt: now, updatedAt: now })
+      .returning(infoColumns);
+    return { secret: row!, created: true };
+  }
+
+  async delete(userId: string, name: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(secrets)
+      .where(and(eq(secrets.userId, userId), eq(secrets.name, name)))
+      .returning({ id: secrets.id });
+    return deleted.length > 0;
+  }
+}
+
+export class DrizzleSecretsProvider implements SecretsProvider {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly db: NodePgDatabase<any>,
+    private readonly cipher: SecretCipher,
+  ) {}
+
+  async getSecrets(tenantId: string, names: string[]): Promise<Record<string, string>> {
+    if (names.length === 0) {
+      return {};
+    }
+
+    const rows = await this.db
+      .select({ name: secrets.name, valueEncrypted: secrets.valueEncrypted })
+      .from(secrets)
+      .where(and(eq(secrets.userId, tenantId), inArray(secrets.name, names)));
+
+    return Object.fromEntries(rows.map(row => [row.name, this.cipher.decrypt(row.valueEncrypted)]));
+  }
+}
@@ -3,6 +3,7 @@ import type { NodePgDatabase, NodePgTransaction } from "drizzle-orm/node-postgre
 
 import { and, count, desc, eq, gte, inArray, isNull, lte, ne, sql, sum } from "drizzle-orm";
 
+import { jobOwnerId } from "./job-owner.js";
 import { aiAnalysisSessions, jobEndpoints, jobs } from "./schema.js";
 
 /**
@@ -29,6 +30,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
     nextAnalysisAt?: Date;
     endpointFailureCount?: number;
     warnings?: AISessionWarning[];
+    traceId?: string;
   }): Promise<string> {
     const id = `session_${Date.now()}_${this.seq++}`;
 
@@ -43,6 +45,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
       nextAnalysisAt: session.nextAnalysisAt ?? null,
       endpointFailureCount: session.endpointFailureCount ?? null,
       warnings: session.warnings ?? null,
+      traceId: session.traceId ?? null,
     });
 
     return id;
@@ -140,6 +143,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
     tokenUsage: number | null;
     durationMs: number | null;
     warnings: AISessionWarning[];
+    traceId: string | null;
   } | null> {
     const results = await this.tx
       .select({
@@ -152,6 +156,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
         tokenUsage: aiAnalysisSessions.tokenUsage,
         durationMs: aiAnalysisSessions.durationMs,
         warnings: aiAnalysisSessions.warnings,
+        traceId: aiAnalysisSessions.traceId,
       })
       .from(aiAnalysisSessions)
       .innerJoin(jobEndpoints, eq(aiAnalysisSessions.endpointId, jobEndpoints.id))
@@ -174,6 +179,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
       durationMs: r.durationMs,
       // eslint-disable-next-line ts/consistent-type-assertions
       warnings: (r.warnings ?? []) as AISessionWarning[],
+      traceId: r.traceId,
     };
   }
 
@@ -208,7 +214,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
       totalTokens: number;
     }>> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       ne(jobs.status, "archived"), // Exclude archived jobs
       isNull(jobEndpoints.archivedAt), // Exclude archived endpoints
     ];
@@ -309,7 +315,7 @@ export class DrizzleSessionsRepo implements SessionsRepo {
       total: number;
     }> {
     const conditions = [
-      eq(jobs.userId, filters.userId),
+      eq(jobOwnerId, filters.userId),
       ne(jobs.status, "archived"),
       isNull(jobEndpoints.archivedAt),
     ];
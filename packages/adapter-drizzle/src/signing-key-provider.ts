@@ -1,28 +1,31 @@
 /**
  * Drizzle adapter for SigningKeyProvider port.
  *
- * Looks up the raw HMAC signing key for a given tenant (user).
+ * Looks up the signing keys (HMAC secrets or Ed25519 private keys) for a given tenant (user): the active key plus
+ * rotated-out keys that haven't expired yet.
  * Used by SigningDispatcher to sign outbound requests.
  */
 
-import type { SigningKeyProvider } from "@cronicorn/domain";
+import type { SigningKey, SigningKeyProvider } from "@cronicorn/domain";
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 
-import { eq } from "drizzle-orm";
-
+import { liveSigningKeys, newestSigningKeysFirst } from "./live-signing-keys.js";
 import { signingKeys } from "./schema.js";
 
 export class DrizzleSigningKeyProvider implements SigningKeyProvider {
   // eslint-disable-next-line ts/no-explicit-any
   constructor(private readonly db: NodePgDatabase<any>) {}
 
-  async getKey(tenantId: string): Promise<string | null> {
-    const row = await this.db
-      .select({ key: signingKeys.key })
+  async getKeys(tenantId: string): Promise<SigningKey[]> {
+    return this.db
+      .select({
+        id: signingKeys.id,
+        key: signingKeys.key,
+        algorithm: signingKeys.algorithm,
+        version: signingKeys.signatureVersion,
+      })
       .from(signingKeys)
-      .where(eq(signingKeys.userId, tenantId))
-      .limit(1);
-
-    return row[0]?.key ?? null;
+      .where(liveSigningKeys(tenantId, new Date()))
+      .orderBy(...newestSigningKeysFirst);
   }
 }
@@ -1,16 +1,29 @@
 /**
  * Drizzle adapter for signing key CRUD operations.
  *
- * Manages per-user HMAC signing keys for outbound request verification.
- * Keys are stored as raw hex strings (64 chars = 32 bytes).
+ * Manages per-user signing keys for outbound request verification.
+ * HMAC keys are stored as raw hex strings (64 chars = 32 bytes). Ed25519 keys store the
+ * private key (PKCS#8 PEM), which is never returned, and the public key for the JWKS.
+ *
+ * Rotation keeps the old key (with an expiry) next to the new one, so both sign
+ * requests during the overlap period. Expired keys are ignored, and deleted on the
+ * next rotation.
  */
 
-import type { SigningKeysRepo } from "@cronicorn/domain";
+import type {
+  CreatedSigningKey,
+  SignatureVersion,
+  SigningAlgorithm,
+  SigningKeyInfo,
+  SigningKeysRepo,
+  SigningPublicKey,
+} from "@cronicorn/domain";
 import type { NodePgDatabase } from "drizzle-orm/node-postgres";
 
-import { eq } from "drizzle-orm";
-import { randomBytes, randomUUID } from "node:crypto";
+import { and, eq, isNull, lte } from "drizzle-orm";
+import { generateKeyPairSync, randomBytes, randomUUID } from "node:crypto";
 
+import { liveSigningKeys, newestSigningKeysFirst } from "./live-signing-keys.js";
 import { signingKeys } from "./schema.js";
 
 export class DrizzleSigningKeyRepo implements SigningKeysRepo {
@@ -19,59 +32,54 @@ export class DrizzleSigningKeyRepo implements SigningKeysRepo {
 
   /**
    * Generate a new signing key for a user.
-   * Returns the raw key (shown only once) and the display prefix.
+   * Returns the key id, the raw key (HMAC only, shown only once) and the display prefix.
    *
-   * @throws if a key already exists for the user (unique constraint)
+   * @throws if the user already has an active key
    */
-  async create(userId: string): Promise<{ rawKey: string; keyPrefix: string }> {
-    const rawKey = randomBytes(32).toString("hex");
-    const keyPrefix = `sk_${rawKey.slice(0, 8)}`;
-    const id = randomUUID();
-
-    await this.db.insert(signingKeys).values({
-      id,
-      userId,
-      key: rawKey,
-      keyPrefix,
-    });
+  async create(userId: string, algorithm: SigningAlgorithm = "hmac-sha256"): Promise<CreatedSigningKey> {
+    const active = await this.findActiveKey(userId);
+    if (active) {
+      throw new Error("A signing key already exists for this user");
+    }
 
-    return { rawKey, keyPrefix };
+    return this.insertKey(userId, { algorithm });
   }
 
   /**
    * Rotate the signing key for a user.
-   * Deletes the old key and creates a new one (immediate invalidation).
+   * The old key expires after `overlapMs` and signs requests alongside the new one until then.
+   * The new key uses `algorithm`, or the active key's algorithm when omitted.
    *
    * @throws if no key exists for the user
    */
-  async rotate(userId: string): Promise<{ rawKey: string; keyPrefix: string }> {
-    const existing = await this.db
-      .select({ id: signingKeys.id })
-      .from(signingKeys)
-      .where(eq(signingKeys.userId, userId))
-      .limit(1);
-
-    if (existing.length === 0) {
+  async rotate(userId: string, overlapMs: number, algorithm?: SigningAlgorithm): Promise<CreatedSigningKey & {
+    previousKeyExpiresAt: Date;
+  }> {
+    const active = await this.findActiveKey(userId);
+    if (!active) {
       throw new Error("No signing key exists for this user");
     }
 
-    // Delete old key
-    await this.db.delete(signingKeys).where(eq(signingKeys.userId, userId));
+    const now = new Date();
+    const previousKeyExpiresAt = new Date(now.getTime() + overlapMs);
 
-    // Create new key
-    const rawKey = randomBytes(32).toString("hex");
-    const keyPrefix = `sk_${rawKey.slice(0, 8)}`;
-    const id = randomUUID();
+    // Drop keys whose overlap has already ended
+    await this.db
+      .delete(signingKeys)
+      .where(and(eq(signingKeys.userId, userId), lte(signingKeys.expiresAt, now)));
 
-    await this.db.insert(signingKeys).values({
-      id,
-      userId,
-      key: rawKey,
-      keyPrefix,
-      rotatedAt: new Date(),
-    });
+    // Keys rotated out earlier keep their own expiry
+    await this.db
+      .update(signingKeys)
+      .set({ expiresAt: previousKeyExpiresAt })
+      .where(and(eq(signingKeys.userId, userId), isNull(signingKeys.expiresAt)));
 
-    return { rawKey, keyPrefix };
+    const created = await this.insertKey(userId, {
+      algorithm: algorithm ?? active.algorithm,
+      signatureVersion: active.signatureVersion,
+      rotatedAt: now,
+    });
+    return { ...created, previousKeyExpiresAt };
   }
 
   /**
@@ -82,33 +90,135 @@ export class DrizzleSigningKeyRepo implements SigningKeysRepo {
     keyPrefix: string | null;
     createdAt: Date | null;
     rotatedAt: Date | null;
+    algorithm: SigningAlgorithm | null;
+    signatureVersion: SignatureVersion | null;
+    keys: SigningKeyInfo[];
   }> {
-    const row = await this.db
+    const rows = await this.db
       .select({
+        id: signingKeys.id,
         keyPrefix: signingKeys.keyPrefix,
+        algorithm: signingKeys.algorithm,
         createdAt: signingKeys.createdAt,
         rotatedAt: signingKeys.rotatedAt,
+        expiresAt: signingKeys.expiresAt,
+        signatureVersion: signingKeys.signatureVersion,
       })
       .from(signingKeys)
-      .where(eq(signingKeys.userId, userId))
-      .limit(1);
-
-    if (row.length === 0) {
-      return { hasKey: false, keyPrefix: null, createdAt: null, rotatedAt: null };
+      .where(liveSigningKeys(userId, new Date()))
+      .orderBy(...newestSigningKeysFirst);
+
+    const keys: SigningKeyInfo[] = rows.map(row => ({
+      id: row.id,
+      keyPrefix: row.keyPrefix,
+      algorithm: row.algorithm,
+      status: row.expiresAt ? "expiring" : "active",
+      createdAt: row.createdAt,
+      expiresAt: row.expiresAt,
+    }));
+    // Active key first, then expiring keys (newest first)
+    keys.sort((a, b) => Number(a.status !== "active") - Number(b.status !== "active"));
+
+    const active = rows.find(row => !row.expiresAt);
+    if (!active) {
+      return { hasKey: false, keyPrefix: null, createdAt: null, rotatedAt: null, algorithm: null, signatureVersion: null, keys };
     }
 
     return {
       hasKey: true,
-      keyPrefix: row[0]!.keyPrefix,
-      createdAt: row[0]!.createdAt,
-      rotatedAt: row[0]!.rotatedAt,
+      keyPrefix: active.keyPrefix,
+      createdAt: active.createdAt,
+      rotatedAt: active.rotatedAt,
+      algorithm: active.algorithm,
+      signatureVersion: active.signatureVersion,
+      keys,
     };
   }
 
   /**
-   * Delete the signing key for a user.
+   * Public keys of the user's live Ed25519 keys, newest first.
+   */
+  async getPublicKeys(userId: string): Promise<SigningPublicKey[]> {
+    const rows = await this.db
+      .select({ id: signingKeys.id, publicKey: signingKeys.publicKey, expiresAt: signingKeys.expiresAt })
+      .from(signingKeys)
+      .where(and(liveSigningKeys(userId, new Date()), eq(signingKeys.algorithm, "ed25519")))
+      .orderBy(...newestSigningKeysFirst);
+
+    return rows.flatMap(row => row.publicKey ? [{ id: row.id, publicKey: row.publicKey, expiresAt: row.expiresAt }] : []);
+  }
+
+  /**
+   * Switch the signature scheme for all of the user's keys, including expiring ones.
+   */
+  async setSignatureVersion(userId: string, version: SignatureVersion): Promise<void> {
+    await this.db
+      .update(signingKeys)
+      .set({ signatureVersion: version })
+      .where(eq(signingKeys.userId, userId));
+  }
+
+  /**
+   * Delete all signing keys for a user, including keys still in their overlap period.
    */
   async delete(userId: string): Promise<void> {
     await this.db.delete(signingKeys).where(eq(signingKeys.userId, userId));
   }
+
+  private async findActiveKey(userId: string): Promise<{
+    id: string;
+    algorithm: SigningAlgorithm;
+    signatureVersion: SignatureVersion;
+  } | undefined> {
+    const rows = await this.db
+      .select({ id: signingKeys.id, algorithm: signingKeys.algorithm, signatureVersion: signingKeys.signatureVersion })
+      .from(signingKeys)
+      .where(and(eq(signingKeys.userId, userId), isNull(signingKeys.expiresAt)))
+      .limit(1);
+
+    return rows[0];
+  }
+
+  private async insertKey(userId: string, options: {
+    algorithm: SigningAlgorithm;
+    signatureVersion?: SignatureVersion;
+    rotatedAt?: Date;
+  }): Promise<CreatedSigningKey> {
+    const id = randomUUID();
+    const { algorithm, signatureVersion, rotatedAt } = options;
+
+    if (algorithm === "ed25519") {
+      const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+      const { x } = publicKey.export({ format: "jwk" });
+      const keyPrefix = `pk_${x!.slice(0, 8)}`;
+
+      await this.db.insert(signingKeys).values({
+        id,
+        userId,
+        key: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+        keyPrefix,
+        algorithm,
+        publicKey: x,
+        rotatedAt,
+        signatureVersion,
+      });
+
+      return { id, rawKey: null, keyPrefix, algorithm };
+    }
+
+    const rawKey = randomBytes(32).toString("hex");
+    const keyPrefix = `sk_${rawKey.slice(0, 8)}`;
+
+    await this.db.insert(signingKeys).values({
+      id,
+      userId,
+      key: rawKey,
+      keyPrefix,
+      algorithm,
+      rotatedAt,
+      signatureVersion,
+    });
+
+    return { id, rawKey, keyPrefix, algorithm };
+  }
 }
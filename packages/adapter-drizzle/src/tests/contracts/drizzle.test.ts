@@ -831,6 +831,37 @@ describe("drizzle Repos (PostgreSQL)", () => {
       expect(details?.errorMessage).toContain("Worker crashed or timed out");
     });
 
+    test("should cancel running runs whose lease owner vanished", async ({ tx }) => {
+      const jobsRepo = new DrizzleJobsRepo(tx, () => new Date());
+      const repo = new DrizzleRunsRepo(tx);
+
+      const user = await createTestUser(tx, { id: "user1" });
+      const job = await jobsRepo.createJob({ userId: user.id, name: "Test Job", status: "active" });
+      await jobsRepo.addEndpoint({
+        id: "ep1",
+        tenantId: "user1",
+        jobId: job.id,
+        name: "Test Endpoint",
+        nextRunAt: new Date(Date.now() - 1000),
+        failureCount: 0,
+      });
+
+      await jobsRepo.claimDueEndpoints(10, 0, "worker-a");
+
+      // Owned by the current lease holder (should NOT be cleaned)
+      const liveRun = await repo.create({ endpointId: "ep1", status: "running", attempt: 1, leaseOwner: "worker-a" });
+      // Owned by a worker that no longer holds the lease (should be canceled)
+      const orphanRun = await repo.create({ endpointId: "ep1", status: "running", attempt: 1, leaseOwner: "worker-gone" });
+
+      const count = await repo.cleanupZombieRuns(60 * 60 * 1000);
+
+      expect(count).toBe(1);
+      expect((await repo.getRunDetails(liveRun))?.status).toBe("running");
+      const details = await repo.getRunDetails(orphanRun);
+      expect(details?.status).toBe("canceled");
+      expect(details?.errorMessage).toContain("worker-gone");
+    });
+
     test("should return 0 when no zombie runs exist", async ({ tx }) => {
       const repo = new DrizzleRunsRepo(tx);
 
@@ -1021,7 +1052,7 @@ describe("drizzle Repos (PostgreSQL)", () => {
       });
 
       // Claim with horizon (batch should use max of 5 minutes)
-      const claimed = await repo.claimDueEndpoints(10, 10000);
+      const claimed = await repo.claimDueEndpoints(10, 10000, "worker-a");
 
       expect(claimed).toContain("ep1");
       expect(claimed).toContain("ep2");
@@ -1085,7 +1116,7 @@ describe("drizzle Repos (PostgreSQL)", () => {
       });
 
       // Claim due endpoints
-      const claimed = await repo.claimDueEndpoints(10, 10000);
+      const claimed = await repo.claimDueEndpoints(10, 10000, "worker-a");
 
       // Should only claim endpoint from active job
       expect(claimed).toContain("ep-active");
@@ -1134,7 +1165,7 @@ describe("drizzle Repos (PostgreSQL)", () => {
       });
 
       // Claim due endpoints
-      const claimed = await repo.claimDueEndpoints(10, 10000);
+      const claimed = await repo.claimDueEndpoints(10, 10000, "worker-a");
 
       // Should only claim endpoint from active job
       expect(claimed).toContain("ep-active");
@@ -1156,11 +1187,134 @@ describe("drizzle Repos (PostgreSQL)", () => {
       });
 
       // Claim due endpoints
-      const claimed = await repo.claimDueEndpoints(10, 10000);
+      const claimed = await repo.claimDueEndpoints(10, 10000, "worker-a");
 
       // Should claim endpoint even without job association
       expect(claimed).toContain("ep-no-job");
       expect(claimed.length).toBe(1);
     });
   });
+
+  describe("drizzleJobsRepo - leases", () => {
+    test("should record lease owner and reject other owners until expiry", async ({ tx }) => {
+      let now = new Date("2025-01-01T12:00:00.000Z");
+      const repo = new DrizzleJobsRepo(tx, () => now);
+      const user = await createTestUser(tx, { id: "user1" });
+      const job = await repo.createJob({ userId: user.id, name: "Lease Job", status: "active" });
+
+      await repo.addEndpoint({
+        id: "ep1",
+        tenantId: "user1",
+        jobId: job.id,
+        name: "Leased Endpoint",
+        nextRunAt: new Date("2025-01-01T11:59:00.000Z"),
+        failureCount: 0,
+      });
+
+      expect(await repo.claimDueEndpoints(10, 10000, "worker-a")).toEqual(["ep1"]);
+      expect(await repo.claimDueEndpoints(10, 10000, "worker-b")).toEqual([]);
+
+      const result = await tx.execute<{ _lease_owner: string }>(
+        `SELECT _lease_owner FROM job_endpoints WHERE id = 'ep1'`,
+      );
+      expect(result.rows[0]?._lease_owner).toBe("worker-a");
+
+      // Lease (60s default) expires; another worker may take over
+      now = new Date("2025-01-01T12:05:00.000Z");
+      expect(await repo.claimDueEndpoints(10, 10000, "worker-b")).toEqual(["ep1"]);
+      expect(await repo.renewLease("ep1", "worker-a", 60000)).toBe(false);
+    });
+
+    test("should extend lease on renewal and free it on release", async ({ tx }) => {
+      let now = new Date("2025-01-01T12:00:00.000Z");
+      const repo = new DrizzleJobsRepo(tx, () => now);
+      const user = await createTestUser(tx, { id: "user1" });
+      const job = await repo.createJob({ userId: user.id, name: "Lease Job", status: "active" });
+
+      await repo.addEndpoint({
+        id: "ep1",
+        tenantId: "user1",
+        jobId: job.id,
+        name: "Leased Endpoint",
+        nextRunAt: new Date("2025-01-01T11:59:00.000Z"),
+        failureCount: 0,
+      });
+
+      await repo.claimDueEndpoints(10, 10000, "worker-a");
+
+      now = new Date("2025-01-01T12:00:50.000Z");
+      expect(await repo.renewLease("ep1", "worker-a", 5 * 60 * 1000)).toBe(true);
+
+      // Past the original 60s lease, within the renewed one
+      now = new Date("2025-01-01T12:03:00.000Z");
+      expect(await repo.claimDueEndpoints(10, 10000, "worker-b")).toEqual([]);
+
+      // Release by a non-owner is ignored
+      await repo.releaseLease("ep1", "worker-b");
+      expect(await repo.claimDueEndpoints(10, 10000, "worker-b")).toEqual([]);
+
+      await repo.releaseLease("ep1", "worker-a");
+      expect(await repo.claimDueEndpoints(10, 10000, "worker-b")).toEqual(["ep1"]);
+    });
+  });
+
+  describe("drizzleJobsRepo - manual runs", () => {
+    test("should make a locked endpoint due and keep a request made during the run", async ({ tx }) => {
+      let now = new Date("2025-01-01T12:00:00.000Z");
+      const repo = new DrizzleJobsRepo(tx, () => now);
+      const runsRepo = new DrizzleRunsRepo(tx);
+      const user = await createTestUser(tx, { id: "user1" });
+      const job = await repo.createJob({ userId: user.id, name: "Manual Job", status: "active" });
+      const requestedBy = { type: "user" as const, id: "user1", userId: "user1" };
+
+      await repo.addEndpoint({
+        id: "ep1",
+        tenantId: "user1",
+        jobId: job.id,
+        name: "Manual Endpoint",
+        nextRunAt: new Date("2025-01-01T11:59:00.000Z"),
+        failureCount: 0,
+      });
+
+      // A finished run keeps the endpoint locked until its next run an hour out
+      await repo.claimDueEndpoints(10, 10000, "worker-a");
+      await repo.updateAfterRun("ep1", {
+        lastRunAt: now,
+        nextRunAt: new Date("2025-01-01T13:00:00.000Z"),
+        status: { status: "success", durationMs: 100 },
+        failureCountPolicy: "reset",
+        clearExpiredHints: true,
+      });
+      await repo.releaseLease("ep1", "worker-a");
+
+      now = new Date("2025-01-01T12:10:00.000Z");
+      await repo.requestManualRun("ep1", { id: "req-1", requestedAt: now, requestedBy, bodyJson: { dryRun: true } });
+      expect(await repo.claimDueEndpoints(10, 0, "worker-a")).toEqual(["ep1"]);
+      expect((await repo.getEndpoint("ep1")).manualRun).toEqual({ id: "req-1", requestedAt: now, requestedBy, bodyJson: { dryRun: true } });
+
+      const runId = await runsRepo.create({ endpointId: "ep1", status: "running", attempt: 1, source: "manual", triggeredBy: requestedBy });
+      expect((await runsRepo.getRunDetails(runId))?.triggeredBy).toEqual(requestedBy);
+
+      // Another request arrives while req-1 runs
+      const runStartedAt = now;
+      now = new Date("2025-01-01T12:10:05.000Z");
+      await repo.requestManualRun("ep1", { id: "req-2", requestedAt: now, requestedBy });
+      expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual([]);
+
+      await repo.updateAfterRun("ep1", {
+        lastRunAt: runStartedAt,
+        nextRunAt: new Date("2025-01-01T13:00:00.000Z"),
+        status: { status: "success", durationMs: 100 },
+        failureCountPolicy: "reset",
+        clearExpiredHints: true,
+        consumedManualRunId: "req-1",
+      });
+      await repo.releaseLease("ep1", "worker-a");
+
+      const ep = await repo.getEndpoint("ep1");
+      expect(ep.manualRun?.id).toBe("req-2");
+      expect(ep.nextRunAt).toEqual(new Date("2025-01-01T12:10:05.000Z"));
+      expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual(["ep1"]);
+    });
+  });
 });
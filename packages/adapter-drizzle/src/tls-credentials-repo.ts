@@ -0,0 +1,126 @@
+/**
+ * Drizzle adapters for TLS credentials (client certificates and CA bundles).
+ *
+ * DrizzleTlsCredentialsRepo backs the management API and only ever returns metadata.
+ * DrizzleTlsCredentialProvider decrypts the PEM material for the dispatcher.
+ * The material is stored as one encrypted JSON document.
+ */
+
+import type { TlsCertificateSummary, TlsCredentialInfo, TlsCredentialMaterial, TlsCredentialProvider, TlsCredentialsRepo } from "@cronicorn/domain";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+
+import { and, asc, eq } from "drizzle-orm";
+import { randomUUID } from "node:crypto";
+
+import type { SecretCipher } from "./secret-cipher.js";
+
+import { tlsCredentials } from "./schema.js";
+
+const infoColumns = {
+  name: tlsCredentials.name,
+  hasClientCertificate: tlsCredentials.hasClientCertificate,
+  subject: tlsCredentials.subject,
+  certificateExpiresAt: tlsCredentials.certificateExpiresAt,
+  caCertificates: tlsCredentials.caCertificates,
+  caExpiresAt: tlsCredentials.caExpiresAt,
+  createdAt: tlsCredentials.createdAt,
+  updatedAt: tlsCredentials.updatedAt,
+};
+
+export class DrizzleTlsCredentialsRepo implements TlsCredentialsRepo {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly db: NodePgDatabase<any>,
+    private readonly cipher: SecretCipher,
+  ) {}
+
+  async list(userId: string): Promise<TlsCredentialInfo[]> {
+    return this.db
+      .select(infoColumns)
+      .from(tlsCredentials)
+      .where(eq(tlsCredentials.userId, userId))
+      .orderBy(asc(tlsCredentials.name));
+  }
+
+  async get(userId: string, name: string): Promise<TlsCredentialInfo | null> {
+    const [row] = await this.db
+      .select(infoColumns)
+      .from(tlsCredentials)
+      .where(and(eq(tlsCredentials.userId, userId), eq(tlsCredentials.name, name)))
+      .limit(1);
+    return row ?? null;
+  }
+
+  async set(
+    userId: string,
+    name: string,
+    material: TlsCredentialMaterial,
+    summary: TlsCertificateSummary,
+  ): Promise<{ credential: TlsCredentialInfo; created: boolean }> {
+    const now = new Date();
+    const values = {
+      materialEncrypted: this.cipher.encrypt(JSON.stringify({
+        certificate: material.certificate,
+        privateKey: material.privateKey,
+        caBundle: material.caBundle,
+      })),
+      hasClientCertificate: material.certificate !== undefined,
+      subject: summary.subject,
+      certificateExpiresAt: summary.certificateExpiresAt,
+      caCertificates: summary.caCertificates,
+      caExpiresAt: summary.caExpiresAt,
+      updatedAt: now,
+    };
+
+    const existing = await this.db
+      .select({ id: tlsCredentials.id })
+      .from(tlsCredentials)
+      .where(and(eq(tlsCredentials.userId, userId), eq(tlsCredentials.name, name)))
+      .limit(1);
+
+    if (existing.length > 0) {
+      const [row] = await this.db
+        .update(tlsCredentials)
+        .set(values)
+        .where(eq(tlsCredentials.id, existing[0]!.id))
+        .returning(infoColumns);
+      return { credential: row!, created: false };
+    }
+
+    const [row] = await this.db
+      .insert(tlsCredentials)
+      .values({ id: randomUUID(), userId, name, ...values, createdAt: now })
+      .returning(infoColumns);
+    return { credential: row!, created: true };
+  }
+
+  async delete(userId: string, name: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(tlsCredentials)
+      .where(and(eq(tlsCredentials.userId, userId), eq(tlsCredentials.name, name)))
+      .returning({ id: tlsCredentials.id });
+    return deleted.length > 0;
+  }
+}
+
+export class DrizzleTlsCredentialProvider implements TlsCredentialProvider {
+  constructor(
+    // eslint-disable-next-line ts/no-explicit-any
+    private readonly db: NodePgDatabase<any>,
+    private readonly cipher: SecretCipher,
+  ) {}
+
+  async getTlsCredential(tenantId: string, name: string): Promise<(TlsCredentialMaterial & { updatedAt: Date }) | null> {
+    const [row] = await this.db
+      .select({ materialEncrypted: tlsCredentials.materialEncrypted, updatedAt: tlsCredentials.updatedAt })
+      .from(tlsCredentials)
+      .where(and(eq(tlsCredentials.userId, tenantId), eq(tlsCredentials.name, name)))
+      .limit(1);
+    if (!row) {
+      return null;
+    }
+
+    const material: TlsCredentialMaterial = JSON.parse(this.cipher.decrypt(row.materialEncrypted));
+    return { ...material, updatedAt: row.updatedAt };
+  }
+}
@@ -4,7 +4,7 @@ import { http, HttpResponse } from "msw";
 import { setupServer } from "msw/node";
 import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
 
-import { HttpDispatcher } from "../http-dispatcher.js";
+import { HttpDispatcher, parseRetryAfter } from "../http-dispatcher.js";
 
 // Setup MSW server for HTTP mocking
 const server = setupServer();
@@ -92,6 +92,18 @@ describe("httpDispatcher", () => {
       expect(result.durationMs).toBeGreaterThanOrEqual(0); // Can be 0 for very fast responses
       expect(result.errorMessage).toBe("HTTP 500 Internal Server Error");
     });
+
+    it("exposes Retry-After on failed responses", async () => {
+      server.use(
+        http.post("http://example.com/webhook", () => new HttpResponse(null, { status: 429, statusText: "Too Many Requests", headers: { "Retry-After": "7" } })),
+      );
+
+      const result = await dispatcher.execute(createEndpoint());
+
+      expect(result.statusCode).toBe(429);
+      expect(result.retryAfterMs).toBe(7000);
+      expect(result.errorClass).toBeUndefined();
+    });
   });
 
   describe("network errors", () => {
@@ -105,6 +117,7 @@ describe("httpDispatcher", () => {
       expect(result.status).toBe("failed");
       expect(result.durationMs).toBeGreaterThanOrEqual(0); // Can be 0 for very fast responses
       expect(result.errorMessage).toBeDefined();
+      expect(result.errorClass).toBe("network");
     });
   });
 
@@ -126,6 +139,7 @@ describe("httpDispatcher", () => {
       expect(result.errorMessage).toContain("timed out");
       // Timeout is clamped to 1000ms minimum
       expect(result.errorMessage).toContain("1000ms");
+      expect(result.errorClass).toBe("timeout");
     });
 
     it("clamps timeout to minimum 1000ms", async () => {
@@ -432,3 +446,21 @@ describe("httpDispatcher", () => {
     });
   });
 });
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-01-01T00:00:00Z");
+
+  it("parses delta-seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+  });
+
+  it("parses HTTP-dates relative to now", () => {
+    expect(parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("Tue, 31 Dec 2024 23:00:00 GMT", now)).toBe(0);
+  });
+
+  it("ignores missing or malformed values", () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,278 @@
+import type { AuthProfile, AuthProfileProvider, Clock, Dispatcher, ExecutionResult, JobEndpoint, Logger } from "@cronicorn/domain";
+
+import { REDACTED_SECRET } from "@cronicorn/domain";
+import { http, HttpResponse } from "msw";
+import { setupServer } from "msw/node";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { OAuth2Dispatcher } from "../oauth2-dispatcher.js";
+import { OAuth2TokenCache } from "../oauth2-tokens.js";
+
+// Token URLs don't resolve here; the SSRF check has its own tests
+vi.mock("../url-validator.js", async importOriginal => ({
+  ...await importOriginal<typeof import("../url-validator.js")>(),
+  assertUrlAllowed: async () => {},
+}));
+
+const TOKEN_URL = "https://auth.example.com/oauth/token";
+
+const server = setupServer();
+
+beforeAll(() => server.listen({ onUnhandledRequest: "error" }));
+afterEach(() => server.resetHandlers());
+afterAll(() => server.close());
+
+/** Token endpoint issuing tok-1, tok-2, ...; records the form bodies it received */
+function useTokenEndpoint(expiresIn = 3600) {
+  const requests: Record<string, string>[] = [];
+  server.use(
+    http.post(TOKEN_URL, async ({ request }) => {
+      requests.push(Object.fromEntries(new URLSearchParams(await request.text())));
+      return HttpResponse.json({ access_token: `tok-${requests.length}`, token_type: "Bearer", expires_in: expiresIn });
+    }),
+  );
+  return requests;
+}
+
+function createFakeDispatcher(plan?: (ep: JobEndpoint) => ExecutionResult): Dispatcher & { calls: JobEndpoint[] } {
+  const calls: JobEndpoint[] = [];
+  return {
+    calls,
+    async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+      calls.push(ep);
+      return plan ? plan(ep) : { status: "success", durationMs: 100, statusCode: 200 };
+    },
+  };
+}
+
+function createFakeLogger(): Logger {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => createFakeLogger(),
+  };
+}
+
+const profile: AuthProfile = {
+  name: "billing",
+  type: "oauth2-client-credentials",
+  tokenUrl: TOKEN_URL,
+  clientId: "billing-client",
+  clientSecret: "client-secret",
+  scopes: ["invoices:read"],
+  audience: "https://billing.example.com",
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+function createProvider(profiles: AuthProfile[] = [profile]): AuthProfileProvider {
+  return {
+    getAuthProfile: async (_tenantId, name) => profiles.find(p => p.name === name) ?? null,
+  };
+}
+
+function createEndpoint(overrides?: Partial<JobEndpoint>): JobEndpoint {
+  return {
+    id: "ep-1",
+    tenantId: "user-1",
+    name: "Invoices",
+    nextRunAt: new Date(),
+    failureCount: 0,
+    url: "https://billing.example.com/invoices",
+    headersJson: { "authorization": "Bearer static", "X-Trace": "1" },
+    authProfileName: "billing",
+    ...overrides,
+  };
+}
+
+function authorizationOf(ep: JobEndpoint): string | undefined {
+  return ep.headersJson?.Authorization;
+}
+
+describe("oAuth2Dispatcher", () => {
+  let now: Date;
+  let clock: Clock;
+  let logger: Logger;
+
+  beforeEach(() => {
+    now = new Date("2026-10-19T12:00:00Z");
+    clock = { now: () => now, sleep: async () => {} };
+    logger = createFakeLogger();
+  });
+
+  it("passes endpoints without an auth profile through unchanged", async () => {
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+    const ep = createEndpoint({ authProfileName: undefined });
+
+    await dispatcher.execute(ep);
+
+    expect(inner.calls).toEqual([ep]);
+  });
+
+  it("requests a token and sends it in place of the configured Authorization header", async () => {
+    const tokenRequests = useTokenEndpoint();
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result.status).toBe("success");
+    expect(inner.calls[0]!.headersJson).toEqual({ "X-Trace": "1", "Authorization": "Bearer tok-1" });
+    expect(tokenRequests).toEqual([{
+      grant_type: "client_credentials",
+      scope: "invoices:read",
+      audience: "https://billing.example.com",
+    }]);
+  });
+
+  it("reuses the token until shortly before it expires", async () => {
+    const tokenRequests = useTokenEndpoint(600);
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    await dispatcher.execute(createEndpoint());
+    now = new Date("2026-10-19T12:08:00Z");
+    await dispatcher.execute(createEndpoint({ id: "ep-2" }));
+    now = new Date("2026-10-19T12:09:30Z"); // Within a minute of expiry
+    await dispatcher.execute(createEndpoint());
+
+    expect(inner.calls.map(authorizationOf)).toEqual(["Bearer tok-1", "Bearer tok-1", "Bearer tok-2"]);
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  it("requests a new token when the profile changes", async () => {
+    useTokenEndpoint();
+    const inner = createFakeDispatcher();
+    const tokens = new OAuth2TokenCache();
+    await new OAuth2Dispatcher(inner, createProvider(), logger, clock, tokens).execute(createEndpoint());
+
+    const updated = { ...profile, updatedAt: new Date("2026-02-01T00:00:00Z") };
+    await new OAuth2Dispatcher(inner, createProvider([updated]), logger, clock, tokens).execute(createEndpoint());
+
+    expect(inner.calls.map(authorizationOf)).toEqual(["Bearer tok-1", "Bearer tok-2"]);
+  });
+
+  it("shares one token request between concurrent runs", async () => {
+    const tokenRequests = useTokenEndpoint();
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    await Promise.all([dispatcher.execute(createEndpoint()), dispatcher.execute(createEndpoint({ id: "ep-2" }))]);
+
+    expect(tokenRequests).toHaveLength(1);
+    expect(inner.calls.map(authorizationOf)).toEqual(["Bearer tok-1", "Bearer tok-1"]);
+  });
+
+  it("retries once with a new token when the endpoint answers 401", async () => {
+    const tokenRequests = useTokenEndpoint();
+    const inner = createFakeDispatcher(ep => authorizationOf(ep) === "Bearer tok-1"
+      ? { status: "failed", durationMs: 10, statusCode: 401, errorMessage: "HTTP 401 Unauthorized" }
+      : { status: "success", durationMs: 20, statusCode: 200 });
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toEqual({ status: "success", durationMs: 20, statusCode: 200 });
+    expect(inner.calls.map(authorizationOf)).toEqual(["Bearer tok-1", "Bearer tok-2"]);
+    expect(tokenRequests).toHaveLength(2);
+  });
+
+  it("returns the second 401 without retrying again", async () => {
+    useTokenEndpoint();
+    const inner = createFakeDispatcher(() => ({ status: "failed", durationMs: 10, statusCode: 401, errorMessage: "HTTP 401 Unauthorized" }));
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result.statusCode).toBe(401);
+    expect(inner.calls).toHaveLength(2);
+  });
+
+  it("redacts tokens the endpoint echoes back", async () => {
+    useTokenEndpoint();
+    const inner = createFakeDispatcher(ep => ({ status: "success", durationMs: 10, responseBody: { headers: { authorization: authorizationOf(ep)! } } }));
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result.responseBody).toEqual({ headers: { authorization: `Bearer ${REDACTED_SECRET}` } });
+  });
+
+  it("records token endpoint errors as auth failures without calling the endpoint", async () => {
+    server.use(
+      http.post(TOKEN_URL, () => HttpResponse.json({ error: "invalid_client", error_description: "Unknown client" }, { status: 401 })),
+    );
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toEqual({
+      status: "failed",
+      durationMs: 0,
+      errorMessage: "OAuth2 token request for auth profile \"billing\" failed: HTTP 401: invalid_client: Unknown client",
+      errorClass: undefined,
+      authFailure: { authProfile: "billing", tokenStatusCode: 401, oauthError: "invalid_client" },
+    });
+    expect(inner.calls).toEqual([]);
+  });
+
+  it("doesn't follow token endpoint redirects", async () => {
+    const redirected = vi.fn(() => HttpResponse.json({ access_token: "tok-redirected" }));
+    server.use(
+      http.post(TOKEN_URL, () => new HttpResponse(null, { status: 307, headers: { Location: "https://internal.example.com/token" } })),
+      http.post("https://internal.example.com/token", redirected),
+    );
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toMatchObject({
+      status: "failed",
+      errorMessage: "OAuth2 token request for auth profile \"billing\" failed: HTTP 307: token endpoint redirects aren't followed",
+      authFailure: { authProfile: "billing", tokenStatusCode: 307 },
+    });
+    expect(redirected).not.toHaveBeenCalled();
+    expect(inner.calls).toEqual([]);
+  });
+
+  it("classifies an unreachable token endpoint as a network error", async () => {
+    server.use(http.post(TOKEN_URL, () => HttpResponse.error()));
+    const dispatcher = new OAuth2Dispatcher(createFakeDispatcher(), createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toMatchObject({ status: "failed", errorClass: "network", authFailure: { authProfile: "billing" } });
+    expect(result.errorMessage).toMatch(/^OAuth2 token request for auth profile "billing" failed: /);
+  });
+
+  it("fails without sending when the profile isn't defined", async () => {
+    const inner = createFakeDispatcher();
+    const dispatcher = new OAuth2Dispatcher(inner, createProvider(), logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint({ authProfileName: "missing" }));
+
+    expect(result).toEqual({ status: "failed", durationMs: 0, errorMessage: "Auth profile \"missing\" is not defined" });
+    expect(inner.calls).toEqual([]);
+  });
+
+  it("fails without sending when the profile can't be loaded", async () => {
+    const inner = createFakeDispatcher();
+    const provider: AuthProfileProvider = {
+      getAuthProfile: async () => {
+        throw new Error("db down");
+      },
+    };
+    const dispatcher = new OAuth2Dispatcher(inner, provider, logger, clock);
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toEqual({ status: "failed", durationMs: 0, errorMessage: "Failed to load auth profile \"billing\"" });
+    expect(logger.error).toHaveBeenCalled();
+    expect(inner.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Dispatcher, ExecutionResult, JobEndpoint, Logger, SecretsProvider } from "@cronicorn/domain";
+
+import { REDACTED_SECRET } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { SecretsDispatcher } from "../secrets-dispatcher.js";
+
+// Minimal test doubles
+function createFakeDispatcher(plan?: (ep: JobEndpoint) => ExecutionResult): Dispatcher & { lastEndpoint: JobEndpoint | null } {
+  let lastEndpoint: JobEndpoint | null = null;
+  return {
+    get lastEndpoint() { return lastEndpoint; },
+    async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+      lastEndpoint = ep;
+      return plan ? plan(ep) : { status: "success", durationMs: 100 };
+    },
+  };
+}
+
+function createFakeProvider(secrets: Record<string, Record<string, string>>): SecretsProvider & { calls: number } {
+  return {
+    calls: 0,
+    async getSecrets(tenantId: string, names: string[]): Promise<Record<string, string>> {
+      this.calls++;
+      const tenantSecrets = secrets[tenantId] ?? {};
+      return Object.fromEntries(names.filter(name => name in tenantSecrets).map(name => [name, tenantSecrets[name]!]));
+    },
+  };
+}
+
+function createFakeLogger(): Logger {
+  return {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+    child: () => createFakeLogger(),
+  };
+}
+
+function createEndpoint(overrides?: Partial<JobEndpoint>): JobEndpoint {
+  return {
+    id: "ep-1",
+    tenantId: "user-1",
+    name: "test endpoint",
+    nextRunAt: new Date(),
+    failureCount: 0,
+    url: "https://api.example.com/charges",
+    ...overrides,
+  };
+}
+
+describe("secretsDispatcher", () => {
+  let inner: ReturnType<typeof createFakeDispatcher>;
+  let logger: ReturnType<typeof createFakeLogger>;
+
+  beforeEach(() => {
+    inner = createFakeDispatcher();
+    logger = createFakeLogger();
+  });
+
+  it("resolves references in the url, headers and body before sending", async () => {
+    const dispatcher = new SecretsDispatcher(inner, createFakeProvider({ "user-1": { STRIPE_KEY: "sk_live_1", ACCOUNT: "acct_9" } }), logger);
+
+    const result = await dispatcher.execute(createEndpoint({
+      url: "https://api.example.com/{{ secret.ACCOUNT }}/charges",
+      headersJson: { Authorization: "Bearer {{ secret.STRIPE_KEY }}" },
+      bodyJson: { account: "{{secret.ACCOUNT}}" },
+    }));
+
+    expect(result.status).toBe("success");
+    expect(inner.lastEndpoint).toMatchObject({
+      url: "https://api.example.com/acct_9/charges",
+      headersJson: { Authorization: "Bearer sk_live_1" },
+      bodyJson: { account: "acct_9" },
+    });
+  });
+
+  it("skips the lookup for endpoints without references", async () => {
+    const provider = createFakeProvider({});
+    const dispatcher = new SecretsDispatcher(inner, provider, logger);
+    const ep = createEndpoint({ headersJson: { "X-Run": "plain" } });
+
+    await dispatcher.execute(ep);
+
+    expect(provider.calls).toBe(0);
+    expect(inner.lastEndpoint).toBe(ep);
+  });
+
+  it("redacts secret values from the response body and error message", async () => {
+    inner = createFakeDispatcher(() => ({
+      status: "failed",
+      durationMs: 20,
+      statusCode: 401,
+      errorMessage: "Invalid API key sk_live_1",
+      responseBody: { error: { message: "No such key: sk_live_1" } },
+    }));
+    const dispatcher = new SecretsDispatcher(inner, createFakeProvider({ "user-1": { STRIPE_KEY: "sk_live_1" } }), logger);
+
+    const result = await dispatcher.execute(createEndpoint({ headersJson: { Authorization: "Bearer {{ secret.STRIPE_KEY }}" } }));
+
+    expect(result).toEqual({
+      status: "failed",
+      durationMs: 20,
+      statusCode: 401,
+      errorMessage: `Invalid API key ${REDACTED_SECRET}`,
+      responseBody: { error: { message: `No such key: ${REDACTED_SECRET}` } },
+    });
+  });
+
+  it("fails without sending when a referenced secret is not defined", async () => {
+    const dispatcher = new SecretsDispatcher(inner, createFakeProvider({ "user-2": { STRIPE_KEY: "other" } }), logger);
+
+    const result = await dispatcher.execute(createEndpoint({ headersJson: { Authorization: "Bearer {{ secret.STRIPE_KEY }}" } }));
+
+    expect(result).toEqual({ status: "failed", durationMs: 0, errorMessage: "Secret \"STRIPE_KEY\" is not defined" });
+    expect(inner.lastEndpoint).toBeNull();
+  });
+
+  it("fails closed when the lookup throws", async () => {
+    const provider: SecretsProvider = { getSecrets: vi.fn().mockRejectedValue(new Error("decrypt failed")) };
+    const dispatcher = new SecretsDispatcher(inner, provider, logger);
+
+    const result = await dispatcher.execute(createEndpoint({ bodyJson: { key: "{{ secret.STRIPE_KEY }}" } }));
+
+    expect(result).toEqual({ status: "failed", durationMs: 0, errorMessage: "Failed to load secrets" });
+    expect(inner.lastEndpoint).toBeNull();
+    expect(logger.error).toHaveBeenCalledWith(
+      expect.objectContaining({ tenantId: "user-1", error: "decrypt failed" }),
+      "Secret lookup failed, request not sent",
+    );
+  });
+});
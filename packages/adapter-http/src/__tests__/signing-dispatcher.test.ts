@@ -1,6 +1,8 @@
-import type { Clock, Dispatcher, ExecutionResult, JobEndpoint, Logger, SigningKeyProvider } from "@cronicorn/domain";
+import type { Clock, Dispatcher, ExecutionResult, JobEndpoint, Logger, SigningKey, SigningKeyProvider } from "@cronicorn/domain";
 
-import { computeSignature } from "@cronicorn/domain/signing";
+import { canonicalizeRequest, computeSignature, computeSignatureV2 } from "@cronicorn/domain/signing";
+import { Buffer } from "node:buffer";
+import { generateKeyPairSync, verify } from "node:crypto";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import { SigningDispatcher } from "../signing-dispatcher.js";
@@ -17,10 +19,10 @@ function createFakeDispatcher(plan?: (ep: JobEndpoint) => ExecutionResult): Disp
   };
 }
 
-function createFakeKeyProvider(keys: Record<string, string>): SigningKeyProvider {
+function createFakeKeyProvider(keys: Record<string, SigningKey[]>): SigningKeyProvider {
   return {
-    async getKey(tenantId: string): Promise<string | null> {
-      return keys[tenantId] ?? null;
+    async getKeys(tenantId: string): Promise<SigningKey[]> {
+      return keys[tenantId] ?? [];
     },
   };
 }
@@ -55,6 +57,7 @@ function createEndpoint(overrides?: Partial<JobEndpoint>): JobEndpoint {
 
 describe("signingDispatcher", () => {
   const testKey = "a".repeat(64);
+  const signingKey: SigningKey = { id: "key-1", key: testKey, algorithm: "hmac-sha256", version: "v1" };
   const fixedTime = new Date("2024-01-01T00:00:00Z");
   const expectedTimestamp = Math.floor(fixedTime.getTime() / 1000);
 
@@ -67,7 +70,7 @@ describe("signingDispatcher", () => {
   });
 
   it("adds signature headers when key exists", async () => {
-    const keyProvider = createFakeKeyProvider({ "user-1": testKey });
+    const keyProvider = createFakeKeyProvider({ "user-1": [signingKey] });
     const clock = createFakeClock(fixedTime);
     const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
 
@@ -83,10 +86,96 @@ describe("signingDispatcher", () => {
     const body = JSON.stringify({ foo: "bar" });
     const expectedSig = computeSignature(testKey, expectedTimestamp, body);
     expect(signedEp.headersJson!["X-Cronicorn-Signature"]).toBe(`sha256=${expectedSig}`);
+    expect(signedEp.headersJson!["X-Cronicorn-Key-Id"]).toBe("key-1");
+  });
+
+  it("signs with every key during a rotation overlap", async () => {
+    const previousKey: SigningKey = { id: "key-0", key: "b".repeat(64), algorithm: "hmac-sha256", version: "v1" };
+    const keyProvider = createFakeKeyProvider({ "user-1": [signingKey, previousKey] });
+    const clock = createFakeClock(fixedTime);
+    const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
+
+    await dispatcher.execute(createEndpoint({ bodyJson: { foo: "bar" } }));
+
+    const body = JSON.stringify({ foo: "bar" });
+    const signedEp = inner.lastEndpoint!;
+    expect(signedEp.headersJson!["X-Cronicorn-Signature"]).toBe(
+      `sha256=${computeSignature(testKey, expectedTimestamp, body)}, sha256=${computeSignature(previousKey.key, expectedTimestamp, body)}`,
+    );
+    expect(signedEp.headersJson!["X-Cronicorn-Key-Id"]).toBe("key-1, key-0");
+  });
+
+  it("signs v2 keys over method, URL, headers and the body as sent", async () => {
+    const v2Key: SigningKey = { ...signingKey, version: "v2" };
+    const keyProvider = createFakeKeyProvider({ "user-1": [v2Key] });
+    const clock = createFakeClock(fixedTime);
+    const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
+
+    await dispatcher.execute(createEndpoint({
+      url: "https://api.example.com/jobs?run=1",
+      method: "POST",
+      headersJson: { "X-Tenant": "acme" },
+      bodyJson: { foo: "bar" },
+    }));
+
+    const signedEp = inner.lastEndpoint!;
+    const expectedSig = computeSignatureV2(testKey, expectedTimestamp, {
+      method: "POST",
+      url: "https://api.example.com/jobs?run=1",
+      headers: { "X-Tenant": "acme", "Content-Type": "application/json" },
+      body: JSON.stringify({ foo: "bar" }),
+    }, ["content-type", "x-tenant"]);
+    expect(signedEp.headersJson!["X-Cronicorn-Signature"]).toBe(`v2=${expectedSig}`);
+    expect(signedEp.headersJson!["X-Cronicorn-Signed-Headers"]).toBe("content-type;x-tenant");
+    expect(signedEp.headersJson!["Content-Type"]).toBe("application/json");
+  });
+
+  it("signs an empty body with v2 for GET, which sends none", async () => {
+    const v2Key: SigningKey = { ...signingKey, version: "v2" };
+    const keyProvider = createFakeKeyProvider({ "user-1": [v2Key] });
+    const clock = createFakeClock(fixedTime);
+    const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
+
+    await dispatcher.execute(createEndpoint({ url: "https://api.example.com/report", bodyJson: { foo: "bar" } }));
+
+    const expectedSig = computeSignatureV2(testKey, expectedTimestamp, {
+      method: "GET",
+      url: "https://api.example.com/report",
+      headers: { "Content-Type": "application/json" },
+      body: "",
+    }, ["content-type"]);
+    expect(inner.lastEndpoint!.headersJson!["X-Cronicorn-Signature"]).toBe(`v2=${expectedSig}`);
+  });
+
+  it("signs Ed25519 keys over the canonical request, verifiable with the public key", async () => {
+    const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+    const edKey: SigningKey = {
+      id: "key-ed",
+      key: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+      algorithm: "ed25519",
+      version: "v1",
+    };
+    const keyProvider = createFakeKeyProvider({ "user-1": [edKey] });
+    const clock = createFakeClock(fixedTime);
+    const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
+
+    await dispatcher.execute(createEndpoint({ url: "https://api.example.com/jobs", method: "POST", bodyJson: { foo: "bar" } }));
+
+    const headers = inner.lastEndpoint!.headersJson!;
+    const canonical = canonicalizeRequest({
+      method: "POST",
+      url: "https://api.example.com/jobs",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ foo: "bar" }),
+    }, expectedTimestamp, ["content-type"]);
+    const signature = headers["X-Cronicorn-Signature"]!.replace("ed25519=", "");
+    expect(verify(null, Buffer.from(canonical), publicKey, Buffer.from(signature, "base64url"))).toBe(true);
+    expect(headers["X-Cronicorn-Key-Id"]).toBe("key-ed");
+    expect(headers["X-Cronicorn-Signed-Headers"]).toBe("content-type");
   });
 
   it("uses empty string for body when bodyJson is null", async () => {
-    const keyProvider = createFakeKeyProvider({ "user-1": testKey });
+    const keyProvider = createFakeKeyProvider({ "user-1": [signingKey] });
     const clock = createFakeClock(fixedTime);
     const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
 
@@ -112,7 +201,7 @@ describe("signingDispatcher", () => {
 
   it("fails open: proceeds unsigned on key lookup error", async () => {
     const errorProvider: SigningKeyProvider = {
-      async getKey() {
+      async getKeys() {
         throw new Error("DB connection lost");
       },
     };
@@ -130,7 +219,7 @@ describe("signingDispatcher", () => {
   });
 
   it("preserves existing headers when signing", async () => {
-    const keyProvider = createFakeKeyProvider({ "user-1": testKey });
+    const keyProvider = createFakeKeyProvider({ "user-1": [signingKey] });
     const clock = createFakeClock(fixedTime);
     const dispatcher = new SigningDispatcher(inner, keyProvider, logger, clock);
 
@@ -146,7 +235,7 @@ describe("signingDispatcher", () => {
   });
 
   it("delegates to inner dispatcher and returns its result", async () => {
-    const keyProvider = createFakeKeyProvider({ "user-1": testKey });
+    const keyProvider = createFakeKeyProvider({ "user-1": [signingKey] });
     const clock = createFakeClock(fixedTime);
     const customResult: ExecutionResult = {
       status: "failed",
@@ -0,0 +1,154 @@
+import type { JobEndpoint, TlsCredentialProvider } from "@cronicorn/domain";
+import type { AddressInfo } from "node:net";
+
+import { TEST_CA_CERTIFICATE, TEST_CLIENT_CERTIFICATE, TEST_CLIENT_PRIVATE_KEY, TEST_SERVER_CERTIFICATE, TEST_SERVER_PRIVATE_KEY } from "@cronicorn/domain";
+import { createServer } from "node:https";
+import { fetch } from "undici";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { HttpDispatcher } from "../http-dispatcher.js";
+import { TlsAgentPool } from "../tls-agents.js";
+
+// The test server listens on 127.0.0.1, which the SSRF check would block
+vi.mock("../url-validator.js", async importOriginal => ({
+  ...await importOriginal<typeof import("../url-validator.js")>(),
+  assertUrlAllowed: async () => {},
+}));
+
+// mTLS server: certificate issued by the test CA, requires a client certificate from it
+const server = createServer(
+  {
+    cert: TEST_SERVER_CERTIFICATE,
+    key: TEST_SERVER_PRIVATE_KEY,
+    ca: TEST_CA_CERTIFICATE,
+    requestCert: true,
+    rejectUnauthorized: true,
+  },
+  (req, res) => {
+    // eslint-disable-next-line ts/consistent-type-assertions -- requestCert gives a TLS socket
+    const peer = (req.socket as import("node:tls").TLSSocket).getPeerCertificate();
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ client: peer.subject?.CN }));
+  },
+);
+let url: string;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  url = `https://127.0.0.1:${(server.address() as AddressInfo).port}/hook`; // eslint-disable-line ts/consistent-type-assertions
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+const mutualTls = {
+  certificate: TEST_CLIENT_CERTIFICATE,
+  privateKey: TEST_CLIENT_PRIVATE_KEY,
+  caBundle: TEST_CA_CERTIFICATE,
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+};
+
+describe("tlsAgentPool", () => {
+  it("presents the client certificate and trusts the CA bundle", async () => {
+    const pool = new TlsAgentPool();
+
+    const response = await fetch(url, { dispatcher: pool.get("tenant-1", "billing", mutualTls) });
+
+    expect(await response.json()).toEqual({ client: "billing-client" });
+    await pool.close();
+  });
+
+  it("fails the handshake without a client certificate", async () => {
+    const pool = new TlsAgentPool();
+
+    await expect(fetch(url, { dispatcher: pool.get("tenant-1", "ca-only", { caBundle: TEST_CA_CERTIFICATE, updatedAt: new Date() }) }))
+      .rejects
+      .toThrow("fetch failed");
+    await pool.close();
+  });
+
+  it("reuses an agent until the credential changes", () => {
+    const pool = new TlsAgentPool();
+    const agent = pool.get("tenant-1", "billing", mutualTls);
+
+    expect(pool.get("tenant-1", "billing", { ...mutualTls })).toBe(agent);
+    expect(pool.get("tenant-2", "billing", mutualTls)).not.toBe(agent);
+    expect(pool.get("tenant-1", "billing", { ...mutualTls, updatedAt: new Date("2026-02-01T00:00:00Z") })).not.toBe(agent);
+  });
+
+  it("evicts the least recently used agent beyond its size", () => {
+    const pool = new TlsAgentPool(2);
+    const first = pool.get("tenant-1", "a", mutualTls);
+    pool.get("tenant-1", "b", mutualTls);
+    pool.get("tenant-1", "a", mutualTls);
+    const third = pool.get("tenant-1", "c", mutualTls);
+
+    expect(pool.get("tenant-1", "a", mutualTls)).toBe(first);
+    expect(pool.get("tenant-1", "c", mutualTls)).toBe(third);
+  });
+});
+
+describe("httpDispatcher with TLS credentials", () => {
+  function createEndpoint(overrides: Partial<JobEndpoint> = {}): JobEndpoint {
+    return {
+      id: "ep-1",
+      tenantId: "tenant-1",
+      name: "Internal API",
+      nextRunAt: new Date(),
+      failureCount: 0,
+      url,
+      method: "GET",
+      tlsCredentialName: "billing",
+      ...overrides,
+    };
+  }
+
+  const provider: TlsCredentialProvider = {
+    getTlsCredential: async (_tenantId, name) => name === "billing" ? mutualTls : null,
+  };
+
+  it("sends the request over mutual TLS", async () => {
+    const dispatcher = new HttpDispatcher({ tlsCredentials: provider });
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toMatchObject({ status: "success", statusCode: 200, responseBody: { client: "billing-client" } });
+  });
+
+  it("reports TLS failures as network errors", async () => {
+    const dispatcher = new HttpDispatcher({ tlsCredentials: provider });
+
+    // Default trust store: the test CA isn't trusted
+    const result = await dispatcher.execute(createEndpoint({ tlsCredentialName: undefined }));
+
+    expect(result).toMatchObject({ status: "failed", errorClass: "network" });
+    expect(result.errorMessage).toMatch(/^fetch failed: /);
+  });
+
+  it("fails without sending when the credential isn't defined", async () => {
+    const getTlsCredential = vi.fn(provider.getTlsCredential);
+    const dispatcher = new HttpDispatcher({ tlsCredentials: { getTlsCredential } });
+
+    const result = await dispatcher.execute(createEndpoint({ tlsCredentialName: "missing" }));
+
+    expect(result).toEqual({ status: "failed", durationMs: 0, errorMessage: "TLS credential \"missing\" is not defined" });
+    expect(getTlsCredential).toHaveBeenCalledWith("tenant-1", "missing");
+  });
+
+  it("fails without sending when the credential can't be loaded", async () => {
+    const dispatcher = new HttpDispatcher({
+      tlsCredentials: { getTlsCredential: async () => { throw new Error("db down"); } },
+    });
+
+    const result = await dispatcher.execute(createEndpoint());
+
+    expect(result).toEqual({ status: "failed", durationMs: 0, errorMessage: "Failed to load TLS credential \"billing\"" });
+  });
+
+  it("fails without a credential provider", async () => {
+    const result = await new HttpDispatcher().execute(createEndpoint());
+
+    expect(result.errorMessage).toBe("TLS credentials are not available to this dispatcher");
+  });
+});
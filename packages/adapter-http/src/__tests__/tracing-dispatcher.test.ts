@@ -0,0 +1,72 @@
+import type { Dispatcher, ExecutionResult, JobEndpoint } from "@cronicorn/domain";
+
+import { FakeTracer } from "@cronicorn/domain";
+import { describe, expect, it } from "vitest";
+
+import { TracingDispatcher } from "../tracing-dispatcher.js";
+
+function createFakeDispatcher(result: ExecutionResult): Dispatcher & { lastEndpoint: JobEndpoint | null } {
+  let lastEndpoint: JobEndpoint | null = null;
+  return {
+    get lastEndpoint() { return lastEndpoint; },
+    async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+      lastEndpoint = ep;
+      return result;
+    },
+  };
+}
+
+function createEndpoint(overrides?: Partial<JobEndpoint>): JobEndpoint {
+  return {
+    id: "ep-1",
+    tenantId: "user-1",
+    name: "test endpoint",
+    nextRunAt: new Date(),
+    failureCount: 0,
+    url: "https://api.example.com/sync?token=secret",
+    method: "POST",
+    ...overrides,
+  };
+}
+
+describe("tracingDispatcher", () => {
+  it("injects the span's traceparent into the request headers", async () => {
+    const tracer = new FakeTracer();
+    const inner = createFakeDispatcher({ status: "success", durationMs: 10, statusCode: 200 });
+
+    await new TracingDispatcher(inner, tracer).execute(createEndpoint({ headersJson: { Authorization: "Bearer x" } }));
+
+    expect(inner.lastEndpoint?.headersJson).toEqual({
+      Authorization: "Bearer x",
+      traceparent: tracer.spans[0]!.traceparent,
+    });
+  });
+
+  it("keeps a traceparent configured on the endpoint", async () => {
+    const inner = createFakeDispatcher({ status: "success", durationMs: 10, statusCode: 200 });
+
+    await new TracingDispatcher(inner, new FakeTracer()).execute(createEndpoint({ headersJson: { Traceparent: "00-custom" } }));
+
+    expect(inner.lastEndpoint?.headersJson).toEqual({ Traceparent: "00-custom" });
+  });
+
+  it("records a client span with the host but not the full URL", async () => {
+    const tracer = new FakeTracer();
+    const inner = createFakeDispatcher({ status: "failed", durationMs: 10, statusCode: 503, errorMessage: "HTTP 503" });
+
+    const result = await new TracingDispatcher(inner, tracer).execute(createEndpoint());
+
+    expect(result.statusCode).toBe(503);
+    expect(tracer.spans).toEqual([expect.objectContaining({
+      name: "HttpDispatcher.execute",
+      kind: "client",
+      attributes: expect.objectContaining({
+        "http.request.method": "POST",
+        "server.address": "api.example.com",
+        "http.response.status_code": 503,
+        "cronicorn.run.status": "failed",
+      }),
+    })]);
+    expect(JSON.stringify(tracer.spans)).not.toContain("secret");
+  });
+});
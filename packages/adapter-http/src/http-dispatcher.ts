@@ -1,20 +1,54 @@
-import type { Dispatcher, ExecutionResult, JobEndpoint, JsonValue } from "@cronicorn/domain";
+import type { Dispatcher, ExecutionResult, JobEndpoint, JsonValue, TlsCredentialProvider } from "@cronicorn/domain";
+import type { Agent } from "undici";
 
+import { fetch as undiciFetch } from "undici";
+
+import { TlsAgentPool } from "./tls-agents.js";
 import { assertUrlAllowed, UrlNotAllowedError } from "./url-validator.js";
 
+export type HttpDispatcherOptions = {
+  /**
+   * Looks up endpoints' TLS credentials (client certificates, CA bundles). Without it,
+   * endpoints that reference a credential fail without sending a request.
+   */
+  tlsCredentials?: TlsCredentialProvider;
+  tlsAgents?: TlsAgentPool; // Default: a pool per dispatcher
+};
+
+/** The parts of a fetch Response the dispatcher reads (global and undici fetch alike) */
+type FetchResponse = {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: { get: (name: string) => string | null };
+  text: () => Promise<string>;
+};
+
 /**
  * Production HTTP dispatcher using Node.js native fetch API.
  *
  * Design decisions:
  * - Uses AbortController for timeout handling (proper request cancellation)
- * - Does NOT retry (scheduler handles retries via failureCount)
+ * - Does NOT retry itself: in-run retries follow the endpoint's RetryPolicy (see
+ *   executeWithRetry), and failureCount backoff spaces out the next scheduled run.
+ *   Failures carry errorClass / retryAfterMs so the policy can decide.
  * - Stores JSON response bodies (for AI query tools) with size limits
  * - Auto-adds Content-Type: application/json when bodyJson present
  * - Measures duration from request start to response headers (precise timing)
+ * - Endpoints with a TLS credential are sent through a per-credential undici Agent
+ *   (client certificate, CA bundle); a credential that can't be loaded fails the run
+ *   without sending a request
  */
 export class HttpDispatcher implements Dispatcher {
   /** Default response size limit: 100 KB */
   private static readonly DEFAULT_MAX_RESPONSE_SIZE_KB = 100;
+
+  private readonly tlsAgents: TlsAgentPool;
+
+  constructor(private readonly options: HttpDispatcherOptions = {}) {
+    this.tlsAgents = options.tlsAgents ?? new TlsAgentPool();
+  }
+
   async execute(ep: JobEndpoint): Promise<ExecutionResult> {
     // Validate URL early
     if (!ep.url) {
@@ -40,6 +74,16 @@ export class HttpDispatcher implements Dispatcher {
       throw error;
     }
 
+    // Client certificate / private CA: resolve the endpoint's TLS agent (fail closed)
+    let agent: Agent | undefined;
+    if (ep.tlsCredentialName) {
+      const resolved = await this.resolveTlsAgent(ep, ep.tlsCredentialName);
+      if ("errorMessage" in resolved) {
+        return { status: "failed", durationMs: 0, errorMessage: resolved.errorMessage };
+      }
+      agent = resolved.agent;
+    }
+
     // Clamp timeout to minimum 1000ms (1 second)
     const timeoutMs = Math.max(ep.timeoutMs ?? 30000, 1000);
 
@@ -65,12 +109,9 @@ export class HttpDispatcher implements Dispatcher {
       const body = hasBody && ep.bodyJson ? JSON.stringify(ep.bodyJson) : undefined;
 
       // Execute request
-      const response = await fetch(ep.url, {
-        method,
-        headers,
-        body,
-        signal: controller.signal,
-      });
+      const response: FetchResponse = agent
+        ? await undiciFetch(ep.url, { method, headers: [...headers], body, signal: controller.signal, dispatcher: agent })
+        : await fetch(ep.url, { method, headers, body, signal: controller.signal });
 
       // Clear timeout
       clearTimeout(timeoutId);
@@ -92,6 +133,7 @@ export class HttpDispatcher implements Dispatcher {
         statusCode,
         responseBody,
         errorMessage: `HTTP ${response.status} ${response.statusText}`,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
       };
     }
     catch (error) {
@@ -107,19 +149,48 @@ export class HttpDispatcher implements Dispatcher {
           status: "failed",
           durationMs,
           errorMessage: `Request timed out after ${timeoutMs}ms`,
+          errorClass: "timeout",
         };
       }
 
-      // Other errors (network, DNS, invalid URL, etc.)
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      // Other errors (network, DNS, TLS, invalid URL, etc.)
+      const errorMessage = describeFetchError(error);
       return {
         status: "failed",
         durationMs,
         errorMessage,
+        errorClass: "network",
       };
     }
   }
 
+  /**
+   * Looks up the endpoint's TLS credential and returns the agent built from it.
+   */
+  private async resolveTlsAgent(ep: JobEndpoint, name: string): Promise<{ agent: Agent } | { errorMessage: string }> {
+    if (!this.options.tlsCredentials) {
+      return { errorMessage: "TLS credentials are not available to this dispatcher" };
+    }
+
+    let material;
+    try {
+      material = await this.options.tlsCredentials.getTlsCredential(ep.tenantId, name);
+    }
+    catch {
+      return { errorMessage: `Failed to load TLS credential "${name}"` };
+    }
+    if (!material) {
+      return { errorMessage: `TLS credential "${name}" is not defined` };
+    }
+
+    try {
+      return { agent: this.tlsAgents.get(ep.tenantId, name, material) };
+    }
+    catch (error) {
+      return { errorMessage: `TLS credential "${name}" can't be used: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
   /**
    * Captures response body and status code from HTTP response.
    *
@@ -136,7 +207,7 @@ export class HttpDispatcher implements Dispatcher {
    * @returns Object with statusCode (always) and responseBody (conditional)
    */
   private async captureResponse(
-    response: Response,
+    response: FetchResponse,
     ep: JobEndpoint,
   ): Promise<{ statusCode: number; responseBody?: JsonValue }> {
     const statusCode = response.status;
@@ -185,3 +256,34 @@ export class HttpDispatcher implements Dispatcher {
     }
   }
 }
+
+/**
+ * fetch reports connection failures as a bare "fetch failed"; the cause says what went
+ * wrong (refused connection, DNS, certificate rejected, ...).
+ */
+export function describeFetchError(error: unknown): string {
+  if (!(error instanceof Error))
+    return String(error);
+  if (error.cause instanceof Error && error.cause.message && !error.message.includes(error.cause.message))
+    return `${error.message}: ${error.cause.message}`;
+  return error.message;
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds from now.
+ *
+ * @returns Delay in milliseconds, or undefined if the header is absent or malformed
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value)
+    return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed))
+    return Number.parseInt(trimmed, 10) * 1000;
+
+  const at = Date.parse(trimmed);
+  if (Number.isNaN(at))
+    return undefined;
+  return Math.max(0, at - now);
+}
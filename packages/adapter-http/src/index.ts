@@ -1,6 +1,12 @@
 export { FakeHttpDispatcher } from "./fake-http-dispatcher.js";
 export { HttpDispatcher } from "./http-dispatcher.js";
+export type { HttpDispatcherOptions } from "./http-dispatcher.js";
+export { OAuth2Dispatcher } from "./oauth2-dispatcher.js";
+export { OAuth2TokenCache } from "./oauth2-tokens.js";
+export { SecretsDispatcher } from "./secrets-dispatcher.js";
 export { SigningDispatcher } from "./signing-dispatcher.js";
+export { TlsAgentPool } from "./tls-agents.js";
+export { TracingDispatcher } from "./tracing-dispatcher.js";
 export {
   assertUrlAllowed,
   UrlNotAllowedError,
@@ -0,0 +1,104 @@
+/**
+ * OAuth2 Dispatcher — Decorator that authenticates requests with the endpoint's auth profile.
+ *
+ * For endpoints with an authProfileName, it obtains an access token with the profile's
+ * OAuth2 client credentials (cached until shortly before expiry, see OAuth2TokenCache) and
+ * sends it as `Authorization: Bearer <token>`, replacing any configured Authorization header.
+ * If the endpoint answers 401, the token is discarded and the request is sent once more
+ * with a new one. Tokens are redacted from the result.
+ *
+ * Fail-closed: if the profile is missing or no token can be obtained, the request is not
+ * sent. Token failures carry an AuthFailure, which is recorded as the run's errorDetails.
+ * Wrap the SigningDispatcher with this one so signatures cover the Authorization header.
+ */
+
+import type { AuthProfile, AuthProfileProvider, Clock, Dispatcher, ExecutionResult, JobEndpoint, Logger } from "@cronicorn/domain";
+
+import { OAuth2TokenError, redactExecutionResult } from "@cronicorn/domain";
+
+import { OAuth2TokenCache } from "./oauth2-tokens.js";
+
+export class OAuth2Dispatcher implements Dispatcher {
+  constructor(
+    private readonly inner: Dispatcher,
+    private readonly provider: AuthProfileProvider,
+    private readonly logger: Logger,
+    private readonly clock: Clock,
+    private readonly tokens: OAuth2TokenCache = new OAuth2TokenCache(),
+  ) {}
+
+  async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+    const name = ep.authProfileName;
+    if (!name) {
+      return this.inner.execute(ep);
+    }
+
+    let profile: AuthProfile | null;
+    try {
+      profile = await this.provider.getAuthProfile(ep.tenantId, name);
+    }
+    catch (err) {
+      this.logger.error(
+        {
+          tenantId: ep.tenantId,
+          endpointId: ep.id,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        "Auth profile lookup failed, request not sent",
+      );
+      return { status: "failed", durationMs: 0, errorMessage: `Failed to load auth profile "${name}"` };
+    }
+    if (!profile) {
+      return { status: "failed", durationMs: 0, errorMessage: `Auth profile "${name}" is not defined` };
+    }
+
+    const first = await this.getToken(ep, profile);
+    if (typeof first !== "string") {
+      return first;
+    }
+    const result = await this.inner.execute(withBearerToken(ep, first));
+    if (result.statusCode !== 401) {
+      return redactExecutionResult(result, [first]);
+    }
+
+    // The token may have been revoked or rotated early: retry once with a new one
+    this.tokens.invalidate(ep.tenantId, name, first);
+    const second = await this.getToken(ep, profile);
+    if (typeof second !== "string") {
+      return second;
+    }
+    const retried = await this.inner.execute(withBearerToken(ep, second));
+    return redactExecutionResult(retried, [first, second]);
+  }
+
+  /**
+   * @returns The access token, or the failed result to record when there's none
+   */
+  private async getToken(ep: JobEndpoint, profile: AuthProfile): Promise<string | ExecutionResult> {
+    try {
+      return await this.tokens.getToken(ep.tenantId, profile, this.clock);
+    }
+    catch (error) {
+      if (!(error instanceof OAuth2TokenError)) {
+        throw error;
+      }
+      return {
+        status: "failed",
+        durationMs: 0,
+        errorMessage: `OAuth2 token request for auth profile "${profile.name}" failed: ${error.message}`,
+        errorClass: error.errorClass,
+        authFailure: { authProfile: profile.name, ...error.failure },
+      };
+    }
+  }
+}
+
+/**
+ * The endpoint with its Authorization header (in any letter case) replaced by the token.
+ */
+function withBearerToken(ep: JobEndpoint, accessToken: string): JobEndpoint {
+  const headers = Object.fromEntries(
+    Object.entries(ep.headersJson ?? {}).filter(([header]) => header.toLowerCase() !== "authorization"),
+  );
+  return { ...ep, headersJson: { ...headers, Authorization: `Bearer ${accessToken}` } };
+}
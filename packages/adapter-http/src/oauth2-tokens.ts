@@ -0,0 +1,122 @@
+/**
+ * OAuth2 access tokens per auth profile, requested on demand and reused until they expire.
+ *
+ * Tokens are cached per tenant and profile name, and requested again
+ * OAUTH2_TOKEN_REFRESH_MARGIN_MS before they expire. Concurrent runs that need the same
+ * token wait for a single token request. Replacing a profile (a new updatedAt) discards
+ * its token.
+ *
+ * Token URLs go through the same SSRF check as endpoint URLs.
+ */
+
+import type { AuthProfile, Clock, OAuth2Token } from "@cronicorn/domain";
+
+import { buildOAuth2TokenRequest, isOAuth2TokenFresh, OAuth2TokenError, parseOAuth2TokenResponse } from "@cronicorn/domain";
+
+import { describeFetchError } from "./http-dispatcher.js";
+import { assertUrlAllowed, UrlNotAllowedError } from "./url-validator.js";
+
+type CachedToken = OAuth2Token & {
+  updatedAt: number; // Profile version the token was issued for
+};
+
+export class OAuth2TokenCache {
+  /** Default number of cached tokens; the least recently used one is dropped beyond it */
+  static readonly DEFAULT_MAX_TOKENS = 1000;
+
+  /** Token requests taking longer than this fail with errorClass "timeout" */
+  static readonly TOKEN_REQUEST_TIMEOUT_MS = 10_000;
+
+  private readonly tokens = new Map<string, CachedToken>();
+  private readonly pending = new Map<string, Promise<CachedToken>>();
+
+  constructor(private readonly maxTokens: number = OAuth2TokenCache.DEFAULT_MAX_TOKENS) {}
+
+  /**
+   * A token for the tenant's profile: the cached one while it's fresh, otherwise a new one.
+   *
+   * @throws OAuth2TokenError if the token endpoint can't be reached or doesn't issue a token
+   */
+  async getToken(tenantId: string, profile: AuthProfile, clock: Clock): Promise<string> {
+    const key = `${tenantId}:${profile.name}`;
+    const updatedAt = profile.updatedAt.getTime();
+    const cached = this.tokens.get(key);
+    if (cached?.updatedAt === updatedAt && isOAuth2TokenFresh(cached, clock.now())) {
+      this.tokens.delete(key);
+      this.tokens.set(key, cached); // Most recently used last
+      return cached.accessToken;
+    }
+
+    const requestKey = `${key}:${updatedAt}`;
+    let request = this.pending.get(requestKey);
+    if (!request) {
+      request = requestToken(profile, clock)
+        .then(token => ({ ...token, updatedAt }))
+        .finally(() => this.pending.delete(requestKey));
+      this.pending.set(requestKey, request);
+    }
+
+    const token = await request;
+    this.store(key, token);
+    return token.accessToken;
+  }
+
+  /**
+   * Drops a token the endpoint rejected, so the next getToken requests a new one.
+   * A token that has already been replaced is left alone.
+   */
+  invalidate(tenantId: string, name: string, accessToken: string): void {
+    const key = `${tenantId}:${name}`;
+    if (this.tokens.get(key)?.accessToken === accessToken) {
+      this.tokens.delete(key);
+    }
+  }
+
+  private store(key: string, token: CachedToken): void {
+    this.tokens.delete(key);
+    this.tokens.set(key, token);
+    if (this.tokens.size > this.maxTokens) {
+      const [oldest] = this.tokens.keys();
+      this.tokens.delete(oldest!);
+    }
+  }
+}
+
+async function requestToken(profile: AuthProfile, clock: Clock): Promise<OAuth2Token> {
+  try {
+    await assertUrlAllowed(profile.tokenUrl);
+  }
+  catch (error) {
+    if (error instanceof UrlNotAllowedError) {
+      throw new OAuth2TokenError(error.message);
+    }
+    throw error;
+  }
+
+  const { headers, body } = buildOAuth2TokenRequest(profile, profile.clientSecret);
+  let response: Response;
+  let bodyText: string;
+  try {
+    response = await fetch(profile.tokenUrl, {
+      method: "POST",
+      headers,
+      body,
+      // A redirect would skip the SSRF check and resend the client credentials to its target
+      redirect: "manual",
+      signal: AbortSignal.timeout(OAuth2TokenCache.TOKEN_REQUEST_TIMEOUT_MS),
+    });
+    bodyText = await response.text();
+  }
+  catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new OAuth2TokenError(`timed out after ${OAuth2TokenCache.TOKEN_REQUEST_TIMEOUT_MS}ms`, {}, "timeout");
+    }
+    throw new OAuth2TokenError(describeFetchError(error), {}, "network");
+  }
+
+  if (response.status >= 300 && response.status < 400) {
+    throw new OAuth2TokenError(`HTTP ${response.status}: token endpoint redirects aren't followed`, { tokenStatusCode: response.status });
+  }
+
+  return parseOAuth2TokenResponse(response.status, bodyText, clock.now());
+}
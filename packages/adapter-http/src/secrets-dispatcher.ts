@@ -0,0 +1,53 @@
+/**
+ * Secrets Dispatcher — Decorator that resolves {{ secret.NAME }} references right before sending.
+ *
+ * Endpoints store references, never values. This decorator loads the tenant's referenced
+ * secrets, substitutes them into the url, headers and body, and redacts the values from
+ * the response body and error message it returns, so they never reach stored runs or logs.
+ *
+ * Fail-closed: if secrets can't be loaded or a reference is undefined, the request is not sent.
+ * Wrap the SigningDispatcher with this one so signatures cover the resolved body.
+ */
+
+import type { Dispatcher, ExecutionResult, JobEndpoint, Logger, SecretsProvider } from "@cronicorn/domain";
+
+import { findSecretReferences, redactExecutionResult, resolveSecretReferences } from "@cronicorn/domain";
+
+export class SecretsDispatcher implements Dispatcher {
+  constructor(
+    private readonly inner: Dispatcher,
+    private readonly provider: SecretsProvider,
+    private readonly logger: Logger,
+  ) {}
+
+  async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+    const names = findSecretReferences(ep);
+    if (names.length === 0) {
+      return this.inner.execute(ep);
+    }
+
+    let secrets: Record<string, string>;
+    try {
+      secrets = await this.provider.getSecrets(ep.tenantId, names);
+    }
+    catch (err) {
+      this.logger.error(
+        {
+          tenantId: ep.tenantId,
+          endpointId: ep.id,
+          error: err instanceof Error ? err.message : String(err),
+        },
+        "Secret lookup failed, request not sent",
+      );
+      return { status: "failed", durationMs: 0, errorMessage: "Failed to load secrets" };
+    }
+
+    const missing = names.find(name => !Object.hasOwn(secrets, name));
+    if (missing !== undefined) {
+      return { status: "failed", durationMs: 0, errorMessage: `Secret "${missing}" is not defined` };
+    }
+
+    const result = await this.inner.execute(resolveSecretReferences(ep, secrets));
+    return redactExecutionResult(result, Object.values(secrets));
+  }
+}
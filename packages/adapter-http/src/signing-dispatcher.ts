@@ -1,16 +1,22 @@
 /**
- * Signing Dispatcher — Decorator that adds HMAC-SHA256 signatures to outbound requests.
+ * Signing Dispatcher — Decorator that adds HMAC-SHA256 or Ed25519 signatures to outbound requests.
  *
  * Wraps any Dispatcher implementation and injects:
- * - X-Cronicorn-Signature: sha256=<hex-encoded HMAC>
+ * - X-Cronicorn-Signature: sha256=<hex HMAC> (v1), v2=<hex HMAC> (v2) or ed25519=<base64url>
+ *   (Ed25519), one per key during a rotation overlap
+ * - X-Cronicorn-Key-Id: <key id> (same order as the signatures; the `kid` in the tenant's JWKS)
+ * - X-Cronicorn-Signed-Headers: <header names> (v2 and Ed25519)
  * - X-Cronicorn-Timestamp: <unix-seconds>
  *
+ * v2 and Ed25519 signatures cover the method, path and query, and headers, so the endpoint's headers
+ * (plus the Content-Type HttpDispatcher would add) are fixed here before signing.
+ *
  * Fail-open: if key lookup fails, the request proceeds unsigned (availability over security).
  */
 
 import type { Clock, Dispatcher, ExecutionResult, JobEndpoint, Logger, SigningKeyProvider } from "@cronicorn/domain";
 
-import { computeSignature } from "@cronicorn/domain/signing";
+import { buildSignatureHeaders } from "@cronicorn/domain/signing";
 
 export class SigningDispatcher implements Dispatcher {
   constructor(
@@ -22,17 +28,27 @@ export class SigningDispatcher implements Dispatcher {
 
   async execute(ep: JobEndpoint): Promise<ExecutionResult> {
     try {
-      const key = await this.keyProvider.getKey(ep.tenantId);
-      if (key) {
+      const keys = await this.keyProvider.getKeys(ep.tenantId);
+      if (keys.length > 0) {
         const timestamp = Math.floor(this.clock.now().getTime() / 1000);
-        const body = ep.bodyJson ? JSON.stringify(ep.bodyJson) : "";
-        const signature = computeSignature(key, timestamp, body);
+        const method = ep.method ?? "GET";
+        const configuredBody = ep.bodyJson ? JSON.stringify(ep.bodyJson) : "";
+        // Mirror what HttpDispatcher sends, so v2 signatures cover the actual request
+        const headers = { ...(ep.headersJson ?? {}) };
+        if (ep.bodyJson && !Object.keys(headers).some(name => name.toLowerCase() === "content-type")) {
+          headers["Content-Type"] = "application/json";
+        }
         const signedEp: JobEndpoint = {
           ...ep,
           headersJson: {
-            ...(ep.headersJson ?? {}),
-            "X-Cronicorn-Signature": `sha256=${signature}`,
-            "X-Cronicorn-Timestamp": String(timestamp),
+            ...headers,
+            ...buildSignatureHeaders(keys, timestamp, {
+              method,
+              url: ep.url ?? "",
+              headers,
+              body: ["GET", "HEAD"].includes(method) ? "" : configuredBody,
+              v1Body: configuredBody,
+            }),
           },
         };
         return this.inner.execute(signedEp);
@@ -0,0 +1,72 @@
+/**
+ * Per-credential TLS agents for outbound mTLS and private CAs.
+ *
+ * Node's global fetch can't be given a client certificate or CA per request, so requests
+ * of endpoints with a TLS credential go through an undici Agent built from that
+ * credential. Agents keep their connection pools, so they're cached per tenant and
+ * credential, and rebuilt when the credential is replaced.
+ *
+ * A CA bundle replaces the default trust store for the credential's requests: the
+ * server's certificate must chain to one of its certificates.
+ */
+
+import type { TlsCredentialMaterial } from "@cronicorn/domain";
+
+import { Agent } from "undici";
+
+type CachedAgent = {
+  updatedAt: number;
+  agent: Agent;
+};
+
+export class TlsAgentPool {
+  /** Default number of cached agents; the least recently used one is closed beyond it */
+  static readonly DEFAULT_MAX_AGENTS = 100;
+
+  private readonly agents = new Map<string, CachedAgent>();
+
+  constructor(private readonly maxAgents: number = TlsAgentPool.DEFAULT_MAX_AGENTS) {}
+
+  /**
+   * The agent for a tenant's credential, built on first use and whenever the
+   * credential's updatedAt changes.
+   */
+  get(tenantId: string, name: string, material: TlsCredentialMaterial & { updatedAt: Date }): Agent {
+    const key = `${tenantId}:${name}`;
+    const updatedAt = material.updatedAt.getTime();
+    const cached = this.agents.get(key);
+    this.agents.delete(key);
+
+    if (cached?.updatedAt === updatedAt) {
+      this.agents.set(key, cached); // Most recently used last
+      return cached.agent;
+    }
+    if (cached) {
+      void cached.agent.close(); // Replaced: finishes in-flight requests, then closes
+    }
+
+    const agent = new Agent({
+      connect: {
+        cert: material.certificate,
+        key: material.privateKey,
+        ca: material.caBundle,
+      },
+    });
+    this.agents.set(key, { updatedAt, agent });
+
+    for (const [oldestKey, oldest] of this.agents) {
+      if (this.agents.size <= this.maxAgents)
+        break;
+      this.agents.delete(oldestKey);
+      void oldest.agent.close();
+    }
+    return agent;
+  }
+
+  /** Close all agents (on shutdown) */
+  async close(): Promise<void> {
+    const agents = [...this.agents.values()];
+    this.agents.clear();
+    await Promise.all(agents.map(({ agent }) => agent.close()));
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Tracing Dispatcher — Decorator that traces outbound requests.
+ *
+ * Wraps any Dispatcher implementation in an `HttpDispatcher.execute` client span and injects
+ * the span's W3C `traceparent` header, so services that understand trace context (our own
+ * API included) continue the trace. A `traceparent` set on the endpoint is left as is.
+ *
+ * Only the host is recorded, never the full URL: rendered URLs may carry secrets.
+ */
+
+import type { Dispatcher, ExecutionResult, JobEndpoint, Tracer } from "@cronicorn/domain";
+
+export class TracingDispatcher implements Dispatcher {
+  constructor(
+    private readonly inner: Dispatcher,
+    private readonly tracer: Tracer,
+  ) {}
+
+  async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+    return this.tracer.trace("HttpDispatcher.execute", async (span) => {
+      const hasTraceparent = Object.keys(ep.headersJson ?? {}).some(name => name.toLowerCase() === "traceparent");
+      const traced: JobEndpoint = span.traceparent && !hasTraceparent
+        ? { ...ep, headersJson: { ...(ep.headersJson ?? {}), traceparent: span.traceparent } }
+        : ep;
+
+      const result = await this.inner.execute(traced);
+      span.setAttributes({
+        "http.response.status_code": result.statusCode,
+        "cronicorn.run.status": result.status,
+        "error.type": result.errorClass,
+      });
+      return result;
+    }, {
+      kind: "client",
+      attributes: {
+        "http.request.method": ep.method ?? "GET",
+        "server.address": hostOf(ep.url),
+        "cronicorn.endpoint_id": ep.id,
+      },
+    });
+  }
+}
+
+function hostOf(url: string | undefined): string | undefined {
+  if (!url)
+    return undefined;
+  try {
+    return new URL(url).host;
+  }
+  catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,174 @@
+import type { AlertNotification, Clock, NotificationChannel, NotificationChannelConfig } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { computeSignature } from "@cronicorn/domain/signing";
+import nodemailer from "nodemailer";
+import { describe, expect, it, vi } from "vitest";
+
+import { ChannelNotificationSender } from "../channel-sender.js";
+import { EmailNotificationSender } from "../email-sender.js";
+import { EmailInvitationSender } from "../invitation-sender.js";
+import { SlackNotificationSender } from "../slack-sender.js";
+import { WebhookNotificationSender } from "../webhook-sender.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+const notification: AlertNotification = {
+  kind: "firing",
+  rule: { id: "rule-1", name: "Checkout failing", condition: { type: "failureStreak", threshold: 3 } },
+  endpoint: { id: "ep-1", name: "checkout-health", jobId: "job-1" },
+  summary: "3 consecutive failed runs (threshold 3)",
+  occurredAt: now,
+  runId: "run-9",
+};
+
+function channel(config: NotificationChannelConfig): NotificationChannel {
+  return { id: "ch-1", userId: "user-1", name: "ops", config, enabled: true, createdAt: now, updatedAt: now };
+}
+
+const clock: Clock = { now: () => now, sleep: () => Promise.resolve() };
+
+function okFetch() {
+  return vi.fn<typeof fetch>(async () => new Response(null, { status: 200 }));
+}
+
+describe("emailNotificationSender", () => {
+  it("sends a plain-text email with a link to the endpoint", async () => {
+    const transport = nodemailer.createTransport({ jsonTransport: true });
+    const sendMail = vi.spyOn(transport, "sendMail");
+    const sender = new EmailNotificationSender(
+      { host: "smtp.example.com", port: 587, secure: false, from: "alerts@example.com" },
+      { transport, appUrl: "https://app.example.com/" },
+    );
+
+    await sender.send(channel({ type: "email", to: ["ops@example.com", "dev@example.com"] }), notification);
+
+    expect(sendMail).toHaveBeenCalledWith({
+      from: "alerts@example.com",
+      to: ["ops@example.com", "dev@example.com"],
+      subject: "[Alert] Checkout failing: checkout-health",
+      text: [
+        "3 consecutive failed runs (threshold 3)",
+        "Endpoint: checkout-health",
+        "Rule: Checkout failing",
+        "Time: 2026-01-01T12:00:00.000Z",
+        "",
+        "https://app.example.com/endpoints/ep-1",
+      ].join("\n"),
+    });
+  });
+});
+
+describe("emailInvitationSender", () => {
+  it("sends the accept link to the invited address", async () => {
+    const transport = nodemailer.createTransport({ jsonTransport: true });
+    const sendMail = vi.spyOn(transport, "sendMail");
+    const sender = new EmailInvitationSender(
+      { host: "smtp.example.com", port: 587, secure: false, from: "team@example.com" },
+      { transport },
+    );
+
+    await sender.sendInvitation({
+      email: "ana@example.com",
+      orgName: "Acme",
+      role: "editor",
+      invitedByName: "Sam",
+      acceptUrl: "https://app.example.com/invitations/accept?token=abc",
+      expiresAt: now,
+    });
+
+    expect(sendMail).toHaveBeenCalledWith({
+      from: "team@example.com",
+      to: "ana@example.com",
+      subject: "You're invited to Acme on Cronicorn",
+      text: expect.stringContaining("Sam invited you to join Acme on Cronicorn as an editor.\n\nAccept the invitation:\nhttps://app.example.com/invitations/accept?token=abc"),
+    });
+  });
+});
+
+describe("slackNotificationSender", () => {
+  it("posts a message to the incoming webhook", async () => {
+    const fetch = okFetch();
+    const sender = new SlackNotificationSender({ fetch });
+
+    await sender.send(channel({ type: "slack", webhookUrl: "https://hooks.slack.com/services/T/B/x" }), { ...notification, kind: "resolved", summary: "Failure streak cleared" });
+
+    const [url, init] = fetch.mock.calls[0]!;
+    expect(url).toBe("https://hooks.slack.com/services/T/B/x");
+    expect(JSON.parse(String(init?.body))).toEqual({
+      text: "*[Resolved] Checkout failing: checkout-health*\nFailure streak cleared\nEndpoint: checkout-health\nRule: Checkout failing\nTime: 2026-01-01T12:00:00.000Z",
+    });
+  });
+
+  it("throws on a non-2xx response", async () => {
+    const sender = new SlackNotificationSender({ fetch: vi.fn<typeof fetch>(async () => new Response("invalid_token", { status: 403 })) });
+
+    await expect(sender.send(channel({ type: "slack", webhookUrl: "https://hooks.slack.com/services/T/B/x" }), notification))
+      .rejects
+      .toThrow("Slack webhook returned HTTP 403");
+  });
+});
+
+describe("webhookNotificationSender", () => {
+  const config = { type: "webhook", url: "https://hooks.example.com/alerts" } as const;
+
+  it("signs the JSON payload with the owner's signing key", async () => {
+    const fetch = okFetch();
+    const sender = new WebhookNotificationSender({ getKeys: async () => [{ id: "key-1", key: "k".repeat(64), algorithm: "hmac-sha256", version: "v1" }] }, new FakeLogger(), clock, { fetch, assertUrl: async () => {} });
+
+    await sender.send(channel(config), notification);
+
+    const [, init] = fetch.mock.calls[0]!;
+    const body = String(init?.body);
+    const timestamp = Math.floor(now.getTime() / 1000);
+    expect(JSON.parse(body)).toEqual({
+      type: "alert.firing",
+      rule: notification.rule,
+      endpoint: notification.endpoint,
+      summary: notification.summary,
+      occurredAt: "2026-01-01T12:00:00.000Z",
+      runId: "run-9",
+    });
+    expect(init?.headers).toMatchObject({
+      "X-Cronicorn-Event": "alert.firing",
+      "X-Cronicorn-Signature": `sha256=${computeSignature("k".repeat(64), timestamp, body)}`,
+      "X-Cronicorn-Key-Id": "key-1",
+      "X-Cronicorn-Timestamp": String(timestamp),
+    });
+  });
+
+  it("sends unsigned when the key lookup fails", async () => {
+    const fetch = okFetch();
+    const logger = new FakeLogger();
+    const sender = new WebhookNotificationSender({ getKeys: async () => {
+      throw new Error("db down");
+    } }, logger, clock, { fetch, assertUrl: async () => {} });
+
+    await sender.send(channel(config), notification);
+
+    expect(fetch.mock.calls[0]![1]?.headers).not.toHaveProperty("X-Cronicorn-Signature");
+    expect(logger.logs).toContainEqual(expect.objectContaining({ level: "warn" }));
+  });
+
+  it("refuses URLs that fail the SSRF check", async () => {
+    const fetch = okFetch();
+    const sender = new WebhookNotificationSender({ getKeys: async () => [] }, new FakeLogger(), clock, { fetch });
+
+    await expect(sender.send(channel({ type: "webhook", url: "http://127.0.0.1/hook" }), notification)).rejects.toThrow("URL not allowed");
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe("channelNotificationSender", () => {
+  it("routes by channel type and fails unconfigured types", async () => {
+    const slack = { send: vi.fn(async () => {}) };
+    const sender = new ChannelNotificationSender({ slack });
+
+    await sender.send(channel({ type: "slack", webhookUrl: "https://hooks.slack.com/services/T/B/x" }), notification);
+    expect(slack.send).toHaveBeenCalledTimes(1);
+
+    await expect(sender.send(channel({ type: "email", to: ["ops@example.com"] }), notification))
+      .rejects
+      .toThrow("No email delivery is configured");
+  });
+});
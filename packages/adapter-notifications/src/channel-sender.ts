@@ -0,0 +1,47 @@
+/**
+ * Routes each notification to the sender for its channel type.
+ */
+
+import type { AlertNotification, Clock, Logger, NotificationChannel, NotificationChannelType, NotificationSender, SigningKeyProvider } from "@cronicorn/domain";
+
+import type { SmtpConfig } from "./email-sender.js";
+
+import { EmailNotificationSender } from "./email-sender.js";
+import { SlackNotificationSender } from "./slack-sender.js";
+import { WebhookNotificationSender } from "./webhook-sender.js";
+
+export class ChannelNotificationSender implements NotificationSender {
+  /**
+   * @param senders - Sender per channel type; a missing type (e.g. email without SMTP configured) fails delivery
+   */
+  constructor(private readonly senders: Partial<Record<NotificationChannelType, NotificationSender>>) {}
+
+  async send(channel: NotificationChannel, notification: AlertNotification): Promise<void> {
+    const sender = this.senders[channel.config.type];
+    if (!sender) {
+      throw new Error(`No ${channel.config.type} delivery is configured`);
+    }
+    await sender.send(channel, notification);
+  }
+}
+
+export type NotificationSenderConfig = {
+  /** SMTP settings; email channels can't deliver without them */
+  smtp?: SmtpConfig;
+  /** Base URL of the web app, for links back to the endpoint */
+  appUrl?: string;
+  keyProvider: SigningKeyProvider;
+  logger: Logger;
+  clock: Clock;
+};
+
+/**
+ * Builds the production sender covering every channel type.
+ */
+export function createNotificationSender(config: NotificationSenderConfig): NotificationSender {
+  return new ChannelNotificationSender({
+    email: config.smtp ? new EmailNotificationSender(config.smtp, { appUrl: config.appUrl }) : undefined,
+    slack: new SlackNotificationSender({ appUrl: config.appUrl }),
+    webhook: new WebhookNotificationSender(config.keyProvider, config.logger, config.clock),
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * SMTP email delivery via nodemailer.
+ */
+
+import type { AlertNotification, NotificationChannel, NotificationSender } from "@cronicorn/domain";
+import type { Transporter } from "nodemailer";
+
+import nodemailer from "nodemailer";
+
+import { formatNotification } from "./format.js";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+};
+
+export type EmailSenderOptions = {
+  /** Base URL of the web app, for links back to the endpoint */
+  appUrl?: string;
+  /** Pre-built transport (tests use nodemailer's jsonTransport) */
+  transport?: Transporter;
+};
+
+export class EmailNotificationSender implements NotificationSender {
+  private readonly transport: Transporter;
+
+  constructor(private readonly smtp: SmtpConfig, private readonly opts: EmailSenderOptions = {}) {
+    this.transport = opts.transport ?? createSmtpTransport(smtp);
+  }
+
+  async send(channel: NotificationChannel, notification: AlertNotification): Promise<void> {
+    if (channel.config.type !== "email") {
+      throw new Error(`EmailNotificationSender cannot deliver to a ${channel.config.type} channel`);
+    }
+
+    const message = formatNotification(notification, this.opts.appUrl);
+    const text = [...message.lines, ...(message.link ? ["", message.link] : [])].join("\n");
+
+    await this.transport.sendMail({
+      from: this.smtp.from,
+      to: channel.config.to,
+      subject: message.title,
+      text,
+    });
+  }
+}
+
+export function createSmtpTransport(smtp: SmtpConfig): Transporter {
+  return nodemailer.createTransport({
+    host: smtp.host,
+    port: smtp.port,
+    secure: smtp.secure,
+    auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+  });
+}
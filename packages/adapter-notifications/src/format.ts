@@ -0,0 +1,53 @@
+/**
+ * Shared message formatting for notification channels.
+ */
+
+import type { AlertNotification } from "@cronicorn/domain";
+
+const KIND_PREFIX: Record<AlertNotification["kind"], string> = {
+  firing: "[Alert]",
+  reminder: "[Still failing]",
+  resolved: "[Resolved]",
+};
+
+export type FormattedNotification = {
+  title: string;
+  lines: string[];
+  /** Link to the endpoint in the web app, when an app URL is configured */
+  link?: string;
+};
+
+/**
+ * Builds the channel-neutral title and body lines for a notification.
+ *
+ * @param notification - The alert notification
+ * @param appUrl - Base URL of the web app, used to link to the endpoint
+ */
+export function formatNotification(notification: AlertNotification, appUrl?: string): FormattedNotification {
+  const { rule, endpoint } = notification;
+
+  return {
+    title: `${KIND_PREFIX[notification.kind]} ${rule.name}: ${endpoint.name}`,
+    lines: [
+      notification.summary,
+      `Endpoint: ${endpoint.name}`,
+      `Rule: ${rule.name}`,
+      `Time: ${notification.occurredAt.toISOString()}`,
+    ],
+    link: appUrl ? `${appUrl.replace(/\/+$/, "")}/endpoints/${encodeURIComponent(endpoint.id)}` : undefined,
+  };
+}
+
+/**
+ * JSON payload for webhook deliveries.
+ */
+export function toWebhookPayload(notification: AlertNotification): Record<string, unknown> {
+  return {
+    type: `alert.${notification.kind}`,
+    rule: notification.rule,
+    endpoint: notification.endpoint,
+    summary: notification.summary,
+    occurredAt: notification.occurredAt.toISOString(),
+    runId: notification.runId ?? null,
+  };
+}
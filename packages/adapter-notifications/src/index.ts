@@ -0,0 +1,12 @@
+export { ChannelNotificationSender, createNotificationSender } from "./channel-sender.js";
+export type { NotificationSenderConfig } from "./channel-sender.js";
+export { createSmtpTransport, EmailNotificationSender } from "./email-sender.js";
+export type { EmailSenderOptions, SmtpConfig } from "./email-sender.js";
+export { formatNotification, toWebhookPayload } from "./format.js";
+export type { FormattedNotification } from "./format.js";
+export { EmailInvitationSender } from "./invitation-sender.js";
+export type { InvitationSenderOptions } from "./invitation-sender.js";
+export { SlackNotificationSender } from "./slack-sender.js";
+export type { SlackSenderOptions } from "./slack-sender.js";
+export { WebhookNotificationSender } from "./webhook-sender.js";
+export type { WebhookSenderOptions } from "./webhook-sender.js";
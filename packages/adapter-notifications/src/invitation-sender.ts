@@ -0,0 +1,45 @@
+/**
+ * Organization invitation emails via SMTP.
+ */
+
+import type { InvitationSender, OrganizationInvitationMessage } from "@cronicorn/domain";
+import type { Transporter } from "nodemailer";
+
+import type { SmtpConfig } from "./email-sender.js";
+
+import { createSmtpTransport } from "./email-sender.js";
+
+export type InvitationSenderOptions = {
+  /** Pre-built transport (tests use nodemailer's jsonTransport) */
+  transport?: Transporter;
+};
+
+export class EmailInvitationSender implements InvitationSender {
+  private readonly transport: Transporter;
+
+  constructor(private readonly smtp: SmtpConfig, opts: InvitationSenderOptions = {}) {
+    this.transport = opts.transport ?? createSmtpTransport(smtp);
+  }
+
+  async sendInvitation(message: OrganizationInvitationMessage): Promise<void> {
+    const text = [
+      `${message.invitedByName} invited you to join ${message.orgName} on Cronicorn as ${article(message.role)} ${message.role}.`,
+      "",
+      "Accept the invitation:",
+      message.acceptUrl,
+      "",
+      `This link expires on ${message.expiresAt.toUTCString()}.`,
+    ].join("\n");
+
+    await this.transport.sendMail({
+      from: this.smtp.from,
+      to: message.email,
+      subject: `You're invited to ${message.orgName} on Cronicorn`,
+      text,
+    });
+  }
+}
+
+function article(word: string): string {
+  return /^[aeiou]/.test(word) ? "an" : "a";
+}
@@ -0,0 +1,40 @@
+/**
+ * Slack incoming-webhook delivery.
+ */
+
+import type { AlertNotification, NotificationChannel, NotificationSender } from "@cronicorn/domain";
+
+import { formatNotification } from "./format.js";
+
+export type SlackSenderOptions = {
+  /** Base URL of the web app, for links back to the endpoint */
+  appUrl?: string;
+  /** Request timeout (default: 10s) */
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+};
+
+export class SlackNotificationSender implements NotificationSender {
+  constructor(private readonly opts: SlackSenderOptions = {}) {}
+
+  async send(channel: NotificationChannel, notification: AlertNotification): Promise<void> {
+    if (channel.config.type !== "slack") {
+      throw new Error(`SlackNotificationSender cannot deliver to a ${channel.config.type} channel`);
+    }
+
+    const message = formatNotification(notification, this.opts.appUrl);
+    const link = message.link ? `\n<${message.link}|Open endpoint>` : "";
+    const doFetch = this.opts.fetch ?? fetch;
+
+    const response = await doFetch(channel.config.webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: `*${message.title}*\n${message.lines.join("\n")}${link}` }),
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 10_000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Slack webhook returned HTTP ${response.status}`);
+    }
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Generic HTTP webhook delivery, signed like outbound endpoint requests.
+ *
+ * POSTs a JSON payload with:
+ * - X-Cronicorn-Signature / X-Cronicorn-Key-Id: one HMAC per signing key
+ * - X-Cronicorn-Timestamp: <unix-seconds>
+ * - X-Cronicorn-Event: alert.firing | alert.reminder | alert.resolved
+ *
+ * Fail-open on key lookup (matching SigningDispatcher): the webhook is sent unsigned.
+ * Webhook URLs go through the same SSRF check as endpoint URLs.
+ */
+
+import type { AlertNotification, Clock, Logger, NotificationChannel, NotificationSender, SigningKeyProvider } from "@cronicorn/domain";
+
+import { assertUrlAllowed } from "@cronicorn/adapter-http";
+import { buildSignatureHeaders } from "@cronicorn/domain/signing";
+
+import { toWebhookPayload } from "./format.js";
+
+export type WebhookSenderOptions = {
+  /** Request timeout (default: 10s) */
+  timeoutMs?: number;
+  fetch?: typeof fetch;
+  /** SSRF check (default: assertUrlAllowed) */
+  assertUrl?: (url: string) => Promise<void>;
+};
+
+export class WebhookNotificationSender implements NotificationSender {
+  constructor(
+    private readonly keyProvider: SigningKeyProvider,
+    private readonly logger: Logger,
+    private readonly clock: Clock,
+    private readonly opts: WebhookSenderOptions = {},
+  ) {}
+
+  async send(channel: NotificationChannel, notification: AlertNotification): Promise<void> {
+    if (channel.config.type !== "webhook") {
+      throw new Error(`WebhookNotificationSender cannot deliver to a ${channel.config.type} channel`);
+    }
+
+    const url = channel.config.url;
+    await (this.opts.assertUrl ?? assertUrlAllowed)(url);
+
+    const body = JSON.stringify(toWebhookPayload(notification));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Cronicorn-Event": `alert.${notification.kind}`,
+    };
+
+    try {
+      const keys = await this.keyProvider.getKeys(channel.userId);
+      const timestamp = Math.floor(this.clock.now().getTime() / 1000);
+      Object.assign(headers, buildSignatureHeaders(keys, timestamp, { method: "POST", url, headers, body }));
+    }
+    catch (err) {
+      this.logger.warn(
+        { userId: channel.userId, error: err instanceof Error ? err.message : String(err) },
+        "Signing key lookup failed, sending webhook unsigned",
+      );
+    }
+
+    const doFetch = this.opts.fetch ?? fetch;
+    const response = await doFetch(url, {
+      method: "POST",
+      headers,
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(this.opts.timeoutMs ?? 10_000),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook returned HTTP ${response.status}`);
+    }
+  }
+}
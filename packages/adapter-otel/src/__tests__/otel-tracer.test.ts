@@ -0,0 +1,89 @@
+import { InMemorySpanExporter } from "@opentelemetry/sdk-trace-node";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+
+import { OtelTracer } from "../otel-tracer.js";
+import { traceMethods } from "../trace-methods.js";
+
+// The provider registers the global context manager, so all tests share one tracer
+const exporter = new InMemorySpanExporter();
+const tracer = new OtelTracer({ serviceName: "cronicorn-test", exporter });
+
+async function finishedSpans() {
+  await tracer.flush();
+  return exporter.getFinishedSpans();
+}
+
+afterAll(async () => {
+  await tracer.shutdown();
+});
+
+describe("otelTracer", () => {
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it("nests spans started inside another span", async () => {
+    await tracer.trace("Scheduler.tick", async () => {
+      await tracer.trace("Scheduler.handleEndpoint", async (span) => {
+        span.setAttributes({ "cronicorn.endpoint_id": "ep1", "cronicorn.run_id": undefined });
+      });
+    });
+
+    const [child, parent] = await finishedSpans();
+    expect(parent.name).toBe("Scheduler.tick");
+    expect(child.name).toBe("Scheduler.handleEndpoint");
+    expect(child.spanContext().traceId).toBe(parent.spanContext().traceId);
+    expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(child.attributes).toEqual({ "cronicorn.endpoint_id": "ep1" });
+    expect(parent.resource.attributes["service.name"]).toBe("cronicorn-test");
+  });
+
+  it("exposes the trace id and a traceparent for the span", async () => {
+    const seen = await tracer.trace("HttpDispatcher.execute", async span => ({ traceId: span.traceId, traceparent: span.traceparent }), { kind: "client" });
+
+    const [span] = await finishedSpans();
+    expect(seen.traceId).toBe(span.spanContext().traceId);
+    expect(seen.traceparent).toBe(`00-${span.spanContext().traceId}-${span.spanContext().spanId}-01`);
+  });
+
+  it("continues the trace of an incoming traceparent", async () => {
+    const incoming = "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01";
+
+    await tracer.trace("POST /api/triggers/:token", async () => {}, { kind: "server", traceparent: incoming });
+
+    const [span] = await finishedSpans();
+    expect(span.spanContext().traceId).toBe("4bf92f3577b34da6a3ce929d0e0e4736");
+    expect(span.parentSpanContext?.spanId).toBe("00f067aa0ba902b7");
+  });
+
+  it("records errors on the span and rethrows them", async () => {
+    await expect(tracer.trace("AIClient.planWithTools", async () => {
+      throw new Error("model unavailable");
+    })).rejects.toThrow("model unavailable");
+
+    const [span] = await finishedSpans();
+    expect(span.status).toEqual({ code: 2, message: "model unavailable" });
+    expect(span.events.map(e => e.name)).toEqual(["exception"]);
+  });
+});
+
+describe("traceMethods", () => {
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  it("wraps each method call in a span named after the port and method", async () => {
+    const repo = {
+      prefix: "run",
+      async create(id: string) {
+        return `${this.prefix}_${id}`;
+      },
+    };
+
+    const traced = traceMethods(repo, tracer, "RunsRepo");
+
+    await expect(traced.create("1")).resolves.toBe("run_1");
+    expect(traced.prefix).toBe("run");
+    expect((await finishedSpans()).map(s => s.name)).toEqual(["RunsRepo.create"]);
+  });
+});
@@ -0,0 +1,3 @@
+export { OtelTracer } from "./otel-tracer.js";
+export type { OtelTracerOptions } from "./otel-tracer.js";
+export { traceMethods } from "./trace-methods.js";
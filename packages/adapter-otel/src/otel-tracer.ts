@@ -0,0 +1,102 @@
+import type { Span, SpanAttributes, SpanOptions, Tracer } from "@cronicorn/domain";
+import type { Attributes, Tracer as OtelApiTracer, Span as OtelSpan } from "@opentelemetry/api";
+import type { SpanExporter } from "@opentelemetry/sdk-trace-node";
+
+import { context, defaultTextMapGetter, defaultTextMapSetter, ROOT_CONTEXT, SpanKind, SpanStatusCode, trace } from "@opentelemetry/api";
+import { W3CTraceContextPropagator } from "@opentelemetry/core";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { resourceFromAttributes } from "@opentelemetry/resources";
+import { BatchSpanProcessor, NodeTracerProvider } from "@opentelemetry/sdk-trace-node";
+import { ATTR_SERVICE_NAME } from "@opentelemetry/semantic-conventions";
+
+export type OtelTracerOptions = {
+  /** Reported as `service.name` on every span, e.g. "cronicorn-scheduler" */
+  serviceName: string;
+  /** Where spans go (default: OTLP over HTTP, configured by the standard `OTEL_EXPORTER_OTLP_*` variables) */
+  exporter?: SpanExporter;
+};
+
+const SPAN_KINDS = {
+  internal: SpanKind.INTERNAL,
+  client: SpanKind.CLIENT,
+  server: SpanKind.SERVER,
+} as const;
+
+const propagator = new W3CTraceContextPropagator();
+
+/**
+ * OpenTelemetry implementation of the Tracer port.
+ *
+ * Registers a Node tracer provider on construction, so spans nest through async calls
+ * and instrumentation libraries report into the same traces. Spans are batched and
+ * exported over OTLP; call `shutdown()` before exit to flush them.
+ */
+export class OtelTracer implements Tracer {
+  private readonly provider: NodeTracerProvider;
+  private readonly tracer: OtelApiTracer;
+
+  constructor(options: OtelTracerOptions) {
+    this.provider = new NodeTracerProvider({
+      resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: options.serviceName }),
+      spanProcessors: [new BatchSpanProcessor(options.exporter ?? new OTLPTraceExporter())],
+    });
+    this.provider.register();
+    this.tracer = this.provider.getTracer("cronicorn");
+  }
+
+  trace: Tracer["trace"] = async (name, fn, options: SpanOptions = {}) => {
+    const parent = options.traceparent
+      ? propagator.extract(ROOT_CONTEXT, { traceparent: options.traceparent }, defaultTextMapGetter)
+      : context.active();
+
+    return this.tracer.startActiveSpan(
+      name,
+      { kind: SPAN_KINDS[options.kind ?? "internal"], attributes: definedAttributes(options.attributes) },
+      parent,
+      async (span) => {
+        try {
+          return await fn(toPortSpan(span));
+        }
+        catch (error) {
+          span.recordException(error instanceof Error ? error : String(error));
+          span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : String(error) });
+          throw error;
+        }
+        finally {
+          span.end();
+        }
+      },
+    );
+  };
+
+  /**
+   * Export spans buffered so far.
+   */
+  async flush(): Promise<void> {
+    await this.provider.forceFlush();
+  }
+
+  /**
+   * Flush buffered spans and stop exporting.
+   */
+  async shutdown(): Promise<void> {
+    await this.provider.shutdown();
+  }
+}
+
+function toPortSpan(span: OtelSpan): Span {
+  return {
+    traceId: span.spanContext().traceId,
+    get traceparent() {
+      const carrier: Record<string, string> = {};
+      propagator.inject(trace.setSpan(ROOT_CONTEXT, span), carrier, defaultTextMapSetter);
+      return carrier.traceparent;
+    },
+    setAttributes: attributes => span.setAttributes(definedAttributes(attributes)),
+  };
+}
+
+/** OpenTelemetry rejects undefined attribute values; drop them */
+function definedAttributes(attributes: SpanAttributes = {}): Attributes {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,20 @@
+import type { Tracer } from "@cronicorn/domain";
+
+/**
+ * Wrap every method of an async port (e.g. a repository) in a span named
+ * `<name>.<method>`, e.g. `JobsRepo.claimDueEndpoints`.
+ *
+ * Calls the repository makes to its own methods are not traced, only calls through
+ * the returned wrapper. Meant for ports whose methods all return promises.
+ */
+export function traceMethods<T extends object>(target: T, tracer: Tracer, name: string): T {
+  return new Proxy(target, {
+    get(obj, prop, receiver) {
+      const value: unknown = Reflect.get(obj, prop, receiver);
+      if (typeof value !== "function" || typeof prop !== "string")
+        return value;
+
+      return async (...args: unknown[]) => tracer.trace(`${name}.${prop}`, async () => value.apply(obj, args));
+    },
+  });
+}
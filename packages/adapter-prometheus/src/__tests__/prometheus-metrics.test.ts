@@ -0,0 +1,66 @@
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { startMetricsServer } from "../metrics-server.js";
+import { PrometheusMetrics } from "../prometheus-metrics.js";
+
+describe("prometheusMetrics", () => {
+  it("renders counters and histograms with their labels", async () => {
+    const metrics = new PrometheusMetrics({ processMetrics: false, defaultLabels: { service: "scheduler" } });
+
+    metrics.counter({ name: "test_claimed_total", help: "Claimed endpoints" }).inc({}, 3);
+    metrics.histogram({ name: "test_dispatch_seconds", help: "Dispatch duration", labelNames: ["status"], buckets: [0.1, 1] })
+      .observe(0.5, { status: "success" });
+
+    const text = await metrics.render();
+
+    expect(text).toContain("# HELP test_claimed_total Claimed endpoints");
+    expect(text).toContain("test_claimed_total{service=\"scheduler\"} 3");
+    expect(text).toContain("test_dispatch_seconds_bucket{le=\"0.1\",service=\"scheduler\",status=\"success\"} 0");
+    expect(text).toContain("test_dispatch_seconds_bucket{le=\"1\",service=\"scheduler\",status=\"success\"} 1");
+    expect(text).toContain("test_dispatch_seconds_count{service=\"scheduler\",status=\"success\"} 1");
+  });
+
+  it("returns the existing instrument when created twice", async () => {
+    const metrics = new PrometheusMetrics({ processMetrics: false });
+
+    metrics.counter({ name: "test_runs_total", help: "Runs" }).inc();
+    metrics.counter({ name: "test_runs_total", help: "Runs" }).inc();
+
+    expect(await metrics.render()).toContain("test_runs_total 2");
+  });
+
+  it("includes process metrics by default", async () => {
+    const metrics = new PrometheusMetrics();
+
+    expect(await metrics.render()).toContain("process_cpu_user_seconds_total");
+  });
+});
+
+describe("startMetricsServer", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise(resolve => server?.close(resolve));
+    server = undefined;
+  });
+
+  it("serves metrics on GET /metrics and 404 elsewhere", async () => {
+    const metrics = new PrometheusMetrics({ processMetrics: false });
+    metrics.counter({ name: "test_served_total", help: "Served" }).inc();
+    server = await startMetricsServer(metrics, { port: 0, host: "127.0.0.1" }, new FakeLogger());
+    // eslint-disable-next-line ts/consistent-type-assertions
+    const { port } = server.address() as AddressInfo;
+
+    const res = await fetch(`http://127.0.0.1:${port}/metrics`);
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/plain");
+    expect(await res.text()).toContain("test_served_total 1");
+
+    const missing = await fetch(`http://127.0.0.1:${port}/`);
+    expect(missing.status).toBe(404);
+  });
+});
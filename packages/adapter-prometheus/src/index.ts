@@ -0,0 +1,4 @@
+export { startMetricsServer } from "./metrics-server.js";
+export type { MetricsServerOptions } from "./metrics-server.js";
+export { PrometheusMetrics } from "./prometheus-metrics.js";
+export type { PrometheusMetricsOptions } from "./prometheus-metrics.js";
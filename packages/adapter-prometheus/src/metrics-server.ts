@@ -0,0 +1,50 @@
+import type { Logger } from "@cronicorn/domain";
+import type { Server } from "node:http";
+
+import { createServer } from "node:http";
+
+import type { PrometheusMetrics } from "./prometheus-metrics.js";
+
+export type MetricsServerOptions = {
+  port: number;
+  /** Interface to listen on (default: all interfaces) */
+  host?: string;
+};
+
+/**
+ * Serve `GET /metrics` for Prometheus to scrape. Every other path returns 404.
+ *
+ * @returns The listening server; close it on shutdown
+ */
+export async function startMetricsServer(
+  metrics: PrometheusMetrics,
+  options: MetricsServerOptions,
+  logger: Logger,
+): Promise<Server> {
+  const server = createServer((req, res) => {
+    const path = req.url?.split("?")[0];
+    if (req.method !== "GET" || path !== "/metrics") {
+      res.writeHead(404, { "Content-Type": "text/plain" }).end("Not Found");
+      return;
+    }
+
+    metrics.render()
+      .then((body) => {
+        res.writeHead(200, { "Content-Type": metrics.contentType }).end(body);
+      })
+      .catch((err) => {
+        logger.error({ err }, "Failed to render metrics");
+        res.writeHead(500, { "Content-Type": "text/plain" }).end("Internal Server Error");
+      });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port, options.host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return server;
+}
@@ -0,0 +1,77 @@
+import type { Counter, Histogram, MetricOptions, Metrics } from "@cronicorn/domain";
+
+import { collectDefaultMetrics, Counter as PromCounter, Histogram as PromHistogram, Registry } from "prom-client";
+
+export type PrometheusMetricsOptions = {
+  /** Labels added to every sample, e.g. `{ service: "scheduler" }` */
+  defaultLabels?: Record<string, string>;
+  /** Also expose Node.js process metrics (CPU, memory, event loop lag) (default: true) */
+  processMetrics?: boolean;
+};
+
+/**
+ * Prometheus implementation of the Metrics port.
+ *
+ * Instruments are registered in a private registry, rendered in the Prometheus text
+ * exposition format by `render()`. Instruments are cached by name, so creating one twice
+ * returns the same instrument instead of failing registration.
+ */
+export class PrometheusMetrics implements Metrics {
+  readonly registry = new Registry();
+  private readonly counters = new Map<string, Counter>();
+  private readonly histograms = new Map<string, Histogram>();
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    if (options.defaultLabels)
+      this.registry.setDefaultLabels(options.defaultLabels);
+    if (options.processMetrics ?? true)
+      collectDefaultMetrics({ register: this.registry });
+  }
+
+  /** Content type of `render()` output */
+  get contentType(): string {
+    return this.registry.contentType;
+  }
+
+  counter: Metrics["counter"] = (options: MetricOptions): Counter => {
+    return cached(this.counters, options.name, () => {
+      const counter = new PromCounter({
+        name: options.name,
+        help: options.help,
+        labelNames: [...options.labelNames ?? []],
+        registers: [this.registry],
+      });
+      return { inc: (labels = {}, value = 1) => counter.inc(labels, value) };
+    });
+  };
+
+  histogram: Metrics["histogram"] = (options): Histogram => {
+    return cached(this.histograms, options.name, () => {
+      const histogram = new PromHistogram({
+        name: options.name,
+        help: options.help,
+        labelNames: [...options.labelNames ?? []],
+        ...(options.buckets ? { buckets: [...options.buckets] } : {}),
+        registers: [this.registry],
+      });
+      return { observe: (value, labels = {}) => histogram.observe(labels, value) };
+    });
+  };
+
+  /**
+   * Render all metrics in the Prometheus text exposition format.
+   */
+  async render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
+
+/** Returns the cached instrument of that name, creating it on first use */
+function cached<T>(cache: Map<string, T>, name: string, create: () => T): T {
+  let instrument = cache.get(name);
+  if (!instrument) {
+    instrument = create();
+    cache.set(name, instrument);
+  }
+  return instrument;
+}
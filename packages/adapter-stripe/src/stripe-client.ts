@@ -70,6 +70,8 @@ export class StripePaymentProvider implements PaymentProvider {
         userId: params.userId,
         tier: params.tier,
         billingPeriod: params.billingPeriod ?? "monthly",
+        // Webhooks bill the organization instead of the user when present
+        ...(params.orgId ? { orgId: params.orgId } : {}),
       },
       success_url: params.successUrl,
       cancel_url: params.cancelUrl,
@@ -0,0 +1,8 @@
+/**
+ * Audit Log API Contracts
+ *
+ * Shared Zod schemas for listing configuration and scheduling changes.
+ */
+
+export * as base from "./schemas.base.js";
+export * from "./schemas.base.js";
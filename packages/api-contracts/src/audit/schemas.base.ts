@@ -0,0 +1,77 @@
+/**
+ * Base Zod Schemas for the Audit Log (Pure)
+ *
+ * No OpenAPI decorations — usable by MCP server and web app.
+ */
+
+import { z } from "zod";
+
+// Mirrors AUDIT_ACTIONS and AUDIT_ACTOR_TYPES in @cronicorn/domain
+export const AuditActionBaseSchema = z.enum([
+  "job.created",
+  "job.updated",
+  "job.archived",
+  "job.paused",
+  "job.resumed",
+  "endpoint.created",
+  "endpoint.updated",
+  "endpoint.archived",
+  "endpoint.deleted",
+  "endpoint.paused",
+  "endpoint.resumed",
+  "endpoint.interval_hint",
+  "endpoint.one_shot_hint",
+  "endpoint.hints_cleared",
+  "endpoint.failures_reset",
+  "endpoint.run_requested",
+  "endpoint.trigger_token_created",
+  "endpoint.trigger_token_rotated",
+  "endpoint.trigger_token_revoked",
+  "signing_key.created",
+  "signing_key.rotated",
+  "signing_key.updated",
+]).describe("What changed");
+
+export const AuditActorTypeBaseSchema = z.enum(["user", "api_key", "device", "ai_session"])
+  .describe("How the change was made: web session, API key, device token (MCP/CLI) or AI planner session");
+
+export const ListAuditEventsQueryBaseSchema = z.object({
+  orgId: z.string().optional().describe("List the organization's events instead of personal ones (requires membership)"),
+  jobId: z.string().optional().describe("Filter by job ID"),
+  endpointId: z.string().optional().describe("Filter by endpoint ID"),
+  action: AuditActionBaseSchema.optional(),
+  actorType: AuditActorTypeBaseSchema.optional(),
+  since: z.coerce.date().optional().describe("Only events at or after this time (ISO 8601)"),
+  until: z.coerce.date().optional().describe("Only events before this time (ISO 8601)"),
+  limit: z.coerce.number().int().positive().max(100).optional().describe("Maximum number of events to return (default 50)"),
+  offset: z.coerce.number().int().nonnegative().optional().describe("Number of events to skip"),
+});
+
+export const AuditChangeBaseSchema = z.object({
+  field: z.string().describe("Changed field"),
+  before: z.unknown().describe("Value before the change (null when unset). Header values and ping tokens read [REDACTED]"),
+  after: z.unknown().describe("Value after the change (null when unset)"),
+});
+
+export const AuditEventResponseBaseSchema = z.object({
+  id: z.string().describe("Event ID"),
+  actor: z.object({
+    type: AuditActorTypeBaseSchema,
+    id: z.string().describe("User ID, API key ID, device session ID or AI session ID"),
+    userId: z.string().optional().describe("User behind the change (absent for AI sessions)"),
+  }),
+  action: AuditActionBaseSchema,
+  jobId: z.string().optional().describe("Changed job, or the job of the changed endpoint"),
+  endpointId: z.string().optional().describe("Changed endpoint"),
+  changes: z.array(AuditChangeBaseSchema).describe("Changed fields with before/after values"),
+  createdAt: z.string().datetime().describe("When the change was made"),
+});
+
+export const ListAuditEventsResponseBaseSchema = z.object({
+  events: z.array(AuditEventResponseBaseSchema),
+  total: z.number().int().describe("Number of events matching the filters"),
+});
+
+// Summaries and descriptions for route registration
+export const ListAuditEventsSummary = "List audit events";
+export const ListAuditEventsDescription = "Lists configuration and scheduling changes, newest first: job and endpoint edits, pauses, AI hints, failure resets and signing key rotations, each with who made it and the before/after values of the changed fields. Pass `orgId` for an organization's history (any member can read it).";
@@ -0,0 +1,8 @@
+/**
+ * Auth Profiles API Contracts
+ *
+ * Shared Zod schemas for OAuth2 client credentials used to authenticate outbound requests.
+ */
+
+export * as base from "./schemas.base.js";
+export * from "./schemas.base.js";
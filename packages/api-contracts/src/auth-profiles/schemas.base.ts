@@ -0,0 +1,64 @@
+/**
+ * Base Zod Schemas for Auth Profiles (Pure)
+ *
+ * No OpenAPI decorations — usable by MCP server and web app.
+ * The client secret is write-only: no response schema includes it.
+ */
+
+import { z } from "zod";
+
+// Mirrors AUTH_PROFILE_NAME_PATTERN in @cronicorn/domain
+export const AuthProfileNameBaseSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, "Use lower-case letters, digits, dashes and underscores (e.g. billing-api), starting with a letter or digit")
+  .describe("Auth profile name, referenced from endpoints as authProfileName");
+
+export const AuthProfileTypeBaseSchema = z
+  .enum(["oauth2-client-credentials"])
+  .describe("oauth2-client-credentials: OAuth2 client credentials grant");
+
+export const SetAuthProfileRequestBaseSchema = z.object({
+  type: AuthProfileTypeBaseSchema.default("oauth2-client-credentials"),
+  tokenUrl: z
+    .string()
+    .url()
+    .max(2048)
+    .refine(url => url.startsWith("https://"), "tokenUrl must use https")
+    .describe("Token endpoint of the authorization server, e.g. https://auth.example.com/oauth/token"),
+  clientId: z.string().min(1).max(512).describe("OAuth2 client id"),
+  clientSecret: z.string().min(1).max(4096).describe("OAuth2 client secret. Stored encrypted and never returned; send it again when replacing the profile"),
+  scopes: z
+    .array(z.string().min(1).max(256).regex(/^\S+$/, "Scopes can't contain spaces"))
+    .max(50)
+    .default([])
+    .describe("Scopes to request, sent space-separated as `scope`"),
+  audience: z.string().min(1).max(2048).nullable().optional().describe("Sent as `audience`, for providers that require it (e.g. Auth0)"),
+});
+
+export const AuthProfileResponseBaseSchema = z.object({
+  name: z.string().describe("Profile name"),
+  type: AuthProfileTypeBaseSchema,
+  tokenUrl: z.string().describe("Token endpoint"),
+  clientId: z.string().describe("OAuth2 client id"),
+  scopes: z.array(z.string()).describe("Requested scopes"),
+  audience: z.string().nullable().describe("Requested audience"),
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+  updatedAt: z.string().datetime().describe("Last time the profile was saved"),
+});
+
+export const ListAuthProfilesResponseBaseSchema = z.object({
+  profiles: z.array(AuthProfileResponseBaseSchema),
+});
+
+// Summaries and descriptions for route registration
+export const ListAuthProfilesSummary = "List auth profiles";
+export const ListAuthProfilesDescription = "Lists the user's auth profiles (OAuth2 client credentials) with their token URL, client id, scopes and audience. Client secrets are never returned.";
+
+export const GetAuthProfileSummary = "Get auth profile";
+export const GetAuthProfileDescription = "Returns an auth profile's settings. The client secret is never returned.";
+
+export const SetAuthProfileSummary = "Set auth profile";
+export const SetAuthProfileDescription = "Creates an auth profile, or replaces all of its settings including the client secret. Endpoints whose authProfileName names it get an access token from the token URL with the OAuth2 client credentials grant, sent as `Authorization: Bearer ...`. Saving discards cached tokens. Returns 201 when created, 200 when replaced.";
+
+export const DeleteAuthProfileSummary = "Delete auth profile";
+export const DeleteAuthProfileDescription = "Deletes an auth profile. Endpoints that still reference it fail with `Auth profile \"NAME\" is not defined` until it's created again.";
@@ -52,6 +52,17 @@ export const DashboardStatsResponseBaseSchema = z.object({
     avgDurationMs: z.number().nullable(),
   }),
 
+  schedulingLag: z.array(
+    z.object({
+      jobId: z.string(),
+      jobName: z.string(),
+      runCount: z.number().int().nonnegative(),
+      p50LagMs: z.number().int(),
+      p95LagMs: z.number().int(),
+      p99LagMs: z.number().int(),
+    }),
+  ),
+
   sourceDistribution: z.array(
     z.object({
       source: z.string(),
@@ -120,6 +131,7 @@ export const DashboardStatsResponseBaseSchema = z.object({
 // ==================== Dashboard Query Schema ====================
 
 export const DashboardStatsQueryBaseSchema = z.object({
+  orgId: z.string().optional(),
   jobId: z.string().optional(),
   source: z.string().optional(),
   startDate: z.coerce.date(),
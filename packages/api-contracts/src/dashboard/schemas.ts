@@ -111,6 +111,35 @@ export const DashboardStatsResponseSchema = z.object({
     description: "Aggregated metrics for filtered runs",
   }),
 
+  schedulingLag: z.array(
+    z.object({
+      jobId: z.string().openapi({
+        description: "Job ID",
+      }),
+      jobName: z.string().openapi({
+        description: "Job name",
+      }),
+      runCount: z.number().int().nonnegative().openapi({
+        description: "Runs with a recorded lag",
+        example: 287,
+      }),
+      p50LagMs: z.number().int().openapi({
+        description: "Median time between when runs were due and when they started, in milliseconds",
+        example: 180,
+      }),
+      p95LagMs: z.number().int().openapi({
+        description: "95th percentile scheduling lag in milliseconds",
+        example: 1200,
+      }),
+      p99LagMs: z.number().int().openapi({
+        description: "99th percentile scheduling lag in milliseconds",
+        example: 4500,
+      }),
+    }),
+  ).openapi({
+    description: "Scheduling lag percentiles per job (filtered), slowest first",
+  }),
+
   sourceDistribution: z.array(
     z.object({
       source: z.string().openapi({
@@ -219,6 +248,10 @@ export const DashboardStatsResponseSchema = z.object({
 // ==================== Dashboard Query Schema ====================
 
 export const DashboardStatsQuerySchema = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Show the organization's jobs instead of personal ones (optional, requires membership)",
+    example: "org_4f9c2a1e-8b7d-4c3a-9e1f-2d6b5a8c7e90",
+  }),
   jobId: z.string().optional().openapi({
     description: "Filter by job ID (optional)",
     example: "job_123abc",
@@ -309,6 +342,38 @@ export const ActivityEventSchema = z.object({
   description: "An activity event (run or AI session)",
 });
 
+/**
+ * An occurrence of a job or endpoint blackout window within the timeline range.
+ */
+export const BlackoutPeriodSchema = z.object({
+  start: z.string().datetime().openapi({
+    description: "Window start (ISO 8601)",
+    example: "2025-10-19T00:00:00.000Z",
+  }),
+  end: z.string().datetime().openapi({
+    description: "Window end (ISO 8601)",
+    example: "2025-10-19T02:00:00.000Z",
+  }),
+  name: z.string().optional().openapi({
+    description: "Window name",
+    example: "Sunday maintenance",
+  }),
+  description: z.string().openapi({
+    description: "Summary of the window's days, times and timezone",
+    example: "Sunday maintenance: Sun 02:00-04:00 (Europe/Berlin)",
+  }),
+  endpointId: z.string().optional().openapi({
+    description: "Endpoint the window is set on (unset for job-wide windows)",
+    example: "ep_abc123",
+  }),
+  endpointName: z.string().optional().openapi({
+    description: "Name of the endpoint the window is set on",
+    example: "Health Check",
+  }),
+}).openapi({
+  description: "A blackout period in which no runs start",
+});
+
 export const JobActivityTimelineQuerySchema = z.object({
   startDate: z.coerce.date().openapi({
     description: "Start date for filtering activity events (ISO 8601 format). Required.",
@@ -338,6 +403,9 @@ export const JobActivityTimelineResponseSchema = z.object({
   events: z.array(ActivityEventSchema).openapi({
     description: "Combined timeline of runs and AI sessions, ordered by timestamp descending",
   }),
+  blackouts: z.array(BlackoutPeriodSchema).openapi({
+    description: "Blackout periods of the job and its endpoints within the date range, ordered by start (only when jobId is given; max 100)",
+  }),
   total: z.number().int().nonnegative().openapi({
     description: "Total count of events matching the filter",
     example: 150,
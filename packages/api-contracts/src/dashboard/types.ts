@@ -2,6 +2,7 @@ import type { z } from "@hono/zod-openapi";
 
 import type {
   ActivityEventSchema,
+  BlackoutPeriodSchema,
   DashboardStatsQuerySchema,
   DashboardStatsResponseSchema,
   JobActivityTimelineQuerySchema,
@@ -22,6 +23,7 @@ export type RunTimeSeriesPoint = DashboardStatsResponse["runTimeSeries"][number]
 export type EndpointTimeSeriesPoint = DashboardStatsResponse["endpointTimeSeries"][number];
 export type JobHealthItem = DashboardStatsResponse["jobHealth"][number];
 export type FilteredMetrics = DashboardStatsResponse["filteredMetrics"];
+export type JobLagItem = DashboardStatsResponse["schedulingLag"][number];
 export type SourceDistributionItem = DashboardStatsResponse["sourceDistribution"][number];
 export type AISessionTimeSeriesPoint = DashboardStatsResponse["aiSessionTimeSeries"][number];
 
@@ -29,3 +31,4 @@ export type AISessionTimeSeriesPoint = DashboardStatsResponse["aiSessionTimeSeri
 export type JobActivityTimelineQuery = z.infer<typeof JobActivityTimelineQuerySchema>;
 export type JobActivityTimelineResponse = z.infer<typeof JobActivityTimelineResponseSchema>;
 export type ActivityEvent = z.infer<typeof ActivityEventSchema>;
+export type BlackoutPeriod = z.infer<typeof BlackoutPeriodSchema>;
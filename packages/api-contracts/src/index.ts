@@ -46,8 +46,14 @@
  * ```
  */
 
+export * as audit from "./audit/index.js";
+export * as authProfiles from "./auth-profiles/index.js";
 export * as dashboard from "./dashboard/index.js";
 export * as jobs from "./jobs/index.js";
+export * as notifications from "./notifications/index.js";
+export * as orgs from "./orgs/index.js";
+export * as secrets from "./secrets/index.js";
 export * as sessions from "./sessions/index.js";
 export * as signingKeys from "./signing-keys/index.js";
 export * as subscriptions from "./subscriptions/index.js";
+export * as tlsCredentials from "./tls-credentials/index.js";
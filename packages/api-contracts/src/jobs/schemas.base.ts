@@ -25,24 +25,63 @@ function validateCronExpression(expr: string): boolean {
   }
 }
 
+function validateTimezone(tz: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
+
+// ==================== Blackout Window Schemas ====================
+
+export const BlackoutWindowBaseSchema = z.object({
+  name: z.string().max(100).optional().describe("Label shown in the UI and the AI planner prompt"),
+  timezone: z
+    .string()
+    .optional()
+    .refine(
+      val => !val || validateTimezone(val),
+      { message: "Invalid timezone. Use an IANA timezone name (e.g. \"Europe/Berlin\")" },
+    )
+    .describe("IANA timezone the days and times are in (default: UTC)"),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional().describe("Days of the week, 0 (Sunday) to 6 (Saturday)"),
+  dates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).max(366).optional().describe("Specific \"YYYY-MM-DD\" dates. Max: 366"),
+  calendar: z.enum(["us-federal-holidays"]).optional().describe("Built-in holiday calendar; weekend holidays also cover their observed weekday"),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("\"HH:MM\" local start. Omit with endTime to cover whole days"),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("\"HH:MM\" local end. An end at or before the start ends the next day"),
+}).refine(
+  data => (data.startTime === undefined) === (data.endTime === undefined),
+  { message: "Provide both startTime and endTime, or neither to cover whole days", path: ["endTime"] },
+);
+
+export const BlackoutWindowsBaseSchema = z.array(BlackoutWindowBaseSchema).max(20);
+
 // ==================== Job Lifecycle Schemas ====================
 
 export const CreateJobRequestBaseSchema = z.object({
   name: z.string().min(1).max(255).describe("Job name"),
   description: z.string().max(1000).optional().describe("Job description"),
+  orgId: z.string().optional().describe("Organization that owns the job (requires the editor role). Omit for a personal job"),
+  blackoutWindows: BlackoutWindowsBaseSchema.optional().describe("Recurring periods in which none of the job's http endpoints start a run. Max: 20"),
 });
 
 export const UpdateJobRequestBaseSchema = z.object({
   name: z.string().min(1).max(255).optional().describe("Job name"),
   description: z.string().max(1000).optional().describe("Job description"),
+  blackoutWindows: BlackoutWindowsBaseSchema.optional().describe("Replaces the job's blackout windows (empty list clears)"),
 });
 
 export const JobResponseBaseSchema = z.object({
   id: z.string().describe("Job ID"),
-  userId: z.string().describe("User ID"),
+  userId: z.string().describe("User ID of the creator"),
+  orgId: z.string().optional().describe("Owning organization, if the job isn't personal"),
   name: z.string().describe("Job name"),
   description: z.string().optional().describe("Job description"),
   status: z.enum(["active", "paused", "archived"]).describe("Job status"),
+  blackoutWindows: BlackoutWindowsBaseSchema.optional().describe("Blackout windows applying to every http endpoint in the job"),
   createdAt: z.string().datetime().describe("Creation timestamp"),
   updatedAt: z.string().datetime().describe("Last update timestamp"),
   archivedAt: z.string().datetime().optional().describe("Archive timestamp"),
@@ -54,6 +93,46 @@ export const JobWithCountResponseBaseSchema = JobResponseBaseSchema.extend({
 
 // ==================== Endpoint Orchestration Schemas ====================
 
+export const RetryPolicyBaseSchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).describe("Total attempts per run, including the first (1 = no retries). Max: 10"),
+  backoff: z.enum(["fixed", "exponential", "jittered"]).describe("Delay between attempts: fixed, exponential (doubling from initialDelayMs), or jittered (random up to the exponential delay)"),
+  initialDelayMs: z.number().int().nonnegative().max(300000).describe("Delay before the first retry in milliseconds. Max: 300000 (5 minutes)"),
+  maxDelayMs: z.number().int().positive().max(300000).optional().describe("Upper bound for any single delay, including Retry-After, in milliseconds (default: 60000)"),
+  retryOnStatusCodes: z.array(z.number().int().min(100).max(599)).optional().describe("HTTP status codes to retry (default: 408, 425, 429, 500, 502, 503, 504)"),
+  retryOnErrors: z.array(z.enum(["timeout", "network"])).optional().describe("Failures without an HTTP response to retry (default: timeout and network)"),
+  respectRetryAfter: z.boolean().optional().describe("Wait at least the Retry-After response header when present (default: true). Retrying stops if it exceeds maxDelayMs"),
+}).refine(
+  data => data.maxDelayMs === undefined || data.maxDelayMs >= data.initialDelayMs,
+  { message: "maxDelayMs must be greater than or equal to initialDelayMs", path: ["maxDelayMs"] },
+);
+
+export const MisfirePolicyBaseSchema = z.object({
+  mode: z.enum(["skip", "run-once", "run-all"]).describe("What happens to occurrences missed while the scheduler was down or behind: skip them, run once for the latest, or run each of them in order"),
+  maxBacklog: z.number().int().min(1).max(100).optional().describe("run-all only: most missed occurrences replayed; older ones are skipped. Default: 10. Max: 100"),
+  thresholdMs: z.number().int().nonnegative().max(86400000).optional().describe("How late a run must be to count as missed, in milliseconds. Default: 60000 (1 minute). Max: 86400000 (24 hours)"),
+}).refine(
+  data => data.maxBacklog === undefined || data.mode === "run-all",
+  { message: "maxBacklog only applies to run-all", path: ["maxBacklog"] },
+);
+
+export const ResponseAssertionBaseSchema = z.object({
+  path: z.string().min(1).describe("JSONPath (e.g. \"$.checks[0].status\") or JSON pointer (e.g. \"/checks/0/status\") into the JSON response body"),
+  operator: z.enum(["exists", "notExists", "equals", "notEquals", "contains", "matches", "gt", "gte", "lt", "lte"]).describe("Comparison: exists/notExists, equals/notEquals (deep JSON equality), contains (substring or array element), matches (regex up to 256 characters, without nested quantifiers or backreferences, tested against strings up to 4096 characters), gt/gte/lt/lte (numeric)"),
+  value: z.any().optional().describe("Expected value (not used by exists/notExists)"),
+});
+
+export const SuccessCriteriaBaseSchema = z.object({
+  statusCodes: z.array(z.string()).optional().describe("Accepted HTTP statuses as codes (\"204\"), classes (\"2xx\") or ranges (\"200-299\"). Default: any 2xx"),
+  maxLatencyMs: z.number().int().positive().optional().describe("Responses slower than this fail the run"),
+  assertions: z.array(ResponseAssertionBaseSchema).max(20).optional().describe("Assertions on the JSON response body; all must hold. Max: 20"),
+});
+
+export const EndpointDependenciesBaseSchema = z.object({
+  upstreamIds: z.array(z.string()).max(20).describe("IDs of upstream endpoints in the same job. An empty list removes the dependencies. Max: 20"),
+  mode: z.enum(["all", "any"]).describe("\"all\": run once every upstream has succeeded since this endpoint last ran; \"any\": run when any upstream succeeds"),
+  delayMs: z.number().int().nonnegative().max(86400000).optional().describe("Wait after the triggering upstream finishes, in milliseconds. Default: 0. Max: 86400000 (24 hours)"),
+});
+
 const EndpointFieldsBaseSchemaShape = {
   name: z.string().min(1).max(255).describe("Endpoint name"),
   description: z.string().max(2000).optional().describe("Endpoint-specific context: what it does, response schema, thresholds, coordination logic"),
@@ -66,15 +145,34 @@ const EndpointFieldsBaseSchemaShape = {
     )
     .describe("Baseline cron expression (standard 5-field format)"),
   baselineIntervalMs: z.number().int().positive().optional().describe("Baseline interval in milliseconds"),
+  timezone: z
+    .string()
+    .nullable()
+    .optional()
+    .refine(
+      val => !val || validateTimezone(val),
+      { message: "Invalid timezone. Use an IANA timezone name (e.g. \"America/New_York\")" },
+    )
+    .describe("IANA timezone used to evaluate baselineCron (default: UTC). Schedules follow local wall-clock time across DST changes. null or an empty string goes back to UTC."),
   minIntervalMs: z.number().int().positive().optional().describe("Minimum interval in milliseconds"),
   maxIntervalMs: z.number().int().positive().optional().describe("Maximum interval in milliseconds"),
-  url: z.string().url().describe("HTTP endpoint URL"),
+  kind: z.enum(["http", "heartbeat"]).default("http").describe("Endpoint kind: \"http\" endpoints are called on schedule; \"heartbeat\" endpoints receive check-ins on a ping URL and fail when one is missed. Can't be changed after creation."),
+  graceMs: z.number().int().nonnegative().max(604800000).optional().describe("Heartbeat only: how late a check-in may arrive before it counts as missed. Default: 300000 (5 minutes). Max: 604800000 (7 days)"),
+  url: z.string().url().optional().describe("HTTP endpoint URL (required for http endpoints). May contain {{ }} templates resolved at dispatch time"),
   method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).default("GET").describe("HTTP method"),
-  headersJson: z.record(z.string(), z.string()).optional().describe("HTTP headers as key-value pairs"),
-  bodyJson: z.any().optional().describe("Request body (JSON)"),
+  headersJson: z.record(z.string(), z.string()).optional().describe("HTTP headers as key-value pairs. Values may contain {{ }} templates"),
+  bodyJson: z.any().optional().describe("Request body (JSON). String values may contain {{ }} templates; a string that is a single template is replaced by the raw JSON value"),
   timeoutMs: z.number().int().positive().optional().describe("Request timeout in milliseconds"),
   maxExecutionTimeMs: z.number().int().positive().max(1800000).optional().describe("Maximum expected execution time in milliseconds (for lock duration). Default: 60000 (1 minute). Max: 1800000 (30 minutes)."),
   maxResponseSizeKb: z.number().int().positive().optional().describe("Maximum response size in kilobytes"),
+  retryPolicy: RetryPolicyBaseSchema.optional().describe("In-run retry policy. Failed attempts are retried within the same run before it is recorded as failed. Omit for a single attempt."),
+  successCriteria: SuccessCriteriaBaseSchema.optional().describe("What counts as a successful run: accepted status codes, max latency and JSON body assertions. Failing criteria fail the run. Default: any 2xx"),
+  runAfter: EndpointDependenciesBaseSchema.optional().describe("Upstream endpoints in the same job whose success triggers a run of this endpoint (http endpoints only). The baseline schedule keeps running as a fallback."),
+  blackoutWindows: BlackoutWindowsBaseSchema.optional().describe("Recurring periods in which no run starts, on top of the job's (http endpoints only). Runs due inside one move to its end. Max: 20; an empty list clears"),
+  misfirePolicy: MisfirePolicyBaseSchema.optional().describe("How missed scheduled runs are caught up after downtime (http endpoints only). Unset: a late run runs once as a normal scheduled run"),
+  concurrencyPolicy: z.enum(["allow", "forbid", "replace"]).optional().describe("What happens when a run is due while an earlier run is still running (http endpoints only): allow starts it anyway, forbid skips it (recorded as a canceled run with the reason), replace cancels the earlier run. Applies to scheduled, run-now, trigger and test runs. Default: allow"),
+  tlsCredentialName: z.string().regex(/^(?:[a-z0-9][a-z0-9_-]{0,63})?$/, "Must be the name of a TLS credential").optional().describe("TLS credential (client certificate and/or CA bundle) the request connects with, for servers that require mutual TLS or use a private CA (http endpoints only). An empty string clears. Requests fail with `TLS credential \"NAME\" is not defined` while the credential doesn't exist"),
+  authProfileName: z.string().regex(/^(?:[a-z0-9][a-z0-9_-]{0,63})?$/, "Must be the name of an auth profile").optional().describe("Auth profile whose OAuth2 access token is sent as `Authorization: Bearer ...` (http endpoints only), replacing any configured Authorization header. Tokens are cached until shortly before expiry, and a 401 response is retried once with a new token. An empty string clears"),
 };
 
 export const EndpointFieldsBaseSchema = z.object(EndpointFieldsBaseSchemaShape);
@@ -96,6 +194,12 @@ export const AddEndpointRequestBaseSchema = EndpointFieldsWithValidationBaseSche
     message: "Provide either baselineCron or baselineIntervalMs, but not both.",
     path: ["baselineCron"],
   },
+).refine(
+  data => data.kind === "heartbeat" || data.url,
+  {
+    message: "url is required for http endpoints",
+    path: ["url"],
+  },
 );
 
 export const UpdateEndpointRequestBaseSchema = EndpointFieldsBaseSchema.partial().refine(
@@ -113,6 +217,7 @@ export const EndpointResponseBaseSchema = z.object({
   description: z.string().optional().describe("Endpoint description"),
   baselineCron: z.string().optional().describe("Baseline cron expression"),
   baselineIntervalMs: z.number().optional().describe("Baseline interval in milliseconds"),
+  timezone: z.string().optional().describe("IANA timezone for baselineCron (UTC when unset)"),
   minIntervalMs: z.number().optional().describe("Minimum interval in milliseconds"),
   maxIntervalMs: z.number().optional().describe("Maximum interval in milliseconds"),
   nextRunAt: z.string().datetime().describe("Next scheduled run time"),
@@ -120,6 +225,9 @@ export const EndpointResponseBaseSchema = z.object({
   failureCount: z.number().int().describe("Consecutive failure count"),
   pausedUntil: z.string().datetime().optional().describe("Pause expiration time"),
   archivedAt: z.string().datetime().optional().describe("Archive timestamp (soft delete)"),
+  kind: z.enum(["http", "heartbeat"]).describe("Endpoint kind"),
+  pingToken: z.string().optional().describe("Heartbeat only: token in the ping URL (POST /api/ping/{token})"),
+  graceMs: z.number().optional().describe("Heartbeat only: allowed check-in lateness in milliseconds (5 minutes when unset)"),
   url: z.string().optional().describe("HTTP endpoint URL"),
   method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).optional().describe("HTTP method"),
   headersJson: z.record(z.string(), z.string()).optional().describe("HTTP headers"),
@@ -127,6 +235,14 @@ export const EndpointResponseBaseSchema = z.object({
   timeoutMs: z.number().optional().describe("Request timeout in milliseconds"),
   maxExecutionTimeMs: z.number().optional().describe("Maximum execution time in milliseconds"),
   maxResponseSizeKb: z.number().optional().describe("Maximum response size in kilobytes"),
+  retryPolicy: RetryPolicyBaseSchema.optional().describe("In-run retry policy (single attempt when unset)"),
+  successCriteria: SuccessCriteriaBaseSchema.optional().describe("Success rules (any 2xx when unset)"),
+  runAfter: EndpointDependenciesBaseSchema.optional().describe("Upstream endpoints whose success triggers a run (none when unset)"),
+  blackoutWindows: BlackoutWindowsBaseSchema.optional().describe("The endpoint's own blackout windows (the job's apply as well)"),
+  misfirePolicy: MisfirePolicyBaseSchema.optional().describe("Catch-up for missed scheduled runs (none when unset)"),
+  concurrencyPolicy: z.enum(["allow", "forbid", "replace"]).optional().describe("Overlapping runs: allow, forbid or replace (allow when unset)"),
+  tlsCredentialName: z.string().optional().describe("TLS credential the request connects with (default TLS when unset)"),
+  authProfileName: z.string().optional().describe("Auth profile whose access token the request sends (headers as configured when unset)"),
   aiHintIntervalMs: z.number().int().optional().describe("AI-suggested interval in milliseconds. If both interval and one-shot hints are active, the earliest scheduled time wins."),
   aiHintNextRunAt: z.string().datetime().optional().describe("AI-suggested next run time (one-shot). If both interval and one-shot hints are active, the earliest scheduled time wins."),
   aiHintExpiresAt: z.string().datetime().optional().describe("When the AI hint expires"),
@@ -172,6 +288,8 @@ export const RunSummaryResponseBaseSchema = z.object({
   status: z.string().describe("Run status"),
   durationMs: z.number().optional().describe("Execution duration in milliseconds"),
   source: z.string().optional().describe("Scheduling source that triggered this run"),
+  scheduledFor: z.string().datetime().optional().describe("When the run was due: its scheduled time, or the missed occurrence a catch-up run stands in for"),
+  lagMs: z.number().int().optional().describe("How long after it was due the run started, in milliseconds (negative when started early)"),
 });
 
 export const ListRunsResponseBaseSchema = z.object({
@@ -179,6 +297,16 @@ export const ListRunsResponseBaseSchema = z.object({
   total: z.number().int().describe("Total number of runs matching filters"),
 });
 
+export const RunAttemptResponseBaseSchema = z.object({
+  attempt: z.number().int().describe("Attempt number within the run (1-based)"),
+  startedAt: z.string().datetime().describe("Attempt start time"),
+  status: z.enum(["success", "failed"]).describe("Attempt result"),
+  durationMs: z.number().describe("Attempt duration in milliseconds"),
+  statusCode: z.number().int().optional().describe("HTTP status code"),
+  errorMessage: z.string().optional().describe("Error message if the attempt failed"),
+  delayMs: z.number().optional().describe("Delay before the next attempt in milliseconds"),
+});
+
 export const RunDetailsResponseBaseSchema = z.object({
   id: z.string().describe("Run ID"),
   endpointId: z.string().describe("Endpoint ID"),
@@ -187,8 +315,19 @@ export const RunDetailsResponseBaseSchema = z.object({
   finishedAt: z.string().datetime().optional().describe("Run finish time"),
   durationMs: z.number().optional().describe("Execution duration in milliseconds"),
   errorMessage: z.string().optional().describe("Error message if run failed"),
+  errorDetails: z.record(z.string(), z.any()).optional().describe("Structured failure detail: the success criterion that failed, or the auth profile whose token request failed (authProfile, tokenStatusCode, oauthError)"),
   source: z.string().optional().describe("Scheduling source that triggered this run"),
-  attempt: z.number().int().describe("Execution attempt number"),
+  attempt: z.number().int().describe("Number of attempts made within this run (more than 1 when the retry policy retried)"),
+  attempts: z.array(RunAttemptResponseBaseSchema).optional().describe("Per-attempt details, present when the run retried"),
+  queueWaitMs: z.number().int().optional().describe("Time the run waited in the scheduler dispatch queue before executing, in milliseconds"),
+  scheduledFor: z.string().datetime().optional().describe("When the run was due: its scheduled time, or the missed occurrence a catch-up run stands in for"),
+  lagMs: z.number().int().optional().describe("How long after it was due the run started, in milliseconds (negative when started early)"),
+  triggeredBy: z.object({
+    type: z.enum(["user", "api_key", "device", "ai_session"]).describe("Kind of actor"),
+    id: z.string().describe("User ID, API key ID or device session ID"),
+    userId: z.string().optional().describe("User behind the key or token"),
+  }).optional().describe("Who requested the run (manual runs only)"),
+  traceId: z.string().optional().describe("OpenTelemetry trace the run executed in (when tracing is enabled)"),
   responseBody: z.any().nullable().optional().describe("Response body from endpoint execution (if JSON and within size limit)"),
   statusCode: z.number().int().optional().describe("HTTP status code from endpoint response"),
   endpoint: z.object({
@@ -216,9 +355,48 @@ export const HealthSummaryResponseBaseSchema = z.object({
 
 export const TestEndpointResponseBaseSchema = z.object({
   runId: z.string().describe("ID of the test run record"),
-  status: z.enum(["success", "failed"]).describe("Execution result"),
+  status: z.enum(["success", "failed", "canceled"]).describe("Execution result; canceled when the endpoint's concurrency policy (forbid) skipped the test because a run is in progress"),
   durationMs: z.number().describe("Execution duration in milliseconds"),
   statusCode: z.number().int().optional().describe("HTTP status code"),
   responseBody: z.any().nullable().optional().describe("Response body (JSON, within size limit)"),
   errorMessage: z.string().optional().describe("Error message if failed"),
+  renderedRequest: z.object({
+    url: z.string().optional().describe("URL after template resolution"),
+    headersJson: z.record(z.string(), z.string()).optional().describe("Headers after template resolution"),
+    bodyJson: z.any().optional().describe("Request body after template resolution"),
+  }).optional().describe("The request as sent, with {{ }} templates resolved (only for endpoints that use templates; run.id is \"test\")"),
+});
+
+export const RunNowRequestBaseSchema = z.object({
+  headersJson: z.record(z.string(), z.string()).optional().describe("Headers merged over the endpoint's headers, for this run only. Values may contain {{ }} templates"),
+  bodyJson: z.any().optional().describe("Request body replacing the endpoint's body, for this run only. String values may contain {{ }} templates"),
+});
+
+export const RunNowResponseBaseSchema = z.object({
+  requestId: z.string().describe("ID of the run-now request"),
+  requestedAt: z.string().datetime().describe("When the run was requested; the scheduler picks it up on its next tick"),
+});
+
+// ==================== Trigger URL Schemas ====================
+
+export const TriggerTokenInfoResponseBaseSchema = z.object({
+  hasToken: z.boolean().describe("Whether the endpoint has a trigger URL"),
+  tokenPrefix: z.string().nullable().describe("First characters of the token, for display"),
+  createdAt: z.string().datetime().nullable().describe("When the trigger URL was created"),
+  rotatedAt: z.string().datetime().nullable().describe("When the token was last rotated"),
+});
+
+export const TriggerTokenCreatedResponseBaseSchema = z.object({
+  token: z.string().describe("The trigger token. Shown once: only its hash is stored"),
+  tokenPrefix: z.string().describe("First characters of the token, for display"),
+});
+
+export const TriggerRunRequestBaseSchema = z.record(z.string(), z.any())
+  .describe("Optional JSON object merged into the endpoint's JSON body (top-level keys) for this run. Can't contain {{ }} templates");
+
+// ==================== Heartbeat Check-in Schemas ====================
+
+export const HeartbeatPingResponseBaseSchema = z.object({
+  runId: z.string().describe("ID of the run the check-in was recorded on"),
+  status: z.enum(["running", "success", "failed"]).describe("Run status after the check-in"),
 });
@@ -22,10 +22,10 @@ export const GetJobSummary = "Get a job by ID";
 export const GetJobDescription = "Retrieve a single job by ID. Returns full job details including status and timestamps.";
 
 export const ListJobsSummary = "List all jobs";
-export const ListJobsDescription = "List all jobs for the authenticated user. Optionally filter by status (active, paused, archived). Returns jobs with endpoint counts.";
+export const ListJobsDescription = "List all jobs for the authenticated user, or for an organization when orgId is given. Optionally filter by status (active, paused, archived). Returns jobs with endpoint counts.";
 
 export const UpdateJobSummary = "Update a job";
-export const UpdateJobDescription = "Update job name or description. All fields are optional - only provided fields will be updated.";
+export const UpdateJobDescription = "Update job name, description or blackout windows. All fields are optional - only provided fields will be updated.";
 
 export const ArchiveJobSummary = "Archive a job";
 export const ArchiveJobDescription = "Archive a job (soft delete). The job status will be set to 'archived' and an archivedAt timestamp will be recorded. Archived jobs can be recovered if needed.";
@@ -38,6 +38,31 @@ export const ResumeJobDescription = "Resume a paused job. The job status will be
 
 // ==================== Request/Response Schemas ====================
 
+export const BlackoutWindowSchema = z.object({
+  name: z.string().max(100).optional().describe("Label shown in the UI and the AI planner prompt"),
+  timezone: z
+    .string()
+    .optional()
+    .refine(
+      val => !val || validateTimezone(val),
+      { message: "Invalid timezone. Use an IANA timezone name (e.g. \"Europe/Berlin\")" },
+    )
+    .describe("IANA timezone the days and times are in (default: UTC)"),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional().describe("Days of the week, 0 (Sunday) to 6 (Saturday)"),
+  dates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).max(366).optional().describe("Specific \"YYYY-MM-DD\" dates. Max: 366"),
+  calendar: z.enum(["us-federal-holidays"]).optional().describe("Built-in holiday calendar; weekend holidays also cover their observed weekday"),
+  startTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("\"HH:MM\" local start. Omit with endTime to cover whole days"),
+  endTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().describe("\"HH:MM\" local end. An end at or before the start ends the next day"),
+}).refine(
+  data => (data.startTime === undefined) === (data.endTime === undefined),
+  { message: "Provide both startTime and endTime, or neither to cover whole days", path: ["endTime"] },
+).openapi({
+  description: "A recurring period in which runs don't start. Day selectors (daysOfWeek, dates, calendar) combine with OR; without any the window applies every day. Runs due inside a window, including AI hints, run-now and trigger URL requests, move to its end.",
+  example: { name: "Sunday maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" },
+});
+
+export const BlackoutWindowsSchema = z.array(BlackoutWindowSchema).max(20);
+
 export const GetJobRequestSchema = z.object({
   id: z.string().openapi({
     description: "Job ID",
@@ -54,19 +79,27 @@ export const CreateJobRequestSchema = z.object({
     description: "Job description",
     example: "Generates daily sales metrics",
   }).describe("Job description"),
+  orgId: z.string().optional().openapi({
+    description: "Organization that owns the job (requires the editor role). Omit for a personal job",
+    example: "org_4f9c2a1e-8b7d-4c3a-9e1f-2d6b5a8c7e90",
+  }).describe("Organization that owns the job"),
+  blackoutWindows: BlackoutWindowsSchema.optional().describe("Recurring periods in which none of the job's http endpoints start a run. Max: 20"),
 });
 
 export const UpdateJobRequestSchema = z.object({
   name: z.string().min(1).max(255).optional().describe("Job name"),
   description: z.string().max(1000).optional().describe("Job description"),
+  blackoutWindows: BlackoutWindowsSchema.optional().describe("Replaces the job's blackout windows (empty list clears)"),
 });
 
 export const JobResponseSchema = z.object({
   id: z.string().describe("Job ID"),
-  userId: z.string().describe("User ID"),
+  userId: z.string().describe("User ID of the creator"),
+  orgId: z.string().optional().describe("Owning organization, if the job isn't personal"),
   name: z.string().describe("Job name"),
   description: z.string().optional().describe("Job description"),
   status: z.enum(["active", "paused", "archived"]).describe("Job status"),
+  blackoutWindows: BlackoutWindowsSchema.optional().describe("Blackout windows applying to every http endpoint in the job"),
   createdAt: z.string().datetime().describe("Creation timestamp"),
   updatedAt: z.string().datetime().describe("Last update timestamp"),
   archivedAt: z.string().datetime().optional().describe("Archive timestamp"),
@@ -87,10 +120,78 @@ function validateCronExpression(expr: string): boolean {
   }
 }
 
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1).max(10).describe("Total attempts per run, including the first (1 = no retries). Max: 10"),
+  backoff: z.enum(["fixed", "exponential", "jittered"]).describe("Delay between attempts: fixed, exponential (doubling from initialDelayMs), or jittered (random up to the exponential delay)"),
+  initialDelayMs: z.number().int().nonnegative().max(300000).describe("Delay before the first retry in milliseconds. Max: 300000 (5 minutes)"),
+  maxDelayMs: z.number().int().positive().max(300000).optional().describe("Upper bound for any single delay, including Retry-After, in milliseconds (default: 60000)"),
+  retryOnStatusCodes: z.array(z.number().int().min(100).max(599)).optional().describe("HTTP status codes to retry (default: 408, 425, 429, 500, 502, 503, 504)"),
+  retryOnErrors: z.array(z.enum(["timeout", "network"])).optional().describe("Failures without an HTTP response to retry (default: timeout and network)"),
+  respectRetryAfter: z.boolean().optional().describe("Wait at least the Retry-After response header when present (default: true). Retrying stops if it exceeds maxDelayMs"),
+}).refine(
+  data => data.maxDelayMs === undefined || data.maxDelayMs >= data.initialDelayMs,
+  { message: "maxDelayMs must be greater than or equal to initialDelayMs", path: ["maxDelayMs"] },
+).openapi({
+  description: "In-run retry policy. Failed attempts are retried within the same run before it is recorded as failed.",
+  example: { maxAttempts: 3, backoff: "exponential", initialDelayMs: 1000, retryOnStatusCodes: [429, 502, 503] },
+});
+
+export const MisfirePolicySchema = z.object({
+  mode: z.enum(["skip", "run-once", "run-all"]).describe("What happens to occurrences missed while the scheduler was down or behind: skip them, run once for the latest, or run each of them in order"),
+  maxBacklog: z.number().int().min(1).max(100).optional().describe("run-all only: most missed occurrences replayed; older ones are skipped. Default: 10. Max: 100"),
+  thresholdMs: z.number().int().nonnegative().max(86400000).optional().describe("How late a run must be to count as missed, in milliseconds. Default: 60000 (1 minute). Max: 86400000 (24 hours)"),
+}).refine(
+  data => data.maxBacklog === undefined || data.mode === "run-all",
+  { message: "maxBacklog only applies to run-all", path: ["maxBacklog"] },
+).openapi({
+  description: "How the endpoint catches up on scheduled runs it missed. Catch-up runs have source \"catch-up\" and record the occurrence they stand in for as scheduledFor.",
+  example: { mode: "run-all", maxBacklog: 24 },
+});
+
+export const ConcurrencyPolicySchema = z.enum(["allow", "forbid", "replace"]).openapi({
+  description: "What happens when a run is due while an earlier run of the endpoint is still running, e.g. after its lease expired under a long request. Skipped runs are recorded as canceled with the reason; replaced runs are closed as canceled, though a request already in flight isn't interrupted.",
+  example: "forbid",
+});
+
+export const ResponseAssertionSchema = z.object({
+  path: z.string().min(1).describe("JSONPath (e.g. \"$.checks[0].status\") or JSON pointer (e.g. \"/checks/0/status\") into the JSON response body"),
+  operator: z.enum(["exists", "notExists", "equals", "notEquals", "contains", "matches", "gt", "gte", "lt", "lte"]).describe("Comparison: exists/notExists, equals/notEquals (deep JSON equality), contains (substring or array element), matches (regex up to 256 characters, without nested quantifiers or backreferences, tested against strings up to 4096 characters), gt/gte/lt/lte (numeric)"),
+  value: z.any().optional().describe("Expected value (not used by exists/notExists)"),
+});
+
+export const SuccessCriteriaSchema = z.object({
+  statusCodes: z.array(z.string()).optional().describe("Accepted HTTP statuses as codes (\"204\"), classes (\"2xx\") or ranges (\"200-299\"). Default: any 2xx"),
+  maxLatencyMs: z.number().int().positive().optional().describe("Responses slower than this fail the run"),
+  assertions: z.array(ResponseAssertionSchema).max(20).optional().describe("Assertions on the JSON response body; all must hold. Max: 20"),
+}).openapi({
+  description: "What counts as a successful run. Criteria are checked in order (status, latency, assertions); the first failure fails the run and is recorded in errorMessage and errorDetails.",
+  example: { statusCodes: ["2xx", "304"], maxLatencyMs: 2000, assertions: [{ path: "$.status", operator: "equals", value: "ok" }] },
+});
+
+export const EndpointDependenciesSchema = z.object({
+  upstreamIds: z.array(z.string()).max(20).describe("IDs of upstream endpoints in the same job. An empty list removes the dependencies. Max: 20"),
+  mode: z.enum(["all", "any"]).describe("\"all\": run once every upstream has succeeded since this endpoint last ran; \"any\": run when any upstream succeeds"),
+  delayMs: z.number().int().nonnegative().max(86400000).optional().describe("Wait after the triggering upstream finishes, in milliseconds. Default: 0. Max: 86400000 (24 hours)"),
+}).openapi({
+  description: "Upstream endpoints whose success triggers a one-shot run of this endpoint, on top of its baseline schedule. Dependencies must not form a cycle.",
+  example: { upstreamIds: ["ep_extract"], mode: "all", delayMs: 30000 },
+});
+
+// Helper function to validate IANA timezone names
+function validateTimezone(tz: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: tz });
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
+
 // ==================== Endpoint Orchestration Descriptions ====================
 
 export const AddEndpointSummary = "Add endpoint to job";
-export const AddEndpointDescription = "Add an endpoint to a job. Must provide either baselineCron OR baselineIntervalMs (not both). The endpoint will execute according to the baseline schedule and can be dynamically adjusted with AI hints.";
+export const AddEndpointDescription = "Add an endpoint to a job. Must provide either baselineCron OR baselineIntervalMs (not both). Cron schedules are evaluated in UTC unless an IANA timezone is provided. The endpoint will execute according to the baseline schedule and can be dynamically adjusted with AI hints. Set kind to \"heartbeat\" to monitor an external job instead: no url is needed, the response includes a pingToken for POST /api/ping/{token}, and a run fails when no check-in arrives within the baseline cadence plus graceMs. Set runAfter to also run the endpoint when upstream endpoints of the same job succeed; dependency cycles are rejected. url, header values and body strings may use templates such as {{ endpoints.extract.lastResponse.batch_id }}, {{ run.id }} or {{ now | iso }}, resolved at dispatch time from the latest response of sibling endpoints in the same job; template syntax is validated on create and update.";
 
 export const GetEndpointSummary = "Get endpoint by ID";
 export const GetEndpointDescription = "Retrieve a single endpoint by ID. Returns full configuration including baseline schedule, AI hints, execution settings, and current state.";
@@ -129,12 +230,27 @@ const EndpointFieldsBaseSchema = z.object({
     )
     .describe("Baseline cron expression (standard 5-field format)"),
   baselineIntervalMs: z.number().int().positive().optional().describe("Baseline interval in milliseconds"),
+  timezone: z
+    .string()
+    .nullable()
+    .optional()
+    .refine(
+      val => !val || validateTimezone(val),
+      { message: "Invalid timezone. Use an IANA timezone name (e.g. \"America/New_York\")" },
+    )
+    .openapi({
+      description: "IANA timezone used to evaluate baselineCron (default: UTC). Schedules follow local wall-clock time across DST changes. null or an empty string goes back to UTC.",
+      example: "America/New_York",
+    })
+    .describe("IANA timezone used to evaluate baselineCron (default: UTC). Schedules follow local wall-clock time across DST changes. null or an empty string goes back to UTC."),
   minIntervalMs: z.number().int().positive().optional().describe("Minimum interval in milliseconds"),
   maxIntervalMs: z.number().int().positive().optional().describe("Maximum interval in milliseconds"),
-  url: z.string().url().describe("HTTP endpoint URL"),
+  kind: z.enum(["http", "heartbeat"]).default("http").describe("Endpoint kind: \"http\" endpoints are called on schedule; \"heartbeat\" endpoints receive check-ins on a ping URL and fail when one is missed. Can't be changed after creation."),
+  graceMs: z.number().int().nonnegative().max(604800000).optional().describe("Heartbeat only: how late a check-in may arrive before it counts as missed. Default: 300000 (5 minutes). Max: 604800000 (7 days)"),
+  url: z.string().url().optional().describe("HTTP endpoint URL (required for http endpoints). May contain {{ }} templates resolved at dispatch time"),
   method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).default("GET").describe("HTTP method"),
-  headersJson: z.record(z.string(), z.string()).optional().describe("HTTP headers as key-value pairs"),
-  bodyJson: z.any().optional().describe("Request body (JSON)"),
+  headersJson: z.record(z.string(), z.string()).optional().describe("HTTP headers as key-value pairs. Values may contain {{ }} templates"),
+  bodyJson: z.any().optional().describe("Request body (JSON). String values may contain {{ }} templates; a string that is a single template is replaced by the raw JSON value"),
   timeoutMs: z.number().int().positive().optional().describe("Request timeout in milliseconds"),
   maxExecutionTimeMs: z
     .number()
@@ -148,6 +264,14 @@ const EndpointFieldsBaseSchema = z.object({
     })
     .describe("Maximum expected execution time in milliseconds (for lock duration). Default: 60000 (1 minute). Max: 1800000 (30 minutes)."),
   maxResponseSizeKb: z.number().int().positive().optional().describe("Maximum response size in kilobytes"),
+  retryPolicy: RetryPolicySchema.optional().describe("In-run retry policy. Failed attempts are retried within the same run before it is recorded as failed. Omit for a single attempt."),
+  successCriteria: SuccessCriteriaSchema.optional().describe("What counts as a successful run: accepted status codes, max latency and JSON body assertions. Failing criteria fail the run. Default: any 2xx"),
+  runAfter: EndpointDependenciesSchema.optional().describe("Upstream endpoints in the same job whose success triggers a run of this endpoint (http endpoints only). The baseline schedule keeps running as a fallback."),
+  blackoutWindows: BlackoutWindowsSchema.optional().describe("Recurring periods in which no run starts, on top of the job's (http endpoints only). Runs due inside one move to its end. Max: 20; an empty list clears"),
+  misfirePolicy: MisfirePolicySchema.optional().describe("How missed scheduled runs are caught up after downtime (http endpoints only). Unset: a late run runs once as a normal scheduled run"),
+  concurrencyPolicy: ConcurrencyPolicySchema.optional().describe("What happens when a run is due while an earlier run is still running (http endpoints only): allow starts it anyway, forbid skips it (recorded as a canceled run with the reason), replace cancels the earlier run. Applies to scheduled, run-now, trigger and test runs. Default: allow"),
+  tlsCredentialName: z.string().regex(/^(?:[a-z0-9][a-z0-9_-]{0,63})?$/, "Must be the name of a TLS credential").optional().describe("TLS credential (client certificate and/or CA bundle) the request connects with, for servers that require mutual TLS or use a private CA (http endpoints only). An empty string clears. Requests fail with `TLS credential \"NAME\" is not defined` while the credential doesn't exist"),
+  authProfileName: z.string().regex(/^(?:[a-z0-9][a-z0-9_-]{0,63})?$/, "Must be the name of an auth profile").optional().describe("Auth profile whose OAuth2 access token is sent as `Authorization: Bearer ...` (http endpoints only), replacing any configured Authorization header. Tokens are cached until shortly before expiry, and a 401 response is retried once with a new token. An empty string clears"),
 });
 
 const EndpointFieldsSchema = EndpointFieldsBaseSchema.refine(
@@ -167,6 +291,12 @@ export const AddEndpointRequestSchema = EndpointFieldsSchema.refine(
     message: "Provide either baselineCron or baselineIntervalMs, but not both.",
     path: ["baselineCron"],
   },
+).refine(
+  data => data.kind === "heartbeat" || data.url,
+  {
+    message: "url is required for http endpoints",
+    path: ["url"],
+  },
 );
 
 export const UpdateEndpointRequestSchema = EndpointFieldsBaseSchema.partial().refine(
@@ -184,6 +314,7 @@ export const EndpointResponseSchema = z.object({
   description: z.string().optional().describe("Endpoint description"),
   baselineCron: z.string().optional().describe("Baseline cron expression"),
   baselineIntervalMs: z.number().optional().describe("Baseline interval in milliseconds"),
+  timezone: z.string().optional().describe("IANA timezone for baselineCron (UTC when unset)"),
   minIntervalMs: z.number().optional().describe("Minimum interval in milliseconds"),
   maxIntervalMs: z.number().optional().describe("Maximum interval in milliseconds"),
   nextRunAt: z.string().datetime().describe("Next scheduled run time"),
@@ -191,6 +322,9 @@ export const EndpointResponseSchema = z.object({
   failureCount: z.number().int().describe("Consecutive failure count"),
   pausedUntil: z.string().datetime().optional().describe("Pause expiration time"),
   archivedAt: z.string().datetime().optional().describe("Archive timestamp (soft delete)"),
+  kind: z.enum(["http", "heartbeat"]).describe("Endpoint kind"),
+  pingToken: z.string().optional().describe("Heartbeat only: token in the ping URL (POST /api/ping/{token})"),
+  graceMs: z.number().optional().describe("Heartbeat only: allowed check-in lateness in milliseconds (5 minutes when unset)"),
   url: z.string().optional().describe("HTTP endpoint URL"),
   method: z.enum(["GET", "POST", "PUT", "PATCH", "DELETE"]).optional().describe("HTTP method"),
   headersJson: z.record(z.string(), z.string()).optional().describe("HTTP headers"),
@@ -198,6 +332,14 @@ export const EndpointResponseSchema = z.object({
   timeoutMs: z.number().optional().describe("Request timeout in milliseconds"),
   maxExecutionTimeMs: z.number().optional().describe("Maximum execution time in milliseconds"),
   maxResponseSizeKb: z.number().optional().describe("Maximum response size in kilobytes"),
+  retryPolicy: RetryPolicySchema.optional().describe("In-run retry policy (single attempt when unset)"),
+  successCriteria: SuccessCriteriaSchema.optional().describe("Success rules (any 2xx when unset)"),
+  runAfter: EndpointDependenciesSchema.optional().describe("Upstream endpoints whose success triggers a run (none when unset)"),
+  blackoutWindows: BlackoutWindowsSchema.optional().describe("The endpoint's own blackout windows (the job's apply as well)"),
+  misfirePolicy: MisfirePolicySchema.optional().describe("Catch-up for missed scheduled runs (none when unset)"),
+  concurrencyPolicy: ConcurrencyPolicySchema.optional().describe("Overlapping runs: allow, forbid or replace (allow when unset)"),
+  tlsCredentialName: z.string().optional().describe("TLS credential the request connects with (default TLS when unset)"),
+  authProfileName: z.string().optional().describe("Auth profile whose access token the request sends (headers as configured when unset)"),
   aiHintIntervalMs: z
     .number()
     .int()
@@ -268,9 +410,32 @@ export const GetHealthSummarySummary = "Get endpoint health";
 export const GetHealthSummaryDescription = "Get health summary for an endpoint. Returns success/failure counts, average duration, last run info, and current failure streak. Useful for monitoring and alerting.";
 
 export const TestEndpointSummary = "Test endpoint";
-export const TestEndpointDescription = "Execute an endpoint immediately and return the result. Creates a run record (source: 'test') but does NOT affect scheduling state (nextRunAt, lastRunAt, failureCount). Works on paused endpoints. Blocked on archived endpoints.";
+export const TestEndpointDescription = "Execute an endpoint immediately and return the result. Creates a run record (source: 'test') but does NOT affect scheduling state (nextRunAt, lastRunAt, failureCount). Works on paused endpoints. Blocked on archived endpoints. For endpoints with {{ }} templates, the response includes the rendered request (renderedRequest); a template that doesn't resolve fails the test run without sending a request. The endpoint's concurrency policy applies: under forbid, a test while a run is in progress is recorded as canceled without sending a request; under replace, the running runs are canceled first.";
 export const TestEndpointResponseSchema = base.TestEndpointResponseBaseSchema;
 
+export const RunNowSummary = "Run endpoint now";
+export const RunNowDescription = "Queue an immediate run of an endpoint through the scheduler. Unlike the test action, the run is a real one: it's claimed and executed by the scheduler (with request signing and monthly run limits), recorded with source 'manual' and the requesting actor, and updates scheduling state (lastRunAt, nextRunAt, failureCount) like a scheduled run. Optional headersJson (merged over the endpoint's headers) and bodyJson (replacing its body) apply to this run only. A new request before the previous one runs replaces it. Blocked on heartbeat, archived and paused endpoints and on endpoints of paused or archived jobs.";
+export const RunNowRequestSchema = base.RunNowRequestBaseSchema;
+export const RunNowResponseSchema = base.RunNowResponseBaseSchema;
+
+// ==================== Trigger URLs ====================
+
+export const GetTriggerTokenSummary = "Get trigger URL";
+export const GetTriggerTokenDescription = "Get whether an endpoint has a trigger URL, with the token's display prefix and creation/rotation dates. The token itself is only returned when it's created or rotated.";
+export const CreateTriggerTokenSummary = "Create trigger URL";
+export const CreateTriggerTokenDescription = "Create a trigger token for an endpoint. External systems (deploy pipelines, scripts) request runs of this endpoint with POST /triggers/{token}, without an API key. The token is returned once; only its hash is stored. Returns 409 if the endpoint already has one (rotate it instead). Not available on heartbeat endpoints.";
+export const RotateTriggerTokenSummary = "Rotate trigger URL";
+export const RotateTriggerTokenDescription = "Replace an endpoint's trigger token. The old token stops working immediately. Returns 404 if the endpoint has no trigger URL.";
+export const RevokeTriggerTokenSummary = "Revoke trigger URL";
+export const RevokeTriggerTokenDescription = "Remove an endpoint's trigger URL. A run already requested through it still runs. Returns 404 if the endpoint has no trigger URL.";
+export const TriggerTokenInfoResponseSchema = base.TriggerTokenInfoResponseBaseSchema;
+export const TriggerTokenCreatedResponseSchema = base.TriggerTokenCreatedResponseBaseSchema;
+
+export const TriggerRunSummary = "Trigger endpoint run";
+export const TriggerRunDescription = "Request a run of the endpoint a trigger token belongs to. Authenticated by the token alone. Works like run now: the scheduler runs the endpoint on its next tick, recorded with source 'trigger'. An optional JSON object body is merged into the endpoint's JSON body for that run. Rate limited per token; rejected when the owner's monthly run limit is reached, and on paused or archived endpoints and jobs.";
+export const TriggerRunRequestSchema = base.TriggerRunRequestBaseSchema;
+export const TriggerRunResponseSchema = base.RunNowResponseBaseSchema;
+
 // ==================== Execution Visibility Schemas ====================
 
 export const ListRunsQuerySchema = base.ListRunsQueryBaseSchema;
@@ -279,6 +444,16 @@ export const RunSummaryResponseSchema = base.RunSummaryResponseBaseSchema;
 
 export const ListRunsResponseSchema = base.ListRunsResponseBaseSchema;
 
+export const RunAttemptResponseSchema = z.object({
+  attempt: z.number().int().describe("Attempt number within the run (1-based)"),
+  startedAt: z.string().datetime().describe("Attempt start time"),
+  status: z.enum(["success", "failed"]).describe("Attempt result"),
+  durationMs: z.number().describe("Attempt duration in milliseconds"),
+  statusCode: z.number().int().optional().describe("HTTP status code"),
+  errorMessage: z.string().optional().describe("Error message if the attempt failed"),
+  delayMs: z.number().optional().describe("Delay before the next attempt in milliseconds"),
+});
+
 export const RunDetailsResponseSchema = z.object({
   id: z.string().describe("Run ID"),
   endpointId: z.string().describe("Endpoint ID"),
@@ -287,8 +462,70 @@ export const RunDetailsResponseSchema = z.object({
   finishedAt: z.string().datetime().optional().describe("Run finish time"),
   durationMs: z.number().optional().describe("Execution duration in milliseconds"),
   errorMessage: z.string().optional().describe("Error message if run failed"),
+  errorDetails: z
+    .record(z.string(), z.any())
+    .optional()
+    .openapi({
+      description: "Structured failure detail: the success criterion that failed, or the auth profile whose token request failed (authProfile, tokenStatusCode, oauthError)",
+      example: { criterion: "assertion", index: 0, path: "$.status", operator: "equals", expected: "ok", actual: "degraded" },
+    })
+    .describe("Structured failure detail: the success criterion that failed, or the auth profile whose token request failed (authProfile, tokenStatusCode, oauthError)"),
   source: z.string().optional().describe("Scheduling source that triggered this run"),
-  attempt: z.number().int().describe("Execution attempt number"),
+  attempt: z.number().int().describe("Number of attempts made within this run (more than 1 when the retry policy retried)"),
+  attempts: z
+    .array(RunAttemptResponseSchema)
+    .optional()
+    .openapi({
+      description: "Per-attempt details, present when the run retried",
+    })
+    .describe("Per-attempt details, present when the run retried"),
+  queueWaitMs: z
+    .number()
+    .int()
+    .optional()
+    .openapi({
+      description: "Time the run waited in the scheduler dispatch queue before executing, in milliseconds",
+      example: 120,
+    })
+    .describe("Time the run waited in the scheduler dispatch queue before executing, in milliseconds"),
+  scheduledFor: z
+    .string()
+    .datetime()
+    .optional()
+    .openapi({
+      description: "When the run was due: its scheduled time, or the missed occurrence a catch-up run stands in for",
+      example: "2025-01-01T03:00:00.000Z",
+    })
+    .describe("When the run was due: its scheduled time, or the missed occurrence a catch-up run stands in for"),
+  lagMs: z
+    .number()
+    .int()
+    .optional()
+    .openapi({
+      description: "How long after it was due the run started, in milliseconds (negative when started early)",
+      example: 850,
+    })
+    .describe("How long after it was due the run started, in milliseconds (negative when started early)"),
+  triggeredBy: z
+    .object({
+      type: z.enum(["user", "api_key", "device", "ai_session"]).describe("Kind of actor"),
+      id: z.string().describe("User ID, API key ID or device session ID"),
+      userId: z.string().optional().describe("User behind the key or token"),
+    })
+    .optional()
+    .openapi({
+      description: "Who requested the run (manual runs only)",
+      example: { type: "api_key", id: "key_123", userId: "user_123" },
+    })
+    .describe("Who requested the run (manual runs only)"),
+  traceId: z
+    .string()
+    .optional()
+    .openapi({
+      description: "OpenTelemetry trace the run executed in (when tracing is enabled)",
+      example: "4bf92f3577b34da6a3ce929d0e0e4736",
+    })
+    .describe("OpenTelemetry trace the run executed in (when tracing is enabled)"),
   responseBody: z
     .any()
     .nullable()
@@ -322,3 +559,15 @@ export const RunDetailsResponseSchema = z.object({
 export const HealthSummaryQuerySchema = base.HealthSummaryQueryBaseSchema;
 
 export const HealthSummaryResponseSchema = base.HealthSummaryResponseBaseSchema;
+
+// ==================== Heartbeat Check-in Descriptions ====================
+
+export const HeartbeatPingSummary = "Heartbeat check-in";
+export const HeartbeatPingDescription = "Record a successful check-in on a heartbeat endpoint. Authenticated by the ping token alone. An optional JSON body (within maxResponseSizeKb) is stored as the run's response body. Finishes a run opened by a start check-in, otherwise records a new run. Moves the check-in deadline to the next expected check-in plus the grace period.";
+
+export const HeartbeatSignalPingSummary = "Heartbeat check-in with signal";
+export const HeartbeatSignalPingDescription = "Record a check-in with an explicit signal. 'start' opens a running run (the job has begun), failing a run still open from an earlier start; 'success' or 'fail' finishes it. A 'fail' check-in records a failed run and counts toward the failure streak and alerts. A run left open past the deadline is failed by the scheduler.";
+
+// ==================== Heartbeat Check-in Schemas ====================
+
+export const HeartbeatPingResponseSchema = base.HeartbeatPingResponseBaseSchema;
@@ -29,3 +29,7 @@ export type ListRunsResponse = z.infer<typeof schemas.ListRunsResponseSchema>;
 export type RunDetailsResponse = z.infer<typeof schemas.RunDetailsResponseSchema>;
 export type HealthSummaryQuery = z.infer<typeof schemas.HealthSummaryQuerySchema>;
 export type HealthSummaryResponse = z.infer<typeof schemas.HealthSummaryResponseSchema>;
+
+// ==================== Heartbeat Check-in Types ====================
+
+export type HeartbeatPingResponse = z.infer<typeof schemas.HeartbeatPingResponseSchema>;
@@ -0,0 +1,8 @@
+/**
+ * Notifications API Contracts
+ *
+ * Shared Zod schemas for notification channel and alert rule endpoints.
+ */
+
+export * as base from "./schemas.base.js";
+export * from "./schemas.base.js";
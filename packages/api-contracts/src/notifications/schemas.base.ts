@@ -0,0 +1,156 @@
+/**
+ * Base Zod Schemas for Notifications (Pure)
+ *
+ * No OpenAPI decorations — usable by MCP server and web app.
+ */
+
+import { z } from "zod";
+
+// ==================== Channel Schemas ====================
+
+export const NotificationChannelConfigBaseSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("email"),
+    to: z.array(z.string().email()).min(1).max(10).describe("Recipient email addresses"),
+  }),
+  z.object({
+    type: z.literal("slack"),
+    webhookUrl: z.string().url().describe("Slack incoming webhook URL (https://hooks.slack.com/...)"),
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    url: z.string().url().describe("URL that receives a signed JSON POST per notification"),
+  }),
+]).describe("Delivery target");
+
+export const CreateNotificationChannelRequestBaseSchema = z.object({
+  name: z.string().min(1).max(255).describe("Channel name"),
+  config: NotificationChannelConfigBaseSchema,
+  enabled: z.boolean().optional().describe("Whether the channel receives notifications (default: true)"),
+});
+
+export const UpdateNotificationChannelRequestBaseSchema = z.object({
+  name: z.string().min(1).max(255).optional().describe("Channel name"),
+  config: NotificationChannelConfigBaseSchema.optional(),
+  enabled: z.boolean().optional().describe("Whether the channel receives notifications"),
+});
+
+export const NotificationChannelResponseBaseSchema = z.object({
+  id: z.string().describe("Channel ID"),
+  name: z.string().describe("Channel name"),
+  config: NotificationChannelConfigBaseSchema.describe("Delivery target (Slack webhook URLs are masked)"),
+  enabled: z.boolean().describe("Whether the channel receives notifications"),
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+  updatedAt: z.string().datetime().describe("Last update timestamp"),
+});
+
+export const ListNotificationChannelsResponseBaseSchema = z.object({
+  channels: z.array(NotificationChannelResponseBaseSchema),
+});
+
+export const TestNotificationResponseBaseSchema = z.object({
+  delivered: z.boolean().describe("Whether the channel accepted the test notification"),
+  error: z.string().optional().describe("Delivery error, when not delivered"),
+});
+
+// ==================== Alert Rule Schemas ====================
+
+export const AlertConditionBaseSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("failureStreak"),
+    threshold: z.number().int().min(1).max(100).describe("Consecutive failed runs that trigger the alert"),
+  }),
+  z.object({
+    type: z.literal("successRate"),
+    belowPct: z.number().gt(0).max(100).describe("Alert when the success rate drops below this percentage"),
+    windowMinutes: z.number().int().min(5).max(10080).describe("Rolling window in minutes"),
+    minRuns: z.number().int().min(1).max(1000).optional().describe("Minimum runs in the window before evaluating (default: 1)"),
+  }),
+  z.object({
+    type: z.literal("noSuccess"),
+    withinMinutes: z.number().int().min(1).max(10080).describe("Alert when no run has succeeded for this many minutes"),
+  }),
+  z.object({
+    type: z.literal("aiPaused"),
+  }),
+]).describe("Condition that triggers the alert");
+
+export const CreateAlertRuleRequestBaseSchema = z.object({
+  name: z.string().min(1).max(255).describe("Rule name"),
+  jobId: z.string().optional().describe("Watch every endpoint of this job"),
+  endpointId: z.string().optional().describe("Watch a single endpoint"),
+  condition: AlertConditionBaseSchema,
+  channelIds: z.array(z.string()).min(1).max(10).describe("Channels to notify"),
+  cooldownMinutes: z.number().int().min(0).max(10080).optional().describe("Minimum minutes between notifications while firing; 0 disables reminders (default: 60)"),
+  notifyOnResolve: z.boolean().optional().describe("Send a notification when the condition clears (default: true)"),
+  enabled: z.boolean().optional().describe("Whether the rule is evaluated (default: true)"),
+});
+
+export const UpdateAlertRuleRequestBaseSchema = z.object({
+  name: z.string().min(1).max(255).optional().describe("Rule name"),
+  jobId: z.string().nullable().optional().describe("Watch every endpoint of this job (null clears)"),
+  endpointId: z.string().nullable().optional().describe("Watch a single endpoint (null clears)"),
+  condition: AlertConditionBaseSchema.optional(),
+  channelIds: z.array(z.string()).min(1).max(10).optional().describe("Channels to notify"),
+  cooldownMinutes: z.number().int().min(0).max(10080).optional().describe("Minimum minutes between notifications while firing"),
+  notifyOnResolve: z.boolean().optional().describe("Send a notification when the condition clears"),
+  enabled: z.boolean().optional().describe("Whether the rule is evaluated"),
+});
+
+export const AlertRuleResponseBaseSchema = z.object({
+  id: z.string().describe("Rule ID"),
+  name: z.string().describe("Rule name"),
+  jobId: z.string().optional().describe("Job scope"),
+  endpointId: z.string().optional().describe("Endpoint scope"),
+  condition: AlertConditionBaseSchema,
+  channelIds: z.array(z.string()).describe("Channels to notify"),
+  cooldownMinutes: z.number().int().describe("Minimum minutes between notifications while firing"),
+  notifyOnResolve: z.boolean().describe("Send a notification when the condition clears"),
+  enabled: z.boolean().describe("Whether the rule is evaluated"),
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+  updatedAt: z.string().datetime().describe("Last update timestamp"),
+});
+
+export const ListAlertRulesResponseBaseSchema = z.object({
+  rules: z.array(AlertRuleResponseBaseSchema),
+});
+
+// ==================== Types ====================
+
+export type NotificationChannelConfig = z.infer<typeof NotificationChannelConfigBaseSchema>;
+export type CreateNotificationChannelRequest = z.infer<typeof CreateNotificationChannelRequestBaseSchema>;
+export type UpdateNotificationChannelRequest = z.infer<typeof UpdateNotificationChannelRequestBaseSchema>;
+export type NotificationChannelResponse = z.infer<typeof NotificationChannelResponseBaseSchema>;
+export type TestNotificationResponse = z.infer<typeof TestNotificationResponseBaseSchema>;
+export type AlertCondition = z.infer<typeof AlertConditionBaseSchema>;
+export type CreateAlertRuleRequest = z.infer<typeof CreateAlertRuleRequestBaseSchema>;
+export type UpdateAlertRuleRequest = z.infer<typeof UpdateAlertRuleRequestBaseSchema>;
+export type AlertRuleResponse = z.infer<typeof AlertRuleResponseBaseSchema>;
+
+// Summaries and descriptions for route registration
+export const ListNotificationChannelsSummary = "List notification channels";
+export const ListNotificationChannelsDescription = "Returns the user's notification channels (email, Slack, webhook). Slack webhook URLs are masked.";
+
+export const CreateNotificationChannelSummary = "Create notification channel";
+export const CreateNotificationChannelDescription = "Creates a delivery target for alert notifications: email recipients (requires SMTP on the server), a Slack incoming webhook, or a generic webhook that receives a JSON POST signed with your signing key.";
+
+export const UpdateNotificationChannelSummary = "Update notification channel";
+export const UpdateNotificationChannelDescription = "Updates a channel's name, target or enabled flag. Disabled channels are skipped when alerts fire.";
+
+export const DeleteNotificationChannelSummary = "Delete notification channel";
+export const DeleteNotificationChannelDescription = "Deletes a channel and removes it from any alert rules that used it.";
+
+export const TestNotificationChannelSummary = "Send test notification";
+export const TestNotificationChannelDescription = "Sends a sample alert through the channel and reports whether it was delivered.";
+
+export const ListAlertRulesSummary = "List alert rules";
+export const ListAlertRulesDescription = "Returns the user's alert rules.";
+
+export const CreateAlertRuleSummary = "Create alert rule";
+export const CreateAlertRuleDescription = "Creates a rule that notifies channels when an endpoint hits N consecutive failures, drops below a success rate, has no success for a period, or is paused by the AI planner. Scope it to an endpoint (endpointId), a job (jobId), or leave both unset to watch every endpoint. Notifications are deduplicated: one when the alert fires, reminders at most every cooldownMinutes, and one when it resolves.";
+
+export const UpdateAlertRuleSummary = "Update alert rule";
+export const UpdateAlertRuleDescription = "Updates an alert rule. Pass null for jobId/endpointId to clear the scope.";
+
+export const DeleteAlertRuleSummary = "Delete alert rule";
+export const DeleteAlertRuleDescription = "Deletes an alert rule and its alert state.";
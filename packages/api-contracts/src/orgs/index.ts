@@ -0,0 +1,8 @@
+/**
+ * Organizations API Contracts
+ *
+ * Shared Zod schemas for organizations, members, invitations and org-scoped API keys.
+ */
+
+export * as base from "./schemas.base.js";
+export * from "./schemas.base.js";
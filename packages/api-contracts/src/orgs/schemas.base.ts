@@ -0,0 +1,144 @@
+/**
+ * Base Zod Schemas for Organizations (Pure)
+ *
+ * No OpenAPI decorations — usable by MCP server and web app.
+ */
+
+import { z } from "zod";
+
+// Mirrors ORG_ROLES in @cronicorn/domain, most privileged first
+export const OrgRoleBaseSchema = z
+  .enum(["owner", "admin", "editor", "viewer"])
+  .describe("Member role: owner (billing, deletion), admin (members, invitations), editor (jobs and endpoints), viewer (read-only)");
+
+// ==================== Organization Schemas ====================
+
+export const CreateOrganizationRequestBaseSchema = z.object({
+  name: z.string().trim().min(1).max(100).describe("Organization name"),
+});
+
+export const UpdateOrganizationRequestBaseSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional().describe("Organization name"),
+});
+
+export const OrganizationResponseBaseSchema = z.object({
+  id: z.string().describe("Organization ID"),
+  name: z.string().describe("Organization name"),
+  tier: z.enum(["free", "pro", "enterprise"]).describe("Billing tier; limits for the organization's endpoints come from it"),
+  subscriptionStatus: z.string().optional().describe("Stripe subscription status"),
+  role: OrgRoleBaseSchema.describe("The caller's role in the organization"),
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+});
+
+export const ListOrganizationsResponseBaseSchema = z.object({
+  organizations: z.array(OrganizationResponseBaseSchema),
+});
+
+export const OrganizationMemberResponseBaseSchema = z.object({
+  userId: z.string().describe("User ID"),
+  email: z.string().describe("Member email"),
+  name: z.string().describe("Member name"),
+  role: OrgRoleBaseSchema,
+  joinedAt: z.string().datetime().describe("When the user joined"),
+});
+
+export const OrganizationDetailResponseBaseSchema = OrganizationResponseBaseSchema.extend({
+  members: z.array(OrganizationMemberResponseBaseSchema),
+});
+
+// ==================== Member Schemas ====================
+
+export const UpdateMemberRequestBaseSchema = z.object({
+  role: OrgRoleBaseSchema,
+});
+
+// ==================== Invitation Schemas ====================
+
+export const CreateInvitationRequestBaseSchema = z.object({
+  email: z.string().email().describe("Email address to invite; the invitation can only be accepted by a user with this email"),
+  role: OrgRoleBaseSchema.describe("Role granted on acceptance"),
+});
+
+export const InvitationResponseBaseSchema = z.object({
+  id: z.string().describe("Invitation ID"),
+  email: z.string().describe("Invited email"),
+  role: OrgRoleBaseSchema,
+  invitedBy: z.string().describe("User ID of the inviter"),
+  expiresAt: z.string().datetime().describe("Expiry; invitations are valid for 7 days"),
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+});
+
+export const ListInvitationsResponseBaseSchema = z.object({
+  invitations: z.array(InvitationResponseBaseSchema),
+});
+
+export const CreateInvitationResponseBaseSchema = InvitationResponseBaseSchema.extend({
+  acceptUrl: z.string().url().describe("Accept link, also sent by email when the server has SMTP configured"),
+  emailSent: z.boolean().describe("Whether the invitation email was delivered to the mail server"),
+});
+
+export const AcceptInvitationRequestBaseSchema = z.object({
+  token: z.string().min(1).describe("Token from the invitation link"),
+});
+
+// ==================== API Key Schemas ====================
+
+export const CreateOrgApiKeyRequestBaseSchema = z.object({
+  name: z.string().trim().min(1).max(255).describe("Key name"),
+});
+
+export const CreateOrgApiKeyResponseBaseSchema = z.object({
+  id: z.string().describe("API key ID"),
+  name: z.string().describe("Key name"),
+  key: z.string().describe("The API key. Shown only once"),
+});
+
+// ==================== Types ====================
+
+export type OrgRole = z.infer<typeof OrgRoleBaseSchema>;
+export type CreateOrganizationRequest = z.infer<typeof CreateOrganizationRequestBaseSchema>;
+export type UpdateOrganizationRequest = z.infer<typeof UpdateOrganizationRequestBaseSchema>;
+export type OrganizationResponse = z.infer<typeof OrganizationResponseBaseSchema>;
+export type OrganizationMemberResponse = z.infer<typeof OrganizationMemberResponseBaseSchema>;
+export type OrganizationDetailResponse = z.infer<typeof OrganizationDetailResponseBaseSchema>;
+export type CreateInvitationRequest = z.infer<typeof CreateInvitationRequestBaseSchema>;
+export type InvitationResponse = z.infer<typeof InvitationResponseBaseSchema>;
+export type CreateInvitationResponse = z.infer<typeof CreateInvitationResponseBaseSchema>;
+export type CreateOrgApiKeyResponse = z.infer<typeof CreateOrgApiKeyResponseBaseSchema>;
+
+// Summaries and descriptions for route registration
+export const ListOrganizationsSummary = "List organizations";
+export const ListOrganizationsDescription = "Lists the organizations the user belongs to, with the user's role in each.";
+
+export const CreateOrganizationSummary = "Create organization";
+export const CreateOrganizationDescription = "Creates an organization with the user as its owner. Jobs created with its `orgId` belong to the organization and are shared with its members.";
+
+export const GetOrganizationSummary = "Get organization";
+export const GetOrganizationDescription = "Returns the organization with its members and the caller's role. Returns 404 for non-members.";
+
+export const UpdateOrganizationSummary = "Update organization";
+export const UpdateOrganizationDescription = "Renames the organization. Requires the admin role.";
+
+export const DeleteOrganizationSummary = "Delete organization";
+export const DeleteOrganizationDescription = "Deletes the organization with all of its jobs, endpoints and runs. Requires the owner role.";
+
+export const UpdateMemberSummary = "Change member role";
+export const UpdateMemberDescription = "Changes a member's role. Requires the admin role; only owners can grant or change the owner role, and the last owner can't be demoted.";
+
+export const RemoveMemberSummary = "Remove member";
+export const RemoveMemberDescription = "Removes a member. Requires the admin role (owner to remove an owner); any member can remove themselves to leave. The last owner can't be removed.";
+
+export const ListInvitationsSummary = "List invitations";
+export const ListInvitationsDescription = "Lists invitations that haven't been accepted yet, including expired ones. Requires the admin role.";
+
+export const CreateInvitationSummary = "Invite member";
+export const CreateInvitationDescription = "Invites someone by email with the given role. Requires the admin role (owner to invite owners). The accept link is emailed when SMTP is configured and always returned in the response.";
+
+export const RevokeInvitationSummary = "Revoke invitation";
+export const RevokeInvitationDescription = "Deletes a pending invitation so its link stops working. Requires the admin role.";
+
+export const AcceptInvitationSummary = "Accept invitation";
+export const AcceptInvitationDescription = "Joins the organization with an invitation token. The signed-in user's email must match the invited email.";
+
+export const CreateOrgApiKeySummary = "Create org-scoped API key";
+export const CreateOrgApiKeyDescription = "Creates an API key limited to this organization: requests made with it act as the caller with their current role, default to the organization when creating or listing jobs, and can't reach personal jobs or other organizations.";
@@ -0,0 +1,8 @@
+/**
+ * Secrets API Contracts
+ *
+ * Shared Zod schemas for the write-only secrets vault.
+ */
+
+export * as base from "./schemas.base.js";
+export * from "./schemas.base.js";
@@ -0,0 +1,38 @@
+/**
+ * Base Zod Schemas for Secrets (Pure)
+ *
+ * No OpenAPI decorations — usable by MCP server and web app.
+ * Values are write-only: no response schema includes them.
+ */
+
+import { z } from "zod";
+
+// Mirrors SECRET_NAME_PATTERN and MAX_SECRET_VALUE_LENGTH in @cronicorn/domain
+export const SecretNameBaseSchema = z
+  .string()
+  .regex(/^[A-Z_][A-Z0-9_]{0,63}$/, "Use upper-case letters, digits and underscores (e.g. STRIPE_KEY), starting with a letter or underscore")
+  .describe("Secret name, referenced in endpoint requests as {{ secret.NAME }}");
+
+export const SetSecretRequestBaseSchema = z.object({
+  value: z.string().min(1).max(8192).describe("Secret value. Stored encrypted and never returned"),
+});
+
+export const SecretResponseBaseSchema = z.object({
+  name: z.string().describe("Secret name"),
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+  updatedAt: z.string().datetime().describe("Last time the value was set"),
+});
+
+export const ListSecretsResponseBaseSchema = z.object({
+  secrets: z.array(SecretResponseBaseSchema),
+});
+
+// Summaries and descriptions for route registration
+export const ListSecretsSummary = "List secrets";
+export const ListSecretsDescription = "Lists the names of the user's secrets with their dates. Values are never returned.";
+
+export const SetSecretSummary = "Set secret";
+export const SetSecretDescription = "Creates the secret or replaces its value. Values are encrypted at rest and only resolved by the dispatcher when `{{ secret.NAME }}` appears in an endpoint's url, header values or body. Returns 201 when created, 200 when replaced.";
+
+export const DeleteSecretSummary = "Delete secret";
+export const DeleteSecretDescription = "Deletes a secret. Endpoints that still reference it fail with `Secret \"NAME\" is not defined` until it's set again.";
@@ -131,4 +131,8 @@ export const AISessionDetailSchema = z.object({
   warnings: z.array(AISessionWarningSchema).openapi({
     description: "Warnings detected during the session (empty array if clean)",
   }),
+  traceId: z.string().nullable().openapi({
+    description: "OpenTelemetry trace the analysis ran in (null when tracing was not enabled)",
+    example: "4bf92f3577b34da6a3ce929d0e0e4736",
+  }),
 });
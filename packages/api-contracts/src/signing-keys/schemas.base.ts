@@ -6,24 +6,86 @@
 
 import { z } from "zod";
 
+// Mirrors MAX_ROTATION_OVERLAP_MS in @cronicorn/domain/signing
+const MAX_OVERLAP_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+export const SigningKeyStatusSchema = z.enum(["active", "expiring"]);
+
+export const SignatureVersionSchema = z.enum(["v1", "v2"])
+  .describe("v1 signs \"{timestamp}.{body}\"; v2 also covers the method, path and query, and headers");
+
+export const SigningAlgorithmSchema = z.enum(["hmac-sha256", "ed25519"])
+  .describe("hmac-sha256 uses a shared secret; ed25519 keeps the private key in Cronicorn, and receivers verify with the public key from the JWKS");
+
+export const SigningKeyBaseSchema = z.object({
+  id: z.string(), // Sent as X-Cronicorn-Key-Id; the JWKS kid of Ed25519 keys
+  keyPrefix: z.string(),
+  algorithm: SigningAlgorithmSchema,
+  status: SigningKeyStatusSchema,
+  createdAt: z.string().datetime(),
+  expiresAt: z.string().datetime().nullable(),
+});
+
 export const SigningKeyInfoResponseBaseSchema = z.object({
   hasKey: z.boolean(),
   keyPrefix: z.string().nullable(),
   createdAt: z.string().datetime().nullable(),
   rotatedAt: z.string().datetime().nullable(),
+  algorithm: SigningAlgorithmSchema.nullable(),
+  signatureVersion: SignatureVersionSchema.nullable(),
+  jwksUrl: z.string().url(), // Public keys of the user's Ed25519 keys
+  keys: z.array(SigningKeyBaseSchema),
+});
+
+export const UpdateSigningKeySettingsRequestBaseSchema = z.object({
+  signatureVersion: SignatureVersionSchema,
+});
+
+export const CreateSigningKeyRequestBaseSchema = z.object({
+  algorithm: SigningAlgorithmSchema.optional(), // Default: hmac-sha256
 });
 
 export const SigningKeyCreatedResponseBaseSchema = z.object({
-  rawKey: z.string(),
+  id: z.string(),
+  rawKey: z.string().nullable(), // Null for Ed25519 keys: the private key never leaves Cronicorn
   keyPrefix: z.string(),
+  algorithm: SigningAlgorithmSchema,
+});
+
+export const RotateSigningKeyRequestBaseSchema = z.object({
+  overlapMs: z.number().int().min(0).max(MAX_OVERLAP_MS).optional(), // Default: 24 hours
+  algorithm: SigningAlgorithmSchema.optional(), // Default: the current key's
+});
+
+export const SigningKeyRotatedResponseBaseSchema = SigningKeyCreatedResponseBaseSchema.extend({
+  previousKeyExpiresAt: z.string().datetime(),
+});
+
+export const JwkBaseSchema = z.object({
+  kty: z.literal("OKP"),
+  crv: z.literal("Ed25519"),
+  x: z.string(),
+  kid: z.string(),
+  alg: z.literal("EdDSA"),
+  use: z.literal("sig"),
+});
+
+export const JwksResponseBaseSchema = z.object({
+  keys: z.array(JwkBaseSchema),
 });
 
 // Summaries and descriptions for route registration
 export const GetSigningKeySummary = "Get signing key info";
-export const GetSigningKeyDescription = "Returns metadata about the user's signing key (prefix, dates). Never returns the raw key.";
+export const GetSigningKeyDescription = "Returns metadata about the user's signing keys: the active key, and keys replaced by a rotation that keep signing requests until they expire. Each key has an id (sent as X-Cronicorn-Key-Id), prefix, status (active or expiring) and expiry. Never returns the raw key.";
+
+export const UpdateSigningKeySettingsSummary = "Update signing settings";
+export const UpdateSigningKeySettingsDescription = "Switches the signature scheme for the user's requests. v1 (the default, kept for existing verifiers) signs \"{timestamp}.{body}\". v2 signs a canonical request — method, path and query, the headers listed in X-Cronicorn-Signed-Headers, and a SHA-256 digest of the body — so a captured request can't be replayed against another URL. v2 signatures are sent as `v2=<hex>` in X-Cronicorn-Signature; the @cronicorn/verify package verifies both. Returns 404 if no key exists.";
 
 export const CreateSigningKeySummary = "Generate signing key";
-export const CreateSigningKeyDescription = "Generates a new HMAC-SHA256 signing key for outbound request verification. Returns the raw key once — store it securely. Returns 409 if a key already exists.";
+export const CreateSigningKeyDescription = "Generates a new signing key for outbound request verification. HMAC-SHA256 keys (the default) return the raw key once — store it securely. Ed25519 keys return no raw key: the private key stays in Cronicorn, and receivers verify with the public key from jwksUrl. Returns 409 if a key already exists.";
 
 export const RotateSigningKeySummary = "Rotate signing key";
-export const RotateSigningKeyDescription = "Replaces the current signing key with a new one. The old key is immediately invalidated. Returns 404 if no key exists.";
+export const RotateSigningKeyDescription = "Replaces the current signing key with a new one. The old key keeps signing requests alongside the new one for overlapMs (default 24 hours, max 30 days; 0 invalidates it immediately), so receivers can switch keys without rejecting requests. During the overlap X-Cronicorn-Signature carries one signature per key. Pass algorithm to switch between HMAC-SHA256 and Ed25519; the new key keeps the current algorithm otherwise. Returns 404 if no key exists.";
+
+export const GetJwksSummary = "Get signing public keys";
+export const GetJwksDescription = "Public JSON Web Key Set of a user's Ed25519 signing keys: the active key and keys still in a rotation overlap. Each key's kid matches X-Cronicorn-Key-Id. No authentication; an unknown user or one without Ed25519 keys gets an empty set.";
@@ -11,6 +11,10 @@ export const CreateCheckoutRequestSchema = z.object({
     description: "Billing period for the subscription (monthly or annual)",
     example: "annual",
   }),
+  orgId: z.string().optional().openapi({
+    description: "Subscribe an organization instead of the user (requires the owner role)",
+    example: "org_4f9c2a1e-8b7d-4c3a-9e1f-2d6b5a8c7e90",
+  }),
 });
 
 export const CreateCheckoutResponseSchema = z.object({
@@ -20,7 +24,19 @@ export const CreateCheckoutResponseSchema = z.object({
   }),
 });
 
-export const CreatePortalRequestSchema = z.object({});
+export const CreatePortalRequestSchema = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Manage the organization's billing instead of the user's (requires the owner role)",
+    example: "org_4f9c2a1e-8b7d-4c3a-9e1f-2d6b5a8c7e90",
+  }),
+});
+
+export const SubscriptionOrgQuerySchema = z.object({
+  orgId: z.string().optional().openapi({
+    description: "Report for an organization instead of the user (requires membership)",
+    example: "org_4f9c2a1e-8b7d-4c3a-9e1f-2d6b5a8c7e90",
+  }),
+});
 
 export const CreatePortalResponseSchema = z.object({
   portalUrl: z.string().url().openapi({
@@ -0,0 +1,8 @@
+/**
+ * TLS Credentials API Contracts
+ *
+ * Shared Zod schemas for client certificates and CA bundles used for outbound mTLS.
+ */
+
+export * as base from "./schemas.base.js";
+export * from "./schemas.base.js";
@@ -0,0 +1,56 @@
+/**
+ * Base Zod Schemas for TLS Credentials (Pure)
+ *
+ * No OpenAPI decorations — usable by MCP server and web app.
+ * PEM material is write-only: no response schema includes it.
+ */
+
+import { z } from "zod";
+
+// Mirrors TLS_CREDENTIAL_NAME_PATTERN and MAX_TLS_PEM_LENGTH in @cronicorn/domain/tls
+export const TlsCredentialNameBaseSchema = z
+  .string()
+  .regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, "Use lower-case letters, digits, dashes and underscores (e.g. billing-mtls), starting with a letter or digit")
+  .describe("TLS credential name, referenced from endpoints as tlsCredentialName");
+
+const PemBaseSchema = z.string().min(1).max(65536);
+
+export const SetTlsCredentialRequestBaseSchema = z.object({
+  certificate: PemBaseSchema.optional().describe("Client certificate (PEM), optionally followed by its intermediate certificates. Requires privateKey"),
+  privateKey: PemBaseSchema.optional().describe("Unencrypted private key of the client certificate (PEM). Stored encrypted and never returned"),
+  caBundle: PemBaseSchema.optional().describe("CA certificates (PEM) the server's certificate must chain to. Replaces the default trust store for requests using this credential"),
+});
+
+export const TlsExpiryStatusBaseSchema = z
+  .enum(["valid", "expiring", "expired"])
+  .describe("valid, expiring (a certificate expires within 30 days) or expired");
+
+export const TlsCredentialResponseBaseSchema = z.object({
+  name: z.string().describe("Credential name"),
+  hasClientCertificate: z.boolean().describe("Whether the credential presents a client certificate (mTLS)"),
+  subject: z.string().nullable().describe("Client certificate subject, e.g. \"CN=billing-client\""),
+  certificateExpiresAt: z.string().datetime().nullable().describe("When the client certificate expires"),
+  caCertificates: z.number().int().describe("Certificates in the CA bundle (0 = the default trust store)"),
+  caExpiresAt: z.string().datetime().nullable().describe("Earliest expiry among the CA bundle certificates"),
+  expiresAt: z.string().datetime().nullable().describe("When the first of the credential's certificates expires"),
+  expiryStatus: TlsExpiryStatusBaseSchema,
+  createdAt: z.string().datetime().describe("Creation timestamp"),
+  updatedAt: z.string().datetime().describe("Last time the credential was uploaded"),
+});
+
+export const ListTlsCredentialsResponseBaseSchema = z.object({
+  credentials: z.array(TlsCredentialResponseBaseSchema),
+});
+
+// Summaries and descriptions for route registration
+export const ListTlsCredentialsSummary = "List TLS credentials";
+export const ListTlsCredentialsDescription = "Lists the user's TLS credentials (client certificates and CA bundles) with their certificate subjects and expiry. Certificates and keys are never returned.";
+
+export const GetTlsCredentialSummary = "Get TLS credential";
+export const GetTlsCredentialDescription = "Returns a TLS credential's certificate subject and expiry. Certificates and keys are never returned.";
+
+export const SetTlsCredentialSummary = "Set TLS credential";
+export const SetTlsCredentialDescription = "Uploads a TLS credential, or replaces all of its material: a client certificate with its private key (for mutual TLS), a CA bundle (for servers with a private CA), or both. The material is validated (the key must match the certificate), encrypted at rest and only used by the dispatcher for endpoints whose tlsCredentialName names it. Returns 201 when created, 200 when replaced.";
+
+export const DeleteTlsCredentialSummary = "Delete TLS credential";
+export const DeleteTlsCredentialDescription = "Deletes a TLS credential. Endpoints that still reference it fail with `TLS credential \"NAME\" is not defined` until it's uploaded again.";
@@ -90,6 +90,17 @@ export const DEV_STRIPE = {
   PRICE_ENTERPRISE: "price_test_enterprise",
 } as const;
 
+/**
+ * Secrets Vault Defaults (DEV ONLY)
+ *
+ * Server key that encrypts user secrets at rest. The API and scheduler must share it,
+ * and changing it makes existing secrets unreadable.
+ * Generate with: openssl rand -base64 32
+ */
+export const DEV_SECRETS = {
+  ENCRYPTION_KEY: "dev-secrets-key-DO-NOT-USE-IN-PRODUCTION",
+} as const;
+
 /**
  * Environment Defaults
  */
@@ -118,6 +129,7 @@ export function validateNotDevDefaultInProduction(
       DEV_AUTH.ADMIN_PASSWORD,
       DEV_STRIPE.SECRET_KEY,
       DEV_STRIPE.WEBHOOK_SECRET,
+      DEV_SECRETS.ENCRYPTION_KEY,
     ];
 
     if (devDefaults.includes(secretToCheck)) {
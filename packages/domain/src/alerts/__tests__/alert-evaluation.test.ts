@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+
+import type { AlertState } from "../../entities/index.js";
+
+import { evaluateAlertCondition, nextAlertState } from "../alert-evaluation.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+const minutesAgo = (m: number) => new Date(now.getTime() - m * 60_000);
+const rule = { id: "rule-1", cooldownMinutes: 30, notifyOnResolve: true };
+
+describe("evaluateAlertCondition", () => {
+  it("breaches a failure streak at the threshold", () => {
+    const condition = { type: "failureStreak", threshold: 3 } as const;
+    expect(evaluateAlertCondition(condition, { failureCount: 2, now }).breached).toBe(false);
+    expect(evaluateAlertCondition(condition, { failureCount: 3, now })).toEqual({
+      breached: true,
+      summary: "3 consecutive failed runs (threshold 3)",
+    });
+  });
+
+  it("compares the windowed success rate once enough runs exist", () => {
+    const condition = { type: "successRate", belowPct: 90, windowMinutes: 60, minRuns: 5 } as const;
+    expect(evaluateAlertCondition(condition, { failureCount: 1, windowRuns: { successCount: 1, failureCount: 3 }, now }).breached).toBe(false);
+
+    const result = evaluateAlertCondition(condition, { failureCount: 1, windowRuns: { successCount: 4, failureCount: 1 }, now });
+    expect(result).toEqual({
+      breached: true,
+      summary: "Success rate 80% over the last 60 minutes (4 of 5 runs, threshold 90%)",
+    });
+  });
+
+  it("breaches noSuccess only for endpoints older than the window", () => {
+    const condition = { type: "noSuccess", withinMinutes: 60 } as const;
+    const windowRuns = { successCount: 0, failureCount: 4 };
+    expect(evaluateAlertCondition(condition, { failureCount: 4, windowRuns, ranBeforeWindow: false, now }).breached).toBe(false);
+    expect(evaluateAlertCondition(condition, { failureCount: 4, windowRuns, ranBeforeWindow: true, now }).breached).toBe(true);
+    expect(evaluateAlertCondition(condition, { failureCount: 0, windowRuns: { successCount: 1, failureCount: 3 }, ranBeforeWindow: true, now }).breached).toBe(false);
+  });
+
+  it("breaches aiPaused while a pause is in effect", () => {
+    const condition = { type: "aiPaused" } as const;
+    const until = new Date("2026-01-01T13:00:00Z");
+    expect(evaluateAlertCondition(condition, { failureCount: 0, pausedUntil: until, pauseReason: "Upstream outage", now })).toEqual({
+      breached: true,
+      summary: "Paused by the AI planner until 2026-01-01T13:00:00.000Z: Upstream outage",
+    });
+    expect(evaluateAlertCondition(condition, { failureCount: 0, pausedUntil: minutesAgo(1), now }).breached).toBe(false);
+  });
+});
+
+describe("nextAlertState", () => {
+  it("starts firing and notifies on the first breach", () => {
+    expect(nextAlertState(null, true, rule, "ep-1", now)).toEqual({
+      state: { ruleId: "rule-1", endpointId: "ep-1", status: "firing", firedAt: now, resolvedAt: undefined, lastNotifiedAt: now },
+      notify: "firing",
+    });
+  });
+
+  it("stays quiet without a breach or prior firing", () => {
+    expect(nextAlertState(null, false, rule, "ep-1", now)).toEqual({ state: null, notify: null });
+  });
+
+  it("dedups while firing and reminds after the cooldown", () => {
+    const firing: AlertState = { ruleId: "rule-1", endpointId: "ep-1", status: "firing", firedAt: minutesAgo(40), lastNotifiedAt: minutesAgo(10) };
+    expect(nextAlertState(firing, true, rule, "ep-1", now)).toEqual({ state: null, notify: null });
+
+    const stale = { ...firing, lastNotifiedAt: minutesAgo(40) };
+    expect(nextAlertState(stale, true, rule, "ep-1", now)).toEqual({ state: { ...stale, lastNotifiedAt: now }, notify: "reminder" });
+    expect(nextAlertState(stale, true, { ...rule, cooldownMinutes: 0 }, "ep-1", now).notify).toBeNull();
+  });
+
+  it("holds back a re-fire within the cooldown and notifies it later", () => {
+    const resolved: AlertState = { ruleId: "rule-1", endpointId: "ep-1", status: "resolved", firedAt: minutesAgo(20), resolvedAt: minutesAgo(10), lastNotifiedAt: minutesAgo(10) };
+    const refired = nextAlertState(resolved, true, rule, "ep-1", now);
+    expect(refired.notify).toBeNull();
+    expect(refired.state).toMatchObject({ status: "firing", firedAt: now, lastNotifiedAt: minutesAgo(10) });
+
+    const later = new Date(now.getTime() + 30 * 60_000);
+    expect(nextAlertState(refired.state, true, rule, "ep-1", later)).toEqual({
+      state: { ...refired.state, lastNotifiedAt: later },
+      notify: "firing",
+    });
+  });
+
+  it("resolves and notifies only when the firing was notified", () => {
+    const firing: AlertState = { ruleId: "rule-1", endpointId: "ep-1", status: "firing", firedAt: minutesAgo(5), lastNotifiedAt: minutesAgo(5) };
+    expect(nextAlertState(firing, false, rule, "ep-1", now)).toEqual({
+      state: { ...firing, status: "resolved", resolvedAt: now, lastNotifiedAt: now },
+      notify: "resolved",
+    });
+    expect(nextAlertState(firing, false, { ...rule, notifyOnResolve: false }, "ep-1", now).notify).toBeNull();
+
+    const unnotified = { ...firing, lastNotifiedAt: minutesAgo(10) };
+    const result = nextAlertState(unnotified, false, rule, "ep-1", now);
+    expect(result.notify).toBeNull();
+    expect(result.state?.status).toBe("resolved");
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Alert rule evaluation.
+ *
+ * Pure functions: `evaluateAlertCondition` decides whether a condition is breached
+ * from facts gathered by the caller, and `nextAlertState` turns that decision into
+ * the rule's per-endpoint state plus the notification (if any) to send.
+ */
+
+import type { AlertCondition, AlertRule, AlertState } from "../entities/index.js";
+
+/**
+ * What the caller knows about an endpoint when evaluating a rule.
+ * Window facts are only required by the window-based conditions.
+ */
+export type AlertFacts = {
+  /** Consecutive failed runs, most recent first */
+  failureCount: number;
+  /** Runs inside the condition's window (successRate, noSuccess) */
+  windowRuns?: { successCount: number; failureCount: number };
+  /** Whether the endpoint has runs older than the window (noSuccess) */
+  ranBeforeWindow?: boolean;
+  /** Pause currently in effect, if any */
+  pausedUntil?: Date;
+  pauseReason?: string;
+  now: Date;
+};
+
+export type AlertEvaluation = {
+  breached: boolean;
+  /** Human-readable description of the current value, used in notifications */
+  summary: string;
+};
+
+export type AlertTransition = {
+  /** State to persist, or null when nothing changed */
+  state: AlertState | null;
+  notify: "firing" | "reminder" | "resolved" | null;
+};
+
+/**
+ * Decides whether a condition is breached.
+ *
+ * noSuccess only breaches once the endpoint has been running for longer than the
+ * window, so a brand-new endpoint whose first run fails doesn't alert immediately.
+ */
+export function evaluateAlertCondition(condition: AlertCondition, facts: AlertFacts): AlertEvaluation {
+  switch (condition.type) {
+    case "failureStreak": {
+      const breached = facts.failureCount >= condition.threshold;
+      return {
+        breached,
+        summary: breached
+          ? `${facts.failureCount} consecutive failed runs (threshold ${condition.threshold})`
+          : "Failure streak cleared",
+      };
+    }
+    case "successRate": {
+      const success = facts.windowRuns?.successCount ?? 0;
+      const total = success + (facts.windowRuns?.failureCount ?? 0);
+      if (total === 0 || total < (condition.minRuns ?? 1)) {
+        return { breached: false, summary: `Not enough runs in the last ${condition.windowMinutes} minutes` };
+      }
+      const rate = Math.round((success / total) * 100);
+      return {
+        breached: rate < condition.belowPct,
+        summary: `Success rate ${rate}% over the last ${condition.windowMinutes} minutes (${success} of ${total} runs, threshold ${condition.belowPct}%)`,
+      };
+    }
+    case "noSuccess": {
+      const breached = (facts.windowRuns?.successCount ?? 0) === 0 && facts.ranBeforeWindow === true;
+      return {
+        breached,
+        summary: breached
+          ? `No successful run in the last ${condition.withinMinutes} minutes`
+          : "Endpoint is succeeding again",
+      };
+    }
+    case "aiPaused": {
+      const until = facts.pausedUntil;
+      if (!until || until.getTime() <= facts.now.getTime()) {
+        return { breached: false, summary: "Endpoint is no longer paused" };
+      }
+      const reason = facts.pauseReason ? `: ${facts.pauseReason}` : "";
+      return { breached: true, summary: `Paused by the AI planner until ${until.toISOString()}${reason}` };
+    }
+  }
+}
+
+/**
+ * Advances a rule's per-endpoint state.
+ *
+ * - A breach on a quiet endpoint starts firing and notifies.
+ * - While firing, a reminder is sent each time `cooldownMinutes` has elapsed
+ *   since the last notification (0 disables reminders).
+ * - Re-firing within the cooldown of the previous notification is recorded but not
+ *   notified, so a flapping endpoint doesn't flood channels; it is notified on a
+ *   later breach once the cooldown has passed.
+ * - Clearing a notified breach resolves and, if the rule asks for it, sends a
+ *   resolved message. Resolves are never throttled.
+ */
+export function nextAlertState(
+  prev: AlertState | null,
+  breached: boolean,
+  rule: Pick<AlertRule, "id" | "cooldownMinutes" | "notifyOnResolve">,
+  endpointId: string,
+  now: Date,
+): AlertTransition {
+  const cooldownMs = rule.cooldownMinutes * 60_000;
+  const lastNotifiedMs = prev?.lastNotifiedAt?.getTime();
+  const cooledDown = lastNotifiedMs === undefined || now.getTime() - lastNotifiedMs >= cooldownMs;
+
+  if (breached) {
+    if (prev?.status === "firing") {
+      const firingNotified = lastNotifiedMs !== undefined && prev.firedAt !== undefined && lastNotifiedMs >= prev.firedAt.getTime();
+      if (!firingNotified && cooledDown) {
+        return { state: { ...prev, lastNotifiedAt: now }, notify: "firing" };
+      }
+      if (firingNotified && cooldownMs > 0 && cooledDown) {
+        return { state: { ...prev, lastNotifiedAt: now }, notify: "reminder" };
+      }
+      return { state: null, notify: null };
+    }
+
+    return {
+      state: {
+        ruleId: rule.id,
+        endpointId,
+        status: "firing",
+        firedAt: now,
+        resolvedAt: undefined,
+        lastNotifiedAt: cooledDown ? now : prev?.lastNotifiedAt,
+      },
+      notify: cooledDown ? "firing" : null,
+    };
+  }
+
+  if (prev?.status !== "firing") {
+    return { state: null, notify: null };
+  }
+
+  const firingNotified = lastNotifiedMs !== undefined && prev.firedAt !== undefined && lastNotifiedMs >= prev.firedAt.getTime();
+  const notify = firingNotified && rule.notifyOnResolve;
+  return {
+    state: {
+      ...prev,
+      status: "resolved",
+      resolvedAt: now,
+      lastNotifiedAt: notify ? now : prev.lastNotifiedAt,
+    },
+    notify: notify ? "resolved" : null,
+  };
+}
@@ -0,0 +1,4 @@
+/**
+ * Alerts module - alert rule evaluation and state transitions.
+ */
+export * from "./alert-evaluation.js";
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { diffAuditFields } from "../audit.js";
+
+describe("diffAuditFields", () => {
+  it("lists changed fields with JSON values", () => {
+    const changes = diffAuditFields(
+      { baselineIntervalMs: 60_000, name: "sync", pausedUntil: undefined },
+      { baselineIntervalMs: 30_000, name: "sync", pausedUntil: new Date("2026-01-01T00:00:00Z") },
+    );
+
+    expect(changes).toEqual([
+      { field: "baselineIntervalMs", before: 60_000, after: 30_000 },
+      { field: "pausedUntil", before: null, after: "2026-01-01T00:00:00.000Z" },
+    ]);
+  });
+
+  it("ignores bookkeeping timestamps and treats missing as null", () => {
+    expect(diffAuditFields(
+      { updatedAt: new Date(1), description: null },
+      { updatedAt: new Date(2) },
+    )).toEqual([]);
+  });
+
+  it("lists every set field for created and deleted resources", () => {
+    expect(diffAuditFields(undefined, { name: "sync", jobId: "job_1" })).toEqual([
+      { field: "jobId", before: null, after: "job_1" },
+      { field: "name", before: null, after: "sync" },
+    ]);
+    expect(diffAuditFields({ name: "sync" }, null)).toEqual([
+      { field: "name", before: "sync", after: null },
+    ]);
+  });
+
+  it("records credential changes without their values", () => {
+    const changes = diffAuditFields(
+      { headersJson: { Authorization: "Bearer old" }, pingToken: "abc" },
+      { headersJson: { Authorization: "Bearer new" }, pingToken: "def" },
+    );
+
+    expect(changes).toEqual([
+      { field: "headersJson", before: { Authorization: "[REDACTED]" }, after: { Authorization: "[REDACTED]" } },
+      { field: "pingToken", before: "[REDACTED]", after: "[REDACTED]" },
+    ]);
+  });
+
+  it("redacts run-now override headers", () => {
+    const manualRun = {
+      id: "req-1",
+      requestedAt: new Date("2025-01-01T00:00:00Z"),
+      requestedBy: { type: "user", id: "user-1", userId: "user-1" },
+      headersJson: { Authorization: "Bearer once" },
+      bodyJson: { dryRun: true },
+    };
+
+    expect(diffAuditFields({}, { manualRun })).toEqual([{
+      field: "manualRun",
+      before: null,
+      after: {
+        id: "req-1",
+        requestedAt: "2025-01-01T00:00:00.000Z",
+        requestedBy: { type: "user", id: "user-1", userId: "user-1" },
+        headersJson: { Authorization: "[REDACTED]" },
+        bodyJson: { dryRun: true },
+      },
+    }]);
+  });
+
+  it("records trigger tokens without their hash", () => {
+    const before = { triggerToken: { hash: "a".repeat(64), prefix: "trg_old12345", createdAt: new Date("2025-01-01T00:00:00Z") } };
+    const after = { triggerToken: { hash: "b".repeat(64), prefix: "trg_new12345", createdAt: new Date("2025-01-01T00:00:00Z"), rotatedAt: new Date("2025-02-01T00:00:00Z") } };
+
+    expect(diffAuditFields(before, after)).toEqual([{
+      field: "triggerToken",
+      before: { prefix: "trg_old12345", createdAt: "2025-01-01T00:00:00.000Z" },
+      after: { prefix: "trg_new12345", createdAt: "2025-01-01T00:00:00.000Z", rotatedAt: "2025-02-01T00:00:00.000Z" },
+    }]);
+    expect(diffAuditFields(after, {})[0]!.before).not.toHaveProperty("hash");
+  });
+});
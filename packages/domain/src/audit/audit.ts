@@ -0,0 +1,103 @@
+/**
+ * Audit diffs: which fields a change touched, with their before/after values.
+ *
+ * Values are stored as JSON, so dates become ISO strings. Credentials that can sit in
+ * an endpoint (header values, including a run-now request's override headers, and the
+ * heartbeat ping token) are recorded as changed without their values. Trigger tokens
+ * are recorded by their display prefix and dates, without the stored hash.
+ */
+
+import type { AuditAction, AuditActorType, AuditChange } from "../entities/index.js";
+
+import { REDACTED_SECRET } from "../secrets/index.js";
+
+/** All audit actions, for filters and validation */
+export const AUDIT_ACTIONS: readonly AuditAction[] = [
+  "job.created",
+  "job.updated",
+  "job.archived",
+  "job.paused",
+  "job.resumed",
+  "endpoint.created",
+  "endpoint.updated",
+  "endpoint.archived",
+  "endpoint.deleted",
+  "endpoint.paused",
+  "endpoint.resumed",
+  "endpoint.interval_hint",
+  "endpoint.one_shot_hint",
+  "endpoint.hints_cleared",
+  "endpoint.failures_reset",
+  "endpoint.run_requested",
+  "endpoint.trigger_token_created",
+  "endpoint.trigger_token_rotated",
+  "endpoint.trigger_token_revoked",
+  "signing_key.created",
+  "signing_key.rotated",
+  "signing_key.updated",
+];
+
+export const AUDIT_ACTOR_TYPES: readonly AuditActorType[] = ["user", "api_key", "device", "ai_session"];
+
+/** Bookkeeping fields that change on every write */
+const IGNORED_FIELDS = new Set(["createdAt", "updatedAt"]);
+
+function redactHeaders(headers: object): Record<string, string> {
+  return Object.fromEntries(Object.keys(headers).map(name => [name, REDACTED_SECRET]));
+}
+
+function toAuditValue(field: string, value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (field === "pingToken") {
+    return REDACTED_SECRET;
+  }
+  if (field === "headersJson" && typeof value === "object") {
+    return redactHeaders(value);
+  }
+  if (field === "triggerToken" && typeof value === "object" && "hash" in value) {
+    const { hash: _hash, ...token } = value;
+    return JSON.parse(JSON.stringify(token));
+  }
+  if (field === "manualRun" && typeof value === "object" && "headersJson" in value && value.headersJson && typeof value.headersJson === "object") {
+    return JSON.parse(JSON.stringify({ ...value, headersJson: redactHeaders(value.headersJson) }));
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Fields that differ between two versions of an entity.
+ *
+ * Missing and null count as the same. A created resource has no `before`, a deleted
+ * one no `after`; either way every set field is listed. Redacted fields are compared
+ * on their real values, so a changed header shows up even though both sides read
+ * `[REDACTED]`.
+ *
+ * @param before - The entity before the change
+ * @param after - The entity after the change
+ * @returns Changed fields in alphabetical order
+ */
+export function diffAuditFields(before: object | null | undefined, after: object | null | undefined): AuditChange[] {
+  const beforeRecord: Record<string, unknown> = { ...before };
+  const afterRecord: Record<string, unknown> = { ...after };
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+  const changes: AuditChange[] = [];
+  for (const field of [...fields].sort()) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    const beforeValue = beforeRecord[field] ?? null;
+    const afterValue = afterRecord[field] ?? null;
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) {
+      continue;
+    }
+    changes.push({
+      field,
+      before: toAuditValue(field, beforeValue),
+      after: toAuditValue(field, afterValue),
+    });
+  }
+  return changes;
+}
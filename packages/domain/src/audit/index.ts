@@ -0,0 +1,4 @@
+/**
+ * Audit module - change diffs for the audit log.
+ */
+export * from "./audit.js";
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  AUTH_PROFILE_NAME_PATTERN,
+  buildOAuth2TokenRequest,
+  isOAuth2TokenFresh,
+  OAuth2TokenError,
+  parseOAuth2TokenResponse,
+} from "../auth-profiles.js";
+
+const settings = {
+  tokenUrl: "https://auth.example.com/oauth/token",
+  clientId: "billing client",
+  scopes: ["invoices:read", "invoices:write"],
+  audience: "https://api.example.com",
+};
+const now = new Date("2026-10-19T12:00:00Z");
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn();
+  }
+  catch (error) {
+    return error;
+  }
+  throw new Error("Expected an error");
+}
+
+describe("auth profile names", () => {
+  it("accepts lower-case names with digits, dashes and underscores", () => {
+    expect(AUTH_PROFILE_NAME_PATTERN.test("billing-api")).toBe(true);
+    expect(AUTH_PROFILE_NAME_PATTERN.test("crm_2")).toBe(true);
+    expect(AUTH_PROFILE_NAME_PATTERN.test("Billing")).toBe(false);
+    expect(AUTH_PROFILE_NAME_PATTERN.test("-billing")).toBe(false);
+  });
+});
+
+describe("buildOAuth2TokenRequest", () => {
+  it("sends the grant, scopes and audience as a form, with Basic client authentication", () => {
+    const request = buildOAuth2TokenRequest(settings, "s3cr:et");
+
+    expect(Object.fromEntries(new URLSearchParams(request.body))).toEqual({
+      grant_type: "client_credentials",
+      scope: "invoices:read invoices:write",
+      audience: "https://api.example.com",
+    });
+    expect(request.headers["Content-Type"]).toBe("application/x-www-form-urlencoded");
+    expect(atob(request.headers.Authorization!.replace("Basic ", ""))).toBe("billing+client:s3cr%3Aet");
+  });
+
+  it("leaves out scope and audience when not set", () => {
+    const request = buildOAuth2TokenRequest({ ...settings, scopes: [], audience: null }, "secret");
+
+    expect(request.body).toBe("grant_type=client_credentials");
+  });
+});
+
+describe("parseOAuth2TokenResponse", () => {
+  it("reads the token and its lifetime", () => {
+    const token = parseOAuth2TokenResponse(200, JSON.stringify({ access_token: "tok", token_type: "Bearer", expires_in: 3600 }), now);
+
+    expect(token).toEqual({ accessToken: "tok", expiresAt: new Date("2026-10-19T13:00:00Z") });
+  });
+
+  it("reuses tokens without expires_in for the default lifetime", () => {
+    const token = parseOAuth2TokenResponse(200, JSON.stringify({ access_token: "tok" }), now);
+
+    expect(token.expiresAt).toEqual(new Date("2026-10-19T12:05:00Z"));
+  });
+
+  it("reports OAuth2 errors with the status and error code", () => {
+    const error = catchError(() => parseOAuth2TokenResponse(401, JSON.stringify({ error: "invalid_client", error_description: "Bad secret" }), now));
+
+    expect(error).toBeInstanceOf(OAuth2TokenError);
+    expect(error).toMatchObject({
+      message: "HTTP 401: invalid_client: Bad secret",
+      failure: { tokenStatusCode: 401, oauthError: "invalid_client" },
+    });
+  });
+
+  it("reports error responses without a JSON body by status", () => {
+    expect(() => parseOAuth2TokenResponse(503, "<html>down</html>", now)).toThrow("HTTP 503");
+  });
+
+  it("rejects responses without a bearer token", () => {
+    expect(() => parseOAuth2TokenResponse(200, "{}", now)).toThrow("token response has no access_token");
+    expect(() => parseOAuth2TokenResponse(200, JSON.stringify({ access_token: "tok", token_type: "mac" }), now))
+      .toThrow("unsupported token_type \"mac\"");
+  });
+});
+
+describe("isOAuth2TokenFresh", () => {
+  it("refreshes a minute before expiry", () => {
+    const token = { accessToken: "tok", expiresAt: new Date("2026-10-19T12:10:00Z") };
+
+    expect(isOAuth2TokenFresh(token, new Date("2026-10-19T12:08:59Z"))).toBe(true);
+    expect(isOAuth2TokenFresh(token, new Date("2026-10-19T12:09:00Z"))).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Auth profiles: access tokens the dispatcher obtains for an endpoint.
+ *
+ * An OAuth2 client credentials profile holds a token URL, client id and secret, scopes
+ * and audience. The dispatcher requests a token with them, reuses it until shortly
+ * before it expires, and sends it as `Authorization: Bearer <token>`. The token request
+ * and response handling here is pure; the HTTP call lives in the dispatcher.
+ */
+
+import type { AuthFailure, RetryableErrorClass } from "../entities/index.js";
+import type { OAuth2ClientCredentialsSettings } from "../ports/auth-profiles.js";
+
+/** Lower-case letters, digits, dashes and underscores, starting with a letter or digit */
+export const AUTH_PROFILE_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** Most auth profiles a user may store */
+export const MAX_AUTH_PROFILES_PER_USER = 20;
+
+/** Tokens are refreshed this long before they expire */
+export const OAUTH2_TOKEN_REFRESH_MARGIN_MS = 60 * 1000; // 1 minute
+
+/** How long a token without `expires_in` is reused */
+export const OAUTH2_DEFAULT_TOKEN_LIFETIME_MS = 5 * 60 * 1000; // 5 minutes
+
+/** An access token and when it stops being reused */
+export type OAuth2Token = {
+  accessToken: string;
+  expiresAt: Date;
+};
+
+/**
+ * A token request that failed. `failure` becomes the run's AuthFailure (without the
+ * profile name); `errorClass` is set when the token endpoint couldn't be reached, so
+ * retry policies treat it like the same failure on the endpoint itself.
+ */
+export class OAuth2TokenError extends Error {
+  constructor(
+    message: string,
+    readonly failure: Omit<AuthFailure, "authProfile"> = {},
+    readonly errorClass?: RetryableErrorClass,
+  ) {
+    super(message);
+    this.name = "OAuth2TokenError";
+  }
+}
+
+/**
+ * Headers and form body of a client credentials token request.
+ * The client authenticates with HTTP Basic (client_secret_basic), which RFC 6749
+ * requires token endpoints to support.
+ */
+export function buildOAuth2TokenRequest(
+  settings: OAuth2ClientCredentialsSettings,
+  clientSecret: string,
+): { headers: Record<string, string>; body: string } {
+  const params = new URLSearchParams({ grant_type: "client_credentials" });
+  if (settings.scopes.length > 0)
+    params.set("scope", settings.scopes.join(" "));
+  if (settings.audience)
+    params.set("audience", settings.audience);
+
+  // RFC 6749 §2.3.1: id and secret are form-encoded before being joined
+  const credentials = `${formEncode(settings.clientId)}:${formEncode(clientSecret)}`;
+  return {
+    headers: {
+      "Authorization": `Basic ${btoa(credentials)}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+      "Accept": "application/json",
+    },
+    body: params.toString(),
+  };
+}
+
+/**
+ * Reads a token endpoint's response.
+ *
+ * @param status - HTTP status of the token response
+ * @param bodyText - Response body
+ * @param now - Time the response arrived; `expires_in` counts from it
+ * @throws OAuth2TokenError for error responses and responses without a bearer token
+ */
+export function parseOAuth2TokenResponse(status: number, bodyText: string, now: Date): OAuth2Token {
+  const body = parseJsonObject(bodyText);
+
+  if (status < 200 || status >= 300) {
+    const oauthError = typeof body?.error === "string" ? body.error : undefined;
+    const description = typeof body?.error_description === "string" ? body.error_description : undefined;
+    const reason = [oauthError, description].filter(Boolean).join(": ");
+    throw new OAuth2TokenError(
+      reason ? `HTTP ${status}: ${reason}` : `HTTP ${status}`,
+      { tokenStatusCode: status, oauthError },
+    );
+  }
+
+  if (typeof body?.access_token !== "string" || body.access_token.length === 0) {
+    throw new OAuth2TokenError("token response has no access_token", { tokenStatusCode: status });
+  }
+  if (typeof body.token_type === "string" && body.token_type.toLowerCase() !== "bearer") {
+    throw new OAuth2TokenError(`unsupported token_type "${body.token_type}"`, { tokenStatusCode: status });
+  }
+
+  const expiresIn = Number(body.expires_in);
+  const lifetimeMs = Number.isFinite(expiresIn) && expiresIn > 0 ? expiresIn * 1000 : OAUTH2_DEFAULT_TOKEN_LIFETIME_MS;
+  return { accessToken: body.access_token, expiresAt: new Date(now.getTime() + lifetimeMs) };
+}
+
+/**
+ * Whether a cached token can still be sent, leaving OAUTH2_TOKEN_REFRESH_MARGIN_MS
+ * for the request to reach the endpoint.
+ */
+export function isOAuth2TokenFresh(token: OAuth2Token, now: Date): boolean {
+  return token.expiresAt.getTime() - OAUTH2_TOKEN_REFRESH_MARGIN_MS > now.getTime();
+}
+
+function formEncode(value: string): string {
+  return encodeURIComponent(value).replaceAll("%20", "+");
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | null {
+  try {
+    const value: unknown = JSON.parse(text);
+    // eslint-disable-next-line ts/consistent-type-assertions
+    return typeof value === "object" && value !== null && !Array.isArray(value) ? value as Record<string, unknown> : null;
+  }
+  catch {
+    return null;
+  }
+}
@@ -0,0 +1,4 @@
+/**
+ * Auth profiles module - OAuth2 client credentials token requests and token freshness.
+ */
+export * from "./auth-profiles.js";
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+
+import { at } from "../../fixtures/index.js";
+import { blackoutEndsAt, describeBlackoutWindow, listBlackoutPeriods, parseTimeOfDay } from "../blackout-windows.js";
+
+// 2025-01-05 is a Sunday; Berlin is UTC+1 in winter, UTC+2 in summer
+const sundayMaintenance = { name: "Sunday maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" };
+
+describe("parseTimeOfDay", () => {
+  it("parses 24-hour times", () => {
+    expect(parseTimeOfDay("00:00")).toBe(0);
+    expect(parseTimeOfDay("02:30")).toBe(150);
+    expect(parseTimeOfDay("23:59")).toBe(1439);
+  });
+
+  it("rejects malformed times", () => {
+    expect(parseTimeOfDay("24:00")).toBeNull();
+    expect(parseTimeOfDay("2:00")).toBeNull();
+    expect(parseTimeOfDay("02:60")).toBeNull();
+  });
+});
+
+describe("blackoutEndsAt", () => {
+  it("returns the end of the window containing the time", () => {
+    expect(blackoutEndsAt(at("2025-01-05T01:00:00Z"), [sundayMaintenance])).toEqual(at("2025-01-05T03:00:00Z"));
+  });
+
+  it("returns null outside windows and on other days", () => {
+    expect(blackoutEndsAt(at("2025-01-05T03:00:00Z"), [sundayMaintenance])).toBeNull();
+    expect(blackoutEndsAt(at("2025-01-04T01:00:00Z"), [sundayMaintenance])).toBeNull();
+  });
+
+  it("handles windows that end the next day", () => {
+    const nightly = { startTime: "22:00", endTime: "06:00" };
+
+    expect(blackoutEndsAt(at("2025-01-05T23:00:00Z"), [nightly])).toEqual(at("2025-01-06T06:00:00Z"));
+    expect(blackoutEndsAt(at("2025-01-06T05:00:00Z"), [nightly])).toEqual(at("2025-01-06T06:00:00Z"));
+    expect(blackoutEndsAt(at("2025-01-06T12:00:00Z"), [nightly])).toBeNull();
+  });
+
+  it("skips back-to-back windows together", () => {
+    const freeze = { dates: ["2025-12-24", "2025-12-25"] };
+    const boxingDay = { dates: ["2025-12-26"], startTime: "00:00", endTime: "09:00" };
+
+    expect(blackoutEndsAt(at("2025-12-24T10:00:00Z"), [freeze, boxingDay])).toEqual(at("2025-12-26T09:00:00Z"));
+  });
+
+  it("follows wall-clock time across DST changes", () => {
+    // Clocks go forward on 2026-03-29: 05:00 local is 03:00 UTC
+    const early = { dates: ["2026-03-29"], startTime: "01:00", endTime: "05:00", timezone: "Europe/Berlin" };
+
+    expect(blackoutEndsAt(at("2026-03-29T01:30:00Z"), [early])).toEqual(at("2026-03-29T03:00:00Z"));
+  });
+
+  it("covers US federal holidays and their observed weekdays", () => {
+    const holidays = { calendar: "us-federal-holidays" as const, timezone: "America/New_York" };
+
+    // Thanksgiving 2026 is Thursday, November 26
+    expect(blackoutEndsAt(at("2026-11-26T15:00:00Z"), [holidays])).toEqual(at("2026-11-27T05:00:00Z"));
+    // July 4, 2026 is a Saturday, observed on Friday the 3rd
+    expect(blackoutEndsAt(at("2026-07-03T15:00:00Z"), [holidays])).toEqual(at("2026-07-05T04:00:00Z"));
+    // New Year's Day 2028 is a Saturday, observed on December 31, 2027
+    expect(blackoutEndsAt(at("2027-12-31T15:00:00Z"), [holidays])).toEqual(at("2028-01-02T05:00:00Z"));
+    expect(blackoutEndsAt(at("2026-11-25T15:00:00Z"), [holidays])).toBeNull();
+  });
+});
+
+describe("listBlackoutPeriods", () => {
+  it("lists occurrences overlapping the range in start order", () => {
+    const periods = listBlackoutPeriods(
+      [sundayMaintenance, { dates: ["2025-01-08"] }],
+      at("2025-01-01T00:00:00Z"),
+      at("2025-01-13T00:00:00Z"),
+    );
+
+    expect(periods.map(p => [p.start.toISOString(), p.end.toISOString()])).toEqual([
+      ["2025-01-05T01:00:00.000Z", "2025-01-05T03:00:00.000Z"],
+      ["2025-01-08T00:00:00.000Z", "2025-01-09T00:00:00.000Z"],
+      ["2025-01-12T01:00:00.000Z", "2025-01-12T03:00:00.000Z"],
+    ]);
+    expect(periods[0]!.window).toBe(sundayMaintenance);
+  });
+
+  it("caps the number of periods", () => {
+    expect(listBlackoutPeriods([{ startTime: "01:00", endTime: "02:00" }], at("2025-01-01T00:00:00Z"), at("2025-03-01T00:00:00Z"), 10)).toHaveLength(10);
+  });
+});
+
+describe("describeBlackoutWindow", () => {
+  it("summarizes days, times and zone", () => {
+    expect(describeBlackoutWindow(sundayMaintenance)).toBe("Sunday maintenance: Sun 02:00-04:00 (Europe/Berlin)");
+    expect(describeBlackoutWindow({ daysOfWeek: [6, 0], calendar: "us-federal-holidays" })).toBe("Sun, Sat, US federal holidays all day (UTC)");
+    expect(describeBlackoutWindow({ startTime: "22:00", endTime: "06:00" })).toBe("Every day 22:00-06:00 (UTC)");
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Blackout windows: recurring periods in which runs must not start.
+ *
+ * Windows can sit on an endpoint or on its job; both apply. `planNextRun` pushes a
+ * planned time that falls inside a window to the window's end, and the scheduler
+ * defers any claimed run (hinted, manual, triggered or dependent) the same way, so
+ * neither AI hints nor manual requests can run inside a window.
+ */
+
+import type { BlackoutWindow } from "../entities/index.js";
+import type { LocalDate } from "./local-time.js";
+
+import { isCalendarHoliday } from "./holidays.js";
+import { addDays, dayOfWeek, formatLocalDate, fromLocal, toLocal } from "./local-time.js";
+
+/** Most blackout windows a single job or endpoint may have */
+export const MAX_BLACKOUT_WINDOWS = 20;
+
+/** Most back-to-back windows skipped when looking for the end of a blackout (over a year of whole days) */
+const MAX_CHAINED_WINDOWS = 400;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** One occurrence of a blackout window */
+export type BlackoutPeriod = {
+  window: BlackoutWindow;
+  start: Date;
+  end: Date;
+};
+
+/**
+ * Parses an "HH:MM" time of day.
+ *
+ * @param time - 24-hour time, e.g. "02:00"
+ * @returns Minutes since midnight, or null when malformed
+ */
+export function parseTimeOfDay(time: string): number | null {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+function appliesOn(window: BlackoutWindow, date: LocalDate): boolean {
+  if (!window.daysOfWeek?.length && !window.dates?.length && !window.calendar)
+    return true;
+  return (window.daysOfWeek?.includes(dayOfWeek(date)) ?? false)
+    || (window.dates?.includes(formatLocalDate(date)) ?? false)
+    || (window.calendar !== undefined && isCalendarHoliday(window.calendar, date));
+}
+
+/** The occurrence of a window that starts on a local date, if it applies that day */
+function occurrenceOn(window: BlackoutWindow, date: LocalDate): BlackoutPeriod | null {
+  if (!appliesOn(window, date))
+    return null;
+
+  const timeZone = window.timezone ?? "UTC";
+  const startMinutes = window.startTime ? parseTimeOfDay(window.startTime) ?? 0 : 0;
+  const endMinutes = window.endTime ? parseTimeOfDay(window.endTime) ?? 0 : 0;
+  const endDate = endMinutes <= startMinutes ? addDays(date, 1) : date;
+  return {
+    window,
+    start: fromLocal(date, startMinutes, timeZone),
+    end: fromLocal(endDate, endMinutes, timeZone),
+  };
+}
+
+/** End of the window's occurrence that contains `at`, if any */
+function activeEnd(window: BlackoutWindow, at: Date): Date | null {
+  const today = toLocal(at, window.timezone ?? "UTC").date;
+  // Windows last at most a day, so only occurrences starting yesterday or today can contain `at`
+  for (const date of [addDays(today, -1), today]) {
+    const period = occurrenceOn(window, date);
+    if (period && period.start <= at && at < period.end)
+      return period.end;
+  }
+  return null;
+}
+
+/**
+ * When a time falls in a blackout, the first instant after it outside every window.
+ *
+ * Back-to-back and overlapping windows are skipped together.
+ *
+ * @param at - The time to check
+ * @param windows - Blackout windows of the endpoint and its job
+ * @returns The end of the blackout, or null when `at` isn't blacked out
+ */
+export function blackoutEndsAt(at: Date, windows: readonly BlackoutWindow[]): Date | null {
+  let end: Date | null = null;
+  for (let i = 0; i < MAX_CHAINED_WINDOWS; i++) {
+    const current: Date = end ?? at;
+    const ends: Date[] = windows.map(window => activeEnd(window, current)).filter((e): e is Date => e !== null);
+    if (ends.length === 0)
+      return end;
+    end = new Date(Math.max(...ends.map(e => e.getTime())));
+  }
+  return end;
+}
+
+/**
+ * Occurrences of blackout windows that overlap a time range, for display.
+ *
+ * @param windows - Blackout windows
+ * @param from - Range start
+ * @param to - Range end
+ * @param limit - Most periods to return (default: 100)
+ * @returns Periods ordered by start time
+ */
+export function listBlackoutPeriods(windows: readonly BlackoutWindow[], from: Date, to: Date, limit = 100): BlackoutPeriod[] {
+  const periods: BlackoutPeriod[] = [];
+  for (const window of windows) {
+    const timeZone = window.timezone ?? "UTC";
+    const last = toLocal(to, timeZone).date;
+    let date = addDays(toLocal(from, timeZone).date, -1);
+    for (let i = 0; i <= MAX_CHAINED_WINDOWS && formatLocalDate(date) <= formatLocalDate(last); i++) {
+      const period = occurrenceOn(window, date);
+      if (period && period.end > from && period.start < to)
+        periods.push(period);
+      date = addDays(date, 1);
+    }
+  }
+  return periods.sort((a, b) => a.start.getTime() - b.start.getTime()).slice(0, limit);
+}
+
+/**
+ * A short description of a window, e.g. `Sunday maintenance: Sun 02:00-04:00 (Europe/Berlin)`.
+ *
+ * @param window - The blackout window
+ * @returns Human-readable summary for prompts and UIs
+ */
+export function describeBlackoutWindow(window: BlackoutWindow): string {
+  const days: string[] = [];
+  if (window.daysOfWeek?.length)
+    days.push([...window.daysOfWeek].sort((a, b) => a - b).map(d => DAY_NAMES[d] ?? String(d)).join(", "));
+  if (window.dates?.length)
+    days.push(window.dates.join(", "));
+  if (window.calendar === "us-federal-holidays")
+    days.push("US federal holidays");
+
+  const time = window.startTime && window.endTime ? `${window.startTime}-${window.endTime}` : "all day";
+  const summary = `${days.length > 0 ? days.join(", ") : "Every day"} ${time} (${window.timezone ?? "UTC"})`;
+  return window.name ? `${window.name}: ${summary}` : summary;
+}
@@ -0,0 +1,80 @@
+/**
+ * Built-in holiday calendars for blackout windows.
+ */
+
+import type { BlackoutCalendar } from "../entities/index.js";
+import type { LocalDate } from "./local-time.js";
+
+import { addDays, dayOfWeek, formatLocalDate } from "./local-time.js";
+
+/** Calendars accepted in `BlackoutWindow.calendar` */
+export const BLACKOUT_CALENDARS: readonly BlackoutCalendar[] = ["us-federal-holidays"];
+
+/** The nth given weekday of a month (n = -1 for the last one) */
+function nthWeekday(year: number, month: number, weekday: number, n: number): LocalDate {
+  if (n > 0) {
+    const first = dayOfWeek({ year, month, day: 1 });
+    return { year, month, day: 1 + ((weekday - first + 7) % 7) + (n - 1) * 7 };
+  }
+  const lastOfMonth: LocalDate = { year, month, day: new Date(Date.UTC(year, month, 0)).getUTCDate() };
+  return { year, month, day: lastOfMonth.day - ((dayOfWeek(lastOfMonth) - weekday + 7) % 7) };
+}
+
+const usHolidayCache = new Map<number, Set<string>>();
+
+/** US federal holidays of a year, with weekend holidays also observed on the nearest weekday */
+function usFederalHolidays(year: number): Set<string> {
+  const cached = usHolidayCache.get(year);
+  if (cached)
+    return cached;
+
+  const fixed: LocalDate[] = [
+    { year, month: 1, day: 1 }, // New Year's Day
+    { year, month: 6, day: 19 }, // Juneteenth
+    { year, month: 7, day: 4 }, // Independence Day
+    { year, month: 11, day: 11 }, // Veterans Day
+    { year, month: 12, day: 25 }, // Christmas Day
+  ];
+  const floating: LocalDate[] = [
+    nthWeekday(year, 1, 1, 3), // Martin Luther King Jr. Day
+    nthWeekday(year, 2, 1, 3), // Washington's Birthday
+    nthWeekday(year, 5, 1, -1), // Memorial Day
+    nthWeekday(year, 9, 1, 1), // Labor Day
+    nthWeekday(year, 10, 1, 2), // Columbus Day
+    nthWeekday(year, 11, 4, 4), // Thanksgiving Day
+  ];
+
+  const dates = new Set<string>();
+  for (const date of fixed) {
+    dates.add(formatLocalDate(date));
+    const weekday = dayOfWeek(date);
+    if (weekday === 6)
+      dates.add(formatLocalDate(addDays(date, -1)));
+    else if (weekday === 0)
+      dates.add(formatLocalDate(addDays(date, 1)));
+  }
+  for (const date of floating)
+    dates.add(formatLocalDate(date));
+
+  usHolidayCache.set(year, dates);
+  return dates;
+}
+
+/**
+ * Whether a local date is a holiday in a built-in calendar.
+ *
+ * @param calendar - The calendar
+ * @param date - Local date
+ * @returns True on the holiday itself and on the weekday it's observed on
+ */
+export function isCalendarHoliday(calendar: BlackoutCalendar, date: LocalDate): boolean {
+  switch (calendar) {
+    case "us-federal-holidays": {
+      const key = formatLocalDate(date);
+      // New Year's Day on a Saturday is observed on December 31 of the year before
+      return usFederalHolidays(date.year).has(key) || usFederalHolidays(date.year + 1).has(key);
+    }
+    default:
+      return false;
+  }
+}
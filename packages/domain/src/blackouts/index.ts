@@ -0,0 +1,5 @@
+/**
+ * Blackouts module - recurring windows and holiday calendars in which runs don't start.
+ */
+export * from "./blackout-windows.js";
+export { BLACKOUT_CALENDARS } from "./holidays.js";
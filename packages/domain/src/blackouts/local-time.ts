@@ -0,0 +1,83 @@
+/**
+ * Wall-clock helpers for evaluating blackout windows in an IANA timezone.
+ *
+ * Built on Intl only, so the domain stays dependency-free. A local time that a DST
+ * change skips is moved forward by the length of the gap; a repeated one resolves
+ * to its second occurrence.
+ */
+
+/** A calendar date in some timezone (month is 1-12) */
+export type LocalDate = { year: number; month: number; day: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Local date and time of an instant.
+ *
+ * @param at - The instant
+ * @param timeZone - IANA zone
+ * @returns The local date, minutes since local midnight, and the zone's UTC offset
+ */
+export function toLocal(at: Date, timeZone: string): { date: LocalDate; minutes: number; offsetMs: number } {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(at)) {
+    if (part.type !== "literal")
+      parts[part.type] = Number(part.value);
+  }
+  const hour = parts.hour! % 24;
+  const wallMs = Date.UTC(parts.year!, parts.month! - 1, parts.day!, hour, parts.minute!, parts.second!);
+  const atSecondMs = at.getTime() - (((at.getTime() % 1000) + 1000) % 1000);
+  return {
+    date: { year: parts.year!, month: parts.month!, day: parts.day! },
+    minutes: hour * 60 + parts.minute!,
+    offsetMs: wallMs - atSecondMs,
+  };
+}
+
+/**
+ * The instant a local wall-clock time occurs.
+ *
+ * @param date - Local date
+ * @param minutes - Minutes since local midnight
+ * @param timeZone - IANA zone
+ * @returns The instant
+ */
+export function fromLocal(date: LocalDate, minutes: number, timeZone: string): Date {
+  const wallMs = Date.UTC(date.year, date.month - 1, date.day, 0, minutes);
+  const guess = wallMs - toLocal(new Date(wallMs), timeZone).offsetMs;
+  const offsetAtGuess = toLocal(new Date(guess), timeZone).offsetMs;
+  return new Date(wallMs - offsetAtGuess);
+}
+
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() };
+}
+
+/** 0 = Sunday ... 6 = Saturday */
+export function dayOfWeek(date: LocalDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/** "YYYY-MM-DD" */
+export function formatLocalDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it, vi } from "vitest";
+
+import { at } from "../../fixtures/index.js";
+import { cancelReplacedRuns, planConcurrency, REPLACED_RUN_REASON } from "../concurrency.js";
+
+const openRuns = [
+  { id: "run_1", startedAt: at("2025-01-01T00:00:00Z"), source: "baseline-interval" },
+  { id: "run_2", startedAt: at("2025-01-01T00:05:00Z"), source: "manual" },
+];
+
+describe("planConcurrency", () => {
+  it("runs when nothing is open, whatever the policy", () => {
+    expect(planConcurrency("forbid", [])).toEqual({ action: "run", cancel: [] });
+    expect(planConcurrency("replace", [])).toEqual({ action: "run", cancel: [] });
+  });
+
+  it("runs alongside open runs under allow and by default", () => {
+    expect(planConcurrency("allow", openRuns)).toEqual({ action: "run", cancel: [] });
+    expect(planConcurrency(undefined, openRuns)).toEqual({ action: "run", cancel: [] });
+  });
+
+  it("skips under forbid, naming the latest open run", () => {
+    const plan = planConcurrency("forbid", openRuns);
+
+    expect(plan).toEqual({
+      action: "skip",
+      reason: "Skipped: run run_2 has been running since 2025-01-01T00:05:00.000Z (concurrency policy: forbid)",
+    });
+  });
+
+  it("cancels every open run under replace", () => {
+    const plan = planConcurrency("replace", openRuns);
+
+    expect(plan).toEqual({ action: "run", cancel: openRuns });
+  });
+});
+
+describe("cancelReplacedRuns", () => {
+  it("finishes each replaced run as canceled with its duration so far", async () => {
+    const runs = { finish: vi.fn().mockResolvedValue(undefined) };
+
+    await cancelReplacedRuns(runs, openRuns, at("2025-01-01T00:10:00Z"));
+
+    expect(runs.finish).toHaveBeenCalledTimes(2);
+    expect(runs.finish).toHaveBeenCalledWith("run_1", { status: "canceled", durationMs: 600_000, err: REPLACED_RUN_REASON });
+    expect(runs.finish).toHaveBeenCalledWith("run_2", { status: "canceled", durationMs: 300_000, err: REPLACED_RUN_REASON });
+  });
+});
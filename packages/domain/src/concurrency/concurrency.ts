@@ -0,0 +1,73 @@
+/**
+ * Concurrency policies: overlapping runs of one endpoint.
+ *
+ * The endpoint lease keeps two workers from dispatching an endpoint at the same time,
+ * but a run can outlive its lease (a worker stalls, a request hangs past the lease TTL)
+ * and test runs don't take the lease at all. Before a run starts, the endpoint's open
+ * runs are checked against its concurrency policy: allow starts it anyway, forbid skips
+ * it, and replace cancels the open runs first.
+ *
+ * Replacing only closes the earlier runs' records; a request already in flight on
+ * another worker is not interrupted.
+ */
+
+import type { ConcurrencyPolicy } from "../entities/index.js";
+import type { RunsRepo } from "../ports/index.js";
+
+/** Concurrency policies, in the order they're offered */
+export const CONCURRENCY_POLICIES: readonly ConcurrencyPolicy[] = ["allow", "forbid", "replace"];
+
+/** Error recorded on runs canceled by a newer run under the replace policy */
+export const REPLACED_RUN_REASON = "Replaced by a newer run (concurrency policy: replace)";
+
+/** An unfinished run of the endpoint */
+export type OpenRun = {
+  id: string;
+  startedAt: Date;
+  source?: string;
+};
+
+/** Whether a due run starts */
+export type ConcurrencyPlan =
+  | { action: "run"; cancel: OpenRun[] } // Open runs to cancel before starting (replace)
+  | { action: "skip"; reason: string }; // Recorded as the skipped run's error
+
+/**
+ * Decides whether a due run starts, given the endpoint's open runs.
+ *
+ * @param policy - The endpoint's concurrency policy (default: allow)
+ * @param openRuns - The endpoint's unfinished runs
+ * @returns Run (after canceling the listed runs), or skip with the reason
+ */
+export function planConcurrency(policy: ConcurrencyPolicy | undefined, openRuns: readonly OpenRun[]): ConcurrencyPlan {
+  if (openRuns.length === 0 || policy === undefined || policy === "allow") {
+    return { action: "run", cancel: [] };
+  }
+
+  if (policy === "replace") {
+    return { action: "run", cancel: [...openRuns] };
+  }
+
+  const latest = openRuns.reduce((a, b) => (b.startedAt > a.startedAt ? b : a));
+  return {
+    action: "skip",
+    reason: `Skipped: run ${latest.id} has been running since ${latest.startedAt.toISOString()} (concurrency policy: forbid)`,
+  };
+}
+
+/**
+ * Closes the runs a newer run replaces, as canceled with REPLACED_RUN_REASON.
+ *
+ * @param runs - Runs repository
+ * @param replaced - The open runs to cancel (from a "run" plan)
+ * @param now - Current time, for the canceled runs' durations
+ */
+export async function cancelReplacedRuns(runs: Pick<RunsRepo, "finish">, replaced: readonly OpenRun[], now: Date): Promise<void> {
+  for (const run of replaced) {
+    await runs.finish(run.id, {
+      status: "canceled",
+      durationMs: Math.max(0, now.getTime() - run.startedAt.getTime()),
+      err: REPLACED_RUN_REASON,
+    });
+  }
+}
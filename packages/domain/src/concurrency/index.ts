@@ -0,0 +1,4 @@
+/**
+ * Concurrency module - what happens to a run that is due while an earlier one is still running.
+ */
+export * from "./concurrency.js";
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+
+import { at, makeEndpoint } from "../../fixtures/index.js";
+import { findDependencyCycle, isDependencySatisfied, planDependentRuns } from "../dependencies.js";
+
+const t0 = at("2025-01-01T00:00:00Z");
+const t1 = at("2025-01-01T01:00:00Z");
+const t2 = at("2025-01-01T02:00:00Z");
+
+describe("findDependencyCycle", () => {
+  it("returns null for a DAG", () => {
+    const endpoints = [
+      { id: "extract" },
+      { id: "transform", runAfter: { upstreamIds: ["extract"], mode: "all" as const } },
+      { id: "load", runAfter: { upstreamIds: ["extract", "transform"], mode: "all" as const } },
+    ];
+
+    expect(findDependencyCycle(endpoints)).toBeNull();
+  });
+
+  it("returns the cycle path", () => {
+    const endpoints = [
+      { id: "a", runAfter: { upstreamIds: ["c"], mode: "all" as const } },
+      { id: "b", runAfter: { upstreamIds: ["a"], mode: "all" as const } },
+      { id: "c", runAfter: { upstreamIds: ["b"], mode: "any" as const } },
+    ];
+
+    expect(findDependencyCycle(endpoints)).toEqual(["a", "c", "b", "a"]);
+  });
+
+  it("detects self-dependencies", () => {
+    expect(findDependencyCycle([{ id: "a", runAfter: { upstreamIds: ["a"], mode: "all" } }])).toEqual(["a", "a"]);
+  });
+
+  it("ignores upstream IDs outside the list", () => {
+    expect(findDependencyCycle([{ id: "a", runAfter: { upstreamIds: ["gone"], mode: "all" } }])).toBeNull();
+  });
+});
+
+describe("isDependencySatisfied", () => {
+  const dependent = (mode: "all" | "any") => makeEndpoint({
+    id: "load",
+    lastRunAt: t0,
+    runAfter: { upstreamIds: ["a", "b"], mode },
+  });
+
+  it("requires every upstream to succeed since the last run in all mode", () => {
+    const a = makeEndpoint({ id: "a", lastRunAt: t1 });
+    const b = makeEndpoint({ id: "b", lastRunAt: t0 });
+
+    expect(isDependencySatisfied(dependent("all"), [a, b])).toBe(false);
+    expect(isDependencySatisfied(dependent("all"), [a, { ...b, lastRunAt: t2 }])).toBe(true);
+  });
+
+  it("needs one upstream success in any mode", () => {
+    const a = makeEndpoint({ id: "a", lastRunAt: t1 });
+    const b = makeEndpoint({ id: "b" });
+
+    expect(isDependencySatisfied(dependent("any"), [a, b])).toBe(true);
+  });
+
+  it("treats a failed last run as unsatisfied", () => {
+    const a = makeEndpoint({ id: "a", lastRunAt: t1, failureCount: 1 });
+    const b = makeEndpoint({ id: "b", lastRunAt: t1 });
+
+    expect(isDependencySatisfied(dependent("all"), [a, b])).toBe(false);
+    expect(isDependencySatisfied(dependent("any"), [a, b])).toBe(true);
+  });
+
+  it("accepts any upstream success when the dependent never ran", () => {
+    const ep = makeEndpoint({ id: "load", runAfter: { upstreamIds: ["a"], mode: "all" } });
+
+    expect(isDependencySatisfied(ep, [makeEndpoint({ id: "a", lastRunAt: t0 })])).toBe(true);
+  });
+
+  it("ignores archived upstreams but is never satisfied without any", () => {
+    const a = makeEndpoint({ id: "a", lastRunAt: t1 });
+    const b = makeEndpoint({ id: "b", archivedAt: t0 });
+
+    expect(isDependencySatisfied(dependent("all"), [a, b])).toBe(true);
+    expect(isDependencySatisfied(dependent("all"), [{ ...a, archivedAt: t0 }, b])).toBe(false);
+  });
+});
+
+describe("planDependentRuns", () => {
+  it("enqueues satisfied dependents after their delay", () => {
+    const extract = makeEndpoint({ id: "extract", lastRunAt: t1 });
+    const transform = makeEndpoint({ id: "transform", lastRunAt: t0, runAfter: { upstreamIds: ["extract"], mode: "all", delayMs: 30_000 } });
+    const load = makeEndpoint({ id: "load", lastRunAt: t0, runAfter: { upstreamIds: ["transform"], mode: "all" } });
+
+    expect(planDependentRuns(extract, [extract, transform, load], t1)).toEqual([
+      { endpointId: "transform", runAt: new Date(t1.getTime() + 30_000) },
+    ]);
+  });
+
+  it("uses the upstream's post-run state over the sibling list", () => {
+    const stale = makeEndpoint({ id: "extract", lastRunAt: t0 });
+    const transform = makeEndpoint({ id: "transform", lastRunAt: t0, runAfter: { upstreamIds: ["extract"], mode: "all" } });
+
+    expect(planDependentRuns({ ...stale, lastRunAt: t1 }, [stale, transform], t1)).toHaveLength(1);
+  });
+
+  it("skips paused, archived and unsatisfied dependents", () => {
+    const a = makeEndpoint({ id: "a", lastRunAt: t1 });
+    const b = makeEndpoint({ id: "b" });
+    const runAfter = { upstreamIds: ["a"], mode: "all" as const };
+    const paused = makeEndpoint({ id: "paused", runAfter, pausedUntil: t2 });
+    const archived = makeEndpoint({ id: "archived", runAfter, archivedAt: t0 });
+    const waiting = makeEndpoint({ id: "waiting", runAfter: { upstreamIds: ["a", "b"], mode: "all" } });
+
+    expect(planDependentRuns(a, [a, b, paused, archived, waiting], t1)).toEqual([]);
+  });
+
+  it("doesn't trigger on a failed upstream run", () => {
+    const a = makeEndpoint({ id: "a", lastRunAt: t1, failureCount: 1 });
+    const dep = makeEndpoint({ id: "dep", runAfter: { upstreamIds: ["a"], mode: "any" } });
+
+    expect(planDependentRuns(a, [a, dep], t1)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Endpoint dependencies within a job.
+ *
+ * An endpoint can declare `runAfter` upstream endpoints of the same job. When an upstream
+ * run finishes, dependents whose condition is met (all or any upstreams succeeded since
+ * the dependent last ran) get a one-shot run, optionally delayed. The baseline cadence
+ * keeps running alongside as a fallback. Dependencies must form a DAG.
+ */
+
+import type { JobEndpoint } from "../entities/index.js";
+
+/** Run source for runs triggered by upstream endpoints */
+export const DEPENDENCY_RUN_SOURCE = "dependency";
+
+/** Most upstreams a single endpoint may depend on */
+export const MAX_UPSTREAM_ENDPOINTS = 20;
+
+/** Largest accepted runAfter.delayMs (24 hours) */
+export const MAX_DEPENDENCY_DELAY_MS = 24 * 60 * 60 * 1000;
+
+/** A one-shot run to enqueue for a dependent endpoint */
+export type DependentRun = {
+  endpointId: string;
+  runAt: Date;
+};
+
+/**
+ * Finds a dependency cycle among a job's endpoints.
+ *
+ * @param endpoints - The job's endpoints (with any proposed runAfter change applied)
+ * @returns Endpoint IDs along the cycle, starting and ending with the same ID, or null
+ */
+export function findDependencyCycle(endpoints: Pick<JobEndpoint, "id" | "runAfter">[]): string[] | null {
+  const upstreamsOf = new Map(endpoints.map(ep => [ep.id, ep.runAfter?.upstreamIds ?? []]));
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done")
+      return null;
+    if (state.get(id) === "visiting")
+      return [...path.slice(path.indexOf(id)), id];
+
+    state.set(id, "visiting");
+    path.push(id);
+    for (const upstreamId of upstreamsOf.get(id) ?? []) {
+      const cycle = visit(upstreamId);
+      if (cycle)
+        return cycle;
+    }
+    path.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const ep of endpoints) {
+    const cycle = visit(ep.id);
+    if (cycle)
+      return cycle;
+  }
+  return null;
+}
+
+/**
+ * Whether a dependent's upstream condition is met: its active upstreams' last runs
+ * succeeded after the dependent's own last run (every upstream for "all", one for "any").
+ * Archived and deleted upstreams are ignored; with none left, the condition is never met.
+ *
+ * @param ep - Dependent endpoint
+ * @param siblings - Endpoints of the same job
+ */
+export function isDependencySatisfied(ep: JobEndpoint, siblings: JobEndpoint[]): boolean {
+  if (!ep.runAfter || ep.runAfter.upstreamIds.length === 0)
+    return false;
+
+  const upstreamIds = new Set(ep.runAfter.upstreamIds);
+  const upstreams = siblings.filter(s => upstreamIds.has(s.id) && !s.archivedAt);
+  if (upstreams.length === 0)
+    return false;
+
+  const succeededSince = (up: JobEndpoint) =>
+    !!up.lastRunAt
+    && up.failureCount === 0
+    && (!ep.lastRunAt || up.lastRunAt > ep.lastRunAt);
+
+  return ep.runAfter.mode === "any"
+    ? upstreams.some(succeededSince)
+    : upstreams.every(succeededSince);
+}
+
+/**
+ * Plans the one-shot runs to enqueue after an upstream run finished.
+ *
+ * Only dependents of `upstream` are considered; archived, paused and heartbeat
+ * dependents are skipped.
+ *
+ * @param upstream - The endpoint whose run just finished (with its post-run state)
+ * @param siblings - Endpoints of the same job (post-run state)
+ * @param now - When the upstream run finished
+ * @returns Runs to enqueue, at now plus each dependent's delay
+ */
+export function planDependentRuns(upstream: JobEndpoint, siblings: JobEndpoint[], now: Date): DependentRun[] {
+  const current = siblings.map(s => (s.id === upstream.id ? upstream : s));
+
+  return current
+    .filter(ep =>
+      ep.runAfter?.upstreamIds.includes(upstream.id)
+      && ep.kind !== "heartbeat"
+      && !ep.archivedAt
+      && !(ep.pausedUntil && ep.pausedUntil > now)
+      && isDependencySatisfied(ep, current))
+    .map(ep => ({
+      endpointId: ep.id,
+      runAt: new Date(now.getTime() + (ep.runAfter?.delayMs ?? 0)),
+    }));
+}
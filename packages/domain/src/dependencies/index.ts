@@ -0,0 +1,4 @@
+/**
+ * Dependencies module - DAG validation and downstream triggering between endpoints of a job.
+ */
+export * from "./dependencies.js";
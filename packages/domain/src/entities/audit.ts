@@ -0,0 +1,66 @@
+/**
+ * Audit entities - an append-only record of configuration and scheduling changes.
+ */
+
+/**
+ * Who made a change.
+ * - user: signed in to the web app (session cookie); `id` is the user ID
+ * - api_key: an API key; `id` is the key ID
+ * - device: a device-flow bearer token (MCP server, CLI); `id` is the token's session ID
+ * - ai_session: the AI planner; `id` is the analysis session ID
+ */
+export type AuditActorType = "user" | "api_key" | "device" | "ai_session";
+
+export type AuditActor = {
+  readonly type: AuditActorType;
+  readonly id: string;
+  readonly userId?: string; // The user behind a key or token (absent for the AI planner)
+};
+
+export type AuditAction =
+  | "job.created"
+  | "job.updated"
+  | "job.archived"
+  | "job.paused"
+  | "job.resumed"
+  | "endpoint.created"
+  | "endpoint.updated"
+  | "endpoint.archived"
+  | "endpoint.deleted"
+  | "endpoint.paused"
+  | "endpoint.resumed"
+  | "endpoint.interval_hint"
+  | "endpoint.one_shot_hint"
+  | "endpoint.hints_cleared"
+  | "endpoint.failures_reset"
+  | "endpoint.run_requested"
+  | "endpoint.trigger_token_created"
+  | "endpoint.trigger_token_rotated"
+  | "endpoint.trigger_token_revoked"
+  | "signing_key.created"
+  | "signing_key.rotated"
+  | "signing_key.updated";
+
+/** One changed field; values are JSON (dates as ISO strings, credentials redacted) */
+export type AuditChange = {
+  readonly field: string;
+  readonly before: unknown;
+  readonly after: unknown;
+};
+
+/**
+ * Audit event - one change to a job, endpoint or signing key.
+ *
+ * `tenantId` is the owner of the changed resource (the organization for org jobs),
+ * so every member who can see the job can see its history.
+ */
+export type AuditEvent = {
+  readonly id: string;
+  readonly tenantId: string;
+  readonly actor: AuditActor;
+  readonly action: AuditAction;
+  readonly jobId?: string;
+  readonly endpointId?: string;
+  readonly changes: AuditChange[];
+  readonly createdAt: Date;
+};
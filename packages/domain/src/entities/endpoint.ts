@@ -1,3 +1,5 @@
+import type { AuditActor } from "./audit.js";
+
 /**
  * Represents any valid JSON value.
  * Used for HTTP request bodies that will be serialized to JSON.
@@ -10,6 +12,180 @@ export type JsonValue =
   | JsonValue[]
   | { [key: string]: JsonValue };
 
+/**
+ * Failure classes (besides HTTP status codes) that a retry policy can retry on.
+ * - timeout: request exceeded timeoutMs
+ * - network: connection refused/reset, DNS failure, TLS error, etc.
+ */
+export type RetryableErrorClass = "timeout" | "network";
+
+/**
+ * In-run retry policy.
+ *
+ * Retries happen inside a single run, before the run is recorded as failed.
+ * This is separate from failureCount backoff, which only spaces out the *next*
+ * scheduled run after a run has failed.
+ */
+export type RetryPolicy = {
+  maxAttempts: number; // Total attempts per run, including the first (1 = no retries)
+  backoff: "fixed" | "exponential" | "jittered";
+  initialDelayMs: number; // Delay before the first retry (base for exponential/jittered)
+  maxDelayMs?: number; // Upper bound for a single delay, including Retry-After (default: 60000)
+  retryOnStatusCodes?: number[]; // Default: 408, 425, 429, 500, 502, 503, 504
+  retryOnErrors?: RetryableErrorClass[]; // Default: ["timeout", "network"]
+  respectRetryAfter?: boolean; // Wait for the Retry-After response header when present (default: true)
+};
+
+/**
+ * Comparison applied by a ResponseAssertion.
+ * - exists / notExists: whether the path resolves (value is ignored)
+ * - equals / notEquals: deep JSON equality
+ * - contains: substring of a string, or element of an array
+ * - matches: value is a regular expression tested against a string
+ * - gt / gte / lt / lte: numeric comparison
+ */
+export type AssertionOperator = "exists" | "notExists" | "equals" | "notEquals" | "contains" | "matches" | "gt" | "gte" | "lt" | "lte";
+
+/**
+ * Assertion on the JSON response body.
+ * `path` is either a JSONPath (`$.checks[0].status`, `$['x-y']`) or a JSON pointer
+ * (`/checks/0/status`). Only single-value paths are supported (no wildcards or filters).
+ */
+export type ResponseAssertion = {
+  path: string;
+  operator: AssertionOperator;
+  value?: JsonValue;
+};
+
+/**
+ * Per-endpoint success rules, evaluated after each dispatch.
+ *
+ * Without criteria, a run succeeds iff the response status is 2xx.
+ */
+export type SuccessCriteria = {
+  statusCodes?: string[]; // Accepted statuses: "200", "2xx", "200-299" (default: 2xx)
+  assertions?: ResponseAssertion[]; // All must hold
+  maxLatencyMs?: number; // Slower responses fail the run
+};
+
+/**
+ * How an endpoint's runs come about.
+ * - http: the scheduler calls `url` on the baseline cadence
+ * - heartbeat: an external job checks in on the endpoint's ping URL, and the scheduler
+ *   records a failed run when no check-in arrives by the expected time plus graceMs
+ */
+export type EndpointKind = "http" | "heartbeat";
+
+/**
+ * Check-in signal sent to a heartbeat ping URL.
+ * A plain ping counts as success; "start" opens a run that the next success/fail closes.
+ */
+export type HeartbeatSignal = "start" | "success" | "fail";
+
+/**
+ * How a dependent endpoint waits on its upstreams.
+ * - all: every upstream must succeed after the dependent's last run
+ * - any: one upstream succeeding is enough
+ */
+export type DependencyMode = "all" | "any";
+
+/**
+ * Upstream endpoints (in the same job) whose success triggers a one-shot run of this one.
+ *
+ * Dependencies add runs on top of the baseline cadence; the baseline keeps running as a
+ * fallback. Dependencies must form a DAG within the job.
+ */
+export type EndpointDependencies = {
+  upstreamIds: string[]; // Endpoint IDs in the same job (empty = no dependencies)
+  mode: DependencyMode;
+  delayMs?: number; // Wait after the triggering upstream finishes (default: 0)
+};
+
+/**
+ * Built-in holiday calendars a blackout window can follow.
+ * - us-federal-holidays: US federal holidays, plus the weekday they're observed on
+ *   when they fall on a weekend
+ */
+export type BlackoutCalendar = "us-federal-holidays";
+
+/**
+ * A recurring period in which runs must not start.
+ *
+ * Times are local wall-clock times in `timezone`. The window applies on days that match
+ * any of its day selectors (`daysOfWeek`, `dates`, `calendar`), or on every day when it
+ * has none. Without start and end times it covers the whole day; an end time at or before
+ * the start time ends on the following day.
+ */
+export type BlackoutWindow = {
+  name?: string; // e.g. "Sunday maintenance"
+  timezone?: string; // IANA zone (default: UTC)
+  daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday
+  dates?: string[]; // Local dates, "YYYY-MM-DD"
+  calendar?: BlackoutCalendar;
+  startTime?: string; // "HH:MM", set together with endTime
+  endTime?: string; // "HH:MM"
+};
+
+/**
+ * What the scheduler does with occurrences missed while it was down or behind.
+ * - skip: drop the missed occurrences and wait for the next one
+ * - run-once: run once for the latest missed occurrence
+ * - run-all: run every missed occurrence in order, up to maxBacklog (the oldest beyond it are dropped)
+ */
+export type MisfireMode = "skip" | "run-once" | "run-all";
+
+/**
+ * How an endpoint catches up when it's claimed well after its nextRunAt.
+ *
+ * Catch-up runs are recorded with the occurrence they stand in for as their scheduled
+ * time. Without a policy late claims aren't treated as misfires: the endpoint runs once, as
+ * a normal scheduled run, and plans its next run from now.
+ */
+export type MisfirePolicy = {
+  mode: MisfireMode;
+  maxBacklog?: number; // Most missed occurrences run-all replays (default: 10)
+  thresholdMs?: number; // How late a claim must be to count as a misfire (default: 1 minute)
+};
+
+/**
+ * What happens when a run is due while an earlier run of the endpoint is still running,
+ * e.g. after its lease expired under a long request.
+ * - allow: start the new run alongside the earlier one
+ * - forbid: skip the new run (recorded as canceled, with the reason)
+ * - replace: cancel the earlier run and start the new one
+ */
+export type ConcurrencyPolicy = "allow" | "forbid" | "replace";
+
+/**
+ * A pending "run now" request, made by a user or through the endpoint's trigger URL.
+ *
+ * The scheduler picks the endpoint up on its next tick and runs it once through the
+ * normal path (claim, run limits, signing, post-run scheduling), with the overrides
+ * applied to that run only.
+ */
+export type ManualRunRequest = {
+  id: string;
+  requestedAt: Date;
+  requestedBy?: AuditActor; // Absent for trigger URL requests
+  source?: "trigger"; // Set for requests made through the endpoint's trigger URL (default: manual)
+  headersJson?: Record<string, string>; // Merged over the endpoint's headers
+  bodyJson?: JsonValue; // Replaces the endpoint's body
+  payloadJson?: { [key: string]: JsonValue }; // Trigger payload, merged into the endpoint's JSON body
+};
+
+/**
+ * The credential in an endpoint's trigger URL.
+ *
+ * Only a SHA-256 hash of the token is stored; the token itself is shown once, when it
+ * is created or rotated.
+ */
+export type TriggerToken = {
+  hash: string;
+  prefix: string; // First characters of the token, for display
+  createdAt: Date;
+  rotatedAt?: Date;
+};
+
 /**
  * Core job endpoint entity.
  * Pure domain type with no adapter-specific fields.
@@ -21,10 +197,12 @@ export type JobEndpoint = {
   tenantId: string;
   name: string;
   description?: string; // Endpoint-specific context: behavior, thresholds, response schema, coordination logic
+  kind?: EndpointKind; // Default: http
 
   // Baseline cadence (choose one)
   baselineCron?: string;
   baselineIntervalMs?: number;
+  timezone?: string; // IANA zone for evaluating baselineCron (default: UTC)
 
   // AI hints (TTL-scoped)
   aiHintIntervalMs?: number;
@@ -38,6 +216,8 @@ export type JobEndpoint = {
 
   // Pause control
   pausedUntil?: Date;
+  blackoutWindows?: BlackoutWindow[]; // Recurring periods without runs (the job's windows apply too)
+  misfirePolicy?: MisfirePolicy; // Catch-up behavior for missed occurrences (unset: no catch-up)
 
   // Archive control (soft delete)
   archivedAt?: Date;
@@ -55,4 +235,20 @@ export type JobEndpoint = {
   timeoutMs?: number;
   maxExecutionTimeMs?: number; // Expected max execution time for lock duration (default: 60000ms / 1 min)
   maxResponseSizeKb?: number; // Max response body size to store (default: 100 KB)
+  retryPolicy?: RetryPolicy; // In-run retries (default: single attempt)
+  successCriteria?: SuccessCriteria; // What counts as a successful run (default: 2xx)
+  concurrencyPolicy?: ConcurrencyPolicy; // Overlapping runs (default: allow)
+  tlsCredentialName?: string; // TLS credential (client certificate, CA bundle) the dispatcher connects with
+  authProfileName?: string; // Auth profile whose access token the dispatcher sends as the Authorization header
+
+  // Heartbeat config (kind "heartbeat" only)
+  pingToken?: string; // Secret token identifying the endpoint in its ping URL
+  graceMs?: number; // How late a check-in may arrive before it counts as missed (default: 5 minutes)
+
+  // Dependencies (DAG within the job)
+  runAfter?: EndpointDependencies; // Upstreams whose success triggers a run (http endpoints only)
+
+  // Manual trigger
+  manualRun?: ManualRunRequest; // Pending "run now" request (cleared once the run finishes)
+  triggerToken?: TriggerToken; // Lets external systems request runs via POST /triggers/:token
 };
@@ -1,6 +1,9 @@
 /**
  * Entities module - core domain types.
  */
+export * from "./audit.js";
 export * from "./endpoint.js";
 export * from "./job.js";
+export * from "./notification.js";
+export * from "./organization.js";
 export * from "./run.js";
@@ -2,6 +2,8 @@
  * Job entity - organizational container for related endpoints.
  */
 
+import type { BlackoutWindow } from "./endpoint.js";
+
 /**
  * Job lifecycle status.
  * - active: Job is running normally
@@ -19,10 +21,12 @@ export type JobStatus = "active" | "paused" | "archived";
  */
 export type Job = {
   readonly id: string;
-  readonly userId: string; // Owner of this job (replaced tenantId/ownerUserId per MVP simplification)
+  readonly userId: string; // Creator; also the owner when the job isn't org-owned
+  readonly orgId?: string | null; // Owning organization; its id becomes the endpoints' tenantId
   readonly name: string;
   readonly description?: string;
   readonly status: JobStatus;
+  readonly blackoutWindows?: BlackoutWindow[]; // Apply to every endpoint in the job
   readonly createdAt: Date;
   readonly updatedAt: Date;
   readonly archivedAt?: Date;
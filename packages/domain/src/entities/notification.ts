@@ -0,0 +1,90 @@
+/**
+ * Notification entities - alert rules and the channels they deliver to.
+ */
+
+/**
+ * Where a notification is delivered.
+ * - email: SMTP email to one or more recipients
+ * - slack: Slack incoming webhook
+ * - webhook: generic HTTP POST, signed with the owner's signing key
+ */
+export type NotificationChannelConfig =
+  | { type: "email"; to: string[] }
+  | { type: "slack"; webhookUrl: string }
+  | { type: "webhook"; url: string };
+
+export type NotificationChannelType = NotificationChannelConfig["type"];
+
+export type NotificationChannel = {
+  readonly id: string;
+  readonly userId: string;
+  readonly name: string;
+  readonly config: NotificationChannelConfig;
+  readonly enabled: boolean;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+};
+
+/**
+ * Condition an alert rule watches for.
+ * - failureStreak: at least `threshold` consecutive failed runs
+ * - successRate: fewer than `belowPct`% successful runs in the last `windowMinutes`
+ *   (only once the window holds at least `minRuns` runs, default 1)
+ * - noSuccess: no successful run in the last `withinMinutes`
+ * - aiPaused: the AI planner paused the endpoint
+ */
+export type AlertCondition =
+  | { type: "failureStreak"; threshold: number }
+  | { type: "successRate"; belowPct: number; windowMinutes: number; minRuns?: number }
+  | { type: "noSuccess"; withinMinutes: number }
+  | { type: "aiPaused" };
+
+export type AlertConditionType = AlertCondition["type"];
+
+/**
+ * Alert rule - watches endpoints for a condition and notifies channels.
+ *
+ * Scope: a single endpoint (`endpointId`), every endpoint of a job (`jobId`),
+ * or every endpoint the owner has (neither set).
+ */
+export type AlertRule = {
+  readonly id: string;
+  readonly userId: string;
+  readonly name: string;
+  readonly jobId?: string;
+  readonly endpointId?: string;
+  readonly condition: AlertCondition;
+  readonly channelIds: string[];
+  readonly cooldownMinutes: number; // Minimum gap between notifications while firing (reminders)
+  readonly notifyOnResolve: boolean;
+  readonly enabled: boolean;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+};
+
+/**
+ * Per-endpoint state of an alert rule, used for dedup, cooldown and resolve messages.
+ */
+export type AlertState = {
+  ruleId: string;
+  endpointId: string;
+  status: "firing" | "resolved";
+  firedAt?: Date;
+  resolvedAt?: Date;
+  lastNotifiedAt?: Date;
+};
+
+/**
+ * Message handed to a channel sender.
+ * - firing: the condition was just breached
+ * - reminder: still breached after the rule's cooldown
+ * - resolved: the condition cleared
+ */
+export type AlertNotification = {
+  kind: "firing" | "reminder" | "resolved";
+  rule: { id: string; name: string; condition: AlertCondition };
+  endpoint: { id: string; name: string; jobId?: string };
+  summary: string;
+  occurredAt: Date;
+  runId?: string;
+};
@@ -0,0 +1,53 @@
+/**
+ * Organization entities - shared workspaces with members, roles and invitations.
+ */
+
+/**
+ * Member role within an organization, from most to least privileged.
+ * - owner: everything, including billing and deleting the organization
+ * - admin: manage members, invitations and org API keys
+ * - editor: create and change jobs and endpoints
+ * - viewer: read-only access to jobs, endpoints, runs and the dashboard
+ */
+export type OrgRole = "owner" | "admin" | "editor" | "viewer";
+
+/**
+ * Organization - owns jobs and endpoints on behalf of its members.
+ *
+ * Billing lives here for org-owned resources: quota and limits for an org's
+ * endpoints come from the org's tier, not from the tier of the member who created them.
+ */
+export type Organization = {
+  readonly id: string;
+  readonly name: string;
+  readonly tier: "free" | "pro" | "enterprise";
+  readonly stripeCustomerId?: string | null;
+  readonly subscriptionStatus?: string | null;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+};
+
+export type OrganizationMember = {
+  readonly orgId: string;
+  readonly userId: string;
+  readonly email: string;
+  readonly name: string;
+  readonly role: OrgRole;
+  readonly joinedAt: Date;
+};
+
+/**
+ * Pending invitation, accepted by following the emailed link.
+ * The token is single-use; `acceptedAt` is set once someone joins with it.
+ */
+export type OrganizationInvitation = {
+  readonly id: string;
+  readonly orgId: string;
+  readonly email: string;
+  readonly role: OrgRole;
+  readonly token: string;
+  readonly invitedBy: string;
+  readonly expiresAt: Date;
+  readonly acceptedAt?: Date | null;
+  readonly createdAt: Date;
+};
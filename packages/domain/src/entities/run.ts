@@ -1,4 +1,4 @@
-import type { JsonValue } from "./endpoint.js";
+import type { AssertionOperator, JsonValue, RetryableErrorClass } from "./endpoint.js";
 
 /**
  * Run status types based on current usage.
@@ -6,6 +6,25 @@ import type { JsonValue } from "./endpoint.js";
  */
 export type RunStatus = "success" | "failed" | "canceled" | "running";
 
+/**
+ * The success criterion that failed a run (see SuccessCriteria).
+ * Recorded as the run's errorDetails.
+ */
+export type SuccessCriteriaFailure =
+  | { criterion: "statusCode"; expected: string[]; actual: number }
+  | { criterion: "latency"; maxLatencyMs: number; actualMs: number }
+  | { criterion: "assertion"; index: number; path: string; operator: AssertionOperator; expected?: JsonValue; actual?: JsonValue };
+
+/**
+ * Why an endpoint's auth profile couldn't supply an access token.
+ * Recorded as the run's errorDetails; the endpoint itself wasn't called.
+ */
+export type AuthFailure = {
+  authProfile: string; // Name of the auth profile
+  tokenStatusCode?: number; // HTTP status of the token endpoint, when it answered
+  oauthError?: string; // OAuth2 error code from the token response, e.g. "invalid_client"
+};
+
 /**
  * Result of executing a job endpoint.
  */
@@ -15,4 +34,21 @@ export type ExecutionResult = {
   errorMessage?: string;
   responseBody?: JsonValue; // Response data from endpoint execution (if JSON and within size limit)
   statusCode?: number; // HTTP status code (200, 404, 500, etc.)
+  errorClass?: RetryableErrorClass; // Set when the request failed without an HTTP response
+  retryAfterMs?: number; // Parsed Retry-After response header (failed responses only)
+  criteriaFailure?: SuccessCriteriaFailure; // Set when the response failed the endpoint's success criteria
+  authFailure?: AuthFailure; // Set when no access token could be obtained for the endpoint's auth profile
+};
+
+/**
+ * A single dispatch attempt within a run (see RetryPolicy).
+ */
+export type RunAttempt = {
+  attempt: number; // 1-based
+  startedAt: Date;
+  status: "success" | "failed";
+  durationMs: number;
+  statusCode?: number;
+  errorMessage?: string;
+  delayMs?: number; // Wait before the next attempt (absent on the last attempt)
 };
@@ -22,3 +22,13 @@ export class InvalidStateError extends Error {
     this.name = "InvalidStateError";
   }
 }
+
+/**
+ * The caller can see the resource but their role doesn't allow the action.
+ */
+export class ForbiddenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ForbiddenError";
+  }
+}
@@ -0,0 +1,53 @@
+import type { Counter, Histogram, MetricLabels, Metrics } from "../ports/observability.js";
+
+/**
+ * Captured metric sample: a counter increment or a histogram observation
+ */
+export type MetricSample = {
+  name: string;
+  value: number;
+  labels: MetricLabels;
+};
+
+/**
+ * Fake Metrics implementation for testing.
+ *
+ * Captures every counter increment and histogram observation in memory.
+ *
+ * @example
+ * const metrics = new FakeMetrics();
+ * metrics.counter({ name: 'runs_total', help: 'Runs' }).inc({ status: 'success' });
+ * expect(metrics.total('runs_total', { status: 'success' })).toBe(1);
+ */
+export class FakeMetrics implements Metrics {
+  /** All captured samples in order */
+  public readonly samples: MetricSample[] = [];
+
+  counter: Metrics["counter"] = ({ name }): Counter => ({
+    inc: (labels = {}, value = 1) => {
+      this.samples.push({ name, value, labels });
+    },
+  });
+
+  histogram: Metrics["histogram"] = ({ name }): Histogram => ({
+    observe: (value, labels = {}) => {
+      this.samples.push({ name, value, labels });
+    },
+  });
+
+  /**
+   * Get samples of a metric whose labels include the given ones
+   */
+  getSamples(name: string, labels: MetricLabels = {}): MetricSample[] {
+    return this.samples.filter(sample =>
+      sample.name === name
+      && Object.entries(labels).every(([key, value]) => sample.labels[key] === value));
+  }
+
+  /**
+   * Sum of the matching samples (a counter's value)
+   */
+  total(name: string, labels: MetricLabels = {}): number {
+    return this.getSamples(name, labels).reduce((sum, sample) => sum + sample.value, 0);
+  }
+}
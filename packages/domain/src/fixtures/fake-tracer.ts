@@ -0,0 +1,63 @@
+import type { Span, SpanAttributes, SpanOptions, Tracer } from "../ports/observability.js";
+
+/**
+ * Captured span: its name, options and final attributes
+ */
+export type RecordedSpan = {
+  name: string;
+  kind: NonNullable<SpanOptions["kind"]>;
+  attributes: SpanAttributes;
+  traceparent: string;
+  /** Incoming traceparent the span continued, if any */
+  parent?: string;
+  error?: unknown;
+};
+
+/**
+ * Fake Tracer implementation for testing.
+ *
+ * Records spans in the order they start. Every span belongs to the same trace id.
+ *
+ * @example
+ * const tracer = new FakeTracer();
+ * await scheduler.tick(10, 10_000);
+ * expect(tracer.spanNames()).toContain('Scheduler.handleEndpoint');
+ */
+export class FakeTracer implements Tracer {
+  /** All recorded spans in start order */
+  public readonly spans: RecordedSpan[] = [];
+
+  constructor(public readonly traceId = "0af7651916cd43dd8448eb211c80319c") {}
+
+  trace: Tracer["trace"] = async (name, fn, options = {}) => {
+    const spanId = (this.spans.length + 1).toString(16).padStart(16, "0");
+    const recorded: RecordedSpan = {
+      name,
+      kind: options.kind ?? "internal",
+      attributes: { ...options.attributes },
+      traceparent: `00-${this.traceId}-${spanId}-01`,
+      parent: options.traceparent,
+    };
+    this.spans.push(recorded);
+
+    const span: Span = {
+      traceId: this.traceId,
+      traceparent: recorded.traceparent,
+      setAttributes: attributes => Object.assign(recorded.attributes, attributes),
+    };
+    try {
+      return await fn(span);
+    }
+    catch (error) {
+      recorded.error = error;
+      throw error;
+    }
+  };
+
+  /**
+   * Names of the recorded spans in start order
+   */
+  spanNames(): string[] {
+    return this.spans.map(s => s.name);
+  }
+}
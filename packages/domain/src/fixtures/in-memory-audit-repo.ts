@@ -0,0 +1,29 @@
+import type { AuditEvent, AuditEventFilters, AuditRepo } from "../index.js";
+
+export class InMemoryAuditRepo implements AuditRepo {
+  private seq = 0;
+  events: AuditEvent[] = [];
+
+  async append(event: Omit<AuditEvent, "id">) {
+    const created: AuditEvent = { id: `audit_${this.seq++}`, ...event };
+    this.events.push(created);
+    return created;
+  }
+
+  async list(tenantId: string, filters: AuditEventFilters = {}) {
+    const matching = this.events
+      .filter(e => e.tenantId === tenantId
+        && (!filters.jobId || e.jobId === filters.jobId)
+        && (!filters.endpointId || e.endpointId === filters.endpointId)
+        && (!filters.action || e.action === filters.action)
+        && (!filters.actorType || e.actor.type === filters.actorType)
+        && (!filters.since || e.createdAt >= filters.since)
+        && (!filters.until || e.createdAt < filters.until))
+      .reverse();
+    const offset = filters.offset ?? 0;
+    return {
+      events: matching.slice(offset, offset + (filters.limit ?? 50)),
+      total: matching.length,
+    };
+  }
+}
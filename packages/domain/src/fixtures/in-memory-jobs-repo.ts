@@ -1,15 +1,16 @@
-import { getExecutionLimits, getRunsLimit, getTierLimit, type Job, type JobEndpoint, type JobsRepo } from "../index.js";
+import { type BlackoutWindow, getExecutionLimits, getRunsLimit, getTierLimit, type Job, type JobEndpoint, type JobsRepo, type ManualRunRequest, type TriggerToken } from "../index.js";
 
 /**
- * Adapter-local storage type with internal locking state and job relationship.
+ * Adapter-local storage type with internal lease state and job relationship.
  *
- * The _lockedUntil field is an implementation detail for pessimistic locking
- * and is NOT part of the domain model. It's stripped when returning JobEndpoint
- * through the port interface.
+ * The _leaseOwner/_lockedUntil fields are an implementation detail for lease-based
+ * claiming and are NOT part of the domain model. They're stripped when returning
+ * JobEndpoint through the port interface.
  *
  * The jobId field tracks Phase 3 endpoint-to-job relationships.
  */
 type StoredJob = JobEndpoint & {
+  _leaseOwner?: string;
   _lockedUntil?: Date;
   jobId?: string;
 };
@@ -41,7 +42,7 @@ export class InMemoryJobsRepo implements JobsRepo {
 
   async listJobs(userId: string, filters?: { status?: "active" | "paused" | "archived" }): Promise<Array<Job & { endpointCount: number }>> {
     const userJobs = [...this.jobs.values()]
-      .filter(j => j.userId === userId)
+      .filter(j => (j.orgId ?? j.userId) === userId)
       .filter(j => !filters?.status || j.status === filters.status);
 
     return userJobs.map((j) => {
@@ -52,7 +53,7 @@ export class InMemoryJobsRepo implements JobsRepo {
     });
   }
 
-  async updateJob(id: string, patch: { name?: string; description?: string }): Promise<Job> {
+  async updateJob(id: string, patch: { name?: string; description?: string; blackoutWindows?: BlackoutWindow[] }): Promise<Job> {
     const job = this.jobs.get(id);
     if (!job)
       throw new Error(`Job not found: ${id}`);
@@ -123,6 +124,9 @@ export class InMemoryJobsRepo implements JobsRepo {
       id: existing.id, // Preserve id
       tenantId: existing.tenantId, // Preserve tenantId
     };
+    if (updated.timezone === "") {
+      updated.timezone = undefined; // Empty clears (UTC), as in DrizzleJobsRepo
+    }
     this.map.set(id, updated);
     return structuredClone(updated);
   }
@@ -146,7 +150,37 @@ export class InMemoryJobsRepo implements JobsRepo {
     e.failureCount = 0;
   }
 
-  async claimDueEndpoints(limit: number, withinMs: number) {
+  async requestManualRun(id: string, request: ManualRunRequest): Promise<void> {
+    const e = this.map.get(id);
+    if (!e)
+      throw new Error(`requestManualRun: not found: ${id}`);
+
+    e.manualRun = structuredClone(request);
+    if (request.requestedAt < e.nextRunAt)
+      e.nextRunAt = request.requestedAt;
+    // Drop the post-run lock, but not a lease held by a worker running it right now
+    if (!e._leaseOwner)
+      e._lockedUntil = undefined;
+  }
+
+  async clearManualRun(id: string, requestId: string): Promise<void> {
+    const e = this.map.get(id);
+    if (!e)
+      throw new Error(`clearManualRun: not found: ${id}`);
+
+    if (e.manualRun?.id === requestId)
+      e.manualRun = undefined;
+  }
+
+  async setTriggerToken(id: string, token: TriggerToken | null): Promise<void> {
+    const e = this.map.get(id);
+    if (!e)
+      throw new Error(`setTriggerToken: not found: ${id}`);
+
+    e.triggerToken = token ? structuredClone(token) : undefined;
+  }
+
+  async claimDueEndpoints(limit: number, withinMs: number, ownerId: string) {
     const now = this.now();
     const nowMs = now.getTime();
     const horizonMs = nowMs + withinMs;
@@ -177,10 +211,12 @@ export class InMemoryJobsRepo implements JobsRepo {
       .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime())
       .slice(0, limit);
 
-    // Lock for the duration of the horizon to prevent double-claiming
-    const lockUntil = new Date(horizonMs);
+    // Initial lease covers the longest expected execution (min 60s) or the horizon;
+    // the owner extends it with renewLease while a dispatch is in flight
     due.forEach((d) => {
-      d._lockedUntil = lockUntil;
+      const leaseMs = Math.max(d.maxExecutionTimeMs ?? 60_000, withinMs, 60_000);
+      d._leaseOwner = ownerId;
+      d._lockedUntil = new Date(nowMs + leaseMs);
     });
     return due.map(d => d.id);
   }
@@ -205,6 +241,9 @@ export class InMemoryJobsRepo implements JobsRepo {
 
     if (candidate < e.nextRunAt) {
       e.nextRunAt = candidate;
+      // As in requestManualRun: the post-run lock would hold it until the old nextRunAt
+      if (!e._leaseOwner)
+        e._lockedUntil = undefined;
     }
   }
 
@@ -216,18 +255,54 @@ export class InMemoryJobsRepo implements JobsRepo {
     return structuredClone(e);
   }
 
-  async setLock(id: string, until: Date) {
+  async getEndpointByPingToken(token: string) {
+    for (const e of this.map.values()) {
+      if (e.pingToken === token && !e.archivedAt)
+        return structuredClone(e);
+    }
+    return null;
+  }
+
+  async getEndpointByTriggerTokenHash(hash: string) {
+    for (const e of this.map.values()) {
+      if (e.triggerToken?.hash === hash && !e.archivedAt)
+        return structuredClone(e);
+    }
+    return null;
+  }
+
+  async renewLease(id: string, ownerId: string, ttlMs: number) {
     const e = this.map.get(id);
     if (!e)
-      throw new Error(`JobsRepo.setLock: not found: ${id}`);
-    e._lockedUntil = until;
+      throw new Error(`JobsRepo.renewLease: not found: ${id}`);
+    if (e._leaseOwner !== ownerId)
+      return false;
+    e._lockedUntil = new Date(this.now().getTime() + ttlMs);
+    return true;
   }
 
-  async clearLock(id: string) {
+  async releaseLease(id: string, ownerId: string) {
     const e = this.map.get(id);
     if (!e)
-      throw new Error(`JobsRepo.clearLock: not found: ${id}`);
-    e._lockedUntil = undefined;
+      throw new Error(`JobsRepo.releaseLease: not found: ${id}`);
+    if (e._leaseOwner !== ownerId)
+      return;
+    // Keep it unclaimable until its nextRunAt, as updateAfterRun does
+    const now = this.now();
+    e._leaseOwner = undefined;
+    e._lockedUntil = e.nextRunAt > now ? e.nextRunAt : undefined;
+  }
+
+  /**
+   * Whether `ownerId` currently holds an unexpired lease on the endpoint.
+   * Test helper (not part of the port) used by InMemoryRunsRepo zombie cleanup.
+   */
+  isLeaseHeldBy(id: string, ownerId: string): boolean {
+    const e = this.map.get(id);
+    return !!e
+      && e._leaseOwner === ownerId
+      && !!e._lockedUntil
+      && e._lockedUntil.getTime() > this.now().getTime();
   }
 
   async updateAfterRun(id: string, p: {
@@ -236,6 +311,7 @@ export class InMemoryJobsRepo implements JobsRepo {
     status: { status: "success" | "failed" | "canceled"; durationMs: number };
     failureCountPolicy: "increment" | "reset";
     clearExpiredHints: boolean;
+    consumedManualRunId?: string;
   }) {
     const e = this.map.get(id);
     if (!e)
@@ -243,6 +319,12 @@ export class InMemoryJobsRepo implements JobsRepo {
     e.lastRunAt = p.lastRunAt;
     e.nextRunAt = p.nextRunAt;
 
+    // A run-now request made while the run was in flight stays due
+    if (e.manualRun && e.manualRun.id === p.consumedManualRunId)
+      e.manualRun = undefined;
+    else if (e.manualRun && e.manualRun.requestedAt < e.nextRunAt)
+      e.nextRunAt = e.manualRun.requestedAt;
+
     // Apply failure count policy
     if (p.failureCountPolicy === "increment") {
       e.failureCount = e.failureCount + 1;
@@ -251,17 +333,23 @@ export class InMemoryJobsRepo implements JobsRepo {
       e.failureCount = 0;
     }
 
-    e._lockedUntil = undefined;
+    // Lock until the next run so horizon-based claiming doesn't pick it up early,
+    // as DrizzleJobsRepo does; a pending run-now request stays claimable
+    const now = this.now();
+    e._lockedUntil = !e.manualRun && p.nextRunAt > now ? p.nextRunAt : undefined;
 
     // Clear hints based on current time (now), not lastRunAt
     // This ensures hints that expire between runs are cleared immediately
-    const now = this.now();
     if (p.clearExpiredHints && e.aiHintExpiresAt && e.aiHintExpiresAt <= now) {
       e.aiHintNextRunAt = undefined;
       e.aiHintIntervalMs = undefined;
       e.aiHintExpiresAt = undefined;
       e.aiHintReason = undefined;
     }
+    else if (e.aiHintNextRunAt && e.aiHintNextRunAt <= now) {
+      // One-shot hint was consumed; interval hint stays until its TTL expires
+      e.aiHintNextRunAt = undefined;
+    }
   }
 
   async writeAIHint(id: string, h: { nextRunAt?: Date; intervalMs?: number; expiresAt: Date; reason?: string }) {
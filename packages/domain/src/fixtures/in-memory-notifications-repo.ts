@@ -0,0 +1,90 @@
+import type { AlertRule, AlertState, NotificationChannel, NotificationsRepo } from "../index.js";
+
+export class InMemoryNotificationsRepo implements NotificationsRepo {
+  private seq = 0;
+  channels = new Map<string, NotificationChannel>();
+  rules = new Map<string, AlertRule>();
+  states = new Map<string, AlertState>();
+
+  constructor(private readonly now: () => Date = () => new Date()) { }
+
+  async createChannel(channel: Parameters<NotificationsRepo["createChannel"]>[0]) {
+    const created: NotificationChannel = { id: `channel_${this.seq++}`, ...channel, createdAt: this.now(), updatedAt: this.now() };
+    this.channels.set(created.id, created);
+    return created;
+  }
+
+  async getChannel(userId: string, id: string) {
+    const channel = this.channels.get(id);
+    return channel?.userId === userId ? channel : null;
+  }
+
+  async listChannels(userId: string) {
+    return [...this.channels.values()].filter(c => c.userId === userId);
+  }
+
+  async updateChannel(userId: string, id: string, patch: Parameters<NotificationsRepo["updateChannel"]>[2]) {
+    const channel = await this.getChannel(userId, id);
+    if (!channel)
+      return null;
+    const updated = { ...channel, ...patch, updatedAt: this.now() };
+    this.channels.set(id, updated);
+    return updated;
+  }
+
+  async deleteChannel(userId: string, id: string) {
+    return (await this.getChannel(userId, id)) !== null && this.channels.delete(id);
+  }
+
+  async createRule(rule: Parameters<NotificationsRepo["createRule"]>[0]) {
+    const created: AlertRule = { id: `rule_${this.seq++}`, ...rule, createdAt: this.now(), updatedAt: this.now() };
+    this.rules.set(created.id, created);
+    return created;
+  }
+
+  async getRule(userId: string, id: string) {
+    const rule = this.rules.get(id);
+    return rule?.userId === userId ? rule : null;
+  }
+
+  async listRules(userId: string) {
+    return [...this.rules.values()].filter(r => r.userId === userId);
+  }
+
+  async updateRule(userId: string, id: string, patch: Parameters<NotificationsRepo["updateRule"]>[2]) {
+    const rule = await this.getRule(userId, id);
+    if (!rule)
+      return null;
+    const updated: AlertRule = {
+      ...rule,
+      ...patch,
+      jobId: patch.jobId === undefined ? rule.jobId : patch.jobId ?? undefined,
+      endpointId: patch.endpointId === undefined ? rule.endpointId : patch.endpointId ?? undefined,
+      updatedAt: this.now(),
+    };
+    this.rules.set(id, updated);
+    return updated;
+  }
+
+  async deleteRule(userId: string, id: string) {
+    return (await this.getRule(userId, id)) !== null && this.rules.delete(id);
+  }
+
+  async listRulesForEndpoint(endpoint: { id: string; jobId?: string; tenantId: string }) {
+    return [...this.rules.values()].filter(r =>
+      r.userId === endpoint.tenantId
+      && r.enabled
+      && (r.endpointId
+        ? r.endpointId === endpoint.id
+        : r.jobId === undefined || r.jobId === endpoint.jobId),
+    );
+  }
+
+  async getAlertState(ruleId: string, endpointId: string) {
+    return this.states.get(`${ruleId}:${endpointId}`) ?? null;
+  }
+
+  async saveAlertState(state: AlertState) {
+    this.states.set(`${state.ruleId}:${state.endpointId}`, state);
+  }
+}
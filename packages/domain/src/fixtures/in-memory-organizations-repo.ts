@@ -0,0 +1,111 @@
+import type { Organization, OrganizationInvitation, OrganizationMember, OrganizationsRepo, OrgRole } from "../index.js";
+
+export class InMemoryOrganizationsRepo implements OrganizationsRepo {
+  private seq = 0;
+  orgs = new Map<string, Organization & { stripeSubscriptionId?: string | null; subscriptionEndsAt?: Date | null }>();
+  members = new Map<string, Map<string, { role: OrgRole; joinedAt: Date }>>(); // orgId -> userId -> membership
+  invitations = new Map<string, OrganizationInvitation>();
+  /** Display details for listMembers; unknown users use their ID */
+  users = new Map<string, { email: string; name: string }>();
+
+  constructor(private readonly now: () => Date = () => new Date()) { }
+
+  async createOrganization(org: { name: string; ownerUserId: string }) {
+    const created: Organization = { id: `org_${this.seq++}`, name: org.name, tier: "free", createdAt: this.now(), updatedAt: this.now() };
+    this.orgs.set(created.id, created);
+    this.members.set(created.id, new Map([[org.ownerUserId, { role: "owner", joinedAt: this.now() }]]));
+    return created;
+  }
+
+  async getOrganization(orgId: string) {
+    return this.orgs.get(orgId) ?? null;
+  }
+
+  async updateOrganization(orgId: string, patch: { name?: string }) {
+    const org = this.orgs.get(orgId);
+    if (!org)
+      throw new Error(`Organization not found: ${orgId}`);
+    const updated = { ...org, ...patch, updatedAt: this.now() };
+    this.orgs.set(orgId, updated);
+    return updated;
+  }
+
+  async deleteOrganization(orgId: string) {
+    this.orgs.delete(orgId);
+    this.members.delete(orgId);
+    for (const [id, invitation] of this.invitations) {
+      if (invitation.orgId === orgId)
+        this.invitations.delete(id);
+    }
+  }
+
+  async listOrganizationsForUser(userId: string) {
+    return [...this.orgs.values()]
+      .filter(org => this.members.get(org.id)?.has(userId))
+      .map(org => ({ ...org, role: this.members.get(org.id)!.get(userId)!.role }));
+  }
+
+  async getMemberRole(orgId: string, userId: string) {
+    return this.members.get(orgId)?.get(userId)?.role ?? null;
+  }
+
+  async listMembers(orgId: string): Promise<OrganizationMember[]> {
+    return [...(this.members.get(orgId) ?? new Map<string, { role: OrgRole; joinedAt: Date }>())].map(([userId, member]) => ({
+      orgId,
+      userId,
+      email: this.users.get(userId)?.email ?? userId,
+      name: this.users.get(userId)?.name ?? userId,
+      role: member.role,
+      joinedAt: member.joinedAt,
+    }));
+  }
+
+  async upsertMember(orgId: string, userId: string, role: OrgRole) {
+    const members = this.members.get(orgId) ?? new Map<string, { role: OrgRole; joinedAt: Date }>();
+    members.set(userId, { role, joinedAt: members.get(userId)?.joinedAt ?? this.now() });
+    this.members.set(orgId, members);
+  }
+
+  async removeMember(orgId: string, userId: string) {
+    return this.members.get(orgId)?.delete(userId) ?? false;
+  }
+
+  async countOwners(orgId: string) {
+    return [...(this.members.get(orgId)?.values() ?? [])].filter(member => member.role === "owner").length;
+  }
+
+  async createInvitation(invitation: Parameters<OrganizationsRepo["createInvitation"]>[0]) {
+    const created: OrganizationInvitation = { id: `invitation_${this.seq++}`, ...invitation, acceptedAt: null, createdAt: this.now() };
+    this.invitations.set(created.id, created);
+    return created;
+  }
+
+  async listPendingInvitations(orgId: string) {
+    return [...this.invitations.values()].filter(i => i.orgId === orgId && !i.acceptedAt);
+  }
+
+  async getInvitationByToken(token: string) {
+    return [...this.invitations.values()].find(i => i.token === token) ?? null;
+  }
+
+  async deleteInvitation(orgId: string, invitationId: string) {
+    const invitation = this.invitations.get(invitationId);
+    return invitation?.orgId === orgId && !invitation.acceptedAt && this.invitations.delete(invitationId);
+  }
+
+  async markInvitationAccepted(invitationId: string, acceptedAt: Date) {
+    const invitation = this.invitations.get(invitationId);
+    if (invitation)
+      this.invitations.set(invitationId, { ...invitation, acceptedAt });
+  }
+
+  async getOrganizationByStripeCustomerId(customerId: string) {
+    return [...this.orgs.values()].find(org => org.stripeCustomerId === customerId) ?? null;
+  }
+
+  async updateOrganizationSubscription(orgId: string, patch: Parameters<OrganizationsRepo["updateOrganizationSubscription"]>[1]) {
+    const org = this.orgs.get(orgId);
+    if (org)
+      this.orgs.set(orgId, { ...org, ...patch, updatedAt: this.now() });
+  }
+}
@@ -1,33 +1,64 @@
-import type { HealthSummary, JsonValue, MultiWindowHealth, RunsRepo } from "../index.js";
+import type { AuditActor, HealthSummary, JsonValue, MultiWindowHealth, RunAttempt, RunsRepo } from "../index.js";
 
 type Run = {
   id: string;
   endpointId: string;
   status: "running" | "success" | "failed" | "canceled";
   attempt: number;
+  attempts?: RunAttempt[];
   startedAt: number;
   durationMs?: number;
   err?: unknown;
+  errorDetails?: Record<string, unknown>;
   source?: string; // Phase 3: Track what triggered this run
+  leaseOwner?: string;
+  queueWaitMs?: number;
+  scheduledFor?: Date;
+  lagMs?: number;
+  triggeredBy?: AuditActor;
+  traceId?: string;
   responseBody?: JsonValue;
   statusCode?: number;
 };
 
+/**
+ * Lease lookup used by cleanupZombieRuns (typically an InMemoryJobsRepo).
+ */
+type LeaseReader = {
+  isLeaseHeldBy: (endpointId: string, ownerId: string) => boolean;
+};
+
 export class InMemoryRunsRepo implements RunsRepo {
   private seq = 0;
   runs: Run[] = [];
 
-  async create(r: { endpointId: string; status: "running"; attempt: number; source?: string }) {
+  constructor(private readonly leases?: LeaseReader) { }
+
+  async create(r: { endpointId: string; status: "running"; attempt: number; source?: string; leaseOwner?: string; queueWaitMs?: number; scheduledFor?: Date; lagMs?: number; triggeredBy?: AuditActor; traceId?: string }) {
     const id = `run_${this.seq++}`;
     this.runs.push({ id, ...r, startedAt: Date.now() });
     return id;
   }
 
-  async finish(id: string, patch: { status: "success" | "failed" | "canceled"; durationMs: number; err?: unknown; responseBody?: JsonValue; statusCode?: number }) {
+  async finish(id: string, patch: { status: "success" | "failed" | "canceled"; durationMs: number; err?: unknown; errorDetails?: Record<string, unknown>; responseBody?: JsonValue; statusCode?: number; attempt?: number; attempts?: RunAttempt[] }) {
     const run = this.runs.find(r => r.id === id);
     if (!run)
       throw new Error(`Run not found: ${id}`);
-    Object.assign(run, patch);
+    Object.assign(run, patch, { attempt: patch.attempt ?? run.attempt });
+  }
+
+  async getOpenRun(endpointId: string, source: string) {
+    const open = this.runs
+      .filter(r => r.endpointId === endpointId && r.source === source && r.status === "running")
+      .sort((a, b) => b.startedAt - a.startedAt)[0];
+    return open ? { id: open.id, startedAt: new Date(open.startedAt) } : null;
+  }
+
+  async listOpenRuns(endpointId: string) {
+    return this.runs
+      .filter(r => r.endpointId === endpointId && r.status === "running")
+      .sort((a, b) => a.startedAt - b.startedAt)
+      .map(r => ({ id: r.id, startedAt: new Date(r.startedAt), source: r.source }));
   }
 
   // Phase 3: Execution visibility operations
@@ -46,6 +77,8 @@ export class InMemoryRunsRepo implements RunsRepo {
         status: string;
         durationMs?: number;
         source?: string;
+        scheduledFor?: Date;
+        lagMs?: number;
       }>;
       total: number;
     }> {
@@ -74,6 +107,8 @@ export class InMemoryRunsRepo implements RunsRepo {
         status: r.status,
         durationMs: r.durationMs,
         source: r.source,
+        scheduledFor: r.scheduledFor,
+        lagMs: r.lagMs,
       })),
       total,
     };
@@ -87,8 +122,15 @@ export class InMemoryRunsRepo implements RunsRepo {
     finishedAt?: Date;
     durationMs?: number;
     errorMessage?: string;
+    errorDetails?: Record<string, unknown>;
     source?: string;
     attempt: number;
+    attempts?: RunAttempt[];
+    queueWaitMs?: number;
+    scheduledFor?: Date;
+    lagMs?: number;
+    triggeredBy?: AuditActor;
+    traceId?: string;
   } | null> {
     const run = this.runs.find(r => r.id === runId);
     if (!run)
@@ -102,8 +144,15 @@ export class InMemoryRunsRepo implements RunsRepo {
       finishedAt: run.durationMs ? new Date(run.startedAt + run.durationMs) : undefined,
       durationMs: run.durationMs,
       errorMessage: run.err ? String(run.err) : undefined,
+      errorDetails: run.errorDetails,
       source: run.source,
       attempt: run.attempt,
+      attempts: run.attempts,
+      queueWaitMs: run.queueWaitMs,
+      scheduledFor: run.scheduledFor,
+      lagMs: run.lagMs,
+      triggeredBy: run.triggeredBy,
+      traceId: run.traceId,
     };
   }
 
@@ -284,6 +333,17 @@ export class InMemoryRunsRepo implements RunsRepo {
   }
 
   async cleanupZombieRuns(olderThanMs: number): Promise<number> {
+    const leases = this.leases;
+    const orphaned = leases
+      ? this.runs.filter(r => r.status === "running" && r.leaseOwner && !leases.isLeaseHeldBy(r.endpointId, r.leaseOwner))
+      : [];
+
+    for (const orphan of orphaned) {
+      orphan.status = "canceled";
+      orphan.err = `Lease owner ${orphan.leaseOwner} vanished (lease expired or taken over)`;
+      orphan.durationMs = Date.now() - orphan.startedAt;
+    }
+
     const threshold = Date.now() - olderThanMs;
     const zombies = this.runs.filter(r => r.status === "running" && r.startedAt <= threshold);
 
@@ -293,7 +353,7 @@ export class InMemoryRunsRepo implements RunsRepo {
       zombie.durationMs = Date.now() - zombie.startedAt;
     }
 
-    return zombies.length;
+    return orphaned.length + zombies.length;
   }
 
   // ============================================================================
@@ -313,6 +373,25 @@ export class InMemoryRunsRepo implements RunsRepo {
     return [];
   }
 
+  async getJobLagPercentiles(_filters: {
+    userId: string;
+    jobId?: string;
+    source?: string;
+    sinceDate?: Date;
+    untilDate?: Date;
+  }): Promise<Array<{
+      jobId: string;
+      jobName: string;
+      runCount: number;
+      p50LagMs: number;
+      p95LagMs: number;
+      p99LagMs: number;
+    }>> {
+    // Stub implementation for in-memory repo (runs don't know their job here)
+    // Real implementation is in DrizzleRunsRepo with SQL aggregation
+    return [];
+  }
+
   async getFilteredMetrics(_filters: {
     userId: string;
     jobId?: string;
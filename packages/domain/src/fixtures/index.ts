@@ -3,6 +3,12 @@
  */
 export * from "./endpoints.js";
 export * from "./fake-logger.js";
+export * from "./fake-metrics.js";
+export * from "./fake-tracer.js";
+export * from "./in-memory-audit-repo.js";
 export * from "./in-memory-jobs-repo.js";
+export * from "./in-memory-notifications-repo.js";
+export * from "./in-memory-organizations-repo.js";
 export * from "./in-memory-runs-repo.js";
 export * from "./time.js";
+export * from "./tls-certificates.js";
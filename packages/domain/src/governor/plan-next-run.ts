@@ -2,14 +2,16 @@
  * Pure scheduling policy: planNextRun
  *
  * Given current time, endpoint state, and cron helper, computes the next run time.
- * Respects pause, AI hints (interval/oneshot), baseline cadence, and min/max clamps.
- * Applies exponential backoff to interval-based schedules on repeated failures.
+ * Respects pause, AI hints (interval/oneshot), baseline cadence, min/max clamps and
+ * blackout windows. Applies exponential backoff to interval-based schedules on repeated failures.
  */
 
-import type { JobEndpoint } from "../entities/index.js";
+import type { BlackoutWindow, JobEndpoint } from "../entities/index.js";
 import type { Cron } from "../ports/index.js";
 import type { PlanResult, PlanSource } from "./types.js";
 
+import { blackoutEndsAt } from "../blackouts/index.js";
+
 type Candidate = { at: Date; src: PlanSource };
 
 /**
@@ -31,7 +33,16 @@ function calculateBackoffInterval(baseIntervalMs: number, failureCount: number):
   return baseIntervalMs * multiplier;
 }
 
-export function planNextRun(now: Date, j: JobEndpoint, cron: Cron): PlanResult {
+/**
+ * Plan an endpoint's next run.
+ *
+ * @param now - Current time (the run that just happened, or the planning moment)
+ * @param j - The endpoint
+ * @param cron - Cron helper for cron baselines
+ * @param jobBlackoutWindows - Blackout windows of the endpoint's job, applied with the endpoint's own
+ * @returns Next run time and the rule that chose it
+ */
+export function planNextRun(now: Date, j: JobEndpoint, cron: Cron, jobBlackoutWindows: readonly BlackoutWindow[] = []): PlanResult {
   const nowMs = now.getTime();
   // Always use 'now' as the base for interval calculations since this is the current execution time
   // and updateAfterRun will set lastRunAt = now. Using j.lastRunAt would create a mismatch.
@@ -39,7 +50,7 @@ export function planNextRun(now: Date, j: JobEndpoint, cron: Cron): PlanResult {
 
   // --- Build candidates ---
   const baseline: Candidate = j.baselineCron
-    ? { at: cron.next(j.baselineCron, now), src: "baseline-cron" }
+    ? { at: cron.next(j.baselineCron, now, j.timezone), src: "baseline-cron" }
     : {
         at: new Date(lastMs + calculateBackoffInterval(j.baselineIntervalMs ?? 60_000, j.failureCount)),
         src: "baseline-interval",
@@ -106,6 +117,11 @@ export function planNextRun(now: Date, j: JobEndpoint, cron: Cron): PlanResult {
   if (maxAt && chosen.at > maxAt)
     chosen = { at: maxAt, src: "clamped-max" };
 
+  // --- Blackout windows push the run past their end (AI hints can't override them) ---
+  const blackoutEnd = blackoutEndsAt(chosen.at, [...(j.blackoutWindows ?? []), ...jobBlackoutWindows]);
+  if (blackoutEnd)
+    chosen = { at: blackoutEnd, src: "blackout" };
+
   // --- Pause wins ---
   if (j.pausedUntil && j.pausedUntil > now)
     return { nextRunAt: j.pausedUntil, source: "paused" };
@@ -9,7 +9,8 @@ export type PlanSource =
   | "baseline-cron"
   | "baseline-interval"
   | "clamped-min"
-  | "clamped-max";
+  | "clamped-max"
+  | "blackout";
 
 /**
  * Result of planning the next run.
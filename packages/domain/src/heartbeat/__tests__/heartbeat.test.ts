@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+
+import { at, makeEndpoint } from "../../fixtures/index.js";
+import { DEFAULT_HEARTBEAT_GRACE_MS, MAX_CHECK_IN_BODY_KB, parseCheckInBody, planHeartbeatDeadline } from "../heartbeat.js";
+
+const stubCron = {
+  next: (_expr: string, from: Date) => new Date(from.getTime() + 3_600_000), // +1h
+};
+
+describe("planHeartbeatDeadline", () => {
+  it("expects the next check-in one interval later, plus grace", () => {
+    const ep = makeEndpoint({ kind: "heartbeat", baselineIntervalMs: 600_000, graceMs: 120_000 });
+
+    expect(planHeartbeatDeadline(at("2025-01-01T00:00:00Z"), ep, stubCron).toISOString())
+      .toBe("2025-01-01T00:12:00.000Z");
+  });
+
+  it("uses the next cron occurrence for cron baselines", () => {
+    const ep = makeEndpoint({ kind: "heartbeat", baselineCron: "0 * * * *", baselineIntervalMs: undefined, graceMs: 60_000 });
+
+    expect(planHeartbeatDeadline(at("2025-01-01T00:00:00Z"), ep, stubCron).toISOString())
+      .toBe("2025-01-01T01:01:00.000Z");
+  });
+
+  it("applies the default grace period", () => {
+    const ep = makeEndpoint({ kind: "heartbeat", baselineIntervalMs: 600_000 });
+
+    expect(planHeartbeatDeadline(at("2025-01-01T00:00:00Z"), ep, stubCron).getTime())
+      .toBe(at("2025-01-01T00:10:00Z").getTime() + DEFAULT_HEARTBEAT_GRACE_MS);
+  });
+
+  it("ignores failure backoff, AI hints and clamps", () => {
+    const ep = makeEndpoint({
+      kind: "heartbeat",
+      baselineIntervalMs: 600_000,
+      graceMs: 0,
+      failureCount: 4,
+      aiHintIntervalMs: 30_000,
+      aiHintExpiresAt: at("2025-01-02T00:00:00Z"),
+      minIntervalMs: 3_600_000,
+    });
+
+    expect(planHeartbeatDeadline(at("2025-01-01T00:00:00Z"), ep, stubCron).toISOString())
+      .toBe("2025-01-01T00:10:00.000Z");
+  });
+
+  it("expects the first check-in after a pause ends", () => {
+    const ep = makeEndpoint({ kind: "heartbeat", baselineIntervalMs: 600_000, graceMs: 0, pausedUntil: at("2025-01-01T05:00:00Z") });
+
+    expect(planHeartbeatDeadline(at("2025-01-01T00:00:00Z"), ep, stubCron).toISOString())
+      .toBe("2025-01-01T05:10:00.000Z");
+  });
+});
+
+describe("parseCheckInBody", () => {
+  it("parses JSON bodies", () => {
+    expect(parseCheckInBody("{\"rows\":42}")).toEqual({ rows: 42 });
+  });
+
+  it("skips empty, non-JSON and oversized bodies", () => {
+    expect(parseCheckInBody("")).toBeUndefined();
+    expect(parseCheckInBody("backup finished")).toBeUndefined();
+    expect(parseCheckInBody(JSON.stringify({ log: "x".repeat(2048) }), 1)).toBeUndefined();
+    expect(parseCheckInBody(JSON.stringify({ log: "x".repeat(MAX_CHECK_IN_BODY_KB * 1024) }), 10 * MAX_CHECK_IN_BODY_KB)).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Heartbeat (dead-man's-switch) scheduling.
+ *
+ * Heartbeat endpoints don't dispatch anything: an external job checks in on the
+ * endpoint's ping URL, and the endpoint's nextRunAt holds the check-in deadline —
+ * the next expected check-in on the baseline cadence plus the grace period. When the
+ * scheduler claims a heartbeat endpoint, the deadline has passed without a check-in.
+ */
+
+import type { JobEndpoint, JsonValue } from "../entities/index.js";
+import type { Cron } from "../ports/index.js";
+
+/** Grace period when the endpoint doesn't set graceMs (5 minutes) */
+export const DEFAULT_HEARTBEAT_GRACE_MS = 5 * 60 * 1000;
+
+/** Largest accepted graceMs (7 days) */
+export const MAX_HEARTBEAT_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Run source for runs recorded from check-ins */
+export const HEARTBEAT_RUN_SOURCE = "heartbeat";
+
+/** Run source for runs the scheduler records when a check-in deadline passes */
+export const MISSED_HEARTBEAT_RUN_SOURCE = "heartbeat-missed";
+
+/** Check-in bodies larger than this are not stored when the endpoint sets no maxResponseSizeKb */
+const DEFAULT_MAX_CHECK_IN_BODY_KB = 100;
+
+/** Largest check-in body accepted at all (1 MB); the ping route rejects larger requests */
+export const MAX_CHECK_IN_BODY_KB = 1024;
+
+/**
+ * Computes the check-in deadline following `from` (a check-in or a missed deadline).
+ *
+ * Unlike planNextRun, the expected cadence is the baseline alone: the external job
+ * keeps its own schedule, so failure backoff, AI hints and interval clamps don't apply.
+ * A paused endpoint expects its next check-in on the cadence after the pause ends.
+ *
+ * @param from - Time of the last check-in (or missed deadline)
+ * @param ep - Heartbeat endpoint
+ * @param cron - Cron helper for cron baselines
+ * @returns Time after which the next check-in counts as missed
+ */
+export function planHeartbeatDeadline(from: Date, ep: JobEndpoint, cron: Cron): Date {
+  const base = ep.pausedUntil && ep.pausedUntil > from ? ep.pausedUntil : from;
+  const expected = ep.baselineCron
+    ? cron.next(ep.baselineCron, base, ep.timezone)
+    : new Date(base.getTime() + (ep.baselineIntervalMs ?? 60_000));
+
+  return new Date(expected.getTime() + (ep.graceMs ?? DEFAULT_HEARTBEAT_GRACE_MS));
+}
+
+/**
+ * Parses a check-in request body for storage as the run's response body.
+ *
+ * Mirrors how the HTTP dispatcher stores responses: only JSON within the endpoint's
+ * maxResponseSizeKb (and never over MAX_CHECK_IN_BODY_KB) is kept; empty, non-JSON
+ * and oversized bodies are skipped.
+ *
+ * @param text - Raw request body
+ * @param maxSizeKb - Endpoint's maxResponseSizeKb (default: 100 KB)
+ * @returns Parsed JSON, or undefined when the body isn't stored
+ */
+export function parseCheckInBody(text: string, maxSizeKb = DEFAULT_MAX_CHECK_IN_BODY_KB): JsonValue | undefined {
+  if (text.trim() === "")
+    return undefined;
+  if (new TextEncoder().encode(text).length > Math.min(maxSizeKb, MAX_CHECK_IN_BODY_KB) * 1024)
+    return undefined;
+
+  try {
+    return JSON.parse(text);
+  }
+  catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,4 @@
+/**
+ * Heartbeat module - check-in deadlines for inbound (dead-man's-switch) endpoints.
+ */
+export * from "./heartbeat.js";
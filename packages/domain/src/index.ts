@@ -6,9 +6,23 @@
  */
 
 // Re-export all domain modules
+export * from "./alerts/index.js";
+export * from "./audit/index.js";
+export * from "./auth-profiles/index.js";
+export * from "./blackouts/index.js";
+export * from "./concurrency/index.js";
+export * from "./dependencies/index.js";
 export * from "./entities/index.js";
 export * from "./errors/index.js";
 export * from "./fixtures/index.js";
 export * from "./governor/index.js";
+export * from "./heartbeat/index.js";
+export * from "./manual-runs/index.js";
+export * from "./misfires/index.js";
+export * from "./organizations/index.js";
 export * from "./ports/index.js";
 export * from "./quota/tier-limits.js";
+export * from "./retry/index.js";
+export * from "./secrets/index.js";
+export * from "./success/index.js";
+export * from "./templating/index.js";
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+
+import { at, makeEndpoint } from "../../fixtures/index.js";
+import { applyManualRunOverrides, manualRunSource } from "../manual-runs.js";
+
+const requested = {
+  id: "req-1",
+  requestedAt: at("2025-01-01T00:00:00Z"),
+  requestedBy: { type: "user" as const, id: "user-1", userId: "user-1" },
+};
+
+describe("applyManualRunOverrides", () => {
+  it("returns the endpoint unchanged without a pending request", () => {
+    const ep = makeEndpoint({ headersJson: { A: "1" }, bodyJson: { x: 1 } });
+
+    expect(applyManualRunOverrides(ep)).toBe(ep);
+  });
+
+  it("merges override headers over the endpoint's headers", () => {
+    const ep = makeEndpoint({
+      headersJson: { "Authorization": "Bearer a", "X-Env": "prod" },
+      manualRun: { ...requested, headersJson: { "X-Env": "staging", "X-Debug": "1" } },
+    });
+
+    expect(applyManualRunOverrides(ep).headersJson).toEqual({ "Authorization": "Bearer a", "X-Env": "staging", "X-Debug": "1" });
+  });
+
+  it("replaces the body, including with null", () => {
+    const withBody = makeEndpoint({ bodyJson: { x: 1 }, manualRun: { ...requested, bodyJson: { y: 2 } } });
+    const withNull = makeEndpoint({ bodyJson: { x: 1 }, manualRun: { ...requested, bodyJson: null } });
+    const withoutOverride = makeEndpoint({ bodyJson: { x: 1 }, manualRun: requested });
+
+    expect(applyManualRunOverrides(withBody).bodyJson).toEqual({ y: 2 });
+    expect(applyManualRunOverrides(withNull).bodyJson).toBeNull();
+    expect(applyManualRunOverrides(withoutOverride).bodyJson).toEqual({ x: 1 });
+  });
+
+  it("merges a trigger payload into the endpoint's body", () => {
+    const ep = makeEndpoint({
+      bodyJson: { region: "eu", full: true },
+      manualRun: { ...requested, source: "trigger", payloadJson: { full: false, sha: "abc123" } },
+    });
+
+    expect(applyManualRunOverrides(ep).bodyJson).toEqual({ region: "eu", full: false, sha: "abc123" });
+  });
+
+  it("uses a trigger payload as the body when the endpoint has no JSON object body", () => {
+    const withoutBody = makeEndpoint({ manualRun: { ...requested, payloadJson: { sha: "abc123" } } });
+    const withArray = makeEndpoint({ bodyJson: [1, 2], manualRun: { ...requested, payloadJson: { sha: "abc123" } } });
+
+    expect(applyManualRunOverrides(withoutBody).bodyJson).toEqual({ sha: "abc123" });
+    expect(applyManualRunOverrides(withArray).bodyJson).toEqual({ sha: "abc123" });
+  });
+});
+
+describe("manualRunSource", () => {
+  it("records trigger URL requests as trigger runs", () => {
+    expect(manualRunSource(requested)).toBe("manual");
+    expect(manualRunSource({ ...requested, source: "trigger" })).toBe("trigger");
+  });
+});
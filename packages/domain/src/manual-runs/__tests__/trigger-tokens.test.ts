@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+
+import { hashTriggerToken, triggerTokenDisplayPrefix } from "../trigger-tokens.js";
+
+describe("hashTriggerToken", () => {
+  it("hashes deterministically without keeping the token", () => {
+    const hash = hashTriggerToken("trg_abc123");
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(hash).toBe(hashTriggerToken("trg_abc123"));
+    expect(hash).not.toBe(hashTriggerToken("trg_abc124"));
+  });
+});
+
+describe("triggerTokenDisplayPrefix", () => {
+  it("keeps the type prefix and the first characters", () => {
+    expect(triggerTokenDisplayPrefix("trg_abcdefgh12345678")).toBe("trg_abcdefgh");
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Manual runs module - "run now" and trigger URL requests executed through the scheduler.
+ */
+export * from "./manual-runs.js";
+export * from "./trigger-tokens.js";
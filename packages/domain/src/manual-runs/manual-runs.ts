@@ -0,0 +1,60 @@
+/**
+ * Manual ("run now") runs.
+ *
+ * A run-now request is stored on the endpoint and pulls its nextRunAt to the request
+ * time, so the scheduler claims it on the next tick like any due endpoint. The run goes
+ * through the same path as a scheduled one (lease, monthly run limits, signing, retries,
+ * post-run scheduling); only the source and the one-off request overrides differ.
+ *
+ * External systems request runs the same way through the endpoint's trigger URL.
+ */
+
+import type { JobEndpoint, JsonValue, ManualRunRequest } from "../entities/index.js";
+
+/** Run source for runs triggered by a run-now request */
+export const MANUAL_RUN_SOURCE = "manual";
+
+/** Run source for runs requested through an endpoint's trigger URL */
+export const TRIGGER_RUN_SOURCE = "trigger";
+
+/**
+ * Run source for a pending request.
+ *
+ * @param request - The endpoint's pending manualRun
+ * @returns "trigger" for trigger URL requests, "manual" otherwise
+ */
+export function manualRunSource(request: ManualRunRequest): string {
+  return request.source === "trigger" ? TRIGGER_RUN_SOURCE : MANUAL_RUN_SOURCE;
+}
+
+function isJsonObject(value: JsonValue | undefined): value is { [key: string]: JsonValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Applies a pending run-now request's overrides to the endpoint for this run.
+ *
+ * Override headers are merged over the endpoint's headers (same name wins); an
+ * override body replaces the endpoint's body. A trigger payload is merged into the
+ * body's top-level keys, or becomes the body when the endpoint has no JSON object
+ * body. The stored endpoint is not changed.
+ *
+ * @param ep - Endpoint with a pending manualRun
+ * @returns The endpoint to dispatch
+ */
+export function applyManualRunOverrides(ep: JobEndpoint): JobEndpoint {
+  const request = ep.manualRun;
+  if (!request)
+    return ep;
+
+  let bodyJson = request.bodyJson !== undefined ? request.bodyJson : ep.bodyJson;
+  if (request.payloadJson) {
+    bodyJson = { ...(isJsonObject(bodyJson) ? bodyJson : {}), ...request.payloadJson };
+  }
+
+  return {
+    ...ep,
+    headersJson: request.headersJson ? { ...ep.headersJson, ...request.headersJson } : ep.headersJson,
+    bodyJson,
+  };
+}
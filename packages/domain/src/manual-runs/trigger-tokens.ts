@@ -0,0 +1,35 @@
+/**
+ * Trigger tokens: the credential in an endpoint's trigger URL (`POST /triggers/:token`).
+ *
+ * Tokens are random and only their SHA-256 hash is stored, so lookups hash the
+ * presented token and match it exactly. Uses node:crypto (no I/O) — safe for the
+ * domain layer.
+ */
+
+import { createHash } from "node:crypto";
+
+/** Prefix identifying trigger tokens (e.g. in secret scanners and logs) */
+export const TRIGGER_TOKEN_PREFIX = "trg_";
+
+/** Characters of the token kept for display */
+const DISPLAY_PREFIX_LENGTH = TRIGGER_TOKEN_PREFIX.length + 8;
+
+/**
+ * Hashes a trigger token for storage and lookup.
+ *
+ * @param token - The raw token from the trigger URL
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashTriggerToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * The part of a token that's safe to show after creation.
+ *
+ * @param token - The raw token
+ * @returns The first characters of the token
+ */
+export function triggerTokenDisplayPrefix(token: string): string {
+  return token.slice(0, DISPLAY_PREFIX_LENGTH);
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+
+import { at, makeEndpoint } from "../../fixtures/index.js";
+import { DEFAULT_MISFIRE_MAX_BACKLOG, listMissedOccurrences, planMisfire } from "../misfires.js";
+
+const stubCron = {
+  next: (_expr: string, from: Date) => new Date(Math.floor(from.getTime() / 3_600_000) * 3_600_000 + 3_600_000), // next full hour
+};
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+describe("listMissedOccurrences", () => {
+  it("lists interval occurrences from nextRunAt up to now", () => {
+    const ep = makeEndpoint({ baselineIntervalMs: 600_000, nextRunAt: at("2025-01-01T00:00:00Z") });
+
+    const missed = listMissedOccurrences(at("2025-01-01T00:35:00Z"), ep, stubCron, [], 10);
+
+    expect(missed.total).toBe(4);
+    expect(iso(missed.occurrences)).toEqual([
+      "2025-01-01T00:00:00.000Z",
+      "2025-01-01T00:10:00.000Z",
+      "2025-01-01T00:20:00.000Z",
+      "2025-01-01T00:30:00.000Z",
+    ]);
+  });
+
+  it("follows the cron baseline and keeps only the latest occurrences", () => {
+    const ep = makeEndpoint({ baselineCron: "0 * * * *", baselineIntervalMs: undefined, nextRunAt: at("2025-01-01T00:00:00Z") });
+
+    const missed = listMissedOccurrences(at("2025-01-01T05:30:00Z"), ep, stubCron, [], 2);
+
+    expect(missed.total).toBe(6);
+    expect(iso(missed.occurrences)).toEqual(["2025-01-01T04:00:00.000Z", "2025-01-01T05:00:00.000Z"]);
+  });
+
+  it("doesn't count occurrences inside blackout windows or before a pause ends", () => {
+    const ep = makeEndpoint({
+      baselineCron: "0 * * * *",
+      baselineIntervalMs: undefined,
+      nextRunAt: at("2025-01-01T00:00:00Z"),
+      pausedUntil: at("2025-01-01T01:30:00Z"),
+    });
+
+    const missed = listMissedOccurrences(at("2025-01-01T05:30:00Z"), ep, stubCron, [{ startTime: "03:00", endTime: "04:00" }], 10);
+
+    expect(iso(missed.occurrences)).toEqual([
+      "2025-01-01T02:00:00.000Z",
+      "2025-01-01T04:00:00.000Z",
+      "2025-01-01T05:00:00.000Z",
+    ]);
+  });
+
+  it("ignores occurrences older than 7 days", () => {
+    const ep = makeEndpoint({ baselineIntervalMs: 86_400_000, nextRunAt: at("2025-01-01T00:00:00Z") });
+
+    const missed = listMissedOccurrences(at("2025-01-20T12:00:00Z"), ep, stubCron, [], 100);
+
+    expect(missed.total).toBe(7);
+    expect(missed.occurrences[0].toISOString()).toBe("2025-01-14T00:00:00.000Z");
+  });
+});
+
+describe("planMisfire", () => {
+  const now = at("2025-01-01T00:35:00Z");
+  const late = { baselineIntervalMs: 600_000, nextRunAt: at("2025-01-01T00:00:00Z") };
+
+  it("returns null without a policy", () => {
+    expect(planMisfire(now, makeEndpoint(late), stubCron)).toBeNull();
+  });
+
+  it("returns null when the claim is within the threshold", () => {
+    const ep = makeEndpoint({ ...late, nextRunAt: at("2025-01-01T00:34:30Z"), misfirePolicy: { mode: "skip" } });
+
+    expect(planMisfire(now, ep, stubCron)).toBeNull();
+  });
+
+  it("honors a custom threshold", () => {
+    const ep = makeEndpoint({ ...late, misfirePolicy: { mode: "skip", thresholdMs: 3_600_000 } });
+
+    expect(planMisfire(now, ep, stubCron)).toBeNull();
+  });
+
+  it("skips every missed occurrence", () => {
+    const ep = makeEndpoint({ ...late, misfirePolicy: { mode: "skip" } });
+
+    expect(planMisfire(now, ep, stubCron)).toEqual({ action: "skip", missed: 4 });
+  });
+
+  it("runs once for the latest missed occurrence", () => {
+    const ep = makeEndpoint({ ...late, misfirePolicy: { mode: "run-once" } });
+
+    expect(planMisfire(now, ep, stubCron)).toEqual({
+      action: "run",
+      scheduledFor: at("2025-01-01T00:30:00Z"),
+      missed: 4,
+      dropped: 3,
+      nextScheduledFor: undefined,
+    });
+  });
+
+  it("replays the oldest missed occurrence first and points at the next one", () => {
+    const ep = makeEndpoint({ ...late, misfirePolicy: { mode: "run-all" } });
+
+    expect(planMisfire(now, ep, stubCron)).toEqual({
+      action: "run",
+      scheduledFor: at("2025-01-01T00:00:00Z"),
+      missed: 4,
+      dropped: 0,
+      nextScheduledFor: at("2025-01-01T00:10:00Z"),
+    });
+  });
+
+  it("drops the oldest occurrences beyond the backlog", () => {
+    const ep = makeEndpoint({ ...late, misfirePolicy: { mode: "run-all", maxBacklog: 2 } });
+
+    expect(planMisfire(now, ep, stubCron)).toMatchObject({
+      scheduledFor: at("2025-01-01T00:20:00Z"),
+      missed: 4,
+      dropped: 2,
+      nextScheduledFor: at("2025-01-01T00:30:00Z"),
+    });
+  });
+
+  it("defaults the backlog", () => {
+    const ep = makeEndpoint({ baselineIntervalMs: 60_000, nextRunAt: at("2025-01-01T00:00:00Z"), misfirePolicy: { mode: "run-all" } });
+
+    const plan = planMisfire(now, ep, stubCron);
+
+    expect(plan).toMatchObject({ action: "run", missed: 36, dropped: 36 - DEFAULT_MISFIRE_MAX_BACKLOG });
+  });
+});
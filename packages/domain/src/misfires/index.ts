@@ -0,0 +1,4 @@
+/**
+ * Misfires module - catch-up policies for occurrences missed while the scheduler was down.
+ */
+export * from "./misfires.js";
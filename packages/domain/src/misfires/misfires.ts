@@ -0,0 +1,159 @@
+/**
+ * Misfire handling: catching up on occurrences missed while the scheduler was down or behind.
+ *
+ * Left alone, planNextRun runs a late endpoint once and carries on from "now", dropping
+ * whatever it missed. An endpoint's misfire policy decides instead: skip the missed
+ * occurrences, run once for the latest (the default), or replay each of them in order.
+ * Replays are stateless — after each catch-up run the endpoint's nextRunAt is set to the
+ * next missed occurrence, so the scheduler claims it again until the backlog is cleared.
+ */
+
+import type { BlackoutWindow, JobEndpoint, MisfireMode } from "../entities/index.js";
+import type { Cron } from "../ports/index.js";
+
+import { blackoutEndsAt } from "../blackouts/index.js";
+
+/** How late a claim must be to count as a misfire when the policy sets no thresholdMs (1 minute) */
+export const DEFAULT_MISFIRE_THRESHOLD_MS = 60_000;
+
+/** Largest accepted thresholdMs (1 day) */
+export const MAX_MISFIRE_THRESHOLD_MS = 24 * 60 * 60 * 1000;
+
+/** Missed occurrences run-all replays when the policy sets no maxBacklog */
+export const DEFAULT_MISFIRE_MAX_BACKLOG = 10;
+
+/** Largest accepted maxBacklog */
+export const MAX_MISFIRE_MAX_BACKLOG = 100;
+
+/** Misfire modes, in the order they're offered */
+export const MISFIRE_MODES: readonly MisfireMode[] = ["skip", "run-once", "run-all"];
+
+/** Run source for runs that stand in for a missed occurrence */
+export const CATCH_UP_RUN_SOURCE = "catch-up";
+
+/** Occurrences older than this are never caught up (7 days) */
+const MISFIRE_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Most occurrences examined per claim, so tight cadences can't stall the scheduler */
+const MAX_SCANNED_OCCURRENCES = 20_000;
+
+/** Missed occurrences of an endpoint, oldest first */
+export type MissedOccurrences = {
+  occurrences: Date[]; // The latest missed occurrences, at most `keep` of them
+  total: number; // Every missed occurrence found, including those not kept
+};
+
+/** What the scheduler does with a late claim */
+export type MisfirePlan =
+  | { action: "skip"; missed: number }
+  | {
+    action: "run";
+    scheduledFor: Date; // The occurrence this run stands in for
+    missed: number;
+    dropped: number; // Missed occurrences that won't run (beyond the backlog, or all but one for run-once)
+    nextScheduledFor?: Date; // The next occurrence to replay (run-all), which becomes the endpoint's nextRunAt
+  };
+
+/** First occurrence on the cadence that may be caught up */
+function firstOccurrence(now: Date, ep: JobEndpoint, cron: Cron): Date {
+  const earliestMs = now.getTime() - MISFIRE_LOOKBACK_MS;
+  const nextRunMs = ep.nextRunAt.getTime();
+
+  if (ep.baselineCron) {
+    return nextRunMs >= earliestMs
+      ? ep.nextRunAt
+      : cron.next(ep.baselineCron, new Date(earliestMs), ep.timezone);
+  }
+
+  // Intervals keep the grid that starts at nextRunAt; jump ahead so at most the scan cap remains
+  const intervalMs = ep.baselineIntervalMs ?? 60_000;
+  const fromMs = Math.max(earliestMs, now.getTime() - (MAX_SCANNED_OCCURRENCES - 1) * intervalMs);
+  const steps = Math.max(0, Math.ceil((fromMs - nextRunMs) / intervalMs));
+  return new Date(nextRunMs + steps * intervalMs);
+}
+
+/**
+ * Lists the occurrences an endpoint missed between its nextRunAt and now.
+ *
+ * Occurrences follow the baseline cadence starting at nextRunAt. Those inside a blackout
+ * window or before the end of a pause never count as missed, and those older than 7 days
+ * are ignored.
+ *
+ * @param now - Current time
+ * @param ep - The endpoint, as claimed
+ * @param cron - Cron helper for cron baselines
+ * @param jobBlackoutWindows - Blackout windows of the endpoint's job
+ * @param keep - How many of the latest occurrences to return
+ * @returns The latest `keep` missed occurrences, oldest first, and how many were missed in all
+ */
+export function listMissedOccurrences(
+  now: Date,
+  ep: JobEndpoint,
+  cron: Cron,
+  jobBlackoutWindows: readonly BlackoutWindow[] = [],
+  keep = 1,
+): MissedOccurrences {
+  const windows = [...ep.blackoutWindows ?? [], ...jobBlackoutWindows];
+  const occurrences: Date[] = [];
+  let total = 0;
+
+  let at = firstOccurrence(now, ep, cron);
+  for (let i = 0; i < MAX_SCANNED_OCCURRENCES && at <= now; i++) {
+    const paused = ep.pausedUntil !== undefined && at < ep.pausedUntil;
+    if (!paused && (windows.length === 0 || !blackoutEndsAt(at, windows))) {
+      total++;
+      occurrences.push(at);
+      if (occurrences.length > keep)
+        occurrences.shift();
+    }
+
+    const next = ep.baselineCron
+      ? cron.next(ep.baselineCron, at, ep.timezone)
+      : new Date(at.getTime() + (ep.baselineIntervalMs ?? 60_000));
+    if (next <= at)
+      break;
+    at = next;
+  }
+
+  return { occurrences, total };
+}
+
+/**
+ * Applies an endpoint's misfire policy to a claim.
+ *
+ * @param now - Current time
+ * @param ep - The endpoint, as claimed
+ * @param cron - Cron helper for cron baselines
+ * @param jobBlackoutWindows - Blackout windows of the endpoint's job
+ * @returns What to do with the claim, or null when the endpoint has no policy, it's on time or nothing was missed
+ */
+export function planMisfire(
+  now: Date,
+  ep: JobEndpoint,
+  cron: Cron,
+  jobBlackoutWindows: readonly BlackoutWindow[] = [],
+): MisfirePlan | null {
+  const policy = ep.misfirePolicy;
+  if (!policy)
+    return null;
+
+  const lateMs = now.getTime() - ep.nextRunAt.getTime();
+  if (lateMs <= (policy.thresholdMs ?? DEFAULT_MISFIRE_THRESHOLD_MS))
+    return null;
+
+  const keep = policy.mode === "run-all" ? policy.maxBacklog ?? DEFAULT_MISFIRE_MAX_BACKLOG : 1;
+  const { occurrences, total } = listMissedOccurrences(now, ep, cron, jobBlackoutWindows, keep);
+  if (total === 0)
+    return null;
+
+  if (policy.mode === "skip")
+    return { action: "skip", missed: total };
+
+  return {
+    action: "run",
+    scheduledFor: occurrences[0],
+    missed: total,
+    dropped: total - occurrences.length,
+    nextScheduledFor: occurrences[1],
+  };
+}
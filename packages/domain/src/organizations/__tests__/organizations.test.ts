@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { at } from "../../fixtures/index.js";
+import { canAssignOrgRole, hasOrgRole, isInvitationPending, isOrgRole, normalizeInvitationEmail } from "../organizations.js";
+
+describe("hasOrgRole", () => {
+  it("grants each role the access of the roles below it", () => {
+    expect(hasOrgRole("owner", "admin")).toBe(true);
+    expect(hasOrgRole("admin", "editor")).toBe(true);
+    expect(hasOrgRole("editor", "viewer")).toBe(true);
+    expect(hasOrgRole("viewer", "viewer")).toBe(true);
+  });
+
+  it("denies access above the role", () => {
+    expect(hasOrgRole("viewer", "editor")).toBe(false);
+    expect(hasOrgRole("editor", "admin")).toBe(false);
+    expect(hasOrgRole("admin", "owner")).toBe(false);
+  });
+});
+
+describe("isOrgRole", () => {
+  it("accepts known roles only", () => {
+    expect(isOrgRole("editor")).toBe(true);
+    expect(isOrgRole("superuser")).toBe(false);
+    expect(isOrgRole("toString")).toBe(false);
+  });
+});
+
+describe("canAssignOrgRole", () => {
+  it("lets owners assign any role", () => {
+    expect(canAssignOrgRole("owner", "owner")).toBe(true);
+    expect(canAssignOrgRole("owner", "viewer", "owner")).toBe(true);
+  });
+
+  it("lets admins manage non-owners", () => {
+    expect(canAssignOrgRole("admin", "admin")).toBe(true);
+    expect(canAssignOrgRole("admin", "viewer", "editor")).toBe(true);
+  });
+
+  it("keeps admins away from ownership", () => {
+    expect(canAssignOrgRole("admin", "owner")).toBe(false);
+    expect(canAssignOrgRole("admin", "viewer", "owner")).toBe(false);
+  });
+
+  it("denies editors and viewers", () => {
+    expect(canAssignOrgRole("editor", "viewer")).toBe(false);
+    expect(canAssignOrgRole("viewer", "viewer")).toBe(false);
+  });
+});
+
+describe("invitations", () => {
+  const now = at("2025-01-01T00:00:00Z");
+
+  it("normalizes emails for matching", () => {
+    expect(normalizeInvitationEmail("  Ana@Example.COM ")).toBe("ana@example.com");
+  });
+
+  it("is pending until it expires or is accepted", () => {
+    expect(isInvitationPending({ expiresAt: at("2025-01-02T00:00:00Z") }, now)).toBe(true);
+    expect(isInvitationPending({ expiresAt: now }, now)).toBe(false);
+    expect(isInvitationPending({ expiresAt: at("2025-01-02T00:00:00Z"), acceptedAt: now }, now)).toBe(false);
+  });
+});
@@ -0,0 +1,4 @@
+/**
+ * Organizations module - member roles, permission checks and invitations.
+ */
+export * from "./organizations.js";
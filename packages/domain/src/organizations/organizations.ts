@@ -0,0 +1,69 @@
+/**
+ * Organization roles and invitations.
+ *
+ * Roles are ordered: each one can do everything the roles below it can. Resource
+ * checks ask for the least privileged role that may perform the action (viewer to
+ * read, editor to change jobs and endpoints, admin to manage people, owner for billing).
+ */
+
+import type { OrganizationInvitation, OrgRole } from "../entities/index.js";
+
+/** All roles, most privileged first */
+export const ORG_ROLES: readonly OrgRole[] = ["owner", "admin", "editor", "viewer"];
+
+/** How long an invitation link stays valid (7 days) */
+export const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Longest accepted organization name */
+export const MAX_ORG_NAME_LENGTH = 100;
+
+const ROLE_RANK: Record<OrgRole, number> = {
+  owner: 3,
+  admin: 2,
+  editor: 1,
+  viewer: 0,
+};
+
+export function isOrgRole(value: string): value is OrgRole {
+  return Object.hasOwn(ROLE_RANK, value);
+}
+
+/**
+ * Whether `role` grants at least the access of `required`.
+ */
+export function hasOrgRole(role: OrgRole, required: OrgRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Whether an actor may give someone `role`, or change/remove a member who holds `targetRole`.
+ *
+ * Admins manage editors, viewers and other admins; only owners hand out or take away ownership.
+ *
+ * @param actorRole - Role of the member making the change
+ * @param role - Role being granted (invitation or role change)
+ * @param targetRole - Current role of the member being changed, if any
+ */
+export function canAssignOrgRole(actorRole: OrgRole, role: OrgRole, targetRole?: OrgRole): boolean {
+  if (!hasOrgRole(actorRole, "admin")) {
+    return false;
+  }
+  if (actorRole === "owner") {
+    return true;
+  }
+  return role !== "owner" && targetRole !== "owner";
+}
+
+/**
+ * Emails are matched case-insensitively when an invitation is accepted.
+ */
+export function normalizeInvitationEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Whether an invitation can still be accepted at `now`.
+ */
+export function isInvitationPending(invitation: Pick<OrganizationInvitation, "expiresAt" | "acceptedAt">, now: Date): boolean {
+  return !invitation.acceptedAt && invitation.expiresAt.getTime() > now.getTime();
+}
@@ -0,0 +1,25 @@
+/**
+ * Audit port: append-only storage for the audit log.
+ */
+
+import type { AuditAction, AuditActorType, AuditEvent } from "../entities/index.js";
+
+export type AuditEventFilters = {
+  jobId?: string;
+  endpointId?: string;
+  action?: AuditAction;
+  actorType?: AuditActorType;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  offset?: number;
+};
+
+/**
+ * Events are only ever appended; there is no update or delete.
+ */
+export type AuditRepo = {
+  append: (event: Omit<AuditEvent, "id">) => Promise<AuditEvent>;
+  /** Newest first, scoped to the owner of the changed resources */
+  list: (tenantId: string, filters?: AuditEventFilters) => Promise<{ events: AuditEvent[]; total: number }>;
+};
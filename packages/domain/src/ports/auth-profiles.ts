@@ -0,0 +1,65 @@
+/**
+ * Auth profile ports: per-user credentials the dispatcher exchanges for access tokens.
+ *
+ * Like secrets, the client secret is write-only from the management side:
+ * `AuthProfilesRepo` never returns it. Only `AuthProfileProvider`, used by the
+ * dispatcher, reads the decrypted secret.
+ */
+
+/**
+ * How an auth profile obtains tokens.
+ * - oauth2-client-credentials: OAuth2 client credentials grant (RFC 6749 §4.4)
+ */
+export type AuthProfileType = "oauth2-client-credentials";
+
+/**
+ * Token request settings of an OAuth2 client credentials profile, without the client secret.
+ */
+export type OAuth2ClientCredentialsSettings = {
+  tokenUrl: string;
+  clientId: string;
+  scopes: string[]; // Sent space-separated as `scope` (empty = not sent)
+  audience: string | null; // Sent as `audience` (Auth0 and similar providers), null = not sent
+};
+
+/** Auth profile shown in the UI and API (never the client secret) */
+export type AuthProfileInfo = OAuth2ClientCredentialsSettings & {
+  name: string;
+  type: AuthProfileType;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/** Auth profile with its decrypted client secret, for the dispatcher */
+export type AuthProfile = AuthProfileInfo & {
+  clientSecret: string;
+};
+
+/**
+ * Auth profile CRUD port for the management UI.
+ */
+export type AuthProfilesRepo = {
+  list: (userId: string) => Promise<AuthProfileInfo[]>;
+  /** @returns null if the user has no profile with that name */
+  get: (userId: string, name: string) => Promise<AuthProfileInfo | null>;
+  /** Create or replace a profile; `created` is false when an existing one was replaced */
+  set: (
+    userId: string,
+    name: string,
+    settings: OAuth2ClientCredentialsSettings,
+    clientSecret: string,
+  ) => Promise<{ profile: AuthProfileInfo; created: boolean }>;
+  /** @returns false if the user has no profile with that name */
+  delete: (userId: string, name: string) => Promise<boolean>;
+};
+
+/**
+ * Looks up auth profiles with their client secret for the dispatcher.
+ */
+export type AuthProfileProvider = {
+  /**
+   * @returns The profile (its updatedAt invalidates cached tokens), or null if the tenant
+   * has no profile with that name
+   */
+  getAuthProfile: (tenantId: string, name: string) => Promise<AuthProfile | null>;
+};
@@ -4,6 +4,7 @@
 
 export type CheckoutSessionParams = {
   userId: string;
+  orgId?: string; // Subscribe an organization instead of the user's personal account
   userEmail: string;
   tier: "pro" | "enterprise";
   billingPeriod?: "monthly" | "annual"; // Optional: defaults to monthly pricing
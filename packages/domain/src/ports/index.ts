@@ -2,9 +2,15 @@
  * Ports module - interface contracts for adapters.
  */
 export * from "./ai.js";
+export * from "./audit.js";
+export * from "./auth-profiles.js";
 export * from "./external.js";
+export * from "./notifications.js";
 export * from "./observability.js";
+export * from "./organizations.js";
 export * from "./repos.js";
+export * from "./secrets.js";
 export * from "./services.js";
 export * from "./signing.js";
 export * from "./time.js";
+export * from "./tls-credentials.js";
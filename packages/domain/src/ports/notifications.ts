@@ -0,0 +1,110 @@
+/**
+ * Notification ports: alert rule persistence, channel delivery and endpoint events.
+ */
+
+import type {
+  AlertCondition,
+  AlertNotification,
+  AlertRule,
+  AlertState,
+  JobEndpoint,
+  NotificationChannel,
+  NotificationChannelConfig,
+} from "../entities/index.js";
+
+/**
+ * Persistence for notification channels, alert rules and per-endpoint alert state.
+ *
+ * Lookups by id are scoped to the owning user; `listRulesForEndpoint` is the
+ * worker-side query and returns only enabled rules.
+ */
+export type NotificationsRepo = {
+  createChannel: (channel: {
+    userId: string;
+    name: string;
+    config: NotificationChannelConfig;
+    enabled: boolean;
+  }) => Promise<NotificationChannel>;
+  getChannel: (userId: string, id: string) => Promise<NotificationChannel | null>;
+  listChannels: (userId: string) => Promise<NotificationChannel[]>;
+  updateChannel: (userId: string, id: string, patch: {
+    name?: string;
+    config?: NotificationChannelConfig;
+    enabled?: boolean;
+  }) => Promise<NotificationChannel | null>;
+  deleteChannel: (userId: string, id: string) => Promise<boolean>;
+
+  createRule: (rule: {
+    userId: string;
+    name: string;
+    jobId?: string;
+    endpointId?: string;
+    condition: AlertCondition;
+    channelIds: string[];
+    cooldownMinutes: number;
+    notifyOnResolve: boolean;
+    enabled: boolean;
+  }) => Promise<AlertRule>;
+  getRule: (userId: string, id: string) => Promise<AlertRule | null>;
+  listRules: (userId: string) => Promise<AlertRule[]>;
+  updateRule: (userId: string, id: string, patch: {
+    name?: string;
+    jobId?: string | null;
+    endpointId?: string | null;
+    condition?: AlertCondition;
+    channelIds?: string[];
+    cooldownMinutes?: number;
+    notifyOnResolve?: boolean;
+    enabled?: boolean;
+  }) => Promise<AlertRule | null>;
+  deleteRule: (userId: string, id: string) => Promise<boolean>;
+
+  /**
+   * Enabled rules that apply to an endpoint: endpoint-scoped, job-scoped for its
+   * job, and owner-wide rules.
+   */
+  listRulesForEndpoint: (endpoint: { id: string; jobId?: string; tenantId: string }) => Promise<AlertRule[]>;
+
+  getAlertState: (ruleId: string, endpointId: string) => Promise<AlertState | null>;
+  saveAlertState: (state: AlertState) => Promise<void>;
+};
+
+/**
+ * Delivers a notification to one channel. Throws on delivery failure.
+ */
+export type NotificationSender = {
+  send: (channel: NotificationChannel, notification: AlertNotification) => Promise<void>;
+};
+
+/**
+ * A run finished and the endpoint's post-run state was written (updateAfterRun).
+ */
+export type EndpointRunFinishedEvent = {
+  endpoint: JobEndpoint;
+  runId: string;
+  status: "success" | "failed" | "canceled";
+  errorMessage?: string;
+  failureCount: number; // Consecutive failures including this run
+  finishedAt: Date;
+};
+
+/**
+ * The AI planner paused (or resumed, with `pausedUntil: null`) an endpoint.
+ */
+export type EndpointPausedEvent = {
+  endpoint: JobEndpoint;
+  pausedUntil: Date | null;
+  reason?: string;
+  at: Date;
+};
+
+/**
+ * Endpoint lifecycle events emitted by the workers.
+ *
+ * Implementations must not throw back into the worker path; callers still
+ * guard each call so a failing subscriber never affects scheduling.
+ */
+export type EndpointEvents = {
+  runFinished: (event: EndpointRunFinishedEvent) => Promise<void>;
+  endpointPaused: (event: EndpointPausedEvent) => Promise<void>;
+};
@@ -43,3 +43,90 @@ export type Logger = {
    */
   child: (bindings: Record<string, unknown>) => Logger;
 };
+
+/** Label values of a metric sample, keyed by label name */
+export type MetricLabels = Record<string, string>;
+
+/** Metric identity: Prometheus-style name, help text and the label names samples may carry */
+export type MetricOptions = {
+  name: string;
+  help: string;
+  labelNames?: readonly string[];
+};
+
+/** Monotonically increasing count (e.g. claimed endpoints, tool calls) */
+export type Counter = {
+  inc: (labels?: MetricLabels, value?: number) => void;
+};
+
+/** Distribution of observed values (e.g. durations), bucketed by the implementation */
+export type Histogram = {
+  observe: (value: number, labels?: MetricLabels) => void;
+};
+
+/**
+ * Metrics port for worker instrumentation.
+ *
+ * Workers create their instruments once, at construction, and record through them.
+ * Creating an instrument with a name that already exists returns the existing one.
+ *
+ * @example
+ * const dispatches = metrics.histogram({
+ *   name: 'cronicorn_scheduler_dispatch_duration_seconds',
+ *   help: 'Duration of endpoint runs',
+ *   labelNames: ['status', 'source'],
+ * });
+ * dispatches.observe(0.42, { status: 'success', source: 'baseline-cron' });
+ */
+export type Metrics = {
+  counter: (options: MetricOptions) => Counter;
+  histogram: (options: MetricOptions & { buckets?: readonly number[] }) => Histogram;
+};
+
+/** Span attribute values, keyed by OpenTelemetry-style attribute name; undefined values are dropped */
+export type SpanAttributes = Record<string, string | number | boolean | undefined>;
+
+/** A unit of traced work, ended by the tracer when its callback settles */
+export type Span = {
+  /** Id of the trace the span belongs to (32 hex chars), or undefined when tracing is off */
+  readonly traceId: string | undefined;
+  /** W3C `traceparent` header value identifying this span, for outbound requests */
+  readonly traceparent: string | undefined;
+  setAttributes: (attributes: SpanAttributes) => void;
+};
+
+export type SpanOptions = {
+  attributes?: SpanAttributes;
+  /** `client` for outbound requests, `server` for handled requests (default: internal) */
+  kind?: "internal" | "client" | "server";
+  /** W3C `traceparent` of an incoming request: the span continues that trace instead of the active one */
+  traceparent?: string;
+};
+
+/**
+ * Tracing port for following work across the API, scheduler, dispatcher and AI planner.
+ *
+ * `trace` runs the callback inside a new span, a child of the span active when it was
+ * called. The span ends when the callback settles; a thrown error is recorded on the
+ * span and rethrown.
+ *
+ * @example
+ * await tracer.trace('Scheduler.handleEndpoint', async (span) => {
+ *   span.setAttributes({ 'cronicorn.run_id': runId });
+ *   await dispatcher.execute(ep);
+ * }, { attributes: { 'cronicorn.endpoint_id': ep.id } });
+ */
+export type Tracer = {
+  trace: <T>(name: string, fn: (span: Span) => Promise<T>, options?: SpanOptions) => Promise<T>;
+};
+
+const noopSpan: Span = {
+  traceId: undefined,
+  traceparent: undefined,
+  setAttributes: () => {},
+};
+
+/** Tracer that records nothing, used when tracing is not configured */
+export const noopTracer: Tracer = {
+  trace: async (_name, fn) => fn(noopSpan),
+};
@@ -0,0 +1,73 @@
+/**
+ * Organization ports: membership persistence and invitation delivery.
+ */
+
+import type { Organization, OrganizationInvitation, OrganizationMember, OrgRole } from "../entities/index.js";
+
+export type OrganizationsRepo = {
+  /** Creates the organization with `ownerUserId` as its first owner */
+  createOrganization: (org: { name: string; ownerUserId: string }) => Promise<Organization>;
+  getOrganization: (orgId: string) => Promise<Organization | null>;
+  updateOrganization: (orgId: string, patch: { name?: string }) => Promise<Organization>;
+  /** Deletes the organization with its memberships, invitations and org-owned jobs */
+  deleteOrganization: (orgId: string) => Promise<void>;
+
+  /** Organizations the user belongs to, with their role in each */
+  listOrganizationsForUser: (userId: string) => Promise<Array<Organization & { role: OrgRole }>>;
+
+  /**
+   * Role of a user in an organization.
+   *
+   * @returns The role, or null if the user isn't a member (or the org doesn't exist)
+   */
+  getMemberRole: (orgId: string, userId: string) => Promise<OrgRole | null>;
+  listMembers: (orgId: string) => Promise<OrganizationMember[]>;
+  /** Adds a member, or changes the role of an existing one */
+  upsertMember: (orgId: string, userId: string, role: OrgRole) => Promise<void>;
+  /** @returns false if the user wasn't a member */
+  removeMember: (orgId: string, userId: string) => Promise<boolean>;
+  countOwners: (orgId: string) => Promise<number>;
+
+  createInvitation: (invitation: Omit<OrganizationInvitation, "id" | "createdAt" | "acceptedAt">) => Promise<OrganizationInvitation>;
+  /** Invitations that haven't been accepted yet (expired ones included) */
+  listPendingInvitations: (orgId: string) => Promise<OrganizationInvitation[]>;
+  getInvitationByToken: (token: string) => Promise<OrganizationInvitation | null>;
+  /** @returns false if the invitation doesn't belong to the org or was already accepted */
+  deleteInvitation: (orgId: string, invitationId: string) => Promise<boolean>;
+  markInvitationAccepted: (invitationId: string, acceptedAt: Date) => Promise<void>;
+
+  /**
+   * Get organization by Stripe customer ID (for webhook lookups).
+   */
+  getOrganizationByStripeCustomerId: (customerId: string) => Promise<Organization | null>;
+
+  /**
+   * Update the organization's subscription (called by the webhook handler). Idempotent.
+   */
+  updateOrganizationSubscription: (orgId: string, patch: {
+    tier?: "free" | "pro" | "enterprise";
+    stripeCustomerId?: string;
+    stripeSubscriptionId?: string | null;
+    subscriptionStatus?: string;
+    subscriptionEndsAt?: Date | null;
+  }) => Promise<void>;
+};
+
+/**
+ * An invitation ready to be delivered.
+ */
+export type OrganizationInvitationMessage = {
+  email: string;
+  orgName: string;
+  role: OrgRole;
+  invitedByName: string;
+  acceptUrl: string;
+  expiresAt: Date;
+};
+
+/**
+ * Delivers invitation emails. Throws on delivery failure.
+ */
+export type InvitationSender = {
+  sendInvitation: (message: OrganizationInvitationMessage) => Promise<void>;
+};
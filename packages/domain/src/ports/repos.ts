@@ -2,7 +2,7 @@
  * Repository ports for job and run persistence.
  */
 
-import type { ExecutionResult, Job, JobEndpoint, JsonValue } from "../entities/index.js";
+import type { AuditActor, BlackoutWindow, ExecutionResult, Job, JobEndpoint, JsonValue, ManualRunRequest, RunAttempt, TriggerToken } from "../entities/index.js";
 import type { AISessionWarning } from "./ai.js";
 
 /**
@@ -39,12 +39,17 @@ export type MultiWindowHealth = {
   failureStreak: number;
 };
 
+/**
+ * Owner scoping: methods that take a `userId` to scope jobs, endpoints and runs
+ * match the owner of the job — the organization for org-owned jobs (`orgId`),
+ * the user otherwise. The same applies to RunsRepo and SessionsRepo filters.
+ */
 export type JobsRepo = {
   // Job lifecycle operations (Phase 3)
   createJob: (job: Omit<Job, "id" | "createdAt" | "updatedAt">) => Promise<Job>;
   getJob: (id: string) => Promise<Job | null>;
   listJobs: (userId: string, filters?: { status?: "active" | "paused" | "archived" }) => Promise<Array<Job & { endpointCount: number }>>;
-  updateJob: (id: string, patch: { name?: string; description?: string }) => Promise<Job>;
+  updateJob: (id: string, patch: { name?: string; description?: string; blackoutWindows?: BlackoutWindow[] }) => Promise<Job>;
   archiveJob: (id: string) => Promise<Job>;
   pauseJob: (id: string) => Promise<Job>;
   resumeJob: (id: string) => Promise<Job>;
@@ -54,34 +59,60 @@ export type JobsRepo = {
   updateEndpoint: (id: string, patch: Partial<Omit<JobEndpoint, "id" | "tenantId">>) => Promise<JobEndpoint>;
 
   /**
-   * Claims due endpoints for execution.
+   * Claims due endpoints for execution under a lease.
    *
    * **Guarantees**:
    * - Returns endpoint IDs where nextRunAt <= now + withinMs
-   * - Atomically extends lockedUntil to prevent double-claiming
+   * - Atomically records `ownerId` as lease owner and sets the lease expiry
+   * - Skips endpoints holding an unexpired lease (owned by anyone)
    * - Respects pausedUntil (skips paused endpoints)
    * - Idempotent: calling twice returns non-overlapping sets
    * - Thread-safe: implementations must use pessimistic locking
    *
    * **Implementation Notes**:
    * - SQL: Use `FOR UPDATE SKIP LOCKED` or equivalent
-   * - Memory: Track _lockedUntil per endpoint (adapter-local)
-   * - Distributed: Use advisory locks or lease tables
+   * - Memory: Track _leaseOwner/_lockedUntil per endpoint (adapter-local)
+   * - Initial lease covers max(maxExecutionTimeMs, withinMs, 60s); holders extend it with renewLease
    *
    * @param limit Maximum number of endpoints to claim
    * @param withinMs Time horizon in milliseconds (claims jobs due within this window)
+   * @param ownerId Identity of the claiming worker (lease owner)
    * @returns Array of claimed endpoint IDs
    */
-  claimDueEndpoints: (limit: number, withinMs: number) => Promise<string[]>;
+  claimDueEndpoints: (limit: number, withinMs: number, ownerId: string) => Promise<string[]>;
   getEndpoint: (id: string) => Promise<JobEndpoint>;
 
-  // Locking (transitional - may be refactored)
-  // Current: Simple pessimistic locks to prevent duplicate execution in distributed workers.
-  // Future: Consider replacing with lease-based mechanism (TTL-based claims with heartbeat renewal)
-  // or optimistic concurrency (version checks) for better scalability and failure handling.
-  // See ADR for leasing redesign when DB adapter lands.
-  setLock: (id: string, until: Date) => Promise<void>;
-  clearLock: (id: string) => Promise<void>;
+  /**
+   * Looks up a heartbeat endpoint by the token in its ping URL.
+   *
+   * @returns The endpoint, or null if no unarchived endpoint has this token
+   */
+  getEndpointByPingToken: (token: string) => Promise<JobEndpoint | null>;
+
+  /**
+   * Looks up an endpoint by the hash of the token in its trigger URL.
+   *
+   * @returns The endpoint, or null if no unarchived endpoint has this token
+   */
+  getEndpointByTriggerTokenHash: (hash: string) => Promise<JobEndpoint | null>;
+
+  /**
+   * Extends a lease held by `ownerId` to now + ttlMs.
+   *
+   * Renewal succeeds while the caller is still the recorded owner, even if the
+   * lease has technically expired but nobody else has claimed the endpoint yet.
+   *
+   * @returns false if the lease was lost (another worker claimed it or it was released)
+   */
+  renewLease: (id: string, ownerId: string, ttlMs: number) => Promise<boolean>;
+
+  /**
+   * Releases a lease held by `ownerId`. No-op if the caller no longer owns it.
+   *
+   * Implementations may keep the endpoint unclaimable until its nextRunAt
+   * (when that is in the future) so horizon-based claiming does not run it early.
+   */
+  releaseLease: (id: string, ownerId: string) => Promise<void>;
 
   // AI steering
   setNextRunAtIfEarlier: (id: string, when: Date) => Promise<void>;
@@ -95,13 +126,35 @@ export type JobsRepo = {
   clearAIHints: (id: string) => Promise<void>;
   resetFailureCount: (id: string) => Promise<void>;
 
-  // Post-run update
+  /**
+   * Stores a run-now request (replacing any pending one) and pulls nextRunAt in to
+   * the request time so the endpoint is claimed on the next tick.
+   */
+  requestManualRun: (id: string, request: ManualRunRequest) => Promise<void>;
+
+  /**
+   * Drops a run-now request without running it (its run was skipped, e.g. by the
+   * concurrency policy). A newer request made in the meantime is kept.
+   */
+  clearManualRun: (id: string, requestId: string) => Promise<void>;
+
+  /** Sets, replaces (rotation) or, with null, removes the endpoint's trigger token */
+  setTriggerToken: (id: string, token: TriggerToken | null) => Promise<void>;
+
+  /**
+   * Post-run update.
+   *
+   * `consumedManualRunId` clears the run-now request the run executed. A request still
+   * pending afterwards (made while the run was in flight) keeps nextRunAt at its
+   * request time, so it isn't pushed out by the planned next run.
+   */
   updateAfterRun: (id: string, patch: {
     lastRunAt: Date;
     nextRunAt: Date;
     status: ExecutionResult;
     failureCountPolicy: "increment" | "reset";
     clearExpiredHints: boolean;
+    consumedManualRunId?: string;
   }) => Promise<void>;
 
   // Endpoint relationship operations (Phase 3)
@@ -133,8 +186,9 @@ export type JobsRepo = {
   }>;
 
   /**
-   * Get user's tier for quota enforcement.
-   * Returns tier level ("free" | "pro" | "enterprise") for the given user ID.
+   * Get the owner's tier for quota enforcement.
+   * Returns tier level ("free" | "pro" | "enterprise") for the given user or
+   * organization ID (org-owned endpoints use the organization's tier).
    */
   getUserTier: (userId: string) => Promise<"free" | "pro" | "enterprise">;
 
@@ -217,16 +271,39 @@ export type RunsRepo = {
     status: "running";
     attempt: number;
     source?: string; // Phase 3: Track what triggered this run (baseline, AI hint, manual, etc.)
+    leaseOwner?: string; // Worker holding the endpoint lease while this run executes
+    queueWaitMs?: number; // Time the claimed endpoint waited in the dispatch pool before executing
+    scheduledFor?: Date; // When the run was due: the endpoint's nextRunAt at claim time, or the missed occurrence a catch-up run stands in for
+    lagMs?: number; // How late the run started relative to scheduledFor (negative when claimed early)
+    triggeredBy?: AuditActor; // Who requested a manual run
+    traceId?: string; // Trace the run was executed in, when tracing is enabled
   }) => Promise<string>;
 
   finish: (runId: string, patch: {
     status: "success" | "failed" | "canceled";
     durationMs: number;
     err?: unknown;
+    errorDetails?: Record<string, unknown>; // Structured failure detail, e.g. a failed success criterion
     statusCode?: number;
     responseBody?: JsonValue;
+    attempt?: number; // Attempts made within this run (see RetryPolicy)
+    attempts?: RunAttempt[]; // Per-attempt detail, recorded when the run retried
   }) => Promise<void>;
 
+  /**
+   * Latest unfinished run of an endpoint from the given source.
+   * Used to pair a heartbeat "start" check-in with the check-in that completes it.
+   *
+   * @returns The run, or null if none is open
+   */
+  getOpenRun: (endpointId: string, source: string) => Promise<{ id: string; startedAt: Date } | null>;
+
+  /**
+   * Unfinished runs of an endpoint, from any source, oldest first.
+   * Checked against the endpoint's concurrency policy before a run starts.
+   */
+  listOpenRuns: (endpointId: string) => Promise<Array<{ id: string; startedAt: Date; source?: string }>>;
+
   // Execution visibility operations (Phase 3)
   listRuns: (filters: {
     userId: string;
@@ -245,6 +322,8 @@ export type RunsRepo = {
       status: string;
       durationMs?: number;
       source?: string;
+      scheduledFor?: Date;
+      lagMs?: number;
     }>;
     total: number;
   }>;
@@ -257,9 +336,16 @@ export type RunsRepo = {
     finishedAt?: Date;
     durationMs?: number;
     errorMessage?: string;
+    errorDetails?: Record<string, unknown>;
     responseBody?: JsonValue;
     source?: string;
     attempt: number;
+    attempts?: RunAttempt[];
+    queueWaitMs?: number;
+    scheduledFor?: Date;
+    lagMs?: number;
+    triggeredBy?: AuditActor;
+    traceId?: string;
   } | null>;
 
   /**
@@ -313,6 +399,28 @@ export type RunsRepo = {
     count: number;
   }>>;
 
+  /**
+   * Get scheduling lag percentiles per job.
+   * Only runs that recorded a lag (scheduler-dispatched runs) are counted.
+   *
+   * @param filters - Filter criteria including date range and optional job/source filters
+   * @returns Lag percentiles in milliseconds for each job with lagged runs, slowest p95 first
+   */
+  getJobLagPercentiles: (filters: {
+    userId: string;
+    jobId?: string;
+    source?: string;
+    sinceDate?: Date;
+    untilDate?: Date;
+  }) => Promise<Array<{
+    jobId: string;
+    jobName: string;
+    runCount: number;
+    p50LagMs: number;
+    p95LagMs: number;
+    p99LagMs: number;
+  }>>;
+
   /**
    * Get time-series data for run activity (aggregated by SQL).
    *
@@ -430,7 +538,10 @@ export type RunsRepo = {
   /**
    * Clean up zombie runs (stuck in "running" state).
    *
-   * Finds runs older than threshold and marks them as failed.
+   * - Runs whose lease owner vanished (the endpoint lease expired or now belongs
+   *   to another worker) are marked as canceled.
+   * - Any remaining run older than the threshold is marked as failed.
+   *
    * Used by background cleanup task to handle worker crashes.
    *
    * @param olderThanMs - Mark runs as failed if running longer than this (milliseconds)
@@ -494,6 +605,7 @@ export type SessionsRepo = {
     nextAnalysisAt?: Date; // AI-scheduled next analysis time
     endpointFailureCount?: number; // Snapshot of failure count at analysis time
     warnings?: AISessionWarning[];
+    traceId?: string; // Trace the analysis ran in, when tracing is enabled
   }) => Promise<string>;
 
   /**
@@ -553,6 +665,7 @@ export type SessionsRepo = {
     tokenUsage: number | null;
     durationMs: number | null;
     warnings: AISessionWarning[];
+    traceId: string | null;
   } | null>;
 
   /**
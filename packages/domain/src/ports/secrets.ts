@@ -0,0 +1,32 @@
+/**
+ * Secrets ports: per-user secret storage and dispatch-time lookup.
+ *
+ * Values are write-only from the management side: `SecretsRepo` never returns them.
+ * Only `SecretsProvider`, used by the dispatcher, reads decrypted values.
+ */
+
+/** Secret metadata shown in the UI and API (never the value) */
+export type SecretInfo = {
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Secret CRUD port for the management UI.
+ */
+export type SecretsRepo = {
+  list: (userId: string) => Promise<SecretInfo[]>;
+  /** Create or replace a secret; `created` is false when an existing value was replaced */
+  set: (userId: string, name: string, value: string) => Promise<{ secret: SecretInfo; created: boolean }>;
+  /** @returns false if the user has no secret with that name */
+  delete: (userId: string, name: string) => Promise<boolean>;
+};
+
+/**
+ * Looks up decrypted secret values for the dispatcher.
+ */
+export type SecretsProvider = {
+  /** @returns Values by name; names the tenant hasn't defined are absent */
+  getSecrets: (tenantId: string, names: string[]) => Promise<Record<string, string>>;
+};
@@ -5,24 +5,117 @@
  * attach X-Cronicorn-Signature headers to outbound requests.
  */
 
+/**
+ * Signature scheme.
+ * - v1: HMAC-SHA256 over "{timestamp}.{body}"
+ * - v2: HMAC-SHA256 over a canonical request: timestamp, method, path and query,
+ *   the signed headers and a SHA-256 digest of the body
+ */
+export type SignatureVersion = "v1" | "v2";
+
+/**
+ * Signing algorithm.
+ * - hmac-sha256: shared secret; receivers hold the same key
+ * - ed25519: the private key stays in Cronicorn; receivers verify with the public key
+ *   from the tenant's JWKS. Always signs the v2 canonical request
+ */
+export type SigningAlgorithm = "hmac-sha256" | "ed25519";
+
+/**
+ * A key outbound requests are signed with.
+ * `id` is sent alongside the signature so receivers can tell keys apart during rotation
+ * (and is the `kid` of Ed25519 keys in the JWKS).
+ */
+export type SigningKey = {
+  id: string;
+  key: string; // HMAC secret (hex), or Ed25519 private key (PKCS#8 PEM)
+  algorithm: SigningAlgorithm;
+  version: SignatureVersion; // HMAC keys only
+};
+
+/**
+ * Public half of an Ed25519 signing key, as published in the tenant's JWKS.
+ */
+export type SigningPublicKey = {
+  id: string;
+  publicKey: string; // Raw public key, base64url (the JWK "x" member)
+  expiresAt: Date | null;
+};
+
 export type SigningKeyProvider = {
-  getKey: (tenantId: string) => Promise<string | null>;
+  /**
+   * Keys that sign the tenant's requests, newest first: the active key, followed by
+   * rotated-out keys that are still within their overlap period. Empty when the tenant
+   * has no key.
+   */
+  getKeys: (tenantId: string) => Promise<SigningKey[]>;
+};
+
+/**
+ * Lifecycle of a signing key.
+ * - active: the current key, valid until the next rotation
+ * - expiring: replaced by a rotation, still signing requests until expiresAt
+ */
+export type SigningKeyStatus = "active" | "expiring";
+
+/**
+ * Signing key metadata for display (never includes the raw key).
+ */
+export type SigningKeyInfo = {
+  id: string;
+  keyPrefix: string;
+  algorithm: SigningAlgorithm;
+  status: SigningKeyStatus;
+  createdAt: Date;
+  expiresAt: Date | null; // Set once the key is rotated out
+};
+
+/**
+ * A key as returned by create and rotate.
+ * `rawKey` is the HMAC secret, shown once; it's null for Ed25519 keys, whose private key
+ * never leaves Cronicorn.
+ */
+export type CreatedSigningKey = {
+  id: string;
+  rawKey: string | null;
+  keyPrefix: string;
+  algorithm: SigningAlgorithm;
 };
 
 /**
  * Signing key CRUD port for the management UI.
  *
- * Manages per-user HMAC signing keys: create, rotate, inspect, delete.
- * The raw key is returned only on create/rotate (shown once, never stored in plaintext by the UI).
+ * Manages per-user signing keys: create, rotate, inspect, delete.
+ * The raw HMAC key is returned only on create/rotate (shown once, never stored in plaintext by the UI).
+ * Expired keys are never returned.
  */
 export type SigningKeysRepo = {
   getInfo: (userId: string) => Promise<{
     hasKey: boolean;
-    keyPrefix: string | null;
+    keyPrefix: string | null; // Active key
     createdAt: Date | null;
     rotatedAt: Date | null;
+    algorithm: SigningAlgorithm | null; // Active key
+    signatureVersion: SignatureVersion | null; // Scheme the tenant's HMAC requests are signed with
+    keys: SigningKeyInfo[]; // Active key first, then expiring keys (newest first)
   }>;
-  create: (userId: string) => Promise<{ rawKey: string; keyPrefix: string }>;
-  rotate: (userId: string) => Promise<{ rawKey: string; keyPrefix: string }>;
+  /**
+   * Public keys of the user's live Ed25519 keys, newest first (for the JWKS).
+   */
+  getPublicKeys: (userId: string) => Promise<SigningPublicKey[]>;
+  create: (userId: string, algorithm?: SigningAlgorithm) => Promise<CreatedSigningKey>; // Default: hmac-sha256
+  /**
+   * Replace the active key with a new one. The old key keeps signing requests
+   * (alongside the new one) for `overlapMs`, then expires.
+   * Rotating to another algorithm switches the tenant over without a gap.
+   */
+  rotate: (userId: string, overlapMs: number, algorithm?: SigningAlgorithm) => Promise<CreatedSigningKey & {
+    previousKeyExpiresAt: Date;
+  }>; // Default algorithm: the active key's
+  /**
+   * Switch the signature scheme for all of the user's keys.
+   * Rotations keep the scheme of the key they replace.
+   */
+  setSignatureVersion: (userId: string, version: SignatureVersion) => Promise<void>;
   delete: (userId: string) => Promise<void>;
 };
@@ -8,5 +8,9 @@ export type Clock = {
 };
 
 export type Cron = {
-  next: (expr: string, from: Date) => Date;
+  /**
+   * Next occurrence of `expr` strictly after `from`.
+   * `timezone` is an IANA zone name; when omitted the expression is evaluated in UTC.
+   */
+  next: (expr: string, from: Date, timezone?: string) => Date;
 };
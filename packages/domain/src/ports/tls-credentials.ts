@@ -0,0 +1,67 @@
+/**
+ * TLS credential ports: per-user client certificates and CA bundles for outbound mTLS.
+ *
+ * Like secrets, the PEM material is write-only from the management side:
+ * `TlsCredentialsRepo` only returns certificate metadata. Only `TlsCredentialProvider`,
+ * used by the dispatcher, reads the decrypted material.
+ */
+
+/**
+ * PEM material of a TLS credential, as uploaded.
+ * A client certificate comes with its private key; either pair, a CA bundle, or both.
+ */
+export type TlsCredentialMaterial = {
+  certificate?: string; // Client certificate (PEM), optionally followed by its intermediates
+  privateKey?: string; // Unencrypted private key of the client certificate (PEM)
+  caBundle?: string; // CA certificates (PEM) the server's certificate must chain to
+};
+
+/**
+ * What's known about a credential's certificates, read from the PEM on upload.
+ */
+export type TlsCertificateSummary = {
+  subject: string | null; // Client certificate subject, e.g. "CN=billing-client"
+  certificateExpiresAt: Date | null; // Client certificate notAfter
+  caCertificates: number; // Certificates in the CA bundle (0 = the default trust store)
+  caExpiresAt: Date | null; // Earliest notAfter in the CA bundle
+};
+
+/** TLS credential metadata shown in the UI and API (never the material) */
+export type TlsCredentialInfo = TlsCertificateSummary & {
+  name: string;
+  hasClientCertificate: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * TLS credential CRUD port for the management UI.
+ */
+export type TlsCredentialsRepo = {
+  list: (userId: string) => Promise<TlsCredentialInfo[]>;
+  /** @returns null if the user has no credential with that name */
+  get: (userId: string, name: string) => Promise<TlsCredentialInfo | null>;
+  /**
+   * Create or replace a credential; `created` is false when an existing one was replaced.
+   * The material must already be validated (see inspectTlsCredential).
+   */
+  set: (
+    userId: string,
+    name: string,
+    material: TlsCredentialMaterial,
+    summary: TlsCertificateSummary,
+  ) => Promise<{ credential: TlsCredentialInfo; created: boolean }>;
+  /** @returns false if the user has no credential with that name */
+  delete: (userId: string, name: string) => Promise<boolean>;
+};
+
+/**
+ * Looks up decrypted TLS material for the dispatcher.
+ */
+export type TlsCredentialProvider = {
+  /**
+   * @returns The material with its last update time (for agent caching), or null if the
+   * tenant has no credential with that name
+   */
+  getTlsCredential: (tenantId: string, name: string) => Promise<(TlsCredentialMaterial & { updatedAt: Date }) | null>;
+};
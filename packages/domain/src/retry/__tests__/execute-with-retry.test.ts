@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+
+import type { ExecutionResult, JobEndpoint, RetryPolicy } from "../../entities/index.js";
+
+import { computeRetryDelay, executeWithRetry, isRetryableResult } from "../execute-with-retry.js";
+
+const failed500: ExecutionResult = { status: "failed", durationMs: 10, statusCode: 500, errorMessage: "HTTP 500 Internal Server Error" };
+const ok: ExecutionResult = { status: "success", durationMs: 20, statusCode: 200 };
+
+function makeEp(retryPolicy?: RetryPolicy): JobEndpoint {
+  return {
+    id: "ep1",
+    tenantId: "t1",
+    name: "flaky",
+    nextRunAt: new Date("2025-01-01T00:00:00Z"),
+    failureCount: 0,
+    retryPolicy,
+  };
+}
+
+function makeDeps(results: ExecutionResult[]) {
+  let nowMs = new Date("2025-01-01T00:00:00Z").getTime();
+  const sleeps: number[] = [];
+  let calls = 0;
+  return {
+    sleeps,
+    calls: () => calls,
+    deps: {
+      dispatcher: {
+        execute: async () => {
+          const result = results[Math.min(calls, results.length - 1)]!;
+          calls++;
+          nowMs += result.durationMs;
+          return result;
+        },
+      },
+      clock: {
+        now: () => new Date(nowMs),
+        sleep: async (ms: number) => {
+          sleeps.push(ms);
+          nowMs += ms;
+        },
+      },
+      random: () => 0.5,
+    },
+  };
+}
+
+describe("isRetryableResult", () => {
+  const policy: RetryPolicy = { maxAttempts: 3, backoff: "fixed", initialDelayMs: 100 };
+
+  it("retries default 5xx/429 status codes but not other 4xx", () => {
+    expect(isRetryableResult(policy, failed500)).toBe(true);
+    expect(isRetryableResult(policy, { ...failed500, statusCode: 429 })).toBe(true);
+    expect(isRetryableResult(policy, { ...failed500, statusCode: 404 })).toBe(false);
+  });
+
+  it("uses the policy's own status codes when given", () => {
+    const custom = { ...policy, retryOnStatusCodes: [404] };
+    expect(isRetryableResult(custom, { ...failed500, statusCode: 404 })).toBe(true);
+    expect(isRetryableResult(custom, failed500)).toBe(false);
+  });
+
+  it("retries error classes selected by the policy", () => {
+    const timeout: ExecutionResult = { status: "failed", durationMs: 5, errorClass: "timeout" };
+    const network: ExecutionResult = { status: "failed", durationMs: 5, errorClass: "network" };
+    expect(isRetryableResult(policy, timeout)).toBe(true);
+    expect(isRetryableResult({ ...policy, retryOnErrors: ["network"] }, timeout)).toBe(false);
+    expect(isRetryableResult({ ...policy, retryOnErrors: ["network"] }, network)).toBe(true);
+  });
+
+  it("never retries configuration failures or successes", () => {
+    expect(isRetryableResult(policy, { status: "failed", durationMs: 0, errorMessage: "No URL configured for endpoint" })).toBe(false);
+    expect(isRetryableResult(policy, ok)).toBe(false);
+  });
+});
+
+describe("computeRetryDelay", () => {
+  it("computes fixed, exponential and jittered delays", () => {
+    expect(computeRetryDelay({ maxAttempts: 5, backoff: "fixed", initialDelayMs: 500 }, 3, failed500)).toBe(500);
+    expect(computeRetryDelay({ maxAttempts: 5, backoff: "exponential", initialDelayMs: 500 }, 3, failed500)).toBe(2000);
+    expect(computeRetryDelay({ maxAttempts: 5, backoff: "jittered", initialDelayMs: 500 }, 3, failed500, () => 0.25)).toBe(500);
+  });
+
+  it("caps delays at maxDelayMs", () => {
+    expect(computeRetryDelay({ maxAttempts: 10, backoff: "exponential", initialDelayMs: 1000, maxDelayMs: 5000 }, 8, failed500)).toBe(5000);
+  });
+
+  it("waits at least Retry-After when respected", () => {
+    const policy: RetryPolicy = { maxAttempts: 3, backoff: "fixed", initialDelayMs: 100 };
+    const throttled = { ...failed500, statusCode: 429, retryAfterMs: 3000 };
+    expect(computeRetryDelay(policy, 1, throttled)).toBe(3000);
+    expect(computeRetryDelay({ ...policy, respectRetryAfter: false }, 1, throttled)).toBe(100);
+  });
+
+  it("gives up when Retry-After exceeds maxDelayMs", () => {
+    const policy: RetryPolicy = { maxAttempts: 3, backoff: "fixed", initialDelayMs: 100, maxDelayMs: 1000 };
+    expect(computeRetryDelay(policy, 1, { ...failed500, retryAfterMs: 120_000 })).toBeNull();
+  });
+});
+
+describe("executeWithRetry", () => {
+  it("dispatches once without a retry policy", async () => {
+    const { deps, calls, sleeps } = makeDeps([failed500]);
+
+    const outcome = await executeWithRetry(makeEp(), deps);
+
+    expect(calls()).toBe(1);
+    expect(sleeps).toEqual([]);
+    expect(outcome.result).toEqual(failed500);
+    expect(outcome.attempts).toHaveLength(1);
+  });
+
+  it("retries until success and records every attempt", async () => {
+    const { deps, sleeps } = makeDeps([failed500, failed500, ok]);
+
+    const outcome = await executeWithRetry(makeEp({ maxAttempts: 5, backoff: "exponential", initialDelayMs: 100 }), deps);
+
+    expect(outcome.result).toEqual(ok);
+    expect(sleeps).toEqual([100, 200]);
+    expect(outcome.attempts).toEqual([
+      { attempt: 1, startedAt: new Date("2025-01-01T00:00:00.000Z"), status: "failed", durationMs: 10, statusCode: 500, errorMessage: "HTTP 500 Internal Server Error", delayMs: 100 },
+      { attempt: 2, startedAt: new Date("2025-01-01T00:00:00.110Z"), status: "failed", durationMs: 10, statusCode: 500, errorMessage: "HTTP 500 Internal Server Error", delayMs: 200 },
+      { attempt: 3, startedAt: new Date("2025-01-01T00:00:00.320Z"), status: "success", durationMs: 20, statusCode: 200, errorMessage: undefined },
+    ]);
+    expect(outcome.durationMs).toBe(10 + 100 + 10 + 200 + 20);
+  });
+
+  it("stops after maxAttempts and returns the last failure", async () => {
+    const { deps, calls } = makeDeps([failed500]);
+
+    const outcome = await executeWithRetry(makeEp({ maxAttempts: 3, backoff: "fixed", initialDelayMs: 50 }), deps);
+
+    expect(calls()).toBe(3);
+    expect(outcome.result.status).toBe("failed");
+    expect(outcome.attempts.at(-1)?.delayMs).toBeUndefined();
+  });
+
+  it("does not retry non-retryable failures", async () => {
+    const { deps, calls } = makeDeps([{ ...failed500, statusCode: 400 }]);
+
+    await executeWithRetry(makeEp({ maxAttempts: 3, backoff: "fixed", initialDelayMs: 50 }), deps);
+
+    expect(calls()).toBe(1);
+  });
+
+  it("judges each attempt by the endpoint's success criteria", async () => {
+    const degraded: ExecutionResult = { status: "success", durationMs: 10, statusCode: 200, responseBody: { status: "degraded" } };
+    const { deps, calls } = makeDeps([degraded]);
+    const ep: JobEndpoint = {
+      ...makeEp({ maxAttempts: 3, backoff: "fixed", initialDelayMs: 50, retryOnStatusCodes: [200] }),
+      successCriteria: { assertions: [{ path: "$.status", operator: "equals", value: "ok" }] },
+    };
+
+    const outcome = await executeWithRetry(ep, deps);
+
+    expect(calls()).toBe(3);
+    expect(outcome.result.status).toBe("failed");
+    expect(outcome.attempts.map(a => a.errorMessage)).toEqual(Array.from({ length: 3 }, () => "Assertion failed: $.status equals \"ok\" (actual: \"degraded\")"));
+  });
+
+  it("reports each retry before waiting", async () => {
+    const { deps } = makeDeps([failed500, ok]);
+    const retried: number[] = [];
+
+    await executeWithRetry(makeEp({ maxAttempts: 2, backoff: "fixed", initialDelayMs: 50 }), deps, attempt => retried.push(attempt.attempt));
+
+    expect(retried).toEqual([1]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * In-run retry execution.
+ *
+ * Pure orchestration over the Dispatcher and Clock ports: dispatches an endpoint,
+ * applies its SuccessCriteria, and while the result is retryable under the
+ * endpoint's RetryPolicy, waits (via clock.sleep) and dispatches again. Every
+ * attempt is returned so callers can record them on the run.
+ */
+
+import type { ExecutionResult, JobEndpoint, RetryPolicy, RunAttempt } from "../entities/index.js";
+import type { Dispatcher } from "../ports/services.js";
+import type { Clock } from "../ports/time.js";
+
+import { evaluateSuccessCriteria } from "../success/success-criteria.js";
+
+/** Status codes retried when a policy doesn't list its own */
+export const DEFAULT_RETRY_STATUS_CODES: readonly number[] = [408, 425, 429, 500, 502, 503, 504];
+
+/** Upper bound for a single retry delay when a policy doesn't set maxDelayMs */
+export const DEFAULT_RETRY_MAX_DELAY_MS = 60_000;
+
+export type RetryOutcome = {
+  /** Result of the final attempt */
+  result: ExecutionResult;
+  /** Every attempt made, in order */
+  attempts: RunAttempt[];
+  /** Total elapsed time across all attempts, including retry delays */
+  durationMs: number;
+};
+
+/**
+ * Whether a failed result should be retried under the policy.
+ * Failures without an HTTP status or error class (e.g. missing URL, blocked URL)
+ * are configuration problems and are never retried.
+ */
+export function isRetryableResult(policy: RetryPolicy, result: ExecutionResult): boolean {
+  if (result.status === "success")
+    return false;
+
+  if (result.statusCode !== undefined)
+    return (policy.retryOnStatusCodes ?? DEFAULT_RETRY_STATUS_CODES).includes(result.statusCode);
+
+  if (result.errorClass)
+    return (policy.retryOnErrors ?? ["timeout", "network"]).includes(result.errorClass);
+
+  return false;
+}
+
+/**
+ * Delay before retry number `retry` (1 = first retry).
+ *
+ * - fixed: initialDelayMs every time
+ * - exponential: initialDelayMs * 2^(retry-1)
+ * - jittered: uniformly random in [0, exponential delay] ("full jitter")
+ *
+ * Delays are capped at maxDelayMs. When the policy respects Retry-After and the
+ * failed response carried one, the delay is at least that long; a Retry-After
+ * beyond maxDelayMs returns null (the upstream asked us to back off longer than
+ * this run is allowed to wait, so stop retrying).
+ *
+ * `random` returns a value in [0, 1) and is injectable for deterministic tests.
+ *
+ * @returns Delay in milliseconds, or null if the run should not wait for another attempt
+ */
+export function computeRetryDelay(
+  policy: RetryPolicy,
+  retry: number,
+  result: ExecutionResult,
+  random: () => number = Math.random,
+): number | null {
+  const maxDelayMs = policy.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const exponentialMs = policy.initialDelayMs * 2 ** (retry - 1);
+
+  let delayMs: number;
+  switch (policy.backoff) {
+    case "fixed":
+      delayMs = policy.initialDelayMs;
+      break;
+    case "exponential":
+      delayMs = exponentialMs;
+      break;
+    case "jittered":
+      delayMs = Math.floor(random() * Math.min(exponentialMs, maxDelayMs));
+      break;
+  }
+  delayMs = Math.min(delayMs, maxDelayMs);
+
+  if ((policy.respectRetryAfter ?? true) && result.retryAfterMs !== undefined) {
+    if (result.retryAfterMs > maxDelayMs)
+      return null;
+    delayMs = Math.max(delayMs, result.retryAfterMs);
+  }
+
+  return delayMs;
+}
+
+/**
+ * Dispatch an endpoint, retrying within the same run according to ep.retryPolicy.
+ * Without a policy (or with maxAttempts <= 1) this is a single dispatch.
+ * `onRetry` is called after a failed attempt, before waiting for the next one.
+ */
+export async function executeWithRetry(
+  ep: JobEndpoint,
+  deps: { dispatcher: Dispatcher; clock: Clock; random?: () => number },
+  onRetry?: (attempt: RunAttempt, result: ExecutionResult) => void,
+): Promise<RetryOutcome> {
+  const policy = ep.retryPolicy;
+  const maxAttempts = Math.max(1, policy?.maxAttempts ?? 1);
+  const attempts: RunAttempt[] = [];
+  let totalMs = 0;
+
+  for (let n = 1; ; n++) {
+    const startedAt = deps.clock.now();
+    const result = evaluateSuccessCriteria(ep.successCriteria, await deps.dispatcher.execute(ep));
+    const attempt: RunAttempt = {
+      attempt: n,
+      startedAt,
+      status: result.status,
+      durationMs: result.durationMs,
+      statusCode: result.statusCode,
+      errorMessage: result.errorMessage,
+    };
+    attempts.push(attempt);
+    totalMs += result.durationMs;
+
+    if (!policy || n >= maxAttempts || !isRetryableResult(policy, result))
+      return { result, attempts, durationMs: totalMs };
+
+    const delayMs = computeRetryDelay(policy, n, result, deps.random);
+    if (delayMs === null)
+      return { result, attempts, durationMs: totalMs };
+
+    attempt.delayMs = delayMs;
+    onRetry?.(attempt, result);
+    await deps.clock.sleep(delayMs);
+    totalMs += delayMs;
+  }
+}
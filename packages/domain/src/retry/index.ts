@@ -0,0 +1,4 @@
+/**
+ * Retry module - in-run retry policy evaluation.
+ */
+export * from "./execute-with-retry.js";
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { findSecretReferences, REDACTED_SECRET, redactExecutionResult, redactSecretValues, resolveSecretReferences, SECRET_NAME_PATTERN } from "../secrets.js";
+
+describe("secret names", () => {
+  it("accepts upper-case names with digits and underscores", () => {
+    expect(SECRET_NAME_PATTERN.test("STRIPE_KEY")).toBe(true);
+    expect(SECRET_NAME_PATTERN.test("_TOKEN2")).toBe(true);
+    expect(SECRET_NAME_PATTERN.test("stripe_key")).toBe(false);
+    expect(SECRET_NAME_PATTERN.test("2FA")).toBe(false);
+    expect(SECRET_NAME_PATTERN.test("A".repeat(65))).toBe(false);
+  });
+});
+
+describe("findSecretReferences", () => {
+  it("collects names from the url, header values and nested body strings once each", () => {
+    expect(findSecretReferences({
+      url: "https://api.example.com/?key={{secret.API_KEY}}",
+      headersJson: { Authorization: "Bearer {{ secret.TOKEN }}" },
+      bodyJson: { nested: ["{{ secret.TOKEN }}", 1, null], other: "{{ run.id }}" },
+    })).toEqual(["API_KEY", "TOKEN"]);
+  });
+
+  it("returns nothing for requests without references", () => {
+    expect(findSecretReferences({ url: "https://api.example.com", bodyJson: { secret: "TOKEN" } })).toEqual([]);
+  });
+});
+
+describe("resolveSecretReferences", () => {
+  it("substitutes known secrets and leaves unknown references as written", () => {
+    const resolved = resolveSecretReferences({
+      url: "https://api.example.com/?key={{ secret.API_KEY }}",
+      method: "POST",
+      headersJson: { Authorization: "Bearer {{ secret.TOKEN }}" },
+      bodyJson: { key: "{{ secret.MISSING }}", count: 2 },
+    }, { API_KEY: "k-1", TOKEN: "t-2" });
+
+    expect(resolved).toEqual({
+      url: "https://api.example.com/?key=k-1",
+      method: "POST",
+      headersJson: { Authorization: "Bearer t-2" },
+      bodyJson: { key: "{{ secret.MISSING }}", count: 2 },
+    });
+  });
+
+  it("inserts values literally", () => {
+    const resolved = resolveSecretReferences({ url: "https://x/{{ secret.A }}" }, { A: "$&-$1" });
+    expect(resolved.url).toBe("https://x/$&-$1");
+  });
+});
+
+describe("redactSecretValues", () => {
+  it("replaces values in strings and keys, longest first", () => {
+    expect(redactSecretValues({ "echo": "token t-2 and t-22", "list": ["t-2"], "t-2": 1, "n": 5 }, ["t-2", "t-22"])).toEqual({
+      echo: `token ${REDACTED_SECRET} and ${REDACTED_SECRET}`,
+      list: [REDACTED_SECRET],
+      [REDACTED_SECRET]: 1,
+      n: 5,
+    });
+  });
+
+  it("ignores empty values", () => {
+    expect(redactSecretValues("abc", [""])).toBe("abc");
+  });
+});
+
+describe("redactExecutionResult", () => {
+  it("redacts the response body and error message", () => {
+    expect(redactExecutionResult(
+      { status: "failed", durationMs: 5, statusCode: 401, errorMessage: "invalid key k-1", responseBody: { key: "k-1" } },
+      ["k-1"],
+    )).toEqual({
+      status: "failed",
+      durationMs: 5,
+      statusCode: 401,
+      errorMessage: `invalid key ${REDACTED_SECRET}`,
+      responseBody: { key: REDACTED_SECRET },
+    });
+  });
+});
@@ -0,0 +1,4 @@
+/**
+ * Secrets module - secret references resolved by the dispatcher, and redaction.
+ */
+export * from "./secrets.js";
@@ -0,0 +1,111 @@
+/**
+ * Secret references in endpoint requests.
+ *
+ * `{{ secret.NAME }}` in an endpoint's url, header values or body strings names a
+ * per-user secret. References are stored as written and only swapped for values by
+ * the dispatcher, right before the request is sent; values that come back in the
+ * response or error are redacted before anything is stored or logged.
+ */
+
+import type { ExecutionResult, JobEndpoint, JsonValue } from "../entities/index.js";
+
+/** Upper-case letters, digits and underscores, starting with a letter or underscore */
+export const SECRET_NAME_PATTERN = /^[A-Z_][A-Z0-9_]{0,63}$/;
+
+/** Largest accepted secret value */
+export const MAX_SECRET_VALUE_LENGTH = 8192;
+
+/** Most secrets a user may store */
+export const MAX_SECRETS_PER_USER = 100;
+
+/** Replaces secret values in stored run data */
+export const REDACTED_SECRET = "[REDACTED]";
+
+const SECRET_REFERENCE_PATTERN = /\{\{\s*secret\.([A-Z_][A-Z0-9_]*)\s*\}\}/g;
+
+type SecretRequest = Pick<JobEndpoint, "url" | "headersJson" | "bodyJson">;
+
+/**
+ * Names of the secrets a request references, in order of first use.
+ */
+export function findSecretReferences(request: SecretRequest): string[] {
+  const names = new Set<string>();
+  mapRequestStrings(request, (value) => {
+    for (const match of value.matchAll(SECRET_REFERENCE_PATTERN))
+      names.add(match[1]!);
+    return value;
+  });
+  return [...names];
+}
+
+/**
+ * Replaces secret references with their values.
+ *
+ * @param request - Endpoint request with references in its url, headers or body
+ * @param secrets - Values by name; references to names not in the map are left as written
+ * @returns A copy of the request with references resolved
+ */
+export function resolveSecretReferences<T extends SecretRequest>(request: T, secrets: Record<string, string>): T {
+  return mapRequestStrings(request, value =>
+    value.replace(SECRET_REFERENCE_PATTERN, (reference, name: string) =>
+      Object.hasOwn(secrets, name) ? secrets[name]! : reference));
+}
+
+/**
+ * Replaces every occurrence of the secret values in a JSON value (strings and object keys).
+ */
+export function redactSecretValues(value: JsonValue, secrets: string[]): JsonValue {
+  const redact = redactor(secrets);
+  const visit = (current: JsonValue): JsonValue => {
+    if (typeof current === "string")
+      return redact(current);
+    if (Array.isArray(current))
+      return current.map(visit);
+    if (current !== null && typeof current === "object")
+      return Object.fromEntries(Object.entries(current).map(([key, item]) => [redact(key), visit(item)]));
+    return current;
+  };
+  return visit(value);
+}
+
+/**
+ * Redacts secret values from the parts of a dispatch result that get stored or logged.
+ * Success criteria are evaluated afterwards, against the redacted body.
+ */
+export function redactExecutionResult(result: ExecutionResult, secrets: string[]): ExecutionResult {
+  const redacted: ExecutionResult = { ...result };
+  if (result.errorMessage !== undefined)
+    redacted.errorMessage = redactor(secrets)(result.errorMessage);
+  if (result.responseBody !== undefined)
+    redacted.responseBody = redactSecretValues(result.responseBody, secrets);
+  return redacted;
+}
+
+function redactor(secrets: string[]): (value: string) => string {
+  // Longest first, so a secret containing another is replaced whole
+  const values = [...new Set(secrets)].filter(secret => secret.length > 0).sort((a, b) => b.length - a.length);
+  return value => values.reduce((current, secret) => current.split(secret).join(REDACTED_SECRET), value);
+}
+
+function mapRequestStrings<T extends SecretRequest>(request: T, fn: (value: string) => string): T {
+  const mapped: T = { ...request };
+
+  if (request.url !== undefined)
+    mapped.url = fn(request.url);
+  if (request.headersJson !== undefined)
+    mapped.headersJson = Object.fromEntries(Object.entries(request.headersJson).map(([name, value]) => [name, fn(value)]));
+
+  const visit = (value: JsonValue): JsonValue => {
+    if (typeof value === "string")
+      return fn(value);
+    if (Array.isArray(value))
+      return value.map(visit);
+    if (value !== null && typeof value === "object")
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, visit(item)]));
+    return value;
+  };
+  if (request.bodyJson !== undefined)
+    mapped.bodyJson = visit(request.bodyJson);
+
+  return mapped;
+}
@@ -0,0 +1,70 @@
+import { createHash, createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { canonicalizeRequest, computeSignatureV2, signedHeaderNames } from "../canonical-request.js";
+
+describe("canonicalizeRequest", () => {
+  const request = {
+    method: "post",
+    url: "https://api.example.com/jobs/run?dry=true&x=1",
+    headers: { "Content-Type": "application/json", "X-Tenant": "  acme " },
+    body: "{\"foo\":\"bar\"}",
+  };
+
+  it("covers method, path and query, signed headers and body digest", () => {
+    const canonical = canonicalizeRequest(request, 1700000000, ["content-type", "x-tenant"]);
+
+    expect(canonical).toBe([
+      "v2",
+      "1700000000",
+      "POST",
+      "/jobs/run?dry=true&x=1",
+      "content-type;x-tenant",
+      "content-type:application/json",
+      "x-tenant:acme",
+      createHash("sha256").update(request.body).digest("hex"),
+    ].join("\n"));
+  });
+
+  it("signs an empty header value for a listed header the request lacks", () => {
+    const canonical = canonicalizeRequest({ ...request, headers: {} }, 1700000000, ["x-tenant"]);
+
+    expect(canonical.split("\n")[5]).toBe("x-tenant:");
+  });
+
+  it("uses the empty-body digest for bodyless requests", () => {
+    const canonical = canonicalizeRequest({ ...request, method: "GET", body: "" }, 1700000000, []);
+
+    expect(canonical.split("\n").at(-1)).toBe(createHash("sha256").update("").digest("hex"));
+  });
+});
+
+describe("signedHeaderNames", () => {
+  it("lowercases and sorts header names", () => {
+    expect(signedHeaderNames({ "X-Tenant": "a", "Content-Type": "b", "accept": "c" })).toEqual(["accept", "content-type", "x-tenant"]);
+  });
+});
+
+describe("computeSignatureV2", () => {
+  const key = "a".repeat(64);
+  const request = { method: "GET", url: "https://api.example.com/report?day=1", headers: {}, body: "" };
+
+  it("is an HMAC-SHA256 of the canonical request", () => {
+    const expected = createHmac("sha256", key).update(canonicalizeRequest(request, 1700000000, [])).digest("hex");
+
+    expect(computeSignatureV2(key, 1700000000, request, [])).toBe(expected);
+  });
+
+  it("changes with the path or query", () => {
+    const signature = computeSignatureV2(key, 1700000000, request, []);
+
+    expect(computeSignatureV2(key, 1700000000, { ...request, url: "https://api.example.com/report?day=2" }, [])).not.toBe(signature);
+    expect(computeSignatureV2(key, 1700000000, { ...request, url: "https://api.example.com/admin?day=1" }, [])).not.toBe(signature);
+  });
+
+  it("changes with the method", () => {
+    const signature = computeSignatureV2(key, 1700000000, request, []);
+
+    expect(computeSignatureV2(key, 1700000000, { ...request, method: "DELETE" }, [])).not.toBe(signature);
+  });
+});
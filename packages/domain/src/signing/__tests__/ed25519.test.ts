@@ -0,0 +1,50 @@
+import { Buffer } from "node:buffer";
+import { createPublicKey, generateKeyPairSync, verify } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { canonicalizeRequest } from "../canonical-request.js";
+import { buildJwks, computeSignatureEd25519 } from "../ed25519.js";
+
+describe("computeSignatureEd25519", () => {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  const privateKeyPem = privateKey.export({ format: "pem", type: "pkcs8" }).toString();
+  const request = { method: "POST", url: "https://api.example.com/hook?x=1", headers: { "X-Tenant": "acme" }, body: "{}" };
+
+  it("signs the canonical request, verifiable with the public key", () => {
+    const signature = computeSignatureEd25519(privateKeyPem, 1700000000, request, ["x-tenant"]);
+
+    expect(verify(
+      null,
+      Buffer.from(canonicalizeRequest(request, 1700000000, ["x-tenant"])),
+      publicKey,
+      Buffer.from(signature, "base64url"),
+    )).toBe(true);
+  });
+
+  it("doesn't verify for another request", () => {
+    const signature = computeSignatureEd25519(privateKeyPem, 1700000000, request, ["x-tenant"]);
+
+    expect(verify(
+      null,
+      Buffer.from(canonicalizeRequest({ ...request, url: "/other" }, 1700000000, ["x-tenant"])),
+      publicKey,
+      Buffer.from(signature, "base64url"),
+    )).toBe(false);
+  });
+});
+
+describe("buildJwks", () => {
+  it("publishes each key as an Ed25519 JWK with its key id as kid", () => {
+    const { publicKey } = generateKeyPairSync("ed25519");
+    const { x } = publicKey.export({ format: "jwk" });
+
+    const jwks = buildJwks([{ id: "key-1", publicKey: x!, expiresAt: null }]);
+
+    expect(jwks).toEqual({ keys: [{ kty: "OKP", crv: "Ed25519", x, kid: "key-1", alg: "EdDSA", use: "sig" }] });
+    expect(createPublicKey({ key: jwks.keys[0]!, format: "jwk" }).equals(publicKey)).toBe(true);
+  });
+
+  it("is empty without keys", () => {
+    expect(buildJwks([])).toEqual({ keys: [] });
+  });
+});
@@ -0,0 +1,72 @@
+import { Buffer } from "node:buffer";
+import { createPublicKey, generateKeyPairSync, verify } from "node:crypto";
+import { describe, expect, it } from "vitest";
+
+import { canonicalizeRequest, computeSignatureV2 } from "../canonical-request.js";
+import { computeSignature } from "../compute-signature.js";
+import { buildSignatureHeaders } from "../signature-headers.js";
+
+describe("buildSignatureHeaders", () => {
+  const timestamp = 1700000000;
+  const body = "{\"foo\":\"bar\"}";
+  const request = { method: "POST", url: "https://api.example.com/hook", headers: { "Content-Type": "application/json" }, body };
+  const current = { id: "key-new", key: "a".repeat(64), algorithm: "hmac-sha256" as const, version: "v1" as const };
+  const previous = { id: "key-old", key: "b".repeat(64), algorithm: "hmac-sha256" as const, version: "v1" as const };
+
+  it("returns no headers without keys", () => {
+    expect(buildSignatureHeaders([], timestamp, request)).toEqual({});
+  });
+
+  it("signs with a single key", () => {
+    expect(buildSignatureHeaders([current], timestamp, request)).toEqual({
+      "X-Cronicorn-Signature": `sha256=${computeSignature(current.key, timestamp, body)}`,
+      "X-Cronicorn-Key-Id": "key-new",
+      "X-Cronicorn-Timestamp": "1700000000",
+    });
+  });
+
+  it("lists one signature per key, in key order", () => {
+    const headers = buildSignatureHeaders([current, previous], timestamp, request);
+
+    expect(headers["X-Cronicorn-Signature"]).toBe(
+      `sha256=${computeSignature(current.key, timestamp, body)}, sha256=${computeSignature(previous.key, timestamp, body)}`,
+    );
+    expect(headers["X-Cronicorn-Key-Id"]).toBe("key-new, key-old");
+  });
+
+  it("signs v1 over v1Body when given", () => {
+    const headers = buildSignatureHeaders([current], timestamp, { ...request, method: "GET", body: "", v1Body: body });
+
+    expect(headers["X-Cronicorn-Signature"]).toBe(`sha256=${computeSignature(current.key, timestamp, body)}`);
+  });
+
+  it("signs v2 keys over the canonical request and lists the signed headers", () => {
+    const v2Key = { ...current, version: "v2" as const };
+    const headers = buildSignatureHeaders([v2Key], timestamp, request);
+
+    expect(headers).toEqual({
+      "X-Cronicorn-Signature": `v2=${computeSignatureV2(v2Key.key, timestamp, request, ["content-type"])}`,
+      "X-Cronicorn-Key-Id": "key-new",
+      "X-Cronicorn-Signed-Headers": "content-type",
+      "X-Cronicorn-Timestamp": "1700000000",
+    });
+  });
+
+  it("signs Ed25519 keys over the canonical request, next to HMAC keys", () => {
+    const privateKey = generateKeyPairSync("ed25519").privateKey.export({ format: "pem", type: "pkcs8" }).toString();
+    const edKey = { id: "key-ed", key: privateKey, algorithm: "ed25519" as const, version: "v1" as const };
+    const headers = buildSignatureHeaders([edKey, previous], timestamp, request);
+
+    const [edEntry, hmacEntry] = headers["X-Cronicorn-Signature"]!.split(", ");
+    expect(hmacEntry).toBe(`sha256=${computeSignature(previous.key, timestamp, body)}`);
+    expect(edEntry).toMatch(/^ed25519=/);
+    expect(verify(
+      null,
+      Buffer.from(canonicalizeRequest(request, timestamp, ["content-type"])),
+      createPublicKey(privateKey),
+      Buffer.from(edEntry!.slice("ed25519=".length), "base64url"),
+    )).toBe(true);
+    expect(headers["X-Cronicorn-Key-Id"]).toBe("key-ed, key-old");
+    expect(headers["X-Cronicorn-Signed-Headers"]).toBe("content-type");
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Canonical request for v2 signatures.
+ *
+ * Pure (node:crypto hashing only). The canonical form is one line each for:
+ *   v2
+ *   {timestamp}
+ *   {METHOD}
+ *   {path}{?query}
+ *   {signed header names, lowercase, ";"-separated}
+ *   {name}:{value}   (one line per signed header, in the order listed)
+ *   {hex SHA-256 of the body}
+ *
+ * Signature = HMAC-SHA256(key, canonical request)
+ */
+
+import { createHash, createHmac } from "node:crypto";
+
+/**
+ * The parts of an outbound request a v2 signature covers.
+ */
+export type SignableRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string; // Body as sent ("" when there is none)
+};
+
+/**
+ * Names of the headers a v2 signature covers: every header of the request, lowercase and sorted.
+ */
+export function signedHeaderNames(headers: Record<string, string>): string[] {
+  return [...new Set(Object.keys(headers).map(name => name.toLowerCase()))].sort();
+}
+
+export function canonicalizeRequest(request: SignableRequest, timestamp: number, signedHeaders: string[]): string {
+  const { pathname, search } = new URL(request.url, "http://localhost");
+  const headers = new Map(Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value]));
+
+  return [
+    "v2",
+    String(timestamp),
+    request.method.toUpperCase(),
+    `${pathname}${search}`,
+    signedHeaders.join(";"),
+    ...signedHeaders.map(name => `${name}:${(headers.get(name) ?? "").trim()}`),
+    createHash("sha256").update(request.body).digest("hex"),
+  ].join("\n");
+}
+
+export function computeSignatureV2(key: string, timestamp: number, request: SignableRequest, signedHeaders: string[]): string {
+  return createHmac("sha256", key).update(canonicalizeRequest(request, timestamp, signedHeaders)).digest("hex");
+}
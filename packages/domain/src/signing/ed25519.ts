@@ -0,0 +1,47 @@
+/**
+ * Ed25519 signatures and the JWKS receivers verify them with.
+ *
+ * Uses node:crypto (no I/O, deterministic) — safe for domain layer.
+ * Signs the same canonical request as v2 HMAC signatures:
+ *   Ed25519(private key, canonical request), base64url
+ */
+
+import { Buffer } from "node:buffer";
+import { sign } from "node:crypto";
+
+import type { SigningPublicKey } from "../ports/signing.js";
+import type { SignableRequest } from "./canonical-request.js";
+
+import { canonicalizeRequest } from "./canonical-request.js";
+
+/**
+ * A JSON Web Key for an Ed25519 public key (RFC 8037).
+ */
+export type Ed25519Jwk = {
+  kty: "OKP";
+  crv: "Ed25519";
+  x: string;
+  kid: string;
+  alg: "EdDSA";
+  use: "sig";
+};
+
+export function computeSignatureEd25519(
+  privateKey: string,
+  timestamp: number,
+  request: SignableRequest,
+  signedHeaders: string[],
+): string {
+  const canonical = canonicalizeRequest(request, timestamp, signedHeaders);
+  return sign(null, Buffer.from(canonical), privateKey).toString("base64url");
+}
+
+/**
+ * The tenant's JWKS: one key per live Ed25519 signing key, `kid` being the key id
+ * sent in X-Cronicorn-Key-Id.
+ */
+export function buildJwks(keys: SigningPublicKey[]): { keys: Ed25519Jwk[] } {
+  return {
+    keys: keys.map(k => ({ kty: "OKP", crv: "Ed25519", x: k.publicKey, kid: k.id, alg: "EdDSA", use: "sig" })),
+  };
+}
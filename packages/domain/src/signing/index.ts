@@ -1 +1,6 @@
+export { canonicalizeRequest, computeSignatureV2, signedHeaderNames } from "./canonical-request.js";
+export type { SignableRequest } from "./canonical-request.js";
 export { computeSignature } from "./compute-signature.js";
+export { buildJwks, computeSignatureEd25519 } from "./ed25519.js";
+export type { Ed25519Jwk } from "./ed25519.js";
+export { buildSignatureHeaders, DEFAULT_ROTATION_OVERLAP_MS, MAX_ROTATION_OVERLAP_MS } from "./signature-headers.js";
@@ -0,0 +1,68 @@
+/**
+ * Signature headers for an outbound request.
+ *
+ * Signs the request once per key, so during a rotation overlap receivers holding
+ * either the old or the new key can verify it:
+ * - X-Cronicorn-Signature: <scheme>=<sig>[, <scheme>=<sig>...] ("sha256" for v1 HMAC keys,
+ *   "v2" for v2 HMAC keys, "ed25519" for Ed25519 keys)
+ * - X-Cronicorn-Key-Id: <key id>[, <key id>...] (same order as the signatures; the JWKS `kid`)
+ * - X-Cronicorn-Signed-Headers: <names> (v2 and Ed25519 only, see canonicalizeRequest)
+ * - X-Cronicorn-Timestamp: <unix-seconds>
+ */
+
+import type { SigningKey } from "../ports/signing.js";
+import type { SignableRequest } from "./canonical-request.js";
+
+import { computeSignatureV2, signedHeaderNames } from "./canonical-request.js";
+import { computeSignature } from "./compute-signature.js";
+import { computeSignatureEd25519 } from "./ed25519.js";
+
+/**
+ * How long a rotated-out key keeps signing requests by default.
+ */
+export const DEFAULT_ROTATION_OVERLAP_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Longest overlap a rotation may ask for.
+ */
+export const MAX_ROTATION_OVERLAP_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function signsCanonicalRequest(key: SigningKey): boolean {
+  return key.algorithm === "ed25519" || key.version === "v2";
+}
+
+function sign(key: SigningKey, timestamp: number, request: SignableRequest & { v1Body?: string }, signedHeaders: string[]): string {
+  if (key.algorithm === "ed25519") {
+    return `ed25519=${computeSignatureEd25519(key.key, timestamp, request, signedHeaders)}`;
+  }
+  return key.version === "v2"
+    ? `v2=${computeSignatureV2(key.key, timestamp, request, signedHeaders)}`
+    : `sha256=${computeSignature(key.key, timestamp, request.v1Body ?? request.body)}`;
+}
+
+/**
+ * Build the signature headers for `request`, signed at `timestamp` (unix seconds).
+ * Returns no headers when there are no keys.
+ *
+ * `v1Body` is the body v1 signatures cover when it differs from the body sent
+ * (the dispatcher has always signed an endpoint's configured body, even for GET).
+ */
+export function buildSignatureHeaders(
+  keys: SigningKey[],
+  timestamp: number,
+  request: SignableRequest & { v1Body?: string },
+): Record<string, string> {
+  if (keys.length === 0) {
+    return {};
+  }
+
+  const signedHeaders = signedHeaderNames(request.headers);
+  const signatures = keys.map(k => sign(k, timestamp, request, signedHeaders));
+
+  return {
+    "X-Cronicorn-Signature": signatures.join(", "),
+    "X-Cronicorn-Key-Id": keys.map(k => k.id).join(", "),
+    ...(keys.some(signsCanonicalRequest) ? { "X-Cronicorn-Signed-Headers": signedHeaders.join(";") } : {}),
+    "X-Cronicorn-Timestamp": String(timestamp),
+  };
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+
+import type { ExecutionResult, SuccessCriteria } from "../../entities/index.js";
+
+import { checkAssertion, evaluateSuccessCriteria, findMatchPatternError, MAX_MATCH_INPUT_LENGTH, parseResponsePath, parseStatusCodePattern } from "../success-criteria.js";
+
+const ok: ExecutionResult = {
+  status: "success",
+  durationMs: 120,
+  statusCode: 200,
+  responseBody: { "status": "ok", "checks": [{ name: "db", latencyMs: 12 }], "x-version": "1.4.2" },
+};
+
+describe("parseStatusCodePattern", () => {
+  it("parses codes, classes and ranges", () => {
+    expect(parseStatusCodePattern("204")).toEqual({ min: 204, max: 204 });
+    expect(parseStatusCodePattern("2xx")).toEqual({ min: 200, max: 299 });
+    expect(parseStatusCodePattern("2XX")).toEqual({ min: 200, max: 299 });
+    expect(parseStatusCodePattern("200-304")).toEqual({ min: 200, max: 304 });
+  });
+
+  it("rejects malformed or out-of-range patterns", () => {
+    expect(parseStatusCodePattern("20")).toBeNull();
+    expect(parseStatusCodePattern("6xx")).toBeNull();
+    expect(parseStatusCodePattern("300-200")).toBeNull();
+    expect(parseStatusCodePattern("099")).toBeNull();
+    expect(parseStatusCodePattern("ok")).toBeNull();
+  });
+});
+
+describe("parseResponsePath", () => {
+  it("parses JSONPath dot, bracket and index segments", () => {
+    expect(parseResponsePath("$")).toEqual([]);
+    expect(parseResponsePath("$.checks[0].name")).toEqual(["checks", 0, "name"]);
+    expect(parseResponsePath("$['x-version']")).toEqual(["x-version"]);
+    expect(parseResponsePath("$[\"a b\"].c")).toEqual(["a b", "c"]);
+  });
+
+  it("parses JSON pointers with escapes", () => {
+    expect(parseResponsePath("/checks/0/name")).toEqual(["checks", "0", "name"]);
+    expect(parseResponsePath("/a~1b/c~0d")).toEqual(["a/b", "c~d"]);
+  });
+
+  it("rejects unsupported paths", () => {
+    expect(parseResponsePath("status")).toBeNull();
+    expect(parseResponsePath("$.checks[*].name")).toBeNull();
+    expect(parseResponsePath("$..name")).toBeNull();
+  });
+});
+
+describe("findMatchPatternError", () => {
+  it("accepts ordinary patterns", () => {
+    expect(findMatchPatternError("^1\\.\\d+\\.\\d+$")).toBeNull();
+    expect(findMatchPatternError("^(ok|healthy)$")).toBeNull();
+    expect(findMatchPatternError("^(?:v\\d+)?-[a-z]{2,8}$")).toBeNull();
+    expect(findMatchPatternError("[(+]+")).toBeNull();
+  });
+
+  it("rejects nested quantifiers", () => {
+    expect(findMatchPatternError("^(a+)+$")).toContain("nests quantifiers");
+    expect(findMatchPatternError("(\\w*)*")).toContain("nests quantifiers");
+    expect(findMatchPatternError("((ab)+c)*")).toContain("nests quantifiers");
+    expect(findMatchPatternError("(?:x{1,3}){2,}")).toContain("nests quantifiers");
+  });
+
+  it("rejects backreferences, overlong and invalid patterns", () => {
+    expect(findMatchPatternError("(a)\\1")).toContain("backreference");
+    expect(findMatchPatternError("(?<q>a)\\k<q>")).toContain("backreference");
+    expect(findMatchPatternError("a".repeat(257))).toContain("longer than 256");
+    expect(findMatchPatternError("(")).toBe("has an invalid regular expression");
+  });
+});
+
+describe("checkAssertion", () => {
+  const body = ok.responseBody;
+
+  it("evaluates each operator", () => {
+    expect(checkAssertion({ path: "$.status", operator: "equals", value: "ok" }, body).passed).toBe(true);
+    expect(checkAssertion({ path: "$.status", operator: "notEquals", value: "degraded" }, body).passed).toBe(true);
+    expect(checkAssertion({ path: "/checks/0", operator: "equals", value: { latencyMs: 12, name: "db" } }, body).passed).toBe(true);
+    expect(checkAssertion({ path: "$.x-version", operator: "matches", value: "^1\\." }, body).passed).toBe(true);
+    expect(checkAssertion({ path: "$.status", operator: "contains", value: "o" }, body).passed).toBe(true);
+    expect(checkAssertion({ path: "$.checks[0].latencyMs", operator: "lt", value: 50 }, body).passed).toBe(true);
+    expect(checkAssertion({ path: "$.checks[0].latencyMs", operator: "gte", value: 50 }, body).passed).toBe(false);
+    expect(checkAssertion({ path: "$.checks[1]", operator: "notExists" }, body).passed).toBe(true);
+  });
+
+  it("fails matches on unsafe patterns and overlong values without running them", () => {
+    expect(checkAssertion({ path: "$.s", operator: "matches", value: "^(a+)+$" }, { s: `${"a".repeat(40)}!` }).passed).toBe(false);
+    expect(checkAssertion({ path: "$.s", operator: "matches", value: "^a" }, { s: "a".repeat(MAX_MATCH_INPUT_LENGTH + 1) }).passed).toBe(false);
+    expect(checkAssertion({ path: "$.s", operator: "matches", value: "^a" }, { s: "a".repeat(MAX_MATCH_INPUT_LENGTH) }).passed).toBe(true);
+  });
+
+  it("fails comparisons on missing values, including a missing body", () => {
+    expect(checkAssertion({ path: "$.missing", operator: "notEquals", value: "x" }, body)).toEqual({ passed: false, actual: undefined });
+    expect(checkAssertion({ path: "$.status", operator: "exists" }, undefined).passed).toBe(false);
+  });
+});
+
+describe("evaluateSuccessCriteria", () => {
+  it("returns the result unchanged without criteria or an HTTP response", () => {
+    expect(evaluateSuccessCriteria(undefined, ok)).toBe(ok);
+    const timeout: ExecutionResult = { status: "failed", durationMs: 30000, errorClass: "timeout", errorMessage: "Request timed out after 30000ms" };
+    expect(evaluateSuccessCriteria({ maxLatencyMs: 10 }, timeout)).toBe(timeout);
+  });
+
+  it("accepts listed non-2xx statuses", () => {
+    const notModified: ExecutionResult = { status: "failed", durationMs: 10, statusCode: 304, errorMessage: "HTTP 304 Not Modified" };
+    expect(evaluateSuccessCriteria({ statusCodes: ["2xx", "304"] }, notModified)).toEqual({ status: "success", durationMs: 10, statusCode: 304, errorMessage: undefined, retryAfterMs: undefined });
+  });
+
+  it("fails statuses outside the accepted list", () => {
+    const result = evaluateSuccessCriteria({ statusCodes: ["202"] }, ok);
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe("Status 200 is not an accepted status (202)");
+    expect(result.criteriaFailure).toEqual({ criterion: "statusCode", expected: ["202"], actual: 200 });
+  });
+
+  it("keeps non-2xx failures when no statuses are configured", () => {
+    const unavailable: ExecutionResult = { status: "failed", durationMs: 10, statusCode: 503, errorMessage: "HTTP 503 Service Unavailable" };
+    expect(evaluateSuccessCriteria({ assertions: [{ path: "$.status", operator: "exists" }] }, unavailable)).toBe(unavailable);
+  });
+
+  it("fails slow responses", () => {
+    const result = evaluateSuccessCriteria({ maxLatencyMs: 100 }, ok);
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe("Response took 120ms, exceeding max latency of 100ms");
+    expect(result.criteriaFailure).toEqual({ criterion: "latency", maxLatencyMs: 100, actualMs: 120 });
+    expect(result.responseBody).toEqual(ok.responseBody);
+  });
+
+  it("reports the first failing assertion", () => {
+    const criteria: SuccessCriteria = {
+      assertions: [
+        { path: "$.checks[0].name", operator: "equals", value: "db" },
+        { path: "$.status", operator: "equals", value: "healthy" },
+        { path: "$.missing", operator: "exists" },
+      ],
+    };
+
+    const result = evaluateSuccessCriteria(criteria, ok);
+
+    expect(result.status).toBe("failed");
+    expect(result.errorMessage).toBe("Assertion failed: $.status equals \"healthy\" (actual: \"ok\")");
+    expect(result.criteriaFailure).toEqual({ criterion: "assertion", index: 1, path: "$.status", operator: "equals", expected: "healthy", actual: "ok" });
+  });
+
+  it("notes when no JSON body was captured", () => {
+    const result = evaluateSuccessCriteria(
+      { assertions: [{ path: "$.status", operator: "exists" }] },
+      { status: "success", durationMs: 5, statusCode: 200 },
+    );
+    expect(result.errorMessage).toBe("Assertion failed: $.status exists (actual: missing) — no JSON response body captured");
+  });
+});
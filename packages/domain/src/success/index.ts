@@ -0,0 +1,4 @@
+/**
+ * Success module - per-endpoint success criteria evaluation.
+ */
+export * from "./success-criteria.js";
@@ -0,0 +1,307 @@
+/**
+ * Success criteria evaluation.
+ *
+ * Pure post-processing of a dispatcher result: decides whether a response that
+ * reached the endpoint counts as a success under the endpoint's SuccessCriteria
+ * (accepted status codes, max latency, JSON body assertions). The first failing
+ * criterion is reported in errorMessage and criteriaFailure.
+ */
+
+import type { ExecutionResult, JsonValue, ResponseAssertion, SuccessCriteria, SuccessCriteriaFailure } from "../entities/index.js";
+
+/** Inclusive status code range */
+export type StatusCodeRange = { min: number; max: number };
+
+/** A resolved path segment: object key or array index */
+export type ResponsePathSegment = string | number;
+
+/** Longest regular expression a "matches" assertion may use */
+export const MAX_MATCH_PATTERN_LENGTH = 256;
+
+/** Longer response values fail a "matches" assertion without being matched */
+export const MAX_MATCH_INPUT_LENGTH = 4096;
+
+/**
+ * Parses an accepted-status pattern: "204", "2xx" or "200-299".
+ *
+ * @returns The inclusive range, or null if the pattern is malformed or outside 100-599
+ */
+export function parseStatusCodePattern(pattern: string): StatusCodeRange | null {
+  const trimmed = pattern.trim().toLowerCase();
+  let range: StatusCodeRange | null = null;
+
+  if (/^\d{3}$/.test(trimmed)) {
+    const code = Number(trimmed);
+    range = { min: code, max: code };
+  }
+  else if (/^[1-5]xx$/.test(trimmed)) {
+    const base = Number(trimmed[0]) * 100;
+    range = { min: base, max: base + 99 };
+  }
+  else {
+    const match = /^(\d{3})\s*-\s*(\d{3})$/.exec(trimmed);
+    if (match)
+      range = { min: Number(match[1]), max: Number(match[2]) };
+  }
+
+  if (!range || range.min < 100 || range.max > 599 || range.min > range.max)
+    return null;
+  return range;
+}
+
+/**
+ * Parses a JSONPath (`$.a.b[0]`, `$['a-b']`) or JSON pointer (`/a/b/0`) into segments.
+ *
+ * @returns Segments, or null if the path is not a supported single-value path
+ */
+export function parseResponsePath(path: string): ResponsePathSegment[] | null {
+  if (path === "" || path === "$")
+    return [];
+
+  if (path.startsWith("/")) {
+    // RFC 6901: ~1 is "/", ~0 is "~"
+    return path.slice(1).split("/").map(token => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+  }
+
+  if (!path.startsWith("$"))
+    return null;
+
+  const segments: ResponsePathSegment[] = [];
+  const tokenPattern = /\.([A-Z_$][\w$-]*)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/giy;
+  tokenPattern.lastIndex = 1;
+
+  while (tokenPattern.lastIndex < path.length) {
+    const match = tokenPattern.exec(path);
+    if (!match)
+      return null;
+    if (match[2] !== undefined)
+      segments.push(Number(match[2]));
+    else
+      segments.push((match[1] ?? match[3] ?? match[4])!.replace(/\\(.)/g, "$1"));
+  }
+
+  return segments;
+}
+
+/**
+ * Checks a "matches" assertion pattern before it is saved or run.
+ *
+ * JavaScript regexes backtrack, so a pattern like `(a+)+$` can take exponential time
+ * on a short response value. Patterns that quantify a group which itself contains a
+ * quantifier, or that use backreferences, are rejected along with overlong and
+ * invalid ones. This is a conservative syntactic check, not a full analysis.
+ *
+ * @returns Why the pattern can't be used, or null if it is accepted
+ */
+export function findMatchPatternError(pattern: string): string | null {
+  if (pattern.length > MAX_MATCH_PATTERN_LENGTH)
+    return `has a regular expression longer than ${MAX_MATCH_PATTERN_LENGTH} characters`;
+
+  try {
+    // eslint-disable-next-line no-new
+    new RegExp(pattern);
+  }
+  catch {
+    return "has an invalid regular expression";
+  }
+
+  // One entry per open group: whether a quantifier appears inside it
+  const groups: boolean[] = [];
+  let inClass = false;
+  let closedQuantifiedGroup = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!;
+    const afterQuantifiedGroup = closedQuantifiedGroup;
+    closedQuantifiedGroup = false;
+
+    if (char === "\\") {
+      const next = pattern[i + 1] ?? "";
+      if (!inClass && (/[1-9]/.test(next) || next === "k"))
+        return "uses a backreference, which is not supported";
+      i++;
+    }
+    else if (inClass) {
+      inClass = char !== "]";
+    }
+    else if (char === "[") {
+      inClass = true;
+    }
+    else if (char === "(") {
+      groups.push(false);
+    }
+    else if (char === ")") {
+      closedQuantifiedGroup = groups.pop() ?? false;
+    }
+    else if (char === "*" || char === "+" || (char === "{" && /^\{\d+(?:,\d*)?\}/.test(pattern.slice(i)))) {
+      if (afterQuantifiedGroup)
+        return "nests quantifiers, which can make matching take exponential time";
+      groups.fill(true);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolves parsed path segments against a JSON value.
+ *
+ * @returns The value at the path, or undefined if any segment is missing
+ */
+export function resolveResponsePath(body: JsonValue | undefined, segments: ResponsePathSegment[]): JsonValue | undefined {
+  let current: JsonValue | undefined = body;
+
+  for (const segment of segments) {
+    if (Array.isArray(current)) {
+      const index = typeof segment === "number" ? segment : /^\d+$/.test(segment) ? Number(segment) : Number.NaN;
+      current = current[index];
+    }
+    else if (current !== null && typeof current === "object") {
+      current = Object.hasOwn(current, segment) ? current[String(segment)] : undefined;
+    }
+    else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Whether an assertion holds for the given response body.
+ * Unresolvable paths (including a missing body) only satisfy notExists.
+ */
+export function checkAssertion(assertion: ResponseAssertion, body: JsonValue | undefined): { passed: boolean; actual?: JsonValue } {
+  const segments = parseResponsePath(assertion.path);
+  const actual = segments ? resolveResponsePath(body, segments) : undefined;
+  const expected = assertion.value;
+
+  const passed = (() => {
+    switch (assertion.operator) {
+      case "exists":
+        return actual !== undefined;
+      case "notExists":
+        return actual === undefined;
+      case "equals":
+        return actual !== undefined && jsonEquals(actual, expected);
+      case "notEquals":
+        return actual !== undefined && !jsonEquals(actual, expected);
+      case "contains":
+        if (typeof actual === "string")
+          return typeof expected === "string" && actual.includes(expected);
+        return Array.isArray(actual) && actual.some(item => jsonEquals(item, expected));
+      case "matches":
+        return typeof actual === "string" && typeof expected === "string" && matchesPattern(actual, expected);
+      case "gt":
+        return typeof actual === "number" && typeof expected === "number" && actual > expected;
+      case "gte":
+        return typeof actual === "number" && typeof expected === "number" && actual >= expected;
+      case "lt":
+        return typeof actual === "number" && typeof expected === "number" && actual < expected;
+      case "lte":
+        return typeof actual === "number" && typeof expected === "number" && actual <= expected;
+    }
+  })();
+
+  return { passed, actual };
+}
+
+/**
+ * Applies an endpoint's success criteria to a dispatcher result.
+ *
+ * Only results that got an HTTP response (statusCode set) are evaluated; timeouts,
+ * network errors and configuration failures pass through unchanged. Criteria are
+ * checked in order — status code, latency, assertions — and the first failure
+ * wins. A non-2xx status listed in statusCodes turns a failed result into a success.
+ */
+export function evaluateSuccessCriteria(criteria: SuccessCriteria | undefined, result: ExecutionResult): ExecutionResult {
+  if (!criteria || result.statusCode === undefined)
+    return result;
+
+  let evaluated = result;
+
+  if (criteria.statusCodes && criteria.statusCodes.length > 0) {
+    const accepted = isAcceptedStatus(criteria.statusCodes, result.statusCode);
+    if (!accepted) {
+      return fail(result, result.errorMessage ?? `Status ${result.statusCode} is not an accepted status (${criteria.statusCodes.join(", ")})`, {
+        criterion: "statusCode",
+        expected: criteria.statusCodes,
+        actual: result.statusCode,
+      });
+    }
+    if (result.status === "failed") {
+      evaluated = { ...result, status: "success", errorMessage: undefined, retryAfterMs: undefined };
+    }
+  }
+
+  if (evaluated.status === "failed")
+    return evaluated;
+
+  if (criteria.maxLatencyMs !== undefined && evaluated.durationMs > criteria.maxLatencyMs) {
+    return fail(evaluated, `Response took ${evaluated.durationMs}ms, exceeding max latency of ${criteria.maxLatencyMs}ms`, {
+      criterion: "latency",
+      maxLatencyMs: criteria.maxLatencyMs,
+      actualMs: evaluated.durationMs,
+    });
+  }
+
+  for (const [index, assertion] of (criteria.assertions ?? []).entries()) {
+    const { passed, actual } = checkAssertion(assertion, evaluated.responseBody);
+    if (!passed) {
+      const noBody = evaluated.responseBody === undefined ? " — no JSON response body captured" : "";
+      return fail(evaluated, `Assertion failed: ${describeAssertion(assertion)} (actual: ${formatJson(actual)})${noBody}`, {
+        criterion: "assertion",
+        index,
+        path: assertion.path,
+        operator: assertion.operator,
+        expected: assertion.value,
+        actual,
+      });
+    }
+  }
+
+  return evaluated;
+}
+
+/**
+ * Human-readable form of an assertion, e.g. `$.status equals "ok"`.
+ */
+export function describeAssertion(assertion: ResponseAssertion): string {
+  if (assertion.operator === "exists" || assertion.operator === "notExists")
+    return `${assertion.path} ${assertion.operator}`;
+  return `${assertion.path} ${assertion.operator} ${formatJson(assertion.value)}`;
+}
+
+function isAcceptedStatus(patterns: string[], statusCode: number): boolean {
+  return patterns.some((pattern) => {
+    const range = parseStatusCodePattern(pattern);
+    return range !== null && statusCode >= range.min && statusCode <= range.max;
+  });
+}
+
+// Patterns saved before findMatchPatternError existed are re-checked here and fail closed
+function matchesPattern(actual: string, pattern: string): boolean {
+  if (actual.length > MAX_MATCH_INPUT_LENGTH || findMatchPatternError(pattern) !== null)
+    return false;
+  return new RegExp(pattern).test(actual);
+}
+
+function fail(result: ExecutionResult, errorMessage: string, criteriaFailure: SuccessCriteriaFailure): ExecutionResult {
+  return { ...result, status: "failed", errorMessage, criteriaFailure };
+}
+
+function formatJson(value: JsonValue | undefined): string {
+  return value === undefined ? "missing" : JSON.stringify(value);
+}
+
+function jsonEquals(a: JsonValue | undefined, b: JsonValue | undefined): boolean {
+  if (a === b)
+    return true;
+  if (Array.isArray(a))
+    return Array.isArray(b) && a.length === b.length && a.every((item, i) => jsonEquals(item, b[i]));
+  if (a !== null && b !== null && typeof a === "object" && typeof b === "object" && !Array.isArray(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => Object.hasOwn(b, key) && jsonEquals(a[key], b[key]));
+  }
+  return false;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from "vitest";
+
+import { at } from "../../fixtures/index.js";
+import { buildTemplateContext, findTemplateError, hasRequestTemplates, renderRequestTemplates, TemplateError } from "../templating.js";
+
+const now = at("2025-01-01T12:00:00Z");
+
+const context = buildTemplateContext({
+  endpoint: { id: "ep-transform", name: "transform" },
+  runId: "run-42",
+  now,
+  siblings: [
+    { endpointName: "extract", responseBody: { batch_id: "b-7", count: 3, items: [{ id: 1 }] }, timestamp: at("2025-01-01T11:59:00Z"), status: "success" },
+    { endpointName: "Load Data", responseBody: null, timestamp: at("2025-01-01T11:00:00Z"), status: "failed" },
+  ],
+});
+
+describe("buildTemplateContext", () => {
+  it("keys sibling responses by endpoint name", () => {
+    expect(context).toEqual({
+      endpoints: {
+        "extract": { lastResponse: { batch_id: "b-7", count: 3, items: [{ id: 1 }] }, lastStatus: "success", lastRunAt: "2025-01-01T11:59:00.000Z" },
+        "Load Data": { lastResponse: null, lastStatus: "failed", lastRunAt: "2025-01-01T11:00:00.000Z" },
+      },
+      run: { id: "run-42" },
+      endpoint: { id: "ep-transform", name: "transform" },
+      now: "2025-01-01T12:00:00.000Z",
+    });
+  });
+});
+
+describe("hasRequestTemplates", () => {
+  it("detects tags in the url, header values and nested body strings", () => {
+    expect(hasRequestTemplates({ url: "https://api.example.com/x" })).toBe(false);
+    expect(hasRequestTemplates({ url: "https://api.example.com/{{ run.id }}" })).toBe(true);
+    expect(hasRequestTemplates({ headersJson: { "X-Run": "{{ run.id }}" } })).toBe(true);
+    expect(hasRequestTemplates({ bodyJson: { batch: ["{{ now }}"] } })).toBe(true);
+  });
+});
+
+describe("findTemplateError", () => {
+  it("accepts valid templates", () => {
+    expect(findTemplateError({
+      url: "https://api.example.com/batches/{{ endpoints.extract.lastResponse.batch_id | urlencode }}",
+      headersJson: { "X-Request-Id": "{{run.id}}" },
+      bodyJson: { at: "{{ now | iso }}", first: "{{ endpoints['Load Data'].lastResponse.items[0].id }}", plain: 1 },
+    })).toBeNull();
+  });
+
+  it("names the field and the problem", () => {
+    expect(findTemplateError({ url: "https://x/{{ run.id" })).toBe("url: Unclosed template tag \"{{\"");
+    expect(findTemplateError({ headersJson: { Authorization: "{{ secrets.token }}" } }))
+      .toMatch(/^headersJson\.Authorization: Unknown template variable "secrets"/);
+    expect(findTemplateError({ bodyJson: { ids: ["{{ now | upper }}"] } }))
+      .toMatch(/^bodyJson\.ids\[0\]: Unknown filter "upper"/);
+    expect(findTemplateError({ bodyJson: "{{ }}" })).toMatch(/^bodyJson: Empty template expression/);
+    expect(findTemplateError({ url: "{{ run.started }}" })).toMatch(/expected run\.id/);
+    expect(findTemplateError({ url: "{{ endpoints.extract }}" })).toMatch(/expected endpoints\.<name>/);
+    expect(findTemplateError({ url: "{{ endpoints.extract.lastStatus.code }}" })).toMatch(/only lastResponse has nested fields/);
+  });
+
+  it("accepts secret references without filters", () => {
+    expect(findTemplateError({ headersJson: { Authorization: "Bearer {{ secret.STRIPE_KEY }}" } })).toBeNull();
+    expect(findTemplateError({ url: "{{ secret.stripe_key }}" })).toMatch(/expected secret\.<NAME>/);
+    expect(findTemplateError({ url: "{{ secret.A.B }}" })).toMatch(/expected secret\.<NAME>/);
+    expect(findTemplateError({ url: "{{ secret.KEY | urlencode }}" })).toMatch(/Filters can't be applied to secrets/);
+  });
+});
+
+describe("renderRequestTemplates", () => {
+  it("interpolates values into the url and headers", () => {
+    const rendered = renderRequestTemplates({
+      url: "https://api.example.com/batches/{{ endpoints.extract.lastResponse.batch_id }}?n={{ endpoints.extract.lastResponse.count }}",
+      method: "POST",
+      headersJson: { "X-Run": "{{ run.id }}/{{ endpoint.name }}" },
+    }, context);
+
+    expect(rendered).toEqual({
+      url: "https://api.example.com/batches/b-7?n=3",
+      method: "POST",
+      headersJson: { "X-Run": "run-42/transform" },
+    });
+  });
+
+  it("keeps the JSON type of lone body tags", () => {
+    const rendered = renderRequestTemplates({
+      bodyJson: {
+        batchId: "{{ endpoints.extract.lastResponse.batch_id }}",
+        count: "{{ endpoints.extract.lastResponse.count }}",
+        items: "{{ endpoints.extract.lastResponse.items }}",
+        label: "batch {{ endpoints.extract.lastResponse.batch_id }} of {{ endpoints.extract.lastResponse.count }}",
+        previous: "{{ endpoints['Load Data'].lastResponse }}",
+        flag: true,
+      },
+    }, context);
+
+    expect(rendered.bodyJson).toEqual({
+      batchId: "b-7",
+      count: 3,
+      items: [{ id: 1 }],
+      label: "batch b-7 of 3",
+      previous: null,
+      flag: true,
+    });
+  });
+
+  it("applies filters left to right", () => {
+    const rendered = renderRequestTemplates({
+      url: "https://x/?since={{ endpoints.extract.lastRunAt | unix }}&q={{ endpoint.name | json | urlencode }}",
+      bodyJson: { at: "{{ now | iso }}", ts: "{{ now | unix }}", items: "{{ endpoints.extract.lastResponse.items | json }}" },
+    }, context);
+
+    expect(rendered.url).toBe("https://x/?since=1735732740&q=%22transform%22");
+    expect(rendered.bodyJson).toEqual({ at: "2025-01-01T12:00:00.000Z", ts: 1735732800, items: "[{\"id\":1}]" });
+  });
+
+  it("leaves requests without templates unchanged", () => {
+    const request = { url: "https://x/{not-a-tag}", bodyJson: { a: [1, "b"] } };
+    expect(renderRequestTemplates(request, context)).toEqual(request);
+  });
+
+  it("leaves secret references for the dispatcher", () => {
+    const rendered = renderRequestTemplates({
+      headersJson: { "Authorization": "Bearer {{secret.TOKEN}}", "X-Run": "{{ run.id }}" },
+      bodyJson: { key: "{{ secret.TOKEN }}" },
+    }, context);
+
+    expect(rendered).toEqual({
+      headersJson: { "Authorization": "Bearer {{secret.TOKEN}}", "X-Run": "run-42" },
+      bodyJson: { key: "{{ secret.TOKEN }}" },
+    });
+  });
+
+  it("rejects values that would inject template tags", () => {
+    const injected = buildTemplateContext({
+      endpoint: { id: "ep", name: "ep" },
+      runId: "run-1",
+      now,
+      siblings: [{ endpointName: "extract", responseBody: { next: "{{ secret.TOKEN }}" }, timestamp: now, status: "success" }],
+    });
+
+    expect(() => renderRequestTemplates({ url: "https://x/{{ endpoints.extract.lastResponse.next }}" }, injected))
+      .toThrow(/resolved to a value containing "\{\{"/);
+  });
+
+  it("throws when a value doesn't resolve", () => {
+    expect(() => renderRequestTemplates({ url: "https://x/{{ endpoints.missing.lastResponse.id }}" }, context))
+      .toThrow(new TemplateError("url: \"endpoints.missing.lastResponse.id\" did not resolve"));
+    expect(() => renderRequestTemplates({ bodyJson: { id: "{{ endpoints.extract.lastResponse.nope }}" } }, context))
+      .toThrow(/^bodyJson\.id: /);
+    expect(() => renderRequestTemplates({ url: "{{ endpoints.extract.lastResponse.items | iso }}" }, context))
+      .toThrow(/is not a date/);
+  });
+});
@@ -0,0 +1,4 @@
+/**
+ * Templating module - request templates resolved at dispatch time.
+ */
+export * from "./templating.js";
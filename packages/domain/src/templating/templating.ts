@@ -0,0 +1,332 @@
+/**
+ * Request templating for response chaining.
+ *
+ * An endpoint's `url`, header values and string values in `bodyJson` may contain
+ * `{{ expression | filter }}` tags, resolved at dispatch time against a context built
+ * from the run, the endpoint itself and the latest stored response of each sibling
+ * endpoint in the same job:
+ *
+ * - `{{ endpoints.extract.lastResponse.batch_id }}` (also `lastStatus`, `lastRunAt`)
+ * - `{{ run.id }}`, `{{ endpoint.id }}`, `{{ endpoint.name }}`
+ * - `{{ now | iso }}`
+ * - `{{ secret.NAME }}` is validated here but left in place for the dispatcher
+ *
+ * A body string that is exactly one tag is replaced by the raw JSON value; everything
+ * else is interpolated as text. A tag that doesn't resolve fails the render. Date
+ * filters accept ISO strings and epoch milliseconds.
+ */
+
+import type { JobEndpoint, JsonValue } from "../entities/index.js";
+import type { ResponsePathSegment } from "../success/index.js";
+
+import { SECRET_NAME_PATTERN } from "../secrets/index.js";
+import { parseResponsePath, resolveResponsePath } from "../success/index.js";
+
+/** Filters that can follow an expression, applied left to right */
+export const TEMPLATE_FILTERS = ["iso", "unix", "json", "urlencode"] as const;
+
+export type TemplateFilter = (typeof TEMPLATE_FILTERS)[number];
+
+/** The request fields templates may appear in */
+export type TemplatedRequest = Pick<JobEndpoint, "url" | "headersJson" | "bodyJson">;
+
+/** A sibling endpoint's latest run, as exposed under `endpoints.<name>` */
+export type TemplateSiblingResponse = {
+  lastResponse: JsonValue | null;
+  lastStatus: string;
+  lastRunAt: string;
+};
+
+/** Values available to template expressions */
+export type TemplateContext = {
+  endpoints: Record<string, TemplateSiblingResponse>;
+  run: { id: string };
+  endpoint: { id: string; name: string };
+  now: string;
+};
+
+/** Thrown when a template is malformed or an expression doesn't resolve */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+type TemplateExpression = {
+  source: string;
+  path: ResponsePathSegment[];
+  filters: TemplateFilter[];
+};
+
+type TemplatePart = string | TemplateExpression;
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+/** Fields exposed for each sibling endpoint (endpoints.<name>.<field>) */
+const SIBLING_FIELDS = ["lastResponse", "lastStatus", "lastRunAt"];
+
+/**
+ * Builds the template context for a run from the latest run of each sibling endpoint
+ * (as returned by RunsRepo.getSiblingLatestResponses).
+ *
+ * @returns Context keyed by sibling endpoint name; the first entry wins if names repeat
+ */
+export function buildTemplateContext(input: {
+  endpoint: Pick<JobEndpoint, "id" | "name">;
+  runId: string;
+  now: Date;
+  siblings: Array<{ endpointName: string; responseBody: JsonValue | null; timestamp: Date; status: string }>;
+}): TemplateContext {
+  const endpoints: Record<string, TemplateSiblingResponse> = {};
+  for (const sibling of input.siblings) {
+    if (Object.hasOwn(endpoints, sibling.endpointName))
+      continue;
+    endpoints[sibling.endpointName] = {
+      lastResponse: sibling.responseBody,
+      lastStatus: sibling.status,
+      lastRunAt: sibling.timestamp.toISOString(),
+    };
+  }
+
+  return {
+    endpoints,
+    run: { id: input.runId },
+    endpoint: { id: input.endpoint.id, name: input.endpoint.name },
+    now: input.now.toISOString(),
+  };
+}
+
+/**
+ * Whether any request field contains a template tag.
+ */
+export function hasRequestTemplates(request: TemplatedRequest): boolean {
+  return templatedStrings(request).some(({ value }) => value.includes("{{"));
+}
+
+/**
+ * Checks the syntax of every template in the request.
+ *
+ * Sibling names aren't checked: the sibling may be created or renamed later,
+ * and a missing one fails at dispatch time instead.
+ *
+ * @returns An error message naming the field (e.g. `headersJson.Authorization: ...`), or null if valid
+ */
+export function findTemplateError(request: TemplatedRequest): string | null {
+  for (const { location, value } of templatedStrings(request)) {
+    try {
+      parseTemplate(value);
+    }
+    catch (error) {
+      if (error instanceof TemplateError)
+        return `${location}: ${error.message}`;
+      throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Resolves every template in the request against the context.
+ *
+ * @returns A copy of the request with templates replaced; fields without templates are unchanged
+ * @throws TemplateError naming the field if a template is malformed or doesn't resolve
+ */
+export function renderRequestTemplates<T extends TemplatedRequest>(request: T, context: TemplateContext): T {
+  const rendered: T = { ...request };
+
+  if (request.url !== undefined)
+    rendered.url = renderString(request.url, context, "url");
+
+  if (request.headersJson !== undefined) {
+    rendered.headersJson = Object.fromEntries(
+      Object.entries(request.headersJson).map(([name, value]) => [name, renderString(value, context, `headersJson.${name}`)]),
+    );
+  }
+
+  if (request.bodyJson !== undefined)
+    rendered.bodyJson = renderBody(request.bodyJson, context, "bodyJson");
+
+  return rendered;
+}
+
+function renderBody(value: JsonValue, context: TemplateContext, location: string): JsonValue {
+  if (typeof value === "string") {
+    const parts = parseAt(value, location);
+    // A lone tag keeps the resolved value's JSON type
+    if (parts.length === 1 && typeof parts[0] !== "string")
+      return evaluateAt(parts[0]!, context, location);
+    return interpolate(parts, context, location);
+  }
+  if (Array.isArray(value))
+    return value.map((item, index) => renderBody(item, context, `${location}[${index}]`));
+  if (value !== null && typeof value === "object")
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderBody(item, context, `${location}.${key}`)]));
+  return value;
+}
+
+function renderString(value: string, context: TemplateContext, location: string): string {
+  return interpolate(parseAt(value, location), context, location);
+}
+
+function interpolate(parts: TemplatePart[], context: TemplateContext, location: string): string {
+  return parts.map(part => typeof part === "string" ? part : formatValue(evaluateAt(part, context, location))).join("");
+}
+
+function parseAt(value: string, location: string): TemplatePart[] {
+  try {
+    return parseTemplate(value);
+  }
+  catch (error) {
+    throw error instanceof TemplateError ? new TemplateError(`${location}: ${error.message}`) : error;
+  }
+}
+
+function evaluateAt(expression: TemplateExpression, context: TemplateContext, location: string): JsonValue {
+  try {
+    return evaluate(expression, context);
+  }
+  catch (error) {
+    throw error instanceof TemplateError ? new TemplateError(`${location}: ${error.message}`) : error;
+  }
+}
+
+function parseTemplate(value: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(TAG_PATTERN)) {
+    if (match.index > lastIndex)
+      parts.push(value.slice(lastIndex, match.index));
+    const expression = parseExpression(match[1]!);
+    // Secret references are resolved by the dispatcher; keep them as written
+    parts.push(expression.path[0] === "secret" ? match[0] : expression);
+    lastIndex = match.index + match[0].length;
+  }
+
+  const rest = value.slice(lastIndex);
+  if (rest.includes("{{"))
+    throw new TemplateError("Unclosed template tag \"{{\"");
+  if (rest.length > 0)
+    parts.push(rest);
+
+  return parts;
+}
+
+function parseExpression(raw: string): TemplateExpression {
+  const [pathSource = "", ...filterSources] = raw.split("|").map(part => part.trim());
+  const source = raw.trim();
+
+  if (pathSource === "")
+    throw new TemplateError(`Empty template expression "{{${raw}}}"`);
+
+  const path = parseResponsePath(`$.${pathSource}`);
+  if (!path)
+    throw new TemplateError(`Invalid expression "${pathSource}"`);
+  checkPath(path, pathSource);
+  if (path[0] === "secret" && filterSources.length > 0)
+    throw new TemplateError(`Filters can't be applied to secrets ("${source}")`);
+
+  const filters = filterSources.map((filter) => {
+    if (!isTemplateFilter(filter))
+      throw new TemplateError(`Unknown filter "${filter}" in "${source}" (expected one of: ${TEMPLATE_FILTERS.join(", ")})`);
+    return filter;
+  });
+
+  return { source, path, filters };
+}
+
+const FILTER_NAMES: ReadonlySet<string> = new Set(TEMPLATE_FILTERS);
+
+function isTemplateFilter(value: string): value is TemplateFilter {
+  return FILTER_NAMES.has(value);
+}
+
+function checkPath(path: ResponsePathSegment[], source: string): void {
+  const [root, ...rest] = path;
+
+  switch (root) {
+    case "endpoints":
+      if (rest.length < 2 || !SIBLING_FIELDS.includes(String(rest[1])))
+        throw new TemplateError(`Invalid expression "${source}" (expected endpoints.<name>.${SIBLING_FIELDS.join("|")})`);
+      if (rest[1] !== "lastResponse" && rest.length > 2)
+        throw new TemplateError(`Invalid expression "${source}" (only lastResponse has nested fields)`);
+      return;
+    case "run":
+      if (rest.length !== 1 || rest[0] !== "id")
+        throw new TemplateError(`Invalid expression "${source}" (expected run.id)`);
+      return;
+    case "endpoint":
+      if (rest.length !== 1 || (rest[0] !== "id" && rest[0] !== "name"))
+        throw new TemplateError(`Invalid expression "${source}" (expected endpoint.id or endpoint.name)`);
+      return;
+    case "secret":
+      if (rest.length !== 1 || !SECRET_NAME_PATTERN.test(String(rest[0])))
+        throw new TemplateError(`Invalid expression "${source}" (expected secret.<NAME> with an upper-case name)`);
+      return;
+    case "now":
+      if (rest.length !== 0)
+        throw new TemplateError(`Invalid expression "${source}" (now has no fields)`);
+      return;
+    default:
+      throw new TemplateError(`Unknown template variable "${String(root)}" (expected endpoints, run, endpoint, now or secret)`);
+  }
+}
+
+function evaluate(expression: TemplateExpression, context: TemplateContext): JsonValue {
+  const root: JsonValue = context;
+  const value = resolveResponsePath(root, expression.path);
+  if (value === undefined)
+    throw new TemplateError(`"${expression.source}" did not resolve`);
+  // Upstream data must not smuggle in template tags (such as secret references)
+  if (JSON.stringify(value).includes("{{"))
+    throw new TemplateError(`"${expression.source}" resolved to a value containing "{{"`);
+
+  return expression.filters.reduce<JsonValue>((current, filter) => applyFilter(filter, current, expression.source), value);
+}
+
+function applyFilter(filter: TemplateFilter, value: JsonValue, source: string): JsonValue {
+  switch (filter) {
+    case "iso":
+      return toDate(value, source).toISOString();
+    case "unix":
+      return Math.floor(toDate(value, source).getTime() / 1000);
+    case "json":
+      return JSON.stringify(value);
+    case "urlencode":
+      return encodeURIComponent(formatValue(value));
+  }
+}
+
+function toDate(value: JsonValue, source: string): Date {
+  const date = typeof value === "string" || typeof value === "number" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime()))
+    throw new TemplateError(`"${source}" is not a date`);
+  return date;
+}
+
+function formatValue(value: JsonValue): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function templatedStrings(request: TemplatedRequest): Array<{ location: string; value: string }> {
+  const strings: Array<{ location: string; value: string }> = [];
+
+  if (request.url !== undefined)
+    strings.push({ location: "url", value: request.url });
+  for (const [name, value] of Object.entries(request.headersJson ?? {}))
+    strings.push({ location: `headersJson.${name}`, value });
+
+  const collect = (value: JsonValue, location: string): void => {
+    if (typeof value === "string")
+      strings.push({ location, value });
+    else if (Array.isArray(value))
+      value.forEach((item, index) => collect(item, `${location}[${index}]`));
+    else if (value !== null && typeof value === "object")
+      Object.entries(value).forEach(([key, item]) => collect(item, `${location}.${key}`));
+  };
+  if (request.bodyJson !== undefined)
+    collect(request.bodyJson, "bodyJson");
+
+  return strings;
+}
@@ -12,8 +12,11 @@ import { beforeEach, describe, expect, it } from "vitest";
  * - Any future adapters
  *
  * Key guarantees tested:
- * - claimDueEndpoints: atomic, respects pause/locks, idempotent
+ * - claimDueEndpoints: atomic, respects pause/leases, idempotent
+ * - leases: renewal and release are owner-scoped
  * - updateAfterRun: applies failure policies, clears hints
+ * - manual runs: run-now requests make the endpoint due until consumed
+ * - trigger tokens: stored by hash, found by hash while the endpoint is unarchived
  * - AI steering: nudging, hints, pause control
  */
 export function testJobsRepoContract(
@@ -58,6 +61,89 @@ export function testJobsRepoContract(
       it("should throw when endpoint not found", async () => {
         await expect(repo.getEndpoint("nonexistent")).rejects.toThrow(/not found/i);
       });
+
+      it("should look up heartbeat endpoints by ping token", async () => {
+        await repo.addEndpoint({
+          id: "ep-hb",
+          jobId: "job1",
+          tenantId: "tenant1",
+          name: "heartbeat",
+          kind: "heartbeat",
+          pingToken: "tok-1",
+          graceMs: 60_000,
+          baselineIntervalMs: 60000,
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+        });
+
+        expect(await repo.getEndpointByPingToken("tok-1")).toMatchObject({ id: "ep-hb", kind: "heartbeat", graceMs: 60_000 });
+        expect(await repo.getEndpointByPingToken("other")).toBeNull();
+      });
+
+      it("should persist endpoint dependencies", async () => {
+        await repo.addEndpoint({
+          id: "ep-up",
+          jobId: "job1",
+          tenantId: "tenant1",
+          name: "extract",
+          baselineIntervalMs: 60000,
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+        });
+        await repo.addEndpoint({
+          id: "ep-down",
+          jobId: "job1",
+          tenantId: "tenant1",
+          name: "transform",
+          baselineIntervalMs: 60000,
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+          runAfter: { upstreamIds: ["ep-up"], mode: "all", delayMs: 5000 },
+        });
+
+        expect((await repo.getEndpoint("ep-down")).runAfter).toEqual({ upstreamIds: ["ep-up"], mode: "all", delayMs: 5000 });
+
+        const updated = await repo.updateEndpoint("ep-down", { runAfter: { upstreamIds: ["ep-up"], mode: "any" } });
+        expect(updated.runAfter).toEqual({ upstreamIds: ["ep-up"], mode: "any" });
+      });
+
+      it("should persist blackout windows", async () => {
+        const windows = [
+          { name: "Sunday maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" },
+          { calendar: "us-federal-holidays" as const },
+        ];
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "tenant1",
+          name: "test",
+          baselineIntervalMs: 60000,
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+          blackoutWindows: windows,
+        });
+
+        expect((await repo.getEndpoint("ep1")).blackoutWindows).toEqual(windows);
+
+        const updated = await repo.updateEndpoint("ep1", { blackoutWindows: [] });
+        expect(updated.blackoutWindows ?? []).toEqual([]);
+      });
+
+      it("should clear the timezone with an empty string", async () => {
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "tenant1",
+          name: "test",
+          baselineCron: "0 9 * * *",
+          timezone: "Asia/Tokyo",
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+        });
+
+        const updated = await repo.updateEndpoint("ep1", { timezone: "" });
+        expect(updated.timezone).toBeUndefined();
+      });
     });
 
     describe("claimDueEndpoints", () => {
@@ -82,7 +168,7 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        const claimed = await repo.claimDueEndpoints(10, 0);
+        const claimed = await repo.claimDueEndpoints(10, 0, "worker-a");
         expect(claimed).toEqual(["ep1"]);
       });
 
@@ -98,7 +184,7 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        const claimed = await repo.claimDueEndpoints(10, 60000); // 1 minute horizon
+        const claimed = await repo.claimDueEndpoints(10, 60000, "worker-a"); // 1 minute horizon
         expect(claimed).toEqual(["ep1"]);
       });
 
@@ -123,7 +209,7 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        const claimed = await repo.claimDueEndpoints(1, 0);
+        const claimed = await repo.claimDueEndpoints(1, 0, "worker-a");
         expect(claimed).toHaveLength(1);
         expect(claimed[0]).toBe("ep1"); // Earlier one
       });
@@ -141,7 +227,7 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        const claimed = await repo.claimDueEndpoints(10, 0);
+        const claimed = await repo.claimDueEndpoints(10, 0, "worker-a");
         expect(claimed).toEqual([]);
       });
 
@@ -158,31 +244,31 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        it("should not claim endpoints outside horizon window", async () => {
-          // Regression test for bug where endpoints with short intervals
-          // were claimed repeatedly on every tick
-          setNow(new Date("2025-01-01T00:00:00Z"));
-
-          await repo.addEndpoint({
-            id: "ep1",
-            jobId: "job1",
-            tenantId: "t1",
-            name: "short-interval",
-            nextRunAt: new Date("2025-01-01T00:01:00Z"), // 60 seconds in future
-            failureCount: 0,
-          });
+        const claimed = await repo.claimDueEndpoints(10, 0, "worker-a");
+        expect(claimed).toEqual(["ep1"]);
+      });
 
-          // With 10s horizon, this endpoint should NOT be claimed yet
-          const claimed = await repo.claimDueEndpoints(10, 10000);
-          expect(claimed).toEqual([]);
+      it("should not claim endpoints outside horizon window", async () => {
+        // Regression test for bug where endpoints with short intervals
+        // were claimed repeatedly on every tick
+        setNow(new Date("2025-01-01T00:00:00Z"));
 
-          // But with 60s+ horizon, it would be (old buggy behavior)
-          const claimedWithLargeHorizon = await repo.claimDueEndpoints(10, 60000);
-          expect(claimedWithLargeHorizon).toEqual(["ep1"]);
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "short-interval",
+          nextRunAt: new Date("2025-01-01T00:01:00Z"), // 60 seconds in future
+          failureCount: 0,
         });
 
-        const claimed = await repo.claimDueEndpoints(10, 0);
-        expect(claimed).toEqual(["ep1"]);
+        // With 10s horizon, this endpoint should NOT be claimed yet
+        const claimed = await repo.claimDueEndpoints(10, 10000, "worker-a");
+        expect(claimed).toEqual([]);
+
+        // But with 60s+ horizon, it would be (old buggy behavior)
+        const claimedWithLargeHorizon = await repo.claimDueEndpoints(10, 60000, "worker-a");
+        expect(claimedWithLargeHorizon).toEqual(["ep1"]);
       });
 
       it("should be idempotent (no double-claiming)", async () => {
@@ -197,10 +283,10 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        const claimed1 = await repo.claimDueEndpoints(10, 60000);
+        const claimed1 = await repo.claimDueEndpoints(10, 60000, "worker-a");
         expect(claimed1).toEqual(["ep1"]);
 
-        const claimed2 = await repo.claimDueEndpoints(10, 60000);
+        const claimed2 = await repo.claimDueEndpoints(10, 60000, "worker-a");
         expect(claimed2).toEqual([]); // Already locked
       });
     });
@@ -218,7 +304,7 @@ export function testJobsRepoContract(
           failureCount: 0,
         });
 
-        await repo.setLock("ep1", new Date("2025-01-01T00:10:00Z"));
+        await repo.claimDueEndpoints(10, 0, "worker-a");
 
         await repo.updateAfterRun("ep1", {
           lastRunAt: new Date("2025-01-01T00:00:00Z"),
@@ -431,6 +517,186 @@ export function testJobsRepoContract(
       });
     });
 
+    describe("manual runs", () => {
+      const requestedBy = { type: "user" as const, id: "user-1", userId: "user-1" };
+
+      it("should store the request and make the endpoint due", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          failureCount: 0,
+        });
+
+        await repo.requestManualRun("ep1", {
+          id: "req-1",
+          requestedAt: new Date("2025-01-01T00:00:00Z"),
+          requestedBy,
+          headersJson: { "X-Debug": "1" },
+          bodyJson: { dryRun: true },
+        });
+
+        const ep = await repo.getEndpoint("ep1");
+        expect(ep.nextRunAt.getTime()).toBe(new Date("2025-01-01T00:00:00Z").getTime());
+        expect(ep.manualRun).toEqual({
+          id: "req-1",
+          requestedAt: new Date("2025-01-01T00:00:00Z"),
+          requestedBy,
+          headersJson: { "X-Debug": "1" },
+          bodyJson: { dryRun: true },
+        });
+        expect(await repo.claimDueEndpoints(10, 0, "worker-a")).toEqual(["ep1"]);
+      });
+
+      it("should clear the consumed request after the run", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          failureCount: 0,
+        });
+        await repo.requestManualRun("ep1", { id: "req-1", requestedAt: new Date("2025-01-01T00:00:00Z"), requestedBy });
+
+        await repo.updateAfterRun("ep1", {
+          lastRunAt: new Date("2025-01-01T00:00:00Z"),
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          status: { status: "success", durationMs: 1000 },
+          failureCountPolicy: "reset",
+          clearExpiredHints: false,
+          consumedManualRunId: "req-1",
+        });
+
+        const ep = await repo.getEndpoint("ep1");
+        expect(ep.manualRun).toBeUndefined();
+        expect(ep.nextRunAt.getTime()).toBe(new Date("2025-01-01T01:00:00Z").getTime());
+      });
+
+      it("should keep a request made during the run due", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          failureCount: 0,
+        });
+        await repo.requestManualRun("ep1", { id: "req-2", requestedAt: new Date("2025-01-01T00:00:30Z"), requestedBy });
+
+        await repo.updateAfterRun("ep1", {
+          lastRunAt: new Date("2025-01-01T00:00:00Z"),
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          status: { status: "success", durationMs: 1000 },
+          failureCountPolicy: "reset",
+          clearExpiredHints: false,
+          consumedManualRunId: "req-1",
+        });
+
+        const ep = await repo.getEndpoint("ep1");
+        expect(ep.manualRun?.id).toBe("req-2");
+        expect(ep.nextRunAt.getTime()).toBe(new Date("2025-01-01T00:00:30Z").getTime());
+      });
+
+      it("should clear a skipped request, but not a newer one", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          failureCount: 0,
+        });
+        await repo.requestManualRun("ep1", { id: "req-2", requestedAt: new Date("2025-01-01T00:00:30Z"), requestedBy });
+
+        await repo.clearManualRun("ep1", "req-1");
+        expect((await repo.getEndpoint("ep1")).manualRun?.id).toBe("req-2");
+
+        await repo.clearManualRun("ep1", "req-2");
+        expect((await repo.getEndpoint("ep1")).manualRun).toBeUndefined();
+      });
+
+      it("should store trigger URL requests without an actor", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          failureCount: 0,
+        });
+
+        await repo.requestManualRun("ep1", {
+          id: "req-1",
+          requestedAt: new Date("2025-01-01T00:00:00Z"),
+          source: "trigger",
+          payloadJson: { sha: "abc123" },
+        });
+
+        const ep = await repo.getEndpoint("ep1");
+        expect(ep.manualRun).toEqual({
+          id: "req-1",
+          requestedAt: new Date("2025-01-01T00:00:00Z"),
+          source: "trigger",
+          payloadJson: { sha: "abc123" },
+        });
+      });
+    });
+
+    describe("trigger tokens", () => {
+      const token = {
+        hash: "a".repeat(64),
+        prefix: "trg_abcdefgh",
+        createdAt: new Date("2025-01-01T00:00:00Z"),
+      };
+
+      it("should set, look up, rotate and remove the token", async () => {
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+        });
+
+        await repo.setTriggerToken("ep1", token);
+        expect((await repo.getEndpoint("ep1")).triggerToken).toEqual(token);
+        expect(await repo.getEndpointByTriggerTokenHash(token.hash)).toMatchObject({ id: "ep1" });
+
+        const rotated = { ...token, hash: "b".repeat(64), prefix: "trg_ijklmnop", rotatedAt: new Date("2025-02-01T00:00:00Z") };
+        await repo.setTriggerToken("ep1", rotated);
+        expect(await repo.getEndpointByTriggerTokenHash(token.hash)).toBeNull();
+        expect((await repo.getEndpointByTriggerTokenHash(rotated.hash))?.triggerToken).toEqual(rotated);
+
+        await repo.setTriggerToken("ep1", null);
+        expect((await repo.getEndpoint("ep1")).triggerToken).toBeUndefined();
+        expect(await repo.getEndpointByTriggerTokenHash(rotated.hash)).toBeNull();
+      });
+
+      it("should not find archived endpoints by trigger token", async () => {
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+          triggerToken: token,
+        });
+        await repo.archiveEndpoint("ep1");
+
+        expect(await repo.getEndpointByTriggerTokenHash(token.hash)).toBeNull();
+      });
+    });
+
     describe("AI steering - writeAIHint", () => {
       it("should write interval hint", async () => {
         await repo.addEndpoint({
@@ -576,6 +842,49 @@ export function testJobsRepoContract(
         const ep = await repo.getEndpoint("ep1");
         expect(ep.nextRunAt.getTime()).toBe(new Date("2025-01-01T00:10:00Z").getTime());
       });
+
+      it("should make an endpoint locked after its run claimable at the earlier time", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+        });
+        expect(await repo.claimDueEndpoints(10, 0, "worker-a")).toEqual(["ep1"]);
+        await repo.updateAfterRun("ep1", {
+          lastRunAt: new Date("2025-01-01T00:00:00Z"),
+          nextRunAt: new Date("2025-01-01T01:00:00Z"),
+          status: { status: "success", durationMs: 1000 },
+          failureCountPolicy: "reset",
+          clearExpiredHints: false,
+        });
+        await repo.releaseLease("ep1", "worker-a");
+
+        await repo.setNextRunAtIfEarlier("ep1", new Date("2025-01-01T00:01:00Z"));
+
+        setNow(new Date("2025-01-01T00:01:00Z"));
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual(["ep1"]);
+      });
+
+      it("should not unlock an endpoint leased by a running worker", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await repo.addEndpoint({
+          id: "ep1",
+          jobId: "job1",
+          tenantId: "t1",
+          name: "test",
+          nextRunAt: new Date("2025-01-01T00:00:00Z"),
+          failureCount: 0,
+        });
+        expect(await repo.claimDueEndpoints(10, 0, "worker-a")).toEqual(["ep1"]);
+
+        await repo.setNextRunAtIfEarlier("ep1", new Date("2024-12-31T23:59:00Z"));
+
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual([]);
+      });
     });
 
     describe("AI steering - setPausedUntil", () => {
@@ -613,26 +922,87 @@ export function testJobsRepoContract(
       });
     });
 
-    describe("locking", () => {
-      it("should lock and unlock endpoint", async () => {
+    describe("leases", () => {
+      const addDue = () => repo.addEndpoint({
+        id: "ep1",
+        jobId: "job1",
+        tenantId: "t1",
+        name: "test",
+        nextRunAt: new Date("2025-01-01T00:00:00Z"),
+        failureCount: 0,
+      });
+
+      it("should not let another owner claim a leased endpoint", async () => {
         setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
 
-        await repo.addEndpoint({
-          id: "ep1",
-          jobId: "job1",
-          tenantId: "t1",
-          name: "test",
-          nextRunAt: new Date("2025-01-01T00:00:00Z"),
-          failureCount: 0,
-        });
+        expect(await repo.claimDueEndpoints(10, 0, "worker-a")).toEqual(["ep1"]);
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual([]);
+      });
 
-        await repo.setLock("ep1", new Date("2025-01-01T00:10:00Z"));
-        const claimed1 = await repo.claimDueEndpoints(10, 0);
-        expect(claimed1).toEqual([]);
+      it("should let another owner claim once the lease expires", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
 
-        await repo.clearLock("ep1");
-        const claimed2 = await repo.claimDueEndpoints(10, 0);
-        expect(claimed2).toEqual(["ep1"]);
+        await repo.claimDueEndpoints(10, 0, "worker-a");
+
+        setNow(new Date("2025-01-01T01:00:00Z"));
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual(["ep1"]);
+      });
+
+      it("should extend the lease on renewal by the owner", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
+
+        await repo.claimDueEndpoints(10, 0, "worker-a");
+
+        setNow(new Date("2025-01-01T00:50:00Z"));
+        expect(await repo.renewLease("ep1", "worker-a", 30 * 60_000)).toBe(true);
+
+        // Past the original lease, but within the renewed one
+        setNow(new Date("2025-01-01T01:10:00Z"));
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual([]);
+      });
+
+      it("should reject renewal by a non-owner", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
+
+        await repo.claimDueEndpoints(10, 0, "worker-a");
+
+        expect(await repo.renewLease("ep1", "worker-b", 60_000)).toBe(false);
+      });
+
+      it("should reject renewal after the lease was taken over", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
+
+        await repo.claimDueEndpoints(10, 0, "worker-a");
+        setNow(new Date("2025-01-01T01:00:00Z"));
+        await repo.claimDueEndpoints(10, 0, "worker-b");
+
+        expect(await repo.renewLease("ep1", "worker-a", 60_000)).toBe(false);
+      });
+
+      it("should make a due endpoint claimable after release", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
+
+        await repo.claimDueEndpoints(10, 0, "worker-a");
+        await repo.releaseLease("ep1", "worker-a");
+
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual(["ep1"]);
+      });
+
+      it("should ignore release by a non-owner", async () => {
+        setNow(new Date("2025-01-01T00:00:00Z"));
+        await addDue();
+
+        await repo.claimDueEndpoints(10, 0, "worker-a");
+        await repo.releaseLease("ep1", "worker-b");
+
+        expect(await repo.claimDueEndpoints(10, 0, "worker-b")).toEqual([]);
+        expect(await repo.renewLease("ep1", "worker-a", 60_000)).toBe(true);
       });
     });
   });
@@ -682,6 +1052,30 @@ export function testRunsRepoContract(
       });
     });
 
+    it("should return the latest open run for a source", async () => {
+      expect(await repo.getOpenRun("ep1", "heartbeat")).toBeNull();
+
+      const runId = await repo.create({ endpointId: "ep1", status: "running", attempt: 1, source: "heartbeat" });
+      await repo.create({ endpointId: "ep1", status: "running", attempt: 1, source: "baseline-interval" });
+      expect(await repo.getOpenRun("ep1", "heartbeat")).toMatchObject({ id: runId });
+
+      await repo.finish(runId, { status: "success", durationMs: 10 });
+      expect(await repo.getOpenRun("ep1", "heartbeat")).toBeNull();
+    });
+
+    it("should list the open runs of an endpoint", async () => {
+      const first = await repo.create({ endpointId: "ep1", status: "running", attempt: 1, source: "baseline-interval" });
+      const second = await repo.create({ endpointId: "ep1", status: "running", attempt: 1, source: "manual" });
+      const finished = await repo.create({ endpointId: "ep1", status: "running", attempt: 1 });
+      await repo.create({ endpointId: "ep2", status: "running", attempt: 1 });
+      await repo.finish(finished, { status: "success", durationMs: 10 });
+
+      // Runs created within the same millisecond may tie on startedAt
+      const open = await repo.listOpenRuns("ep1");
+      expect(open.map(r => r.id).sort()).toEqual([first, second].sort());
+      expect(open.find(r => r.id === second)).toMatchObject({ source: "manual" });
+    });
+
     it("should throw when finishing nonexistent run", async () => {
       await expect(
         repo.finish("nonexistent", {
@@ -692,3 +1086,57 @@ export function testRunsRepoContract(
     });
   });
 }
+
+/**
+ * Contract test suite for lease-aware zombie run cleanup.
+ *
+ * Needs both repos because run ownership is checked against the endpoint lease.
+ */
+export function testZombieRunLeaseContract(
+  setup: () => { jobs: JobsRepo; runs: RunsRepo; setNow: (d: Date) => void },
+) {
+  describe("RunsRepo.cleanupZombieRuns lease contract", () => {
+    let jobs: JobsRepo;
+    let runs: RunsRepo;
+    let setNow: (d: Date) => void;
+
+    beforeEach(async () => {
+      const ctx = setup();
+      jobs = ctx.jobs;
+      runs = ctx.runs;
+      setNow = ctx.setNow;
+
+      setNow(new Date("2025-01-01T00:00:00Z"));
+      await jobs.addEndpoint({
+        id: "ep1",
+        jobId: "job1",
+        tenantId: "t1",
+        name: "test",
+        nextRunAt: new Date("2025-01-01T00:00:00Z"),
+        failureCount: 0,
+      });
+    });
+
+    it("should leave runs alone while their owner holds the lease", async () => {
+      await jobs.claimDueEndpoints(10, 0, "worker-a");
+      await runs.create({ endpointId: "ep1", status: "running", attempt: 1, leaseOwner: "worker-a" });
+
+      expect(await runs.cleanupZombieRuns(60 * 60 * 1000)).toBe(0);
+    });
+
+    it("should cancel runs whose lease owner vanished", async () => {
+      await jobs.claimDueEndpoints(10, 0, "worker-a");
+      const runId = await runs.create({ endpointId: "ep1", status: "running", attempt: 1, leaseOwner: "worker-a" });
+
+      // worker-a never renews; worker-b takes over after expiry
+      setNow(new Date("2025-01-01T01:00:00Z"));
+      await jobs.claimDueEndpoints(10, 0, "worker-b");
+
+      expect(await runs.cleanupZombieRuns(60 * 60 * 1000)).toBe(1);
+
+      const details = await runs.getRunDetails(runId);
+      expect(details?.status).toBe("canceled");
+      expect(details?.errorMessage).toMatch(/worker-a/);
+    });
+  });
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+
+import { TEST_CA_CERTIFICATE, TEST_CLIENT_CERTIFICATE, TEST_CLIENT_PRIVATE_KEY, TEST_OTHER_PRIVATE_KEY, TEST_SERVER_CERTIFICATE } from "../../fixtures/tls-certificates.js";
+import { inspectTlsCredential, MAX_TLS_PEM_LENGTH, TlsCredentialError, tlsCredentialExpiresAt, tlsExpiryStatus } from "../tls.js";
+
+describe("inspectTlsCredential", () => {
+  it("reads the client certificate's subject and expiry", () => {
+    const summary = inspectTlsCredential({ certificate: TEST_CLIENT_CERTIFICATE, privateKey: TEST_CLIENT_PRIVATE_KEY });
+
+    expect(summary).toEqual({
+      subject: "CN=billing-client",
+      certificateExpiresAt: new Date("2126-09-25T14:24:42.000Z"),
+      caCertificates: 0,
+      caExpiresAt: null,
+    });
+  });
+
+  it("counts CA bundle certificates and reports the earliest expiry", () => {
+    const summary = inspectTlsCredential({ caBundle: `${TEST_CA_CERTIFICATE}${TEST_SERVER_CERTIFICATE}` });
+
+    expect(summary.caCertificates).toBe(2);
+    expect(summary.caExpiresAt).toEqual(new Date("2126-09-25T14:24:42.000Z"));
+    expect(summary.subject).toBeNull();
+  });
+
+  it("accepts a client certificate followed by its chain", () => {
+    const summary = inspectTlsCredential({
+      certificate: `${TEST_CLIENT_CERTIFICATE}${TEST_CA_CERTIFICATE}`,
+      privateKey: TEST_CLIENT_PRIVATE_KEY,
+      caBundle: TEST_CA_CERTIFICATE,
+    });
+
+    expect(summary.subject).toBe("CN=billing-client");
+    expect(summary.caCertificates).toBe(1);
+  });
+
+  it("requires a certificate pair or a CA bundle", () => {
+    expect(() => inspectTlsCredential({})).toThrow(TlsCredentialError);
+  });
+
+  it("requires the certificate and private key together", () => {
+    expect(() => inspectTlsCredential({ certificate: TEST_CLIENT_CERTIFICATE })).toThrow("must be provided together");
+    expect(() => inspectTlsCredential({ privateKey: TEST_CLIENT_PRIVATE_KEY, caBundle: TEST_CA_CERTIFICATE })).toThrow("must be provided together");
+  });
+
+  it("rejects a private key that doesn't belong to the certificate", () => {
+    expect(() => inspectTlsCredential({ certificate: TEST_CLIENT_CERTIFICATE, privateKey: TEST_OTHER_PRIVATE_KEY }))
+      .toThrow("privateKey doesn't match the client certificate");
+  });
+
+  it("rejects material that isn't PEM", () => {
+    expect(() => inspectTlsCredential({ caBundle: "not a certificate" })).toThrow("caBundle must contain at least one PEM certificate");
+    expect(() => inspectTlsCredential({ certificate: TEST_CLIENT_CERTIFICATE, privateKey: "nope" }))
+      .toThrow("privateKey must be an unencrypted PEM private key");
+    expect(() => inspectTlsCredential({ caBundle: "-----BEGIN CERTIFICATE-----\nAAAA\n-----END CERTIFICATE-----" }))
+      .toThrow("caBundle: certificate 1 can't be parsed");
+  });
+
+  it("rejects oversized fields", () => {
+    expect(() => inspectTlsCredential({ caBundle: `${TEST_CA_CERTIFICATE}${" ".repeat(MAX_TLS_PEM_LENGTH)}` }))
+      .toThrow(`caBundle must be at most ${MAX_TLS_PEM_LENGTH} characters`);
+  });
+});
+
+describe("tlsCredentialExpiresAt", () => {
+  it("is the earlier of the client certificate and CA expiry", () => {
+    const certificateExpiresAt = new Date("2030-01-01T00:00:00Z");
+    const caExpiresAt = new Date("2029-01-01T00:00:00Z");
+
+    expect(tlsCredentialExpiresAt({ certificateExpiresAt, caExpiresAt })).toEqual(caExpiresAt);
+    expect(tlsCredentialExpiresAt({ certificateExpiresAt, caExpiresAt: null })).toEqual(certificateExpiresAt);
+    expect(tlsCredentialExpiresAt({ certificateExpiresAt: null, caExpiresAt: null })).toBeNull();
+  });
+});
+
+describe("tlsExpiryStatus", () => {
+  const now = new Date("2026-01-01T00:00:00Z");
+
+  it("is expired at or after the expiry", () => {
+    expect(tlsExpiryStatus(now, now)).toBe("expired");
+    expect(tlsExpiryStatus(new Date("2025-12-01T00:00:00Z"), now)).toBe("expired");
+  });
+
+  it("is expiring within 30 days", () => {
+    expect(tlsExpiryStatus(new Date("2026-01-31T00:00:00Z"), now)).toBe("expiring");
+  });
+
+  it("is valid further out, or without certificates", () => {
+    expect(tlsExpiryStatus(new Date("2026-02-01T00:00:00Z"), now)).toBe("valid");
+    expect(tlsExpiryStatus(null, now)).toBe("valid");
+  });
+});
@@ -0,0 +1,4 @@
+/**
+ * TLS module - validation and certificate metadata of TLS credentials (mTLS, private CAs).
+ */
+export * from "./tls.js";
@@ -0,0 +1,133 @@
+/**
+ * TLS credentials for outbound mTLS and private CAs.
+ *
+ * Uses node:crypto (no I/O, deterministic) — safe for domain layer.
+ * Uploaded PEM material is checked here before it's stored, and the certificate
+ * metadata (subject, expiry) is read once so the UI never needs the material again.
+ */
+
+import { createPrivateKey, X509Certificate } from "node:crypto";
+
+import type { TlsCertificateSummary, TlsCredentialMaterial } from "../ports/tls-credentials.js";
+
+/** Lower-case letters, digits, dashes and underscores, starting with a letter or digit */
+export const TLS_CREDENTIAL_NAME_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** Largest accepted PEM field (certificate, private key or CA bundle) */
+export const MAX_TLS_PEM_LENGTH = 65536;
+
+/** Most TLS credentials a user may store */
+export const MAX_TLS_CREDENTIALS_PER_USER = 20;
+
+/** How long before expiry a certificate counts as expiring */
+export const TLS_EXPIRY_WARNING_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Expiry state of a credential's certificates.
+ * - valid: no certificate expires within TLS_EXPIRY_WARNING_MS
+ * - expiring: a certificate expires within TLS_EXPIRY_WARNING_MS
+ * - expired: a certificate has expired; requests using the credential will fail
+ */
+export type TlsExpiryStatus = "valid" | "expiring" | "expired";
+
+/**
+ * Uploaded TLS material that can't be used.
+ */
+export class TlsCredentialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TlsCredentialError";
+  }
+}
+
+const PEM_CERTIFICATE_PATTERN = /-----BEGIN CERTIFICATE-----[\s\S]+?-----END CERTIFICATE-----/g;
+
+/**
+ * Validate TLS material and read its certificate metadata.
+ *
+ * Requires a client certificate with its private key, a CA bundle, or both. The private
+ * key must be unencrypted and belong to the (first) client certificate. Expired
+ * certificates are accepted; their expiry is reported instead.
+ *
+ * @throws TlsCredentialError describing the first problem found
+ */
+export function inspectTlsCredential(material: TlsCredentialMaterial): TlsCertificateSummary {
+  const { certificate, privateKey, caBundle } = material;
+  if (!certificate && !caBundle) {
+    throw new TlsCredentialError("Provide a client certificate and private key, a CA bundle, or both");
+  }
+  if (!certificate !== !privateKey) {
+    throw new TlsCredentialError("A client certificate and its private key must be provided together");
+  }
+  for (const [field, value] of Object.entries(material)) {
+    if (typeof value === "string" && value.length > MAX_TLS_PEM_LENGTH) {
+      throw new TlsCredentialError(`${field} must be at most ${MAX_TLS_PEM_LENGTH} characters`);
+    }
+  }
+
+  const summary: TlsCertificateSummary = {
+    subject: null,
+    certificateExpiresAt: null,
+    caCertificates: 0,
+    caExpiresAt: null,
+  };
+
+  if (certificate && privateKey) {
+    const [leaf] = parseCertificates(certificate, "certificate");
+    let key;
+    try {
+      key = createPrivateKey(privateKey);
+    }
+    catch {
+      throw new TlsCredentialError("privateKey must be an unencrypted PEM private key");
+    }
+    if (!leaf!.checkPrivateKey(key)) {
+      throw new TlsCredentialError("privateKey doesn't match the client certificate");
+    }
+    summary.subject = leaf!.subject.replaceAll("\n", ", ");
+    summary.certificateExpiresAt = new Date(leaf!.validTo);
+  }
+
+  if (caBundle) {
+    const cas = parseCertificates(caBundle, "caBundle");
+    summary.caCertificates = cas.length;
+    summary.caExpiresAt = new Date(Math.min(...cas.map(ca => new Date(ca.validTo).getTime())));
+  }
+
+  return summary;
+}
+
+/**
+ * When the first of a credential's certificates expires, or null without certificates.
+ */
+export function tlsCredentialExpiresAt(summary: Pick<TlsCertificateSummary, "certificateExpiresAt" | "caExpiresAt">): Date | null {
+  const dates = [summary.certificateExpiresAt, summary.caExpiresAt].filter(date => date !== null);
+  if (dates.length === 0)
+    return null;
+  return new Date(Math.min(...dates.map(date => date.getTime())));
+}
+
+export function tlsExpiryStatus(expiresAt: Date | null, now: Date): TlsExpiryStatus {
+  if (expiresAt === null)
+    return "valid";
+  if (expiresAt.getTime() <= now.getTime())
+    return "expired";
+  if (expiresAt.getTime() - now.getTime() <= TLS_EXPIRY_WARNING_MS)
+    return "expiring";
+  return "valid";
+}
+
+function parseCertificates(pem: string, field: string): X509Certificate[] {
+  const blocks = pem.match(PEM_CERTIFICATE_PATTERN) ?? [];
+  if (blocks.length === 0) {
+    throw new TlsCredentialError(`${field} must contain at least one PEM certificate`);
+  }
+  return blocks.map((block, i) => {
+    try {
+      return new X509Certificate(block);
+    }
+    catch {
+      throw new TlsCredentialError(`${field}: certificate ${i + 1} can't be parsed`);
+    }
+  });
+}
@@ -41,6 +41,23 @@ describe("planNextRun", () => {
     expect(result.source).toBe("baseline-cron");
   });
 
+  it("passes the endpoint timezone to cron", () => {
+    const calls: Array<string | undefined> = [];
+    const zonedCron = {
+      next: (_expr: string, from: Date, timezone?: string) => {
+        calls.push(timezone);
+        return new Date(from.getTime() + 60_000);
+      },
+    };
+    const ep = makeEndpoint({
+      baselineCron: "0 9 * * *",
+      timezone: "Europe/Berlin",
+    });
+    planNextRun(at("2025-01-01T00:00:00Z"), ep, zonedCron);
+
+    expect(calls).toEqual(["Europe/Berlin"]);
+  });
+
   it("ai hint interval (fresh) beats baseline", () => {
     const ep = makeEndpoint({
       baselineIntervalMs: 300_000, // 5 min
@@ -282,4 +299,48 @@ describe("planNextRun", () => {
       // This is 8 minutes in the future from "now", preventing immediate retry
     });
   });
+
+  describe("blackout windows", () => {
+    // 2025-01-05 is a Sunday; Berlin is UTC+1 in January
+    const sundayMaintenance = { daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" };
+
+    it("pushes a run planned inside a window to the window's end", () => {
+      const ep = makeEndpoint({ baselineIntervalMs: 3_600_000, blackoutWindows: [sundayMaintenance] });
+      const result = planNextRun(at("2025-01-05T00:30:00Z"), ep, stubCron);
+
+      expect(result.source).toBe("blackout");
+      expect(result.nextRunAt.toISOString()).toBe("2025-01-05T03:00:00.000Z");
+    });
+
+    it("applies the job's windows and overrides AI hints", () => {
+      const ep = makeEndpoint({
+        baselineIntervalMs: 3_600_000,
+        aiHintNextRunAt: at("2025-01-05T01:05:00Z"),
+        aiHintExpiresAt: at("2025-01-05T06:00:00Z"),
+      });
+      const result = planNextRun(at("2025-01-05T01:00:00Z"), ep, stubCron, [sundayMaintenance]);
+
+      expect(result.source).toBe("blackout");
+      expect(result.nextRunAt.toISOString()).toBe("2025-01-05T03:00:00.000Z");
+    });
+
+    it("leaves runs outside windows alone", () => {
+      const ep = makeEndpoint({ baselineIntervalMs: 3_600_000, blackoutWindows: [sundayMaintenance] });
+      const result = planNextRun(at("2025-01-04T00:30:00Z"), ep, stubCron);
+
+      expect(result.source).toBe("baseline-interval");
+      expect(result.nextRunAt.toISOString()).toBe("2025-01-04T01:30:00.000Z");
+    });
+
+    it("pause still wins", () => {
+      const ep = makeEndpoint({
+        baselineIntervalMs: 3_600_000,
+        blackoutWindows: [sundayMaintenance],
+        pausedUntil: at("2025-01-06T00:00:00Z"),
+      });
+      const result = planNextRun(at("2025-01-05T00:30:00Z"), ep, stubCron);
+
+      expect(result.source).toBe("paused");
+    });
+  });
 });
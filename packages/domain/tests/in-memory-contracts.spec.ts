@@ -0,0 +1,25 @@
+import { InMemoryJobsRepo, InMemoryRunsRepo } from "../src/index.js";
+import { testJobsRepoContract, testRunsRepoContract, testZombieRunLeaseContract } from "../src/testing/contracts.js";
+
+function makeClock() {
+  let now = new Date("2025-01-01T00:00:00Z");
+  return {
+    now: () => now,
+    setNow: (d: Date) => {
+      now = d;
+    },
+  };
+}
+
+testJobsRepoContract(() => {
+  const clock = makeClock();
+  return { repo: new InMemoryJobsRepo(clock.now), ...clock };
+});
+
+testRunsRepoContract(() => ({ repo: new InMemoryRunsRepo() }));
+
+testZombieRunLeaseContract(() => {
+  const clock = makeClock();
+  const jobs = new InMemoryJobsRepo(clock.now);
+  return { jobs, runs: new InMemoryRunsRepo(jobs), setNow: clock.setNow };
+});
@@ -0,0 +1,44 @@
+import { InMemoryAuditRepo, InMemoryOrganizationsRepo } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { OrgAccess } from "../../organizations/access.js";
+import { AuditLog } from "../log.js";
+import { AuditManager } from "../manager.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+const clock = { now: () => now, sleep: async () => {} };
+
+describe("auditManager", () => {
+  let audit: InMemoryAuditRepo;
+  let orgs: InMemoryOrganizationsRepo;
+  let orgId: string;
+
+  beforeEach(async () => {
+    audit = new InMemoryAuditRepo();
+    orgs = new InMemoryOrganizationsRepo();
+    orgId = (await orgs.createOrganization({ name: "Acme", ownerUserId: "owner" })).id;
+    await orgs.upsertMember(orgId, "viewer", "viewer");
+
+    const log = new AuditLog(audit, { type: "user", id: "owner", userId: "owner" }, clock);
+    await log.record({ tenantId: "owner", action: "job.created", jobId: "job-personal", after: { name: "Mine" } });
+    await log.record({ tenantId: orgId, action: "job.updated", jobId: "job-org", before: { name: "Old" }, after: { name: "New" } });
+  });
+
+  it("lists personal events by default", async () => {
+    const manager = new AuditManager(audit, new OrgAccess(orgs));
+
+    const { events, total } = await manager.listEvents("owner");
+
+    expect(total).toBe(1);
+    expect(events[0]).toMatchObject({ action: "job.created", changes: [{ field: "name", before: null, after: "Mine" }] });
+  });
+
+  it("lists an organization's events for its members", async () => {
+    const manager = new AuditManager(audit, new OrgAccess(orgs));
+
+    const { events } = await manager.listEvents("viewer", { orgId });
+
+    expect(events).toMatchObject([{ tenantId: orgId, action: "job.updated", actor: { id: "owner" } }]);
+    await expect(manager.listEvents("stranger", { orgId })).rejects.toThrow("Organization not found");
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Audit service module - recording and listing configuration changes.
+ */
+export * from "./log.js";
+export * from "./manager.js";
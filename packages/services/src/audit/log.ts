@@ -0,0 +1,48 @@
+import type { AuditAction, AuditActor, AuditRepo, Clock } from "@cronicorn/domain";
+
+import { diffAuditFields } from "@cronicorn/domain";
+
+/**
+ * AuditLog - records changes made by one actor.
+ *
+ * Built per request with the authenticated actor (user, API key or device token) and
+ * repos bound to the request's transaction, so a change and its audit event commit
+ * together. Managers take it as an optional dependency: without one nothing is recorded.
+ */
+export class AuditLog {
+  constructor(
+    private readonly repo: AuditRepo,
+    private readonly actor: AuditActor,
+    private readonly clock: Clock,
+  ) { }
+
+  /**
+   * Record a change as the before/after diff of the changed resource.
+   *
+   * @param input - The change
+   * @param input.tenantId - Owner of the changed resource (user or organization)
+   * @param input.action - What changed
+   * @param input.jobId - The changed job, or the changed endpoint's job
+   * @param input.endpointId - The changed endpoint
+   * @param input.before - The resource before the change (omit for creations)
+   * @param input.after - The resource after the change (omit for deletions)
+   */
+  async record(input: {
+    tenantId: string;
+    action: AuditAction;
+    jobId?: string;
+    endpointId?: string;
+    before?: object | null;
+    after?: object | null;
+  }): Promise<void> {
+    await this.repo.append({
+      tenantId: input.tenantId,
+      actor: this.actor,
+      action: input.action,
+      jobId: input.jobId,
+      endpointId: input.endpointId,
+      changes: diffAuditFields(input.before, input.after),
+      createdAt: this.clock.now(),
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import type { AuditEvent, AuditEventFilters, AuditRepo } from "@cronicorn/domain";
+
+import { OrgAccess } from "../organizations/access.js";
+
+/**
+ * AuditManager - reads the audit log.
+ *
+ * Events belong to the owner of the changed resource, so org members see the history
+ * of the organization's jobs (viewer role) and users see their personal history.
+ */
+export class AuditManager {
+  constructor(
+    private readonly repo: AuditRepo,
+    private readonly access: OrgAccess = new OrgAccess(),
+  ) { }
+
+  /**
+   * List audit events, newest first.
+   *
+   * @param userId - The requesting user
+   * @param filters - Optional filters; `orgId` lists an organization's events instead of personal ones
+   * @returns A page of events with the total matching count
+   */
+  async listEvents(
+    userId: string,
+    filters: AuditEventFilters & { orgId?: string } = {},
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    const { orgId, ...eventFilters } = filters;
+    const ownerId = await this.access.resolveOwner(userId, orgId, "viewer");
+    return this.repo.list(ownerId, eventFilters);
+  }
+}
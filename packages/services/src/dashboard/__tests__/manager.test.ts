@@ -42,13 +42,18 @@ describe("dashboardManager", () => {
       updateEndpoint: vi.fn(),
       claimDueEndpoints: vi.fn(),
       getEndpoint: vi.fn(),
-      setLock: vi.fn(),
-      clearLock: vi.fn(),
+      getEndpointByPingToken: vi.fn(),
+      getEndpointByTriggerTokenHash: vi.fn(),
+      renewLease: vi.fn(),
+      releaseLease: vi.fn(),
       setNextRunAtIfEarlier: vi.fn(),
       writeAIHint: vi.fn(),
       setPausedUntil: vi.fn(),
       clearAIHints: vi.fn(),
       resetFailureCount: vi.fn(),
+      requestManualRun: vi.fn(),
+      clearManualRun: vi.fn(),
+      setTriggerToken: vi.fn(),
       updateAfterRun: vi.fn(),
       listEndpointsByJob: vi.fn(),
       deleteEndpoint: vi.fn(),
@@ -65,6 +70,8 @@ describe("dashboardManager", () => {
     mockRunsRepo = {
       create: vi.fn(),
       finish: vi.fn(),
+      getOpenRun: vi.fn(),
+      listOpenRuns: vi.fn(),
       listRuns: vi.fn(),
       getRunDetails: vi.fn(),
       getHealthSummary: vi.fn(),
@@ -81,6 +88,7 @@ describe("dashboardManager", () => {
         failureCount: 0,
         avgDurationMs: null,
       }),
+      getJobLagPercentiles: vi.fn().mockResolvedValue([]),
       getSourceDistribution: vi.fn().mockResolvedValue([]),
       getRunTimeSeries: vi.fn().mockResolvedValue([]),
       getEndpointTimeSeries: vi.fn().mockResolvedValue([]),
@@ -214,6 +222,25 @@ describe("dashboardManager", () => {
       }));
     });
 
+    it("should return scheduling lag percentiles for the range", async () => {
+      vi.mocked(mockJobsRepo.listJobs).mockResolvedValue([]);
+      vi.mocked(mockJobsRepo.getEndpointCounts).mockResolvedValue({ total: 0, active: 0, paused: 0 });
+      vi.mocked(mockRunsRepo.listRuns).mockResolvedValue({ runs: [], total: 0 });
+      const lag = [{ jobId: "job-1", jobName: "Test Job", runCount: 40, p50LagMs: 120, p95LagMs: 900, p99LagMs: 4_000 }];
+      vi.mocked(mockRunsRepo.getJobLagPercentiles).mockResolvedValue(lag);
+
+      const range = dateRange(7);
+      const result = await manager.getDashboardStats("user-1", { ...range, source: "baseline-cron" });
+
+      expect(result.schedulingLag).toEqual(lag);
+      expect(mockRunsRepo.getJobLagPercentiles).toHaveBeenCalledWith(expect.objectContaining({
+        userId: "user-1",
+        source: "baseline-cron",
+        sinceDate: range.startDate,
+        untilDate: range.endDate,
+      }));
+    });
+
     it("should use daily buckets for a 30-day window", async () => {
       vi.mocked(mockJobsRepo.listJobs).mockResolvedValue([]);
       vi.mocked(mockJobsRepo.getEndpointCounts).mockResolvedValue({ total: 0, active: 0, paused: 0 });
@@ -1451,6 +1478,47 @@ describe("dashboardManager", () => {
       }));
     });
 
+    it("should list blackout periods of the job and its endpoints", async () => {
+      const job: Job = {
+        id: "job-123",
+        userId: "user-1",
+        name: "Sync",
+        status: "active",
+        blackoutWindows: [{ name: "Christmas", dates: ["2025-12-25"] }],
+        createdAt: baseDate,
+        updatedAt: baseDate,
+      };
+      const endpoint: JobEndpoint = {
+        id: "ep-1",
+        jobId: "job-123",
+        tenantId: "user-1",
+        name: "Endpoint 1",
+        baselineIntervalMs: 3_600_000,
+        blackoutWindows: [{ daysOfWeek: [0], startTime: "02:00", endTime: "04:00" }],
+        nextRunAt: baseDate,
+        failureCount: 0,
+      };
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.listEndpointsByJob).mockResolvedValue([endpoint]);
+
+      const result = await manager.getJobActivityTimeline("user-1", "job-123", {
+        startDate: new Date("2025-12-20T00:00:00Z"),
+        endDate: new Date("2025-12-27T00:00:00Z"),
+      });
+
+      expect(result.blackouts).toEqual([
+        { start: new Date("2025-12-21T02:00:00Z"), end: new Date("2025-12-21T04:00:00Z"), name: undefined, description: "Sun 02:00-04:00 (UTC)", endpointId: "ep-1", endpointName: "Endpoint 1" },
+        { start: new Date("2025-12-25T00:00:00Z"), end: new Date("2025-12-26T00:00:00Z"), name: "Christmas", description: "Christmas: 2025-12-25 all day (UTC)", endpointId: undefined, endpointName: undefined },
+      ]);
+    });
+
+    it("should return no blackout periods without a job", async () => {
+      const result = await manager.getJobActivityTimeline("user-1", undefined, dateRange(7));
+
+      expect(result.blackouts).toEqual([]);
+      expect(mockJobsRepo.listEndpointsByJob).not.toHaveBeenCalled();
+    });
+
     it("should default to 'all' when eventType is not specified", async () => {
       vi.mocked(mockRunsRepo.getJobRuns).mockResolvedValue({ runs: mockRuns, total: 2 });
       vi.mocked(mockSessionsRepo.getJobSessions).mockResolvedValue({ sessions: mockSessions, total: 2 });
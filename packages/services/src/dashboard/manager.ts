@@ -1,8 +1,11 @@
-import type { Clock, JobsRepo, RunsRepo, SessionsRepo } from "@cronicorn/domain";
+import type { BlackoutWindow, Clock, JobsRepo, RunsRepo, SessionsRepo } from "@cronicorn/domain";
+
+import { describeBlackoutWindow, listBlackoutPeriods } from "@cronicorn/domain";
 
 import type {
   ActivityEvent,
   AISessionTimeSeriesPoint,
+  BlackoutTimelinePeriod,
   DashboardStats,
   EndpointStats,
   EndpointTimeSeriesPoint,
@@ -13,6 +16,8 @@ import type {
   SuccessRateStats,
 } from "./types.js";
 
+import { OrgAccess } from "../organizations/access.js";
+
 /**
  * Calculate time bucket granularity based on date range span.
  * Targets ~24-36 data points for optimal chart visualization.
@@ -83,7 +88,7 @@ function getTimeGranularity(spanMs: number): {
  * - Aggregate data from multiple repos efficiently
  * - Calculate derived metrics (success rates, trends)
  * - Format data for dashboard consumption
- * - Authorization (userId-scoped queries)
+ * - Authorization (owner-scoped queries: the user, or an organization they belong to)
  *
  * **Performance**:
  * - Uses specialized repo queries that aggregate at DB level
@@ -109,6 +114,7 @@ export class DashboardManager {
     private readonly runsRepo: RunsRepo,
     private readonly sessionsRepo: SessionsRepo,
     private readonly clock: Clock,
+    private readonly access: OrgAccess = new OrgAccess(), // Org membership checks
   ) { }
 
   /**
@@ -121,6 +127,7 @@ export class DashboardManager {
    * @param options.startDate - Start date for filtering runs (required)
    * @param options.endDate - End date for filtering runs (required)
    * @param options.endpointLimit - Maximum number of endpoints in time-series (default: 20)
+   * @param options.orgId - Aggregate the organization's jobs instead of personal ones (optional)
    * @returns Aggregated dashboard statistics
    */
   async getDashboardStats(
@@ -131,9 +138,11 @@ export class DashboardManager {
       startDate: Date;
       endDate: Date;
       endpointLimit?: number;
+      orgId?: string;
     },
   ): Promise<DashboardStats> {
     const now = this.clock.now();
+    const ownerId = await this.resolveOwner(userId, options.jobId, options.orgId);
 
     // Calculate span for granularity and bucketing decisions
     const spanMs = options.endDate.getTime() - options.startDate.getTime();
@@ -144,7 +153,7 @@ export class DashboardManager {
 
     // Build filter object for queries
     const filters = {
-      userId,
+      userId: ownerId,
       jobId: options.jobId,
       source: options.source,
       sinceDate: options.startDate,
@@ -161,30 +170,32 @@ export class DashboardManager {
       recentActivity,
       jobHealth,
       filteredMetrics,
+      schedulingLag,
       sourceDistribution,
       runTimeSeries,
       endpointTimeSeries,
       aiSessionTimeSeries,
     ] = await Promise.all([
-      this.getJobsStats(userId),
-      this.getEndpointsStats(userId),
-      this.calculateOverallSuccessRate(userId, spanDays),
-      this.getRecentActivity(userId, now),
+      this.getJobsStats(ownerId),
+      this.getEndpointsStats(ownerId),
+      this.calculateOverallSuccessRate(ownerId, spanDays),
+      this.getRecentActivity(ownerId, now),
       // Aggregated queries - respects date range filter
-      this.runsRepo.getJobHealthDistribution(userId, { sinceDate: filters.sinceDate, untilDate: filters.untilDate }),
+      this.runsRepo.getJobHealthDistribution(ownerId, { sinceDate: filters.sinceDate, untilDate: filters.untilDate }),
       this.runsRepo.getFilteredMetrics(filters),
+      this.runsRepo.getJobLagPercentiles(filters),
       // sourceDistribution should NOT be filtered by source (only by jobId and date range)
       // This allows it to show the full distribution while other charts are filtered
       this.runsRepo.getSourceDistribution({
-        userId,
+        userId: ownerId,
         jobId: filters.jobId,
         sinceDate: filters.sinceDate,
         untilDate: filters.untilDate,
         // Explicitly omit source filter
       }),
-      this.getRunTimeSeries(userId, filters),
-      this.getEndpointTimeSeries(userId, { ...filters, endpointLimit: options.endpointLimit ?? 20 }),
-      this.getAISessionTimeSeries(userId, { ...filters, endpointLimit: options.endpointLimit ?? 20 }),
+      this.getRunTimeSeries(ownerId, filters),
+      this.getEndpointTimeSeries(ownerId, { ...filters, endpointLimit: options.endpointLimit ?? 20 }),
+      this.getAISessionTimeSeries(ownerId, { ...filters, endpointLimit: options.endpointLimit ?? 20 }),
     ]);
 
     // Calculate max stacked values for chart Y-axis domains
@@ -204,6 +215,7 @@ export class DashboardManager {
       recentActivity,
       jobHealth,
       filteredMetrics,
+      schedulingLag,
       sourceDistribution,
       runTimeSeries,
       endpointTimeSeries,
@@ -213,6 +225,22 @@ export class DashboardManager {
     };
   }
 
+  /**
+   * Owner whose data to aggregate: the job's owner when filtering by an accessible job,
+   * otherwise the user or the requested organization.
+   */
+  private async resolveOwner(userId: string, jobId: string | undefined, orgId: string | undefined): Promise<string> {
+    if (jobId) {
+      const job = await this.jobsRepo.getJob(jobId);
+      const jobOwnerId = job ? job.orgId ?? job.userId : undefined;
+      if (jobOwnerId && await this.access.check(userId, jobOwnerId, "viewer")) {
+        return jobOwnerId;
+      }
+    }
+    // An inaccessible job then matches nothing within this owner's data
+    return this.access.resolveOwner(userId, orgId, "viewer");
+  }
+
   /**
    * Get job statistics for a user.
    *
@@ -910,6 +938,44 @@ export class DashboardManager {
     return maxValue * 1.1;
   }
 
+  /**
+   * Blackout window occurrences of a job and its http endpoints within a date range,
+   * for display alongside the job's runs. Empty without a job.
+   *
+   * @param ownerId - The resolved owner (job must belong to it)
+   * @param jobId - The job ID
+   * @param startDate - Range start
+   * @param endDate - Range end
+   * @returns Periods ordered by start time (max 100)
+   */
+  private async getBlackoutPeriods(ownerId: string, jobId: string | undefined, startDate: Date, endDate: Date): Promise<BlackoutTimelinePeriod[]> {
+    if (!jobId)
+      return [];
+    const job = await this.jobsRepo.getJob(jobId);
+    if (!job || (job.orgId ?? job.userId) !== ownerId)
+      return [];
+
+    const endpoints = await this.jobsRepo.listEndpointsByJob(jobId);
+    const sources: Array<{ windows: BlackoutWindow[]; endpointId?: string; endpointName?: string }> = [
+      { windows: job.blackoutWindows ?? [] },
+      ...endpoints
+        .filter(ep => !ep.archivedAt && ep.kind !== "heartbeat")
+        .map(ep => ({ windows: ep.blackoutWindows ?? [], endpointId: ep.id, endpointName: ep.name })),
+    ];
+
+    const periods = sources.flatMap(({ windows, endpointId, endpointName }) =>
+      listBlackoutPeriods(windows, startDate, endDate).map(period => ({
+        start: period.start,
+        end: period.end,
+        name: period.window.name,
+        description: describeBlackoutWindow(period.window),
+        endpointId,
+        endpointName,
+      })),
+    );
+    return periods.sort((a, b) => a.start.getTime() - b.start.getTime()).slice(0, 100);
+  }
+
   /**
    * Get combined activity timeline for a job (or all jobs).
    * Merges runs and AI sessions into a single chronological timeline.
@@ -922,6 +988,7 @@ export class DashboardManager {
    * @param options.eventType - Filter by event type: 'all', 'runs', or 'sessions' (default: 'all')
    * @param options.limit - Maximum events to return (default: 50)
    * @param options.offset - Pagination offset (default: 0)
+   * @param options.orgId - Organization whose jobs to include when jobId is omitted (optional)
    * @returns Combined timeline of runs and AI sessions
    */
   async getJobActivityTimeline(
@@ -933,8 +1000,10 @@ export class DashboardManager {
       eventType?: "all" | "runs" | "sessions";
       limit?: number;
       offset?: number;
+      orgId?: string;
     },
   ): Promise<JobActivityTimeline> {
+    const ownerId = await this.resolveOwner(userId, jobId, options.orgId);
     const limit = Math.min(options.limit ?? 50, 100);
     const offset = options.offset ?? 0;
     const eventType = options.eventType ?? "all";
@@ -946,10 +1015,10 @@ export class DashboardManager {
     const shouldFetchRuns = eventType === "all" || eventType === "runs";
     const shouldFetchSessions = eventType === "all" || eventType === "sessions";
 
-    const [runsResult, sessionsResult] = await Promise.all([
+    const [runsResult, sessionsResult, blackouts] = await Promise.all([
       shouldFetchRuns
         ? this.runsRepo.getJobRuns({
-            userId,
+            userId: ownerId,
             jobId,
             sinceDate: options.startDate,
             untilDate: options.endDate,
@@ -959,7 +1028,7 @@ export class DashboardManager {
         : { runs: [], total: 0 },
       shouldFetchSessions
         ? this.sessionsRepo.getJobSessions({
-            userId,
+            userId: ownerId,
             jobId,
             sinceDate: options.startDate,
             untilDate: options.endDate,
@@ -967,6 +1036,7 @@ export class DashboardManager {
             offset: 0,
           })
         : { sessions: [], total: 0 },
+      this.getBlackoutPeriods(ownerId, jobId, options.startDate, options.endDate),
     ]);
 
     // Convert runs to activity events
@@ -1014,6 +1084,7 @@ export class DashboardManager {
 
     return {
       events: paginatedEvents,
+      blackouts,
       total: runsResult.total + sessionsResult.total,
       summary: {
         runsCount: runsInResponse.length,
@@ -53,6 +53,16 @@ export type FilteredMetrics = {
   avgDurationMs: number | null;
 };
 
+/** Scheduling lag percentiles of a job's runs: how long after they were due they started */
+export type JobLagItem = {
+  jobId: string;
+  jobName: string;
+  runCount: number;
+  p50LagMs: number;
+  p95LagMs: number;
+  p99LagMs: number;
+};
+
 export type SourceDistributionItem = {
   source: string;
   count: number;
@@ -73,6 +83,7 @@ export type DashboardStats = {
   recentActivity: RecentActivityStats;
   jobHealth: JobHealthItem[];
   filteredMetrics: FilteredMetrics;
+  schedulingLag: JobLagItem[];
   sourceDistribution: SourceDistributionItem[];
   runTimeSeries: RunTimeSeriesPoint[];
   endpointTimeSeries: EndpointTimeSeriesPoint[];
@@ -100,8 +111,20 @@ export type ActivityEvent = {
   warnings?: Array<{ code: string; message: string; meta?: Record<string, unknown> }>;
 };
 
+/** One occurrence of a job or endpoint blackout window within the timeline range */
+export type BlackoutTimelinePeriod = {
+  start: Date;
+  end: Date;
+  name?: string;
+  description: string;
+  // Unset for windows set on the job itself
+  endpointId?: string;
+  endpointName?: string;
+};
+
 export type JobActivityTimeline = {
   events: ActivityEvent[];
+  blackouts: BlackoutTimelinePeriod[];
   total: number;
   summary: {
     runsCount: number;
@@ -11,9 +11,15 @@
  * about HTTP, JSON-RPC, or other transport details.
  */
 
+export * from "./audit/log.js";
+export * from "./audit/manager.js";
 export * from "./dashboard/manager.js";
 export * from "./dashboard/types.js";
 export * from "./jobs/manager.js";
+export * from "./notifications/alerts.js";
+export * from "./notifications/manager.js";
+export * from "./organizations/access.js";
+export * from "./organizations/manager.js";
 export * from "./subscriptions/errors.js";
 export * from "./subscriptions/manager.js";
 export * from "./subscriptions/types.js";
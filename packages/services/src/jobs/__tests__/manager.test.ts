@@ -1,9 +1,12 @@
-import type { Clock, Cron, Job, JobEndpoint, JobsRepo, RunsRepo, SessionsRepo } from "@cronicorn/domain";
+import type { AuthProfilesRepo, Clock, ConcurrencyPolicy, Cron, Job, JobEndpoint, JobsRepo, MisfirePolicy, RunsRepo, SessionsRepo, TlsCredentialsRepo } from "@cronicorn/domain";
 
+import { FakeLogger, hashTriggerToken, InMemoryAuditRepo, InMemoryOrganizationsRepo, REPLACED_RUN_REASON } from "@cronicorn/domain";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import type { AddEndpointInput } from "../manager.js";
 
+import { AuditLog } from "../../audit/log.js";
+import { OrgAccess } from "../../organizations/access.js";
 import { JobsManager } from "../manager.js";
 
 /**
@@ -32,15 +35,20 @@ describe("jobsManager", () => {
       updateEndpoint: vi.fn(),
       claimDueEndpoints: vi.fn(),
       getEndpoint: vi.fn(),
-      setLock: vi.fn(),
-      clearLock: vi.fn(),
+      getEndpointByPingToken: vi.fn(),
+      getEndpointByTriggerTokenHash: vi.fn(),
+      renewLease: vi.fn(),
+      releaseLease: vi.fn(),
       setNextRunAtIfEarlier: vi.fn(),
       writeAIHint: vi.fn(),
       setPausedUntil: vi.fn(),
       clearAIHints: vi.fn(),
       resetFailureCount: vi.fn(),
+      requestManualRun: vi.fn(),
+      clearManualRun: vi.fn(),
+      setTriggerToken: vi.fn(),
       updateAfterRun: vi.fn(),
-      listEndpointsByJob: vi.fn(),
+      listEndpointsByJob: vi.fn().mockResolvedValue([]),
       deleteEndpoint: vi.fn(),
       archiveEndpoint: vi.fn(),
       countEndpointsByUser: vi.fn(),
@@ -53,6 +61,8 @@ describe("jobsManager", () => {
     mockRunsRepo = {
       create: vi.fn(),
       finish: vi.fn(),
+      getOpenRun: vi.fn(),
+      listOpenRuns: vi.fn(),
       listRuns: vi.fn(),
       getRunDetails: vi.fn(),
       getHealthSummary: vi.fn(),
@@ -69,6 +79,7 @@ describe("jobsManager", () => {
         failureCount: 0,
         avgDurationMs: null,
       }),
+      getJobLagPercentiles: vi.fn().mockResolvedValue([]),
       getSourceDistribution: vi.fn().mockResolvedValue([]),
       getRunTimeSeries: vi.fn().mockResolvedValue([]),
       getEndpointTimeSeries: vi.fn().mockResolvedValue([]),
@@ -109,6 +120,7 @@ describe("jobsManager", () => {
 
       expect(mockJobsRepo.createJob).toHaveBeenCalledWith({
         userId: "user-1",
+        orgId: null,
         name: "Test Job",
         status: "active",
       });
@@ -738,6 +750,168 @@ describe("jobsManager", () => {
     });
   });
 
+  describe("runNow", () => {
+    const actor = { type: "user" as const, id: "user-1", userId: "user-1" };
+    const endpoint: JobEndpoint = {
+      id: "ep-1",
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: "My Endpoint",
+      url: "https://example.com",
+      nextRunAt: new Date("2025-01-14T13:00:00Z"),
+      failureCount: 0,
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({
+        id: "job-1",
+        userId: "user-1",
+        name: "Job",
+        status: "active",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    it("stores a run-now request with the actor and overrides", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint);
+
+      const result = await manager.runNow("user-1", actor, "ep-1", { headersJson: { "X-Debug": "1" }, bodyJson: { dryRun: true } });
+
+      expect(result.requestedAt).toEqual(new Date("2025-01-14T12:00:00Z"));
+      expect(mockJobsRepo.requestManualRun).toHaveBeenCalledWith("ep-1", {
+        id: result.requestId,
+        requestedAt: new Date("2025-01-14T12:00:00Z"),
+        requestedBy: actor,
+        headersJson: { "X-Debug": "1" },
+        bodyJson: { dryRun: true },
+      });
+    });
+
+    it("rejects endpoints the scheduler wouldn't run", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...endpoint, kind: "heartbeat" });
+      await expect(manager.runNow("user-1", actor, "ep-1")).rejects.toThrow(/ping URL/);
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...endpoint, pausedUntil: new Date("2025-01-15T00:00:00Z") });
+      await expect(manager.runNow("user-1", actor, "ep-1")).rejects.toThrow(/paused until/);
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint);
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({ id: "job-1", userId: "user-1", name: "Job", status: "paused", createdAt: new Date(), updatedAt: new Date() });
+      await expect(manager.runNow("user-1", actor, "ep-1")).rejects.toThrow("Cannot run an endpoint of a paused job");
+
+      expect(mockJobsRepo.requestManualRun).not.toHaveBeenCalled();
+    });
+
+    it("rejects overrides with invalid templates", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint);
+
+      await expect(manager.runNow("user-1", actor, "ep-1", { bodyJson: { id: "{{ run.id" } })).rejects.toThrow(/Invalid template/);
+    });
+
+    it("rejects unauthorized access", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...endpoint, tenantId: "user-2" });
+
+      await expect(manager.runNow("user-1", actor, "ep-1")).rejects.toThrow("Endpoint not found or unauthorized");
+    });
+  });
+
+  describe("trigger tokens", () => {
+    const endpoint: JobEndpoint = {
+      id: "ep-1",
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: "Cache Warm",
+      url: "https://example.com/warm",
+      method: "POST",
+      nextRunAt: new Date("2025-01-14T13:00:00Z"),
+      failureCount: 0,
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({
+        id: "job-1",
+        userId: "user-1",
+        name: "Job",
+        status: "active",
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+    });
+
+    it("creates a token and stores only its hash", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint);
+
+      const result = await manager.createTriggerToken("user-1", "ep-1");
+
+      expect(result.token).toMatch(/^trg_/);
+      expect(result.tokenPrefix).toBe(result.token.slice(0, 12));
+      expect(mockJobsRepo.setTriggerToken).toHaveBeenCalledWith("ep-1", {
+        hash: hashTriggerToken(result.token),
+        prefix: result.tokenPrefix,
+        createdAt: new Date("2025-01-14T12:00:00Z"),
+      });
+    });
+
+    it("refuses a second token and heartbeat endpoints", async () => {
+      const triggerToken = { hash: "a".repeat(64), prefix: "trg_abcdefgh", createdAt: new Date("2025-01-01T00:00:00Z") };
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...endpoint, triggerToken });
+      await expect(manager.createTriggerToken("user-1", "ep-1")).rejects.toThrow(/already exists/);
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...endpoint, kind: "heartbeat" });
+      await expect(manager.createTriggerToken("user-1", "ep-1")).rejects.toThrow(/ping URL/);
+
+      expect(mockJobsRepo.setTriggerToken).not.toHaveBeenCalled();
+    });
+
+    it("rotates and revokes an existing token", async () => {
+      const triggerToken = { hash: "a".repeat(64), prefix: "trg_abcdefgh", createdAt: new Date("2025-01-01T00:00:00Z") };
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...endpoint, triggerToken });
+
+      const rotated = await manager.rotateTriggerToken("user-1", "ep-1");
+      expect(mockJobsRepo.setTriggerToken).toHaveBeenCalledWith("ep-1", {
+        hash: hashTriggerToken(rotated.token),
+        prefix: rotated.tokenPrefix,
+        createdAt: triggerToken.createdAt,
+        rotatedAt: new Date("2025-01-14T12:00:00Z"),
+      });
+
+      await manager.revokeTriggerToken("user-1", "ep-1");
+      expect(mockJobsRepo.setTriggerToken).toHaveBeenLastCalledWith("ep-1", null);
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint);
+      await expect(manager.rotateTriggerToken("user-1", "ep-1")).rejects.toThrow("Trigger token not found");
+      await expect(manager.revokeTriggerToken("user-1", "ep-1")).rejects.toThrow("Trigger token not found");
+    });
+
+    it("requests a trigger run with the payload", async () => {
+      vi.mocked(mockJobsRepo.getEndpointByTriggerTokenHash).mockResolvedValue(endpoint);
+
+      const result = await manager.requestTriggeredRun("trg_secret", { sha: "abc123" });
+
+      expect(mockJobsRepo.getEndpointByTriggerTokenHash).toHaveBeenCalledWith(hashTriggerToken("trg_secret"));
+      expect(mockJobsRepo.requestManualRun).toHaveBeenCalledWith("ep-1", {
+        id: result.requestId,
+        requestedAt: new Date("2025-01-14T12:00:00Z"),
+        source: "trigger",
+        payloadJson: { sha: "abc123" },
+      });
+    });
+
+    it("rejects unknown tokens, templated payloads and exhausted run limits", async () => {
+      vi.mocked(mockJobsRepo.getEndpointByTriggerTokenHash).mockResolvedValue(null);
+      await expect(manager.requestTriggeredRun("trg_nope")).rejects.toThrow("Trigger not found");
+
+      vi.mocked(mockJobsRepo.getEndpointByTriggerTokenHash).mockResolvedValue(endpoint);
+      await expect(manager.requestTriggeredRun("trg_secret", { key: "{{ secrets.API_KEY }}" })).rejects.toThrow(/can't contain templates/);
+
+      vi.mocked(mockRunsRepo.getFilteredMetrics).mockResolvedValue({ totalRuns: 10_000, successCount: 0, failureCount: 0, avgDurationMs: null });
+      await expect(manager.requestTriggeredRun("trg_secret")).rejects.toThrow(/Monthly run limit reached/);
+
+      expect(mockJobsRepo.requestManualRun).not.toHaveBeenCalled();
+    });
+  });
+
   // ==================== Execution Visibility Tests ====================
 
   describe("listRuns", () => {
@@ -756,10 +930,31 @@ describe("jobsManager", () => {
       };
 
       vi.mocked(mockRunsRepo.listRuns).mockResolvedValue(mockResult);
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Test Endpoint",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
 
       const result = await manager.listRuns("user-1", { endpointId: "ep-1", limit: 20, offset: 10 });
 
       expect(result.total).toBe(42);
+      expect(mockRunsRepo.listRuns).toHaveBeenCalledWith({ userId: "user-1", endpointId: "ep-1", limit: 20, offset: 10 });
+    });
+
+    it("returns no runs for an endpoint the user can't see", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        tenantId: "user-2",
+        name: "Someone else's endpoint",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+
+      expect(await manager.listRuns("user-1", { endpointId: "ep-1" })).toEqual({ runs: [], total: 0 });
+      expect(mockRunsRepo.listRuns).not.toHaveBeenCalled();
     });
   });
 
@@ -1019,6 +1214,147 @@ describe("jobsManager", () => {
       expect(mockJobsRepo.addEndpoint).toHaveBeenCalled();
     });
 
+    it("passes timezone to cron when creating cron-based endpoint", async () => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(mockJob);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+      vi.mocked(mockJobsRepo.addEndpoint).mockResolvedValue(undefined);
+      const nextSpy = vi.spyOn(fakeCron, "next");
+
+      const result = await manager.addEndpointToJob("user-1", {
+        name: "Zoned Cron Endpoint",
+        jobId: "job-1",
+        baselineCron: "0 9 * * *",
+        timezone: "America/New_York",
+        url: "https://example.com",
+        method: "GET",
+      });
+
+      expect(result.timezone).toBe("America/New_York");
+      expect(nextSpy).toHaveBeenCalledWith("0 9 * * *", expect.any(Date), "America/New_York");
+    });
+
+    it("rejects invalid timezone", async () => {
+      await expect(
+        manager.addEndpointToJob("user-1", {
+          name: "Test",
+          jobId: "job-1",
+          baselineCron: "0 9 * * *",
+          timezone: "Mars/Olympus_Mons",
+          url: "https://example.com",
+          method: "GET",
+        }),
+      ).rejects.toThrow("Invalid timezone");
+    });
+
+    it("stores a retry policy on the endpoint", async () => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(mockJob);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+      vi.mocked(mockJobsRepo.addEndpoint).mockResolvedValue(undefined);
+
+      const result = await manager.addEndpointToJob("user-1", {
+        name: "Flaky Endpoint",
+        jobId: "job-1",
+        baselineIntervalMs: 60_000,
+        url: "https://example.com",
+        method: "GET",
+        retryPolicy: { maxAttempts: 3, backoff: "exponential", initialDelayMs: 1000, retryOnStatusCodes: [503] },
+      });
+
+      expect(result.retryPolicy).toEqual({ maxAttempts: 3, backoff: "exponential", initialDelayMs: 1000, retryOnStatusCodes: [503] });
+      expect(mockJobsRepo.addEndpoint).toHaveBeenCalledWith(expect.objectContaining({ retryPolicy: result.retryPolicy }));
+    });
+
+    it("rejects retry policies outside the allowed bounds", async () => {
+      const base = {
+        name: "Test",
+        jobId: "job-1",
+        baselineIntervalMs: 60_000,
+        url: "https://example.com",
+        method: "GET" as const,
+      };
+
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, retryPolicy: { maxAttempts: 0, backoff: "fixed", initialDelayMs: 100 } }),
+      ).rejects.toThrow("Retry maxAttempts must be an integer between 1 and 10");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, retryPolicy: { maxAttempts: 3, backoff: "fixed", initialDelayMs: 5000, maxDelayMs: 1000 } }),
+      ).rejects.toThrow("Retry maxDelayMs must be at least initialDelayMs");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, retryPolicy: { maxAttempts: 3, backoff: "fixed", initialDelayMs: 100, retryOnStatusCodes: [700] } }),
+      ).rejects.toThrow("Retry status codes must be HTTP status codes");
+    });
+
+    it("stores success criteria and rejects invalid ones", async () => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(mockJob);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+      vi.mocked(mockJobsRepo.addEndpoint).mockResolvedValue(undefined);
+      const base = {
+        name: "Health",
+        jobId: "job-1",
+        baselineIntervalMs: 60_000,
+        url: "https://example.com/health",
+        method: "GET" as const,
+      };
+
+      const result = await manager.addEndpointToJob("user-1", {
+        ...base,
+        successCriteria: { statusCodes: ["2xx", "304"], maxLatencyMs: 2000, assertions: [{ path: "$.status", operator: "equals", value: "ok" }] },
+      });
+      expect(result.successCriteria?.statusCodes).toEqual(["2xx", "304"]);
+
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, successCriteria: { statusCodes: ["2xxx"] } }),
+      ).rejects.toThrow("Invalid accepted status \"2xxx\"");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, successCriteria: { assertions: [{ path: "$..status", operator: "exists" }] } }),
+      ).rejects.toThrow("Invalid assertion path");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, successCriteria: { assertions: [{ path: "$.n", operator: "gt", value: "5" }] } }),
+      ).rejects.toThrow("requires a numeric value");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, successCriteria: { assertions: [{ path: "$.s", operator: "matches", value: "(" }] } }),
+      ).rejects.toThrow("invalid regular expression");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, successCriteria: { assertions: [{ path: "$.s", operator: "matches", value: "^(a+)+$" }] } }),
+      ).rejects.toThrow("Assertion \"matches\" on $.s nests quantifiers");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, successCriteria: { assertions: [{ path: "$.s", operator: "matches", value: "(\\w)\\1" }] } }),
+      ).rejects.toThrow("uses a backreference");
+    });
+
+    it("validates request templates on create and update", async () => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(mockJob);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+      vi.mocked(mockJobsRepo.addEndpoint).mockResolvedValue(undefined);
+      const base = {
+        name: "Transform",
+        jobId: "job-1",
+        baselineIntervalMs: 60_000,
+        url: "https://example.com/batches/{{ endpoints.extract.lastResponse.batch_id }}",
+        method: "POST" as const,
+      };
+
+      const result = await manager.addEndpointToJob("user-1", { ...base, bodyJson: { at: "{{ now | iso }}", run: "{{ run.id }}" } });
+      expect(result.url).toBe(base.url);
+
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, headersJson: { "X-Batch": "{{ endpoints.extract.lastResponse.id" } }),
+      ).rejects.toThrow("Invalid template in headersJson.X-Batch: Unclosed template tag");
+      await expect(
+        manager.addEndpointToJob("user-1", { ...base, bodyJson: { at: "{{ now | upper }}" } }),
+      ).rejects.toThrow("Invalid template in bodyJson.at: Unknown filter \"upper\"");
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ ...result, id: "ep-1", tenantId: "user-1" });
+      await expect(
+        manager.updateEndpointConfig("user-1", "ep-1", { url: "https://example.com/{{ job.id }}" }),
+      ).rejects.toThrow("Invalid template in url: Unknown template variable \"job\"");
+      expect(mockJobsRepo.updateEndpoint).not.toHaveBeenCalled();
+    });
+
     it("rejects endpoint creation for unauthorized job", async () => {
       vi.mocked(mockJobsRepo.getJob).mockResolvedValue(null);
 
@@ -1279,6 +1615,7 @@ describe("jobsManager", () => {
         tokenUsage: 100,
         durationMs: 500,
         warnings: [],
+        traceId: null,
       });
       vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
         id: "ep-1",
@@ -1364,6 +1701,48 @@ describe("jobsManager", () => {
     });
   });
 
+  describe("renderTestRequest", () => {
+    const endpoint: JobEndpoint = {
+      id: "ep-1",
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: "transform",
+      baselineIntervalMs: 60_000,
+      nextRunAt: new Date("2025-01-15T00:00:00Z"),
+      failureCount: 0,
+      url: "https://example.com/batches/{{ endpoints.extract.lastResponse.batch_id }}",
+      headersJson: { "X-Run-Id": "{{ run.id }}" },
+    };
+
+    it("renders templates against sibling responses", async () => {
+      vi.mocked(mockRunsRepo.getSiblingLatestResponses).mockResolvedValue([
+        { endpointId: "ep-0", endpointName: "extract", responseBody: { batch_id: "b-1" }, timestamp: new Date("2025-01-14T23:00:00Z"), status: "success" },
+      ]);
+
+      const rendered = await manager.renderTestRequest(endpoint);
+
+      expect(mockRunsRepo.getSiblingLatestResponses).toHaveBeenCalledWith("job-1", "ep-1");
+      expect(rendered).toEqual({
+        endpoint: { ...endpoint, url: "https://example.com/batches/b-1", headersJson: { "X-Run-Id": "test" } },
+      });
+    });
+
+    it("returns the template error when a value doesn't resolve", async () => {
+      vi.mocked(mockRunsRepo.getSiblingLatestResponses).mockResolvedValue([]);
+
+      await expect(manager.renderTestRequest(endpoint)).resolves.toEqual({
+        error: "Template error: url: \"endpoints.extract.lastResponse.batch_id\" did not resolve",
+      });
+    });
+
+    it("skips sibling lookups for endpoints without templates", async () => {
+      const plain = { ...endpoint, url: "https://example.com/batches", headersJson: undefined };
+
+      await expect(manager.renderTestRequest(plain)).resolves.toEqual({ endpoint: plain });
+      expect(mockRunsRepo.getSiblingLatestResponses).not.toHaveBeenCalled();
+    });
+  });
+
   describe("recordTestRun", () => {
     it("creates and finishes test run", async () => {
       vi.mocked(mockRunsRepo.create).mockResolvedValue("run-test-1");
@@ -1411,6 +1790,37 @@ describe("jobsManager", () => {
       expect(result.status).toBe("failed");
       expect(result.errorMessage).toBe("Connection timeout");
     });
+
+    it("records the failed success criterion as error details", async () => {
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-test-3");
+      vi.mocked(mockRunsRepo.finish).mockResolvedValue(undefined);
+      const criteriaFailure = { criterion: "latency" as const, maxLatencyMs: 100, actualMs: 250 };
+
+      await manager.recordTestRun("ep-1", {
+        status: "failed",
+        durationMs: 250,
+        statusCode: 200,
+        errorMessage: "Response took 250ms, exceeding max latency of 100ms",
+        criteriaFailure,
+      });
+
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-test-3", expect.objectContaining({ errorDetails: criteriaFailure }));
+    });
+
+    it("records auth profile token failures as error details", async () => {
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-test-4");
+      vi.mocked(mockRunsRepo.finish).mockResolvedValue(undefined);
+      const authFailure = { authProfile: "billing", tokenStatusCode: 401, oauthError: "invalid_client" };
+
+      await manager.recordTestRun("ep-1", {
+        status: "failed",
+        durationMs: 0,
+        errorMessage: "OAuth2 token request for auth profile \"billing\" failed: HTTP 401: invalid_client",
+        authFailure,
+      });
+
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-test-4", expect.objectContaining({ errorDetails: authFailure }));
+    });
   });
 
   describe("getUsage", () => {
@@ -1477,6 +1887,7 @@ describe("jobsManager", () => {
         tokenUsage: 100,
         durationMs: 500,
         warnings: [],
+        traceId: "4bf92f3577b34da6a3ce929d0e0e4736",
       };
       const mockEndpoint: JobEndpoint = {
         id: "ep-1",
@@ -1647,6 +2058,86 @@ describe("jobsManager", () => {
       );
     });
 
+    it("recalculates nextRunAt in the new zone when only timezone changes", async () => {
+      const existingEndpoint: JobEndpoint = {
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Endpoint",
+        baselineCron: "0 9 * * *",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      };
+      const updatedEndpoint: JobEndpoint = { ...existingEndpoint, timezone: "Asia/Tokyo" };
+      const nextSpy = vi.spyOn(fakeCron, "next");
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(existingEndpoint);
+      vi.mocked(mockJobsRepo.updateEndpoint).mockResolvedValue(updatedEndpoint);
+
+      await manager.updateEndpointConfig("user-1", "ep-1", { timezone: "Asia/Tokyo" });
+
+      expect(nextSpy).toHaveBeenCalledWith("0 9 * * *", expect.any(Date), "Asia/Tokyo");
+      expect(mockJobsRepo.updateEndpoint).toHaveBeenCalledWith(
+        "ep-1",
+        expect.objectContaining({ timezone: "Asia/Tokyo", nextRunAt: expect.any(Date) }),
+      );
+    });
+
+    it.each([null, ""])("clears the timezone with %j and recalculates nextRunAt in UTC", async (timezone) => {
+      const existingEndpoint: JobEndpoint = {
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Endpoint",
+        baselineCron: "0 9 * * *",
+        timezone: "Asia/Tokyo",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      };
+      const nextSpy = vi.spyOn(fakeCron, "next");
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(existingEndpoint);
+      vi.mocked(mockJobsRepo.updateEndpoint).mockResolvedValue({ ...existingEndpoint, timezone: undefined });
+
+      await manager.updateEndpointConfig("user-1", "ep-1", { timezone });
+
+      expect(nextSpy).toHaveBeenCalledWith("0 9 * * *", expect.any(Date), undefined);
+      expect(mockJobsRepo.updateEndpoint).toHaveBeenCalledWith(
+        "ep-1",
+        expect.objectContaining({ timezone: "", nextRunAt: expect.any(Date) }),
+      );
+    });
+
+    it("rejects invalid timezone on update", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Endpoint",
+        baselineCron: "0 9 * * *",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+
+      await expect(
+        manager.updateEndpointConfig("user-1", "ep-1", { timezone: "Not/AZone" }),
+      ).rejects.toThrow("Invalid timezone");
+      expect(mockJobsRepo.updateEndpoint).not.toHaveBeenCalled();
+    });
+
+    it("rejects an invalid retry policy on update", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Endpoint",
+        baselineIntervalMs: 60_000,
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+
+      await expect(
+        manager.updateEndpointConfig("user-1", "ep-1", { retryPolicy: { maxAttempts: 50, backoff: "fixed", initialDelayMs: 100 } }),
+      ).rejects.toThrow("Retry maxAttempts");
+      expect(mockJobsRepo.updateEndpoint).not.toHaveBeenCalled();
+    });
+
     it("recalculates nextRunAt when interval changes", async () => {
       const existingEndpoint: JobEndpoint = {
         id: "ep-1",
@@ -1826,4 +2317,698 @@ describe("jobsManager", () => {
       );
     });
   });
+
+  // ==================== Heartbeat Tests ====================
+
+  describe("heartbeat endpoints", () => {
+    const heartbeat: JobEndpoint = {
+      id: "ep-hb",
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: "Nightly backup",
+      kind: "heartbeat",
+      baselineIntervalMs: 3_600_000,
+      graceMs: 600_000,
+      pingToken: "tok-123",
+      nextRunAt: new Date("2025-01-14T12:30:00Z"),
+      failureCount: 2,
+    };
+
+    it("creates a heartbeat with a ping token and a check-in deadline instead of a URL", async () => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({ id: "job-1", userId: "user-1", name: "Ops", status: "active", createdAt: new Date(), updatedAt: new Date() });
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+
+      const result = await manager.addEndpointToJob("user-1", {
+        name: "Nightly backup",
+        jobId: "job-1",
+        kind: "heartbeat",
+        baselineIntervalMs: 3_600_000,
+        graceMs: 600_000,
+      });
+
+      expect(result.kind).toBe("heartbeat");
+      expect(result.url).toBeUndefined();
+      expect(result.pingToken).toMatch(/^[\w-]{32}$/);
+      expect(result.nextRunAt).toEqual(new Date("2025-01-14T13:10:00Z")); // interval + grace
+    });
+
+    it("rejects invalid grace periods and graceMs on http endpoints", async () => {
+      await expect(
+        manager.addEndpointToJob("user-1", { name: "hb", jobId: "job-1", kind: "heartbeat", baselineIntervalMs: 60_000, graceMs: -1 }),
+      ).rejects.toThrow("Heartbeat graceMs must be an integer");
+      await expect(
+        manager.addEndpointToJob("user-1", { name: "http", jobId: "job-1", baselineIntervalMs: 60_000, url: "https://example.com", graceMs: 1000 }),
+      ).rejects.toThrow("graceMs only applies to heartbeat endpoints");
+    });
+
+    it("refuses to change the kind or set request fields on a heartbeat", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(heartbeat);
+
+      await expect(manager.updateEndpointConfig("user-1", "ep-hb", { kind: "http" })).rejects.toThrow("Endpoint kind can't be changed");
+      await expect(manager.updateEndpointConfig("user-1", "ep-hb", { url: "https://example.com" })).rejects.toThrow("Heartbeat endpoints don't make requests: url can't be set");
+    });
+
+    it("rejects schedule hints, which would pull the check-in deadline in", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(heartbeat);
+
+      await expect(manager.applyIntervalHint("user-1", "ep-hb", { intervalMs: 60_000 })).rejects.toThrow("Schedule hints don't apply to heartbeat endpoints");
+      await expect(manager.scheduleOneShotRun("user-1", "ep-hb", { nextRunInMs: 60_000 })).rejects.toThrow("Schedule hints don't apply to heartbeat endpoints");
+      expect(mockJobsRepo.setNextRunAtIfEarlier).not.toHaveBeenCalled();
+    });
+
+    it("restarts the check-in deadline when the grace period changes", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(heartbeat);
+
+      await manager.updateEndpointConfig("user-1", "ep-hb", { graceMs: 60_000 });
+
+      expect(mockJobsRepo.updateEndpoint).toHaveBeenCalledWith("ep-hb", {
+        graceMs: 60_000,
+        nextRunAt: new Date("2025-01-14T13:01:00Z"),
+      });
+    });
+
+    it("records a success check-in and moves the deadline out", async () => {
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(heartbeat);
+      vi.mocked(mockRunsRepo.getOpenRun).mockResolvedValue(null);
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-1");
+
+      const result = await manager.recordCheckIn("tok-123", "success", "{\"rows\":42}");
+
+      expect(result).toEqual({ runId: "run-1", status: "success" });
+      expect(mockRunsRepo.create).toHaveBeenCalledWith(expect.objectContaining({ endpointId: "ep-hb", source: "heartbeat" }));
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-1", { status: "success", durationMs: 0, responseBody: { rows: 42 }, err: undefined });
+      expect(mockJobsRepo.updateAfterRun).toHaveBeenCalledWith("ep-hb", expect.objectContaining({
+        lastRunAt: new Date("2025-01-14T12:00:00Z"),
+        nextRunAt: new Date("2025-01-14T13:10:00Z"),
+        failureCountPolicy: "reset",
+      }));
+    });
+
+    it("closes the run opened by a start check-in and notifies subscribers of failures", async () => {
+      const events = { runFinished: vi.fn().mockResolvedValue(undefined), endpointPaused: vi.fn() };
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, events);
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(heartbeat);
+      vi.mocked(mockRunsRepo.getOpenRun).mockResolvedValue({ id: "run-start", startedAt: new Date("2025-01-14T11:55:00Z") });
+
+      const result = await manager.recordCheckIn("tok-123", "fail");
+
+      expect(result).toEqual({ runId: "run-start", status: "failed" });
+      expect(mockRunsRepo.create).not.toHaveBeenCalled();
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-start", expect.objectContaining({ status: "failed", durationMs: 300_000, err: "Check-in reported failure" }));
+      expect(mockJobsRepo.updateAfterRun).toHaveBeenCalledWith("ep-hb", expect.objectContaining({ failureCountPolicy: "increment" }));
+      expect(events.runFinished).toHaveBeenCalledWith(expect.objectContaining({ runId: "run-start", status: "failed", failureCount: 3 }));
+    });
+
+    it("keeps a recorded check-in when a subscriber fails", async () => {
+      const events = { runFinished: vi.fn().mockRejectedValue(new Error("SMTP down")), endpointPaused: vi.fn() };
+      const logger = new FakeLogger();
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, events, undefined, undefined, undefined, undefined, logger);
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(heartbeat);
+      vi.mocked(mockRunsRepo.getOpenRun).mockResolvedValue(null);
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-1");
+
+      expect(await manager.recordCheckIn("tok-123", "fail")).toEqual({ runId: "run-1", status: "failed" });
+      expect(logger.getLogsByLevel("error")).toEqual([expect.objectContaining({ obj: expect.objectContaining({ runId: "run-1" }), msg: "Endpoint event subscriber failed" })]);
+    });
+
+    it("opens a running run on start without touching the schedule", async () => {
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(heartbeat);
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-start");
+
+      const result = await manager.recordCheckIn("tok-123", "start");
+
+      expect(result).toEqual({ runId: "run-start", status: "running" });
+      expect(mockRunsRepo.finish).not.toHaveBeenCalled();
+      expect(mockJobsRepo.updateAfterRun).not.toHaveBeenCalled();
+    });
+
+    it("fails a run still open from an earlier start before opening a new one", async () => {
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(heartbeat);
+      vi.mocked(mockRunsRepo.getOpenRun).mockResolvedValue({ id: "run-stale", startedAt: new Date("2025-01-14T11:00:00Z") });
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-start");
+
+      const result = await manager.recordCheckIn("tok-123", "start");
+
+      expect(result).toEqual({ runId: "run-start", status: "running" });
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-stale", {
+        status: "failed",
+        durationMs: 3_600_000,
+        err: "Started at 2025-01-14T11:00:00.000Z but a new start check-in arrived before a completion check-in",
+      });
+      expect(mockJobsRepo.updateAfterRun).not.toHaveBeenCalled();
+    });
+
+    it("rejects unknown tokens", async () => {
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(null);
+
+      await expect(manager.recordCheckIn("nope", "success")).rejects.toThrow("Heartbeat endpoint not found");
+    });
+  });
+  describe("endpoint dependencies", () => {
+    const job: Job = { id: "job-1", userId: "user-1", name: "ETL", status: "active", createdAt: new Date(), updatedAt: new Date() };
+    const endpoint = (id: string, overrides: Partial<JobEndpoint> = {}): JobEndpoint => ({
+      id,
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: id,
+      baselineIntervalMs: 86_400_000,
+      url: `https://example.com/${id}`,
+      nextRunAt: new Date("2025-01-15T00:00:00Z"),
+      failureCount: 0,
+      ...overrides,
+    });
+    const extract = endpoint("extract");
+    const transform = endpoint("transform", { runAfter: { upstreamIds: ["extract"], mode: "all" } });
+    const load = endpoint("load", { runAfter: { upstreamIds: ["transform"], mode: "all" } });
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+      vi.mocked(mockJobsRepo.listEndpointsByJob).mockResolvedValue([extract, transform, load]);
+    });
+
+    it("adds an endpoint that runs after upstreams in the same job", async () => {
+      const result = await manager.addEndpointToJob("user-1", {
+        name: "report",
+        jobId: "job-1",
+        baselineIntervalMs: 86_400_000,
+        url: "https://example.com/report",
+        runAfter: { upstreamIds: ["load"], mode: "all", delayMs: 60_000 },
+      });
+
+      expect(result.runAfter).toEqual({ upstreamIds: ["load"], mode: "all", delayMs: 60_000 });
+      expect(mockJobsRepo.addEndpoint).toHaveBeenCalledWith(expect.objectContaining({ runAfter: result.runAfter }));
+    });
+
+    it("rejects upstreams outside the job and invalid settings", async () => {
+      const input = { name: "report", jobId: "job-1", baselineIntervalMs: 86_400_000, url: "https://example.com/report" };
+
+      await expect(manager.addEndpointToJob("user-1", { ...input, runAfter: { upstreamIds: ["elsewhere"], mode: "all" } }))
+        .rejects
+        .toThrow("Upstream endpoint \"elsewhere\" not found in this job");
+      await expect(manager.addEndpointToJob("user-1", { ...input, runAfter: { upstreamIds: ["load", "load"], mode: "all" } }))
+        .rejects
+        .toThrow("Upstream endpoints must not repeat");
+      await expect(manager.addEndpointToJob("user-1", { ...input, runAfter: { upstreamIds: ["load"], mode: "all", delayMs: -1 } }))
+        .rejects
+        .toThrow("Dependency delayMs must be an integer");
+      await expect(manager.addEndpointToJob("user-1", { name: "hb", jobId: "job-1", kind: "heartbeat", baselineIntervalMs: 60_000, runAfter: { upstreamIds: ["load"], mode: "all" } }))
+        .rejects
+        .toThrow("Heartbeat endpoints can't depend on other endpoints");
+      expect(mockJobsRepo.addEndpoint).not.toHaveBeenCalled();
+    });
+
+    it("rejects updates that would create a cycle", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(extract);
+
+      await expect(manager.updateEndpointConfig("user-1", "extract", { runAfter: { upstreamIds: ["load"], mode: "any" } }))
+        .rejects
+        .toThrow("Dependency cycle: extract → transform → load → extract");
+      await expect(manager.updateEndpointConfig("user-1", "extract", { runAfter: { upstreamIds: ["extract"], mode: "all" } }))
+        .rejects
+        .toThrow("An endpoint can't depend on itself");
+      expect(mockJobsRepo.updateEndpoint).not.toHaveBeenCalled();
+    });
+
+    it("clears dependencies with an empty upstream list", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(load);
+
+      await manager.updateEndpointConfig("user-1", "load", { runAfter: { upstreamIds: [], mode: "all" } });
+
+      expect(mockJobsRepo.updateEndpoint).toHaveBeenCalledWith("load", { runAfter: { upstreamIds: [], mode: "all" } });
+    });
+
+    it("removes a deleted endpoint from its dependents' upstreams", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(transform);
+
+      await manager.deleteEndpoint("user-1", "transform");
+
+      expect(mockJobsRepo.updateEndpoint).toHaveBeenCalledWith("load", { runAfter: { upstreamIds: [], mode: "all" } });
+      expect(mockJobsRepo.deleteEndpoint).toHaveBeenCalledWith("transform");
+    });
+
+    it("triggers dependents of a heartbeat on a successful check-in", async () => {
+      const backup = endpoint("backup", { kind: "heartbeat", pingToken: "tok-1", url: undefined, lastRunAt: new Date("2025-01-13T00:00:00Z") });
+      const verify = endpoint("verify", { lastRunAt: new Date("2025-01-13T00:05:00Z"), runAfter: { upstreamIds: ["backup"], mode: "all", delayMs: 30_000 } });
+      vi.mocked(mockJobsRepo.getEndpointByPingToken).mockResolvedValue(backup);
+      vi.mocked(mockJobsRepo.listEndpointsByJob).mockResolvedValue([backup, verify]);
+      vi.mocked(mockRunsRepo.getOpenRun).mockResolvedValue(null);
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-1");
+
+      await manager.recordCheckIn("tok-1", "success");
+      expect(mockJobsRepo.setNextRunAtIfEarlier).toHaveBeenCalledWith("verify", new Date("2025-01-14T12:00:30Z"));
+
+      vi.mocked(mockJobsRepo.setNextRunAtIfEarlier).mockClear();
+      await manager.recordCheckIn("tok-1", "fail");
+      expect(mockJobsRepo.setNextRunAtIfEarlier).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("blackout windows", () => {
+    const job: Job = { id: "job-1", userId: "user-1", name: "ETL", status: "active", createdAt: new Date(), updatedAt: new Date() };
+    const sundayMaintenance = { name: "Sunday maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" };
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+    });
+
+    it("stores windows on jobs and http endpoints", async () => {
+      const holidays = { calendar: "us-federal-holidays" as const, timezone: "America/New_York" };
+      vi.mocked(mockJobsRepo.createJob).mockResolvedValue({ ...job, blackoutWindows: [holidays] });
+
+      await manager.createJob("user-1", { name: "ETL", blackoutWindows: [holidays] });
+      const endpoint = await manager.addEndpointToJob("user-1", {
+        name: "sync",
+        jobId: "job-1",
+        baselineIntervalMs: 3_600_000,
+        url: "https://example.com/sync",
+        blackoutWindows: [sundayMaintenance],
+      });
+
+      expect(mockJobsRepo.createJob).toHaveBeenCalledWith(expect.objectContaining({ blackoutWindows: [holidays] }));
+      expect(endpoint.blackoutWindows).toEqual([sundayMaintenance]);
+    });
+
+    it("rejects malformed windows", async () => {
+      const create = (window: Record<string, unknown>) => manager.createJob("user-1", { name: "ETL", blackoutWindows: [window] });
+
+      await expect(create({ startTime: "2:00", endTime: "04:00", daysOfWeek: [0] })).rejects.toThrow("invalid time \"2:00\"");
+      await expect(create({ startTime: "02:00", daysOfWeek: [0] })).rejects.toThrow("needs both startTime and endTime");
+      await expect(create({ daysOfWeek: [7] })).rejects.toThrow("daysOfWeek must be 0 (Sunday) to 6 (Saturday)");
+      await expect(create({ dates: ["2025-02-30"] })).rejects.toThrow("dates must be at most 366");
+      await expect(create({ calendar: "uk-bank-holidays" })).rejects.toThrow("Blackout calendar must be one of");
+      await expect(create({ daysOfWeek: [0], timezone: "Mars/Olympus" })).rejects.toThrow();
+      await expect(create({})).rejects.toThrow("covers every day around the clock");
+      expect(mockJobsRepo.createJob).not.toHaveBeenCalled();
+    });
+
+    it("validates windows on job updates", async () => {
+      await expect(manager.updateJob("user-1", "job-1", { blackoutWindows: [{ startTime: "09:00", endTime: "09:00" }] }))
+        .rejects
+        .toThrow("covers every day around the clock");
+      expect(mockJobsRepo.updateJob).not.toHaveBeenCalled();
+    });
+
+    it("refuses windows on heartbeat endpoints", async () => {
+      await expect(manager.addEndpointToJob("user-1", {
+        name: "backup",
+        jobId: "job-1",
+        kind: "heartbeat",
+        baselineIntervalMs: 3_600_000,
+        blackoutWindows: [sundayMaintenance],
+      })).rejects.toThrow("Blackout windows only apply to http endpoints");
+    });
+  });
+
+  describe("misfire policy", () => {
+    const job: Job = { id: "job-1", userId: "user-1", name: "Billing", status: "active", createdAt: new Date(), updatedAt: new Date() };
+    const add = (misfirePolicy: Record<string, unknown>, kind: "http" | "heartbeat" = "http") => manager.addEndpointToJob("user-1", {
+      name: "invoice",
+      jobId: "job-1",
+      kind,
+      baselineCron: "0 * * * *",
+      url: kind === "http" ? "https://example.com/invoice" : undefined,
+      // eslint-disable-next-line ts/consistent-type-assertions
+      misfirePolicy: misfirePolicy as MisfirePolicy,
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+    });
+
+    it("stores the policy on http endpoints", async () => {
+      const endpoint = await add({ mode: "run-all", maxBacklog: 24 });
+
+      expect(endpoint.misfirePolicy).toEqual({ mode: "run-all", maxBacklog: 24 });
+    });
+
+    it("rejects malformed policies", async () => {
+      await expect(add({ mode: "run-twice" })).rejects.toThrow("Misfire mode must be one of: skip, run-once, run-all");
+      await expect(add({ mode: "skip", maxBacklog: 5 })).rejects.toThrow("maxBacklog only applies to run-all");
+      await expect(add({ mode: "run-all", maxBacklog: 0 })).rejects.toThrow("maxBacklog must be an integer between 1 and 100");
+      await expect(add({ mode: "run-once", thresholdMs: -1 })).rejects.toThrow("thresholdMs must be an integer");
+      expect(mockJobsRepo.addEndpoint).not.toHaveBeenCalled();
+    });
+
+    it("refuses policies on heartbeat endpoints", async () => {
+      await expect(add({ mode: "skip" }, "heartbeat")).rejects.toThrow("Misfire policies only apply to http endpoints");
+    });
+  });
+
+  describe("concurrency policy", () => {
+    const job: Job = { id: "job-1", userId: "user-1", name: "Billing", status: "active", createdAt: new Date(), updatedAt: new Date() };
+    const openRun = { id: "run-open", startedAt: new Date("2025-01-14T11:50:00Z") };
+    const endpoint = (concurrencyPolicy?: ConcurrencyPolicy): JobEndpoint => ({
+      id: "ep-1",
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: "sync",
+      nextRunAt: new Date("2025-01-14T12:05:00Z"),
+      failureCount: 0,
+      url: "https://example.com/sync",
+      concurrencyPolicy,
+    });
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+      vi.mocked(mockRunsRepo.listOpenRuns).mockResolvedValue([openRun]);
+      vi.mocked(mockRunsRepo.create).mockResolvedValue("run-test");
+    });
+
+    it("stores the policy on http endpoints and rejects unknown ones", async () => {
+      const input = { name: "sync", jobId: "job-1", baselineIntervalMs: 300_000, url: "https://example.com/sync" };
+
+      expect((await manager.addEndpointToJob("user-1", { ...input, concurrencyPolicy: "forbid" })).concurrencyPolicy).toBe("forbid");
+      // eslint-disable-next-line ts/consistent-type-assertions
+      await expect(manager.addEndpointToJob("user-1", { ...input, concurrencyPolicy: "queue" as ConcurrencyPolicy }))
+        .rejects
+        .toThrow("Concurrency policy must be one of: allow, forbid, replace");
+      await expect(manager.addEndpointToJob("user-1", { name: "backup", jobId: "job-1", kind: "heartbeat", baselineIntervalMs: 3_600_000, concurrencyPolicy: "forbid" }))
+        .rejects
+        .toThrow("Concurrency policies only apply to http endpoints");
+    });
+
+    it("lets test runs through without checking open runs by default", async () => {
+      expect(await manager.applyTestRunConcurrency(endpoint())).toBeNull();
+      expect(await manager.applyTestRunConcurrency(endpoint("allow"))).toBeNull();
+      expect(mockRunsRepo.listOpenRuns).not.toHaveBeenCalled();
+    });
+
+    it("records a canceled test run under forbid while a run is open", async () => {
+      const result = await manager.applyTestRunConcurrency(endpoint("forbid"));
+
+      const reason = "Skipped: run run-open has been running since 2025-01-14T11:50:00.000Z (concurrency policy: forbid)";
+      expect(result).toEqual({ runId: "run-test", status: "canceled", durationMs: 0, errorMessage: reason });
+      expect(mockRunsRepo.create).toHaveBeenCalledWith(expect.objectContaining({ endpointId: "ep-1", source: "test" }));
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-test", { status: "canceled", durationMs: 0, err: reason });
+    });
+
+    it("cancels open runs under replace and lets the test run through", async () => {
+      expect(await manager.applyTestRunConcurrency(endpoint("replace"))).toBeNull();
+
+      expect(mockRunsRepo.finish).toHaveBeenCalledWith("run-open", { status: "canceled", durationMs: 600_000, err: REPLACED_RUN_REASON });
+      expect(mockRunsRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("tls credential", () => {
+    const job: Job = { id: "job-1", userId: "user-1", name: "Billing", status: "active", createdAt: new Date(), updatedAt: new Date() };
+    const input = { name: "sync", jobId: "job-1", baselineIntervalMs: 300_000, url: "https://internal.example.com/sync" };
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+    });
+
+    it("stores the credential name on http endpoints", async () => {
+      expect((await manager.addEndpointToJob("user-1", { ...input, tlsCredentialName: "billing-mtls" })).tlsCredentialName).toBe("billing-mtls");
+      expect((await manager.addEndpointToJob("user-1", { ...input, tlsCredentialName: "" })).tlsCredentialName).toBeUndefined();
+    });
+
+    it("rejects malformed names", async () => {
+      await expect(manager.addEndpointToJob("user-1", { ...input, tlsCredentialName: "Billing mTLS" }))
+        .rejects
+        .toThrow("Invalid TLS credential name \"Billing mTLS\"");
+      expect(mockJobsRepo.addEndpoint).not.toHaveBeenCalled();
+    });
+
+    it("refuses credentials on heartbeat endpoints", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        jobId: "job-1",
+        tenantId: "user-1",
+        name: "backup",
+        kind: "heartbeat",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+
+      await expect(manager.updateEndpointConfig("user-1", "ep-1", { tlsCredentialName: "billing-mtls" }))
+        .rejects
+        .toThrow("Heartbeat endpoints don't make requests: tlsCredentialName can't be set");
+    });
+
+    it("only accepts credentials of the job owner", async () => {
+      const orgs = new InMemoryOrganizationsRepo();
+      const orgId = (await orgs.createOrganization({ name: "Acme", ownerUserId: "user-1" })).id;
+      const tlsCredentials: TlsCredentialsRepo = {
+        list: vi.fn(),
+        get: vi.fn(async (ownerId: string, name: string) => ownerId === orgId && name === "org-mtls"
+          ? { name, hasClientCertificate: true, subject: "CN=acme", certificateExpiresAt: null, caCertificates: 0, caExpiresAt: null, createdAt: new Date(), updatedAt: new Date() }
+          : null),
+        set: vi.fn(),
+        delete: vi.fn(),
+      };
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, undefined, new OrgAccess(orgs), undefined, tlsCredentials);
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({ ...job, orgId });
+
+      expect((await manager.addEndpointToJob("user-1", { ...input, tlsCredentialName: "org-mtls" })).tenantId).toBe(orgId);
+      // The member's personal credential isn't looked up for an org endpoint
+      await expect(manager.addEndpointToJob("user-1", { ...input, tlsCredentialName: "personal-mtls" }))
+        .rejects
+        .toThrow("TLS credential \"personal-mtls\" not found for this job's owner");
+      expect(tlsCredentials.get).toHaveBeenLastCalledWith(orgId, "personal-mtls");
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ id: "ep-1", jobId: "job-1", tenantId: orgId, name: "sync", nextRunAt: new Date(), failureCount: 0 });
+      await expect(manager.updateEndpointConfig("user-1", "ep-1", { tlsCredentialName: "personal-mtls" }))
+        .rejects
+        .toThrow("not found for this job's owner");
+    });
+  });
+
+  describe("auth profile", () => {
+    const job: Job = { id: "job-1", userId: "user-1", name: "Billing", status: "active", createdAt: new Date(), updatedAt: new Date() };
+    const input = { name: "sync", jobId: "job-1", baselineIntervalMs: 300_000, url: "https://api.example.com/invoices" };
+
+    beforeEach(() => {
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("free");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+    });
+
+    it("stores the profile name on http endpoints", async () => {
+      expect((await manager.addEndpointToJob("user-1", { ...input, authProfileName: "billing-api" })).authProfileName).toBe("billing-api");
+      expect((await manager.addEndpointToJob("user-1", { ...input, authProfileName: "" })).authProfileName).toBeUndefined();
+    });
+
+    it("rejects malformed names", async () => {
+      await expect(manager.addEndpointToJob("user-1", { ...input, authProfileName: "Billing API" }))
+        .rejects
+        .toThrow("Invalid auth profile name \"Billing API\"");
+      expect(mockJobsRepo.addEndpoint).not.toHaveBeenCalled();
+    });
+
+    it("refuses profiles on heartbeat endpoints", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        jobId: "job-1",
+        tenantId: "user-1",
+        name: "backup",
+        kind: "heartbeat",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+
+      await expect(manager.updateEndpointConfig("user-1", "ep-1", { authProfileName: "billing-api" }))
+        .rejects
+        .toThrow("Heartbeat endpoints don't make requests: authProfileName can't be set");
+    });
+
+    it("only accepts profiles of the job owner", async () => {
+      const orgs = new InMemoryOrganizationsRepo();
+      const orgId = (await orgs.createOrganization({ name: "Acme", ownerUserId: "user-1" })).id;
+      const authProfiles: AuthProfilesRepo = {
+        list: vi.fn(),
+        get: vi.fn(async (ownerId: string, name: string) => ownerId === orgId && name === "org-api"
+          ? { name, type: "oauth2-client-credentials" as const, tokenUrl: "https://auth.example.com/token", clientId: "acme", scopes: [], audience: null, createdAt: new Date(), updatedAt: new Date() }
+          : null),
+        set: vi.fn(),
+        delete: vi.fn(),
+      };
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, undefined, new OrgAccess(orgs), undefined, undefined, authProfiles);
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({ ...job, orgId });
+
+      expect((await manager.addEndpointToJob("user-1", { ...input, authProfileName: "org-api" })).tenantId).toBe(orgId);
+      // The member's personal profile isn't looked up for an org endpoint
+      await expect(manager.addEndpointToJob("user-1", { ...input, authProfileName: "personal-api" }))
+        .rejects
+        .toThrow("Auth profile \"personal-api\" not found for this job's owner");
+      expect(authProfiles.get).toHaveBeenLastCalledWith(orgId, "personal-api");
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ id: "ep-1", jobId: "job-1", tenantId: orgId, name: "sync", nextRunAt: new Date(), failureCount: 0 });
+      await expect(manager.updateEndpointConfig("user-1", "ep-1", { authProfileName: "personal-api" }))
+        .rejects
+        .toThrow("not found for this job's owner");
+    });
+  });
+
+  describe("organization access", () => {
+    let orgs: InMemoryOrganizationsRepo;
+    let orgId: string;
+    const orgJob = (): Job => ({
+      id: "job-org",
+      userId: "creator",
+      orgId,
+      name: "Shared",
+      status: "active",
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      updatedAt: new Date("2025-01-01T00:00:00Z"),
+    });
+
+    beforeEach(async () => {
+      orgs = new InMemoryOrganizationsRepo();
+      orgId = (await orgs.createOrganization({ name: "Acme", ownerUserId: "owner" })).id;
+      await orgs.upsertMember(orgId, "editor", "editor");
+      await orgs.upsertMember(orgId, "viewer", "viewer");
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, undefined, new OrgAccess(orgs));
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(orgJob());
+    });
+
+    it("creates jobs in an organization for editors", async () => {
+      vi.mocked(mockJobsRepo.createJob).mockResolvedValue(orgJob());
+
+      await manager.createJob("editor", { name: "Shared", orgId });
+
+      expect(mockJobsRepo.createJob).toHaveBeenCalledWith(expect.objectContaining({ userId: "editor", orgId }));
+      await expect(manager.createJob("viewer", { name: "Shared", orgId })).rejects.toThrow("requires the editor role");
+      await expect(manager.createJob("stranger", { name: "Shared", orgId })).rejects.toThrow("Organization not found");
+    });
+
+    it("lets viewers read but not change org jobs", async () => {
+      expect(await manager.getJob("viewer", "job-org")).toEqual(orgJob());
+      await expect(manager.updateJob("viewer", "job-org", { name: "x" })).rejects.toThrow("requires the editor role");
+
+      vi.mocked(mockJobsRepo.updateJob).mockResolvedValue(orgJob());
+      await manager.updateJob("editor", "job-org", { name: "x" });
+      expect(mockJobsRepo.updateJob).toHaveBeenCalledWith("job-org", { name: "x" });
+    });
+
+    it("hides org jobs from non-members", async () => {
+      expect(await manager.getJob("stranger", "job-org")).toBeNull();
+    });
+
+    it("lists the organization's jobs", async () => {
+      vi.mocked(mockJobsRepo.listJobs).mockResolvedValue([]);
+
+      await manager.listJobs("viewer", { orgId, status: "active" });
+
+      expect(mockJobsRepo.listJobs).toHaveBeenCalledWith(orgId, { status: "active" });
+    });
+
+    it("bills org endpoints to the organization", async () => {
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("pro");
+      vi.mocked(mockJobsRepo.countEndpointsByUser).mockResolvedValue(0);
+
+      await manager.addEndpointToJob("editor", { jobId: "job-org", name: "ep", url: "https://example.com", baselineIntervalMs: 60_000 });
+
+      expect(mockJobsRepo.getUserTier).toHaveBeenCalledWith(orgId);
+      expect(mockJobsRepo.countEndpointsByUser).toHaveBeenCalledWith(orgId);
+      expect(mockJobsRepo.addEndpoint).toHaveBeenCalledWith(expect.objectContaining({ tenantId: orgId }));
+    });
+
+    it("confines org-scoped API keys to their organization", async () => {
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, undefined, new OrgAccess(orgs, orgId));
+      vi.mocked(mockJobsRepo.listJobs).mockResolvedValue([]);
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({ ...orgJob(), id: "job-personal", userId: "editor", orgId: null });
+
+      await manager.listJobs("editor");
+
+      expect(mockJobsRepo.listJobs).toHaveBeenCalledWith(orgId, { status: undefined });
+      expect(await manager.getJob("editor", "job-personal")).toBeNull();
+    });
+  });
+
+  describe("audit log", () => {
+    let audit: InMemoryAuditRepo;
+    const endpoint = (): JobEndpoint => ({
+      id: "ep-1",
+      jobId: "job-1",
+      tenantId: "user-1",
+      name: "My Endpoint",
+      baselineIntervalMs: 60_000,
+      headersJson: { Authorization: "Bearer old" },
+      nextRunAt: new Date("2025-01-14T12:01:00Z"),
+      failureCount: 3,
+    });
+
+    beforeEach(() => {
+      audit = new InMemoryAuditRepo();
+      const actor = { type: "api_key" as const, id: "key-1", userId: "user-1" };
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, undefined, undefined, new AuditLog(audit, actor, fakeClock));
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint());
+    });
+
+    it("records endpoint updates with the actor and a redacted diff", async () => {
+      vi.mocked(mockJobsRepo.getUserTier).mockResolvedValue("pro");
+      vi.mocked(mockJobsRepo.updateEndpoint).mockResolvedValue({
+        ...endpoint(),
+        baselineIntervalMs: 30_000,
+        headersJson: { Authorization: "Bearer new" },
+        nextRunAt: new Date("2025-01-14T12:00:30Z"),
+      });
+
+      await manager.updateEndpointConfig("user-1", "ep-1", { baselineIntervalMs: 30_000, headersJson: { Authorization: "Bearer new" } });
+
+      expect(audit.events).toEqual([{
+        id: expect.any(String),
+        tenantId: "user-1",
+        actor: { type: "api_key", id: "key-1", userId: "user-1" },
+        action: "endpoint.updated",
+        jobId: "job-1",
+        endpointId: "ep-1",
+        changes: [
+          { field: "baselineIntervalMs", before: 60_000, after: 30_000 },
+          { field: "headersJson", before: { Authorization: "[REDACTED]" }, after: { Authorization: "[REDACTED]" } },
+          { field: "nextRunAt", before: "2025-01-14T12:01:00.000Z", after: "2025-01-14T12:00:30.000Z" },
+        ],
+        createdAt: fakeClock.now(),
+      }]);
+    });
+
+    it("re-reads the endpoint after writes that don't return it", async () => {
+      vi.mocked(mockJobsRepo.getEndpoint)
+        .mockResolvedValueOnce(endpoint())
+        .mockResolvedValueOnce({ ...endpoint(), failureCount: 0 });
+
+      await manager.resetFailureCount("user-1", "ep-1");
+
+      expect(audit.events).toMatchObject([{
+        action: "endpoint.failures_reset",
+        changes: [{ field: "failureCount", before: 3, after: 0 }],
+      }]);
+    });
+
+    it("records job changes under the job's owner", async () => {
+      const orgs = new InMemoryOrganizationsRepo();
+      const org = await orgs.createOrganization({ name: "Acme", ownerUserId: "user-1" });
+      const job: Job = { id: "job-1", userId: "user-1", orgId: org.id, name: "Old", status: "active", createdAt: new Date("2025-01-01T00:00:00Z"), updatedAt: new Date("2025-01-01T00:00:00Z") };
+      manager = new JobsManager(mockJobsRepo, mockRunsRepo, mockSessionsRepo, fakeClock, fakeCron, undefined, new OrgAccess(orgs), new AuditLog(audit, { type: "user", id: "user-1", userId: "user-1" }, fakeClock));
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(job);
+      vi.mocked(mockJobsRepo.pauseJob).mockResolvedValue({ ...job, status: "paused" });
+
+      await manager.pauseJob("user-1", "job-1");
+
+      expect(audit.events).toMatchObject([{
+        tenantId: org.id,
+        action: "job.paused",
+        jobId: "job-1",
+        changes: [{ field: "status", before: "active", after: "paused" }],
+      }]);
+    });
+
+    it("records nothing when a change is rejected", async () => {
+      await expect(manager.applyIntervalHint("user-1", "ep-1", { intervalMs: 1 })).rejects.toThrow();
+
+      expect(audit.events).toEqual([]);
+    });
+  });
 });
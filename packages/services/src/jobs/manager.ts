@@ -1,14 +1,21 @@
-import type { AISessionWarning, Clock, Cron, ExecutionResult, Job, JobEndpoint, JobsRepo, RunsRepo, SessionsRepo } from "@cronicorn/domain";
+import type { AISessionWarning, AuditAction, AuditActor, AuthProfilesRepo, BlackoutWindow, Clock, ConcurrencyPolicy, Cron, EndpointDependencies, EndpointEvents, EndpointKind, ExecutionResult, HeartbeatSignal, Job, JobEndpoint, JobsRepo, JsonValue, Logger, MisfirePolicy, OrgRole, RetryPolicy, RunsRepo, SessionsRepo, SuccessCriteria, TlsCredentialsRepo } from "@cronicorn/domain";
 
-import { getExecutionLimits } from "@cronicorn/domain";
+import { AUTH_PROFILE_NAME_PATTERN, BLACKOUT_CALENDARS, buildTemplateContext, cancelReplacedRuns, CONCURRENCY_POLICIES, findDependencyCycle, findMatchPatternError, findTemplateError, getExecutionLimits, getRunsLimit, hashTriggerToken, hasRequestTemplates, HEARTBEAT_RUN_SOURCE, MAX_BLACKOUT_WINDOWS, MAX_DEPENDENCY_DELAY_MS, MAX_HEARTBEAT_GRACE_MS, MAX_MISFIRE_MAX_BACKLOG, MAX_MISFIRE_THRESHOLD_MS, MAX_UPSTREAM_ENDPOINTS, MISFIRE_MODES, parseCheckInBody, parseResponsePath, parseStatusCodePattern, parseTimeOfDay, planConcurrency, planDependentRuns, planHeartbeatDeadline, renderRequestTemplates, TemplateError, TRIGGER_TOKEN_PREFIX, triggerTokenDisplayPrefix } from "@cronicorn/domain";
+import { TLS_CREDENTIAL_NAME_PATTERN } from "@cronicorn/domain/tls";
 import { nanoid } from "nanoid";
 
+import type { AuditLog } from "../audit/log.js";
+
+import { OrgAccess } from "../organizations/access.js";
+
 /**
  * Input for creating a new job (logical grouping).
  */
 export type CreateJobInput = {
   name: string;
   description?: string;
+  orgId?: string; // Create the job in this organization (requires editor)
+  blackoutWindows?: BlackoutWindow[]; // Apply to all of the job's http endpoints
 };
 
 /**
@@ -18,17 +25,45 @@ export type AddEndpointInput = {
   name: string;
   jobId: string; // Required: must belong to a job
   description?: string;
+  kind?: EndpointKind; // Default: http
   baselineCron?: string;
   baselineIntervalMs?: number;
+  timezone?: string | null; // IANA zone for baselineCron (default: UTC; null or "" clears)
   minIntervalMs?: number;
   maxIntervalMs?: number;
-  url: string;
-  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  url?: string; // Required for http endpoints
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE"; // Default: GET
   headersJson?: Record<string, string>;
   bodyJson?: import("@cronicorn/domain").JsonValue;
   timeoutMs?: number;
   maxExecutionTimeMs?: number;
   maxResponseSizeKb?: number;
+  retryPolicy?: RetryPolicy; // In-run retries (maxAttempts 1 disables)
+  successCriteria?: SuccessCriteria; // What counts as success ({} restores the 2xx default)
+  graceMs?: number; // Heartbeat only: allowed check-in lateness (default: 5 minutes)
+  runAfter?: EndpointDependencies; // Upstreams in the same job whose success triggers a run (empty upstreamIds clears)
+  blackoutWindows?: BlackoutWindow[]; // Http only: recurring periods without runs (empty list clears)
+  misfirePolicy?: MisfirePolicy; // Http only: catch-up for missed occurrences (unset: no catch-up)
+  concurrencyPolicy?: ConcurrencyPolicy; // Http only: overlapping runs (default: allow)
+  tlsCredentialName?: string; // Http only: TLS credential to connect with ("" clears)
+  authProfileName?: string; // Http only: auth profile whose token is sent as Authorization ("" clears)
+};
+
+/**
+ * An endpoint with its request templates resolved, or why they couldn't be.
+ */
+export type RenderedTestRequest = { endpoint: JobEndpoint } | { error: string };
+
+/**
+ * A recorded test run. Canceled when the endpoint's concurrency policy skipped it.
+ */
+export type TestRunResult = {
+  runId: string;
+  status: "success" | "failed" | "canceled";
+  durationMs: number;
+  statusCode?: number;
+  responseBody?: JsonValue;
+  errorMessage?: string;
 };
 
 /**
@@ -37,6 +72,7 @@ export type AddEndpointInput = {
 export type UpdateJobInput = {
   name?: string;
   description?: string;
+  blackoutWindows?: BlackoutWindow[]; // Empty list clears
 };
 
 /**
@@ -59,6 +95,228 @@ function validateCreateJobInput(input: CreateJobInput): void {
   if (input.description && input.description.length > 1000) {
     throw new ValidationError("Job description must be 1000 characters or less");
   }
+  validateBlackoutWindows(input.blackoutWindows);
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  }
+  catch {
+    return false;
+  }
+}
+
+function validateTimezone(timezone: string | null | undefined): void {
+  if (timezone && !isValidTimezone(timezone)) {
+    throw new ValidationError(`Invalid timezone "${timezone}": must be an IANA timezone name (e.g. "America/New_York")`);
+  }
+}
+
+function isValidLocalDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date))
+    return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+function validateBlackoutWindows(windows: BlackoutWindow[] | undefined): void {
+  if (windows === undefined)
+    return;
+
+  if (!Array.isArray(windows) || windows.length > MAX_BLACKOUT_WINDOWS) {
+    throw new ValidationError(`At most ${MAX_BLACKOUT_WINDOWS} blackout windows are allowed`);
+  }
+  for (const window of windows) {
+    const label = window.name ? `Blackout window "${window.name}"` : "Blackout window";
+    if (window.name !== undefined && window.name.length > 100) {
+      throw new ValidationError("Blackout window names must be 100 characters or less");
+    }
+    validateTimezone(window.timezone);
+    if ((window.startTime === undefined) !== (window.endTime === undefined)) {
+      throw new ValidationError(`${label} needs both startTime and endTime, or neither to cover whole days`);
+    }
+    for (const time of [window.startTime, window.endTime]) {
+      if (time !== undefined && parseTimeOfDay(time) === null) {
+        throw new ValidationError(`${label} has an invalid time "${time}": use 24-hour "HH:MM"`);
+      }
+    }
+    if (window.daysOfWeek?.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new ValidationError(`${label} daysOfWeek must be 0 (Sunday) to 6 (Saturday)`);
+    }
+    if (window.dates && (window.dates.length > 366 || window.dates.some(date => !isValidLocalDate(date)))) {
+      throw new ValidationError(`${label} dates must be at most 366 "YYYY-MM-DD" dates`);
+    }
+    if (window.calendar !== undefined && !BLACKOUT_CALENDARS.includes(window.calendar)) {
+      throw new ValidationError(`Blackout calendar must be one of: ${BLACKOUT_CALENDARS.join(", ")}`);
+    }
+    const hasDays = Boolean(window.daysOfWeek?.length || window.dates?.length || window.calendar);
+    if (!hasDays && window.startTime === window.endTime) {
+      throw new ValidationError(`${label} covers every day around the clock, so nothing would run; pause instead`);
+    }
+  }
+}
+
+/** Upper bounds keeping a single run's retries within the lease/execution budget */
+const MAX_RETRY_ATTEMPTS = 10;
+const MAX_RETRY_DELAY_MS = 300_000; // 5 minutes
+
+function validateRetryPolicy(policy: RetryPolicy | undefined): void {
+  if (policy === undefined)
+    return;
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1 || policy.maxAttempts > MAX_RETRY_ATTEMPTS) {
+    throw new ValidationError(`Retry maxAttempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}`);
+  }
+  if (!["fixed", "exponential", "jittered"].includes(policy.backoff)) {
+    throw new ValidationError("Retry backoff must be one of: fixed, exponential, jittered");
+  }
+  if (policy.initialDelayMs < 0 || policy.initialDelayMs > MAX_RETRY_DELAY_MS) {
+    throw new ValidationError(`Retry initialDelayMs must be between 0 and ${MAX_RETRY_DELAY_MS}ms (5 minutes)`);
+  }
+  if (policy.maxDelayMs !== undefined && (policy.maxDelayMs < policy.initialDelayMs || policy.maxDelayMs > MAX_RETRY_DELAY_MS)) {
+    throw new ValidationError(`Retry maxDelayMs must be at least initialDelayMs and at most ${MAX_RETRY_DELAY_MS}ms (5 minutes)`);
+  }
+  if (policy.retryOnStatusCodes?.some(code => !Number.isInteger(code) || code < 100 || code > 599)) {
+    throw new ValidationError("Retry status codes must be HTTP status codes (100-599)");
+  }
+  if (policy.retryOnErrors?.some(err => err !== "timeout" && err !== "network")) {
+    throw new ValidationError("Retryable errors must be \"timeout\" or \"network\"");
+  }
+}
+
+const MAX_SUCCESS_ASSERTIONS = 20;
+const ASSERTION_OPERATORS = ["exists", "notExists", "equals", "notEquals", "contains", "matches", "gt", "gte", "lt", "lte"];
+
+function validateSuccessCriteria(criteria: SuccessCriteria | undefined): void {
+  if (criteria === undefined)
+    return;
+
+  for (const pattern of criteria.statusCodes ?? []) {
+    if (!parseStatusCodePattern(pattern)) {
+      throw new ValidationError(`Invalid accepted status "${pattern}": use a code ("204"), a class ("2xx") or a range ("200-299") within 100-599`);
+    }
+  }
+  if (criteria.maxLatencyMs !== undefined && (!Number.isInteger(criteria.maxLatencyMs) || criteria.maxLatencyMs < 1)) {
+    throw new ValidationError("Success maxLatencyMs must be a positive integer");
+  }
+
+  const assertions = criteria.assertions ?? [];
+  if (assertions.length > MAX_SUCCESS_ASSERTIONS) {
+    throw new ValidationError(`At most ${MAX_SUCCESS_ASSERTIONS} success assertions are allowed`);
+  }
+  for (const assertion of assertions) {
+    if (!parseResponsePath(assertion.path)) {
+      throw new ValidationError(`Invalid assertion path "${assertion.path}": use a JSONPath like "$.status" or a JSON pointer like "/status"`);
+    }
+    if (!ASSERTION_OPERATORS.includes(assertion.operator)) {
+      throw new ValidationError(`Assertion operator must be one of: ${ASSERTION_OPERATORS.join(", ")}`);
+    }
+    if (["gt", "gte", "lt", "lte"].includes(assertion.operator) && typeof assertion.value !== "number") {
+      throw new ValidationError(`Assertion "${assertion.operator}" on ${assertion.path} requires a numeric value`);
+    }
+    if (assertion.operator === "matches") {
+      if (typeof assertion.value !== "string") {
+        throw new ValidationError(`Assertion "matches" on ${assertion.path} requires a regular expression string`);
+      }
+      const patternError = findMatchPatternError(assertion.value);
+      if (patternError) {
+        throw new ValidationError(`Assertion "matches" on ${assertion.path} ${patternError}`);
+      }
+    }
+  }
+}
+
+function validateRequestTemplates(request: Pick<AddEndpointInput, "url" | "headersJson" | "bodyJson">): void {
+  const error = findTemplateError(request);
+  if (error) {
+    throw new ValidationError(`Invalid template in ${error}`);
+  }
+}
+
+/** Request config that only http endpoints have */
+const HTTP_REQUEST_FIELDS = ["url", "method", "headersJson", "bodyJson", "timeoutMs", "maxExecutionTimeMs", "retryPolicy", "successCriteria", "tlsCredentialName", "authProfileName"] as const;
+
+function validateGraceMs(graceMs: number | undefined): void {
+  if (graceMs !== undefined && (!Number.isInteger(graceMs) || graceMs < 0 || graceMs > MAX_HEARTBEAT_GRACE_MS)) {
+    throw new ValidationError(`Heartbeat graceMs must be an integer between 0 and ${MAX_HEARTBEAT_GRACE_MS}ms (7 days)`);
+  }
+}
+
+function validateRunAfter(runAfter: EndpointDependencies | undefined, kind: EndpointKind): void {
+  if (runAfter === undefined)
+    return;
+
+  if (runAfter.mode !== "all" && runAfter.mode !== "any") {
+    throw new ValidationError("Dependency mode must be \"all\" or \"any\"");
+  }
+  if (!Array.isArray(runAfter.upstreamIds) || runAfter.upstreamIds.length > MAX_UPSTREAM_ENDPOINTS) {
+    throw new ValidationError(`An endpoint can depend on at most ${MAX_UPSTREAM_ENDPOINTS} upstream endpoints`);
+  }
+  if (new Set(runAfter.upstreamIds).size !== runAfter.upstreamIds.length) {
+    throw new ValidationError("Upstream endpoints must not repeat");
+  }
+  if (runAfter.delayMs !== undefined && (!Number.isInteger(runAfter.delayMs) || runAfter.delayMs < 0 || runAfter.delayMs > MAX_DEPENDENCY_DELAY_MS)) {
+    throw new ValidationError(`Dependency delayMs must be an integer between 0 and ${MAX_DEPENDENCY_DELAY_MS}ms (24 hours)`);
+  }
+  if (kind === "heartbeat" && runAfter.upstreamIds.length > 0) {
+    throw new ValidationError("Heartbeat endpoints can't depend on other endpoints: the external job decides when it runs");
+  }
+}
+
+function validateEndpointBlackoutWindows(windows: BlackoutWindow[] | undefined, kind: EndpointKind): void {
+  validateBlackoutWindows(windows);
+  if (kind === "heartbeat" && windows?.length) {
+    throw new ValidationError("Blackout windows only apply to http endpoints; pause a heartbeat for expected gaps in check-ins");
+  }
+}
+
+function validateMisfirePolicy(policy: MisfirePolicy | undefined, kind: EndpointKind): void {
+  if (policy === undefined)
+    return;
+
+  if (!MISFIRE_MODES.includes(policy.mode)) {
+    throw new ValidationError(`Misfire mode must be one of: ${MISFIRE_MODES.join(", ")}`);
+  }
+  if (policy.maxBacklog !== undefined) {
+    if (policy.mode !== "run-all") {
+      throw new ValidationError("Misfire maxBacklog only applies to run-all");
+    }
+    if (!Number.isInteger(policy.maxBacklog) || policy.maxBacklog < 1 || policy.maxBacklog > MAX_MISFIRE_MAX_BACKLOG) {
+      throw new ValidationError(`Misfire maxBacklog must be an integer between 1 and ${MAX_MISFIRE_MAX_BACKLOG}`);
+    }
+  }
+  if (policy.thresholdMs !== undefined && (!Number.isInteger(policy.thresholdMs) || policy.thresholdMs < 0 || policy.thresholdMs > MAX_MISFIRE_THRESHOLD_MS)) {
+    throw new ValidationError(`Misfire thresholdMs must be an integer between 0 and ${MAX_MISFIRE_THRESHOLD_MS}ms (24 hours)`);
+  }
+  if (kind === "heartbeat") {
+    throw new ValidationError("Misfire policies only apply to http endpoints: a heartbeat records each missed check-in");
+  }
+}
+
+function validateConcurrencyPolicy(policy: ConcurrencyPolicy | undefined, kind: EndpointKind): void {
+  if (policy === undefined)
+    return;
+
+  if (!CONCURRENCY_POLICIES.includes(policy)) {
+    throw new ValidationError(`Concurrency policy must be one of: ${CONCURRENCY_POLICIES.join(", ")}`);
+  }
+  if (kind === "heartbeat") {
+    throw new ValidationError("Concurrency policies only apply to http endpoints: heartbeat runs are opened by check-ins");
+  }
+}
+
+function validateTlsCredentialName(name: string | undefined): void {
+  if (name && !TLS_CREDENTIAL_NAME_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid TLS credential name "${name}": use lower-case letters, digits, dashes and underscores`);
+  }
+}
+
+function validateAuthProfileName(name: string | undefined): void {
+  if (name && !AUTH_PROFILE_NAME_PATTERN.test(name)) {
+    throw new ValidationError(`Invalid auth profile name "${name}": use lower-case letters, digits, dashes and underscores`);
+  }
 }
 
 function validateAddEndpointInput(input: AddEndpointInput): void {
@@ -87,6 +345,8 @@ function validateAddEndpointInput(input: AddEndpointInput): void {
     );
   }
 
+  validateTimezone(input.timezone);
+
   // Validate intervals if provided
   if (input.baselineIntervalMs && input.baselineIntervalMs < 1000) {
     throw new ValidationError("Baseline interval must be at least 1000ms (1 second)");
@@ -98,6 +358,30 @@ function validateAddEndpointInput(input: AddEndpointInput): void {
     throw new ValidationError("Maximum interval must be greater than minimum interval");
   }
 
+  // Validate maxResponseSizeKb
+  if (input.maxResponseSizeKb && input.maxResponseSizeKb < 0) {
+    throw new ValidationError("Max response size must be a positive number");
+  }
+
+  const kind = input.kind ?? "http";
+  if (kind !== "http" && kind !== "heartbeat") {
+    throw new ValidationError("Endpoint kind must be \"http\" or \"heartbeat\"");
+  }
+  validateRunAfter(input.runAfter, kind);
+  validateEndpointBlackoutWindows(input.blackoutWindows, kind);
+  validateMisfirePolicy(input.misfirePolicy, kind);
+  validateConcurrencyPolicy(input.concurrencyPolicy, kind);
+  validateTlsCredentialName(input.tlsCredentialName);
+  validateAuthProfileName(input.authProfileName);
+  if (kind === "heartbeat") {
+    // Heartbeats receive check-ins instead of making requests
+    validateGraceMs(input.graceMs);
+    return;
+  }
+  if (input.graceMs !== undefined) {
+    throw new ValidationError("graceMs only applies to heartbeat endpoints");
+  }
+
   // Validate URL
   if (!input.url || input.url.trim().length === 0) {
     throw new ValidationError("Endpoint URL is required");
@@ -120,10 +404,9 @@ function validateAddEndpointInput(input: AddEndpointInput): void {
     throw new ValidationError("Max execution time must be between 0 and 1800000ms (30 minutes)");
   }
 
-  // Validate maxResponseSizeKb
-  if (input.maxResponseSizeKb && input.maxResponseSizeKb < 0) {
-    throw new ValidationError("Max response size must be a positive number");
-  }
+  validateRequestTemplates(input);
+  validateRetryPolicy(input.retryPolicy);
+  validateSuccessCriteria(input.successCriteria);
 }
 
 /**
@@ -140,7 +423,8 @@ function validateAddEndpointInput(input: AddEndpointInput): void {
  * - Construct domain entities
  * - Calculate scheduling (nextRunAt)
  * - Orchestrate repository operations
- * - Authorization checks (userId owns resource)
+ * - Authorization checks (userId owns the resource, or has the required org role via OrgAccess)
+ * - Audit events for every configuration and scheduling change (via AuditLog, when given)
  *
  * **Usage** (in composition root):
  * ```typescript
@@ -162,6 +446,12 @@ export class JobsManager {
     private readonly sessionsRepo: SessionsRepo,
     private readonly clock: Clock,
     private readonly cron: Cron,
+    private readonly events?: EndpointEvents, // Notified of heartbeat check-ins (alerting)
+    private readonly access: OrgAccess = new OrgAccess(), // Org membership and role checks
+    private readonly auditLog?: AuditLog, // Records changes made by the request's actor
+    private readonly tlsCredentialsRepo?: TlsCredentialsRepo, // Checks endpoints name a credential of the job owner
+    private readonly authProfilesRepo?: AuthProfilesRepo, // Checks endpoints name a profile of the job owner
+    private readonly logger?: Logger, // Reports endpoint event subscriber failures
   ) { }
 
   // ==================== Job Lifecycle ====================
@@ -169,20 +459,25 @@ export class JobsManager {
   /**
    * Create a new job for logical grouping of endpoints.
    *
-   * @param userId - The user/tenant ID who owns this job
+   * @param userId - The creating user; owns the job unless it's created in an organization
    * @param input - Job configuration
    * @returns The created Job entity
    */
   async createJob(userId: string, input: CreateJobInput): Promise<Job> {
     validateCreateJobInput(input);
 
+    const ownerId = await this.access.resolveOwner(userId, input.orgId, "editor");
+
     const job = await this.jobsRepo.createJob({
       userId,
+      orgId: ownerId === userId ? null : ownerId,
       name: input.name,
       description: input.description,
       status: "active",
+      blackoutWindows: input.blackoutWindows,
     });
 
+    await this.recordJobChange("job.created", null, job);
     return job;
   }
 
@@ -191,13 +486,15 @@ export class JobsManager {
    *
    * @param userId - The requesting user (for authorization)
    * @param jobId - The job ID
+   * @param required - Org role needed for org-owned jobs (default: viewer)
    * @returns The job or null if not found/unauthorized
+   * @throws ForbiddenError if the user's org role is below `required`
    */
-  async getJob(userId: string, jobId: string): Promise<Job | null> {
+  async getJob(userId: string, jobId: string, required: OrgRole = "viewer"): Promise<Job | null> {
     const job = await this.jobsRepo.getJob(jobId);
 
-    // Authorization: user must own the job
-    if (!job || job.userId !== userId) {
+    // Authorization: user must own the job or belong to its organization
+    if (!job || !await this.access.check(userId, job.orgId ?? job.userId, required)) {
       return null;
     }
 
@@ -205,22 +502,24 @@ export class JobsManager {
   }
 
   /**
-   * List all jobs for a user.
+   * List all jobs for a user, or for one of their organizations.
    *
    * @param userId - The user ID
    * @param filters - Optional filters
    * @param filters.status - Filter by job status (active/paused/archived)
+   * @param filters.orgId - List the organization's jobs instead of personal ones
    * @returns Array of jobs with endpoint counts
    */
   async listJobs(
     userId: string,
-    filters?: { status?: "active" | "paused" | "archived" },
+    filters?: { status?: "active" | "paused" | "archived"; orgId?: string },
   ): Promise<Array<Job & { endpointCount: number }>> {
-    return this.jobsRepo.listJobs(userId, filters);
+    const ownerId = await this.access.resolveOwner(userId, filters?.orgId, "viewer");
+    return this.jobsRepo.listJobs(ownerId, { status: filters?.status });
   }
 
   /**
-   * Update a job's metadata.
+   * Update a job's metadata and blackout windows.
    *
    * @param userId - The requesting user (for authorization)
    * @param jobId - The job ID
@@ -230,12 +529,15 @@ export class JobsManager {
    */
   async updateJob(userId: string, jobId: string, input: UpdateJobInput): Promise<Job> {
     // Authorization check
-    const existing = await this.getJob(userId, jobId);
+    const existing = await this.getJob(userId, jobId, "editor");
     if (!existing) {
       throw new Error("Job not found or unauthorized");
     }
+    validateBlackoutWindows(input.blackoutWindows);
 
-    return this.jobsRepo.updateJob(jobId, input);
+    const job = await this.jobsRepo.updateJob(jobId, input);
+    await this.recordJobChange("job.updated", existing, job);
+    return job;
   }
 
   /**
@@ -248,12 +550,14 @@ export class JobsManager {
    */
   async archiveJob(userId: string, jobId: string): Promise<Job> {
     // Authorization check
-    const existing = await this.getJob(userId, jobId);
+    const existing = await this.getJob(userId, jobId, "editor");
     if (!existing) {
       throw new Error("Job not found or unauthorized");
     }
 
-    return this.jobsRepo.archiveJob(jobId);
+    const job = await this.jobsRepo.archiveJob(jobId);
+    await this.recordJobChange("job.archived", existing, job);
+    return job;
   }
 
   /**
@@ -266,12 +570,14 @@ export class JobsManager {
    */
   async pauseJob(userId: string, jobId: string): Promise<Job> {
     // Authorization check
-    const existing = await this.getJob(userId, jobId);
+    const existing = await this.getJob(userId, jobId, "editor");
     if (!existing) {
       throw new Error("Job not found or unauthorized");
     }
 
-    return this.jobsRepo.pauseJob(jobId);
+    const job = await this.jobsRepo.pauseJob(jobId);
+    await this.recordJobChange("job.paused", existing, job);
+    return job;
   }
 
   /**
@@ -284,12 +590,14 @@ export class JobsManager {
    */
   async resumeJob(userId: string, jobId: string): Promise<Job> {
     // Authorization check
-    const existing = await this.getJob(userId, jobId);
+    const existing = await this.getJob(userId, jobId, "editor");
     if (!existing) {
       throw new Error("Job not found or unauthorized");
     }
 
-    return this.jobsRepo.resumeJob(jobId);
+    const job = await this.jobsRepo.resumeJob(jobId);
+    await this.recordJobChange("job.resumed", existing, job);
+    return job;
   }
 
   // ==================== Endpoint Operations ====================
@@ -306,16 +614,21 @@ export class JobsManager {
 
     const now = this.clock.now();
 
-    // Verify user owns the job
-    const job = await this.getJob(userId, input.jobId);
+    // Verify user may change the job
+    const job = await this.getJob(userId, input.jobId, "editor");
     if (!job) {
       throw new Error("Job not found or unauthorized");
     }
 
-    // Check endpoint count quota against tier limits (across ALL user endpoints, not just this job)
-    const userTier = await this.jobsRepo.getUserTier(userId);
+    // Endpoints belong to the job's owner, who is also billed for them
+    const ownerId = job.orgId ?? job.userId;
+    await this.validateTlsCredentialOwner(ownerId, input.tlsCredentialName);
+    await this.validateAuthProfileOwner(ownerId, input.authProfileName);
+
+    // Check endpoint count quota against tier limits (across ALL owner endpoints, not just this job)
+    const userTier = await this.jobsRepo.getUserTier(ownerId);
     const executionLimits = getExecutionLimits(userTier);
-    const existingEndpointCount = await this.jobsRepo.countEndpointsByUser(userId);
+    const existingEndpointCount = await this.jobsRepo.countEndpointsByUser(ownerId);
 
     if (existingEndpointCount >= executionLimits.maxEndpoints) {
       const upgradeMsg = userTier === "free"
@@ -348,33 +661,56 @@ export class JobsManager {
       executionLimits.minIntervalMs,
     );
 
+    const kind = input.kind ?? "http";
     const endpoint: JobEndpoint = {
       id: nanoid(),
       jobId: input.jobId,
-      tenantId: userId,
+      tenantId: ownerId,
       name: input.name,
       description: input.description,
+      kind,
       baselineCron: input.baselineCron,
       baselineIntervalMs: input.baselineIntervalMs,
+      timezone: input.timezone || undefined,
       minIntervalMs: enforcedMinIntervalMs,
       maxIntervalMs: input.maxIntervalMs,
       nextRunAt: now, // Temporary: will calculate below
       failureCount: 0,
-      url: input.url,
-      method: input.method,
-      headersJson: input.headersJson,
-      bodyJson: input.bodyJson,
-      timeoutMs: input.timeoutMs,
-      maxExecutionTimeMs: input.maxExecutionTimeMs,
       maxResponseSizeKb: input.maxResponseSizeKb,
+      runAfter: input.runAfter,
+      blackoutWindows: input.blackoutWindows,
+      // Heartbeats receive check-ins on a ping URL instead of making requests
+      ...(kind === "heartbeat"
+        ? {
+            pingToken: nanoid(32),
+            graceMs: input.graceMs,
+          }
+        : {
+            url: input.url,
+            method: input.method,
+            headersJson: input.headersJson,
+            bodyJson: input.bodyJson,
+            timeoutMs: input.timeoutMs,
+            maxExecutionTimeMs: input.maxExecutionTimeMs,
+            retryPolicy: input.retryPolicy,
+            successCriteria: input.successCriteria,
+            misfirePolicy: input.misfirePolicy,
+            concurrencyPolicy: input.concurrencyPolicy,
+            tlsCredentialName: input.tlsCredentialName || undefined,
+            authProfileName: input.authProfileName || undefined,
+          }),
     };
 
     // Calculate initial nextRunAt based on baseline schedule
     // For cron: calculate next occurrence from now
     // For interval: add interval to now
+    // For heartbeat: the first check-in deadline (expected check-in plus grace)
     // The scheduler will use full governor logic (with AI hints, clamps, etc.) for subsequent runs
-    if (endpoint.baselineCron) {
-      endpoint.nextRunAt = this.cron.next(endpoint.baselineCron, now);
+    if (endpoint.kind === "heartbeat") {
+      endpoint.nextRunAt = planHeartbeatDeadline(now, endpoint, this.cron);
+    }
+    else if (endpoint.baselineCron) {
+      endpoint.nextRunAt = this.cron.next(endpoint.baselineCron, now, endpoint.timezone);
     }
     else if (endpoint.baselineIntervalMs) {
       endpoint.nextRunAt = new Date(now.getTime() + endpoint.baselineIntervalMs);
@@ -384,9 +720,12 @@ export class JobsManager {
       endpoint.nextRunAt = new Date(now.getTime() + 60_000);
     }
 
+    await this.validateDependencies(endpoint);
+
     // Persist to database
     await this.jobsRepo.addEndpoint(endpoint);
 
+    await this.recordEndpointChange("endpoint.created", null, endpoint);
     return endpoint;
   }
 
@@ -413,13 +752,15 @@ export class JobsManager {
    *
    * @param userId - The requesting user (for authorization)
    * @param endpointId - The endpoint ID
+   * @param required - Org role needed for org-owned endpoints (default: viewer)
    * @returns The endpoint or null if not found/unauthorized
+   * @throws ForbiddenError if the user's org role is below `required`
    */
-  async getEndpoint(userId: string, endpointId: string): Promise<JobEndpoint | null> {
+  async getEndpoint(userId: string, endpointId: string, required: OrgRole = "viewer"): Promise<JobEndpoint | null> {
     const endpoint = await this.jobsRepo.getEndpoint(endpointId);
 
-    // Authorization: user must own the endpoint
-    if (!endpoint || endpoint.tenantId !== userId) {
+    // Authorization: user must own the endpoint or belong to its organization
+    if (!endpoint || !await this.access.check(userId, endpoint.tenantId, required)) {
       return null;
     }
 
@@ -441,14 +782,47 @@ export class JobsManager {
     input: Partial<Omit<AddEndpointInput, "jobId">>,
   ): Promise<JobEndpoint> {
     // Authorization check
-    const existing = await this.getEndpoint(userId, endpointId);
+    const existing = await this.getEndpoint(userId, endpointId, "editor");
     if (!existing) {
       throw new Error("Endpoint not found or unauthorized");
     }
 
+    validateTimezone(input.timezone);
+    validateRetryPolicy(input.retryPolicy);
+    validateSuccessCriteria(input.successCriteria);
+
+    const kind = existing.kind ?? "http";
+    if (input.kind !== undefined && input.kind !== kind) {
+      throw new ValidationError("Endpoint kind can't be changed; create a new endpoint instead");
+    }
+    validateRunAfter(input.runAfter, kind);
+    validateEndpointBlackoutWindows(input.blackoutWindows, kind);
+    validateMisfirePolicy(input.misfirePolicy, kind);
+    validateConcurrencyPolicy(input.concurrencyPolicy, kind);
+    validateTlsCredentialName(input.tlsCredentialName);
+    validateAuthProfileName(input.authProfileName);
+    if (input.runAfter !== undefined) {
+      await this.validateDependencies({ ...existing, runAfter: input.runAfter });
+    }
+    if (kind === "heartbeat") {
+      validateGraceMs(input.graceMs);
+      const requestFields = HTTP_REQUEST_FIELDS.filter(field => input[field] !== undefined);
+      if (requestFields.length > 0) {
+        throw new ValidationError(`Heartbeat endpoints don't make requests: ${requestFields.join(", ")} can't be set`);
+      }
+    }
+    else if (input.graceMs !== undefined) {
+      throw new ValidationError("graceMs only applies to heartbeat endpoints");
+    }
+    else {
+      validateRequestTemplates(input);
+      await this.validateTlsCredentialOwner(existing.tenantId, input.tlsCredentialName);
+      await this.validateAuthProfileOwner(existing.tenantId, input.authProfileName);
+    }
+
     // Enforce minimum interval constraint if changing baselineIntervalMs
     if (input.baselineIntervalMs !== undefined) {
-      const userTier = await this.jobsRepo.getUserTier(userId);
+      const userTier = await this.jobsRepo.getUserTier(existing.tenantId);
       const executionLimits = getExecutionLimits(userTier);
 
       if (input.baselineIntervalMs < executionLimits.minIntervalMs) {
@@ -464,13 +838,40 @@ export class JobsManager {
       }
     }
 
-    // Build update object
-    const updates: Partial<JobEndpoint> = { ...input };
+    // Build update object; null and "" clear the timezone, which the repo stores as "" (UTC)
+    const { timezone: timezoneInput, ...fields } = input;
+    const updates: Partial<JobEndpoint> = { ...fields };
+    if (timezoneInput !== undefined) {
+      updates.timezone = timezoneInput ?? "";
+    }
+    const timezone = timezoneInput === undefined ? existing.timezone : timezoneInput || undefined;
+    const timezoneChanged = timezone !== existing.timezone;
 
-    // Recalculate nextRunAt if baseline schedule changed
+    // Recalculate nextRunAt if baseline schedule (or the zone it is evaluated in) changed
     const now = this.clock.now();
-    if (input.baselineCron && input.baselineCron !== existing.baselineCron) {
-      updates.nextRunAt = this.cron.next(input.baselineCron, now);
+    if (kind === "heartbeat") {
+      // Restart the check-in deadline from now under the new cadence/grace
+      const cadenceChanged = (input.baselineCron !== undefined && input.baselineCron !== existing.baselineCron)
+        || (input.baselineIntervalMs !== undefined && input.baselineIntervalMs !== existing.baselineIntervalMs)
+        || timezoneChanged
+        || (input.graceMs !== undefined && input.graceMs !== existing.graceMs);
+      if (cadenceChanged) {
+        updates.nextRunAt = planHeartbeatDeadline(now, { ...existing, ...updates, timezone }, this.cron);
+      }
+      const updated = await this.jobsRepo.updateEndpoint(endpointId, updates);
+      await this.recordEndpointChange("endpoint.updated", existing, updated);
+      return updated;
+    }
+
+    const baselineCron = input.baselineCron ?? existing.baselineCron;
+    if (
+      baselineCron
+      && (
+        (input.baselineCron && input.baselineCron !== existing.baselineCron)
+        || (timezoneChanged && !input.baselineIntervalMs)
+      )
+    ) {
+      updates.nextRunAt = this.cron.next(baselineCron, now, timezone);
     }
     else if (
       input.baselineIntervalMs
@@ -482,6 +883,7 @@ export class JobsManager {
     // Update via repo partial update
     const updated = await this.jobsRepo.updateEndpoint(endpointId, updates);
 
+    await this.recordEndpointChange("endpoint.updated", existing, updated);
     return updated;
   }
 
@@ -494,12 +896,101 @@ export class JobsManager {
    */
   async deleteEndpoint(userId: string, endpointId: string): Promise<void> {
     // Authorization check
-    const existing = await this.getEndpoint(userId, endpointId);
+    const existing = await this.getEndpoint(userId, endpointId, "editor");
     if (!existing) {
       throw new Error("Endpoint not found or unauthorized");
     }
 
+    // Drop the endpoint from its dependents' upstreams so "all" dependents aren't stuck on it
+    if (existing.jobId) {
+      const siblings = await this.jobsRepo.listEndpointsByJob(existing.jobId);
+      for (const sibling of siblings) {
+        if (sibling.runAfter?.upstreamIds.includes(endpointId)) {
+          await this.jobsRepo.updateEndpoint(sibling.id, {
+            runAfter: { ...sibling.runAfter, upstreamIds: sibling.runAfter.upstreamIds.filter(id => id !== endpointId) },
+          });
+        }
+      }
+    }
+
     await this.jobsRepo.deleteEndpoint(endpointId);
+    await this.recordEndpointChange("endpoint.deleted", existing, null);
+  }
+
+  /**
+   * Reject a TLS credential name the endpoint's owner has no credential for.
+   *
+   * The dispatcher looks credentials up by the endpoint's tenant, so an org endpoint
+   * can only use the organization's credentials, never those of the member editing it.
+   */
+  private async validateTlsCredentialOwner(ownerId: string, name: string | undefined): Promise<void> {
+    if (!name || !this.tlsCredentialsRepo)
+      return;
+    if (!await this.tlsCredentialsRepo.get(ownerId, name)) {
+      throw new ValidationError(`TLS credential "${name}" not found for this job's owner`);
+    }
+  }
+
+  /**
+   * Reject an auth profile name the endpoint's owner has no profile for, for the same
+   * reason as TLS credentials: the dispatcher resolves profiles by the endpoint's tenant.
+   */
+  private async validateAuthProfileOwner(ownerId: string, name: string | undefined): Promise<void> {
+    if (!name || !this.authProfilesRepo)
+      return;
+    if (!await this.authProfilesRepo.get(ownerId, name)) {
+      throw new ValidationError(`Auth profile "${name}" not found for this job's owner`);
+    }
+  }
+
+  /**
+   * Check an endpoint's upstreams against the rest of its job: each must be another
+   * active endpoint of the same job, and the dependencies must stay acyclic.
+   *
+   * @param endpoint - The endpoint with its proposed runAfter
+   * @throws ValidationError if an upstream is invalid or the change would create a cycle
+   */
+  private async validateDependencies(endpoint: JobEndpoint): Promise<void> {
+    const upstreamIds = endpoint.runAfter?.upstreamIds ?? [];
+    if (upstreamIds.length === 0)
+      return;
+    if (!endpoint.jobId) {
+      throw new ValidationError("Only endpoints that belong to a job can have dependencies");
+    }
+    if (upstreamIds.includes(endpoint.id)) {
+      throw new ValidationError("An endpoint can't depend on itself");
+    }
+
+    const siblings = (await this.jobsRepo.listEndpointsByJob(endpoint.jobId)).filter(s => s.id !== endpoint.id);
+    for (const upstreamId of upstreamIds) {
+      const upstream = siblings.find(s => s.id === upstreamId);
+      if (!upstream || upstream.archivedAt) {
+        throw new ValidationError(`Upstream endpoint "${upstreamId}" not found in this job`);
+      }
+    }
+
+    const cycle = findDependencyCycle([endpoint, ...siblings]);
+    if (cycle) {
+      // The cycle follows upstream links; reverse it to read in run order
+      const names = new Map([endpoint, ...siblings].map(ep => [ep.id, ep.name]));
+      throw new ValidationError(`Dependency cycle: ${cycle.reverse().map(id => names.get(id) ?? id).join(" → ")}`);
+    }
+  }
+
+  /**
+   * Enqueue one-shot runs for dependents whose upstream condition a finished run satisfied.
+   *
+   * @param upstream - The endpoint whose run just finished, with its post-run state
+   * @param now - When the run finished
+   */
+  private async enqueueDependentRuns(upstream: JobEndpoint, now: Date): Promise<void> {
+    if (!upstream.jobId)
+      return;
+
+    const siblings = await this.jobsRepo.listEndpointsByJob(upstream.jobId);
+    for (const run of planDependentRuns(upstream, siblings, now)) {
+      await this.jobsRepo.setNextRunAtIfEarlier(run.endpointId, run.runAt);
+    }
   }
 
   /**
@@ -512,12 +1003,14 @@ export class JobsManager {
    */
   async archiveEndpoint(userId: string, endpointId: string): Promise<JobEndpoint> {
     // Authorization check
-    const existing = await this.getEndpoint(userId, endpointId);
+    const existing = await this.getEndpoint(userId, endpointId, "editor");
     if (!existing) {
       throw new Error("Endpoint not found or unauthorized");
     }
 
-    return this.jobsRepo.archiveEndpoint(endpointId);
+    const archived = await this.jobsRepo.archiveEndpoint(endpointId);
+    await this.recordEndpointChange("endpoint.archived", existing, archived);
+    return archived;
   }
 
   // ==================== Execution Visibility ====================
@@ -532,6 +1025,7 @@ export class JobsManager {
    * @param filters.status - Filter by run status (success/failed)
    * @param filters.limit - Maximum number of runs to return
    * @param filters.offset - Offset for pagination
+   * @param filters.orgId - Organization whose runs to list when neither jobId nor endpointId is given
    * @returns Paginated run summaries with total count
    */
   async listRuns(
@@ -542,6 +1036,7 @@ export class JobsManager {
       status?: "success" | "failed";
       limit?: number;
       offset?: number;
+      orgId?: string;
     },
   ): Promise<{
       runs: Array<{
@@ -551,12 +1046,36 @@ export class JobsManager {
         status: string;
         durationMs?: number;
         source?: string;
+        scheduledFor?: Date;
+        lagMs?: number;
       }>;
       total: number;
     }> {
+    const { orgId, ...runFilters } = filters ?? {};
+
+    // A job or endpoint filter implies its owner; otherwise the user's or org's runs
+    let ownerId: string;
+    if (runFilters.endpointId) {
+      const endpoint = await this.getEndpoint(userId, runFilters.endpointId);
+      if (!endpoint) {
+        return { runs: [], total: 0 };
+      }
+      ownerId = endpoint.tenantId;
+    }
+    else if (runFilters.jobId) {
+      const job = await this.getJob(userId, runFilters.jobId);
+      if (!job) {
+        return { runs: [], total: 0 };
+      }
+      ownerId = job.orgId ?? job.userId;
+    }
+    else {
+      ownerId = await this.access.resolveOwner(userId, orgId, "viewer");
+    }
+
     return this.runsRepo.listRuns({
-      userId,
-      ...filters,
+      userId: ownerId,
+      ...runFilters,
     });
   }
 
@@ -575,8 +1094,15 @@ export class JobsManager {
     finishedAt?: Date;
     durationMs?: number;
     errorMessage?: string;
+    errorDetails?: Record<string, unknown>;
     source?: string;
     attempt: number;
+    attempts?: import("@cronicorn/domain").RunAttempt[];
+    queueWaitMs?: number;
+    scheduledFor?: Date;
+    lagMs?: number;
+    triggeredBy?: AuditActor;
+    traceId?: string;
     responseBody?: import("@cronicorn/domain").JsonValue | null;
     statusCode?: number;
     endpoint?: {
@@ -592,9 +1118,9 @@ export class JobsManager {
       return null;
     }
 
-    // Authorization: verify user owns the endpoint that this run belongs to
-    const endpoint = await this.jobsRepo.getEndpoint(run.endpointId);
-    if (!endpoint || endpoint.tenantId !== userId) {
+    // Authorization: verify user can see the endpoint that this run belongs to
+    const endpoint = await this.getEndpoint(userId, run.endpointId);
+    if (!endpoint) {
       return null;
     }
 
@@ -629,13 +1155,16 @@ export class JobsManager {
     input: { intervalMs: number; ttlMinutes?: number; reason?: string },
   ): Promise<void> {
     // Authorization check
-    const endpoint = await this.getEndpoint(userId, endpointId);
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
     if (!endpoint) {
       throw new Error("Endpoint not found or unauthorized");
     }
+    if (endpoint.kind === "heartbeat") {
+      throw new ValidationError("Schedule hints don't apply to heartbeat endpoints: the external job keeps its own schedule");
+    }
 
     // Enforce tier-based minimum interval
-    const userTier = await this.jobsRepo.getUserTier(userId);
+    const userTier = await this.jobsRepo.getUserTier(endpoint.tenantId);
     const executionLimits = getExecutionLimits(userTier);
 
     if (input.intervalMs < executionLimits.minIntervalMs) {
@@ -678,6 +1207,8 @@ export class JobsManager {
       const suggestedNext = new Date(endpoint.lastRunAt.getTime() + input.intervalMs);
       await this.jobsRepo.setNextRunAtIfEarlier(endpointId, suggestedNext);
     }
+
+    await this.recordEndpointChange("endpoint.interval_hint", endpoint);
   }
 
   /**
@@ -703,10 +1234,13 @@ export class JobsManager {
     },
   ): Promise<void> {
     // Authorization check
-    const endpoint = await this.getEndpoint(userId, endpointId);
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
     if (!endpoint) {
       throw new Error("Endpoint not found or unauthorized");
     }
+    if (endpoint.kind === "heartbeat") {
+      throw new ValidationError("Schedule hints don't apply to heartbeat endpoints: the external job keeps its own schedule");
+    }
 
     const now = this.clock.now();
 
@@ -741,6 +1275,8 @@ export class JobsManager {
 
     // Nudge nextRunAt if earlier
     await this.jobsRepo.setNextRunAtIfEarlier(endpointId, targetTime);
+
+    await this.recordEndpointChange("endpoint.one_shot_hint", endpoint);
   }
 
   /**
@@ -759,7 +1295,7 @@ export class JobsManager {
     input: { pausedUntil: string | Date | null; reason?: string },
   ): Promise<void> {
     // Authorization check
-    const endpoint = await this.getEndpoint(userId, endpointId);
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
     if (!endpoint) {
       throw new Error("Endpoint not found or unauthorized");
     }
@@ -772,6 +1308,7 @@ export class JobsManager {
     }
 
     await this.jobsRepo.setPausedUntil(endpointId, pauseDate);
+    await this.recordEndpointChange(pauseDate ? "endpoint.paused" : "endpoint.resumed", endpoint);
   }
 
   /**
@@ -783,12 +1320,13 @@ export class JobsManager {
    */
   async clearAdaptiveHints(userId: string, endpointId: string): Promise<void> {
     // Authorization check
-    const endpoint = await this.getEndpoint(userId, endpointId);
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
     if (!endpoint) {
       throw new Error("Endpoint not found or unauthorized");
     }
 
     await this.jobsRepo.clearAIHints(endpointId);
+    await this.recordEndpointChange("endpoint.hints_cleared", endpoint);
   }
 
   /**
@@ -800,12 +1338,13 @@ export class JobsManager {
    */
   async resetFailureCount(userId: string, endpointId: string): Promise<void> {
     // Authorization check
-    const endpoint = await this.getEndpoint(userId, endpointId);
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
     if (!endpoint) {
       throw new Error("Endpoint not found or unauthorized");
     }
 
     await this.jobsRepo.resetFailureCount(endpointId);
+    await this.recordEndpointChange("endpoint.failures_reset", endpoint);
   }
 
   /**
@@ -840,6 +1379,63 @@ export class JobsManager {
     return this.runsRepo.getHealthSummary(endpointId, since);
   }
 
+  /**
+   * Resolve an endpoint's request templates for a test run, the way the scheduler does at
+   * dispatch time: against the latest responses of its sibling endpoints. `run.id` renders
+   * as "test" since the run is recorded after the request is sent.
+   *
+   * @param endpoint - The endpoint to test
+   * @returns The endpoint with its request rendered, or the template error
+   */
+  async renderTestRequest(endpoint: JobEndpoint): Promise<RenderedTestRequest> {
+    if (!hasRequestTemplates(endpoint)) {
+      return { endpoint };
+    }
+
+    const siblings = endpoint.jobId ? await this.runsRepo.getSiblingLatestResponses(endpoint.jobId, endpoint.id) : [];
+    const context = buildTemplateContext({ endpoint, runId: "test", now: this.clock.now(), siblings });
+    try {
+      return { endpoint: renderRequestTemplates(endpoint, context) };
+    }
+    catch (error) {
+      if (error instanceof TemplateError) {
+        return { error: `Template error: ${error.message}` };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply the endpoint's concurrency policy before a test request is sent.
+   *
+   * Under forbid, an open run skips the test: it's recorded as a canceled test run with
+   * the reason, and nothing is sent. Under replace, the open runs are canceled first.
+   *
+   * @param endpoint - The endpoint to test
+   * @returns The canceled test run when the policy skips the test, otherwise null
+   */
+  async applyTestRunConcurrency(endpoint: JobEndpoint): Promise<TestRunResult | null> {
+    if (!endpoint.concurrencyPolicy || endpoint.concurrencyPolicy === "allow") {
+      return null;
+    }
+
+    const plan = planConcurrency(endpoint.concurrencyPolicy, await this.runsRepo.listOpenRuns(endpoint.id));
+    if (plan.action === "run") {
+      await cancelReplacedRuns(this.runsRepo, plan.cancel, this.clock.now());
+      return null;
+    }
+
+    const runId = await this.runsRepo.create({
+      endpointId: endpoint.id,
+      status: "running",
+      attempt: 1,
+      source: "test",
+    });
+    await this.runsRepo.finish(runId, { status: "canceled", durationMs: 0, err: plan.reason });
+
+    return { runId, status: "canceled", durationMs: 0, errorMessage: plan.reason };
+  }
+
   /**
    * Record a test run for an endpoint.
    * Creates a run with source "test" and finishes it immediately.
@@ -849,17 +1445,7 @@ export class JobsManager {
    * @param result - The execution result from the dispatcher
    * @returns Test run result with runId and execution details
    */
-  async recordTestRun(
-    endpointId: string,
-    result: ExecutionResult,
-  ): Promise<{
-      runId: string;
-      status: "success" | "failed";
-      durationMs: number;
-      statusCode?: number;
-      responseBody?: import("@cronicorn/domain").JsonValue;
-      errorMessage?: string;
-    }> {
+  async recordTestRun(endpointId: string, result: ExecutionResult): Promise<TestRunResult> {
     const runId = await this.runsRepo.create({
       endpointId,
       status: "running",
@@ -873,6 +1459,7 @@ export class JobsManager {
       statusCode: result.statusCode,
       responseBody: result.responseBody,
       err: result.errorMessage,
+      errorDetails: result.criteriaFailure ?? result.authFailure,
     });
 
     return {
@@ -885,16 +1472,359 @@ export class JobsManager {
     };
   }
 
+  // ==================== Manual Runs ====================
+
+  /**
+   * Request an immediate run of an endpoint ("run now").
+   *
+   * Nothing is dispatched here: the request is stored on the endpoint and the scheduler
+   * claims it on its next tick, so the run goes through leasing, monthly run limits,
+   * signing and post-run scheduling like a scheduled one. It's recorded with source
+   * "manual" and the requesting actor. A second request before the first runs replaces it.
+   *
+   * @param userId - The requesting user (for authorization)
+   * @param actor - Who is requesting the run (recorded on the run)
+   * @param endpointId - The endpoint ID
+   * @param overrides - One-off request changes for this run only
+   * @param overrides.headersJson - Headers merged over the endpoint's headers
+   * @param overrides.bodyJson - Body replacing the endpoint's body
+   * @returns The request ID and when the run was requested
+   * @throws Error if endpoint not found or user not authorized
+   * @throws ValidationError if the endpoint can't run (heartbeat, archived or paused)
+   */
+  async runNow(
+    userId: string,
+    actor: AuditActor,
+    endpointId: string,
+    overrides: Pick<AddEndpointInput, "headersJson" | "bodyJson"> = {},
+  ): Promise<{ requestId: string; requestedAt: Date }> {
+    // Authorization check
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
+    if (!endpoint) {
+      throw new Error("Endpoint not found or unauthorized");
+    }
+
+    const now = this.clock.now();
+    await this.assertRunnable(endpoint, now);
+    validateRequestTemplates(overrides);
+
+    const requestId = nanoid();
+    await this.jobsRepo.requestManualRun(endpointId, {
+      id: requestId,
+      requestedAt: now,
+      requestedBy: actor,
+      headersJson: overrides.headersJson,
+      bodyJson: overrides.bodyJson,
+    });
+    await this.recordEndpointChange("endpoint.run_requested", endpoint);
+
+    return { requestId, requestedAt: now };
+  }
+
+  /**
+   * Checks that an endpoint can be run on request: an unarchived, unpaused http endpoint
+   * of an active job.
+   */
+  private async assertRunnable(endpoint: JobEndpoint, now: Date): Promise<void> {
+    if (endpoint.kind === "heartbeat") {
+      throw new ValidationError("Heartbeat endpoints can't be run; check in on the ping URL instead");
+    }
+    if (endpoint.archivedAt) {
+      throw new ValidationError("Cannot run an archived endpoint");
+    }
+    if (endpoint.pausedUntil && endpoint.pausedUntil > now) {
+      throw new ValidationError(`Endpoint is paused until ${endpoint.pausedUntil.toISOString()}; resume it to run it now`);
+    }
+    const job = endpoint.jobId ? await this.jobsRepo.getJob(endpoint.jobId) : null;
+    if (job && job.status !== "active") {
+      throw new ValidationError(`Cannot run an endpoint of a ${job.status} job`);
+    }
+  }
+
+  // ==================== Trigger URLs ====================
+
+  /**
+   * Get an endpoint's trigger token metadata (never the token itself).
+   *
+   * @param userId - The requesting user (for authorization)
+   * @param endpointId - The endpoint ID
+   * @returns Whether the endpoint has a trigger URL, with the token's display prefix and dates
+   * @throws Error if endpoint not found or user not authorized
+   */
+  async getTriggerToken(userId: string, endpointId: string): Promise<{
+    hasToken: boolean;
+    tokenPrefix: string | null;
+    createdAt: Date | null;
+    rotatedAt: Date | null;
+  }> {
+    const endpoint = await this.getEndpoint(userId, endpointId);
+    if (!endpoint) {
+      throw new Error("Endpoint not found or unauthorized");
+    }
+
+    const token = endpoint.triggerToken;
+    return {
+      hasToken: Boolean(token),
+      tokenPrefix: token?.prefix ?? null,
+      createdAt: token?.createdAt ?? null,
+      rotatedAt: token?.rotatedAt ?? null,
+    };
+  }
+
+  /**
+   * Create a trigger URL for an endpoint.
+   *
+   * The token is returned once; only its hash is stored. Anyone holding it can request
+   * runs of this endpoint (and nothing else) through `POST /triggers/:token`.
+   *
+   * @param userId - The requesting user (for authorization)
+   * @param endpointId - The endpoint ID
+   * @returns The token and its display prefix
+   * @throws Error if endpoint not found, user not authorized, or the endpoint already has a token
+   * @throws ValidationError for heartbeat endpoints
+   */
+  async createTriggerToken(userId: string, endpointId: string): Promise<{ token: string; tokenPrefix: string }> {
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
+    if (!endpoint) {
+      throw new Error("Endpoint not found or unauthorized");
+    }
+    if (endpoint.kind === "heartbeat") {
+      throw new ValidationError("Heartbeat endpoints can't have a trigger URL; check in on the ping URL instead");
+    }
+    if (endpoint.triggerToken) {
+      throw new Error("Trigger token already exists; rotate it to get a new one");
+    }
+
+    const token = `${TRIGGER_TOKEN_PREFIX}${nanoid(32)}`;
+    const tokenPrefix = triggerTokenDisplayPrefix(token);
+    await this.jobsRepo.setTriggerToken(endpointId, {
+      hash: hashTriggerToken(token),
+      prefix: tokenPrefix,
+      createdAt: this.clock.now(),
+    });
+    await this.recordEndpointChange("endpoint.trigger_token_created", endpoint);
+
+    return { token, tokenPrefix };
+  }
+
+  /**
+   * Replace an endpoint's trigger token. The old token stops working immediately.
+   *
+   * @param userId - The requesting user (for authorization)
+   * @param endpointId - The endpoint ID
+   * @returns The new token and its display prefix
+   * @throws Error if endpoint not found, user not authorized, or the endpoint has no token
+   */
+  async rotateTriggerToken(userId: string, endpointId: string): Promise<{ token: string; tokenPrefix: string }> {
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
+    if (!endpoint) {
+      throw new Error("Endpoint not found or unauthorized");
+    }
+    if (!endpoint.triggerToken) {
+      throw new Error("Trigger token not found");
+    }
+
+    const token = `${TRIGGER_TOKEN_PREFIX}${nanoid(32)}`;
+    const tokenPrefix = triggerTokenDisplayPrefix(token);
+    await this.jobsRepo.setTriggerToken(endpointId, {
+      hash: hashTriggerToken(token),
+      prefix: tokenPrefix,
+      createdAt: endpoint.triggerToken.createdAt,
+      rotatedAt: this.clock.now(),
+    });
+    await this.recordEndpointChange("endpoint.trigger_token_rotated", endpoint);
+
+    return { token, tokenPrefix };
+  }
+
+  /**
+   * Remove an endpoint's trigger URL. A run already requested through it still runs.
+   *
+   * @param userId - The requesting user (for authorization)
+   * @param endpointId - The endpoint ID
+   * @throws Error if endpoint not found, user not authorized, or the endpoint has no token
+   */
+  async revokeTriggerToken(userId: string, endpointId: string): Promise<void> {
+    const endpoint = await this.getEndpoint(userId, endpointId, "editor");
+    if (!endpoint) {
+      throw new Error("Endpoint not found or unauthorized");
+    }
+    if (!endpoint.triggerToken) {
+      throw new Error("Trigger token not found");
+    }
+
+    await this.jobsRepo.setTriggerToken(endpointId, null);
+    await this.recordEndpointChange("endpoint.trigger_token_revoked", endpoint);
+  }
+
+  /**
+   * Request a run through an endpoint's trigger URL.
+   *
+   * Works like run now: the scheduler runs the endpoint on its next tick with source
+   * "trigger". A JSON object payload is merged into the endpoint's body for that run.
+   * Payloads come from outside, so they can't contain templates. Requests over the
+   * owner's monthly run limit are rejected rather than deferred to next month.
+   *
+   * No user context: the token in the trigger URL is the credential.
+   *
+   * @param token - Trigger token from the URL
+   * @param payload - Optional JSON object merged into the request body
+   * @returns The request ID and when the run was requested
+   * @throws Error if no endpoint has this token, or the monthly run limit is reached
+   * @throws ValidationError if the endpoint can't run or the payload is invalid
+   */
+  async requestTriggeredRun(
+    token: string,
+    payload?: { [key: string]: JsonValue },
+  ): Promise<{ requestId: string; requestedAt: Date }> {
+    const endpoint = await this.jobsRepo.getEndpointByTriggerTokenHash(hashTriggerToken(token));
+    if (!endpoint) {
+      throw new Error("Trigger not found");
+    }
+
+    const now = this.clock.now();
+    await this.assertRunnable(endpoint, now);
+    if (payload !== undefined && (typeof payload !== "object" || payload === null || Array.isArray(payload))) {
+      throw new ValidationError("Trigger payload must be a JSON object");
+    }
+    if (payload && hasRequestTemplates({ bodyJson: payload })) {
+      throw new ValidationError("Trigger payloads can't contain templates ({{ ... }})");
+    }
+
+    const startOfMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const [metrics, userTier] = await Promise.all([
+      this.runsRepo.getFilteredMetrics({ userId: endpoint.tenantId, sinceDate: startOfMonth }),
+      this.jobsRepo.getUserTier(endpoint.tenantId),
+    ]);
+    const runsLimit = getRunsLimit(userTier);
+    if (metrics.totalRuns >= runsLimit) {
+      throw new Error(`Monthly run limit reached: ${userTier} tier allows ${runsLimit} runs per month`);
+    }
+
+    const requestId = nanoid();
+    await this.jobsRepo.requestManualRun(endpoint.id, {
+      id: requestId,
+      requestedAt: now,
+      source: "trigger",
+      payloadJson: payload && Object.keys(payload).length > 0 ? payload : undefined,
+    });
+
+    return { requestId, requestedAt: now };
+  }
+
+  // ==================== Heartbeat Check-ins ====================
+
+  /**
+   * Record a check-in on a heartbeat endpoint's ping URL.
+   *
+   * - "start" opens a running run; the next success/fail check-in closes it with the elapsed duration
+   * - "success" (plain ping) and "fail" finish a run and push the check-in deadline out by one
+   *   baseline period plus grace, resetting or incrementing the failure count like a scheduled run
+   *
+   * No user context: the token in the ping URL is the credential.
+   *
+   * @param token - Ping token from the URL
+   * @param signal - Check-in signal
+   * @param body - Raw request body; stored as the run's response body when it is JSON
+   * @returns The run the check-in recorded
+   * @throws Error if no heartbeat endpoint has this token
+   */
+  async recordCheckIn(
+    token: string,
+    signal: HeartbeatSignal,
+    body = "",
+  ): Promise<{ runId: string; status: "running" | "success" | "failed" }> {
+    const endpoint = await this.jobsRepo.getEndpointByPingToken(token);
+    if (!endpoint || endpoint.kind !== "heartbeat") {
+      throw new Error("Heartbeat endpoint not found");
+    }
+
+    const now = this.clock.now();
+    const responseBody = parseCheckInBody(body, endpoint.maxResponseSizeKb);
+
+    if (signal === "start") {
+      // The previous run never reported back if it is still open; close it so starts don't pile up
+      const stale = await this.runsRepo.getOpenRun(endpoint.id, HEARTBEAT_RUN_SOURCE);
+      if (stale) {
+        await this.runsRepo.finish(stale.id, {
+          status: "failed",
+          durationMs: Math.max(0, now.getTime() - stale.startedAt.getTime()),
+          err: `Started at ${stale.startedAt.toISOString()} but a new start check-in arrived before a completion check-in`,
+        });
+      }
+
+      const runId = await this.runsRepo.create({
+        endpointId: endpoint.id,
+        status: "running",
+        attempt: 1,
+        source: HEARTBEAT_RUN_SOURCE,
+      });
+      return { runId, status: "running" };
+    }
+
+    const open = await this.runsRepo.getOpenRun(endpoint.id, HEARTBEAT_RUN_SOURCE);
+    const runId = open?.id ?? await this.runsRepo.create({
+      endpointId: endpoint.id,
+      status: "running",
+      attempt: 1,
+      source: HEARTBEAT_RUN_SOURCE,
+    });
+    const durationMs = open ? Math.max(0, now.getTime() - open.startedAt.getTime()) : 0;
+    const status = signal === "fail" ? "failed" : "success";
+    const errorMessage = status === "failed" ? "Check-in reported failure" : undefined;
+
+    await this.runsRepo.finish(runId, {
+      status,
+      durationMs,
+      responseBody,
+      err: errorMessage,
+    });
+
+    const nextRunAt = planHeartbeatDeadline(now, endpoint, this.cron);
+    await this.jobsRepo.updateAfterRun(endpoint.id, {
+      lastRunAt: now,
+      nextRunAt,
+      status: { status, durationMs },
+      failureCountPolicy: status === "success" ? "reset" : "increment",
+      clearExpiredHints: true,
+    });
+
+    const failureCount = status === "success" ? 0 : endpoint.failureCount + 1;
+    if (status === "success") {
+      await this.enqueueDependentRuns({ ...endpoint, failureCount, lastRunAt: now, nextRunAt }, now);
+    }
+
+    // The check-in is already recorded: a failing subscriber (alerting) mustn't fail it
+    if (this.events) {
+      try {
+        await this.events.runFinished({
+          endpoint: { ...endpoint, failureCount, lastRunAt: now, nextRunAt },
+          runId,
+          status,
+          errorMessage,
+          failureCount,
+          finishedAt: now,
+        });
+      }
+      catch (err) {
+        this.logger?.error({ err, runId }, "Endpoint event subscriber failed");
+      }
+    }
+
+    return { runId, status };
+  }
+
   // ==================== Usage & Quota ====================
 
   /**
-   * Get usage statistics for a user.
+   * Get usage statistics for a user, or for one of their organizations.
    *
    * @param userId - The user ID
    * @param since - Start date for usage calculation (typically start of current month)
+   * @param orgId - Report the organization's usage against its tier instead
    * @returns Current usage vs limits for AI calls, endpoints, and total runs
    */
-  async getUsage(userId: string, since: Date): Promise<{
+  async getUsage(userId: string, since: Date, orgId?: string): Promise<{
     aiCallsUsed: number;
     aiCallsLimit: number;
     endpointsUsed: number;
@@ -902,7 +1832,8 @@ export class JobsManager {
     totalRuns: number;
     totalRunsLimit: number;
   }> {
-    return this.jobsRepo.getUsage(userId, since);
+    const ownerId = await this.access.resolveOwner(userId, orgId, "viewer");
+    return this.jobsRepo.getUsage(ownerId, since);
   }
 
   // ==================== AI Analysis Sessions ====================
@@ -968,6 +1899,7 @@ export class JobsManager {
     tokenUsage: number | null;
     durationMs: number | null;
     warnings: AISessionWarning[];
+    traceId: string | null;
   } | null> {
     // Get session from repo (includes endpoint info via join)
     const session = await this.sessionsRepo.getSession(sessionId);
@@ -983,4 +1915,40 @@ export class JobsManager {
 
     return session;
   }
+
+  // ==================== Audit ====================
+
+  /**
+   * Record a job change for the request's actor (no-op without an AuditLog).
+   */
+  private async recordJobChange(action: AuditAction, before: Job | null, after: Job): Promise<void> {
+    await this.auditLog?.record({
+      tenantId: after.orgId ?? after.userId,
+      action,
+      jobId: after.id,
+      before,
+      after,
+    });
+  }
+
+  /**
+   * Record an endpoint change for the request's actor (no-op without an AuditLog).
+   *
+   * `after` is null when the endpoint was deleted and re-read when omitted
+   * (hint, pause and reset writes don't return the endpoint).
+   */
+  private async recordEndpointChange(action: AuditAction, before: JobEndpoint | null, after?: JobEndpoint | null): Promise<void> {
+    if (!this.auditLog) {
+      return;
+    }
+    const endpoint = (after ?? before)!;
+    await this.auditLog.record({
+      tenantId: endpoint.tenantId,
+      action,
+      jobId: endpoint.jobId,
+      endpointId: endpoint.id,
+      before,
+      after: after === undefined ? await this.jobsRepo.getEndpoint(endpoint.id) : after,
+    });
+  }
 }
@@ -0,0 +1,133 @@
+import type { AlertNotification, HealthSummary, NotificationChannel, NotificationSender, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger, InMemoryNotificationsRepo, makeEndpoint } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { AlertsService } from "../alerts.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+function summary(successCount: number, failureCount: number): HealthSummary {
+  return { successCount, failureCount, avgDurationMs: null, lastRun: null, failureStreak: 0 };
+}
+
+describe("alertsService", () => {
+  let notifications: InMemoryNotificationsRepo;
+  let sent: Array<{ channel: NotificationChannel; notification: AlertNotification }>;
+  let sender: NotificationSender;
+  let getHealthSummary: ReturnType<typeof vi.fn>;
+  let service: AlertsService;
+  let channelId: string;
+
+  beforeEach(async () => {
+    notifications = new InMemoryNotificationsRepo(() => now);
+    sent = [];
+    sender = { send: vi.fn(async (channel, notification) => {
+      sent.push({ channel, notification });
+    }) };
+    getHealthSummary = vi.fn();
+    // eslint-disable-next-line ts/consistent-type-assertions
+    const runs = { getHealthSummary } as unknown as RunsRepo;
+    service = new AlertsService({ notifications, runs, sender, logger: new FakeLogger() });
+
+    const channel = await notifications.createChannel({ userId: "t-1", name: "ops", config: { type: "email", to: ["ops@example.com"] }, enabled: true });
+    channelId = channel.id;
+  });
+
+  async function addRule(overrides: Partial<Parameters<InMemoryNotificationsRepo["createRule"]>[0]> = {}) {
+    return notifications.createRule({
+      userId: "t-1",
+      name: "Failing",
+      condition: { type: "failureStreak", threshold: 2 },
+      channelIds: [channelId],
+      cooldownMinutes: 60,
+      notifyOnResolve: true,
+      enabled: true,
+      ...overrides,
+    });
+  }
+
+  function finished(failureCount: number, at = now) {
+    return service.runFinished({
+      endpoint: makeEndpoint({ failureCount }),
+      runId: "run-1",
+      status: failureCount > 0 ? "failed" : "success",
+      failureCount,
+      finishedAt: at,
+    });
+  }
+
+  it("notifies once per firing and sends a resolved message", async () => {
+    const rule = await addRule();
+
+    await finished(1);
+    expect(sent).toHaveLength(0);
+
+    await finished(2);
+    await finished(3);
+    expect(sent.map(s => s.notification.kind)).toEqual(["firing"]);
+    expect(sent[0]!.notification).toMatchObject({
+      rule: { id: rule.id, name: "Failing" },
+      endpoint: { id: "ep-1", name: "test_endpoint", jobId: "job-1" },
+      summary: "2 consecutive failed runs (threshold 2)",
+      runId: "run-1",
+    });
+
+    await finished(0);
+    expect(sent.map(s => s.notification.kind)).toEqual(["firing", "resolved"]);
+    expect(await notifications.getAlertState(rule.id, "ep-1")).toMatchObject({ status: "resolved", resolvedAt: now });
+  });
+
+  it("evaluates windowed success rate from run history", async () => {
+    await addRule({ condition: { type: "successRate", belowPct: 90, windowMinutes: 60 } });
+    getHealthSummary.mockResolvedValue(summary(7, 3));
+
+    await finished(1);
+
+    expect(getHealthSummary).toHaveBeenCalledWith("ep-1", new Date("2026-01-01T11:00:00Z"));
+    expect(sent[0]!.notification.summary).toBe("Success rate 70% over the last 60 minutes (7 of 10 runs, threshold 90%)");
+  });
+
+  it("only fires noSuccess for endpoints with history older than the window", async () => {
+    await addRule({ condition: { type: "noSuccess", withinMinutes: 30 } });
+    getHealthSummary.mockResolvedValue(summary(0, 2));
+
+    await finished(2);
+    expect(sent).toHaveLength(0);
+
+    getHealthSummary.mockImplementation(async (_id: string, since: Date) => since.getTime() === 0 ? summary(4, 2) : summary(0, 2));
+    await finished(2);
+    expect(sent[0]!.notification.summary).toBe("No successful run in the last 30 minutes");
+  });
+
+  it("evaluates only aiPaused rules when the AI pauses an endpoint", async () => {
+    await addRule({ condition: { type: "failureStreak", threshold: 1 } });
+    await addRule({ name: "Paused", condition: { type: "aiPaused" } });
+
+    await service.endpointPaused({
+      endpoint: makeEndpoint({ failureCount: 5 }),
+      pausedUntil: new Date("2026-01-01T13:00:00Z"),
+      reason: "Upstream maintenance",
+      at: now,
+    });
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.notification).toMatchObject({
+      rule: { name: "Paused" },
+      summary: "Paused by the AI planner until 2026-01-01T13:00:00.000Z: Upstream maintenance",
+    });
+  });
+
+  it("skips disabled channels and keeps going when delivery fails", async () => {
+    const broken = await notifications.createChannel({ userId: "t-1", name: "broken", config: { type: "webhook", url: "https://hooks.example.com" }, enabled: true });
+    const disabled = await notifications.createChannel({ userId: "t-1", name: "off", config: { type: "slack", webhookUrl: "https://hooks.slack.com/services/x" }, enabled: false });
+    const rule = await addRule({ condition: { type: "failureStreak", threshold: 1 }, channelIds: [broken.id, disabled.id, channelId] });
+    vi.mocked(sender.send).mockRejectedValueOnce(new Error("connection refused"));
+
+    await finished(1);
+
+    expect(sender.send).toHaveBeenCalledTimes(2);
+    expect(sent.map(s => s.channel.id)).toEqual([channelId]);
+    expect(await notifications.getAlertState(rule.id, "ep-1")).toMatchObject({ status: "firing", lastNotifiedAt: now });
+  });
+});
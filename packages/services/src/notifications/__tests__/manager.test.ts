@@ -0,0 +1,134 @@
+import type { Clock, NotificationSender } from "@cronicorn/domain";
+
+import { InMemoryJobsRepo, InMemoryNotificationsRepo, makeEndpoint } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { NotificationsManager } from "../manager.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+describe("notificationsManager", () => {
+  let notifications: InMemoryNotificationsRepo;
+  let jobs: InMemoryJobsRepo;
+  let sender: NotificationSender;
+  let manager: NotificationsManager;
+  let channelId: string;
+
+  beforeEach(async () => {
+    notifications = new InMemoryNotificationsRepo(() => now);
+    jobs = new InMemoryJobsRepo(() => now);
+    sender = { send: vi.fn() };
+    const clock: Clock = { now: () => now, sleep: async () => {} };
+    manager = new NotificationsManager(notifications, jobs, sender, clock);
+
+    const channel = await manager.createChannel("user-1", { name: "ops", config: { type: "email", to: ["ops@example.com"] } });
+    channelId = channel.id;
+  });
+
+  describe("channels", () => {
+    it("validates channel config", async () => {
+      await expect(manager.createChannel("user-1", { name: "x", config: { type: "email", to: ["not-an-email"] } }))
+        .rejects
+        .toThrow("Invalid email address \"not-an-email\"");
+      await expect(manager.createChannel("user-1", { name: "x", config: { type: "slack", webhookUrl: "https://example.com/hook" } }))
+        .rejects
+        .toThrow("Invalid Slack webhook URL");
+      await expect(manager.createChannel("user-1", { name: "x", config: { type: "webhook", url: "ftp://example.com" } }))
+        .rejects
+        .toThrow("Invalid webhook URL");
+    });
+
+    it("removes a deleted channel from rules", async () => {
+      const second = await manager.createChannel("user-1", { name: "chat", config: { type: "slack", webhookUrl: "https://hooks.slack.com/services/T/B/x" } });
+      const rule = await manager.createRule("user-1", {
+        name: "Failing",
+        condition: { type: "failureStreak", threshold: 3 },
+        channelIds: [channelId, second.id],
+      });
+
+      await manager.deleteChannel("user-1", second.id);
+
+      expect((await notifications.getRule("user-1", rule.id))?.channelIds).toEqual([channelId]);
+      await expect(manager.deleteChannel("user-2", channelId)).rejects.toThrow("Channel not found or unauthorized");
+    });
+
+    it("reports test delivery failures without throwing", async () => {
+      vi.mocked(sender.send).mockRejectedValueOnce(new Error("SMTP auth failed"));
+
+      expect(await manager.sendTestNotification("user-1", channelId)).toEqual({ delivered: false, error: "SMTP auth failed" });
+      expect(await manager.sendTestNotification("user-1", channelId)).toEqual({ delivered: true });
+      expect(vi.mocked(sender.send).mock.calls[1]![1]).toMatchObject({ kind: "firing", summary: "This is a test notification for channel \"ops\"" });
+    });
+  });
+
+  describe("rules", () => {
+    it("applies defaults", async () => {
+      const rule = await manager.createRule("user-1", {
+        name: "Paused",
+        condition: { type: "aiPaused" },
+        channelIds: [channelId],
+      });
+
+      expect(rule).toMatchObject({ cooldownMinutes: 60, notifyOnResolve: true, enabled: true, jobId: undefined, endpointId: undefined });
+    });
+
+    it("validates conditions and cooldown", async () => {
+      const base = { name: "r", channelIds: [channelId] };
+      await expect(manager.createRule("user-1", { ...base, condition: { type: "failureStreak", threshold: 0 } }))
+        .rejects
+        .toThrow("Failure streak threshold must be an integer between 1 and 100");
+      await expect(manager.createRule("user-1", { ...base, condition: { type: "successRate", belowPct: 90, windowMinutes: 1 } }))
+        .rejects
+        .toThrow("Success rate window must be between 5 and 10080 minutes");
+      await expect(manager.createRule("user-1", { ...base, condition: { type: "aiPaused" }, cooldownMinutes: -1 }))
+        .rejects
+        .toThrow("Cooldown must be between 0 and 10080 minutes");
+      await expect(manager.createRule("user-1", { ...base, channelIds: [], condition: { type: "aiPaused" } }))
+        .rejects
+        .toThrow("Alert rules need between 1 and 10 channels");
+    });
+
+    it("checks ownership of channels, jobs and endpoints", async () => {
+      const condition = { type: "aiPaused" } as const;
+      const job = await jobs.createJob({ userId: "user-2", name: "Other", status: "active" });
+      await jobs.addEndpoint(makeEndpoint({ id: "ep-other", tenantId: "user-2" }));
+
+      await expect(manager.createRule("user-2", { name: "r", condition, channelIds: [channelId] }))
+        .rejects
+        .toThrow("Channel not found or unauthorized");
+      await expect(manager.createRule("user-1", { name: "r", condition, channelIds: [channelId], jobId: job.id }))
+        .rejects
+        .toThrow("Job not found or unauthorized");
+      await expect(manager.createRule("user-1", { name: "r", condition, channelIds: [channelId], endpointId: "ep-other" }))
+        .rejects
+        .toThrow("Endpoint not found or unauthorized");
+      await expect(manager.createRule("user-1", { name: "r", condition, channelIds: [channelId], jobId: "j", endpointId: "e" }))
+        .rejects
+        .toThrow("set either jobId or endpointId, not both");
+    });
+
+    it("rejects job and endpoint scopes on organization jobs", async () => {
+      const condition = { type: "aiPaused" } as const;
+      const job = await jobs.createJob({ userId: "user-1", orgId: "org-1", name: "Team", status: "active" });
+      await jobs.addEndpoint(makeEndpoint({ id: "ep-team", tenantId: "org-1", jobId: job.id }));
+
+      await expect(manager.createRule("user-1", { name: "r", condition, channelIds: [channelId], jobId: job.id }))
+        .rejects
+        .toThrow("alert rules can't watch organization jobs");
+      await expect(manager.createRule("user-1", { name: "r", condition, channelIds: [channelId], endpointId: "ep-team" }))
+        .rejects
+        .toThrow("alert rules can't watch organization jobs");
+    });
+
+    it("moves a rule from a job to an endpoint scope", async () => {
+      const job = await jobs.createJob({ userId: "user-1", name: "Mine", status: "active" });
+      await jobs.addEndpoint(makeEndpoint({ id: "ep-mine", tenantId: "user-1", jobId: job.id }));
+      const rule = await manager.createRule("user-1", { name: "r", condition: { type: "aiPaused" }, channelIds: [channelId], jobId: job.id });
+
+      const updated = await manager.updateRule("user-1", rule.id, { jobId: null, endpointId: "ep-mine" });
+
+      expect(updated).toMatchObject({ jobId: undefined, endpointId: "ep-mine" });
+      await expect(manager.updateRule("user-2", rule.id, { name: "x" })).rejects.toThrow("Rule not found or unauthorized");
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import type {
+  AlertFacts,
+  AlertNotification,
+  AlertRule,
+  EndpointEvents,
+  EndpointPausedEvent,
+  EndpointRunFinishedEvent,
+  JobEndpoint,
+  Logger,
+  NotificationSender,
+  NotificationsRepo,
+  RunsRepo,
+} from "@cronicorn/domain";
+
+import { evaluateAlertCondition, nextAlertState } from "@cronicorn/domain";
+
+export type AlertsServiceDeps = {
+  notifications: NotificationsRepo;
+  runs: RunsRepo;
+  sender: NotificationSender;
+  logger: Logger;
+};
+
+/**
+ * AlertsService evaluates alert rules on endpoint events and delivers notifications.
+ *
+ * Wired into the workers as their EndpointEvents subscriber:
+ * - runFinished (scheduler, after updateAfterRun) evaluates every condition
+ * - endpointPaused (AI planner) evaluates only aiPaused rules
+ *
+ * State is saved before delivery, so a failing channel never causes repeat
+ * notifications; delivery and evaluation errors are logged, never thrown.
+ */
+export class AlertsService implements EndpointEvents {
+  constructor(private readonly d: AlertsServiceDeps) { }
+
+  async runFinished(event: EndpointRunFinishedEvent): Promise<void> {
+    await this.evaluate(event.endpoint, event.finishedAt, {
+      failureCount: event.failureCount,
+      pausedUntil: event.endpoint.pausedUntil,
+      now: event.finishedAt,
+    }, () => true, event.runId);
+  }
+
+  async endpointPaused(event: EndpointPausedEvent): Promise<void> {
+    await this.evaluate(event.endpoint, event.at, {
+      failureCount: event.endpoint.failureCount,
+      pausedUntil: event.pausedUntil ?? undefined,
+      pauseReason: event.reason,
+      now: event.at,
+    }, rule => rule.condition.type === "aiPaused");
+  }
+
+  private async evaluate(
+    endpoint: JobEndpoint,
+    now: Date,
+    baseFacts: AlertFacts,
+    applies: (rule: AlertRule) => boolean,
+    runId?: string,
+  ): Promise<void> {
+    let rules: AlertRule[];
+    try {
+      rules = (await this.d.notifications.listRulesForEndpoint(endpoint)).filter(applies);
+    }
+    catch (err) {
+      this.d.logger.error({ err, endpointId: endpoint.id }, "Failed to load alert rules");
+      return;
+    }
+
+    for (const rule of rules) {
+      try {
+        const facts = await this.gatherFacts(rule, endpoint.id, baseFacts);
+        const evaluation = evaluateAlertCondition(rule.condition, facts);
+        const prev = await this.d.notifications.getAlertState(rule.id, endpoint.id);
+        const transition = nextAlertState(prev, evaluation.breached, rule, endpoint.id, now);
+
+        if (transition.state) {
+          await this.d.notifications.saveAlertState(transition.state);
+        }
+        if (transition.notify) {
+          await this.deliver(rule, {
+            kind: transition.notify,
+            rule: { id: rule.id, name: rule.name, condition: rule.condition },
+            endpoint: { id: endpoint.id, name: endpoint.name, jobId: endpoint.jobId },
+            summary: evaluation.summary,
+            occurredAt: now,
+            runId,
+          });
+        }
+      }
+      catch (err) {
+        this.d.logger.error({ err, ruleId: rule.id, endpointId: endpoint.id }, "Alert rule evaluation failed");
+      }
+    }
+  }
+
+  private async gatherFacts(rule: AlertRule, endpointId: string, base: AlertFacts): Promise<AlertFacts> {
+    const { condition } = rule;
+    if (condition.type !== "successRate" && condition.type !== "noSuccess") {
+      return base;
+    }
+
+    const windowMinutes = condition.type === "successRate" ? condition.windowMinutes : condition.withinMinutes;
+    const window = await this.d.runs.getHealthSummary(endpointId, new Date(base.now.getTime() - windowMinutes * 60_000));
+    const facts: AlertFacts = { ...base, windowRuns: { successCount: window.successCount, failureCount: window.failureCount } };
+
+    if (condition.type === "noSuccess" && window.successCount === 0) {
+      const allTime = await this.d.runs.getHealthSummary(endpointId, new Date(0));
+      facts.ranBeforeWindow = allTime.successCount + allTime.failureCount > window.successCount + window.failureCount;
+    }
+    return facts;
+  }
+
+  private async deliver(rule: AlertRule, notification: AlertNotification): Promise<void> {
+    for (const channelId of rule.channelIds) {
+      const channel = await this.d.notifications.getChannel(rule.userId, channelId);
+      if (!channel || !channel.enabled) {
+        continue;
+      }
+      try {
+        await this.d.sender.send(channel, notification);
+        this.d.logger.info({ ruleId: rule.id, channelId, kind: notification.kind }, "Alert notification sent");
+      }
+      catch (err) {
+        this.d.logger.warn({ err, ruleId: rule.id, channelId, kind: notification.kind }, "Alert notification delivery failed");
+      }
+    }
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Notifications service module - alert rules, channels and alert evaluation.
+ */
+export * from "./alerts.js";
+export * from "./manager.js";
@@ -0,0 +1,383 @@
+import type {
+  AlertCondition,
+  AlertNotification,
+  AlertRule,
+  Clock,
+  Job,
+  JobsRepo,
+  NotificationChannel,
+  NotificationChannelConfig,
+  NotificationSender,
+  NotificationsRepo,
+} from "@cronicorn/domain";
+
+/**
+ * Input for creating a notification channel.
+ */
+export type CreateChannelInput = {
+  name: string;
+  config: NotificationChannelConfig;
+  enabled?: boolean;
+};
+
+/**
+ * Input for updating a notification channel.
+ */
+export type UpdateChannelInput = {
+  name?: string;
+  config?: NotificationChannelConfig;
+  enabled?: boolean;
+};
+
+/**
+ * Input for creating an alert rule.
+ * Leave both jobId and endpointId unset to watch every endpoint.
+ */
+export type CreateAlertRuleInput = {
+  name: string;
+  jobId?: string;
+  endpointId?: string;
+  condition: AlertCondition;
+  channelIds: string[];
+  cooldownMinutes?: number; // Default: 60
+  notifyOnResolve?: boolean; // Default: true
+  enabled?: boolean;
+};
+
+/**
+ * Input for updating an alert rule (null clears the job/endpoint scope).
+ */
+export type UpdateAlertRuleInput = {
+  name?: string;
+  jobId?: string | null;
+  endpointId?: string | null;
+  condition?: AlertCondition;
+  channelIds?: string[];
+  cooldownMinutes?: number;
+  notifyOnResolve?: boolean;
+  enabled?: boolean;
+};
+
+/**
+ * Validation helpers for business rules.
+ */
+class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+const MAX_EMAIL_RECIPIENTS = 10;
+const MAX_RULE_CHANNELS = 10;
+const MAX_WINDOW_MINUTES = 10_080; // 7 days
+const DEFAULT_COOLDOWN_MINUTES = 60;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@][^\s.@]*\.[^\s@]+$/;
+
+function validateName(name: string | undefined, label: string): void {
+  if (name === undefined)
+    return;
+  if (name.trim().length === 0) {
+    throw new ValidationError(`${label} name is required`);
+  }
+  if (name.length > 255) {
+    throw new ValidationError(`${label} name must be 255 characters or less`);
+  }
+}
+
+function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:" ? url : null;
+  }
+  catch {
+    return null;
+  }
+}
+
+function validateChannelConfig(config: NotificationChannelConfig | undefined): void {
+  if (config === undefined)
+    return;
+
+  switch (config.type) {
+    case "email":
+      if (config.to.length === 0 || config.to.length > MAX_EMAIL_RECIPIENTS) {
+        throw new ValidationError(`Email channels need between 1 and ${MAX_EMAIL_RECIPIENTS} recipients`);
+      }
+      for (const address of config.to) {
+        if (!EMAIL_PATTERN.test(address)) {
+          throw new ValidationError(`Invalid email address "${address}"`);
+        }
+      }
+      break;
+    case "slack": {
+      const url = parseHttpUrl(config.webhookUrl);
+      if (!url || url.protocol !== "https:" || url.hostname !== "hooks.slack.com") {
+        throw new ValidationError("Invalid Slack webhook URL: must be an https://hooks.slack.com/... incoming webhook");
+      }
+      break;
+    }
+    case "webhook":
+      if (!parseHttpUrl(config.url)) {
+        throw new ValidationError("Invalid webhook URL: must be an http(s) URL");
+      }
+      break;
+    default:
+      throw new ValidationError("Invalid channel type: must be email, slack or webhook");
+  }
+}
+
+function isIntegerInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+function validateCondition(condition: AlertCondition | undefined): void {
+  if (condition === undefined)
+    return;
+
+  switch (condition.type) {
+    case "failureStreak":
+      if (!isIntegerInRange(condition.threshold, 1, 100)) {
+        throw new ValidationError("Failure streak threshold must be an integer between 1 and 100");
+      }
+      break;
+    case "successRate":
+      if (!(condition.belowPct > 0 && condition.belowPct <= 100)) {
+        throw new ValidationError("Success rate threshold must be between 1 and 100 percent");
+      }
+      if (!isIntegerInRange(condition.windowMinutes, 5, MAX_WINDOW_MINUTES)) {
+        throw new ValidationError(`Success rate window must be between 5 and ${MAX_WINDOW_MINUTES} minutes`);
+      }
+      if (condition.minRuns !== undefined && !isIntegerInRange(condition.minRuns, 1, 1000)) {
+        throw new ValidationError("Success rate minRuns must be an integer between 1 and 1000");
+      }
+      break;
+    case "noSuccess":
+      if (!isIntegerInRange(condition.withinMinutes, 1, MAX_WINDOW_MINUTES)) {
+        throw new ValidationError(`No-success window must be between 1 and ${MAX_WINDOW_MINUTES} minutes`);
+      }
+      break;
+    case "aiPaused":
+      break;
+    default:
+      throw new ValidationError("Invalid alert condition: must be failureStreak, successRate, noSuccess or aiPaused");
+  }
+}
+
+function validateCooldown(cooldownMinutes: number | undefined): void {
+  if (cooldownMinutes !== undefined && !isIntegerInRange(cooldownMinutes, 0, MAX_WINDOW_MINUTES)) {
+    throw new ValidationError(`Cooldown must be between 0 and ${MAX_WINDOW_MINUTES} minutes`);
+  }
+}
+
+/**
+ * NotificationsManager handles notification channel and alert rule management.
+ *
+ * **Architecture**:
+ * - Depends ONLY on domain ports (NotificationsRepo, JobsRepo, NotificationSender, Clock)
+ * - Authorization checks (userId owns channels, rules and the jobs/endpoints they watch)
+ *
+ * Rule evaluation happens in the workers via AlertsService.
+ */
+export class NotificationsManager {
+  constructor(
+    private readonly notificationsRepo: NotificationsRepo,
+    private readonly jobsRepo: JobsRepo,
+    private readonly sender: NotificationSender,
+    private readonly clock: Clock,
+  ) { }
+
+  // ==================== Channels ====================
+
+  async createChannel(userId: string, input: CreateChannelInput): Promise<NotificationChannel> {
+    validateName(input.name, "Channel");
+    validateChannelConfig(input.config);
+
+    return this.notificationsRepo.createChannel({
+      userId,
+      name: input.name,
+      config: input.config,
+      enabled: input.enabled ?? true,
+    });
+  }
+
+  async listChannels(userId: string): Promise<NotificationChannel[]> {
+    return this.notificationsRepo.listChannels(userId);
+  }
+
+  /**
+   * @throws Error if channel not found or user not authorized
+   */
+  async updateChannel(userId: string, channelId: string, input: UpdateChannelInput): Promise<NotificationChannel> {
+    validateName(input.name, "Channel");
+    validateChannelConfig(input.config);
+
+    const channel = await this.notificationsRepo.updateChannel(userId, channelId, input);
+    if (!channel) {
+      throw new Error("Channel not found or unauthorized");
+    }
+    return channel;
+  }
+
+  /**
+   * Deletes a channel and removes it from the user's alert rules.
+   *
+   * @throws Error if channel not found or user not authorized
+   */
+  async deleteChannel(userId: string, channelId: string): Promise<void> {
+    const deleted = await this.notificationsRepo.deleteChannel(userId, channelId);
+    if (!deleted) {
+      throw new Error("Channel not found or unauthorized");
+    }
+
+    const rules = await this.notificationsRepo.listRules(userId);
+    for (const rule of rules.filter(r => r.channelIds.includes(channelId))) {
+      await this.notificationsRepo.updateRule(userId, rule.id, {
+        channelIds: rule.channelIds.filter(id => id !== channelId),
+      });
+    }
+  }
+
+  /**
+   * Sends a sample notification through a channel so the user can check delivery.
+   * Delivery errors are returned rather than thrown.
+   *
+   * @throws Error if channel not found or user not authorized
+   */
+  async sendTestNotification(userId: string, channelId: string): Promise<{ delivered: boolean; error?: string }> {
+    const channel = await this.notificationsRepo.getChannel(userId, channelId);
+    if (!channel) {
+      throw new Error("Channel not found or unauthorized");
+    }
+
+    const notification: AlertNotification = {
+      kind: "firing",
+      rule: { id: "test", name: "Test notification", condition: { type: "failureStreak", threshold: 1 } },
+      endpoint: { id: "test", name: "Example endpoint" },
+      summary: `This is a test notification for channel "${channel.name}"`,
+      occurredAt: this.clock.now(),
+    };
+
+    try {
+      await this.sender.send(channel, notification);
+      return { delivered: true };
+    }
+    catch (error) {
+      return { delivered: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  // ==================== Alert Rules ====================
+
+  async createRule(userId: string, input: CreateAlertRuleInput): Promise<AlertRule> {
+    validateName(input.name, "Rule");
+    validateCondition(input.condition);
+    validateCooldown(input.cooldownMinutes);
+    await this.assertScope(userId, input.jobId, input.endpointId);
+    await this.assertChannels(userId, input.channelIds);
+
+    return this.notificationsRepo.createRule({
+      userId,
+      name: input.name,
+      jobId: input.jobId,
+      endpointId: input.endpointId,
+      condition: input.condition,
+      channelIds: input.channelIds,
+      cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+      notifyOnResolve: input.notifyOnResolve ?? true,
+      enabled: input.enabled ?? true,
+    });
+  }
+
+  async listRules(userId: string): Promise<AlertRule[]> {
+    return this.notificationsRepo.listRules(userId);
+  }
+
+  /**
+   * @throws Error if rule not found or user not authorized
+   */
+  async updateRule(userId: string, ruleId: string, input: UpdateAlertRuleInput): Promise<AlertRule> {
+    const existing = await this.notificationsRepo.getRule(userId, ruleId);
+    if (!existing) {
+      throw new Error("Rule not found or unauthorized");
+    }
+
+    validateName(input.name, "Rule");
+    validateCondition(input.condition);
+    validateCooldown(input.cooldownMinutes);
+    if (input.jobId !== undefined || input.endpointId !== undefined) {
+      const jobId = input.jobId === undefined ? existing.jobId : input.jobId ?? undefined;
+      const endpointId = input.endpointId === undefined ? existing.endpointId : input.endpointId ?? undefined;
+      await this.assertScope(userId, jobId, endpointId);
+    }
+    if (input.channelIds !== undefined) {
+      await this.assertChannels(userId, input.channelIds);
+    }
+
+    const rule = await this.notificationsRepo.updateRule(userId, ruleId, input);
+    if (!rule) {
+      throw new Error("Rule not found or unauthorized");
+    }
+    return rule;
+  }
+
+  /**
+   * @throws Error if rule not found or user not authorized
+   */
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    const deleted = await this.notificationsRepo.deleteRule(userId, ruleId);
+    if (!deleted) {
+      throw new Error("Rule not found or unauthorized");
+    }
+  }
+
+  // ==================== Helpers ====================
+
+  private async assertScope(userId: string, jobId: string | undefined, endpointId: string | undefined): Promise<void> {
+    if (jobId && endpointId) {
+      throw new ValidationError("Invalid rule scope: set either jobId or endpointId, not both");
+    }
+    if (jobId) {
+      const job = await this.jobsRepo.getJob(jobId);
+      if (!job) {
+        throw new Error("Job not found or unauthorized");
+      }
+      this.assertPersonalJob(job);
+      if (job.userId !== userId) {
+        throw new Error("Job not found or unauthorized");
+      }
+    }
+    if (endpointId) {
+      const endpoint = await this.jobsRepo.getEndpoint(endpointId);
+      if (endpoint.tenantId !== userId) {
+        const job = endpoint.jobId ? await this.jobsRepo.getJob(endpoint.jobId) : null;
+        if (job) {
+          this.assertPersonalJob(job);
+        }
+        throw new Error("Endpoint not found or unauthorized");
+      }
+    }
+  }
+
+  /**
+   * Rules are per user and only fire for endpoints of the user's own jobs (rule owner = endpoint
+   * tenant), so a rule scoped to an organization's job would never fire. Reject it instead.
+   */
+  private assertPersonalJob(job: Job): void {
+    if (job.orgId) {
+      throw new ValidationError("Invalid rule scope: alert rules can't watch organization jobs yet");
+    }
+  }
+
+  private async assertChannels(userId: string, channelIds: string[]): Promise<void> {
+    if (channelIds.length === 0 || channelIds.length > MAX_RULE_CHANNELS) {
+      throw new ValidationError(`Alert rules need between 1 and ${MAX_RULE_CHANNELS} channels`);
+    }
+    for (const channelId of channelIds) {
+      const channel = await this.notificationsRepo.getChannel(userId, channelId);
+      if (!channel) {
+        throw new Error("Channel not found or unauthorized");
+      }
+    }
+  }
+}
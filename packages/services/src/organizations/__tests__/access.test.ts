@@ -0,0 +1,44 @@
+import { InMemoryOrganizationsRepo } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { OrgAccess } from "../access.js";
+
+describe("orgAccess", () => {
+  let orgs: InMemoryOrganizationsRepo;
+  let orgId: string;
+
+  beforeEach(async () => {
+    orgs = new InMemoryOrganizationsRepo();
+    orgId = (await orgs.createOrganization({ name: "Acme", ownerUserId: "owner" })).id;
+    await orgs.upsertMember(orgId, "viewer", "viewer");
+  });
+
+  it("allows users their own resources", async () => {
+    expect(await new OrgAccess().check("user-1", "user-1", "owner")).toBe(true);
+    expect(await new OrgAccess().check("user-1", "user-2", "viewer")).toBe(false);
+  });
+
+  it("checks the member's role for org resources", async () => {
+    const access = new OrgAccess(orgs);
+
+    expect(await access.check("viewer", orgId, "viewer")).toBe(true);
+    await expect(access.check("viewer", orgId, "editor")).rejects.toThrow("requires the editor role");
+    expect(await access.check("stranger", orgId, "viewer")).toBe(false);
+  });
+
+  it("resolves the owner for listing and creating", async () => {
+    const access = new OrgAccess(orgs);
+
+    expect(await access.resolveOwner("viewer", undefined, "editor")).toBe("viewer");
+    expect(await access.resolveOwner("viewer", orgId, "viewer")).toBe(orgId);
+    await expect(access.resolveOwner("stranger", orgId, "viewer")).rejects.toThrow("Organization not found");
+  });
+
+  it("confines an org-scoped key to its organization", async () => {
+    const access = new OrgAccess(orgs, orgId);
+
+    expect(await access.resolveOwner("viewer", undefined, "viewer")).toBe(orgId);
+    expect(await access.check("viewer", "viewer", "viewer")).toBe(false);
+    await expect(access.resolveOwner("viewer", "org_other", "viewer")).rejects.toThrow("Organization not found");
+  });
+});
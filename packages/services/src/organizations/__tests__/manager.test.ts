@@ -0,0 +1,149 @@
+import type { Clock, InvitationSender } from "@cronicorn/domain";
+
+import { InMemoryJobsRepo, InMemoryOrganizationsRepo } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { OrganizationsManager } from "../manager.js";
+
+const now = new Date("2026-01-01T12:00:00Z");
+
+describe("organizationsManager", () => {
+  let orgs: InMemoryOrganizationsRepo;
+  let jobs: InMemoryJobsRepo;
+  let sender: InvitationSender;
+  let manager: OrganizationsManager;
+  let orgId: string;
+
+  beforeEach(async () => {
+    orgs = new InMemoryOrganizationsRepo(() => now);
+    jobs = new InMemoryJobsRepo(() => now);
+    sender = { sendInvitation: vi.fn() };
+    const clock: Clock = { now: () => now, sleep: async () => {} };
+    manager = new OrganizationsManager(orgs, jobs, clock, { appUrl: "https://app.example.com/", invitationSender: sender });
+
+    orgs.users.set("owner", { email: "owner@example.com", name: "Olivia" });
+    orgId = (await manager.createOrganization("owner", { name: " Acme " })).id;
+  });
+
+  describe("organizations", () => {
+    it("makes the creator the owner", async () => {
+      const { organization, role, members } = await manager.getOrganization("owner", orgId);
+
+      expect(organization.name).toBe("Acme");
+      expect(role).toBe("owner");
+      expect(members.map(m => m.userId)).toEqual(["owner"]);
+      expect(await manager.listOrganizations("owner")).toEqual([expect.objectContaining({ id: orgId, role: "owner" })]);
+    });
+
+    it("hides organizations from non-members", async () => {
+      await expect(manager.getOrganization("stranger", orgId)).rejects.toThrow("Organization not found");
+    });
+
+    it("lets only owners delete", async () => {
+      await orgs.upsertMember(orgId, "admin", "admin");
+
+      await expect(manager.deleteOrganization("admin", orgId)).rejects.toThrow("requires the owner role");
+      await manager.deleteOrganization("owner", orgId);
+      expect(await orgs.getOrganization(orgId)).toBeNull();
+    });
+  });
+
+  describe("members", () => {
+    beforeEach(async () => {
+      await orgs.upsertMember(orgId, "admin", "admin");
+      await orgs.upsertMember(orgId, "editor", "editor");
+    });
+
+    it("lets admins change non-owner roles", async () => {
+      await manager.updateMemberRole("admin", orgId, "editor", "viewer");
+      expect(await orgs.getMemberRole(orgId, "editor")).toBe("viewer");
+    });
+
+    it("keeps ownership changes to owners", async () => {
+      await expect(manager.updateMemberRole("admin", orgId, "editor", "owner")).rejects.toThrow("only owners");
+      await expect(manager.removeMember("admin", orgId, "owner")).rejects.toThrow("only owners can remove an owner");
+      await expect(manager.updateMemberRole("editor", orgId, "admin", "viewer")).rejects.toThrow("requires the admin role");
+    });
+
+    it("never removes or demotes the last owner", async () => {
+      await expect(manager.updateMemberRole("owner", orgId, "owner", "admin")).rejects.toThrow("at least one owner");
+      await expect(manager.removeMember("owner", orgId, "owner")).rejects.toThrow("at least one owner");
+
+      await manager.updateMemberRole("owner", orgId, "admin", "owner");
+      await manager.removeMember("owner", orgId, "owner");
+      expect(await orgs.getMemberRole(orgId, "owner")).toBeNull();
+    });
+
+    it("lets any member leave", async () => {
+      await manager.removeMember("editor", orgId, "editor");
+      expect(await orgs.getMemberRole(orgId, "editor")).toBeNull();
+    });
+  });
+
+  describe("invitations", () => {
+    it("emails the accept link", async () => {
+      const created = await manager.createInvitation("owner", orgId, { email: "Ana@Example.com", role: "editor" });
+
+      expect(created.emailSent).toBe(true);
+      expect(created.invitation).toMatchObject({ email: "ana@example.com", role: "editor", invitedBy: "owner" });
+      expect(created.acceptUrl).toBe(`https://app.example.com/invitations/accept?token=${created.invitation.token}`);
+      expect(sender.sendInvitation).toHaveBeenCalledWith({
+        email: "ana@example.com",
+        orgName: "Acme",
+        role: "editor",
+        invitedByName: "Olivia",
+        acceptUrl: created.acceptUrl,
+        expiresAt: new Date("2026-01-08T12:00:00Z"),
+      });
+    });
+
+    it("still returns the link when the email fails", async () => {
+      vi.mocked(sender.sendInvitation).mockRejectedValueOnce(new Error("SMTP down"));
+
+      const created = await manager.createInvitation("owner", orgId, { email: "ana@example.com", role: "viewer" });
+
+      expect(created.emailSent).toBe(false);
+      expect(await manager.listInvitations("owner", orgId)).toHaveLength(1);
+    });
+
+    it("rejects existing members and owner invitations from admins", async () => {
+      await orgs.upsertMember(orgId, "admin", "admin");
+
+      await expect(manager.createInvitation("owner", orgId, { email: "OWNER@example.com", role: "viewer" })).rejects.toThrow("already a member");
+      await expect(manager.createInvitation("admin", orgId, { email: "ana@example.com", role: "owner" })).rejects.toThrow("only owners can invite owners");
+    });
+
+    it("adds the invited user with the invited role", async () => {
+      const { invitation } = await manager.createInvitation("owner", orgId, { email: "ana@example.com", role: "editor" });
+      vi.spyOn(jobs, "getUserById").mockResolvedValue(
+        // eslint-disable-next-line ts/consistent-type-assertions
+        { id: "ana", email: "ANA@example.com" } as unknown as Awaited<ReturnType<InMemoryJobsRepo["getUserById"]>>,
+      );
+
+      const accepted = await manager.acceptInvitation("ana", invitation.token);
+
+      expect(accepted).toMatchObject({ organization: { id: orgId }, role: "editor" });
+      expect(await orgs.getMemberRole(orgId, "ana")).toBe("editor");
+      await expect(manager.acceptInvitation("ana", invitation.token)).rejects.toThrow("expired or was already used");
+    });
+
+    it("rejects invitations addressed to someone else", async () => {
+      const { invitation } = await manager.createInvitation("owner", orgId, { email: "ana@example.com", role: "editor" });
+      vi.spyOn(jobs, "getUserById").mockResolvedValue(
+        // eslint-disable-next-line ts/consistent-type-assertions
+        { id: "eve", email: "eve@example.com" } as unknown as Awaited<ReturnType<InMemoryJobsRepo["getUserById"]>>,
+      );
+
+      await expect(manager.acceptInvitation("eve", invitation.token)).rejects.toThrow("different email address");
+      expect(await orgs.getMemberRole(orgId, "eve")).toBeNull();
+    });
+
+    it("revokes pending invitations", async () => {
+      const { invitation } = await manager.createInvitation("owner", orgId, { email: "ana@example.com", role: "viewer" });
+
+      await manager.revokeInvitation("owner", orgId, invitation.id);
+
+      await expect(manager.revokeInvitation("owner", orgId, invitation.id)).rejects.toThrow("Invitation not found");
+    });
+  });
+});
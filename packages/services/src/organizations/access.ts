@@ -0,0 +1,67 @@
+import type { OrganizationsRepo, OrgRole } from "@cronicorn/domain";
+
+import { ForbiddenError, hasOrgRole, NotFoundError } from "@cronicorn/domain";
+
+/**
+ * OrgAccess - decides whether a user may act on resources of an owner.
+ *
+ * Owners are users (personal jobs) or organizations. Users always have full access to
+ * their own resources; org resources need a membership with at least the required role.
+ * A caller that isn't a member can't see the resources at all (not found), a member whose
+ * role is too low gets a ForbiddenError.
+ *
+ * Built per request. `scopeOrgId` comes from an org-scoped API key and confines the
+ * request to that organization: personal resources and other orgs become invisible.
+ * Without a repo (tests, workers) only personal resources are accessible.
+ */
+export class OrgAccess {
+  constructor(
+    private readonly orgsRepo?: OrganizationsRepo,
+    private readonly scopeOrgId?: string,
+  ) { }
+
+  /**
+   * Check access to resources owned by `ownerId`.
+   *
+   * @param userId - The requesting user
+   * @param ownerId - User or organization ID owning the resource
+   * @param required - Least privileged role allowed to perform the action
+   * @returns false if the resources are invisible to the user
+   * @throws ForbiddenError if the user is a member but their role is below `required`
+   */
+  async check(userId: string, ownerId: string, required: OrgRole): Promise<boolean> {
+    if (this.scopeOrgId !== undefined && ownerId !== this.scopeOrgId) {
+      return false;
+    }
+    if (ownerId === userId) {
+      return true;
+    }
+    if (!this.orgsRepo) {
+      return false;
+    }
+
+    const role = await this.orgsRepo.getMemberRole(ownerId, userId);
+    if (!role) {
+      return false;
+    }
+    if (!hasOrgRole(role, required)) {
+      throw new ForbiddenError(`Forbidden: this action requires the ${required} role`);
+    }
+    return true;
+  }
+
+  /**
+   * Owner ID to list or create resources under: the organization if one is given
+   * (or the API key is org-scoped), the user otherwise.
+   *
+   * @throws NotFoundError if the user isn't a member of the organization
+   * @throws ForbiddenError if their role is below `required`
+   */
+  async resolveOwner(userId: string, orgId: string | undefined, required: OrgRole): Promise<string> {
+    const ownerId = orgId ?? this.scopeOrgId ?? userId;
+    if (!await this.check(userId, ownerId, required)) {
+      throw new NotFoundError(`Organization not found: ${ownerId}`);
+    }
+    return ownerId;
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Organizations service module - teams, member roles, invitations and access checks.
+ */
+export * from "./access.js";
+export * from "./manager.js";
@@ -0,0 +1,332 @@
+import type {
+  Clock,
+  InvitationSender,
+  JobsRepo,
+  Logger,
+  Organization,
+  OrganizationInvitation,
+  OrganizationMember,
+  OrganizationsRepo,
+  OrgRole,
+} from "@cronicorn/domain";
+
+import {
+  canAssignOrgRole,
+  ForbiddenError,
+  hasOrgRole,
+  INVITATION_TTL_MS,
+  isInvitationPending,
+  MAX_ORG_NAME_LENGTH,
+  normalizeInvitationEmail,
+  NotFoundError,
+} from "@cronicorn/domain";
+import { nanoid } from "nanoid";
+
+/**
+ * Validation helpers for business rules.
+ */
+class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@][^\s.@]*\.[^\s@]+$/;
+
+function validateOrgName(name: string): void {
+  if (name.trim().length === 0) {
+    throw new ValidationError("Organization name is required");
+  }
+  if (name.length > MAX_ORG_NAME_LENGTH) {
+    throw new ValidationError(`Organization name must be at most ${MAX_ORG_NAME_LENGTH} characters`);
+  }
+}
+
+export type OrganizationsManagerOptions = {
+  /** Base URL of the web app; invitation links point to /invitations/accept there */
+  appUrl: string;
+  /** Delivers invitation emails; without it the inviter shares the link themselves */
+  invitationSender?: InvitationSender;
+  logger?: Logger;
+};
+
+/**
+ * A created invitation with its accept link.
+ */
+export type CreatedInvitation = {
+  invitation: OrganizationInvitation;
+  acceptUrl: string;
+  emailSent: boolean;
+};
+
+/**
+ * OrganizationsManager - organizations, members and invitations.
+ *
+ * **Permissions**:
+ * - viewer: see the organization and its members
+ * - admin: rename, invite, revoke invitations, change roles and remove members (not owners)
+ * - owner: everything, including managing owners and deleting the organization
+ *
+ * Non-members get NotFoundError so organization IDs can't be probed; members whose role
+ * is too low get ForbiddenError. An organization always keeps at least one owner.
+ */
+export class OrganizationsManager {
+  constructor(
+    private readonly orgsRepo: OrganizationsRepo,
+    private readonly jobsRepo: JobsRepo,
+    private readonly clock: Clock,
+    private readonly options: OrganizationsManagerOptions,
+  ) { }
+
+  // ==================== Organizations ====================
+
+  /**
+   * Create an organization with the user as its owner.
+   */
+  async createOrganization(userId: string, input: { name: string }): Promise<Organization> {
+    validateOrgName(input.name);
+    return this.orgsRepo.createOrganization({ name: input.name.trim(), ownerUserId: userId });
+  }
+
+  /**
+   * Organizations the user belongs to, with their role in each.
+   */
+  async listOrganizations(userId: string): Promise<Array<Organization & { role: OrgRole }>> {
+    return this.orgsRepo.listOrganizationsForUser(userId);
+  }
+
+  /**
+   * Get an organization with its members and the caller's role.
+   *
+   * @throws NotFoundError if the user isn't a member
+   */
+  async getOrganization(userId: string, orgId: string): Promise<{
+    organization: Organization;
+    role: OrgRole;
+    members: OrganizationMember[];
+  }> {
+    const role = await this.requireRole(userId, orgId, "viewer");
+    const organization = await this.orgsRepo.getOrganization(orgId);
+    if (!organization) {
+      throw new NotFoundError(`Organization not found: ${orgId}`);
+    }
+
+    return { organization, role, members: await this.orgsRepo.listMembers(orgId) };
+  }
+
+  /**
+   * Rename an organization (admin).
+   */
+  async updateOrganization(userId: string, orgId: string, input: { name?: string }): Promise<Organization> {
+    await this.requireRole(userId, orgId, "admin");
+    if (input.name !== undefined) {
+      validateOrgName(input.name);
+    }
+
+    return this.orgsRepo.updateOrganization(orgId, { name: input.name?.trim() });
+  }
+
+  /**
+   * Delete an organization with all of its jobs (owner).
+   */
+  async deleteOrganization(userId: string, orgId: string): Promise<void> {
+    await this.requireRole(userId, orgId, "owner");
+    await this.orgsRepo.deleteOrganization(orgId);
+  }
+
+  // ==================== Members ====================
+
+  /**
+   * Change a member's role.
+   *
+   * @throws ForbiddenError if the caller can't grant the role or manage the member
+   * @throws ValidationError if the last owner would be demoted
+   */
+  async updateMemberRole(userId: string, orgId: string, memberUserId: string, role: OrgRole): Promise<void> {
+    const actorRole = await this.requireRole(userId, orgId, "admin");
+    const targetRole = await this.requireMember(orgId, memberUserId);
+
+    if (!canAssignOrgRole(actorRole, role, targetRole)) {
+      throw new ForbiddenError("Forbidden: only owners can grant or change the owner role");
+    }
+    if (targetRole === "owner" && role !== "owner") {
+      await this.assertNotLastOwner(orgId);
+    }
+
+    await this.orgsRepo.upsertMember(orgId, memberUserId, role);
+  }
+
+  /**
+   * Remove a member. Any member may remove themselves (leave).
+   *
+   * @throws ForbiddenError if the caller can't manage the member
+   * @throws ValidationError if the last owner would be removed
+   */
+  async removeMember(userId: string, orgId: string, memberUserId: string): Promise<void> {
+    const actorRole = await this.requireRole(userId, orgId, "viewer");
+    const targetRole = await this.requireMember(orgId, memberUserId);
+
+    if (memberUserId !== userId && !canAssignOrgRole(actorRole, targetRole, targetRole)) {
+      throw new ForbiddenError(
+        hasOrgRole(actorRole, "admin")
+          ? "Forbidden: only owners can remove an owner"
+          : "Forbidden: this action requires the admin role",
+      );
+    }
+    if (targetRole === "owner") {
+      await this.assertNotLastOwner(orgId);
+    }
+
+    await this.orgsRepo.removeMember(orgId, memberUserId);
+  }
+
+  // ==================== Invitations ====================
+
+  /**
+   * Invite someone by email (admin). Sends the invitation email when a sender is configured;
+   * the accept link is returned either way so it can be shared directly.
+   */
+  async createInvitation(userId: string, orgId: string, input: { email: string; role: OrgRole }): Promise<CreatedInvitation> {
+    const actorRole = await this.requireRole(userId, orgId, "admin");
+    if (!canAssignOrgRole(actorRole, input.role)) {
+      throw new ForbiddenError("Forbidden: only owners can invite owners");
+    }
+
+    const email = normalizeInvitationEmail(input.email);
+    if (!EMAIL_PATTERN.test(email)) {
+      throw new ValidationError(`Invalid email address "${input.email}"`);
+    }
+
+    const members = await this.orgsRepo.listMembers(orgId);
+    if (members.some(member => normalizeInvitationEmail(member.email) === email)) {
+      throw new ValidationError(`${email} is already a member`);
+    }
+
+    const now = this.clock.now();
+    const invitation = await this.orgsRepo.createInvitation({
+      orgId,
+      email,
+      role: input.role,
+      token: nanoid(32),
+      invitedBy: userId,
+      expiresAt: new Date(now.getTime() + INVITATION_TTL_MS),
+    });
+    const acceptUrl = `${this.options.appUrl.replace(/\/$/, "")}/invitations/accept?token=${invitation.token}`;
+
+    const sender = this.options.invitationSender;
+    if (!sender) {
+      return { invitation, acceptUrl, emailSent: false };
+    }
+
+    const organization = await this.orgsRepo.getOrganization(orgId);
+    const inviter = members.find(member => member.userId === userId);
+    try {
+      await sender.sendInvitation({
+        email,
+        orgName: organization?.name ?? "an organization",
+        role: input.role,
+        invitedByName: inviter?.name || inviter?.email || "A teammate",
+        acceptUrl,
+        expiresAt: invitation.expiresAt,
+      });
+      return { invitation, acceptUrl, emailSent: true };
+    }
+    catch (error) {
+      this.options.logger?.warn(
+        { orgId, invitationId: invitation.id, error: error instanceof Error ? error.message : String(error) },
+        "Invitation email failed",
+      );
+      return { invitation, acceptUrl, emailSent: false };
+    }
+  }
+
+  /**
+   * Invitations not accepted yet, including expired ones (admin).
+   */
+  async listInvitations(userId: string, orgId: string): Promise<OrganizationInvitation[]> {
+    await this.requireRole(userId, orgId, "admin");
+    return this.orgsRepo.listPendingInvitations(orgId);
+  }
+
+  /**
+   * Revoke a pending invitation (admin).
+   */
+  async revokeInvitation(userId: string, orgId: string, invitationId: string): Promise<void> {
+    await this.requireRole(userId, orgId, "admin");
+    if (!await this.orgsRepo.deleteInvitation(orgId, invitationId)) {
+      throw new NotFoundError(`Invitation not found: ${invitationId}`);
+    }
+  }
+
+  /**
+   * Join an organization with an invitation token.
+   *
+   * The invitation must be pending and addressed to the user's email. Existing
+   * members keep their current role.
+   *
+   * @throws NotFoundError if the token is unknown
+   * @throws ValidationError if the invitation expired or was already used
+   * @throws ForbiddenError if it was sent to a different email address
+   */
+  async acceptInvitation(userId: string, token: string): Promise<{ organization: Organization; role: OrgRole }> {
+    const invitation = await this.orgsRepo.getInvitationByToken(token);
+    if (!invitation) {
+      throw new NotFoundError("Invitation not found");
+    }
+
+    const now = this.clock.now();
+    if (!isInvitationPending(invitation, now)) {
+      throw new ValidationError("Invitation has expired or was already used");
+    }
+
+    const user = await this.jobsRepo.getUserById(userId);
+    if (!user || normalizeInvitationEmail(user.email) !== invitation.email) {
+      throw new ForbiddenError("Forbidden: this invitation was sent to a different email address");
+    }
+
+    const organization = await this.orgsRepo.getOrganization(invitation.orgId);
+    if (!organization) {
+      throw new NotFoundError("Invitation not found");
+    }
+
+    const existingRole = await this.orgsRepo.getMemberRole(invitation.orgId, userId);
+    if (!existingRole) {
+      await this.orgsRepo.upsertMember(invitation.orgId, userId, invitation.role);
+    }
+    await this.orgsRepo.markInvitationAccepted(invitation.id, now);
+
+    return { organization, role: existingRole ?? invitation.role };
+  }
+
+  // ==================== Helpers ====================
+
+  /**
+   * @returns The caller's role
+   * @throws NotFoundError if they aren't a member, ForbiddenError if their role is below `required`
+   */
+  private async requireRole(userId: string, orgId: string, required: OrgRole): Promise<OrgRole> {
+    const role = await this.orgsRepo.getMemberRole(orgId, userId);
+    if (!role) {
+      throw new NotFoundError(`Organization not found: ${orgId}`);
+    }
+    if (!hasOrgRole(role, required)) {
+      throw new ForbiddenError(`Forbidden: this action requires the ${required} role`);
+    }
+    return role;
+  }
+
+  private async requireMember(orgId: string, memberUserId: string): Promise<OrgRole> {
+    const role = await this.orgsRepo.getMemberRole(orgId, memberUserId);
+    if (!role) {
+      throw new NotFoundError(`Member not found: ${memberUserId}`);
+    }
+    return role;
+  }
+
+  private async assertNotLastOwner(orgId: string): Promise<void> {
+    if (await this.orgsRepo.countOwners(orgId) <= 1) {
+      throw new ValidationError("An organization needs at least one owner; make someone else owner first");
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { FakeLogger, type JobsRepo, type PaymentProvider } from "@cronicorn/domain";
+import { FakeLogger, InMemoryOrganizationsRepo, type JobsRepo, type PaymentProvider } from "@cronicorn/domain";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import {
@@ -83,16 +83,21 @@ describe("subscriptionsManager", () => {
       updateEndpoint: vi.fn(),
       listEndpointsByJob: vi.fn(),
       getEndpoint: vi.fn(),
+      getEndpointByPingToken: vi.fn(),
+      getEndpointByTriggerTokenHash: vi.fn(),
       deleteEndpoint: vi.fn(),
       archiveEndpoint: vi.fn(),
       countEndpointsByUser: vi.fn(),
       claimDueEndpoints: vi.fn(),
-      setLock: vi.fn(),
-      clearLock: vi.fn(),
+      renewLease: vi.fn(),
+      releaseLease: vi.fn(),
       setNextRunAtIfEarlier: vi.fn(),
       writeAIHint: vi.fn(),
       clearAIHints: vi.fn(),
       resetFailureCount: vi.fn(),
+      requestManualRun: vi.fn(),
+      clearManualRun: vi.fn(),
+      setTriggerToken: vi.fn(),
       setPausedUntil: vi.fn(),
       updateAfterRun: vi.fn(),
       getUsage: vi.fn(),
@@ -1167,4 +1172,56 @@ describe("subscriptionsManager", () => {
       expect(mockJobsRepo.updateUserSubscription).not.toHaveBeenCalled();
     });
   });
+
+  describe("organization billing", () => {
+    let orgs: InMemoryOrganizationsRepo;
+    let orgId: string;
+
+    beforeEach(async () => {
+      orgs = new InMemoryOrganizationsRepo();
+      orgId = (await orgs.createOrganization({ name: "Acme", ownerUserId: "user_123" })).id;
+      await orgs.upsertMember(orgId, "user_admin", "admin");
+      manager = new SubscriptionsManager({
+        jobsRepo: mockJobsRepo,
+        paymentProvider: mockPaymentProvider,
+        logger,
+        baseUrl: "http://localhost:5173",
+        orgsRepo: orgs,
+      });
+      vi.mocked(mockJobsRepo.getUserById).mockResolvedValue(createMockUser({ stripeCustomerId: "cus_personal" }));
+      vi.mocked(mockPaymentProvider.createCheckoutSession).mockResolvedValue({ sessionId: "cs_1", checkoutUrl: "https://checkout.stripe.com/cs_1" });
+    });
+
+    it("creates an org checkout without the owner's personal customer", async () => {
+      await manager.createCheckout({ userId: "user_123", tier: "pro", orgId });
+
+      expect(mockPaymentProvider.createCheckoutSession).toHaveBeenCalledWith(expect.objectContaining({
+        userId: "user_123",
+        orgId,
+        existingCustomerId: undefined,
+      }));
+    });
+
+    it("restricts org billing to owners", async () => {
+      await expect(manager.createCheckout({ userId: "user_admin", tier: "pro", orgId })).rejects.toThrow("billing requires the owner role");
+      await expect(manager.createCheckout({ userId: "user_other", tier: "pro", orgId })).rejects.toThrow("Organization not found");
+    });
+
+    it("updates the organization's tier from webhooks", async () => {
+      vi.mocked(mockJobsRepo.getUserByStripeCustomerId).mockResolvedValue(null);
+
+      await manager.handleWebhookEvent({
+        type: "checkout.session.completed",
+        data: { id: "cs_1", customer: "cus_org", subscription: "sub_org", metadata: { userId: "user_123", orgId, tier: "pro" } },
+      });
+
+      expect(await orgs.getOrganization(orgId)).toMatchObject({ tier: "pro", stripeCustomerId: "cus_org", subscriptionStatus: "active" });
+      expect(mockJobsRepo.updateUserSubscription).not.toHaveBeenCalled();
+
+      await manager.handleWebhookEvent({ type: "customer.subscription.deleted", data: { customer: "cus_org" } });
+
+      expect(await orgs.getOrganization(orgId)).toMatchObject({ tier: "free", subscriptionStatus: "canceled" });
+      expect(await manager.getSubscriptionStatus("user_admin", orgId)).toEqual({ tier: "free", status: "canceled", endsAt: null });
+    });
+  });
 });
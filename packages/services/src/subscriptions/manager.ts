@@ -1,3 +1,7 @@
+import type { Organization, OrganizationsRepo, OrgRole } from "@cronicorn/domain";
+
+import { ForbiddenError, hasOrgRole, NotFoundError } from "@cronicorn/domain";
+
 import type { CreateCheckoutInput, CreatePortalInput, SubscriptionDeps, SubscriptionStatus } from "./types.js";
 
 import { RefundAlreadyProcessedError, RefundConcurrencyError, RefundExpiredError, RefundNotEligibleError } from "./errors.js";
@@ -12,6 +16,11 @@ import { RefundAlreadyProcessedError, RefundConcurrencyError, RefundExpiredError
  * - Depends ONLY on domain ports (PaymentProvider, JobsRepo)
  * - Zero knowledge of concrete adapters (Stripe, Drizzle)
  * - All payment provider operations go through PaymentProvider port
+ *
+ * **Organizations**: checkout and portal accept an `orgId` to bill an organization
+ * (owners only). The org's tier then governs its jobs' limits; the checkout metadata
+ * carries the orgId so webhooks update the organization instead of the user.
+ * Refunds stay a personal-subscription feature.
  */
 export class SubscriptionsManager {
   constructor(
@@ -22,7 +31,7 @@ export class SubscriptionsManager {
    * Create Stripe Checkout Session for user to subscribe.
    */
   async createCheckout(input: CreateCheckoutInput): Promise<{ checkoutUrl: string }> {
-    const { userId, tier, billingPeriod } = input;
+    const { userId, tier, billingPeriod, orgId } = input;
 
     // Get user details
     const user = await this.deps.jobsRepo.getUserById(userId);
@@ -31,6 +40,22 @@ export class SubscriptionsManager {
       throw new Error(`User not found: ${userId}`);
     }
 
+    if (orgId) {
+      const org = await this.requireOrgRole(userId, orgId, "owner");
+      const result = await this.deps.paymentProvider.createCheckoutSession({
+        userId,
+        orgId,
+        userEmail: user.email,
+        tier,
+        billingPeriod: billingPeriod ?? "monthly",
+        successUrl: `${this.deps.baseUrl}/dashboard?session_id={CHECKOUT_SESSION_ID}`,
+        cancelUrl: `${this.deps.baseUrl}/pricing`,
+        existingCustomerId: org.stripeCustomerId ?? undefined,
+      });
+
+      return { checkoutUrl: result.checkoutUrl };
+    }
+
     // Create checkout session (reuse existing customer if available)
     const result = await this.deps.paymentProvider.createCheckoutSession({
       userId,
@@ -49,7 +74,21 @@ export class SubscriptionsManager {
    * Create Customer Portal Session for self-service.
    */
   async createPortal(input: CreatePortalInput): Promise<{ portalUrl: string }> {
-    const { userId } = input;
+    const { userId, orgId } = input;
+
+    if (orgId) {
+      const org = await this.requireOrgRole(userId, orgId, "owner");
+      if (!org.stripeCustomerId) {
+        throw new Error("Organization has no active subscription");
+      }
+
+      const result = await this.deps.paymentProvider.createPortalSession({
+        customerId: org.stripeCustomerId,
+        returnUrl: `${this.deps.baseUrl}/settings`,
+      });
+
+      return { portalUrl: result.portalUrl };
+    }
 
     // Get user with Stripe customer ID
     const user = await this.deps.jobsRepo.getUserById(userId);
@@ -71,9 +110,18 @@ export class SubscriptionsManager {
   }
 
   /**
-   * Get current subscription status for user.
+   * Get current subscription status for user, or for one of their organizations.
    */
-  async getSubscriptionStatus(userId: string): Promise<SubscriptionStatus> {
+  async getSubscriptionStatus(userId: string, orgId?: string): Promise<SubscriptionStatus> {
+    if (orgId) {
+      const org = await this.requireOrgRole(userId, orgId, "viewer");
+      return {
+        tier: org.tier,
+        status: org.subscriptionStatus ?? null,
+        endsAt: null,
+      };
+    }
+
     const user = await this.deps.jobsRepo.getUserById(userId);
 
     if (!user) {
@@ -275,6 +323,7 @@ export class SubscriptionsManager {
   // eslint-disable-next-line ts/no-explicit-any
   private async handleCheckoutCompleted(session: any): Promise<void> {
     const userId = session.metadata?.userId;
+    const orgId = session.metadata?.orgId;
     // eslint-disable-next-line ts/consistent-type-assertions
     const tier = session.metadata?.tier as "pro" | "enterprise";
 
@@ -283,6 +332,19 @@ export class SubscriptionsManager {
       throw new Error("Missing userId or tier in checkout session metadata");
     }
 
+    if (orgId) {
+      this.deps.logger.info({ orgId, userId, tier, customerId: session.customer }, "Organization checkout completed");
+
+      await this.orgsRepo().updateOrganizationSubscription(orgId, {
+        tier,
+        stripeCustomerId: session.customer,
+        stripeSubscriptionId: session.subscription,
+        subscriptionStatus: "active",
+        subscriptionEndsAt: null,
+      });
+      return;
+    }
+
     this.deps.logger.info({ userId, tier, customerId: session.customer }, "Checkout completed");
 
     // Calculate refund window (14 days from now)
@@ -310,14 +372,24 @@ export class SubscriptionsManager {
   private async handleSubscriptionUpdated(subscription: any): Promise<void> {
     const user = await this.deps.jobsRepo.getUserByStripeCustomerId(subscription.customer);
 
+    // Extract tier from subscription data using PaymentProvider port
+    const tier = this.deps.paymentProvider.extractTierFromSubscription(subscription);
+
     if (!user) {
-      this.deps.logger.warn({ customerId: subscription.customer }, "No user found for Stripe customer");
+      const org = await this.findOrgByCustomer(subscription.customer);
+      if (org) {
+        this.deps.logger.info({ orgId: org.id, status: subscription.status, tier }, "Organization subscription updated");
+        await this.orgsRepo().updateOrganizationSubscription(org.id, {
+          tier: tier ?? undefined,
+          subscriptionStatus: subscription.status,
+          subscriptionEndsAt: subscription.current_period_end
+            ? new Date(subscription.current_period_end * 1000)
+            : null,
+        });
+      }
       return;
     }
 
-    // Extract tier from subscription data using PaymentProvider port
-    const tier = this.deps.paymentProvider.extractTierFromSubscription(subscription);
-
     this.deps.logger.info({ userId: user.id, status: subscription.status, tier }, "Subscription updated");
 
     await this.deps.jobsRepo.updateUserSubscription(user.id, {
@@ -337,7 +409,15 @@ export class SubscriptionsManager {
     const user = await this.deps.jobsRepo.getUserByStripeCustomerId(subscription.customer);
 
     if (!user) {
-      this.deps.logger.warn({ customerId: subscription.customer }, "No user found for Stripe customer");
+      const org = await this.findOrgByCustomer(subscription.customer);
+      if (org) {
+        this.deps.logger.info({ orgId: org.id }, "Organization subscription deleted, downgrading to free");
+        await this.orgsRepo().updateOrganizationSubscription(org.id, {
+          tier: "free",
+          subscriptionStatus: "canceled",
+          subscriptionEndsAt: null,
+        });
+      }
       return;
     }
 
@@ -358,7 +438,11 @@ export class SubscriptionsManager {
     const user = await this.deps.jobsRepo.getUserByStripeCustomerId(invoice.customer);
 
     if (!user) {
-      this.deps.logger.warn({ customerId: invoice.customer }, "No user found for Stripe customer");
+      const org = await this.findOrgByCustomer(invoice.customer);
+      if (org) {
+        this.deps.logger.info({ orgId: org.id }, "Organization payment succeeded");
+        await this.orgsRepo().updateOrganizationSubscription(org.id, { subscriptionStatus: "active" });
+      }
       return;
     }
 
@@ -405,7 +489,11 @@ export class SubscriptionsManager {
     const user = await this.deps.jobsRepo.getUserByStripeCustomerId(invoice.customer);
 
     if (!user) {
-      this.deps.logger.warn({ customerId: invoice.customer }, "No user found for Stripe customer");
+      const org = await this.findOrgByCustomer(invoice.customer);
+      if (org) {
+        this.deps.logger.warn({ orgId: org.id }, "Organization payment failed, marking past_due");
+        await this.orgsRepo().updateOrganizationSubscription(org.id, { subscriptionStatus: "past_due" });
+      }
       return;
     }
 
@@ -415,4 +503,38 @@ export class SubscriptionsManager {
       subscriptionStatus: "past_due",
     });
   }
+
+  private orgsRepo(): OrganizationsRepo {
+    if (!this.deps.orgsRepo) {
+      throw new Error("Organization billing is not configured");
+    }
+    return this.deps.orgsRepo;
+  }
+
+  /**
+   * Organization for a Stripe customer; logs a warning when neither a user nor an org matches.
+   */
+  private async findOrgByCustomer(customerId: string): Promise<Organization | null> {
+    const org = this.deps.orgsRepo ? await this.deps.orgsRepo.getOrganizationByStripeCustomerId(customerId) : null;
+    if (!org) {
+      this.deps.logger.warn({ customerId }, "No user found for Stripe customer");
+    }
+    return org;
+  }
+
+  /**
+   * @throws NotFoundError if the user isn't a member, ForbiddenError if their role is below `required`
+   */
+  private async requireOrgRole(userId: string, orgId: string, required: OrgRole): Promise<Organization> {
+    const orgsRepo = this.orgsRepo();
+    const role = await orgsRepo.getMemberRole(orgId, userId);
+    const org = role ? await orgsRepo.getOrganization(orgId) : null;
+    if (!role || !org) {
+      throw new NotFoundError(`Organization not found: ${orgId}`);
+    }
+    if (!hasOrgRole(role, required)) {
+      throw new ForbiddenError(`Forbidden: billing requires the ${required} role`);
+    }
+    return org;
+  }
 }
@@ -1,20 +1,23 @@
-import type { JobsRepo, Logger, PaymentProvider } from "@cronicorn/domain";
+import type { JobsRepo, Logger, OrganizationsRepo, PaymentProvider } from "@cronicorn/domain";
 
 export type SubscriptionDeps = {
   jobsRepo: JobsRepo;
   paymentProvider: PaymentProvider;
   baseUrl: string;
   logger: Logger;
+  orgsRepo?: OrganizationsRepo; // Required for organization billing
 };
 
 export type CreateCheckoutInput = {
   userId: string;
   tier: "pro" | "enterprise";
   billingPeriod?: "monthly" | "annual";
+  orgId?: string; // Subscribe this organization (owner only) instead of the user
 };
 
 export type CreatePortalInput = {
   userId: string;
+  orgId?: string; // Manage this organization's subscription (owner only)
 };
 
 export type SubscriptionStatus = {
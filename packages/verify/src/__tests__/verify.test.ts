@@ -0,0 +1,318 @@
+import type { Clock, Dispatcher, ExecutionResult, JobEndpoint, Logger, SigningKey, SigningKeyProvider } from "@cronicorn/domain";
+
+import { SigningDispatcher } from "@cronicorn/adapter-http";
+import { buildJwks } from "@cronicorn/domain/signing";
+import { generateKeyPairSync } from "node:crypto";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import type { SignedRequest } from "../verify.js";
+
+import { clearJwksCache } from "../jwks.js";
+import { verifyRequest, verifySignature } from "../verify.js";
+
+const fixedTime = new Date("2024-01-01T00:00:00Z");
+const now = Math.floor(fixedTime.getTime() / 1000);
+
+const oldKey: SigningKey = { id: "key-old", key: "a".repeat(64), algorithm: "hmac-sha256", version: "v2" };
+const newKey: SigningKey = { id: "key-new", key: "b".repeat(64), algorithm: "hmac-sha256", version: "v2" };
+
+function createEd25519Key(id: string): { key: SigningKey; publicKey: string } {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    key: { id, key: privateKey.export({ format: "pem", type: "pkcs8" }).toString(), algorithm: "ed25519", version: "v1" },
+    publicKey: publicKey.export({ format: "jwk" }).x!,
+  };
+}
+
+function createLogger(): Logger {
+  return { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn(), child: () => createLogger() };
+}
+
+type SentRequest = SignedRequest & { headers: Record<string, string> };
+
+/**
+ * Runs the endpoint through the SigningDispatcher and returns the request
+ * as HttpDispatcher would send it.
+ */
+async function sign(keys: SigningKey[], overrides?: Partial<JobEndpoint>): Promise<SentRequest> {
+  let signed: JobEndpoint | undefined;
+  const inner: Dispatcher = {
+    async execute(ep: JobEndpoint): Promise<ExecutionResult> {
+      signed = ep;
+      return { status: "success", durationMs: 1 };
+    },
+  };
+  const keyProvider: SigningKeyProvider = { getKeys: async () => keys };
+  const clock: Clock = { now: () => fixedTime, sleep: () => Promise.resolve() };
+
+  await new SigningDispatcher(inner, keyProvider, createLogger(), clock).execute({
+    id: "ep-1",
+    tenantId: "user-1",
+    name: "sync",
+    nextRunAt: fixedTime,
+    failureCount: 0,
+    url: "https://hooks.example.com/jobs/sync?full=1",
+    method: "POST",
+    headersJson: { "X-Tenant": "acme" },
+    bodyJson: { items: [1, 2, 3] },
+    ...overrides,
+  });
+
+  const method = signed!.method ?? "GET";
+  return {
+    method,
+    url: signed!.url!,
+    headers: signed!.headersJson!,
+    body: method === "GET" ? "" : JSON.stringify(signed!.bodyJson),
+  };
+}
+
+describe("verifySignature", () => {
+  it("accepts a v2 request signed by the dispatcher", async () => {
+    const request = await sign([oldKey]);
+
+    const result = await verifySignature(request, { keys: oldKey.key, now });
+
+    expect(result).toEqual({ ok: true, version: "v2", keyId: "key-old", timestamp: now });
+  });
+
+  it("accepts a v1 request signed by the dispatcher", async () => {
+    const request = await sign([{ ...oldKey, version: "v1" }]);
+
+    const result = await verifySignature(request, { keys: oldKey.key, now });
+
+    expect(result).toMatchObject({ ok: true, version: "v1" });
+  });
+
+  it("accepts a v2 GET request, which has no body", async () => {
+    const request = await sign([oldKey], { method: "GET", bodyJson: undefined });
+
+    await expect(verifySignature(request, { keys: oldKey.key, now })).resolves.toMatchObject({ ok: true });
+  });
+
+  it("accepts Node.js-style lowercase headers", async () => {
+    const request = await sign([oldKey]);
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value]),
+    );
+
+    await expect(verifySignature({ ...request, headers }, { keys: oldKey.key, now })).resolves.toMatchObject({ ok: true });
+  });
+
+  it.each([
+    ["path", { url: "https://hooks.example.com/jobs/delete?full=1" }],
+    ["query", { url: "https://hooks.example.com/jobs/sync?full=0" }],
+    ["method", { method: "PUT" }],
+    ["body", { body: "{\"items\":[]}" }],
+  ])("rejects a v2 request with a tampered %s", async (_, tampered) => {
+    const request = await sign([oldKey]);
+
+    const result = await verifySignature({ ...request, ...tampered }, { keys: oldKey.key, now });
+
+    expect(result).toEqual({ ok: false, reason: "signature_mismatch" });
+  });
+
+  it("rejects a v2 request with a tampered signed header", async () => {
+    const request = await sign([oldKey]);
+    const headers = { ...request.headers, "X-Tenant": "other" };
+
+    const result = await verifySignature({ ...request, headers }, { keys: oldKey.key, now });
+
+    expect(result).toEqual({ ok: false, reason: "signature_mismatch" });
+  });
+
+  it("ignores the host, which proxies may rewrite", async () => {
+    const request = await sign([oldKey]);
+
+    const result = await verifySignature({ ...request, url: "http://internal:8080/jobs/sync?full=1" }, { keys: oldKey.key, now });
+
+    expect(result).toMatchObject({ ok: true });
+  });
+
+  it("rejects a wrong key", async () => {
+    const request = await sign([oldKey]);
+
+    const result = await verifySignature(request, { keys: "c".repeat(64), now });
+
+    expect(result).toEqual({ ok: false, reason: "signature_mismatch" });
+  });
+
+  it("rejects requests without signature headers", async () => {
+    const result = await verifySignature({ method: "POST", url: "/", headers: {}, body: "" }, { keys: oldKey.key, now });
+
+    expect(result).toEqual({ ok: false, reason: "missing_signature" });
+  });
+
+  describe("replay window", () => {
+    it("rejects timestamps older than the tolerance", async () => {
+      const request = await sign([oldKey]);
+
+      const result = await verifySignature(request, { keys: oldKey.key, now: now + 301 });
+
+      expect(result).toEqual({ ok: false, reason: "timestamp_out_of_range" });
+    });
+
+    it("rejects timestamps too far in the future", async () => {
+      const request = await sign([oldKey]);
+
+      const result = await verifySignature(request, { keys: oldKey.key, now: now - 301 });
+
+      expect(result).toEqual({ ok: false, reason: "timestamp_out_of_range" });
+    });
+
+    it("honors a custom tolerance", async () => {
+      const request = await sign([oldKey]);
+
+      await expect(verifySignature(request, { keys: oldKey.key, now: now + 600, toleranceSeconds: 900 }))
+        .resolves
+        .toMatchObject({ ok: true });
+      await expect(verifySignature(request, { keys: oldKey.key, now: now + 60, toleranceSeconds: 30 }))
+        .resolves
+        .toEqual({ ok: false, reason: "timestamp_out_of_range" });
+    });
+
+    it("rejects a malformed timestamp", async () => {
+      const request = await sign([oldKey]);
+      const headers = { ...request.headers, "X-Cronicorn-Timestamp": "soon" };
+
+      const result = await verifySignature({ ...request, headers }, { keys: oldKey.key, now });
+
+      expect(result).toEqual({ ok: false, reason: "invalid_timestamp" });
+    });
+  });
+
+  describe("key rotation", () => {
+    it("accepts a request signed with both keys using either key", async () => {
+      const request = await sign([newKey, oldKey]);
+
+      await expect(verifySignature(request, { keys: oldKey.key, now })).resolves.toMatchObject({ ok: true, keyId: "key-old" });
+      await expect(verifySignature(request, { keys: newKey.key, now })).resolves.toMatchObject({ ok: true, keyId: "key-new" });
+    });
+
+    it("checks each signature only against the key with its id", async () => {
+      const request = await sign([newKey, oldKey]);
+
+      const result = await verifySignature(request, { keys: { "key-new": newKey.key }, now });
+
+      expect(result).toMatchObject({ ok: true, keyId: "key-new" });
+    });
+
+    it("reports an unknown key when no signature has a known key id", async () => {
+      const request = await sign([newKey]);
+
+      const result = await verifySignature(request, { keys: { "key-old": oldKey.key }, now });
+
+      expect(result).toEqual({ ok: false, reason: "unknown_key" });
+    });
+
+    it("rejects a known key id whose secret doesn't match", async () => {
+      const request = await sign([newKey]);
+
+      const result = await verifySignature(request, { keys: { "key-new": oldKey.key }, now });
+
+      expect(result).toEqual({ ok: false, reason: "signature_mismatch" });
+    });
+  });
+
+  it("rejects schemes that aren't accepted", async () => {
+    const request = await sign([{ ...oldKey, version: "v1" }]);
+
+    const result = await verifySignature(request, { keys: oldKey.key, now, versions: ["v2"] });
+
+    expect(result).toEqual({ ok: false, reason: "unsupported_version" });
+  });
+});
+
+describe("ed25519", () => {
+  const current = createEd25519Key("key-ed-new");
+  const previous = createEd25519Key("key-ed-old");
+  const jwks = buildJwks([
+    { id: current.key.id, publicKey: current.publicKey, expiresAt: null },
+    { id: previous.key.id, publicKey: previous.publicKey, expiresAt: new Date() },
+  ]);
+
+  afterEach(() => {
+    clearJwksCache();
+    vi.unstubAllGlobals();
+  });
+
+  it("accepts a request signed by the dispatcher, picking the key by kid", async () => {
+    const request = await sign([current.key]);
+
+    const result = await verifySignature(request, { jwks, now });
+
+    expect(result).toEqual({ ok: true, version: "ed25519", keyId: "key-ed-new", timestamp: now });
+  });
+
+  it("accepts a request signed during a rotation with only the old key published", async () => {
+    const request = await sign([current.key, previous.key]);
+
+    const result = await verifySignature(request, { jwks: { keys: [jwks.keys[1]!] }, now });
+
+    expect(result).toMatchObject({ ok: true, keyId: "key-ed-old" });
+  });
+
+  it("rejects a tampered request", async () => {
+    const request = await sign([current.key]);
+
+    const result = await verifySignature({ ...request, url: "/jobs/delete" }, { jwks, now });
+
+    expect(result).toEqual({ ok: false, reason: "signature_mismatch" });
+  });
+
+  it("reports an unknown key when the JWKS lacks the kid", async () => {
+    const request = await sign([current.key]);
+
+    const result = await verifySignature(request, { jwks: { keys: [jwks.keys[1]!] }, now });
+
+    expect(result).toEqual({ ok: false, reason: "unknown_key" });
+  });
+
+  it("verifies HMAC and Ed25519 signatures side by side while switching algorithm", async () => {
+    const request = await sign([current.key, oldKey]);
+
+    await expect(verifySignature(request, { keys: oldKey.key, now })).resolves.toMatchObject({ ok: true, version: "v2" });
+    await expect(verifySignature(request, { jwks, now })).resolves.toMatchObject({ ok: true, version: "ed25519" });
+  });
+
+  it("fetches a JWKS URL once, and refetches it for an unknown kid", async () => {
+    const fetch = vi.fn(async () => Response.json({ keys: [jwks.keys[1]] }));
+    vi.stubGlobal("fetch", fetch);
+    const url = "https://api.example.com/api/tenants/user-1/.well-known/jwks.json";
+
+    const oldRequest = await sign([previous.key]);
+    await expect(verifySignature(oldRequest, { jwks: url, now })).resolves.toMatchObject({ ok: true });
+    await expect(verifySignature(oldRequest, { jwks: url, now })).resolves.toMatchObject({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    // A new key appears after a rotation; the cached set is recent, so it isn't refetched yet
+    fetch.mockImplementation(async () => Response.json(jwks));
+    const newRequest = await sign([current.key]);
+    await expect(verifySignature(newRequest, { jwks: url, now })).resolves.toEqual({ ok: false, reason: "unknown_key" });
+
+    vi.useFakeTimers({ now: Date.now() + 31_000, toFake: ["Date"] });
+    try {
+      await expect(verifySignature(newRequest, { jwks: url, now })).resolves.toMatchObject({ ok: true, keyId: "key-ed-new" });
+      expect(fetch).toHaveBeenCalledTimes(2);
+    }
+    finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe("verifyRequest", () => {
+  it("verifies a Fetch API request and leaves its body readable", async () => {
+    const signed = await sign([oldKey]);
+    const request = new Request(signed.url, {
+      method: signed.method,
+      headers: signed.headers,
+      body: signed.body,
+    });
+
+    const result = await verifyRequest(request, { keys: oldKey.key, now });
+
+    expect(result).toMatchObject({ ok: true, version: "v2" });
+    await expect(request.json()).resolves.toEqual({ items: [1, 2, 3] });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * v2 canonical request, rebuilt on the receiving side.
+ *
+ * Must match canonicalizeRequest in @cronicorn/domain/signing line for line; the
+ * verifier tests check that against the dispatcher's output. Uses Web Crypto only,
+ * so it runs in Node.js and edge runtimes alike.
+ */
+
+const encoder = new TextEncoder();
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export async function sha256Hex(data: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(data)));
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+}
+
+export async function canonicalizeRequest(
+  request: { method: string; url: string; body: string },
+  timestamp: number,
+  signedHeaders: Array<[name: string, value: string]>,
+): Promise<string> {
+  const { pathname, search } = new URL(request.url, "http://localhost");
+
+  return [
+    "v2",
+    String(timestamp),
+    request.method.toUpperCase(),
+    `${pathname}${search}`,
+    signedHeaders.map(([name]) => name).join(";"),
+    ...signedHeaders.map(([name, value]) => `${name}:${value.trim()}`),
+    await sha256Hex(request.body),
+  ].join("\n");
+}
@@ -0,0 +1,17 @@
+/**
+ * @cronicorn/verify
+ *
+ * Verifies the signatures Cronicorn attaches to outbound requests and alert webhooks.
+ */
+
+export type { JsonWebKeySet, JwksSource, PublicJwk } from "./jwks.js";
+export { verifyRequest, verifySignature } from "./verify.js";
+export type {
+  HeadersLike,
+  SignatureVersion,
+  SignedRequest,
+  VerificationFailure,
+  VerificationKeys,
+  VerifyOptions,
+  VerifyResult,
+} from "./verify.js";
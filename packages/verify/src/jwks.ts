@@ -0,0 +1,83 @@
+/**
+ * Ed25519 public keys from a tenant's JWKS.
+ *
+ * A JWKS given by URL is fetched on first use and cached per URL. It's refetched after
+ * REFRESH_MS, or sooner (at most every MIN_REFETCH_MS) when a request names a kid the
+ * cached set doesn't have — which is how a rotation's new key reaches the verifier.
+ */
+
+/**
+ * A public key from the JWKS. Only Ed25519 keys (`kty: "OKP"`, `crv: "Ed25519"`) are used.
+ */
+export type PublicJwk = {
+  kty: string;
+  crv?: string;
+  x?: string;
+  kid?: string;
+};
+
+export type JsonWebKeySet = { keys: PublicJwk[] };
+
+/**
+ * A JWKS, or the URL to fetch it from (`jwksUrl` from GET /api/signing-keys).
+ */
+export type JwksSource = JsonWebKeySet | string;
+
+const REFRESH_MS = 10 * 60 * 1000;
+const MIN_REFETCH_MS = 30 * 1000;
+
+const cache = new Map<string, { jwks: JsonWebKeySet; fetchedAt: number }>();
+
+async function fetchJwks(url: string): Promise<JsonWebKeySet> {
+  const response = await fetch(url, { headers: { accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch JWKS from ${url}: HTTP ${response.status}`);
+  }
+  const jwks: JsonWebKeySet = await response.json();
+  cache.set(url, { jwks, fetchedAt: Date.now() });
+  return jwks;
+}
+
+async function loadJwks(url: string, kid: string | null): Promise<JsonWebKeySet> {
+  const cached = cache.get(url);
+  if (!cached) {
+    return fetchJwks(url);
+  }
+  const age = Date.now() - cached.fetchedAt;
+  const unknownKid = kid !== null && !cached.jwks.keys.some(k => k.kid === kid);
+  if (age > REFRESH_MS || (unknownKid && age > MIN_REFETCH_MS)) {
+    return fetchJwks(url);
+  }
+  return cached.jwks;
+}
+
+/**
+ * Ed25519 keys that may have made a signature: the one with `kid`, or all of them
+ * when the request doesn't say.
+ *
+ * @throws when a JWKS URL can't be fetched
+ */
+export async function resolvePublicKeys(source: JwksSource, kid: string | null): Promise<PublicJwk[]> {
+  const jwks = typeof source === "string" ? await loadJwks(source, kid) : source;
+  return jwks.keys.filter(k => k.kty === "OKP" && k.crv === "Ed25519" && (kid === null || k.kid === kid));
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export async function verifyEd25519(jwk: PublicJwk, signature: string, message: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey("jwk", { kty: jwk.kty, crv: jwk.crv, x: jwk.x }, { name: "Ed25519" }, false, ["verify"]);
+    return await crypto.subtle.verify({ name: "Ed25519" }, key, fromBase64Url(signature), new TextEncoder().encode(message));
+  }
+  catch {
+    return false; // Malformed key or signature
+  }
+}
+
+/** Forget cached JWKS (for tests) */
+export function clearJwksCache(): void {
+  cache.clear();
+}
@@ -0,0 +1,204 @@
+/**
+ * Verification of Cronicorn request signatures.
+ *
+ * Checks, in order: the signature headers are present, the timestamp is within the
+ * replay window, and at least one signature matches one of your keys. During a key
+ * rotation requests carry one signature per key (with their ids in X-Cronicorn-Key-Id),
+ * so a receiver holding either key accepts them.
+ *
+ * HMAC signatures (v1, v2) are checked against your secrets; Ed25519 signatures against
+ * the public keys in your JWKS, picked by kid.
+ */
+
+import type { JwksSource } from "./jwks.js";
+
+import { canonicalizeRequest, hmacSha256Hex } from "./canonical-request.js";
+import { resolvePublicKeys, verifyEd25519 } from "./jwks.js";
+
+/**
+ * Signature scheme: v1 and v2 are HMAC-SHA256, ed25519 signs the same canonical request as v2.
+ */
+export type SignatureVersion = "v1" | "v2" | "ed25519";
+
+/**
+ * Signing keys to verify with: one secret, several (e.g. old and new during a rotation),
+ * or secrets by key id, which only checks the signature made with each known key.
+ */
+export type VerificationKeys = string | string[] | Record<string, string>;
+
+/**
+ * Pass `keys` for HMAC signatures, `jwks` for Ed25519 signatures, or both while switching.
+ */
+export type VerifyOptions = {
+  keys?: VerificationKeys;
+  jwks?: JwksSource; // A JWKS, or its URL (fetched and cached)
+  toleranceSeconds?: number; // Largest accepted clock difference, either way (default: 300)
+  versions?: SignatureVersion[]; // Accepted schemes (default: all; e.g. ["v2", "ed25519"] to reject v1)
+  now?: number; // Current unix time in seconds (default: the system clock)
+};
+
+export type VerificationFailure =
+  | "missing_signature" // No X-Cronicorn-Signature or X-Cronicorn-Timestamp header
+  | "invalid_timestamp" // Timestamp isn't a unix time in seconds
+  | "timestamp_out_of_range" // Outside the replay window
+  | "unsupported_version" // Only schemes not in `versions` were sent
+  | "unknown_key" // Keys by id given, but no signature was made with one of them
+  | "signature_mismatch";
+
+export type VerifyResult =
+  | { ok: true; version: SignatureVersion; keyId: string | null; timestamp: number }
+  | { ok: false; reason: VerificationFailure };
+
+/**
+ * Headers as a Fetch API `Headers` object or a Node.js `IncomingHttpHeaders`-style record.
+ */
+export type HeadersLike = Headers | Record<string, string | string[] | undefined>;
+
+/**
+ * The parts of a received request needed to verify it.
+ * `body` must be the raw body, before any parsing.
+ */
+export type SignedRequest = {
+  method: string;
+  url: string; // Full URL, or path and query
+  headers: HeadersLike;
+  body: string;
+};
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const SCHEMES: Record<string, SignatureVersion> = { sha256: "v1", v2: "v2", ed25519: "ed25519" };
+
+function getHeader(headers: HeadersLike, name: string): string | null {
+  if (headers instanceof Headers) {
+    return headers.get(name);
+  }
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+  const value = key === undefined ? undefined : headers[key];
+  return Array.isArray(value) ? value.join(", ") : value ?? null;
+}
+
+function splitList(value: string | null, separator: string): string[] {
+  return (value ?? "").split(separator).map(part => part.trim()).filter(part => part.length > 0);
+}
+
+/** Constant-time comparison of two hex strings */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function secretsFor(keys: VerificationKeys | undefined, keyId: string | null): string[] {
+  if (keys === undefined) {
+    return [];
+  }
+  if (typeof keys === "string") {
+    return [keys];
+  }
+  if (Array.isArray(keys)) {
+    return keys;
+  }
+  if (keyId === null) {
+    return Object.values(keys);
+  }
+  return Object.hasOwn(keys, keyId) ? [keys[keyId]!] : [];
+}
+
+/**
+ * Verify a request's signature.
+ *
+ * @throws when `jwks` is a URL that can't be fetched
+ */
+export async function verifySignature(request: SignedRequest, options: VerifyOptions): Promise<VerifyResult> {
+  const signatureHeader = getHeader(request.headers, "x-cronicorn-signature");
+  const timestampHeader = getHeader(request.headers, "x-cronicorn-timestamp");
+  if (!signatureHeader || !timestampHeader) {
+    return { ok: false, reason: "missing_signature" };
+  }
+
+  if (!/^\d+$/.test(timestampHeader.trim())) {
+    return { ok: false, reason: "invalid_timestamp" };
+  }
+  const timestamp = Number(timestampHeader.trim());
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS)) {
+    return { ok: false, reason: "timestamp_out_of_range" };
+  }
+
+  const signatures = splitList(signatureHeader, ",");
+  const keyIds = splitList(getHeader(request.headers, "x-cronicorn-key-id"), ",");
+  const versions = options.versions ?? ["v1", "v2", "ed25519"];
+  let canonical: string | undefined;
+  let sawAcceptedVersion = false;
+  let sawKnownKey = false;
+
+  for (const [index, entry] of signatures.entries()) {
+    const separator = entry.indexOf("=");
+    const version = SCHEMES[entry.slice(0, separator)];
+    if (separator < 0 || !version || !versions.includes(version)) {
+      continue;
+    }
+    sawAcceptedVersion = true;
+
+    // Key ids line up with signatures only when both lists are complete
+    const keyId = keyIds.length === signatures.length ? keyIds[index]! : null;
+    const actual = entry.slice(separator + 1);
+
+    let message: string;
+    if (version === "v1") {
+      message = `${timestamp}.${request.body}`;
+    }
+    else {
+      canonical ??= await canonicalizeRequest(
+        request,
+        timestamp,
+        splitList(getHeader(request.headers, "x-cronicorn-signed-headers"), ";")
+          .map(name => [name.toLowerCase(), getHeader(request.headers, name.toLowerCase()) ?? ""]),
+      );
+      message = canonical;
+    }
+
+    if (version === "ed25519") {
+      const publicKeys = options.jwks ? await resolvePublicKeys(options.jwks, keyId) : [];
+      sawKnownKey ||= publicKeys.length > 0;
+      for (const jwk of publicKeys) {
+        if (await verifyEd25519(jwk, actual, message)) {
+          return { ok: true, version, keyId, timestamp };
+        }
+      }
+      continue;
+    }
+
+    const secrets = secretsFor(options.keys, keyId);
+    sawKnownKey ||= secrets.length > 0;
+    for (const secret of secrets) {
+      if (safeEqual(await hmacSha256Hex(secret, message), actual.toLowerCase())) {
+        return { ok: true, version, keyId, timestamp };
+      }
+    }
+  }
+
+  if (!sawAcceptedVersion) {
+    return { ok: false, reason: "unsupported_version" };
+  }
+  return { ok: false, reason: sawKnownKey ? "signature_mismatch" : "unknown_key" };
+}
+
+/**
+ * Verify a Fetch API `Request` (edge runtimes, Hono, Next.js route handlers, ...).
+ * Reads the body from a clone, so the request can still be consumed afterwards.
+ */
+export async function verifyRequest(request: Request, options: VerifyOptions): Promise<VerifyResult> {
+  return verifySignature({
+    method: request.method,
+    url: request.url,
+    headers: request.headers,
+    body: await request.clone().text(),
+  }, options);
+}
@@ -68,8 +68,8 @@ describe("ai-controlled analysis scheduling", () => {
       archiveEndpoint: vi.fn(),
       countEndpointsByUser: vi.fn(),
       claimDueEndpoints: vi.fn(),
-      setLock: vi.fn(),
-      clearLock: vi.fn(),
+      renewLease: vi.fn(),
+      releaseLease: vi.fn(),
       clearAIHints: vi.fn(),
       resetFailureCount: vi.fn(),
       updateAfterRun: vi.fn(),
@@ -93,6 +93,7 @@ describe("ai-controlled analysis scheduling", () => {
       getSiblingLatestResponses: vi.fn(),
       getJobHealthDistribution: vi.fn(),
       getFilteredMetrics: vi.fn(),
+      getJobLagPercentiles: vi.fn(),
       getSourceDistribution: vi.fn(),
       getRunTimeSeries: vi.fn(),
       getEndpointTimeSeries: vi.fn(),
@@ -1,5 +1,6 @@
 import type { AIClient, Clock, JobEndpoint, JobsRepo, QuotaGuard, RunsRepo, SessionsRepo } from "@cronicorn/domain";
 
+import { callTool, FakeMetrics, FakeTracer, InMemoryAuditRepo } from "@cronicorn/domain";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import type { PlannerLogger } from "../planner.js";
@@ -58,8 +59,8 @@ describe("aiPlanner", () => {
       deleteEndpoint: vi.fn(),
       countEndpointsByUser: vi.fn(),
       claimDueEndpoints: vi.fn(),
-      setLock: vi.fn(),
-      clearLock: vi.fn(),
+      renewLease: vi.fn(),
+      releaseLease: vi.fn(),
       clearAIHints: vi.fn(),
       resetFailureCount: vi.fn(),
       updateAfterRun: vi.fn(),
@@ -229,6 +230,102 @@ describe("aiPlanner", () => {
       expect(tools).toHaveProperty("pause_until");
     });
 
+    it("withholds schedule hint tools from heartbeat endpoints", async () => {
+      const mockEndpoint: JobEndpoint = {
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Nightly backup",
+        kind: "heartbeat",
+        pingToken: "tok",
+        baselineIntervalMs: 86_400_000,
+        nextRunAt: new Date(),
+        failureCount: 0,
+      };
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(mockEndpoint);
+      vi.mocked(mockRunsRepo.getHealthSummaryMultiWindow).mockResolvedValue(createMultiWindowHealth());
+      vi.mocked(mockAIClient.planWithTools).mockResolvedValue({ toolCalls: [], reasoning: "Analysis complete", tokenUsage: 100 });
+
+      await planner.analyzeEndpoint("ep-1");
+
+      const aiCall = vi.mocked(mockAIClient.planWithTools).mock.calls[0][0];
+      expect(aiCall.input).toContain("**Heartbeat:**");
+      expect(aiCall.tools).not.toHaveProperty("propose_interval");
+      expect(aiCall.tools).not.toHaveProperty("propose_next_time");
+      expect(aiCall.tools).toHaveProperty("pause_until");
+      expect(aiCall.tools).toHaveProperty("submit_analysis");
+    });
+
+    it("describes declared dependencies in both directions", async () => {
+      const mockEndpoint: JobEndpoint = {
+        id: "ep-transform",
+        jobId: "job-1",
+        tenantId: "user-1",
+        name: "transform",
+        baselineIntervalMs: 86_400_000,
+        runAfter: { upstreamIds: ["ep-extract"], mode: "all", delayMs: 30_000 },
+        nextRunAt: new Date(),
+        failureCount: 0,
+      };
+      const sibling = (id: string, name: string, runAfter?: JobEndpoint["runAfter"]): JobEndpoint => ({
+        id,
+        jobId: "job-1",
+        tenantId: "user-1",
+        name,
+        baselineIntervalMs: 86_400_000,
+        runAfter,
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(mockEndpoint);
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(null);
+      vi.mocked(mockJobsRepo.listEndpointsByJob).mockResolvedValue([
+        sibling("ep-extract", "extract"),
+        mockEndpoint,
+        sibling("ep-load", "load", { upstreamIds: ["ep-transform"], mode: "any" }),
+      ]);
+      vi.mocked(mockRunsRepo.getHealthSummaryMultiWindow).mockResolvedValue(createMultiWindowHealth());
+      vi.mocked(mockAIClient.planWithTools).mockResolvedValue({ toolCalls: [], reasoning: "Analysis complete", tokenUsage: 100 });
+
+      await planner.analyzeEndpoint("ep-transform");
+
+      const aiCall = vi.mocked(mockAIClient.planWithTools).mock.calls[0][0];
+      expect(aiCall.input).toContain("**Dependencies:** Runs after all of [extract] succeed + 30000ms | Success triggers [load]");
+    });
+
+    it("includes the endpoint's and job's blackout windows as constraints", async () => {
+      const mockEndpoint: JobEndpoint = {
+        id: "ep-sync",
+        jobId: "job-1",
+        tenantId: "user-1",
+        name: "sync",
+        baselineIntervalMs: 3_600_000,
+        blackoutWindows: [{ name: "Sunday maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00", timezone: "Europe/Berlin" }],
+        nextRunAt: new Date(),
+        failureCount: 0,
+      };
+
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(mockEndpoint);
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue({
+        id: "job-1",
+        userId: "user-1",
+        name: "Sync",
+        status: "active",
+        blackoutWindows: [{ calendar: "us-federal-holidays", timezone: "America/New_York" }],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      vi.mocked(mockJobsRepo.listEndpointsByJob).mockResolvedValue([mockEndpoint]);
+      vi.mocked(mockRunsRepo.getHealthSummaryMultiWindow).mockResolvedValue(createMultiWindowHealth());
+      vi.mocked(mockAIClient.planWithTools).mockResolvedValue({ toolCalls: [], reasoning: "Analysis complete", tokenUsage: 100 });
+
+      await planner.analyzeEndpoint("ep-sync");
+
+      const aiCall = vi.mocked(mockAIClient.planWithTools).mock.calls[0][0];
+      expect(aiCall.input).toContain("**Blackout Windows:** Sunday maintenance: Sun 02:00-04:00 (Europe/Berlin); US federal holidays all day (America/New_York) (scheduler-enforced");
+    });
+
     it("passes no warnings for clean session with submit_analysis and reasoning", async () => {
       const mockEndpoint: JobEndpoint = {
         id: "ep-1",
@@ -348,6 +445,54 @@ describe("aiPlanner", () => {
       );
     });
 
+    it("records the session's scheduling changes in the audit log", async () => {
+      const audit = new InMemoryAuditRepo();
+      planner = new AIPlanner({
+        aiClient: mockAIClient,
+        jobs: mockJobsRepo,
+        runs: mockRunsRepo,
+        sessions: mockSessionsRepo,
+        quota: mockQuotaGuard,
+        clock: fakeClock,
+        logger: mockLogger,
+        audit,
+      });
+      const endpoint: JobEndpoint = {
+        id: "ep-1",
+        jobId: "job-1",
+        tenantId: "user-1",
+        name: "Test Endpoint",
+        baselineIntervalMs: 60_000,
+        nextRunAt: new Date("2025-10-15T13:00:00Z"),
+        failureCount: 0,
+      };
+      const pausedUntil = new Date("2025-10-15T18:00:00Z");
+
+      vi.mocked(mockJobsRepo.getEndpoint)
+        .mockResolvedValueOnce(endpoint)
+        .mockResolvedValueOnce(endpoint)
+        .mockResolvedValueOnce({ ...endpoint, pausedUntil });
+      vi.mocked(mockJobsRepo.getJob).mockResolvedValue(null);
+      vi.mocked(mockJobsRepo.listEndpointsByJob).mockResolvedValue([endpoint]);
+      vi.mocked(mockRunsRepo.getHealthSummaryMultiWindow).mockResolvedValue(createMultiWindowHealth());
+      vi.mocked(mockSessionsRepo.create).mockResolvedValue("session-1");
+      vi.mocked(mockAIClient.planWithTools).mockImplementation(async ({ tools }) => {
+        await callTool(tools, "pause_until", { untilIso: pausedUntil.toISOString(), reason: "Maintenance" });
+        return { toolCalls: [], reasoning: "Paused for maintenance", tokenUsage: 100 };
+      });
+
+      await planner.analyzeEndpoint("ep-1");
+
+      expect(audit.events).toEqual([expect.objectContaining({
+        tenantId: "user-1",
+        actor: { type: "ai_session", id: "session-1" },
+        action: "endpoint.paused",
+        jobId: "job-1",
+        endpointId: "ep-1",
+        changes: [{ field: "pausedUntil", before: null, after: "2025-10-15T18:00:00.000Z" }],
+      })]);
+    });
+
     it("skips analysis when quota exceeded", async () => {
       const mockEndpoint: JobEndpoint = {
         id: "ep-1",
@@ -439,6 +584,81 @@ describe("aiPlanner", () => {
       expect(mockAIClient.planWithTools).toHaveBeenCalledTimes(1);
     });
 
+    it("records session, token, tool call and error metrics", async () => {
+      const metrics = new FakeMetrics();
+      planner = new AIPlanner({
+        aiClient: mockAIClient,
+        jobs: mockJobsRepo,
+        runs: mockRunsRepo,
+        sessions: mockSessionsRepo,
+        quota: mockQuotaGuard,
+        clock: fakeClock,
+        logger: mockLogger,
+        metrics,
+      });
+      const endpoint: JobEndpoint = {
+        id: "ep-2",
+        tenantId: "user-1",
+        name: "Endpoint 2",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      };
+
+      vi.mocked(mockJobsRepo.getEndpoint)
+        .mockRejectedValueOnce(new Error("Database connection lost"))
+        .mockResolvedValueOnce(endpoint);
+      vi.mocked(mockRunsRepo.getHealthSummaryMultiWindow).mockResolvedValue(createMultiWindowHealth());
+      vi.mocked(mockAIClient.planWithTools).mockResolvedValue({
+        toolCalls: [
+          { tool: "get_latest_response", args: {}, result: {} },
+          { tool: "submit_analysis", args: {}, result: { reasoning: "Stable" } },
+        ],
+        reasoning: "Stable",
+        tokenUsage: 420,
+      });
+
+      await planner.analyzeEndpoints(["ep-1", "ep-2"]);
+
+      expect(metrics.total("cronicorn_ai_planner_errors_total")).toBe(1);
+      expect(metrics.total("cronicorn_ai_planner_sessions_total")).toBe(1);
+      expect(metrics.total("cronicorn_ai_planner_tokens_total")).toBe(420);
+      expect(metrics.total("cronicorn_ai_planner_tool_calls_total", { tool: "submit_analysis" })).toBe(1);
+      expect(metrics.total("cronicorn_ai_planner_tool_calls_total")).toBe(2);
+    });
+
+    it("traces the analysis and model call and stores the trace id on the session", async () => {
+      const tracer = new FakeTracer();
+      planner = new AIPlanner({
+        aiClient: mockAIClient,
+        jobs: mockJobsRepo,
+        runs: mockRunsRepo,
+        sessions: mockSessionsRepo,
+        quota: mockQuotaGuard,
+        clock: fakeClock,
+        logger: mockLogger,
+        tracer,
+      });
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({
+        id: "ep-1",
+        tenantId: "user-1",
+        name: "Endpoint 1",
+        nextRunAt: new Date(),
+        failureCount: 0,
+      });
+      vi.mocked(mockRunsRepo.getHealthSummaryMultiWindow).mockResolvedValue(createMultiWindowHealth());
+      vi.mocked(mockAIClient.planWithTools).mockResolvedValue({
+        toolCalls: [{ tool: "submit_analysis", args: {}, result: { reasoning: "Stable" } }],
+        reasoning: "Stable",
+        tokenUsage: 420,
+      });
+
+      await planner.analyzeEndpoints(["ep-1"]);
+
+      expect(tracer.spanNames()).toEqual(["AIPlanner.analyzeEndpoint", "AIClient.planWithTools"]);
+      expect(tracer.spans[1]!.attributes).toEqual({ "cronicorn.ai.tokens": 420, "cronicorn.ai.tool_calls": 1 });
+      expect(mockSessionsRepo.create).toHaveBeenCalledWith(expect.objectContaining({ traceId: tracer.traceId }));
+    });
+
     it("handles empty endpoint array", async () => {
       await planner.analyzeEndpoints([]);
 
@@ -36,8 +36,8 @@ describe("aiTools", () => {
       deleteEndpoint: vi.fn(),
       countEndpointsByUser: vi.fn(),
       claimDueEndpoints: vi.fn(),
-      setLock: vi.fn(),
-      clearLock: vi.fn(),
+      renewLease: vi.fn(),
+      releaseLease: vi.fn(),
       clearAIHints: vi.fn(),
       resetFailureCount: vi.fn(),
       updateAfterRun: vi.fn(),
@@ -121,6 +121,36 @@ describe("aiTools", () => {
       expect(result).toContain("30 minutes");
       expect(result).not.toContain(":");
     });
+
+    it("emits endpointPaused for alerting", async () => {
+      const endpoint = { id: "ep-1", jobId: "job-1", tenantId: "t-1", name: "api", nextRunAt: now, failureCount: 4 };
+      const events = { runFinished: vi.fn(), endpointPaused: vi.fn().mockResolvedValue(undefined) };
+      const tools = createToolsForEndpoint("ep-1", "job-1", { jobs: mockJobsRepo, runs: mockRunsRepo, clock: fakeClock, events });
+
+      vi.mocked(mockJobsRepo.setPausedUntil).mockResolvedValue(undefined);
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue(endpoint);
+
+      await callTool(tools, "pause_until", { untilIso: "2025-10-15T18:00:00Z", reason: "Upstream outage" });
+
+      expect(events.endpointPaused).toHaveBeenCalledWith({
+        endpoint,
+        pausedUntil: new Date("2025-10-15T18:00:00Z"),
+        reason: "Upstream outage",
+        at: now,
+      });
+    });
+
+    it("still pauses when the event subscriber fails", async () => {
+      const events = { runFinished: vi.fn(), endpointPaused: vi.fn().mockRejectedValue(new Error("smtp down")) };
+      const tools = createToolsForEndpoint("ep-1", "job-1", { jobs: mockJobsRepo, runs: mockRunsRepo, clock: fakeClock, events });
+
+      vi.mocked(mockJobsRepo.setPausedUntil).mockResolvedValue(undefined);
+      vi.mocked(mockJobsRepo.getEndpoint).mockResolvedValue({ id: "ep-1", tenantId: "t-1", name: "api", nextRunAt: now, failureCount: 0 });
+
+      const result = await callTool(tools, "pause_until", { untilIso: "2025-10-15T18:00:00Z" });
+
+      expect(result).toContain("Paused until");
+    });
   });
 
   describe("propose_next_time", () => {
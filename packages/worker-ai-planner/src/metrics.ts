@@ -0,0 +1,56 @@
+import type { Counter, Histogram, Metrics } from "@cronicorn/domain";
+
+/** Instruments the AI planner records to */
+export type PlannerMetrics = {
+  sessions: Counter;
+  sessionDuration: Histogram;
+  tokens: Counter;
+  toolCalls: Counter;
+  errors: Counter;
+};
+
+/** Session duration buckets in seconds: a few model round trips up to long tool loops */
+const SESSION_BUCKETS = [1, 2.5, 5, 10, 20, 30, 60, 120];
+
+const noopCounter: Counter = { inc: () => {} };
+const noopHistogram: Histogram = { observe: () => {} };
+
+/**
+ * Create the planner's instruments. Without a metrics port, recording is a no-op.
+ */
+export function createPlannerMetrics(metrics?: Metrics): PlannerMetrics {
+  if (!metrics) {
+    return {
+      sessions: noopCounter,
+      sessionDuration: noopHistogram,
+      tokens: noopCounter,
+      toolCalls: noopCounter,
+      errors: noopCounter,
+    };
+  }
+
+  return {
+    sessions: metrics.counter({
+      name: "cronicorn_ai_planner_sessions_total",
+      help: "Completed AI analysis sessions",
+    }),
+    sessionDuration: metrics.histogram({
+      name: "cronicorn_ai_planner_session_duration_seconds",
+      help: "Duration of the model call of AI analysis sessions",
+      buckets: SESSION_BUCKETS,
+    }),
+    tokens: metrics.counter({
+      name: "cronicorn_ai_planner_tokens_total",
+      help: "Tokens used by AI analysis sessions",
+    }),
+    toolCalls: metrics.counter({
+      name: "cronicorn_ai_planner_tool_calls_total",
+      help: "Tool calls made by the model during AI analysis sessions, by tool",
+      labelNames: ["tool"],
+    }),
+    errors: metrics.counter({
+      name: "cronicorn_ai_planner_errors_total",
+      help: "Endpoint analyses that failed with an error",
+    }),
+  };
+}
@@ -5,8 +5,13 @@
  * Runs independently from the scheduler worker - communicates via database.
  */
 
-import type { AIClient, AISessionWarning, Clock, JobsRepo, QuotaGuard, RunsRepo, SessionsRepo } from "@cronicorn/domain";
+import type { AIClient, AISessionWarning, AuditAction, AuditRepo, BlackoutWindow, Clock, DependencyMode, EndpointEvents, EndpointKind, JobEndpoint, JobsRepo, Metrics, QuotaGuard, RunsRepo, SessionsRepo, Span, Tracer } from "@cronicorn/domain";
 
+import { describeBlackoutWindow, diffAuditFields, noopTracer } from "@cronicorn/domain";
+
+import type { PlannerMetrics } from "./metrics.js";
+
+import { createPlannerMetrics } from "./metrics.js";
 import { createToolsForEndpoint } from "./tools.js";
 
 export type PlannerLogger = {
@@ -23,12 +28,19 @@ export type AIPlannerDeps = {
   quota: QuotaGuard;
   clock: Clock;
   logger: PlannerLogger;
+  events?: EndpointEvents; // Notified when the AI pauses or resumes an endpoint (alerting)
+  audit?: AuditRepo; // Records the AI's scheduling changes, attributed to the session
+  metrics?: Metrics; // Session, token, tool call and error instrumentation
+  tracer?: Tracer; // Spans for analyses and model calls; sessions keep the trace id
   maxTokens?: number;
 };
 
 /** Action tool names used for extracting actions from previous sessions */
 const ACTION_TOOL_NAMES = new Set(["propose_interval", "propose_next_time", "pause_until", "clear_hints"]);
 
+/** Tools withheld from heartbeat endpoints: their hints would pull the check-in deadline in */
+const SCHEDULE_HINT_TOOL_NAMES = new Set(["propose_interval", "propose_next_time"]);
+
 /**
  * Build lean analysis prompt for AI.
  * Gives essential context without verbose explanations—AI is smart enough to reason.
@@ -40,11 +52,13 @@ function buildAnalysisPrompt(
   endpoint: {
     name: string;
     description?: string;
+    kind?: EndpointKind;
     baselineCron?: string;
     baselineIntervalMs?: number;
     minIntervalMs?: number;
     maxIntervalMs?: number;
     pausedUntil?: Date;
+    blackoutWindows?: BlackoutWindow[];
     lastRunAt?: Date;
     nextRunAt: Date;
     failureCount: number;
@@ -65,6 +79,13 @@ function buildAnalysisPrompt(
     reasoning: string;
     actions: string[];
   },
+  dependencies?: {
+    upstreamNames: string[];
+    mode?: DependencyMode;
+    delayMs?: number;
+    downstreamNames: string[];
+  },
+  jobBlackoutWindows: BlackoutWindow[] = [],
 ): string {
   // Build pause status string
   const pauseStatus = endpoint.pausedUntil && endpoint.pausedUntil > currentTime
@@ -108,6 +129,29 @@ function buildAnalysisPrompt(
     lastSessionSection = `\n**Last Analysis:** ${agoLabel} — "${lastSession.reasoning}"${actionsLabel}`;
   }
 
+  // Heartbeat note (runs are check-ins from an external job, not requests we make)
+  const heartbeatNote = endpoint.kind === "heartbeat"
+    ? "\n\n**Heartbeat:** An external job checks in on this endpoint's ping URL. Runs are its check-ins; failures are failed or missed check-ins, and \"Next Scheduled\" is the check-in deadline. You can't change when the external job runs, so `propose_interval` and `propose_next_time` are unavailable. Use `pause_until` for expected gaps (e.g. maintenance); otherwise report what the check-ins show."
+    : "";
+
+  // Declared dependencies (the scheduler triggers these runs; no sibling reading needed to sequence them)
+  const dependencyLines = [];
+  if (dependencies && dependencies.upstreamNames.length > 0) {
+    const delay = dependencies.delayMs ? ` + ${dependencies.delayMs}ms` : "";
+    dependencyLines.push(`Runs after ${dependencies.mode === "any" ? "any of" : "all of"} [${dependencies.upstreamNames.join(", ")}] succeed${delay}`);
+  }
+  if (dependencies && dependencies.downstreamNames.length > 0)
+    dependencyLines.push(`Success triggers [${dependencies.downstreamNames.join(", ")}]`);
+  const dependencyNote = dependencyLines.length > 0
+    ? `\n**Dependencies:** ${dependencyLines.join(" | ")} (scheduler-enforced; the baseline keeps running as a fallback)`
+    : "";
+
+  // Blackout windows (the governor and scheduler enforce these over any hint)
+  const blackoutWindows = [...endpoint.blackoutWindows ?? [], ...jobBlackoutWindows];
+  const blackoutNote = blackoutWindows.length > 0
+    ? `\n**Blackout Windows:** ${blackoutWindows.map(describeBlackoutWindow).join("; ")} (scheduler-enforced: no run starts inside them, and a hint landing in one is pushed to its end — you can't override them)`
+    : "";
+
   // First analysis note (when no execution data exists)
   const totalRuns = health.hour24.successCount + health.hour24.failureCount;
   const firstAnalysisNote = totalRuns === 0
@@ -159,6 +203,8 @@ The AI reads JSON response bodies from endpoints. Common field patterns:
 - Load management (traffic monitor, order processor, analytics)
 - Recovery workflows (health check + remediation action)
 
+Endpoints can declare dependencies ("runs after"): the scheduler triggers a dependent once its upstreams succeed, so don't use \`propose_next_time\` just to sequence declared steps.
+
 **When to check siblings (\`get_sibling_latest_responses\`):**
 - Endpoint names/descriptions suggest dependencies (e.g., "processor" waiting for "fetcher")
 - Job description mentions workflow or pipeline coordination
@@ -181,7 +227,7 @@ The AI reads JSON response bodies from endpoints. Common field patterns:
 - Status: ${pauseStatus}
 - Failure Count: ${endpoint.failureCount}${backoffNote}
 
-**Constraints:** Min ${endpoint.minIntervalMs ? `${endpoint.minIntervalMs}ms` : "none"}, Max ${endpoint.maxIntervalMs ? `${endpoint.maxIntervalMs}ms` : "none"}${aiHintsSection}${lastSessionSection}
+**Constraints:** Min ${endpoint.minIntervalMs ? `${endpoint.minIntervalMs}ms` : "none"}, Max ${endpoint.maxIntervalMs ? `${endpoint.maxIntervalMs}ms` : "none"}${blackoutNote}${dependencyNote}${aiHintsSection}${lastSessionSection}${heartbeatNote}
 
 **Health:**
 | Window | Success | Runs |
@@ -197,9 +243,10 @@ Failure streak: ${health.failureStreak}, Avg duration: ${health.avgDurationMs ?
 
 **Priority Order (Governor):**
 1. **Pause** — If \`pausedUntil > now\`, nothing else runs
-2. **Clamp** — All times clamped to [min, max] constraints (hard limits)
-3. **AI Hints** — Your interval/one-shot proposals (if not expired)
-4. **Baseline** — User's original schedule (with backoff if failures > 0)
+2. **Blackout** — Runs never start inside a blackout window; they move to the window's end
+3. **Clamp** — All times clamped to [min, max] constraints (hard limits)
+4. **AI Hints** — Your interval/one-shot proposals (if not expired)
+5. **Baseline** — User's original schedule (with backoff if failures > 0)
 
 **\`propose_interval\`:** OVERRIDES baseline while active, bypasses backoff. Expires at TTL → reverts to baseline.${isCron ? "\n↳ This endpoint uses cron — an interval hint replaces the cron schedule entirely while active." : ""}
 ↳ If failure streak is high, tightening may worsen the problem. Consider \`pause_until\` or let backoff work unless the description explicitly requests aggressive monitoring during failures.
@@ -248,7 +295,13 @@ Analyze this endpoint now.`;
  * Analyzes endpoint execution patterns and writes adaptive hints to the database.
  */
 export class AIPlanner {
-  constructor(private readonly deps: AIPlannerDeps) { }
+  private readonly metrics: PlannerMetrics;
+  private readonly tracer: Tracer;
+
+  constructor(private readonly deps: AIPlannerDeps) {
+    this.metrics = createPlannerMetrics(deps.metrics);
+    this.tracer = deps.tracer ?? noopTracer;
+  }
 
   /**
    * Analyze a single endpoint and let AI suggest adjustments.
@@ -264,7 +317,15 @@ export class AIPlanner {
    * @param endpointId - The endpoint to analyze
    */
   async analyzeEndpoint(endpointId: string): Promise<void> {
-    const { aiClient, jobs, runs, sessions, quota, clock, logger } = this.deps;
+    await this.tracer.trace(
+      "AIPlanner.analyzeEndpoint",
+      span => this.analyze(endpointId, span),
+      { attributes: { "cronicorn.endpoint_id": endpointId } },
+    );
+  }
+
+  private async analyze(endpointId: string, span: Span): Promise<void> {
+    const { aiClient, jobs, runs, sessions, quota, clock, logger, audit } = this.deps;
 
     // 1. Get current endpoint state
     const endpoint = await jobs.getEndpoint(endpointId);
@@ -282,15 +343,25 @@ export class AIPlanner {
     // 4. Get job context if endpoint belongs to a job
     let jobDescription: string | undefined;
     let siblingNames: string[] = [];
+    let dependencies: Parameters<typeof buildAnalysisPrompt>[6];
+    let jobBlackoutWindows: BlackoutWindow[] = [];
     if (endpoint.jobId) {
       const job = await jobs.getJob(endpoint.jobId);
       jobDescription = job?.description;
+      jobBlackoutWindows = job?.blackoutWindows ?? [];
 
       // Get sibling endpoint names (excluding current endpoint)
       const allEndpoints = await jobs.listEndpointsByJob(endpoint.jobId);
-      siblingNames = allEndpoints
-        .filter(ep => ep.id !== endpointId)
-        .map(ep => ep.name);
+      const siblings = allEndpoints.filter(ep => ep.id !== endpointId);
+      siblingNames = siblings.map(ep => ep.name);
+
+      const upstreamIds = endpoint.runAfter?.upstreamIds ?? [];
+      dependencies = {
+        upstreamNames: siblings.filter(ep => upstreamIds.includes(ep.id)).map(ep => ep.name),
+        mode: endpoint.runAfter?.mode,
+        delayMs: endpoint.runAfter?.delayMs,
+        downstreamNames: siblings.filter(ep => ep.runAfter?.upstreamIds.includes(endpointId)).map(ep => ep.name),
+      };
     }
 
     // 5. Get last session context for continuity between analyses
@@ -306,22 +377,45 @@ export class AIPlanner {
       : undefined;
 
     // 6. Build AI context with all available information
-    const prompt = buildAnalysisPrompt(clock.now(), jobDescription, siblingNames, endpoint, health, lastSessionContext);
+    const prompt = buildAnalysisPrompt(clock.now(), jobDescription, siblingNames, endpoint, health, lastSessionContext, dependencies, jobBlackoutWindows);
 
     // 7. Create endpoint-scoped tools (3 query + 4 action + 1 terminal)
     // Note: jobId is required for sibling queries. If missing, sibling tool will return empty.
-    const tools = createToolsForEndpoint(endpointId, endpoint.jobId || "", { jobs, runs, clock });
+    // Changes are buffered until the session exists: the audit log attributes them to it
+    const changes: Array<{ action: AuditAction; before: JobEndpoint; after: JobEndpoint; at: Date }> = [];
+    const endpointTools = createToolsForEndpoint(endpointId, endpoint.jobId || "", {
+      jobs,
+      runs,
+      clock,
+      events: this.deps.events,
+      onChange: audit
+        ? (action, before, after) => changes.push({ action, before, after, at: clock.now() })
+        : undefined,
+    });
+    const tools = endpoint.kind === "heartbeat"
+      ? Object.fromEntries(Object.entries(endpointTools).filter(([name]) => !SCHEDULE_HINT_TOOL_NAMES.has(name)))
+      : endpointTools;
 
     // 8. Invoke AI with tools and capture session result
     const startTime = clock.now().getTime();
-    const session = await aiClient.planWithTools({
-      finalToolName: "submit_analysis",
-      input: prompt,
-      tools,
-      maxTokens: this.deps.maxTokens ?? 8192,
+    const session = await this.tracer.trace("AIClient.planWithTools", async (modelSpan) => {
+      const result = await aiClient.planWithTools({
+        finalToolName: "submit_analysis",
+        input: prompt,
+        tools,
+        maxTokens: this.deps.maxTokens ?? 8192,
+      });
+      modelSpan.setAttributes({ "cronicorn.ai.tokens": result.tokenUsage, "cronicorn.ai.tool_calls": result.toolCalls.length });
+      return result;
     });
     const durationMs = clock.now().getTime() - startTime;
 
+    this.metrics.sessions.inc();
+    this.metrics.sessionDuration.observe(durationMs / 1000);
+    this.metrics.tokens.inc({}, session.tokenUsage ?? 0);
+    for (const call of session.toolCalls)
+      this.metrics.toolCalls.inc({ tool: call.tool });
+
     // 9. Extract reasoning from submit_analysis tool call
     const submitAnalysisCall = session.toolCalls.find(tc => tc.tool === "submit_analysis");
 
@@ -361,7 +455,7 @@ export class AIPlanner {
 
     const safeReasoning = reasoning ?? "No reasoning provided";
     // 10. Persist session to database for debugging/cost tracking
-    await sessions.create({
+    const sessionId = await sessions.create({
       endpointId,
       analyzedAt: clock.now(),
       toolCalls: session.toolCalls,
@@ -371,7 +465,22 @@ export class AIPlanner {
       nextAnalysisAt,
       endpointFailureCount: endpoint.failureCount,
       warnings: warnings.length > 0 ? warnings : undefined,
+      traceId: span.traceId,
     });
+    span.setAttributes({ "cronicorn.session_id": sessionId });
+
+    // 11. Record the session's scheduling changes in the tenant's audit log
+    for (const change of changes) {
+      await audit!.append({
+        tenantId: endpoint.tenantId,
+        actor: { type: "ai_session", id: sessionId },
+        action: change.action,
+        jobId: endpoint.jobId,
+        endpointId,
+        changes: diffAuditFields(change.before, change.after),
+        createdAt: change.at,
+      });
+    }
 
     // Log summary for real-time observability
     if (session.toolCalls.length > 0) {
@@ -422,6 +531,7 @@ export class AIPlanner {
       }
       catch (error) {
         // Log but continue - don't let one failure stop batch
+        this.metrics.errors.inc();
         this.deps.logger.error(`Failed to analyze endpoint ${id}`, {
           error: error instanceof Error ? error.message : String(error),
         });
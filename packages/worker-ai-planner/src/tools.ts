@@ -5,7 +5,7 @@
  * Each tool is endpoint-scoped via closure (endpointId bound at creation time).
  */
 
-import type { Clock, JobsRepo, RunsRepo } from "@cronicorn/domain";
+import type { AuditAction, Clock, EndpointEvents, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
 
 import { defineTools, tool } from "@cronicorn/domain";
 import { z } from "zod";
@@ -83,14 +83,34 @@ function summarizeResponseBody(responseBody: unknown, maxLength = 200): string |
  * @param deps.jobs - JobsRepo instance for job operations
  * @param deps.runs - RunsRepo instance for run/response queries
  * @param deps.clock - Clock instance for current time
+ * @param deps.events - Optional endpoint event subscriber (alerting), notified when the AI pauses the endpoint
+ * @param deps.onChange - Optional callback given the endpoint before and after each action tool (audit log)
  * @returns Tools object with 6 tools (3 query + 3 action)
  */
 export function createToolsForEndpoint(
   endpointId: string,
   jobId: string,
-  deps: { jobs: JobsRepo; runs: RunsRepo; clock: Clock },
+  deps: {
+    jobs: JobsRepo;
+    runs: RunsRepo;
+    clock: Clock;
+    events?: EndpointEvents;
+    onChange?: (action: AuditAction, before: JobEndpoint, after: JobEndpoint) => void;
+  },
 ) {
-  const { jobs, runs, clock } = deps;
+  const { jobs, runs, clock, events, onChange } = deps;
+
+  // Snapshots are only read when someone is listening for changes
+  const recordChange = async (action: AuditAction, write: () => Promise<void>) => {
+    if (!onChange) {
+      await write();
+      return;
+    }
+    const before = await jobs.getEndpoint(endpointId);
+    await write();
+    onChange(action, before, await jobs.getEndpoint(endpointId));
+  };
+
   return defineTools({
     // ============================================================================
     // Final Answer Tool: Submit Analysis
@@ -132,17 +152,19 @@ export function createToolsForEndpoint(
         const now = clock.now();
         const expiresAt = new Date(now.getTime() + args.ttlMinutes * 60 * 1000);
 
-        // Write AI hint to database
-        await jobs.writeAIHint(endpointId, {
-          intervalMs: args.intervalMs,
-          expiresAt,
-          reason: args.reason,
+        await recordChange("endpoint.interval_hint", async () => {
+          // Write AI hint to database
+          await jobs.writeAIHint(endpointId, {
+            intervalMs: args.intervalMs,
+            expiresAt,
+            reason: args.reason,
+          });
+
+          // Nudge next run to apply immediately (if earlier than current nextRunAt)
+          const nextRunAt = new Date(now.getTime() + args.intervalMs);
+          await jobs.setNextRunAtIfEarlier(endpointId, nextRunAt);
         });
 
-        // Nudge next run to apply immediately (if earlier than current nextRunAt)
-        const nextRunAt = new Date(now.getTime() + args.intervalMs);
-        await jobs.setNextRunAtIfEarlier(endpointId, nextRunAt);
-
         return `Adjusted interval to ${args.intervalMs}ms (expires in ${args.ttlMinutes} minutes)${args.reason ? `: ${args.reason}` : ""}`;
       },
     }),
@@ -159,15 +181,17 @@ export function createToolsForEndpoint(
         const nextRunAt = new Date(args.nextRunAtIso);
         const expiresAt = new Date(now.getTime() + args.ttlMinutes * 60 * 1000);
 
-        // Write AI hint to database
-        await jobs.writeAIHint(endpointId, {
-          nextRunAt,
-          expiresAt,
-          reason: args.reason,
-        });
+        await recordChange("endpoint.one_shot_hint", async () => {
+          // Write AI hint to database
+          await jobs.writeAIHint(endpointId, {
+            nextRunAt,
+            expiresAt,
+            reason: args.reason,
+          });
 
-        // Nudge to apply immediately (if earlier than current nextRunAt)
-        await jobs.setNextRunAtIfEarlier(endpointId, nextRunAt);
+          // Nudge to apply immediately (if earlier than current nextRunAt)
+          await jobs.setNextRunAtIfEarlier(endpointId, nextRunAt);
+        });
 
         return `Scheduled one-shot execution at ${nextRunAt.toISOString()} (expires in ${args.ttlMinutes} minutes)${args.reason ? `: ${args.reason}` : ""}`;
       },
@@ -182,7 +206,17 @@ export function createToolsForEndpoint(
       execute: async (args) => {
         const until = args.untilIso ? new Date(args.untilIso) : null;
 
-        await jobs.setPausedUntil(endpointId, until);
+        await recordChange(until ? "endpoint.paused" : "endpoint.resumed", () => jobs.setPausedUntil(endpointId, until));
+
+        if (events) {
+          try {
+            const endpoint = await jobs.getEndpoint(endpointId);
+            await events.endpointPaused({ endpoint, pausedUntil: until, reason: args.reason, at: clock.now() });
+          }
+          catch {
+            // Alerting is best-effort; the pause itself already took effect
+          }
+        }
 
         if (until) {
           return `Paused until ${until.toISOString()}${args.reason ? `: ${args.reason}` : ""}`;
@@ -199,7 +233,7 @@ export function createToolsForEndpoint(
         reason: z.string().describe("Explanation for clearing hints"),
       }),
       execute: async (args) => {
-        await jobs.clearAIHints(endpointId);
+        await recordChange("endpoint.hints_cleared", () => jobs.clearAIHints(endpointId));
         return `Cleared all AI hints, reverted to baseline schedule: ${args.reason}`;
       },
     }),
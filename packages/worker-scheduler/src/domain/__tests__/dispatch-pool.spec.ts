@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+
+import { runDispatchPool } from "../dispatch-pool.js";
+
+type Item = { id: string; tenant: string };
+
+function deferred() {
+  let resolve: () => void = () => { };
+  const promise = new Promise<void>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+async function flush() {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+}
+
+/**
+ * Worker that records start order and blocks until released by the test.
+ */
+function controlledWorker() {
+  const started: string[] = [];
+  const gates = new Map<string, ReturnType<typeof deferred>>();
+  const worker = (item: Item) => {
+    started.push(item.id);
+    const gate = deferred();
+    gates.set(item.id, gate);
+    return gate.promise;
+  };
+  const release = async (id: string) => {
+    gates.get(id)!.resolve();
+    await flush();
+  };
+  return { started, worker, release };
+}
+
+describe("runDispatchPool", () => {
+  it("resolves immediately with no items", async () => {
+    const results = await runDispatchPool<Item>([], { concurrency: 2, perKeyConcurrency: 1, keyOf: i => i.tenant }, async () => { });
+    expect(results).toEqual([]);
+  });
+
+  it("never runs more than the global concurrency at once", async () => {
+    const items = ["a", "b", "c", "d"].map(id => ({ id, tenant: id }));
+    const { started, worker, release } = controlledWorker();
+
+    const done = runDispatchPool(items, { concurrency: 2, perKeyConcurrency: 2, keyOf: i => i.tenant }, worker);
+    await flush();
+    expect(started).toEqual(["a", "b"]);
+
+    await release("a");
+    expect(started).toEqual(["a", "b", "c"]);
+
+    await release("b");
+    await release("c");
+    await release("d");
+    await expect(done).resolves.toHaveLength(4);
+  });
+
+  it("caps each key and lets other keys use the free slots", async () => {
+    const items: Item[] = [
+      { id: "noisy-1", tenant: "noisy" },
+      { id: "noisy-2", tenant: "noisy" },
+      { id: "noisy-3", tenant: "noisy" },
+      { id: "quiet-1", tenant: "quiet" },
+    ];
+    const { started, worker, release } = controlledWorker();
+
+    const done = runDispatchPool(items, { concurrency: 3, perKeyConcurrency: 1, keyOf: i => i.tenant }, worker);
+    await flush();
+    // Only one noisy item at a time, quiet tenant is not stuck behind it
+    expect(started).toEqual(["noisy-1", "quiet-1"]);
+
+    await release("quiet-1");
+    expect(started).toEqual(["noisy-1", "quiet-1"]);
+
+    await release("noisy-1");
+    expect(started).toEqual(["noisy-1", "quiet-1", "noisy-2"]);
+
+    await release("noisy-2");
+    await release("noisy-3");
+    await done;
+  });
+
+  it("serves keys round-robin when slots are scarce", async () => {
+    const items: Item[] = [
+      { id: "a1", tenant: "a" },
+      { id: "a2", tenant: "a" },
+      { id: "a3", tenant: "a" },
+      { id: "b1", tenant: "b" },
+      { id: "c1", tenant: "c" },
+    ];
+    const order: string[] = [];
+
+    await runDispatchPool(items, { concurrency: 1, perKeyConcurrency: 1, keyOf: i => i.tenant }, async (item) => {
+      order.push(item.id);
+    });
+
+    expect(order).toEqual(["a1", "b1", "c1", "a2", "a3"]);
+  });
+
+  it("keeps going after a worker failure and reports results in input order", async () => {
+    const items = ["a", "b", "c"].map(id => ({ id, tenant: "t" }));
+
+    const results = await runDispatchPool(items, { concurrency: 2, perKeyConcurrency: 2, keyOf: i => i.tenant }, async (item) => {
+      if (item.id === "b")
+        throw new Error("boom");
+    });
+
+    expect(results).toEqual([
+      { status: "fulfilled", value: undefined },
+      { status: "rejected", reason: new Error("boom") },
+      { status: "fulfilled", value: undefined },
+    ]);
+  });
+});
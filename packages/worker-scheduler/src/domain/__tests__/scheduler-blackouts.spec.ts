@@ -0,0 +1,98 @@
+/**
+ * Scheduler blackout window tests
+ *
+ * Verify that a claimed endpoint inside one of its own or its job's blackout windows
+ * isn't dispatched but pushed to the window's end (keeping a pending run-now request
+ * queued), and that the next run after a dispatch is planned past upcoming windows.
+ */
+
+import type { BlackoutWindow, Cron, Dispatcher, Job, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - blackout windows", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  let mockJob: Job;
+  // 2025-01-05 is a Sunday
+  const now = new Date("2025-01-05T02:30:00Z");
+  const maintenance: BlackoutWindow = { name: "Maintenance", daysOfWeek: [0], startTime: "02:00", endTime: "04:00" };
+
+  beforeEach(() => {
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "test",
+      baselineIntervalMs: 3_600_000,
+      nextRunAt: now,
+      failureCount: 0,
+      url: "https://example.com/hook",
+    };
+    mockJob = { id: "job1", userId: "tenant1", name: "Job", status: "active", createdAt: now, updatedAt: now };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+      getJob: vi.fn(async () => mockJob),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 }),
+    };
+
+    const cron: Cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("defers an endpoint inside its own window to the window's end", async () => {
+    mockEndpoint = { ...mockEndpoint, blackoutWindows: [maintenance] };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(jobs.updateEndpoint).toHaveBeenCalledWith("ep1", { nextRunAt: new Date("2025-01-05T04:00:00Z") });
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+
+  it("keeps a run-now request queued inside the job's window", async () => {
+    mockJob = { ...mockJob, blackoutWindows: [maintenance] };
+    mockEndpoint = { ...mockEndpoint, manualRun: { id: "req-1", requestedAt: now } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(jobs.updateEndpoint).toHaveBeenCalledWith("ep1", { nextRunAt: new Date("2025-01-05T04:00:00Z") });
+    expect(jobs.updateAfterRun).not.toHaveBeenCalled();
+  });
+
+  it("plans the next run past an upcoming window", async () => {
+    mockJob = { ...mockJob, blackoutWindows: [{ daysOfWeek: [0], startTime: "03:00", endTime: "05:00" }] };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      nextRunAt: new Date("2025-01-05T05:00:00Z"),
+    }));
+  });
+
+  it("runs normally when the job can't be loaded", async () => {
+    vi.mocked(jobs.getJob).mockRejectedValue(new Error("db down"));
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Scheduler concurrency policy tests
+ *
+ * Verify what happens when an endpoint is claimed while an earlier run is still open:
+ * allow dispatches without looking, forbid records the due run as canceled with the
+ * reason and moves on to the next occurrence, and replace cancels the open runs before
+ * dispatching.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger, REPLACED_RUN_REASON } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - concurrency policy", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  const now = new Date("2025-01-01T12:00:00Z");
+  const openRun = { id: "run-old", startedAt: new Date("2025-01-01T11:50:00Z"), source: "baseline-interval" };
+
+  beforeEach(() => {
+    mockEndpoint = {
+      id: "ep1",
+      tenantId: "tenant1",
+      name: "sync",
+      baselineIntervalMs: 300_000,
+      nextRunAt: now,
+      failureCount: 0,
+      url: "https://example.com/sync",
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo({
+      create: vi.fn().mockResolvedValue("run-new"),
+      listOpenRuns: vi.fn().mockResolvedValue([openRun]),
+    });
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 }),
+    };
+
+    const cron: Cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("dispatches without checking open runs by default", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.listOpenRuns).not.toHaveBeenCalled();
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+  });
+
+  it("records the due run as canceled under forbid when a run is open", async () => {
+    mockEndpoint = { ...mockEndpoint, concurrencyPolicy: "forbid" };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ endpointId: "ep1", source: "baseline-interval", scheduledFor: now, lagMs: 0 }));
+    expect(runs.finish).toHaveBeenCalledWith("run-new", {
+      status: "canceled",
+      durationMs: 0,
+      err: "Skipped: run run-old has been running since 2025-01-01T11:50:00.000Z (concurrency policy: forbid)",
+    });
+    expect(jobs.updateEndpoint).toHaveBeenCalledWith("ep1", { nextRunAt: new Date("2025-01-01T12:05:00Z") });
+    expect(jobs.updateAfterRun).not.toHaveBeenCalled();
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+
+  it("drops a skipped run-now request", async () => {
+    const requestedBy = { type: "user" as const, id: "user-1", userId: "user-1" };
+    mockEndpoint = {
+      ...mockEndpoint,
+      concurrencyPolicy: "forbid",
+      manualRun: { id: "req-1", requestedAt: now, requestedBy },
+    };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ source: "manual", triggeredBy: requestedBy }));
+    expect(jobs.clearManualRun).toHaveBeenCalledWith("ep1", "req-1");
+  });
+
+  it("dispatches under forbid when nothing is open", async () => {
+    mockEndpoint = { ...mockEndpoint, concurrencyPolicy: "forbid" };
+    vi.mocked(runs.listOpenRuns).mockResolvedValue([]);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(runs.finish).toHaveBeenCalledWith("run-new", expect.objectContaining({ status: "success" }));
+  });
+
+  it("cancels open runs under replace, then dispatches", async () => {
+    mockEndpoint = { ...mockEndpoint, concurrencyPolicy: "replace" };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.finish).toHaveBeenNthCalledWith(1, "run-old", { status: "canceled", durationMs: 600_000, err: REPLACED_RUN_REASON });
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(runs.finish).toHaveBeenNthCalledWith(2, "run-new", expect.objectContaining({ status: "success" }));
+  });
+});
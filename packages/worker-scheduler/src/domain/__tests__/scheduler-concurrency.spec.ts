@@ -0,0 +1,162 @@
+/**
+ * Scheduler concurrency tests
+ *
+ * Verify that claimed endpoints are dispatched through a bounded pool: a slow endpoint
+ * doesn't hold up the rest of the batch, a single tenant can't take every slot, and
+ * the time each endpoint spent queued is recorded on its run.
+ */
+
+import type { Cron, Dispatcher, ExecutionResult, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+function makeEndpoint(id: string, tenantId: string): JobEndpoint {
+  return {
+    id,
+    jobId: `job-${tenantId}`,
+    tenantId,
+    name: id,
+    baselineIntervalMs: 60_000,
+    nextRunAt: new Date("2025-01-01T12:00:00Z"),
+    failureCount: 0,
+  };
+}
+
+describe("scheduler - concurrent dispatch", () => {
+  let endpoints: Map<string, JobEndpoint>;
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let cron: Cron;
+  let logger: FakeLogger;
+  let nowMs: number;
+  let pending: Map<string, (result: ExecutionResult) => void>;
+
+  beforeEach(() => {
+    logger = new FakeLogger();
+    nowMs = new Date("2025-01-01T12:00:00Z").getTime();
+    pending = new Map();
+    endpoints = new Map([
+      ["noisy-1", makeEndpoint("noisy-1", "noisy")],
+      ["noisy-2", makeEndpoint("noisy-2", "noisy")],
+      ["noisy-3", makeEndpoint("noisy-3", "noisy")],
+      ["quiet-1", makeEndpoint("quiet-1", "quiet")],
+    ]);
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue([...endpoints.keys()]),
+      getEndpoint: vi.fn(async (id: string) => endpoints.get(id)!),
+    });
+
+    runs = createFakeRunsRepo({
+      create: vi.fn(async ({ endpointId }: { endpointId: string }) => `run-${endpointId}`),
+    });
+
+    dispatcher = {
+      execute: vi.fn((ep: JobEndpoint) => new Promise<ExecutionResult>((resolve) => {
+        pending.set(ep.id, resolve);
+      })),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+  });
+
+  function makeScheduler(opts: { maxConcurrency: number; maxConcurrencyPerTenant: number }) {
+    const clock = { now: () => new Date(nowMs), sleep: async () => { } };
+    return new Scheduler({ clock, jobs, runs, dispatcher, cron, logger }, { workerId: "worker-a", ...opts });
+  }
+
+  function dispatched() {
+    return vi.mocked(dispatcher.execute).mock.calls.map(([ep]) => ep.id);
+  }
+
+  async function complete(id: string) {
+    pending.get(id)!({ status: "success", durationMs: 10 });
+    await vi.waitFor(() => expect(jobs.releaseLease).toHaveBeenCalledWith(id, "worker-a"));
+  }
+
+  it("dispatches other endpoints while a slow one is still running", async () => {
+    const scheduler = makeScheduler({ maxConcurrency: 4, maxConcurrencyPerTenant: 4 });
+
+    const tick = scheduler.tick(10, 10_000);
+    await vi.waitFor(() => expect(dispatched()).toHaveLength(4));
+
+    for (const id of endpoints.keys()) await complete(id);
+    await tick;
+
+    expect(jobs.updateAfterRun).toHaveBeenCalledTimes(4);
+  });
+
+  it("caps a single tenant so other tenants still get a slot", async () => {
+    const scheduler = makeScheduler({ maxConcurrency: 3, maxConcurrencyPerTenant: 1 });
+
+    const tick = scheduler.tick(10, 10_000);
+    await vi.waitFor(() => expect(dispatched()).toEqual(["noisy-1", "quiet-1"]));
+
+    await complete("noisy-1");
+    await vi.waitFor(() => expect(dispatched()).toEqual(["noisy-1", "quiet-1", "noisy-2"]));
+
+    await complete("quiet-1");
+    await complete("noisy-2");
+    await vi.waitFor(() => expect(dispatched()).toHaveLength(4));
+    await complete("noisy-3");
+    await tick;
+  });
+
+  it("records how long each endpoint waited in the queue", async () => {
+    const scheduler = makeScheduler({ maxConcurrency: 1, maxConcurrencyPerTenant: 1 });
+
+    const tick = scheduler.tick(10, 10_000);
+    await vi.waitFor(() => expect(dispatched()).toEqual(["noisy-1"]));
+
+    nowMs += 1500;
+    await complete("noisy-1");
+    await vi.waitFor(() => expect(dispatched()).toEqual(["noisy-1", "quiet-1"]));
+
+    nowMs += 500;
+    await complete("quiet-1");
+    await vi.waitFor(() => expect(dispatched()).toHaveLength(3));
+    await complete("noisy-2");
+    await vi.waitFor(() => expect(dispatched()).toHaveLength(4));
+    await complete("noisy-3");
+    await tick;
+
+    const queueWaits = Object.fromEntries(
+      vi.mocked(runs.create).mock.calls.map(([run]) => [run.endpointId, run.queueWaitMs]),
+    );
+    expect(queueWaits).toEqual({ "noisy-1": 0, "quiet-1": 1500, "noisy-2": 2000, "noisy-3": 2000 });
+  });
+
+  it("finishes the rest of the batch before surfacing a failure", async () => {
+    vi.mocked(dispatcher.execute).mockImplementation(async (ep) => {
+      if (ep.id === "noisy-1")
+        throw new Error("boom");
+      return { status: "success", durationMs: 10 };
+    });
+    const scheduler = makeScheduler({ maxConcurrency: 1, maxConcurrencyPerTenant: 1 });
+
+    await expect(scheduler.tick(10, 10_000)).rejects.toThrow("boom");
+
+    expect(jobs.updateAfterRun).toHaveBeenCalledTimes(3);
+    expect(jobs.releaseLease).toHaveBeenCalledTimes(4);
+  });
+
+  it("skips endpoints that can no longer be loaded", async () => {
+    vi.mocked(jobs.getEndpoint).mockImplementation(async (id: string) => {
+      if (id === "noisy-2")
+        throw new Error("JobsRepo.getEndpoint: not found: noisy-2");
+      return endpoints.get(id)!;
+    });
+    vi.mocked(dispatcher.execute).mockResolvedValue({ status: "success", durationMs: 10 });
+    const scheduler = makeScheduler({ maxConcurrency: 2, maxConcurrencyPerTenant: 2 });
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatched()).not.toContain("noisy-2");
+    expect(dispatched()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Scheduler endpoint dependency tests
+ *
+ * Verify that a successful run enqueues one-shot runs for dependents whose upstream
+ * condition it satisfied, that failed runs don't, and that runs of a satisfied dependent
+ * are attributed to the dependency.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - endpoint dependencies", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let cron: Cron;
+  let scheduler: Scheduler;
+  let endpoints: Map<string, JobEndpoint>;
+  const now = new Date("2025-01-01T12:00:00Z");
+  const earlier = new Date("2025-01-01T06:00:00Z");
+
+  const endpoint = (id: string, overrides: Partial<JobEndpoint> = {}): JobEndpoint => ({
+    id,
+    jobId: "job1",
+    tenantId: "tenant1",
+    name: id,
+    baselineIntervalMs: 86_400_000,
+    nextRunAt: new Date("2025-01-02T00:00:00Z"),
+    lastRunAt: earlier,
+    failureCount: 0,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    endpoints = new Map([
+      ["extract", endpoint("extract", { nextRunAt: now })],
+      ["transform", endpoint("transform", { runAfter: { upstreamIds: ["extract"], mode: "all", delayMs: 5_000 } })],
+      ["load", endpoint("load", { runAfter: { upstreamIds: ["transform"], mode: "all" } })],
+    ]);
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["extract"]),
+      getEndpoint: vi.fn(async (id: string) => endpoints.get(id)!),
+      listEndpointsByJob: vi.fn(async () => [...endpoints.values()]),
+      updateAfterRun: vi.fn(async (id: string, patch: { lastRunAt: Date; failureCountPolicy: "reset" | "increment" }) => {
+        const ep = endpoints.get(id)!;
+        endpoints.set(id, { ...ep, lastRunAt: patch.lastRunAt, failureCount: patch.failureCountPolicy === "reset" ? 0 : ep.failureCount + 1 });
+      }),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 }),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("enqueues a run for direct dependents after a successful run, after their delay", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.setNextRunAtIfEarlier).toHaveBeenCalledTimes(1);
+    expect(jobs.setNextRunAtIfEarlier).toHaveBeenCalledWith("transform", new Date("2025-01-01T12:00:05Z"));
+  });
+
+  it("doesn't enqueue dependents after a failed run", async () => {
+    vi.mocked(dispatcher.execute).mockResolvedValue({ status: "failed", durationMs: 10, statusCode: 500, errorMessage: "HTTP 500" });
+
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.setNextRunAtIfEarlier).not.toHaveBeenCalled();
+  });
+
+  it("waits for every upstream in all mode", async () => {
+    endpoints.set("report", endpoint("report", { runAfter: { upstreamIds: ["extract", "load"], mode: "all" } }));
+
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.setNextRunAtIfEarlier).not.toHaveBeenCalledWith("report", expect.anything());
+  });
+
+  it("attributes a satisfied dependent's run to the dependency", async () => {
+    endpoints.set("extract", endpoint("extract", { lastRunAt: new Date("2025-01-01T11:59:00Z") }));
+    endpoints.set("transform", { ...endpoints.get("transform")!, nextRunAt: now });
+    vi.mocked(jobs.claimDueEndpoints).mockResolvedValue(["transform"]);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ endpointId: "transform", source: "dependency" }));
+    expect(jobs.setNextRunAtIfEarlier).toHaveBeenCalledWith("load", now);
+  });
+
+  it("never breaks scheduling when dependents can't be loaded", async () => {
+    vi.mocked(jobs.listEndpointsByJob).mockRejectedValue(new Error("db down"));
+
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("extract", expect.objectContaining({ failureCountPolicy: "reset" }));
+    expect(jobs.releaseLease).toHaveBeenCalledWith("extract", "worker-a");
+  });
+});
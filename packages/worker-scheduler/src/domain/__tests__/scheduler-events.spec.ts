@@ -0,0 +1,92 @@
+/**
+ * Scheduler endpoint event tests
+ *
+ * Verify that the optional EndpointEvents subscriber (alerting) hears about each
+ * finished run after updateAfterRun, with the post-run failure count, and that a
+ * failing subscriber never breaks scheduling.
+ */
+
+import type { Cron, Dispatcher, EndpointEvents, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - endpoint events", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let events: EndpointEvents;
+  let cron: Cron;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  const now = new Date("2025-01-01T12:00:00Z");
+
+  beforeEach(() => {
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "health",
+      baselineIntervalMs: 60_000,
+      nextRunAt: now,
+      failureCount: 2,
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn(),
+    };
+
+    events = {
+      runFinished: vi.fn().mockResolvedValue(undefined),
+      endpointPaused: vi.fn().mockResolvedValue(undefined),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, events, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("emits runFinished after updateAfterRun with the incremented failure count", async () => {
+    vi.mocked(dispatcher.execute).mockResolvedValue({ status: "failed", durationMs: 10, statusCode: 500, errorMessage: "HTTP 500 Internal Server Error" });
+
+    await scheduler.tick(10, 10_000);
+
+    expect(events.runFinished).toHaveBeenCalledWith(expect.objectContaining({
+      runId: "run1",
+      status: "failed",
+      errorMessage: "HTTP 500 Internal Server Error",
+      failureCount: 3,
+      finishedAt: now,
+      endpoint: expect.objectContaining({ id: "ep1", failureCount: 3, lastRunAt: now }),
+    }));
+    expect(vi.mocked(jobs.updateAfterRun).mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(events.runFinished).mock.invocationCallOrder[0]!);
+  });
+
+  it("reports a zero failure count after a success", async () => {
+    vi.mocked(dispatcher.execute).mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 });
+
+    await scheduler.tick(10, 10_000);
+
+    expect(events.runFinished).toHaveBeenCalledWith(expect.objectContaining({ status: "success", failureCount: 0 }));
+  });
+
+  it("keeps scheduling when the subscriber throws", async () => {
+    vi.mocked(dispatcher.execute).mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 });
+    vi.mocked(events.runFinished).mockRejectedValue(new Error("smtp down"));
+
+    await expect(scheduler.tick(10, 10_000)).resolves.toBeUndefined();
+
+    expect(jobs.updateAfterRun).toHaveBeenCalledTimes(1);
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+});
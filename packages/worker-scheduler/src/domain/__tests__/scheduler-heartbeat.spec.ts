@@ -0,0 +1,121 @@
+/**
+ * Scheduler heartbeat tests
+ *
+ * Verify that claimed heartbeat endpoints are never dispatched: once the check-in
+ * deadline has passed, the scheduler records a failed "missed" run (closing a run left
+ * open by a start check-in), moves the deadline out and notifies the event subscriber.
+ */
+
+import type { Cron, Dispatcher, EndpointEvents, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - heartbeat endpoints", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let events: EndpointEvents;
+  let cron: Cron;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  const now = new Date("2025-01-01T12:00:00Z");
+
+  beforeEach(() => {
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "nightly-backup",
+      kind: "heartbeat",
+      baselineIntervalMs: 600_000,
+      graceMs: 60_000,
+      pingToken: "tok",
+      nextRunAt: new Date("2025-01-01T11:59:00Z"),
+      failureCount: 1,
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn(),
+    };
+
+    events = {
+      runFinished: vi.fn().mockResolvedValue(undefined),
+      endpointPaused: vi.fn().mockResolvedValue(undefined),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, events, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("records a missed check-in as a failed run without dispatching", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.getFilteredMetrics).not.toHaveBeenCalled();
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({
+      endpointId: "ep1",
+      source: "heartbeat-missed",
+      scheduledFor: new Date("2025-01-01T11:59:00Z"),
+      lagMs: 60_000,
+    }));
+    expect(runs.finish).toHaveBeenCalledWith("run1", {
+      status: "failed",
+      durationMs: 0,
+      err: "No check-in received by 2025-01-01T11:59:00.000Z",
+    });
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      lastRunAt: now,
+      nextRunAt: new Date("2025-01-01T12:11:00Z"), // interval + grace from now
+      failureCountPolicy: "increment",
+    }));
+    expect(events.runFinished).toHaveBeenCalledWith(expect.objectContaining({ runId: "run1", status: "failed", failureCount: 2 }));
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+
+  it("fails the run a start check-in left open", async () => {
+    vi.mocked(runs.getOpenRun).mockResolvedValue({ id: "run-start", startedAt: new Date("2025-01-01T11:40:00Z") });
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(runs.finish).toHaveBeenCalledWith("run-start", {
+      status: "failed",
+      durationMs: 20 * 60_000,
+      err: "Started at 2025-01-01T11:40:00.000Z but no completion check-in received by 2025-01-01T11:59:00.000Z",
+    });
+  });
+
+  it("skips endpoints whose deadline hasn't passed", async () => {
+    mockEndpoint.nextRunAt = new Date("2025-01-01T12:00:05Z"); // Claimed within the horizon
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(jobs.updateAfterRun).not.toHaveBeenCalled();
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+
+  it("reschedules a deadline that passed during a pause without recording a miss", async () => {
+    mockEndpoint.pausedUntil = new Date("2025-01-01T11:59:30Z");
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(jobs.updateAfterRun).not.toHaveBeenCalled();
+    expect(jobs.updateEndpoint).toHaveBeenCalledWith("ep1", {
+      nextRunAt: new Date("2025-01-01T12:10:30Z"), // interval + grace from the end of the pause
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Scheduler lease tests
+ *
+ * Verify that claimed endpoints are executed under a lease that is checked before
+ * dispatch, renewed while the dispatch is in flight, and released afterwards.
+ */
+
+import type { Cron, Dispatcher, ExecutionResult, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - endpoint leases", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let cron: Cron;
+  let logger: FakeLogger;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+
+  beforeEach(() => {
+    logger = new FakeLogger();
+
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "test",
+      baselineIntervalMs: 60_000,
+      nextRunAt: new Date("2025-01-01T12:00:00Z"),
+      failureCount: 0,
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn().mockResolvedValue(mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10 }),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+
+    const clock = { now: () => new Date("2025-01-01T12:00:00Z"), sleep: async () => { } };
+    scheduler = new Scheduler(
+      { clock, jobs, runs, dispatcher, cron, logger },
+      { workerId: "worker-a", leaseTtlMs: 30_000, leaseRenewIntervalMs: 10_000 },
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims under its worker id and records it as run lease owner", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.claimDueEndpoints).toHaveBeenCalledWith(10, 10_000, "worker-a");
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ leaseOwner: "worker-a" }));
+  });
+
+  it("releases the lease after the run completes", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+    const updateOrder = vi.mocked(jobs.updateAfterRun).mock.invocationCallOrder[0];
+    const releaseOrder = vi.mocked(jobs.releaseLease).mock.invocationCallOrder[0];
+    expect(releaseOrder).toBeGreaterThan(updateOrder!);
+  });
+
+  it("skips the endpoint when the lease was lost before execution", async () => {
+    vi.mocked(jobs.renewLease).mockResolvedValue(false);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(jobs.releaseLease).not.toHaveBeenCalled();
+    expect(logger.logs.some(l => l.msg?.includes("Lease lost before execution"))).toBe(true);
+  });
+
+  it("renews the lease while the dispatch is in flight and stops afterwards", async () => {
+    vi.useFakeTimers();
+    let finish: (result: ExecutionResult) => void = () => { };
+    vi.mocked(dispatcher.execute).mockImplementation(() => new Promise((resolve) => {
+      finish = resolve;
+    }));
+
+    const tick = scheduler.tick(10, 10_000);
+    await vi.waitFor(() => expect(dispatcher.execute).toHaveBeenCalled());
+
+    // One renewal before dispatch, then one per renew interval
+    expect(jobs.renewLease).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(25_000);
+    expect(jobs.renewLease).toHaveBeenCalledTimes(3);
+    expect(jobs.renewLease).toHaveBeenLastCalledWith("ep1", "worker-a", 30_000);
+
+    finish({ status: "success", durationMs: 25_000 });
+    await tick;
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(jobs.renewLease).toHaveBeenCalledTimes(3);
+  });
+
+  it("releases the lease even if dispatch throws", async () => {
+    vi.mocked(dispatcher.execute).mockRejectedValue(new Error("boom"));
+
+    await expect(scheduler.tick(10, 10_000)).rejects.toThrow("boom");
+
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+    expect(jobs.updateAfterRun).not.toHaveBeenCalled();
+  });
+});
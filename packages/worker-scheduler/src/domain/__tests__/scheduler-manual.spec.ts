@@ -0,0 +1,131 @@
+/**
+ * Scheduler manual run tests
+ *
+ * Verify that a claimed endpoint with a pending run-now request runs with source
+ * "manual" (or "trigger" for trigger URL requests), records who requested it, applies
+ * the one-off request overrides, and hands the consumed request back through updateAfterRun.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - manual runs", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let cron: Cron;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  let totalRuns: number;
+  const now = new Date("2025-01-01T12:00:00Z");
+  const requestedBy = { type: "api_key" as const, id: "key-1", userId: "user-1" };
+
+  beforeEach(() => {
+    totalRuns = 0;
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "test",
+      baselineIntervalMs: 3_600_000,
+      nextRunAt: now,
+      lastRunAt: new Date("2025-01-01T11:30:00Z"),
+      failureCount: 0,
+      url: "https://example.com/hook",
+      method: "POST",
+      headersJson: { "Authorization": "Bearer token", "X-Env": "prod" },
+      bodyJson: { full: true },
+      manualRun: {
+        id: "req-1",
+        requestedAt: now,
+        requestedBy,
+        headersJson: { "X-Env": "staging" },
+        bodyJson: { full: false },
+      },
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo({
+      getFilteredMetrics: vi.fn(async () => ({ totalRuns, successCount: 0, failureCount: 0, avgDurationMs: null })),
+    });
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 }),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("records the run as manual with the requesting actor", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({
+      endpointId: "ep1",
+      source: "manual",
+      triggeredBy: requestedBy,
+      leaseOwner: "worker-a",
+    }));
+  });
+
+  it("dispatches with the request overrides applied", async () => {
+    await scheduler.tick(10, 10_000);
+
+    const dispatched = vi.mocked(dispatcher.execute).mock.calls[0]![0];
+    expect(dispatched.headersJson).toEqual({ "Authorization": "Bearer token", "X-Env": "staging" });
+    expect(dispatched.bodyJson).toEqual({ full: false });
+  });
+
+  it("consumes the request and plans the next run from the baseline", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      lastRunAt: now,
+      nextRunAt: new Date("2025-01-01T13:00:00Z"),
+      failureCountPolicy: "reset",
+      consumedManualRunId: "req-1",
+    }));
+  });
+
+  it("defers the request like any run when the monthly run limit is reached", async () => {
+    totalRuns = 10_000;
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(jobs.setNextRunAtIfEarlier).toHaveBeenCalledWith("ep1", new Date("2025-02-01T00:00:00Z"));
+  });
+
+  it("records trigger URL requests as trigger runs with the payload merged into the body", async () => {
+    mockEndpoint = {
+      ...mockEndpoint,
+      manualRun: { id: "req-2", requestedAt: now, source: "trigger", payloadJson: { sha: "abc123" } },
+    };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ source: "trigger", triggeredBy: undefined }));
+    expect(vi.mocked(dispatcher.execute).mock.calls[0]![0].bodyJson).toEqual({ full: true, sha: "abc123" });
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({ consumedManualRunId: "req-2" }));
+  });
+
+  it("leaves scheduled runs without a request unattributed", async () => {
+    mockEndpoint = { ...mockEndpoint, manualRun: undefined };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ source: "baseline-interval", triggeredBy: undefined }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({ consumedManualRunId: undefined }));
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Scheduler metrics tests
+ *
+ * Verify that ticks record the claimed endpoint count and their duration, that each run
+ * records its dispatch duration by status and source, and that run-limit deferrals and
+ * zombie cleanups are counted.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger, FakeMetrics } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - metrics", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let metrics: FakeMetrics;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  let nowMs: number;
+
+  beforeEach(() => {
+    nowMs = new Date("2025-01-01T12:00:00Z").getTime();
+    mockEndpoint = {
+      id: "ep1",
+      tenantId: "tenant1",
+      name: "sync",
+      baselineIntervalMs: 60_000,
+      nextRunAt: new Date("2025-01-01T12:00:00Z"),
+      failureCount: 0,
+      url: "https://example.com/sync",
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo({
+      cleanupZombieRuns: vi.fn().mockResolvedValue(3),
+    });
+
+    dispatcher = {
+      execute: vi.fn(async () => {
+        nowMs += 250;
+        return { status: "success" as const, durationMs: 250, statusCode: 200 };
+      }),
+    };
+
+    metrics = new FakeMetrics();
+    const cron: Cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => new Date(nowMs), sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, metrics, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("records claimed endpoints, tick duration and dispatch duration", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(metrics.total("cronicorn_scheduler_claimed_endpoints_total")).toBe(1);
+    expect(metrics.getSamples("cronicorn_scheduler_dispatch_duration_seconds")).toEqual([
+      { name: "cronicorn_scheduler_dispatch_duration_seconds", value: 0.25, labels: { status: "success", source: "baseline-interval" } },
+    ]);
+    expect(metrics.getSamples("cronicorn_scheduler_tick_duration_seconds")).toEqual([
+      expect.objectContaining({ value: 0.25 }),
+    ]);
+  });
+
+  it("records tick duration when the tick fails", async () => {
+    vi.mocked(jobs.claimDueEndpoints).mockRejectedValue(new Error("db down"));
+
+    await expect(scheduler.tick(10, 10_000)).rejects.toThrow("db down");
+
+    expect(metrics.getSamples("cronicorn_scheduler_tick_duration_seconds")).toHaveLength(1);
+  });
+
+  it("counts run-limit deferrals", async () => {
+    vi.mocked(runs.getFilteredMetrics).mockResolvedValue({ totalRuns: 1_000_000, successCount: 0, failureCount: 0, avgDurationMs: null });
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(metrics.total("cronicorn_scheduler_run_limit_deferrals_total")).toBe(1);
+    expect(metrics.getSamples("cronicorn_scheduler_dispatch_duration_seconds")).toHaveLength(0);
+  });
+
+  it("counts zombie runs cleaned up", async () => {
+    await scheduler.cleanupZombieRuns(3_600_000);
+
+    expect(metrics.total("cronicorn_scheduler_zombie_runs_cleaned_total")).toBe(3);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Scheduler misfire policy tests
+ *
+ * Verify that an endpoint claimed well after its nextRunAt follows its misfire policy:
+ * skip drops the missed occurrences, run-once runs for the latest one, and run-all
+ * replays them oldest first, pointing nextRunAt at the next one after each run. Catch-up
+ * runs record the occurrence they stand in for. Endpoints without a policy run as usual.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - misfire policy", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+  // The scheduler was down from 00:00 until 03:30, missing the hourly runs at 00:00-03:00
+  const now = new Date("2025-01-01T03:30:00Z");
+
+  beforeEach(() => {
+    mockEndpoint = {
+      id: "ep1",
+      tenantId: "tenant1",
+      name: "billing",
+      baselineCron: "0 * * * *",
+      nextRunAt: new Date("2025-01-01T00:00:00Z"),
+      failureCount: 0,
+      url: "https://example.com/bill",
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 }),
+    };
+
+    const hour = 3_600_000;
+    const cron: Cron = { next: (_expr: string, from: Date) => new Date(Math.floor(from.getTime() / hour) * hour + hour) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("skips the missed occurrences and waits for the next one", async () => {
+    mockEndpoint = { ...mockEndpoint, misfirePolicy: { mode: "skip" } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.create).not.toHaveBeenCalled();
+    expect(jobs.updateEndpoint).toHaveBeenCalledWith("ep1", { nextRunAt: new Date("2025-01-01T04:00:00Z") });
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+
+  it("runs late endpoints without a policy as a normal scheduled run", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({
+      source: "baseline-cron",
+      scheduledFor: new Date("2025-01-01T00:00:00Z"),
+    }));
+  });
+
+  it("runs once for the latest missed occurrence", async () => {
+    mockEndpoint = { ...mockEndpoint, misfirePolicy: { mode: "run-once" } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({
+      source: "catch-up",
+      scheduledFor: new Date("2025-01-01T03:00:00Z"),
+    }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      nextRunAt: new Date("2025-01-01T04:00:00Z"),
+    }));
+  });
+
+  it("replays the oldest missed occurrence and points nextRunAt at the next", async () => {
+    mockEndpoint = { ...mockEndpoint, misfirePolicy: { mode: "run-all" } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({
+      source: "catch-up",
+      scheduledFor: new Date("2025-01-01T00:00:00Z"),
+      lagMs: 3.5 * 3_600_000,
+    }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      lastRunAt: now,
+      nextRunAt: new Date("2025-01-01T01:00:00Z"),
+    }));
+  });
+
+  it("drops the oldest occurrences beyond the backlog", async () => {
+    mockEndpoint = { ...mockEndpoint, misfirePolicy: { mode: "run-all", maxBacklog: 2 } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ scheduledFor: new Date("2025-01-01T02:00:00Z") }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      nextRunAt: new Date("2025-01-01T03:00:00Z"),
+    }));
+  });
+
+  it("plans normally once the last missed occurrence has run", async () => {
+    mockEndpoint = { ...mockEndpoint, nextRunAt: new Date("2025-01-01T03:00:00Z"), misfirePolicy: { mode: "run-all" } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ scheduledFor: new Date("2025-01-01T03:00:00Z") }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({
+      nextRunAt: new Date("2025-01-01T04:00:00Z"),
+    }));
+  });
+
+  it("doesn't apply to claims within the threshold", async () => {
+    mockEndpoint = { ...mockEndpoint, nextRunAt: new Date("2025-01-01T03:29:30Z"), misfirePolicy: { mode: "skip" } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({
+      source: "baseline-cron",
+      scheduledFor: new Date("2025-01-01T03:29:30Z"),
+      lagMs: 30_000,
+    }));
+  });
+
+  it("doesn't apply to run-now requests", async () => {
+    mockEndpoint = { ...mockEndpoint, misfirePolicy: { mode: "skip" }, manualRun: { id: "req-1", requestedAt: now } };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ source: "manual", scheduledFor: mockEndpoint.nextRunAt }));
+  });
+});
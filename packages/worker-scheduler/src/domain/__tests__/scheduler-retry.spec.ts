@@ -0,0 +1,120 @@
+/**
+ * Scheduler retry tests
+ *
+ * Verify that an endpoint's retry policy is applied within a single run: failed
+ * attempts are retried after the policy delay, every attempt is recorded on the run,
+ * and failureCount only moves once per run.
+ */
+
+import type { Cron, Dispatcher, ExecutionResult, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - in-run retries", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let cron: Cron;
+  let logger: FakeLogger;
+  let sleep: ReturnType<typeof vi.fn>;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+
+  const unavailable: ExecutionResult = { status: "failed", durationMs: 50, statusCode: 503, errorMessage: "HTTP 503 Service Unavailable" };
+  const ok: ExecutionResult = { status: "success", durationMs: 40, statusCode: 200 };
+
+  beforeEach(() => {
+    logger = new FakeLogger();
+
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "flaky",
+      baselineIntervalMs: 60_000,
+      nextRunAt: new Date("2025-01-01T12:00:00Z"),
+      failureCount: 2,
+      retryPolicy: { maxAttempts: 3, backoff: "exponential", initialDelayMs: 1000 },
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn(),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+
+    sleep = vi.fn().mockResolvedValue(undefined);
+    const clock = { now: () => new Date("2025-01-01T12:00:00Z"), sleep };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger }, { workerId: "worker-a" });
+  });
+
+  it("retries within the run and records every attempt", async () => {
+    vi.mocked(dispatcher.execute)
+      .mockResolvedValueOnce(unavailable)
+      .mockResolvedValueOnce(unavailable)
+      .mockResolvedValueOnce(ok);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(3);
+    expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    expect(runs.create).toHaveBeenCalledTimes(1);
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1 }));
+
+    const [, patch] = vi.mocked(runs.finish).mock.calls[0]!;
+    expect(patch.status).toBe("success");
+    expect(patch.attempt).toBe(3);
+    expect(patch.durationMs).toBe(50 + 1000 + 50 + 2000 + 40);
+    expect(patch.attempts?.map(a => [a.attempt, a.status, a.statusCode, a.delayMs])).toEqual([
+      [1, "failed", 503, 1000],
+      [2, "failed", 503, 2000],
+      [3, "success", 200, undefined],
+    ]);
+
+    // Recovered within the run: failure count resets rather than growing per attempt
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({ failureCountPolicy: "reset" }));
+  });
+
+  it("fails the run once after exhausting attempts", async () => {
+    vi.mocked(dispatcher.execute).mockResolvedValue(unavailable);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(3);
+    expect(runs.finish).toHaveBeenCalledTimes(1);
+    expect(runs.finish).toHaveBeenCalledWith("run1", expect.objectContaining({ status: "failed", attempt: 3 }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledTimes(1);
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("ep1", expect.objectContaining({ failureCountPolicy: "increment" }));
+  });
+
+  it("records a single attempt without per-attempt detail when no retry happens", async () => {
+    mockEndpoint = { ...mockEndpoint, retryPolicy: undefined };
+    vi.mocked(dispatcher.execute).mockResolvedValue(unavailable);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+    expect(runs.finish).toHaveBeenCalledWith("run1", expect.objectContaining({ attempt: 1, attempts: undefined }));
+  });
+
+  it("releases the lease after retrying", async () => {
+    vi.mocked(dispatcher.execute).mockResolvedValueOnce(unavailable).mockResolvedValueOnce(ok);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).toHaveBeenCalledTimes(2);
+    expect(jobs.releaseLease).toHaveBeenCalledWith("ep1", "worker-a");
+  });
+});
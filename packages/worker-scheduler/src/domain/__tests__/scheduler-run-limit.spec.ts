@@ -75,6 +75,8 @@ describe("scheduler - execution metering (monthly run limits)", () => {
     // eslint-disable-next-line ts/consistent-type-assertions
     jobs = {
       claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      renewLease: vi.fn().mockResolvedValue(true),
+      releaseLease: vi.fn().mockResolvedValue(undefined),
       getEndpoint: vi.fn().mockResolvedValue(mockEndpoint),
       updateAfterRun: vi.fn().mockResolvedValue(undefined),
       setNextRunAtIfEarlier: vi.fn().mockResolvedValue(undefined),
@@ -0,0 +1,96 @@
+/**
+ * Scheduler request templating tests
+ *
+ * Verify that templates are resolved against sibling responses just before dispatch,
+ * that unresolvable templates fail the run without dispatching, and that endpoints
+ * without templates don't load sibling responses.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - request templates", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let cron: Cron;
+  let scheduler: Scheduler;
+  let endpoint: JobEndpoint;
+  const now = new Date("2025-01-01T12:00:00Z");
+
+  beforeEach(() => {
+    endpoint = {
+      id: "transform",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "transform",
+      baselineIntervalMs: 60_000,
+      nextRunAt: now,
+      failureCount: 0,
+      url: "https://api.example.com/batches/{{ endpoints.extract.lastResponse.batch_id }}",
+      method: "POST",
+      headersJson: { "X-Run-Id": "{{ run.id }}" },
+      bodyJson: { batchId: "{{ endpoints.extract.lastResponse.batch_id }}", at: "{{ now | iso }}" },
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["transform"]),
+      getEndpoint: vi.fn(async () => endpoint),
+    });
+
+    runs = createFakeRunsRepo({
+      getSiblingLatestResponses: vi.fn().mockResolvedValue([
+        { endpointId: "extract-id", endpointName: "extract", responseBody: { batch_id: 77 }, timestamp: new Date("2025-01-01T11:59:00Z"), status: "success" },
+      ]),
+    });
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 10, statusCode: 200 }),
+    };
+
+    cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => now, sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("dispatches the request rendered from sibling responses", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.getSiblingLatestResponses).toHaveBeenCalledWith("job1", "transform");
+    expect(dispatcher.execute).toHaveBeenCalledWith(expect.objectContaining({
+      id: "transform",
+      url: "https://api.example.com/batches/77",
+      headersJson: { "X-Run-Id": "run1" },
+      bodyJson: { batchId: 77, at: "2025-01-01T12:00:00.000Z" },
+    }));
+    expect(runs.finish).toHaveBeenCalledWith("run1", expect.objectContaining({ status: "success" }));
+  });
+
+  it("fails the run without dispatching when a template doesn't resolve", async () => {
+    vi.mocked(runs.getSiblingLatestResponses).mockResolvedValue([]);
+
+    await scheduler.tick(10, 10_000);
+
+    expect(dispatcher.execute).not.toHaveBeenCalled();
+    expect(runs.finish).toHaveBeenCalledWith("run1", expect.objectContaining({
+      status: "failed",
+      attempt: 1,
+      err: "Template error: url: \"endpoints.extract.lastResponse.batch_id\" did not resolve",
+    }));
+    expect(jobs.updateAfterRun).toHaveBeenCalledWith("transform", expect.objectContaining({ failureCountPolicy: "increment" }));
+  });
+
+  it("doesn't load sibling responses for endpoints without templates", async () => {
+    endpoint = { ...endpoint, url: "https://api.example.com/batches", headersJson: undefined, bodyJson: undefined };
+
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.getSiblingLatestResponses).not.toHaveBeenCalled();
+    expect(dispatcher.execute).toHaveBeenCalledWith(expect.objectContaining({ url: "https://api.example.com/batches" }));
+  });
+});
@@ -69,6 +69,8 @@ describe("scheduler - timing edge cases", () => {
     // eslint-disable-next-line ts/consistent-type-assertions
     jobs = {
       claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      renewLease: vi.fn().mockResolvedValue(true),
+      releaseLease: vi.fn().mockResolvedValue(undefined),
       getEndpoint: vi.fn().mockResolvedValue(mockEndpoint),
       updateAfterRun: vi.fn().mockResolvedValue(undefined),
     } as unknown as JobsRepo;
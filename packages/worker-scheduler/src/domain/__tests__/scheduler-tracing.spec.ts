@@ -0,0 +1,89 @@
+/**
+ * Scheduler tracing tests
+ *
+ * Verify that ticks and endpoint handling run in spans, and that runs record the id of
+ * the trace they executed in.
+ */
+
+import type { Cron, Dispatcher, JobEndpoint, JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { FakeLogger, FakeTracer } from "@cronicorn/domain";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import { Scheduler } from "../scheduler.js";
+import { createFakeJobsRepo, createFakeRunsRepo } from "./test-helpers.js";
+
+describe("scheduler - tracing", () => {
+  let jobs: JobsRepo;
+  let runs: RunsRepo;
+  let dispatcher: Dispatcher;
+  let tracer: FakeTracer;
+  let scheduler: Scheduler;
+  let mockEndpoint: JobEndpoint;
+
+  beforeEach(() => {
+    mockEndpoint = {
+      id: "ep1",
+      jobId: "job1",
+      tenantId: "tenant1",
+      name: "sync",
+      baselineIntervalMs: 60_000,
+      nextRunAt: new Date("2025-01-01T12:00:00Z"),
+      failureCount: 0,
+      url: "https://example.com/sync",
+    };
+
+    jobs = createFakeJobsRepo({
+      claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]),
+      getEndpoint: vi.fn(async () => mockEndpoint),
+    });
+
+    runs = createFakeRunsRepo();
+
+    dispatcher = {
+      execute: vi.fn().mockResolvedValue({ status: "success", durationMs: 120, statusCode: 200 }),
+    };
+
+    tracer = new FakeTracer();
+    const cron: Cron = { next: (_expr: string, from: Date) => new Date(from.getTime() + 60_000) };
+    const clock = { now: () => new Date("2025-01-01T12:00:00Z"), sleep: vi.fn().mockResolvedValue(undefined) };
+    scheduler = new Scheduler({ clock, jobs, runs, dispatcher, cron, tracer, logger: new FakeLogger() }, { workerId: "worker-a" });
+  });
+
+  it("traces the tick and each claimed endpoint", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(tracer.spans).toEqual([
+      expect.objectContaining({
+        name: "Scheduler.tick",
+        attributes: { "cronicorn.worker_id": "worker-a", "cronicorn.claimed_count": 1 },
+      }),
+      expect.objectContaining({
+        name: "Scheduler.handleEndpoint",
+        attributes: {
+          "cronicorn.endpoint_id": "ep1",
+          "cronicorn.job_id": "job1",
+          "cronicorn.tenant_id": "tenant1",
+          "cronicorn.run_id": "run1",
+          "cronicorn.run.source": "baseline-interval",
+          "cronicorn.run.status": "success",
+          "cronicorn.run.attempts": 1,
+        },
+      }),
+    ]);
+  });
+
+  it("stores the trace id on the run", async () => {
+    await scheduler.tick(10, 10_000);
+
+    expect(runs.create).toHaveBeenCalledWith(expect.objectContaining({ traceId: tracer.traceId }));
+  });
+
+  it("records a failed tick on its span", async () => {
+    vi.mocked(jobs.claimDueEndpoints).mockRejectedValue(new Error("db down"));
+
+    await expect(scheduler.tick(10, 10_000)).rejects.toThrow("db down");
+
+    expect(tracer.spans[0]).toMatchObject({ name: "Scheduler.tick", error: new Error("db down") });
+  });
+});
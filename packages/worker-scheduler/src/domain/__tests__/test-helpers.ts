@@ -0,0 +1,82 @@
+/**
+ * Typed repo doubles for scheduler specs.
+ *
+ * Every port method is a `vi.fn()`, so specs can stub and assert on any of them, and a
+ * method added to the port fails to compile here instead of going missing at runtime.
+ * The defaults let a tick claim, run and record an endpoint without further setup;
+ * pass overrides for what a spec cares about:
+ *
+ * ```ts
+ * const jobs = createFakeJobsRepo({ claimDueEndpoints: vi.fn().mockResolvedValue(["ep1"]) });
+ * ```
+ */
+
+import type { JobsRepo, RunsRepo } from "@cronicorn/domain";
+
+import { vi } from "vitest";
+
+export function createFakeJobsRepo(overrides: Partial<JobsRepo> = {}): JobsRepo {
+  return {
+    createJob: vi.fn(),
+    getJob: vi.fn().mockResolvedValue(null),
+    listJobs: vi.fn().mockResolvedValue([]),
+    updateJob: vi.fn(),
+    archiveJob: vi.fn(),
+    pauseJob: vi.fn(),
+    resumeJob: vi.fn(),
+    addEndpoint: vi.fn().mockResolvedValue(undefined),
+    updateEndpoint: vi.fn().mockResolvedValue(undefined),
+    claimDueEndpoints: vi.fn().mockResolvedValue([]),
+    getEndpoint: vi.fn(),
+    getEndpointByPingToken: vi.fn().mockResolvedValue(null),
+    getEndpointByTriggerTokenHash: vi.fn().mockResolvedValue(null),
+    renewLease: vi.fn().mockResolvedValue(true),
+    releaseLease: vi.fn().mockResolvedValue(undefined),
+    setNextRunAtIfEarlier: vi.fn().mockResolvedValue(undefined),
+    writeAIHint: vi.fn().mockResolvedValue(undefined),
+    setPausedUntil: vi.fn().mockResolvedValue(undefined),
+    clearAIHints: vi.fn().mockResolvedValue(undefined),
+    resetFailureCount: vi.fn().mockResolvedValue(undefined),
+    requestManualRun: vi.fn().mockResolvedValue(undefined),
+    clearManualRun: vi.fn().mockResolvedValue(undefined),
+    setTriggerToken: vi.fn().mockResolvedValue(undefined),
+    updateAfterRun: vi.fn().mockResolvedValue(undefined),
+    listEndpointsByJob: vi.fn().mockResolvedValue([]),
+    deleteEndpoint: vi.fn().mockResolvedValue(undefined),
+    archiveEndpoint: vi.fn(),
+    countEndpointsByUser: vi.fn().mockResolvedValue(0),
+    getEndpointCounts: vi.fn(),
+    getUserTier: vi.fn().mockResolvedValue("free"),
+    getUserById: vi.fn().mockResolvedValue(null),
+    getUserByStripeCustomerId: vi.fn().mockResolvedValue(null),
+    updateUserSubscription: vi.fn().mockResolvedValue(undefined),
+    getUsage: vi.fn(),
+    ...overrides,
+  };
+}
+
+export function createFakeRunsRepo(overrides: Partial<RunsRepo> = {}): RunsRepo {
+  return {
+    create: vi.fn().mockResolvedValue("run1"),
+    finish: vi.fn().mockResolvedValue(undefined),
+    getOpenRun: vi.fn().mockResolvedValue(null),
+    listOpenRuns: vi.fn().mockResolvedValue([]),
+    listRuns: vi.fn(),
+    getRunDetails: vi.fn().mockResolvedValue(null),
+    getJobHealthDistribution: vi.fn().mockResolvedValue([]),
+    getFilteredMetrics: vi.fn().mockResolvedValue({ totalRuns: 0, successCount: 0, failureCount: 0, avgDurationMs: null }),
+    getSourceDistribution: vi.fn().mockResolvedValue([]),
+    getJobLagPercentiles: vi.fn(),
+    getRunTimeSeries: vi.fn().mockResolvedValue([]),
+    getEndpointTimeSeries: vi.fn().mockResolvedValue([]),
+    getHealthSummary: vi.fn(),
+    getHealthSummaryMultiWindow: vi.fn(),
+    getEndpointsWithRecentRuns: vi.fn().mockResolvedValue([]),
+    getLatestResponse: vi.fn().mockResolvedValue(null),
+    getResponseHistory: vi.fn().mockResolvedValue([]),
+    getSiblingLatestResponses: vi.fn().mockResolvedValue([]),
+    cleanupZombieRuns: vi.fn().mockResolvedValue(0),
+    getJobRuns: vi.fn(),
+    ...overrides,
+  };
+}
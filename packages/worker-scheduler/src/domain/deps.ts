@@ -1,10 +1,13 @@
-import type { Clock, Cron, Dispatcher, JobsRepo, Logger, RunsRepo } from "@cronicorn/domain";
+import type { Clock, Cron, Dispatcher, EndpointEvents, JobsRepo, Logger, Metrics, RunsRepo, Tracer } from "@cronicorn/domain";
 
 export type SchedulerDeps = {
   clock: Clock;
   cron: Cron;
   dispatcher: Dispatcher;
+  events?: EndpointEvents; // Notified after each run (alerting); failures are logged, never thrown
   jobs: JobsRepo;
   logger: Logger;
+  metrics?: Metrics; // Tick, dispatch, deferral and cleanup instrumentation (optional)
   runs: RunsRepo;
+  tracer?: Tracer; // Spans for ticks and endpoint handling; run records keep the trace id (optional)
 };
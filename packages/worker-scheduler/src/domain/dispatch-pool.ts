@@ -0,0 +1,93 @@
+export type DispatchPoolOptions<T> = {
+  /** Maximum number of items processed at once across all keys */
+  concurrency: number;
+  /** Maximum number of items processed at once for a single key */
+  perKeyConcurrency: number;
+  /** Fairness key for an item (e.g. tenant id) */
+  keyOf: (item: T) => string;
+};
+
+/**
+ * Process items through a bounded worker pool with a per-key cap.
+ *
+ * Keys are served round-robin: whenever a slot frees up, the next key in rotation
+ * that still has queued items and spare capacity gets it. A key with many items
+ * therefore can't starve keys with few, and can never hold more than
+ * `perKeyConcurrency` slots even when the pool is otherwise idle.
+ *
+ * Items within a key keep their original order. Worker failures don't stop the
+ * pool; every item is attempted and its outcome is returned in input order.
+ *
+ * @returns Settled result per item, in input order
+ */
+export function runDispatchPool<T>(
+  items: readonly T[],
+  opts: DispatchPoolOptions<T>,
+  worker: (item: T) => Promise<void>,
+): Promise<PromiseSettledResult<void>[]> {
+  const concurrency = Math.max(1, opts.concurrency);
+  const perKeyConcurrency = Math.max(1, opts.perKeyConcurrency);
+
+  const queues = new Map<string, Array<{ item: T; index: number }>>();
+  items.forEach((item, index) => {
+    const key = opts.keyOf(item);
+    const queue = queues.get(key) ?? [];
+    queue.push({ item, index });
+    queues.set(key, queue);
+  });
+
+  const keys = [...queues.keys()];
+  const active = new Map<string, number>();
+  const results: PromiseSettledResult<void>[] = Array.from({ length: items.length });
+  let running = 0;
+  let remaining = items.length;
+  let cursor = 0;
+
+  return new Promise((resolve) => {
+    const nextEntry = () => {
+      for (let i = 0; i < keys.length; i++) {
+        const key = keys[(cursor + i) % keys.length]!;
+        const queue = queues.get(key)!;
+        if (queue.length > 0 && (active.get(key) ?? 0) < perKeyConcurrency) {
+          cursor = (cursor + i + 1) % keys.length;
+          return { key, entry: queue.shift()! };
+        }
+      }
+      return null;
+    };
+
+    const pump = () => {
+      while (running < concurrency) {
+        const next = nextEntry();
+        if (!next)
+          break;
+
+        const { key, entry } = next;
+        running++;
+        active.set(key, (active.get(key) ?? 0) + 1);
+
+        Promise.resolve()
+          .then(() => worker(entry.item))
+          .then(
+            () => {
+              results[entry.index] = { status: "fulfilled", value: undefined };
+            },
+            (reason: unknown) => {
+              results[entry.index] = { status: "rejected", reason };
+            },
+          )
+          .finally(() => {
+            running--;
+            remaining--;
+            active.set(key, active.get(key)! - 1);
+            pump();
+          });
+      }
+
+      if (remaining === 0)
+        resolve(results);
+    };
+
+    pump();
+  });
+}
@@ -0,0 +1,56 @@
+import type { Counter, Histogram, Metrics } from "@cronicorn/domain";
+
+/** Instruments the scheduler records to */
+export type SchedulerMetrics = {
+  tickDuration: Histogram;
+  claimedEndpoints: Counter;
+  dispatchDuration: Histogram;
+  runLimitDeferrals: Counter;
+  zombieRunsCleaned: Counter;
+};
+
+/** Dispatch duration buckets in seconds: fast health checks up to slow batch endpoints */
+const DISPATCH_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+const noopCounter: Counter = { inc: () => {} };
+const noopHistogram: Histogram = { observe: () => {} };
+
+/**
+ * Create the scheduler's instruments. Without a metrics port, recording is a no-op.
+ */
+export function createSchedulerMetrics(metrics?: Metrics): SchedulerMetrics {
+  if (!metrics) {
+    return {
+      tickDuration: noopHistogram,
+      claimedEndpoints: noopCounter,
+      dispatchDuration: noopHistogram,
+      runLimitDeferrals: noopCounter,
+      zombieRunsCleaned: noopCounter,
+    };
+  }
+
+  return {
+    tickDuration: metrics.histogram({
+      name: "cronicorn_scheduler_tick_duration_seconds",
+      help: "Duration of scheduler ticks, from claiming endpoints to the end of their dispatch",
+    }),
+    claimedEndpoints: metrics.counter({
+      name: "cronicorn_scheduler_claimed_endpoints_total",
+      help: "Endpoints claimed by scheduler ticks",
+    }),
+    dispatchDuration: metrics.histogram({
+      name: "cronicorn_scheduler_dispatch_duration_seconds",
+      help: "Duration of endpoint runs, including retries, by result status and run source",
+      labelNames: ["status", "source"],
+      buckets: DISPATCH_BUCKETS,
+    }),
+    runLimitDeferrals: metrics.counter({
+      name: "cronicorn_scheduler_run_limit_deferrals_total",
+      help: "Runs deferred to next month because the tenant reached its monthly run limit",
+    }),
+    zombieRunsCleaned: metrics.counter({
+      name: "cronicorn_scheduler_zombie_runs_cleaned_total",
+      help: "Runs abandoned in running state that zombie cleanup closed",
+    }),
+  };
+}
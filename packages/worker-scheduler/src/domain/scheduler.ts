@@ -1,35 +1,135 @@
 // packages/scheduler/src/scheduler.ts
-import { getRunsLimit, planNextRun } from "@cronicorn/domain";
+import type { BlackoutWindow, EndpointRunFinishedEvent, JobEndpoint, Logger, MisfirePlan, RetryOutcome, Span, Tracer } from "@cronicorn/domain";
+
+import { applyManualRunOverrides, blackoutEndsAt, buildTemplateContext, cancelReplacedRuns, CATCH_UP_RUN_SOURCE, DEPENDENCY_RUN_SOURCE, executeWithRetry, getRunsLimit, hasRequestTemplates, HEARTBEAT_RUN_SOURCE, isDependencySatisfied, manualRunSource, MISSED_HEARTBEAT_RUN_SOURCE, noopTracer, planConcurrency, planDependentRuns, planHeartbeatDeadline, planMisfire, planNextRun, renderRequestTemplates, TemplateError } from "@cronicorn/domain";
+import { randomUUID } from "node:crypto";
 
 import type { SchedulerDeps } from "./deps.js";
+import type { SchedulerMetrics } from "./metrics.js";
+
+import { runDispatchPool } from "./dispatch-pool.js";
+import { createSchedulerMetrics } from "./metrics.js";
+
+/** A run standing in for an occurrence missed while the scheduler was down or behind */
+type CatchUpRun = Extract<MisfirePlan, { action: "run" }>;
 
 export type IScheduler = {
   tick: (batchSize: number, lockTtlMs: number) => Promise<void>;
   cleanupZombieRuns: (olderThanMs: number) => Promise<number>;
 };
 
+export type SchedulerOptions = {
+  /** Lease owner identity for this worker (default: random per instance) */
+  workerId?: string;
+  /** How far each lease renewal extends the claim (default: 60s) */
+  leaseTtlMs?: number;
+  /** How often the lease is renewed while a dispatch is in flight (default: leaseTtlMs / 3) */
+  leaseRenewIntervalMs?: number;
+  /** Maximum endpoints dispatched in parallel within a tick (default: 10) */
+  maxConcurrency?: number;
+  /** Maximum endpoints of a single tenant dispatched in parallel within a tick (default: 3) */
+  maxConcurrencyPerTenant?: number;
+};
+
 export class Scheduler implements IScheduler {
-  constructor(private readonly d: SchedulerDeps) { }
+  readonly workerId: string;
+  private readonly leaseTtlMs: number;
+  private readonly leaseRenewIntervalMs: number;
+  private readonly maxConcurrency: number;
+  private readonly maxConcurrencyPerTenant: number;
+  private readonly metrics: SchedulerMetrics;
+  private readonly tracer: Tracer;
+
+  constructor(private readonly d: SchedulerDeps, opts: SchedulerOptions = {}) {
+    this.workerId = opts.workerId ?? `scheduler-${randomUUID()}`;
+    this.leaseTtlMs = opts.leaseTtlMs ?? 60_000;
+    this.leaseRenewIntervalMs = opts.leaseRenewIntervalMs ?? Math.floor(this.leaseTtlMs / 3);
+    this.maxConcurrency = opts.maxConcurrency ?? 10;
+    this.maxConcurrencyPerTenant = Math.min(opts.maxConcurrencyPerTenant ?? 3, this.maxConcurrency);
+    this.metrics = createSchedulerMetrics(d.metrics);
+    this.tracer = d.tracer ?? noopTracer;
+  }
 
   async tick(batchSize: number, lockTtlMs: number) {
     const now = this.d.clock.now();
+    try {
+      await this.tracer.trace(
+        "Scheduler.tick",
+        span => this.runTick(now, batchSize, lockTtlMs, span),
+        { attributes: { "cronicorn.worker_id": this.workerId } },
+      );
+    }
+    finally {
+      this.metrics.tickDuration.observe((this.d.clock.now().getTime() - now.getTime()) / 1000);
+    }
+  }
+
+  private async runTick(now: Date, batchSize: number, lockTtlMs: number, span: Span) {
     this.d.logger.debug({ lockTtlMs, now: now.toISOString() }, "Scheduler tick started");
 
-    const ids = await this.d.jobs.claimDueEndpoints(batchSize, lockTtlMs);
-    this.d.logger.info({ claimedCount: ids.length, endpointIds: ids }, "Claimed endpoints");
+    const ids = await this.d.jobs.claimDueEndpoints(batchSize, lockTtlMs, this.workerId);
+    this.d.logger.info({ claimedCount: ids.length, endpointIds: ids, workerId: this.workerId }, "Claimed endpoints");
+    this.metrics.claimedEndpoints.inc({}, ids.length);
+    span.setAttributes({ "cronicorn.claimed_count": ids.length });
+
+    const endpoints = await this.loadClaimedEndpoints(ids);
+
+    // Dispatch through a bounded pool so one slow endpoint doesn't stall the batch,
+    // and cap each tenant's share so a noisy tenant can't starve the others.
+    const results = await runDispatchPool(
+      endpoints,
+      {
+        concurrency: this.maxConcurrency,
+        perKeyConcurrency: this.maxConcurrencyPerTenant,
+        keyOf: ep => ep.tenantId,
+      },
+      ep => this.tracer.trace(
+        "Scheduler.handleEndpoint",
+        span => this.handleEndpoint(ep, now, span),
+        { attributes: { "cronicorn.endpoint_id": ep.id, "cronicorn.job_id": ep.jobId, "cronicorn.tenant_id": ep.tenantId } },
+      ),
+    );
+
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failures.length > 0) {
+      this.d.logger.error({ failedCount: failures.length, claimedCount: ids.length }, "Endpoint handling failed during tick");
+      throw failures[0]!.reason;
+    }
+  }
 
-    for (const id of ids) await this.handleEndpoint(id);
+  /**
+   * Load claimed endpoints up front so the dispatch pool knows each endpoint's tenant.
+   * Endpoints that can't be loaded (e.g. deleted since the claim) are skipped and their
+   * lease is left to expire.
+   */
+  private async loadClaimedEndpoints(ids: string[]): Promise<JobEndpoint[]> {
+    const loaded = await Promise.all(ids.map(async (id) => {
+      try {
+        return await this.d.jobs.getEndpoint(id);
+      }
+      catch (err) {
+        this.d.logger.error({ err, endpointId: id }, "Failed to load claimed endpoint — skipping");
+        return null;
+      }
+    }));
+    return loaded.filter((ep): ep is JobEndpoint => ep !== null && ep !== undefined);
   }
 
-  private async handleEndpoint(endpointId: string) {
-    const { clock, jobs, runs, dispatcher, cron } = this.d;
+  private async handleEndpoint(ep: JobEndpoint, claimedAt: Date, span: Span) {
+    const { clock, jobs, cron } = this.d;
     const now = clock.now();
+    const endpointId = ep.id;
+    const queueWaitMs = Math.max(0, now.getTime() - claimedAt.getTime());
 
-    const ep = await jobs.getEndpoint(endpointId);
-    if (!ep)
+    // Claimed endpoints may wait in the dispatch pool; make sure the lease is still ours
+    // (and fresh) before executing, otherwise another worker may already own it.
+    const leaseHeld = await jobs.renewLease(endpointId, this.workerId, this.leaseTtlMs);
+    if (!leaseHeld) {
+      this.d.logger.warn({ endpointId, workerId: this.workerId }, "Lease lost before execution — skipping endpoint");
       return;
+    }
 
-    const epLogger = this.d.logger.child({ endpointId, jobId: ep.jobId, tenantId: ep.tenantId });
+    const epLogger = this.d.logger.child({ endpointId, jobId: ep.jobId, tenantId: ep.tenantId, traceId: span.traceId });
     epLogger.info(
       {
         name: ep.name,
@@ -37,38 +137,178 @@ export class Scheduler implements IScheduler {
         lastRunAt: ep.lastRunAt,
         baselineIntervalMs: ep.baselineIntervalMs,
         failureCount: ep.failureCount,
+        queueWaitMs,
       },
       "Handling endpoint execution",
     );
 
-    // Calculate the source before execution (what schedule triggered this run)
-    const prePlan = planNextRun(now, ep, cron);
+    if (ep.kind === "heartbeat") {
+      try {
+        await this.recordMissedCheckIn(endpointId, now, epLogger, span);
+      }
+      finally {
+        await jobs.releaseLease(endpointId, this.workerId);
+      }
+      return;
+    }
+
+    // Nothing starts inside a blackout window, whatever claimed the endpoint (AI hint,
+    // run-now, trigger URL, dependency): push it to the window's end. A pending run-now
+    // request stays queued and runs then.
+    const jobBlackoutWindows = await this.loadJobBlackoutWindows(ep, epLogger);
+    const blackoutEnd = blackoutEndsAt(now, [...ep.blackoutWindows ?? [], ...jobBlackoutWindows]);
+    if (blackoutEnd) {
+      try {
+        await jobs.updateEndpoint(endpointId, { nextRunAt: blackoutEnd });
+        epLogger.info({ blackoutEndsAt: blackoutEnd.toISOString(), manualRunPending: Boolean(ep.manualRun) }, "Inside blackout window — deferred");
+      }
+      finally {
+        await jobs.releaseLease(endpointId, this.workerId);
+      }
+      return;
+    }
+
+    // Calculate the source before execution (what schedule triggered this run).
+    // A pending run-now or trigger URL request takes precedence: this run consumes it.
+    const prePlan = planNextRun(now, ep, cron, jobBlackoutWindows);
+    const requestedSource = ep.manualRun
+      ? manualRunSource(ep.manualRun)
+      : await this.isDependencyTriggered(ep, epLogger) ? DEPENDENCY_RUN_SOURCE : undefined;
+
+    // A scheduled claim well past nextRunAt missed occurrences: the misfire policy decides
+    // whether they're skipped, run once or replayed one per claim.
+    const misfire = requestedSource ? null : planMisfire(now, ep, cron, jobBlackoutWindows);
+    if (misfire?.action === "skip") {
+      try {
+        await jobs.updateEndpoint(endpointId, { nextRunAt: prePlan.nextRunAt });
+        epLogger.info({ missed: misfire.missed, nextRunAt: prePlan.nextRunAt.toISOString() }, "Missed runs skipped per misfire policy");
+      }
+      finally {
+        await jobs.releaseLease(endpointId, this.workerId);
+      }
+      return;
+    }
+    const catchUp = misfire ?? undefined;
+    if (catchUp) {
+      epLogger.info(
+        {
+          scheduledFor: catchUp.scheduledFor.toISOString(),
+          missed: catchUp.missed,
+          dropped: catchUp.dropped,
+          nextScheduledFor: catchUp.nextScheduledFor?.toISOString(),
+        },
+        "Catching up missed run",
+      );
+    }
+    const source = requestedSource ?? (catchUp ? CATCH_UP_RUN_SOURCE : prePlan.source);
 
     const deferUntil = await this.checkRunLimit(ep.tenantId, endpointId, now);
     if (deferUntil) {
       await jobs.setNextRunAtIfEarlier(endpointId, deferUntil);
+      // Lease is left to expire so a deferred endpoint isn't re-claimed on every tick
       return;
     }
 
+    try {
+      // A run that outlived its lease may still be open: the concurrency policy decides
+      // whether this one starts alongside it, is skipped, or replaces it.
+      const openRuns = ep.concurrencyPolicy && ep.concurrencyPolicy !== "allow" ? await this.d.runs.listOpenRuns(endpointId) : [];
+      const concurrency = planConcurrency(ep.concurrencyPolicy, openRuns);
+      if (concurrency.action === "skip") {
+        await this.recordSkippedRun(ep, now, source, catchUp, catchUp?.nextScheduledFor ?? prePlan.nextRunAt, concurrency.reason, epLogger, span);
+        return;
+      }
+      if (concurrency.cancel.length > 0) {
+        await cancelReplacedRuns(this.d.runs, concurrency.cancel, now);
+        epLogger.info({ replacedRunIds: concurrency.cancel.map(r => r.id) }, "Earlier runs canceled per concurrency policy");
+      }
+
+      await this.executeUnderLease(ep, now, source, queueWaitMs, jobBlackoutWindows, catchUp, epLogger, span);
+    }
+    finally {
+      await jobs.releaseLease(endpointId, this.workerId);
+    }
+  }
+
+  private async executeUnderLease(
+    ep: JobEndpoint,
+    now: Date,
+    source: string,
+    queueWaitMs: number,
+    jobBlackoutWindows: readonly BlackoutWindow[],
+    catchUp: CatchUpRun | undefined,
+    epLogger: Logger,
+    span: Span,
+  ) {
+    const { clock, jobs, runs, dispatcher, cron } = this.d;
+    const endpointId = ep.id;
+
+    // Lag is measured against the time the run was due: the occurrence a catch-up
+    // stands in for, otherwise the nextRunAt the endpoint was claimed with
+    const scheduledFor = catchUp?.scheduledFor ?? ep.nextRunAt;
     const runId = await runs.create({
       endpointId,
       status: "running",
-      attempt: ep.failureCount + 1,
-      source: prePlan.source,
+      attempt: 1,
+      source,
+      leaseOwner: this.workerId,
+      queueWaitMs,
+      scheduledFor,
+      lagMs: now.getTime() - scheduledFor.getTime(),
+      triggeredBy: ep.manualRun?.requestedBy,
+      traceId: span.traceId,
     });
+    span.setAttributes({ "cronicorn.run_id": runId, "cronicorn.run.source": source });
 
-    const runLogger = epLogger.child({ runId, attempt: ep.failureCount + 1 });
-    const result = await dispatcher.execute(ep);
+    const runLogger = epLogger.child({ runId, failureCount: ep.failureCount });
+    const stopHeartbeat = this.startLeaseHeartbeat(endpointId, runLogger);
+    let outcome: RetryOutcome;
+    try {
+      // Run-now overrides apply to this run only; templates in them render like the endpoint's own
+      const rendered = await this.renderTemplates(applyManualRunOverrides(ep), runId);
+      if ("error" in rendered) {
+        // Unresolvable templates fail the run without dispatching
+        const startedAt = clock.now();
+        outcome = {
+          result: { status: "failed", durationMs: 0, errorMessage: rendered.error },
+          attempts: [{ attempt: 1, startedAt, status: "failed", durationMs: 0, errorMessage: rendered.error }],
+          durationMs: 0,
+        };
+      }
+      else {
+        // In-run retries per the endpoint's retry policy; the heartbeat keeps the lease
+        // alive across retry delays as well as the dispatches themselves.
+        outcome = await executeWithRetry(rendered.endpoint, { dispatcher, clock }, (attempt, failed) => {
+          runLogger.warn(
+            {
+              attempt: attempt.attempt,
+              maxAttempts: ep.retryPolicy?.maxAttempts,
+              statusCode: failed.statusCode,
+              error: failed.errorMessage,
+              delayMs: attempt.delayMs,
+            },
+            "Attempt failed — retrying",
+          );
+        });
+      }
+    }
+    finally {
+      stopHeartbeat();
+    }
+    const { result, attempts } = outcome;
+    this.metrics.dispatchDuration.observe(outcome.durationMs / 1000, { status: result.status, source });
+    span.setAttributes({ "cronicorn.run.status": result.status, "cronicorn.run.attempts": attempts.length });
 
     if (result.status === "success") {
-      runLogger.info({ durationMs: result.durationMs, statusCode: result.statusCode }, "Execution succeeded");
+      runLogger.info({ durationMs: outcome.durationMs, statusCode: result.statusCode, attempts: attempts.length }, "Execution succeeded");
     }
     else {
       runLogger.warn(
         {
-          durationMs: result.durationMs,
+          durationMs: outcome.durationMs,
           statusCode: result.statusCode,
           error: result.errorMessage,
+          attempts: attempts.length,
         },
         "Execution failed",
       );
@@ -76,15 +316,18 @@ export class Scheduler implements IScheduler {
 
     await runs.finish(runId, {
       status: result.status,
-      durationMs: result.durationMs,
+      durationMs: outcome.durationMs,
       statusCode: result.statusCode,
       responseBody: result.responseBody,
       err: result.errorMessage,
+      errorDetails: result.criteriaFailure ?? result.authFailure,
+      attempt: attempts.length,
+      attempts: attempts.length > 1 ? attempts : undefined,
     });
 
     // re-read to include any AI hint the planner may have written while running
     const fresh = await jobs.getEndpoint(endpointId);
-    const plan = planNextRun(now, fresh, cron);
+    const plan = planNextRun(now, fresh, cron, jobBlackoutWindows);
 
     // Safety: If execution took longer than the interval, nextRunAt may be in the past.
     // Reschedule from completion time using the originally intended interval.
@@ -92,7 +335,11 @@ export class Scheduler implements IScheduler {
     const currentTimeMs = currentTime.getTime();
     let safeNextRunAt = plan.nextRunAt;
 
-    if (plan.nextRunAt.getTime() < currentTimeMs) {
+    if (catchUp?.nextScheduledFor) {
+      // Replaying a backlog: the next missed occurrence is due right away
+      safeNextRunAt = catchUp.nextScheduledFor;
+    }
+    else if (plan.nextRunAt.getTime() < currentTimeMs) {
       // Use the interval that planNextRun calculated, regardless of source (baseline, AI, clamped)
       // This preserves the scheduling policy while preventing immediate re-claiming
       const intendedIntervalMs = Math.max(plan.nextRunAt.getTime() - now.getTime(), 1000);
@@ -122,14 +369,248 @@ export class Scheduler implements IScheduler {
     await jobs.updateAfterRun(endpointId, {
       lastRunAt: now,
       nextRunAt: safeNextRunAt,
-      status: { status: result.status, durationMs: result.durationMs },
+      status: { status: result.status, durationMs: outcome.durationMs },
       failureCountPolicy: result.status === "success" ? "reset" : "increment",
       clearExpiredHints: true,
+      consumedManualRunId: ep.manualRun?.id,
+    });
+
+    const failureCount = result.status === "success" ? 0 : fresh.failureCount + 1;
+    const finished = { ...fresh, failureCount, lastRunAt: now, nextRunAt: safeNextRunAt };
+    if (result.status === "success")
+      await this.enqueueDependentRuns(finished, currentTime, epLogger);
+
+    await this.emitRunFinished({
+      endpoint: finished,
+      runId,
+      status: result.status,
+      errorMessage: result.errorMessage,
+      failureCount,
+      finishedAt: currentTime,
+    }, epLogger);
+  }
+
+  /**
+   * Records a run the concurrency policy skipped as canceled, with the reason, and moves
+   * the endpoint on to its next occurrence. A run-now request the run would have
+   * consumed is dropped. Failure count and lastRunAt are left alone.
+   */
+  private async recordSkippedRun(
+    ep: JobEndpoint,
+    now: Date,
+    source: string,
+    catchUp: CatchUpRun | undefined,
+    nextRunAt: Date,
+    reason: string,
+    epLogger: Logger,
+    span: Span,
+  ) {
+    const { jobs, runs } = this.d;
+    const scheduledFor = catchUp?.scheduledFor ?? ep.nextRunAt;
+    const runId = await runs.create({
+      endpointId: ep.id,
+      status: "running",
+      attempt: 1,
+      source,
+      leaseOwner: this.workerId,
+      scheduledFor,
+      lagMs: now.getTime() - scheduledFor.getTime(),
+      triggeredBy: ep.manualRun?.requestedBy,
+      traceId: span.traceId,
+    });
+    await runs.finish(runId, { status: "canceled", durationMs: 0, err: reason });
+    span.setAttributes({ "cronicorn.run_id": runId, "cronicorn.run.source": source, "cronicorn.run.status": "canceled" });
+
+    await jobs.updateEndpoint(ep.id, { nextRunAt });
+    if (ep.manualRun)
+      await jobs.clearManualRun(ep.id, ep.manualRun.id);
+    epLogger.warn({ runId, reason, nextRunAt: nextRunAt.toISOString() }, "Run skipped per concurrency policy");
+  }
+
+  /**
+   * Blackout windows set on the endpoint's job. A failed lookup is logged and treated as
+   * none, so the endpoint's own windows still apply.
+   */
+  private async loadJobBlackoutWindows(ep: JobEndpoint, logger: Logger): Promise<BlackoutWindow[]> {
+    if (!ep.jobId)
+      return [];
+
+    try {
+      return (await this.d.jobs.getJob(ep.jobId))?.blackoutWindows ?? [];
+    }
+    catch (err) {
+      logger.error({ err }, "Failed to load job blackout windows");
+      return [];
+    }
+  }
+
+  /**
+   * Whether a claimed endpoint is running because its upstreams satisfied its dependency
+   * (for run source attribution).
+   */
+  private async isDependencyTriggered(ep: JobEndpoint, logger: Logger): Promise<boolean> {
+    if (!ep.jobId || !ep.runAfter || ep.runAfter.upstreamIds.length === 0)
+      return false;
+
+    try {
+      return isDependencySatisfied(ep, await this.d.jobs.listEndpointsByJob(ep.jobId));
+    }
+    catch (err) {
+      logger.error({ err }, "Failed to load upstream endpoints");
+      return false;
+    }
+  }
+
+  /**
+   * After a successful run, enqueue a one-shot run for each dependent whose upstream
+   * condition is now met, by pulling its nextRunAt in. Failures are logged and never
+   * break scheduling: the dependent still runs on its baseline.
+   */
+  private async enqueueDependentRuns(upstream: JobEndpoint, finishedAt: Date, logger: Logger) {
+    if (!upstream.jobId)
+      return;
+
+    try {
+      const siblings = await this.d.jobs.listEndpointsByJob(upstream.jobId);
+      for (const run of planDependentRuns(upstream, siblings, finishedAt)) {
+        await this.d.jobs.setNextRunAtIfEarlier(run.endpointId, run.runAt);
+        logger.info({ dependentId: run.endpointId, runAt: run.runAt.toISOString() }, "Enqueued dependent run");
+      }
+    }
+    catch (err) {
+      logger.error({ err }, "Failed to enqueue dependent runs");
+    }
+  }
+
+  /**
+   * Resolve request templates (`{{ endpoints.<name>.lastResponse... }}`, `{{ run.id }}`, ...)
+   * against the latest responses of the endpoint's siblings. Endpoints without templates
+   * are returned as-is without loading sibling responses.
+   */
+  private async renderTemplates(ep: JobEndpoint, runId: string): Promise<{ endpoint: JobEndpoint } | { error: string }> {
+    if (!hasRequestTemplates(ep))
+      return { endpoint: ep };
+
+    const siblings = ep.jobId ? await this.d.runs.getSiblingLatestResponses(ep.jobId, ep.id) : [];
+    const context = buildTemplateContext({ endpoint: ep, runId, now: this.d.clock.now(), siblings });
+    try {
+      return { endpoint: renderRequestTemplates(ep, context) };
+    }
+    catch (err) {
+      if (err instanceof TemplateError)
+        return { error: `Template error: ${err.message}` };
+      throw err;
+    }
+  }
+
+  /**
+   * A heartbeat endpoint is claimed once its check-in deadline has passed. Nothing is
+   * dispatched: the missed check-in is recorded as a failed run (closing the run a "start"
+   * check-in left open, if any) and the next deadline is set one period from now.
+   * Monthly run limits aren't checked since no request is made.
+   */
+  private async recordMissedCheckIn(endpointId: string, now: Date, epLogger: Logger, span: Span) {
+    const { jobs, runs, cron } = this.d;
+
+    // Re-read: a check-in may have moved the deadline since the claim, and horizon-based
+    // claiming can pick the endpoint up shortly before its deadline
+    const fresh = await jobs.getEndpoint(endpointId);
+    if (fresh.nextRunAt > now) {
+      epLogger.debug({ deadline: fresh.nextRunAt.toISOString() }, "Heartbeat deadline not reached — skipping");
+      return;
+    }
+
+    // A deadline that passed during a pause isn't a miss: the first check-in is expected
+    // one period after the pause ended
+    if (fresh.pausedUntil && fresh.pausedUntil >= fresh.nextRunAt) {
+      const nextRunAt = planHeartbeatDeadline(fresh.pausedUntil, fresh, cron);
+      await jobs.updateEndpoint(endpointId, { nextRunAt });
+      epLogger.debug({ pausedUntil: fresh.pausedUntil.toISOString(), nextDeadline: nextRunAt.toISOString() }, "Heartbeat deadline passed during pause — rescheduled");
+      return;
+    }
+
+    const open = await runs.getOpenRun(endpointId, HEARTBEAT_RUN_SOURCE);
+    const runId = open?.id ?? await runs.create({
+      endpointId,
+      status: "running",
+      attempt: 1,
+      source: MISSED_HEARTBEAT_RUN_SOURCE,
+      leaseOwner: this.workerId,
+      scheduledFor: fresh.nextRunAt,
+      lagMs: now.getTime() - fresh.nextRunAt.getTime(),
+      traceId: span.traceId,
+    });
+    span.setAttributes({ "cronicorn.run_id": runId, "cronicorn.run.source": MISSED_HEARTBEAT_RUN_SOURCE });
+    const deadline = fresh.nextRunAt.toISOString();
+    const errorMessage = open
+      ? `Started at ${open.startedAt.toISOString()} but no completion check-in received by ${deadline}`
+      : `No check-in received by ${deadline}`;
+    const durationMs = open ? Math.max(0, now.getTime() - open.startedAt.getTime()) : 0;
+
+    await runs.finish(runId, { status: "failed", durationMs, err: errorMessage });
+
+    const nextRunAt = planHeartbeatDeadline(now, fresh, cron);
+    const failureCount = fresh.failureCount + 1;
+    epLogger.warn({ runId, deadline, nextDeadline: nextRunAt.toISOString(), failureCount }, "Heartbeat check-in missed");
+
+    await jobs.updateAfterRun(endpointId, {
+      lastRunAt: now,
+      nextRunAt,
+      status: { status: "failed", durationMs },
+      failureCountPolicy: "increment",
+      clearExpiredHints: true,
     });
+
+    await this.emitRunFinished({
+      endpoint: { ...fresh, failureCount, lastRunAt: now, nextRunAt },
+      runId,
+      status: "failed",
+      errorMessage,
+      failureCount,
+      finishedAt: now,
+    }, epLogger);
+  }
+
+  /**
+   * Notify the optional endpoint event subscriber (alerting). Subscriber failures are
+   * logged and never break scheduling.
+   */
+  private async emitRunFinished(event: EndpointRunFinishedEvent, logger: Logger) {
+    if (!this.d.events)
+      return;
+
+    try {
+      await this.d.events.runFinished(event);
+    }
+    catch (err) {
+      logger.error({ err, runId: event.runId }, "Endpoint event subscriber failed");
+    }
+  }
+
+  /**
+   * Renew the endpoint lease periodically while a dispatch is in flight so long-running
+   * executions aren't re-claimed (and double-executed) by another worker.
+   *
+   * @returns Function that stops the heartbeat
+   */
+  private startLeaseHeartbeat(endpointId: string, logger: Logger): () => void {
+    const timer = setInterval(() => {
+      this.d.jobs.renewLease(endpointId, this.workerId, this.leaseTtlMs)
+        .then((held) => {
+          if (!held)
+            logger.warn({ workerId: this.workerId }, "Lease lost during execution — endpoint may be re-claimed by another worker");
+        })
+        .catch((err) => {
+          logger.error({ err, workerId: this.workerId }, "Failed to renew lease");
+        });
+    }, this.leaseRenewIntervalMs);
+
+    return () => clearInterval(timer);
   }
 
   async cleanupZombieRuns(olderThanMs: number) {
     const count = await this.d.runs.cleanupZombieRuns(olderThanMs);
+    this.metrics.zombieRunsCleaned.inc({}, count);
     if (count > 0) {
       this.d.logger.info({ count, olderThanMs }, "Cleaned up zombie runs");
     }
@@ -174,6 +655,7 @@ export class Scheduler implements IScheduler {
       if (metrics.totalRuns >= runsLimit) {
         const startOfNextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
         this.d.logger.warn({ tenantId, endpointId, userTier, totalRuns: metrics.totalRuns, runsLimit }, "Monthly run limit exceeded — skipping execution and deferring to next month");
+        this.metrics.runLimitDeferrals.inc();
         return startOfNextMonth;
       }
     }
@@ -876,7 +876,7 @@ export async function scenario_flash_sale() {
 
     // 3) DRAIN: execute everything that became due during planning
     while (true) {
-      const due = await jobs.claimDueEndpoints(50, 10_000);
+      const due = await jobs.claimDueEndpoints(50, 10_000, "sim-drain");
       if (due.length === 0)
         break;
       for (const _id of due) {